@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { getJob, retryJob } from '@/lib/jobs';
+
+/**
+ * POST /api/admin/jobs/:id/retry
+ * Put a dead-lettered job back on the queue with a fresh set of attempts.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!await storage.isAdmin(userId)) {
+      return NextResponse.json(
+        { message: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const jobId = parseInt(id);
+    if (isNaN(jobId)) {
+      return NextResponse.json(
+        { message: 'Invalid job ID' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { message: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'dead') {
+      return NextResponse.json(
+        { message: 'Only dead-lettered jobs can be retried' },
+        { status: 409 }
+      );
+    }
+
+    const retried = await retryJob(jobId);
+    if (!retried) {
+      return NextResponse.json(
+        { message: 'An identical job is already queued' },
+        { status: 409 }
+      );
+    }
+
+    logger.info('Background job retried by admin', { jobId, name: job.name, adminUserId: userId });
+
+    return NextResponse.json({ job: retried });
+  } catch (error) {
+    logger.error('Error retrying background job', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to retry background job' },
+      { status: 500 }
+    );
+  }
+}
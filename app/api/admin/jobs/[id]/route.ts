@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { getJob } from '@/lib/jobs';
+
+/**
+ * GET /api/admin/jobs/:id
+ * One background job with its payload and last error.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!await storage.isAdmin(userId)) {
+      return NextResponse.json(
+        { message: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const jobId = parseInt(id);
+    if (isNaN(jobId)) {
+      return NextResponse.json(
+        { message: 'Invalid job ID' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { message: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    logger.error('Error fetching background job', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch background job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import {
+  countJobsByStatus,
+  jobStatuses,
+  listJobSchedules,
+  listJobs,
+} from '@/lib/jobs';
+
+const querySchema = z.object({
+  status: z.enum(jobStatuses).optional(),
+  name: z.string().max(80).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  // Paging: id of the oldest job already loaded
+  before: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /api/admin/jobs
+ * Background job queue overview: counts per job and status, cron schedules and
+ * the most recent jobs (filter by status/name).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!await storage.isAdmin(userId)) {
+      return NextResponse.json(
+        { message: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const query = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!query.success) {
+      return NextResponse.json(
+        { message: query.error.issues[0]?.message ?? 'Invalid query', errors: query.error.format() },
+        { status: 400 }
+      );
+    }
+    const { status, name, limit, before } = query.data;
+
+    const [counts, schedules, jobs] = await Promise.all([
+      countJobsByStatus(),
+      listJobSchedules(),
+      listJobs({ status, name, limit, beforeId: before }),
+    ]);
+
+    return NextResponse.json({
+      counts,
+      schedules,
+      jobs,
+      nextCursor: jobs.length === limit ? jobs[jobs.length - 1].id : null,
+    });
+  } catch (error) {
+    logger.error('Error fetching background jobs', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch background jobs' },
+      { status: 500 }
+    );
+  }
+}
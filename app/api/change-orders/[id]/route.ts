@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { getChangeOrderById, voidChangeOrder } from '@/lib/change-orders';
+
+/**
+ * Void a change order that the client hasn't signed yet.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const changeOrder = await getChangeOrderById(parseInt(id));
+
+    if (!changeOrder) {
+      return NextResponse.json(
+        { message: 'Change order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (changeOrder.userId !== userId) {
+      return NextResponse.json(
+        { message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (changeOrder.status !== 'pending') {
+      return NextResponse.json(
+        { message: `Change order is already ${changeOrder.status}` },
+        { status: 409 }
+      );
+    }
+
+    const voided = await voidChangeOrder(changeOrder.id, userId);
+    return NextResponse.json({ changeOrder: voided });
+  } catch (error) {
+    logger.error('Error voiding change order', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to void change order' },
+      { status: 500 }
+    );
+  }
+}
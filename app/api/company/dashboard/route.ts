@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { isCompanyManager } from '@/lib/company-workspace';
+import {
+  EMPTY_SNAPSHOT,
+  getPeriodBounds,
+  listActivityFeed,
+  listCompanySnapshots,
+  listMemberActivity,
+  snapshotPeriodTypes,
+} from '@/lib/crew-analytics';
+
+const querySchema = z.object({
+  period: z.enum(snapshotPeriodTypes).default('weekly'),
+  periods: z.coerce.number().int().min(1).max(52).default(12),
+  feedLimit: z.coerce.number().int().min(1).max(100).default(30),
+  // Feed paging: id of the oldest entry already loaded
+  before: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /api/company/dashboard
+ * Crew dashboard: period snapshots, member leaderboard and the activity feed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership || !isCompanyManager(membership.role)) {
+      return NextResponse.json(
+        { message: 'Only team owners and admins can view the team dashboard' },
+        { status: 403 }
+      );
+    }
+
+    const query = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!query.success) {
+      return NextResponse.json(
+        { message: query.error.issues[0]?.message ?? 'Invalid query', errors: query.error.format() },
+        { status: 400 }
+      );
+    }
+    const { period, periods, feedLimit, before } = query.data;
+
+    const [snapshots, members, feed] = await Promise.all([
+      listCompanySnapshots(membership.companyId, period, periods),
+      listMemberActivity(membership.companyId),
+      listActivityFeed(membership.companyId, feedLimit, before),
+    ]);
+
+    // Periods with no activity have no snapshot row yet
+    const { start, end } = getPeriodBounds(period, new Date());
+    const current = snapshots.find((s) => s.periodStart.getTime() === start.getTime())
+      ?? { ...EMPTY_SNAPSHOT, periodType: period, periodStart: start, periodEnd: end };
+
+    return NextResponse.json({
+      period,
+      current,
+      // Oldest first for charting
+      snapshots: [...snapshots].reverse(),
+      members,
+      feed,
+      nextFeedCursor: feed.length === feedLimit ? feed[feed.length - 1].id : null,
+    });
+  } catch (error) {
+    logger.error('Error fetching crew dashboard', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch team dashboard' },
+      { status: 500 }
+    );
+  }
+}
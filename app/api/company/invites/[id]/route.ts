@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { isCompanyManager } from '@/lib/company-workspace';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership || !isCompanyManager(membership.role)) {
+      return NextResponse.json(
+        { message: 'Only team owners and admins can revoke invites' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const deleted = await storage.deleteInvite(parseInt(id), membership.companyId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { message: 'Invite not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error revoking company invite', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to revoke invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { sendInviteEmail } from '@/lib/services/emailService';
+import { logger } from '@/lib/logger';
+import {
+  canAssignRole,
+  getInviteExpiry,
+  getSeatUsage,
+  inviteMemberSchema,
+  isCompanyManager,
+  isInvitePending,
+} from '@/lib/company-workspace';
+import { recordMemberEvent } from '@/lib/crew-analytics';
+import type { Invite } from '@shared/schema';
+
+// The token only travels in the invite email
+function toInviteResponse(invite: Invite) {
+  return {
+    id: invite.id,
+    email: invite.email,
+    role: invite.role,
+    expiresAt: invite.expiresAt,
+    createdAt: invite.createdAt,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership || !isCompanyManager(membership.role)) {
+      return NextResponse.json(
+        { message: 'Only team owners and admins can view invites' },
+        { status: 403 }
+      );
+    }
+
+    const invites = await storage.getCompanyInvites(membership.companyId);
+
+    return NextResponse.json({
+      invites: invites.filter((invite) => isInvitePending(invite)).map(toInviteResponse),
+    });
+  } catch (error) {
+    logger.error('Error fetching company invites', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch invites' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership || !isCompanyManager(membership.role)) {
+      return NextResponse.json(
+        { message: 'Only team owners and admins can invite members' },
+        { status: 403 }
+      );
+    }
+
+    const validation = inviteMemberSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: validation.error.issues[0]?.message ?? 'Invalid invite', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { email, role } = validation.data;
+    if (!canAssignRole(membership.role, role)) {
+      return NextResponse.json(
+        { message: 'Only the owner can invite admins' },
+        { status: 403 }
+      );
+    }
+
+    const [members, invites] = await Promise.all([
+      storage.getCompanyMembers(membership.companyId),
+      storage.getCompanyInvites(membership.companyId),
+    ]);
+
+    if (members.some((member) => member.user.email?.toLowerCase() === email)) {
+      return NextResponse.json(
+        { message: 'This person is already on your team' },
+        { status: 409 }
+      );
+    }
+    if (invites.some((invite) => invite.email.toLowerCase() === email && isInvitePending(invite))) {
+      return NextResponse.json(
+        { message: 'An invite is already pending for this email' },
+        { status: 409 }
+      );
+    }
+
+    const seats = getSeatUsage(membership.company, members.length, invites);
+    if (seats.available <= 0) {
+      return NextResponse.json(
+        { message: 'All seats are in use. Add seats or revoke a pending invite to invite more members.', seats },
+        { status: 402 }
+      );
+    }
+
+    const invite = await storage.createInvite({
+      companyId: membership.companyId,
+      email,
+      role,
+      token: randomBytes(32).toString('hex'),
+      invitedBy: userId,
+      expiresAt: getInviteExpiry(),
+    });
+
+    const inviter = members.find((member) => member.userId === userId)?.user;
+    const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(' ') || inviter?.email || membership.company.name;
+    const baseUrl = process.env.NEXT_PUBLIC_WEB_BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000');
+
+    const emailResult = await sendInviteEmail({
+      recipientEmail: email,
+      inviterName,
+      companyName: membership.company.name,
+      inviteLink: `${baseUrl}/invite/${invite.token}`,
+      role,
+    });
+    if (!emailResult.success) {
+      logger.warn('Invite email failed to send', { inviteId: invite.id, error: emailResult.error });
+    }
+
+    await recordMemberEvent('member_invited', membership.companyId, userId, { memberEmail: email });
+
+    return NextResponse.json(
+      { invite: toInviteResponse(invite), emailSent: emailResult.success },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error('Error creating company invite', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to send invite' },
+      { status: 500 }
+    );
+  }
+}
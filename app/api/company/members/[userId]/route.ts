@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import {
+  canAssignRole,
+  canManageMember,
+  updateMemberRoleSchema,
+} from '@/lib/company-workspace';
+import { recordMemberEvent } from '@/lib/crew-analytics';
+
+async function findTeamMember(companyId: number, userId: string) {
+  const members = await storage.getCompanyMembers(companyId);
+  return members.find((member) => member.userId === userId);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { userId: targetUserId } = await params;
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership) {
+      return NextResponse.json(
+        { message: 'You are not part of a team workspace' },
+        { status: 404 }
+      );
+    }
+
+    const validation = updateMemberRoleSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: validation.error.issues[0]?.message ?? 'Invalid role', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const target = await findTeamMember(membership.companyId, targetUserId);
+    if (!target) {
+      return NextResponse.json(
+        { message: 'Team member not found' },
+        { status: 404 }
+      );
+    }
+
+    const { role } = validation.data;
+    if (!canManageMember(membership.role, target.role) || !canAssignRole(membership.role, role)) {
+      return NextResponse.json(
+        { message: 'You do not have permission to change this member\'s role' },
+        { status: 403 }
+      );
+    }
+
+    const updated = await storage.updateMemberRole(membership.companyId, targetUserId, role);
+
+    return NextResponse.json({ member: updated });
+  } catch (error) {
+    logger.error('Error updating member role', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to update member role' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { userId: targetUserId } = await params;
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership) {
+      return NextResponse.json(
+        { message: 'You are not part of a team workspace' },
+        { status: 404 }
+      );
+    }
+
+    const target = await findTeamMember(membership.companyId, targetUserId);
+    if (!target) {
+      return NextResponse.json(
+        { message: 'Team member not found' },
+        { status: 404 }
+      );
+    }
+
+    // Anyone but the owner can leave; otherwise removal follows the role hierarchy
+    const isLeaving = targetUserId === userId && target.role !== 'owner';
+    if (!isLeaving && !canManageMember(membership.role, target.role)) {
+      return NextResponse.json(
+        { message: 'You do not have permission to remove this member' },
+        { status: 403 }
+      );
+    }
+
+    // Their company proposals stay with the company so a manager can reassign them
+    await storage.removeMember(membership.companyId, targetUserId);
+    await recordMemberEvent('member_removed', membership.companyId, userId, {
+      memberEmail: target.user.email ?? undefined,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('Error removing team member', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to remove team member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { toTeamMember } from '@/lib/company-workspace';
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership) {
+      return NextResponse.json(
+        { message: 'You are not part of a team workspace' },
+        { status: 404 }
+      );
+    }
+
+    const members = await storage.getCompanyMembers(membership.companyId);
+
+    return NextResponse.json({ members: members.map(toTeamMember) });
+  } catch (error) {
+    logger.error('Error fetching company members', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch team members' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pdfThemeSchema, type PdfTheme } from '@shared/schema';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { DEFAULT_PDF_THEME, resolvePdfTheme, updateCompanyPdfTheme } from '@/lib/pdf-theme';
+
+const updateSchema = z.object({
+  // null lets members use their own themes again
+  theme: pdfThemeSchema.nullable(),
+});
+
+function toResponse(theme: PdfTheme | null) {
+  return {
+    theme: theme ? resolvePdfTheme(theme) : null,
+    defaults: DEFAULT_PDF_THEME,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership) {
+      return NextResponse.json(
+        { message: 'You are not part of a team workspace' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toResponse(membership.company.pdfTheme));
+  } catch (error) {
+    logger.error('Error fetching company PDF theme', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch company PDF theme' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const company = await storage.getCompanyByOwner(userId);
+    if (!company) {
+      return NextResponse.json(
+        { message: 'Only the workspace owner can update the company PDF theme' },
+        { status: 403 }
+      );
+    }
+
+    const validation = updateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          message: validation.error.issues?.[0]?.message ?? 'Invalid PDF theme',
+          errors: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const theme = await updateCompanyPdfTheme(company.id, validation.data.theme);
+    if (theme === undefined) {
+      return NextResponse.json(
+        { message: 'Company not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toResponse(theme));
+  } catch (error) {
+    logger.error('Error updating company PDF theme', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to update company PDF theme' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { canReassignProposal, reassignProposalSchema } from '@/lib/company-workspace';
+
+// Reassign a team proposal to another member (owners and admins only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const proposalId = parseInt(id);
+
+    const validation = reassignProposalSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: validation.error.issues[0]?.message ?? 'Invalid assignee', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const [proposal, membership] = await Promise.all([
+      storage.getProposal(proposalId),
+      storage.getUserCompanyMembership(userId),
+    ]);
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canReassignProposal(proposal, membership)) {
+      return NextResponse.json(
+        { message: 'Only team owners and admins can reassign team proposals' },
+        { status: 403 }
+      );
+    }
+
+    const members = await storage.getCompanyMembers(proposal.companyId!);
+    if (!members.some((member) => member.userId === validation.data.userId)) {
+      return NextResponse.json(
+        { message: 'Proposals can only be assigned to team members' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await storage.reassignProposal(proposalId, proposal.companyId!, validation.data.userId);
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    logger.error('Error reassigning proposal', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to reassign proposal' },
+      { status: 500 }
+    );
+  }
+}
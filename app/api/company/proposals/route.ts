@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { isCompanyManager, toTeamMember } from '@/lib/company-workspace';
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership) {
+      return NextResponse.json(
+        { message: 'You are not part of a team workspace' },
+        { status: 404 }
+      );
+    }
+
+    // Owners and admins see every team proposal; members see their own plus shared ones
+    const [proposals, members] = await Promise.all([
+      storage.getCompanyProposals(membership.companyId, userId, isCompanyManager(membership.role)),
+      storage.getCompanyMembers(membership.companyId),
+    ]);
+    const viewStats = await storage.getProposalViewStatsBulk(proposals.map(p => p.id));
+    const membersById = new Map(members.map((member) => [member.userId, toTeamMember(member)]));
+
+    const response = NextResponse.json({
+      proposals: proposals.map(p => ({
+        ...p,
+        viewCount: viewStats[p.id]?.viewCount || 0,
+        lastViewedAt: viewStats[p.id]?.lastViewedAt || null,
+        isUnlocked: p.isUnlocked ?? false,
+        // null when the assignee has since left the team
+        assignee: membersById.get(p.userId) ?? null,
+        canEdit: p.userId === userId,
+      })),
+    });
+    response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
+    return response;
+  } catch (error) {
+    logger.error('Error fetching team proposals', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch team proposals' },
+      { status: 500 }
+    );
+  }
+}
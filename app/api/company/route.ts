@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { checkCrewEntitlement } from '@/lib/entitlements';
+import { logger } from '@/lib/logger';
+import {
+  createCompanySchema,
+  getSeatUsage,
+  updateCompanySchema,
+} from '@/lib/company-workspace';
+import { recordMemberEvent } from '@/lib/crew-analytics';
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    if (!membership) {
+      return NextResponse.json({ company: null, role: null, seats: null });
+    }
+
+    const [memberCount, pendingInvites] = await Promise.all([
+      storage.getCompanyMemberCount(membership.companyId),
+      storage.getCompanyInvites(membership.companyId),
+    ]);
+
+    return NextResponse.json({
+      company: membership.company,
+      role: membership.role,
+      seats: getSeatUsage(membership.company, memberCount, pendingInvites),
+    });
+  } catch (error) {
+    logger.error('Error fetching company', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch company' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Workspaces are a Crew feature (dev/staging overrides apply)
+    const hasCrewAccess = await storage.hasCrewAccess(userId) || checkCrewEntitlement({
+      userId,
+      email: user.email,
+      subscriptionPlan: user.subscriptionPlan,
+    }).hasCrewAccess;
+    if (!hasCrewAccess) {
+      return NextResponse.json(
+        { message: 'A Crew subscription is required to create a team workspace' },
+        { status: 403 }
+      );
+    }
+
+    if (await storage.getUserCompanyMembership(userId)) {
+      return NextResponse.json(
+        { message: 'You already belong to a team workspace' },
+        { status: 409 }
+      );
+    }
+
+    const validation = createCompanySchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: validation.error.issues[0]?.message ?? 'Invalid company data', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const company = await storage.createCompany({ ...validation.data, ownerId: userId });
+    await recordMemberEvent('member_joined', company.id, userId, { memberEmail: user.email ?? undefined });
+
+    return NextResponse.json({ company, role: 'owner' }, { status: 201 });
+  } catch (error) {
+    logger.error('Error creating company', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to create company' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const company = await storage.getCompanyByOwner(userId);
+    if (!company) {
+      return NextResponse.json(
+        { message: 'Only the workspace owner can update company details' },
+        { status: 403 }
+      );
+    }
+
+    const validation = updateCompanySchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: validation.error.issues[0]?.message ?? 'Invalid company data', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const updated = await storage.updateCompany(company.id, userId, validation.data);
+
+    return NextResponse.json({ company: updated });
+  } catch (error) {
+    logger.error('Error updating company', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to update company' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { oneBuildService } from '@/lib/services/onebuild';
+import { costBreakdownRowFromOneBuildSource } from '@/lib/cost-breakdown';
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,6 +15,9 @@ export async function GET(request: NextRequest) {
     const term = searchParams.get('term');
     const zipcode = searchParams.get('zipcode');
     const type = searchParams.get('type');
+    // Optional: pre-build cost breakdown rows for the given quantity and hourly labor rate
+    const quantity = searchParams.get('quantity');
+    const laborRate = searchParams.get('laborRate');
 
     if (!term || !zipcode) {
       return NextResponse.json(
@@ -30,7 +34,29 @@ export async function GET(request: NextRequest) {
       sourceType
     );
 
-    return NextResponse.json(result);
+    if (!quantity) {
+      return NextResponse.json(result);
+    }
+
+    const parsedQuantity = Number(quantity);
+    const parsedLaborRate = Number(laborRate ?? 0);
+    if (!Number.isFinite(parsedQuantity) || parsedQuantity < 0 || !Number.isFinite(parsedLaborRate) || parsedLaborRate < 0) {
+      return NextResponse.json(
+        { message: "quantity and laborRate must be non-negative numbers" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ...result,
+      breakdownRows: result.sources.map((source) =>
+        costBreakdownRowFromOneBuildSource(source, {
+          id: `onebuild-${source.id}`,
+          quantity: parsedQuantity,
+          laborRate: parsedLaborRate,
+        })
+      ),
+    });
   } catch (error) {
     console.error("Error searching costs:", error);
     return NextResponse.json(
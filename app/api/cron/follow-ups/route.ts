@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runProposalFollowUps } from '@/lib/follow-ups';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/cron/follow-ups
+ * Send due proposal follow-up reminders. Called by the scheduler (see vercel.json).
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json(
+      { message: 'Cron is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runProposalFollowUps();
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('Proposal follow-up run failed', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to run follow-ups' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createWorkerId, runDueJobs } from '@/lib/jobs/runner';
+import { logger } from '@/lib/logger';
+
+export const maxDuration = 60;
+
+// Leave headroom under maxDuration for the job in flight
+const TIME_BUDGET_MS = 40 * 1000;
+const MAX_JOBS_PER_RUN = 25;
+
+/**
+ * GET /api/cron/jobs
+ * Fire due job schedules and drain a batch of queued background jobs. Called
+ * by the scheduler (see vercel.json) for deployments without a standalone
+ * worker (scripts/run-job-worker.ts).
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json(
+      { message: 'Cron is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runDueJobs({
+      workerId: createWorkerId('cron'),
+      maxJobs: MAX_JOBS_PER_RUN,
+      timeBudgetMs: TIME_BUDGET_MS,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('Background job run failed', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to run background jobs' },
+      { status: 500 }
+    );
+  }
+}
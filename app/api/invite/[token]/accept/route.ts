@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { isInvitePending } from '@/lib/company-workspace';
+import { recordMemberEvent } from '@/lib/crew-analytics';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { token } = await params;
+    const invite = await storage.getInviteByToken(token);
+
+    if (!invite || !isInvitePending(invite)) {
+      return NextResponse.json(
+        { message: 'This invite link is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user?.email || user.email.toLowerCase() !== invite.email.toLowerCase()) {
+      return NextResponse.json(
+        { message: `This invite was sent to ${invite.email}. Sign in with that email to accept it.` },
+        { status: 403 }
+      );
+    }
+
+    // Membership, the seat count and using the invite are checked and applied together
+    const result = await storage.acceptInvite(token, userId);
+    if (result.status === 'already_member') {
+      return NextResponse.json(
+        { message: 'You already belong to a team workspace' },
+        { status: 409 }
+      );
+    }
+    if (result.status === 'no_seats') {
+      return NextResponse.json(
+        { message: 'This team has no seats left. Ask the team owner to add seats.' },
+        { status: 402 }
+      );
+    }
+    if (result.status === 'used') {
+      return NextResponse.json(
+        { message: 'This invite has already been used' },
+        { status: 409 }
+      );
+    }
+
+    await recordMemberEvent('member_joined', invite.companyId, userId, { memberEmail: user.email });
+
+    return NextResponse.json({
+      success: true,
+      company: { id: invite.company.id, name: invite.company.name },
+      role: invite.role,
+    });
+  } catch (error) {
+    logger.error('Error accepting invite', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to accept invite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { logger } from '@/lib/logger';
+import { isInvitePending } from '@/lib/company-workspace';
+
+// Public: the invite page shows who the invite is for before the user signs in
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const invite = await storage.getInviteByToken(token);
+
+    if (!invite || !isInvitePending(invite)) {
+      return NextResponse.json(
+        { message: 'This invite link is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      email: invite.email,
+      role: invite.role,
+      companyName: invite.company.name,
+      expiresAt: invite.expiresAt,
+    });
+  } catch (error) {
+    logger.error('Error fetching invite', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to load invite' },
+      { status: 500 }
+    );
+  }
+}
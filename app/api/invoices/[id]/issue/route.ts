@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { getInvoiceById, issueInvoice } from '@/lib/invoices';
+
+const issueInvoiceSchema = z.object({
+  dueInDays: z.number().int().min(0).max(90).optional(),
+});
+
+/**
+ * Issue a scheduled progress/final invoice once its milestone is reached.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const invoice = await getInvoiceById(parseInt(id));
+
+    if (!invoice) {
+      return NextResponse.json(
+        { message: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    if (invoice.userId !== userId) {
+      return NextResponse.json(
+        { message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (invoice.status !== 'scheduled') {
+      return NextResponse.json(
+        { message: `Invoice is already ${invoice.status}` },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = issueInvoiceSchema.safeParse(body ?? {});
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: 'Invalid request', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const issued = await issueInvoice(invoice.id, userId, validation.data.dueInDays);
+    return NextResponse.json({ invoice: issued });
+  } catch (error) {
+    logger.error('Error issuing invoice', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to issue invoice' },
+      { status: 500 }
+    );
+  }
+}
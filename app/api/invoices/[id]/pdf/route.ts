@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { buildInvoicePdf } from '@/lib/services/invoicePdf';
+import { getInvoiceById, getInvoiceByPublicToken, listInvoicesByProposal } from '@/lib/invoices';
+import { logger } from '@/lib/logger';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const invoiceId = parseInt(id);
+
+    if (isNaN(invoiceId)) {
+      return NextResponse.json(
+        { message: 'Invalid invoice ID' },
+        { status: 400 }
+      );
+    }
+
+    // Allow public access if the invoice's pay-page token is provided
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get('token');
+
+    let invoice;
+    if (token) {
+      invoice = await getInvoiceByPublicToken(token);
+      if (invoice && invoice.id !== invoiceId) {
+        invoice = undefined;
+      }
+    } else {
+      const userId = await getRequestUserId(request);
+      if (!userId) {
+        return NextResponse.json(
+          { message: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      invoice = await getInvoiceById(invoiceId);
+      if (invoice && invoice.userId !== userId) {
+        return NextResponse.json(
+          { message: 'Access denied' },
+          { status: 403 }
+        );
+      }
+    }
+
+    if (!invoice) {
+      return NextResponse.json(
+        { message: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const [proposal, user, schedule] = await Promise.all([
+      storage.getProposal(invoice.proposalId),
+      storage.getUser(invoice.userId),
+      listInvoicesByProposal(invoice.proposalId),
+    ]);
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_WEB_BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
+
+    const { pdfBytes, filename, sha256 } = buildInvoicePdf({
+      invoice,
+      proposal,
+      schedule,
+      companyInfo: user ? {
+        companyName: user.companyName,
+        companyAddress: user.companyAddress,
+        companyPhone: user.companyPhone,
+        licenseNumber: user.licenseNumber,
+        companyLogo: user.companyLogo,
+      } : null,
+      payUrl: `${baseUrl}/i/${invoice.publicToken}`,
+      isPro: user?.isPro || false,
+    });
+
+    const encodedFilename = encodeURIComponent(filename);
+    const byteLength = Buffer.byteLength(Buffer.from(pdfBytes));
+
+    return new NextResponse(pdfBytes, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodedFilename}`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Length': String(byteLength),
+        'ETag': `"${sha256}"`,
+      },
+    });
+  } catch (error) {
+    logger.error('Error generating invoice PDF', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to generate PDF' },
+      { status: 500 }
+    );
+  }
+}
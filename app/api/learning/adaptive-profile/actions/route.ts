@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { adaptiveActionBatchSchema } from '@/src/lib/learning/adaptive-learning';
+import { recordAdaptiveActions } from '@/src/lib/learning/adaptive-profile-storage';
+
+/**
+ * POST /api/learning/adaptive-profile/actions
+ * Record a batch of silently tracked actions and return the updated profile.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = adaptiveActionBatchSchema.safeParse(await request.json().catch(() => null));
+    if (!body.success) {
+      return NextResponse.json(
+        { message: body.error.issues[0]?.message ?? 'Invalid actions', errors: body.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const profile = await recordAdaptiveActions(userId, body.data.actions);
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    logger.error('Error recording adaptive actions', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to record actions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { profileMergeSchema } from '@/src/lib/learning/adaptive-learning';
+import { mergeLocalAdaptiveProfile } from '@/src/lib/learning/adaptive-profile-storage';
+
+/**
+ * POST /api/learning/adaptive-profile/merge
+ * First sync from a device: merge the profile and action history it learned
+ * in localStorage into the stored profile. Safe to retry.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = profileMergeSchema.safeParse(await request.json().catch(() => null));
+    if (!body.success) {
+      return NextResponse.json(
+        { message: body.error.issues[0]?.message ?? 'Invalid profile', errors: body.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const result = await mergeLocalAdaptiveProfile(userId, body.data);
+    if (result.merged) {
+      logger.info('Merged local adaptive profile', {
+        userId,
+        actions: body.data.actions.length,
+        totalActions: result.profile.totalActions,
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error('Error merging adaptive profile', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to merge adaptive profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { getAdaptiveProfile } from '@/src/lib/learning/adaptive-profile-storage';
+
+/**
+ * GET /api/learning/adaptive-profile
+ * The signed-in user's adaptive profile (shared by desktop and mobile).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const profile = await getAdaptiveProfile(userId);
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    logger.error('Error fetching adaptive profile', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch adaptive profile' },
+      { status: 500 }
+    );
+  }
+}
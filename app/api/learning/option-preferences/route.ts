@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { getOptionPreselections } from '@/src/lib/learning/learning-service';
+import { parseAddressGeo } from '@/src/lib/learning/aggregation';
+
+const optionPreferencesSchema = z.object({
+  tradeId: z.string().min(1, 'Trade and job type required'),
+  jobTypeId: z.string().min(1, 'Trade and job type required'),
+  // Job address; its ZIP/state select the area preferences
+  address: z.string().optional(),
+});
+
+/**
+ * POST /api/learning/option-preferences
+ * Options to preselect for a job type, learned from the user's and their area's past proposals
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = optionPreferencesSchema.safeParse(await request.json().catch(() => null));
+    if (!body.success) {
+      return NextResponse.json(
+        { message: body.error.issues[0]?.message ?? 'Invalid request', errors: body.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { tradeId, jobTypeId, address } = body.data;
+    const geo = parseAddressGeo(address);
+    const preselections = await getOptionPreselections({
+      userId,
+      tradeId,
+      jobTypeId,
+      zipcode: geo.zipcode ?? undefined,
+      state: geo.state ?? undefined,
+    });
+
+    return NextResponse.json({ preselections });
+  } catch (error) {
+    logger.error('Error getting option preferences', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to get option preferences' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/services/db';
 import { pricingPatterns, geographicPatterns } from '@shared/schema';
-import { eq, and, sql, count } from 'drizzle-orm';
+import { eq, and, sql, count, isNull } from 'drizzle-orm';
 
 /**
  * POST /api/learning/pricing-suggestion
@@ -43,15 +43,16 @@ export async function POST(request: NextRequest) {
         jobSize ? eq(pricingPatterns.jobSize, jobSize) : sql`true`,
       ));
 
-    // Get local area patterns
+    // Get local area aggregates (user_id NULL rows, one per job size)
     const localPatterns = zipcode ? await db
       .select({
-        avgAdjustment: sql<number>`AVG(${pricingPatterns.adjustmentPercent})`,
-        winRate: sql<number>`AVG(CASE WHEN ${pricingPatterns.outcome} = 'won' THEN 100 ELSE 0 END)`,
-        count: count(),
+        avgAdjustment: sql<number>`ROUND(SUM(${pricingPatterns.avgAdjustmentPercent} * ${pricingPatterns.sampleCount})::numeric / NULLIF(SUM(${pricingPatterns.sampleCount}), 0))::int`,
+        winRate: sql<number | null>`ROUND(AVG(${pricingPatterns.winRate}))::int`,
+        count: sql<number>`COALESCE(SUM(${pricingPatterns.sampleCount}), 0)::int`,
       })
       .from(pricingPatterns)
       .where(and(
+        isNull(pricingPatterns.userId),
         eq(pricingPatterns.tradeId, tradeId),
         eq(pricingPatterns.jobTypeId, jobTypeId),
         eq(pricingPatterns.zipcode, zipcode),
@@ -86,7 +87,7 @@ export async function POST(request: NextRequest) {
       adjustment = localPatterns[0].avgAdjustment || 0;
       confidence = Math.min(80, 50 + Math.floor(localPatterns[0].count / 2));
       reason = `Based on local market data (${localPatterns[0].count} jobs in area)`;
-      localWinRate = localPatterns[0].winRate;
+      localWinRate = localPatterns[0].winRate ?? undefined;
     }
     // Apply geographic multiplier if available
     else if (geoPattern && geoPattern.length > 0) {
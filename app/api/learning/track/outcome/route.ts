@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/services/db';
-import { userActionLog, pricingPatterns, scopeItemPatterns, proposals, mobileJobDrafts } from '@shared/schema';
+import { userActionLog, pricingPatterns, proposals, mobileJobDrafts } from '@shared/schema';
+import { parseAddressGeo } from '@/src/lib/learning/aggregation';
 import { eq, and, sql } from 'drizzle-orm';
 
 /**
@@ -75,39 +76,15 @@ export async function POST(request: NextRequest) {
         sql`${pricingPatterns.createdAt} <= ${proposal.createdAt}::timestamp + interval '1 day'`,
       ));
 
-    // Update scope item patterns with win/loss correlation
-    const scope = proposal.scope as string[] || [];
-    for (const scopeItem of scope) {
-      const existing = await db
-        .select()
-        .from(scopeItemPatterns)
-        .where(and(
-          eq(scopeItemPatterns.tradeId, proposal.tradeId || ''),
-          eq(scopeItemPatterns.jobTypeId, proposal.jobTypeId || ''),
-          eq(scopeItemPatterns.scopeItem, scopeItem),
-        ))
-        .limit(1);
-
-      if (existing.length > 0) {
-        const updates = outcome === 'won'
-          ? { wonWithItem: sql`${scopeItemPatterns.wonWithItem} + 1` }
-          : { lostWithItem: sql`${scopeItemPatterns.lostWithItem} + 1` };
-
-        await db
-          .update(scopeItemPatterns)
-          .set(updates)
-          .where(eq(scopeItemPatterns.id, existing[0].id));
-      }
-    }
-
-    // Log the outcome action
+    // Log the outcome action. Scope item win/loss correlation and area
+    // patterns are derived from it by the nightly aggregation job.
     await db.insert(userActionLog).values({
       userId,
       actionType: outcome === 'won' ? 'proposal_won' : 'proposal_lost',
       proposalId,
       tradeId: proposal.tradeId ?? null,
       jobTypeId: proposal.jobTypeId ?? null,
-      zipcode: null, // Could parse from address if needed
+      ...parseAddressGeo(proposal.address),
       payload: { finalValue },
       outcomeType: outcome,
       outcomeValue: finalValue ?? null,
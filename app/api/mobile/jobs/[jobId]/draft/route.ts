@@ -4,36 +4,19 @@ import { storage } from "@/lib/services/storage";
 import { db } from "@/lib/services/db";
 import { mobileJobDrafts } from "@shared/schema";
 import { and, eq, desc } from "drizzle-orm";
-import { enqueueDraft, ensureDraftWorker } from "@/src/lib/mobile/draft/worker";
+import { z } from "zod";
+import { enqueueDraft } from "@/src/lib/mobile/draft/worker";
+import { selectedIssueSchema } from "@/src/lib/mobile/draft/input";
+import { scopeSelectionSchema, type ScopeSelection } from "@/src/lib/mobile/findings/types";
 import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
 
-import type { RemedyType, Remedy } from "@/src/lib/mobile/remedy";
-
-// Selected issue from client (with remedy support)
-type SelectedIssue = {
-  id: string;
-  label: string;
-  category: string;
-  // Remedy fields (repair vs replace)
-  issueType?: string;
-  tags?: string[];
-  remedies?: Remedy;
-  selectedRemedy?: RemedyType;
-};
-
-// Scope selection from FindingsSummary screen
-type ScopeSelection = {
-  selectedTierId?: string;
-  answers: Record<string, string | number | boolean | string[]>;
-  measurements?: {
-    squareFeet?: number;
-    linearFeet?: number;
-    roomCount?: number;
-    wallCount?: number;
-    ceilingHeight?: number;
-  };
-  problemStatement?: string;
-};
+// Selected issues and scope selection from the FindingsSummary screen
+const draftRequestSchema = z.object({
+  selectedIssues: z.array(selectedIssueSchema).optional(),
+  problemStatement: z.string().optional(),
+  scopeSelection: scopeSelectionSchema.optional(),
+  selectedTierId: z.string().optional(),
+});
 
 // POST /api/mobile/jobs/:jobId/draft (trigger generation)
 export async function POST(
@@ -60,32 +43,29 @@ export async function POST(
     }
 
     // Parse body for selected issues context and scope selection
-    let selectedIssues: SelectedIssue[] | undefined;
-    let problemStatement: string | undefined;
-    let scopeSelection: ScopeSelection | undefined;
+    let body: unknown = {};
     try {
-      const body = await request.json();
-      if (body.selectedIssues && Array.isArray(body.selectedIssues)) {
-        selectedIssues = body.selectedIssues;
-      }
-      if (body.problemStatement && typeof body.problemStatement === "string") {
-        problemStatement = body.problemStatement;
-      }
-      // Parse scope selection from findings flow
-      if (body.scopeSelection && typeof body.scopeSelection === "object") {
-        scopeSelection = body.scopeSelection as ScopeSelection;
-        // Use problemStatement from scopeSelection if not provided directly
-        if (!problemStatement && scopeSelection.problemStatement) {
-          problemStatement = scopeSelection.problemStatement;
-        }
-      }
-      // Use selectedTierId from body if provided
-      if (body.selectedTierId && typeof body.selectedTierId === "string") {
-        scopeSelection = scopeSelection || { answers: {} };
-        scopeSelection.selectedTierId = body.selectedTierId;
-      }
+      body = await request.json();
     } catch {
-      // Body parsing failed, continue without context
+      // No body: draft from job notes and photos only
+    }
+    const parsed = draftRequestSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      return jsonError(
+        requestId,
+        400,
+        "INVALID_INPUT",
+        parsed.error.issues[0]?.message ?? "Invalid draft input"
+      );
+    }
+
+    const { selectedIssues } = parsed.data;
+    let scopeSelection: ScopeSelection | undefined = parsed.data.scopeSelection;
+    // Use problemStatement from scopeSelection if not provided directly
+    const problemStatement = parsed.data.problemStatement || scopeSelection?.problemStatement;
+    // Use selectedTierId from body if provided
+    if (parsed.data.selectedTierId) {
+      scopeSelection = { ...(scopeSelection ?? { answers: {} }), selectedTierId: parsed.data.selectedTierId };
     }
 
     // Enqueue and return immediately
@@ -98,7 +78,6 @@ export async function POST(
       problemStatement,
       scopeSelection,
     });
-    ensureDraftWorker();
 
     logEvent("mobile.draft.enqueue.ok", { 
       requestId, 
@@ -138,9 +117,6 @@ export async function GET(
       return jsonError(requestId, 404, "NOT_FOUND", "Job not found");
     }
 
-    // Ensure worker is running (best-effort)
-    ensureDraftWorker();
-
     const [draft] = await db
       .select()
       .from(mobileJobDrafts)
@@ -5,7 +5,6 @@ import { db } from "@/lib/services/db";
 import { mobileJobPhotos } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
-import { ensureVisionWorker } from "@/src/lib/mobile/vision/worker";
 import {
   type Finding,
   type Unknown,
@@ -56,9 +55,6 @@ export async function GET(
       return jsonError(requestId, 404, "NOT_FOUND", "Job not found");
     }
 
-    // Ensure vision worker is running
-    ensureVisionWorker();
-
     // Get all photos for this job
     const photos = await db
       .select()
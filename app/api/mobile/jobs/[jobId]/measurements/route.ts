@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import { requireMobileAuth } from "@/src/lib/mobile/auth";
+import { saveMeasurementsRequestSchema } from "@/src/lib/mobile/types";
+import { storage } from "@/lib/services/storage";
+import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
+
+// PUT /api/mobile/jobs/:jobId/measurements - Save map measurements (last write wins)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const requestId = getRequestId(request.headers);
+  const t0 = Date.now();
+
+  try {
+    // 1. Validate jobId param format FIRST (before auth)
+    const { jobId } = await params;
+    const jobIdNum = parseInt(jobId, 10);
+
+    if (isNaN(jobIdNum)) {
+      return jsonError(requestId, 400, "INVALID_INPUT", "Invalid job ID");
+    }
+
+    // 2. Check auth AFTER validating jobId format
+    const authResult = await requireMobileAuth(request, requestId);
+    if (!authResult.ok) return authResult.response;
+
+    const body = await request.json().catch(() => null);
+    const parsed = saveMeasurementsRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError(
+        requestId,
+        400,
+        "INVALID_INPUT",
+        parsed.error.issues[0]?.message ?? "Invalid measurements payload"
+      );
+    }
+
+    const job = await storage.getMobileJob(jobIdNum, authResult.userId);
+    if (!job) {
+      return jsonError(requestId, 404, "NOT_FOUND", "Job not found");
+    }
+
+    const updatedJob = await storage.updateMobileJob(jobIdNum, authResult.userId, {
+      measurements: parsed.data.measurements,
+    });
+
+    logEvent("mobile.jobs.measurements.ok", {
+      requestId,
+      jobId: jobIdNum,
+      ms: Date.now() - t0,
+    });
+
+    return withRequestId(requestId, {
+      id: jobIdNum,
+      measurements: updatedJob?.measurements ?? null,
+    });
+  } catch (error) {
+    console.error("Error saving mobile job measurements:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonError(requestId, 500, "INTERNAL", `Failed to save measurements: ${message}`);
+  }
+}
@@ -5,7 +5,6 @@ import { db } from "@/lib/services/db";
 import { mobileJobPhotos } from "@shared/schema";
 import { and, desc, eq, isNull, lte, or } from "drizzle-orm";
 import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
-import { ensureVisionWorker } from "@/src/lib/mobile/vision/worker";
 import { runVisionForPhoto } from "@/src/lib/mobile/vision/runner";
 import { enrichIssuesWithRemedies, type Remedy } from "@/src/lib/mobile/remedy";
 
@@ -157,10 +156,8 @@ function detectCriticalError(errorMessage: string): AdvanceAnalysisResult["criti
 }
 
 async function advanceAnalysis(params: { jobId: number; requestId: string; maxToProcess: number }): Promise<AdvanceAnalysisResult> {
-  // Best-effort: start the in-process worker (useful on Node deployments).
-  // On serverless, this likely doesn't persist; the inline processing below still advances progress.
-  ensureVisionWorker();
-
+  // Queued vision jobs advance photos in the background too; processing inline
+  // here keeps progress moving while the client is waiting on the result.
   const now = new Date();
   const lockExpiry = new Date(now.getTime() - LOCK_EXPIRY_MS);
   const lockedBy = `api-${params.requestId}-${Math.random().toString(16).slice(2)}`;
@@ -3,13 +3,13 @@ import { requireMobileAuth } from "@/src/lib/mobile/auth";
 import { registerPhotoRequestSchema } from "@/src/lib/mobile/types";
 import { storage } from "@/lib/services/storage";
 import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
-import { ensureVisionWorker } from "@/src/lib/mobile/vision/worker";
+import { enqueueVisionJob } from "@/src/lib/mobile/vision/worker";
 import { runVisionForPhoto } from "@/src/lib/mobile/vision/runner";
 import { db } from "@/lib/services/db";
 import { mobileJobPhotos } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { upsertPhotoRow } from "@/src/lib/similar-jobs/db";
-import { enqueueEmbeddingJob, ensureSimilarJobEmbeddingWorker } from "@/src/lib/similar-jobs/worker";
+import { enqueueEmbeddingJob } from "@/src/lib/similar-jobs/worker";
 
 // IMPORTANT: Use Node.js runtime for AWS SDK compatibility and Buffer support.
 export const runtime = "nodejs";
@@ -96,15 +96,14 @@ export async function POST(
     try {
       await upsertPhotoRow({ jobId: id, publicUrl: parsed.data.url });
       await enqueueEmbeddingJob(id);
-      ensureSimilarJobEmbeddingWorker();
     } catch (e) {
       // Never fail photo registration due to similarity pipeline.
       const msg = e instanceof Error ? e.message : String(e);
       console.warn("similarity.enqueue.failed", { jobId: id, error: msg });
     }
 
-    // Start background worker for other photos
-    ensureVisionWorker();
+    // Queue analysis so the job worker retries if the immediate attempt below fails
+    await enqueueVisionJob(photo.id);
 
     // IMMEDIATELY start analyzing this photo (don't wait for worker)
     // This provides instant feedback on the uploaded photo
@@ -2,11 +2,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/services/db";
 import { mobileJobs, mobileJobPhotos } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import { createS3Client, isS3Configured } from "@/src/lib/mobile/storage/s3";
+import { and, eq } from "drizzle-orm";
+import { createS3Client, isS3Configured, presignGetObject } from "@/src/lib/mobile/storage/s3";
 import { PutObjectCommand } from "@aws-sdk/client-s3";
 import { upsertPhotoRow } from "@/src/lib/similar-jobs/db";
-import { enqueueEmbeddingJob, ensureSimilarJobEmbeddingWorker } from "@/src/lib/similar-jobs/worker";
+import { enqueueEmbeddingJob } from "@/src/lib/similar-jobs/worker";
+import { enqueueVisionJob } from "@/src/lib/mobile/vision/worker";
 import { requireMobileAuth } from "@/src/lib/mobile/auth"; // Auth check
 import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
 import sharp from "sharp";
@@ -92,6 +93,11 @@ export async function POST(
         if (files.length === 0) return jsonError(requestId, 400, "INVALID_INPUT", "No files provided");
         if (files.length > MAX_FILES) return jsonError(requestId, 413, "PAYLOAD_TOO_LARGE", `Too many files (max ${MAX_FILES})`);
 
+        // Single-file uploads replayed from the offline outbox carry an Idempotency-Key.
+        // It becomes the object name, so a replay finds the photo it already stored.
+        const idem = request.headers.get("idempotency-key");
+        const idemName = idem && files.length === 1 ? idem.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 120) : null;
+
         // 5. Process uploads
         const uploadedPhotos: Array<{ id: number; publicUrl: string }> = [];
         const errors: Array<{ filename: string; error: string }> = [];
@@ -134,7 +140,21 @@ export async function POST(
                 }
 
                 const ext = contentType === "image/png" ? "png" : "jpg";
-                const key = `mobile/${authResult.userId}/jobs/${id}/site-${crypto.randomUUID()}.${ext}`;
+                const key = `mobile/${authResult.userId}/jobs/${id}/site-${idemName ?? crypto.randomUUID()}.${ext}`;
+                const publicUrl = `${publicBaseUrl.replace(/\/+$/, "")}/${key}`;
+
+                if (idemName) {
+                    const [existing] = await db
+                        .select()
+                        .from(mobileJobPhotos)
+                        .where(and(eq(mobileJobPhotos.jobId, id), eq(mobileJobPhotos.publicUrl, publicUrl)))
+                        .limit(1);
+                    if (existing) {
+                        const signedUrl = await presignGetObject(publicUrl);
+                        uploadedPhotos.push({ id: existing.id, publicUrl: signedUrl });
+                        continue;
+                    }
+                }
 
                 await client.send(
                     new PutObjectCommand({
@@ -146,18 +166,17 @@ export async function POST(
                     })
                 );
 
-                const publicUrl = `${publicBaseUrl.replace(/\/+$/, "")}/${key}`;
-
                 const [photo] = await db
                     .insert(mobileJobPhotos)
                     .values({ jobId: id, publicUrl, kind: "site" })
                     .returning();
 
+                await enqueueVisionJob(photo.id);
+
                 // Similar Jobs
                 try {
                     await upsertPhotoRow({ jobId: id, publicUrl });
                     await enqueueEmbeddingJob(id);
-                    ensureSimilarJobEmbeddingWorker();
                 } catch (e) {
                     const msg = e instanceof Error ? e.message : String(e);
                     console.warn("similarity.enqueue.failed", { jobId: id, error: msg });
@@ -167,7 +186,7 @@ export async function POST(
                 await db.update(mobileJobs).set({ status: "photos_uploaded", updatedAt: new Date() }).where(eq(mobileJobs.id, id));
 
                 // Sign the URL for immediate display
-                const signedUrl = await import("@/src/lib/mobile/storage/s3").then(m => m.presignGetObject(publicUrl));
+                const signedUrl = await presignGetObject(publicUrl);
                 uploadedPhotos.push({ id: photo.id, publicUrl: signedUrl });
             } catch (uploadError) {
                 console.error(`Job ${id}: Failed to upload ${file.name}:`, uploadError);
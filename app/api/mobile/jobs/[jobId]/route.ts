@@ -8,6 +8,7 @@ import { z } from "zod";
 const updateJobSchema = z.object({
   clientName: z.string().min(2).max(100).optional(),
   address: z.string().min(5).max(500).optional(),
+  jobNotes: z.string().max(5000).nullable().optional(),
 });
 
 // GET /api/mobile/jobs/:jobId - Get job details
@@ -50,8 +51,12 @@ export async function GET(
       tradeId: job.tradeId,
       tradeName: job.tradeName,
       jobTypeId: job.jobTypeId,
+      // Measure pages route on `jobType`
+      jobType: job.jobTypeId,
       jobTypeName: job.jobTypeName,
       jobSize: job.jobSize,
+      jobNotes: job.jobNotes,
+      measurements: job.measurements ?? null,
       status: job.status,
       createdAt: job.createdAt,
       updatedAt: job.updatedAt,
@@ -97,18 +102,19 @@ export async function PATCH(
     }
 
     // At least one field must be provided
-    if (!parsed.data.clientName && !parsed.data.address) {
+    if (!parsed.data.clientName && !parsed.data.address && parsed.data.jobNotes === undefined) {
       return jsonError(
         requestId,
         400,
         "INVALID_INPUT",
-        "At least one of clientName or address must be provided"
+        "At least one of clientName, address or jobNotes must be provided"
       );
     }
 
     const updatedJob = await storage.updateMobileJob(jobIdNum, authResult.userId, {
       clientName: parsed.data.clientName,
       address: parsed.data.address,
+      jobNotes: parsed.data.jobNotes === undefined ? undefined : parsed.data.jobNotes?.trim() || null,
     });
 
     if (!updatedJob) {
@@ -125,6 +131,7 @@ export async function PATCH(
       id: updatedJob.id,
       clientName: updatedJob.clientName,
       address: updatedJob.address,
+      jobNotes: updatedJob.jobNotes,
       status: updatedJob.status,
     });
   } catch (error) {
@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server";
+import { requireMobileAuth } from "@/src/lib/mobile/auth";
+import { storage } from "@/lib/services/storage";
+import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
+import { findSimilarJobs } from "@/src/lib/similar-jobs/search";
+import { similarJobsPricePrior, type SimilarJob, type SimilarJobsPricePrior } from "@/src/lib/similar-jobs/prior";
+
+export const runtime = "nodejs";
+
+type SimilarJobsOk = {
+  ok: true;
+  // "pending" until the job's photos have been embedded
+  status: "ready" | "pending";
+  scope: "own" | "company";
+  similar: SimilarJob[];
+  // Price anchor the draft uses when enough close jobs have a price
+  anchor: SimilarJobsPricePrior | null;
+  disabled?: boolean;
+  reason?: "embeddings_not_configured";
+};
+
+type SimilarJobsErr = {
+  ok: false;
+  error: "similar_jobs_failed";
+};
+
+// GET /api/mobile/jobs/:jobId/similar?k=5&scope=company
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const requestId = getRequestId(request.headers);
+  const t0 = Date.now();
+  let jobIdNum: number | null = null;
+  try {
+    // 1. Validate jobId param format FIRST (before auth)
+    const { jobId } = await params;
+    const id = parseInt(jobId);
+    if (Number.isNaN(id)) return jsonError(requestId, 400, "INVALID_INPUT", "Invalid jobId");
+
+    // 2. Check auth AFTER validating jobId format
+    const authResult = await requireMobileAuth(request, requestId);
+    if (!authResult.ok) return authResult.response;
+    jobIdNum = id;
+
+    const job = await storage.getMobileJob(id, authResult.userId);
+    if (!job) return jsonError(requestId, 404, "NOT_FOUND", "Job not found");
+
+    const searchParams = new URL(request.url).searchParams;
+    // Anything that isn't a number (?k=abc) falls back to the default
+    const requestedK = parseInt(searchParams.get("k") ?? "", 10);
+    const k = Number.isFinite(requestedK) ? Math.max(1, Math.min(10, requestedK)) : 5;
+    const scope = searchParams.get("scope") === "company" ? "company" : "own";
+
+    const similar = await findSimilarJobs({
+      jobId: id,
+      userId: authResult.userId,
+      includeCompany: scope === "company",
+      limit: k,
+    });
+
+    if (!similar) {
+      const body: SimilarJobsOk = { ok: true, status: "pending", scope, similar: [], anchor: null };
+      logEvent("mobile.similarJobs.noEmbedding", {
+        requestId,
+        jobId: id,
+        k,
+        duration_ms: Date.now() - t0,
+      });
+      return withRequestId(requestId, body, 200);
+    }
+
+    const anchor = similarJobsPricePrior(similar, { jobTypeId: job.jobTypeId, jobSize: job.jobSize });
+
+    logEvent("mobile.similarJobs.ok", {
+      requestId,
+      jobId: id,
+      k,
+      scope,
+      matches: similar.length,
+      anchored: anchor?.jobIds.length ?? 0,
+      duration_ms: Date.now() - t0,
+    });
+
+    const body: SimilarJobsOk = { ok: true, status: "ready", scope, similar, anchor };
+    return withRequestId(requestId, body, 200);
+  } catch (e) {
+    const err = e as { code?: string; message?: string };
+
+    // Graceful disable when embeddings tables aren't present (optional feature).
+    // Postgres: 42P01 = undefined_table
+    if (err?.code === "42P01") {
+      const body: SimilarJobsOk = {
+        ok: true,
+        status: "ready",
+        scope: "own",
+        similar: [],
+        anchor: null,
+        disabled: true,
+        reason: "embeddings_not_configured",
+      };
+      logEvent("mobile.similarJobs.disabled", {
+        requestId,
+        jobId: jobIdNum ?? null,
+        pgCode: err.code,
+        duration_ms: Date.now() - t0,
+      });
+      return withRequestId(requestId, body, 200);
+    }
+
+    console.error("mobile.similarJobs.failed", {
+      requestId,
+      jobId: jobIdNum ?? null,
+      message: err?.message ?? String(e),
+      code: err?.code,
+    });
+    const body: SimilarJobsErr = { ok: false, error: "similar_jobs_failed" };
+    return withRequestId(requestId, body, 500);
+  }
+}
@@ -3,6 +3,8 @@ import { requireMobileAuth } from "@/src/lib/mobile/auth";
 import { storage } from "@/lib/services/storage";
 import { billingService } from "@/lib/services/billingService";
 import { insertProposalSchema } from "@shared/schema";
+import { lookupCostIndex } from "@/lib/cost-index";
+import { buildContractTerms } from "@/lib/contract-terms";
 import { z } from "zod";
 import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
 import { db } from "@/lib/services/db";
@@ -10,6 +12,8 @@ import { sql } from "drizzle-orm";
 import { createHash } from "crypto";
 import { logger } from "@/lib/logger";
 import { USER_SESSION_COOKIE } from "@/lib/user-session";
+import { recordProposalEvent } from "@/lib/crew-analytics";
+import { recordProposalOptionSelections } from "@/src/lib/learning/learning-service";
 
 // Log DB connection info on module load (masked for security)
 const logDbInfo = () => {
@@ -115,6 +119,8 @@ export async function POST(
       estimatedDaysLow: lineItem.estimatedDaysLow,
       estimatedDaysHigh: lineItem.estimatedDaysHigh,
       source: 'mobile', // Track proposal origin for analytics
+      // Geography the draft was priced against (older drafts predate the cost index)
+      costIndex: payload?.pricing?.costIndex ?? lookupCostIndex({ address: job.address }),
     });
     
     // Log keys being inserted for debugging schema drift
@@ -227,8 +233,13 @@ export async function POST(
     // Always ensure migrations are applied before deploying code changes.
     let proposal;
     try {
+      // Proposals created inside a Crew workspace belong to the company
+      const membership = await storage.getUserCompanyMembership(authResult.userId);
       proposal = await storage.createProposal({
         ...validation.data,
+        // Terms & conditions for the job's state
+        contractTerms: buildContractTerms(validation.data.costIndex?.state),
+        companyId: membership?.companyId ?? null,
         isUnlocked,
       });
     } catch (dbError) {
@@ -258,6 +269,8 @@ export async function POST(
     }
 
     await storage.linkDraftToProposal(draft.id, authResult.userId, proposal.id);
+    await recordProposalEvent("proposal_created", proposal);
+    await recordProposalOptionSelections(proposal);
 
     // Similar Job Retrieval (Phase 1): snapshot FINAL scope line items + initialize outcome row.
     // This creates the proprietary dataset flywheel for future recommendations.
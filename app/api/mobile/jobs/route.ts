@@ -2,11 +2,11 @@ import { NextRequest } from "next/server";
 import { requireMobileAuth } from "@/src/lib/mobile/auth";
 import { createMobileJobRequestSchema } from "@/src/lib/mobile/types";
 import { storage } from "@/lib/services/storage";
-import { db } from "@/lib/services/db";
-import { proposalTemplates } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import type { ProposalTemplate } from "@shared/schema";
 import { getRequestId, jsonError, logEvent, withRequestId } from "@/src/lib/mobile/observability";
 import { ensureActiveTemplates, getDefaultTemplateForJobType } from "@/lib/services/template-seeder";
+import { getJobTypeIdVariants } from "@/lib/catalog";
+import { canViewTemplate } from "@/lib/custom-templates";
 
 // POST /api/mobile/jobs
 export async function POST(request: NextRequest) {
@@ -46,19 +46,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Resolve jobType into an actual template so the client only needs one identifier.
+    // String job types also match templates stored under a retired catalog ID, and
+    // prefer the user's own custom template, then one shared with their team.
     const jobType = parsed.data.jobType;
-    let [template] =
-      typeof jobType === "number"
-        ? await db
-            .select()
-            .from(proposalTemplates)
-            .where(and(eq(proposalTemplates.id, jobType), eq(proposalTemplates.isActive, true)))
-            .limit(1)
-        : await db
-            .select()
-            .from(proposalTemplates)
-            .where(and(eq(proposalTemplates.jobTypeId, jobType), eq(proposalTemplates.isActive, true)))
-            .limit(1);
+    const jobTypeIds = typeof jobType === "string" ? getJobTypeIdVariants(jobType) : [];
+    const membership = await storage.getUserCompanyMembership(authResult.userId);
+    const companyId = membership?.companyId ?? null;
+    let template: ProposalTemplate | undefined;
+    if (typeof jobType === "number") {
+      const requested = await storage.getTemplate(jobType);
+      if (requested?.isActive && canViewTemplate(requested, authResult.userId, membership)) template = requested;
+    } else {
+      template = await storage.resolveTemplateForJob(authResult.userId, companyId, jobTypeIds);
+    }
 
     // If template not found and jobType is a string, try to auto-seed templates
     if (!template && typeof jobType === "string") {
@@ -66,18 +66,14 @@ export async function POST(request: NextRequest) {
       await ensureActiveTemplates();
       
       // Try again after seeding
-      [template] = await db
-        .select()
-        .from(proposalTemplates)
-        .where(and(eq(proposalTemplates.jobTypeId, jobType), eq(proposalTemplates.isActive, true)))
-        .limit(1);
+      template = await storage.resolveTemplateForJob(authResult.userId, companyId, jobTypeIds);
       
       // If still not found, use fallback default template data
       if (!template) {
         const defaultTemplate = getDefaultTemplateForJobType(jobType);
         if (defaultTemplate) {
           console.log(`[mobile.jobs] Using fallback template data for: ${jobType}`);
-          template = defaultTemplate as typeof template;
+          template = defaultTemplate as ProposalTemplate;
         }
       }
     }
@@ -95,8 +91,10 @@ export async function POST(request: NextRequest) {
       jobTypeId: template.jobTypeId,
       jobTypeName: template.jobTypeName,
       jobSize: 2,
-      jobNotes: undefined,
+      jobNotes: parsed.data.notes?.trim() || undefined,
       createIdempotencyKey: idem,
+      // Fallback template data has no row (and no id) to point at
+      templateId: template.id ?? null,
     });
     logEvent("mobile.jobs.create.ok", {
       requestId,
@@ -6,7 +6,8 @@ import { createHash } from "crypto";
 import { createS3Client, isS3Configured } from "@/src/lib/mobile/storage/s3";
 import { PutObjectCommand } from "@aws-sdk/client-s3";
 import { upsertPhotoRow } from "@/src/lib/similar-jobs/db";
-import { enqueueEmbeddingJob, ensureSimilarJobEmbeddingWorker } from "@/src/lib/similar-jobs/worker";
+import { enqueueEmbeddingJob } from "@/src/lib/similar-jobs/worker";
+import { enqueueVisionJob } from "@/src/lib/mobile/vision/worker";
 import sharp from "sharp";
 
 // IMPORTANT: Use Node.js runtime for crypto and AWS SDK operations.
@@ -278,11 +279,12 @@ export async function POST(
           })
           .returning();
 
+        await enqueueVisionJob(photo.id);
+
         // Similar Job Retrieval (Phase 1): store S3 key + enqueue embedding compute (async)
         try {
           await upsertPhotoRow({ jobId: session.jobId, publicUrl });
           await enqueueEmbeddingJob(session.jobId);
-          ensureSimilarJobEmbeddingWorker();
         } catch (e) {
           const msg = e instanceof Error ? e.message : String(e);
           console.warn("similarity.enqueue.failed", { jobId: session.jobId, error: msg });
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { followUpSequenceSchema } from '@shared/schema';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { getFollowUpSequence, getFollowUpSettings, updateFollowUpSettings } from '@/lib/follow-ups';
+
+const updateSchema = z.object({
+  proposalValidityDays: z.number().int().min(1).max(365).optional(),
+  // null resets to the default sequence
+  followUpSequence: followUpSequenceSchema.nullable().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const settings = await getFollowUpSettings(userId);
+    if (!settings) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      proposalValidityDays: settings.proposalValidityDays,
+      followUpSequence: getFollowUpSequence(settings.followUpSequence),
+      isDefaultSequence: settings.followUpSequence === null,
+    });
+  } catch (error) {
+    logger.error('Error fetching follow-up settings', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch follow-up settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const validation = updateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          message: validation.error.issues?.[0]?.message ?? 'Invalid follow-up settings',
+          errors: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const settings = await updateFollowUpSettings(userId, validation.data);
+    if (!settings) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      proposalValidityDays: settings.proposalValidityDays,
+      followUpSequence: getFollowUpSequence(settings.followUpSequence),
+      isDefaultSequence: settings.followUpSequence === null,
+    });
+  } catch (error) {
+    logger.error('Error updating follow-up settings', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to update follow-up settings' },
+      { status: 500 }
+    );
+  }
+}
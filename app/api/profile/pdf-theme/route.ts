@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pdfThemeSchema, type PdfTheme } from '@shared/schema';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import {
+  DEFAULT_PDF_THEME,
+  getEffectivePdfTheme,
+  getUserPdfTheme,
+  resolvePdfTheme,
+  updateUserPdfTheme,
+} from '@/lib/pdf-theme';
+
+const updateSchema = z.object({
+  // null resets to the default theme
+  theme: pdfThemeSchema.nullable(),
+});
+
+async function toResponse(userId: string, theme: PdfTheme | null) {
+  // A Crew company theme overrides the user's own on their proposals
+  const effective = await getEffectivePdfTheme(userId);
+  return {
+    theme: resolvePdfTheme(theme),
+    defaults: DEFAULT_PDF_THEME,
+    isDefault: theme === null,
+    effectiveTheme: resolvePdfTheme(effective.theme),
+    effectiveSource: effective.source,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const theme = await getUserPdfTheme(userId);
+    if (theme === undefined) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await toResponse(userId, theme));
+  } catch (error) {
+    logger.error('Error fetching PDF theme', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch PDF theme' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const validation = updateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          message: validation.error.issues?.[0]?.message ?? 'Invalid PDF theme',
+          errors: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const theme = await updateUserPdfTheme(userId, validation.data.theme);
+    if (theme === undefined) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await toResponse(userId, theme));
+  } catch (error) {
+    logger.error('Error updating PDF theme', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to update PDF theme' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { roofingWasteConfigSchema, type RoofingWasteConfig } from '@shared/schema';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import {
+  DEFAULT_ROOFING_WASTE_CONFIG,
+  getRoofingWasteConfig,
+  resolveRoofingWasteConfig,
+  updateRoofingWasteConfig,
+} from '@/lib/roofing-takeoff';
+
+const updateSchema = z.object({
+  // null resets to the default waste percentages
+  wasteConfig: roofingWasteConfigSchema.nullable(),
+});
+
+function toResponse(config: RoofingWasteConfig | null) {
+  return {
+    wasteConfig: resolveRoofingWasteConfig(config),
+    defaults: DEFAULT_ROOFING_WASTE_CONFIG,
+    isDefault: config === null,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const config = await getRoofingWasteConfig(userId);
+    if (config === undefined) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toResponse(config));
+  } catch (error) {
+    logger.error('Error fetching roofing takeoff settings', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch roofing takeoff settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const validation = updateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          message: validation.error.issues?.[0]?.message ?? 'Invalid roofing takeoff settings',
+          errors: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const config = await updateRoofingWasteConfig(userId, validation.data.wasteConfig);
+    if (config === undefined) {
+      return NextResponse.json(
+        { message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toResponse(config));
+  } catch (error) {
+    logger.error('Error updating roofing takeoff settings', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to update roofing takeoff settings' },
+      { status: 500 }
+    );
+  }
+}
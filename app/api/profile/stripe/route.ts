@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { storage } from '@/lib/services/storage';
+import { setUserSecret } from '@/lib/secrets';
 
 export async function PATCH(request: NextRequest) {
   try {
@@ -39,9 +40,12 @@ export async function PATCH(request: NextRequest) {
     // Determine if user has a valid key (new or existing)
     const hasKey = !!trimmedKey || !!existingUser.userStripeSecretKey;
     
+    // Only update key if a new one was provided (stored encrypted, audited)
+    if (trimmedKey !== null) {
+      await setUserSecret(existingUser, 'stripe_secret_key', trimmedKey);
+    }
+
     const user = await storage.updateUserStripeSettings(userId, {
-      // Only update key if a new one was provided
-      userStripeSecretKey: trimmedKey !== null ? trimmedKey : undefined,
       // Enable only if user has a key (new or existing)
       userStripeEnabled: hasKey ? (userStripeEnabled ?? false) : false,
     });
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import {
+  buildContractLedger,
+  createChangeOrder,
+  createChangeOrderSchema,
+  getOriginalContractTotal,
+  listChangeOrdersByProposal,
+} from '@/lib/change-orders';
+
+async function getOwnedProposal(request: NextRequest, id: string) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return { error: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const proposal = await storage.getProposal(parseInt(id));
+  if (!proposal) {
+    return { error: NextResponse.json({ message: 'Proposal not found' }, { status: 404 }) };
+  }
+
+  if (proposal.userId !== userId) {
+    return { error: NextResponse.json({ message: 'Access denied' }, { status: 403 }) };
+  }
+
+  return { userId, proposal };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await getOwnedProposal(request, id);
+    if ('error' in result) return result.error;
+
+    const changeOrders = await listChangeOrdersByProposal(result.proposal.id);
+    const originalTotal = getOriginalContractTotal(result.proposal);
+    const ledger = buildContractLedger(originalTotal, changeOrders);
+
+    return NextResponse.json({
+      proposalId: result.proposal.id,
+      originalTotal,
+      currentTotal: ledger.currentTotal,
+      changeOrders,
+    });
+  } catch (error) {
+    logger.error('Error fetching change orders', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch change orders' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a change order on an accepted proposal.
+ * Body: { title, description?, addedScope: string[], removedScope: string[], priceDelta }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await getOwnedProposal(request, id);
+    if ('error' in result) return result.error;
+    const { userId, proposal } = result;
+
+    if (!proposal.acceptedAt && proposal.status !== 'accepted' && proposal.status !== 'won') {
+      return NextResponse.json(
+        { message: 'Change orders can only be added to accepted proposals' },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = createChangeOrderSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          message: validation.error.issues?.[0]?.message ?? 'Invalid change order',
+          errors: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const changeOrder = await createChangeOrder(proposal.id, userId, validation.data);
+    logger.info('Created change order', { proposalId: proposal.id, changeOrderId: changeOrder.id });
+
+    return NextResponse.json({ changeOrder }, { status: 201 });
+  } catch (error) {
+    logger.error('Error creating change order', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to create change order' },
+      { status: 500 }
+    );
+  }
+}
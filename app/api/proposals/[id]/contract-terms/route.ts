@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import {
+  buildContractTerms,
+  CONTRACT_TERMS_STATES,
+  CONTRACT_TERMS_VERSION,
+  contractTermsUpdateSchema,
+} from '@/lib/contract-terms';
+import { logger } from '@/lib/logger';
+
+async function getOwnedProposal(request: NextRequest, params: Promise<{ id: string }>) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return { error: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { id } = await params;
+  const proposalId = parseInt(id);
+  if (isNaN(proposalId)) {
+    return { error: NextResponse.json({ message: 'Invalid proposal ID' }, { status: 400 }) };
+  }
+
+  const proposal = await storage.getProposal(proposalId);
+  if (!proposal) {
+    return { error: NextResponse.json({ message: 'Proposal not found' }, { status: 404 }) };
+  }
+  if (proposal.userId !== userId) {
+    return { error: NextResponse.json({ message: 'Access denied' }, { status: 403 }) };
+  }
+
+  return { userId, proposal };
+}
+
+// Terms attached to the proposal, plus the states the library has specific clauses for
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const result = await getOwnedProposal(request, params);
+    if ('error' in result) return result.error;
+
+    return NextResponse.json({
+      contractTerms: result.proposal.contractTerms,
+      libraryVersion: CONTRACT_TERMS_VERSION,
+      states: CONTRACT_TERMS_STATES,
+    });
+  } catch (error) {
+    logger.error('Error fetching contract terms', error as Error);
+    return NextResponse.json({ message: 'Failed to fetch contract terms' }, { status: 500 });
+  }
+}
+
+// Re-attach the library clauses for a state (null for the general clauses only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const result = await getOwnedProposal(request, params);
+    if ('error' in result) return result.error;
+    const { userId, proposal } = result;
+
+    const validation = contractTermsUpdateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          message: validation.error.issues?.[0]?.message ?? 'Invalid contract terms',
+          errors: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Signed terms are part of the record; they can't change after acceptance
+    if (proposal.acceptedAt) {
+      return NextResponse.json(
+        { message: 'Terms cannot be changed after the proposal has been accepted' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await storage.updateProposal(proposal.id, userId, {
+      contractTerms: buildContractTerms(validation.data.state),
+    });
+    if (!updated) {
+      return NextResponse.json({ message: 'Proposal not found or access denied' }, { status: 404 });
+    }
+
+    return NextResponse.json({ contractTerms: updated.contractTerms });
+  } catch (error) {
+    logger.error('Error updating contract terms', error as Error);
+    return NextResponse.json({ message: 'Failed to update contract terms' }, { status: 500 });
+  }
+}
@@ -3,6 +3,12 @@ import { storage } from '@/lib/services/storage';
 import { getRequestUserId } from '@/lib/services/requestUserId';
 import { emailService } from '@/lib/services/emailService';
 import { logger } from "@/lib/logger";
+import { isDepositDue } from '@/lib/proposal-deposits';
+import { getClientMessages } from '@/lib/client-locale';
+import { localizeContractTerms } from '@/lib/contract-terms';
+import { getSignerIp } from '@/lib/signing-certificates';
+import { renderStoredProposalPdf } from '@/lib/services/proposalPdfDocument';
+import { PdfPhotoLoadError } from '@/lib/services/proposalPdfPhotos';
 
 export async function POST(
     request: NextRequest,
@@ -19,7 +25,7 @@ export async function POST(
         const { id } = await params;
         const proposalId = parseInt(id);
         const body = await request.json();
-        const { signature } = body;
+        const { signature, consent } = body;
 
         if (!signature || typeof signature !== 'string' || !signature.startsWith('data:image/')) {
             return NextResponse.json({ message: "Valid signature is required" }, { status: 400 });
@@ -29,6 +35,10 @@ export async function POST(
             return NextResponse.json({ message: "Please provide a valid signature" }, { status: 400 });
         }
 
+        if (consent !== true) {
+            return NextResponse.json({ message: "Consent to sign electronically is required" }, { status: 400 });
+        }
+
         const proposal = await storage.getProposal(proposalId);
         if (!proposal) {
             return NextResponse.json({ message: "Proposal not found" }, { status: 404 });
@@ -46,14 +56,46 @@ export async function POST(
             return NextResponse.json({ message: "Proposal has already been countersigned" }, { status: 400 });
         }
 
-        const countersignedProposal = await storage.countersignProposal(proposalId, userId, signature);
+        // Fingerprint of the client-signed document the contractor is countersigning.
+        // A photo that can't be loaded stops the signing rather than signing a different document.
+        let documentSha256: string;
+        try {
+            ({ sha256: documentSha256 } = await renderStoredProposalPdf(proposal, { requireAllPhotos: true }));
+        } catch (error) {
+            if (!(error instanceof PdfPhotoLoadError)) throw error;
+            logger.error("Proposal photo unavailable for signing", { proposalId, photoId: error.photoId }, error);
+            return NextResponse.json({
+                message: `The photo "${error.photoLabel}" couldn't be loaded. Replace or remove it, then countersign again.`,
+                photoId: error.photoId,
+            }, { status: 409 });
+        }
+
+        // Contractors sign from the English dashboard, so their consent and terms are recorded in English
+        const user = await storage.getUser(userId);
+        const signerName = [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.companyName || user?.email || userId;
+
+        // The signing certificate is written in the same transaction as the countersignature
+        const countersignedProposal = await storage.countersignProposal(proposalId, userId, signature, {
+            role: 'contractor',
+            signerName,
+            signerEmail: user?.email,
+            signerUserId: userId,
+            ipAddress: getSignerIp(request.headers),
+            userAgent: request.headers.get('user-agent'),
+            consentText: getClientMessages('en').signing.contractorConsent,
+            language: 'en',
+            documentSha256,
+            termsVersion: proposal.contractTerms?.version,
+            termsState: proposal.contractTerms?.state,
+            termsShown: localizeContractTerms(proposal.contractTerms, 'en'),
+        });
+        // Countersigned in another request while the document was being rendered
         if (!countersignedProposal) {
-            return NextResponse.json({ message: "Failed to countersign proposal" }, { status: 500 });
+            return NextResponse.json({ message: "Proposal has already been countersigned" }, { status: 409 });
         }
 
         // Send completed proposal email to client
         if (countersignedProposal.acceptedByEmail) {
-            const user = await storage.getUser(userId);
 
             // Construct base URL from request headers
             const host = request.headers.get('host');
@@ -87,6 +129,10 @@ export async function POST(
                     acceptedAt: countersignedProposal.acceptedAt!,
                     contractorSignedAt: countersignedProposal.contractorSignedAt!,
                     proposalUrl,
+                    deposit: isDepositDue(countersignedProposal) && countersignedProposal.depositAmount
+                        ? { amount: countersignedProposal.depositAmount, paymentUrl: countersignedProposal.paymentLinkUrl! }
+                        : undefined,
+                    clientLanguage: countersignedProposal.clientLanguage,
                 });
             } catch (emailError) {
                 logger.error("Error sending completed proposal email", emailError as Error);
@@ -7,7 +7,9 @@ import { mobileJobDrafts } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { sql } from 'drizzle-orm';
 import { getRequestUserId } from '@/lib/services/requestUserId';
-import { buildProposalPdf } from '@/lib/services/proposalPdf';
+import { renderStoredProposalPdf } from '@/lib/services/proposalPdfDocument';
+import { computeValidUntil } from '@/lib/follow-ups';
+import { recordProposalStatusChange } from '@/lib/crew-analytics';
 
 export async function POST(
   request: NextRequest,
@@ -101,20 +103,13 @@ export async function POST(
       totalPrice = Math.round((proposal.priceLow + proposal.priceHigh) / 2);
     }
 
-    // Generate deterministic PDF attachment from the canonical proposal id.
-    const companyInfo = user
-      ? {
-        companyName: user.companyName,
-        companyAddress: user.companyAddress,
-        companyPhone: user.companyPhone,
-        licenseNumber: user.licenseNumber,
-      }
-      : null;
+    // The validity window starts at the first send; resends keep the original expiry
+    const sentAt = proposal.sentAt ?? new Date();
+    const validUntil = proposal.validUntil ?? computeValidUntil(sentAt, user?.proposalValidityDays);
 
-    const { pdfBytes, filename } = buildProposalPdf({
-      proposal: proposal as any,
-      companyInfo,
-    });
+    // Attach the proposal as it is stored once sent, so the attachment matches
+    // the PDF the download route serves and signing hashes
+    const { pdfBytes, filename } = await renderStoredProposalPdf({ ...proposal, sentAt, validUntil });
 
     // Send the email (EMAIL_MODE=test writes to DB outbox instead of external provider)
     const result = await sendProposalEmail({
@@ -131,6 +126,7 @@ export async function POST(
       proposalUrl,
       proposalId,
       runId,
+      clientLanguage: proposal.clientLanguage,
       attachments: [
         {
           filename,
@@ -155,9 +151,16 @@ export async function POST(
       );
     }
 
-    // Update proposal status to 'sent' if currently 'draft'
-    if (proposal.status === 'draft') {
-      await storage.updateProposal(proposalId, userId, { status: 'sent' });
+    // Update proposal status to 'sent' if currently 'draft', and track the
+    // recipient and expiry for follow-up reminders
+    const sentProposal = await storage.updateProposal(proposalId, userId, {
+      ...(proposal.status === 'draft' ? { status: 'sent' } : {}),
+      sentAt,
+      sentToEmail: recipientEmail,
+      validUntil,
+    });
+    if (sentProposal) {
+      await recordProposalStatusChange(proposal, sentProposal, userId);
     }
 
     // Similar Job Retrieval (Phase 1): update outcome status for linked mobile job (if any).
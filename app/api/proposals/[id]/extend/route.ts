@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { addDays, extendProposalValidity } from '@/lib/follow-ups';
+
+const extendSchema = z.union([
+  z.object({ days: z.number().int().min(1).max(365) }),
+  z.object({ validUntil: z.coerce.date() }),
+]);
+
+/**
+ * Extend (or re-open) a proposal's expiry date.
+ * Body: { days } to extend from today or the current expiry, whichever is later,
+ * or { validUntil } for an explicit date.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const proposal = await storage.getProposal(parseInt(id));
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    if (proposal.userId !== userId) {
+      return NextResponse.json(
+        { message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (proposal.acceptedAt || ['accepted', 'won', 'lost'].includes(proposal.status)) {
+      return NextResponse.json(
+        { message: 'Only open proposals can be extended' },
+        { status: 409 }
+      );
+    }
+
+    const validation = extendSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: 'Provide days (1-365) or a validUntil date' },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    let validUntil: Date;
+    if ('days' in validation.data) {
+      const from = proposal.validUntil && proposal.validUntil > now ? proposal.validUntil : now;
+      validUntil = addDays(from, validation.data.days);
+    } else {
+      validUntil = validation.data.validUntil;
+    }
+
+    if (validUntil <= now) {
+      return NextResponse.json(
+        { message: 'The new expiry date must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await extendProposalValidity(proposal.id, userId, validUntil);
+    return NextResponse.json({ validUntil: updated?.validUntil ?? validUntil });
+  } catch (error) {
+    logger.error('Error extending proposal', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to extend proposal' },
+      { status: 500 }
+    );
+  }
+}
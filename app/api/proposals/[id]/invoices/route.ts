@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import {
+  buildInvoiceSchedule,
+  createInvoiceSchedule,
+  getContractTotalCents,
+  getDefaultInvoiceSchedule,
+  invoiceScheduleSchema,
+  listInvoicesByProposal,
+} from '@/lib/invoices';
+
+async function getOwnedProposal(request: NextRequest, id: string) {
+  const userId = await getRequestUserId(request);
+  if (!userId) {
+    return { error: NextResponse.json({ message: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const proposal = await storage.getProposal(parseInt(id));
+  if (!proposal) {
+    return { error: NextResponse.json({ message: 'Proposal not found' }, { status: 404 }) };
+  }
+
+  if (proposal.userId !== userId) {
+    return { error: NextResponse.json({ message: 'Access denied' }, { status: 403 }) };
+  }
+
+  return { userId, proposal };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await getOwnedProposal(request, id);
+    if ('error' in result) return result.error;
+
+    const invoices = await listInvoicesByProposal(result.proposal.id);
+
+    return NextResponse.json({
+      proposalId: result.proposal.id,
+      contractTotal: getContractTotalCents(result.proposal),
+      invoices,
+    });
+  } catch (error) {
+    logger.error('Error fetching proposal invoices', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch invoices' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create the billing schedule for an accepted proposal.
+ * Body (optional): { depositPercent, progress: [{ milestone, percent }], finalMilestone, dueInDays }
+ * Defaults to the proposal's deposit percentage with the balance due on completion.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await getOwnedProposal(request, id);
+    if ('error' in result) return result.error;
+    const { userId, proposal } = result;
+
+    if (!proposal.acceptedAt && proposal.status !== 'accepted' && proposal.status !== 'won') {
+      return NextResponse.json(
+        { message: 'Only accepted proposals can be invoiced' },
+        { status: 409 }
+      );
+    }
+
+    const existing = await listInvoicesByProposal(proposal.id);
+    if (existing.length > 0) {
+      return NextResponse.json(
+        { message: 'This proposal already has a billing schedule', invoices: existing },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = invoiceScheduleSchema.safeParse(
+      body && Object.keys(body).length > 0 ? body : getDefaultInvoiceSchedule(proposal)
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          message: validation.error.issues?.[0]?.message ?? 'Invalid billing schedule',
+          errors: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const entries = buildInvoiceSchedule(getContractTotalCents(proposal), validation.data);
+    const invoices = await createInvoiceSchedule({
+      proposalId: proposal.id,
+      userId,
+      entries,
+      dueInDays: validation.data.dueInDays,
+      // A deposit collected through the proposal payment link counts toward the deposit invoice
+      depositPaid: proposal.paymentStatus === 'paid' && proposal.paidAmount
+        ? { amount: proposal.paidAmount, stripePaymentIntentId: proposal.stripePaymentIntentId }
+        : undefined,
+    });
+
+    logger.info('Created invoice schedule', { proposalId: proposal.id, invoiceCount: invoices.length });
+
+    return NextResponse.json({ proposalId: proposal.id, invoices }, { status: 201 });
+  } catch (error) {
+    logger.error('Error creating invoice schedule', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to create invoices' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { stripeService } from '@/lib/services/stripeService';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { depositRequestSchema, getDepositAmountCents } from '@/lib/proposal-deposits';
+import { revealUserSecret } from '@/lib/secrets';
+
+/**
+ * Create a deposit Payment Link on the contractor's own Stripe account.
+ * Body: { depositPercentage } (1-100). Replaces any earlier link; the client
+ * pays from the public proposal page or the acceptance email. The link lives
+ * on the contractor's account, so its events never reach the platform
+ * webhook; the payment is read back when Stripe redirects the client to the
+ * proposal page (see reconcileProposalDeposit).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const proposal = await storage.getProposal(parseInt(id));
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    if (proposal.userId !== userId) {
+      return NextResponse.json(
+        { message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const validation = depositRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: 'Deposit percentage must be a whole number from 1 to 100' },
+        { status: 400 }
+      );
+    }
+
+    if (proposal.paymentStatus === 'paid') {
+      return NextResponse.json(
+        { message: 'This proposal has already been paid' },
+        { status: 409 }
+      );
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user?.userStripeEnabled || !user.userStripeSecretKey) {
+      return NextResponse.json(
+        { message: 'Connect your Stripe account in Settings to request payments' },
+        { status: 400 }
+      );
+    }
+
+    const { depositPercentage } = validation.data;
+    const depositAmount = getDepositAmountCents(proposal, depositPercentage);
+    if (depositAmount < 50) {
+      return NextResponse.json(
+        { message: 'Deposit amount is too small to collect online' },
+        { status: 400 }
+      );
+    }
+
+    // The client lands back on the public proposal after paying
+    const publicToken = proposal.publicToken ?? (await storage.generatePublicToken(proposal.id, userId))?.publicToken;
+    const baseUrl = process.env.NEXT_PUBLIC_WEB_BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
+
+    const stripeSecretKey = await revealUserSecret(user, 'stripe_secret_key', {
+      purpose: 'payment_link',
+      proposalId: proposal.id,
+    });
+
+    const paymentLink = await stripeService.createPaymentLink(
+      depositAmount,
+      proposal.id,
+      proposal.clientName,
+      proposal.jobTypeName,
+      `${baseUrl}/p/${publicToken}?deposit=paid`,
+      stripeSecretKey
+    );
+
+    const updated = await storage.setProposalPaymentLink(proposal.id, userId, {
+      paymentLinkId: paymentLink.id,
+      paymentLinkUrl: paymentLink.url,
+      depositPercentage,
+      depositAmount,
+      // Payments already received on an earlier link are kept
+      paymentStatus: (proposal.paidAmount ?? 0) > 0 ? proposal.paymentStatus ?? 'partial' : 'pending',
+    });
+
+    // Old links stay payable on Stripe unless switched off
+    if (proposal.paymentLinkId && proposal.paymentLinkId !== paymentLink.id) {
+      stripeService.deactivatePaymentLink(proposal.paymentLinkId, stripeSecretKey).catch(err =>
+        logger.error('Error deactivating previous payment link', err as Error)
+      );
+    }
+
+    return NextResponse.json({
+      paymentLinkId: updated?.paymentLinkId ?? paymentLink.id,
+      paymentLinkUrl: updated?.paymentLinkUrl ?? paymentLink.url,
+      depositPercentage,
+      depositAmount,
+      paymentStatus: updated?.paymentStatus ?? 'pending',
+    });
+  } catch (error) {
+    logger.error('Error creating payment link', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to create payment link' },
+      { status: 500 }
+    );
+  }
+}
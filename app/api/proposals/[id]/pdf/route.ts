@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { storage } from '@/lib/services/storage';
 import { getRequestUserId } from '@/lib/services/requestUserId';
-import { buildProposalPdf } from '@/lib/services/proposalPdf';
+import { renderStoredProposalPdf } from '@/lib/services/proposalPdfDocument';
 
 export async function GET(
   request: NextRequest,
@@ -23,22 +23,10 @@ export async function GET(
     const token = searchParams.get('token');
 
     let proposal;
-    let companyInfo = null;
-    let user;
 
     if (token) {
       // Public access via token
       proposal = await storage.getProposalByPublicToken(token);
-      if (proposal) {
-        user = await storage.getUser(proposal.userId);
-        companyInfo = user ? {
-          companyName: user.companyName,
-          companyAddress: user.companyAddress,
-          companyPhone: user.companyPhone,
-          licenseNumber: user.licenseNumber,
-          companyLogo: user.companyLogo,
-        } : null;
-      }
     } else {
       const userId = await getRequestUserId(request);
       if (!userId) {
@@ -56,8 +44,6 @@ export async function GET(
         );
       }
       if (proposal) {
-        user = await storage.getUser(userId);
-
         // Check if proposal is unlocked - no credit deduction here
         // Credits are deducted via /unlock endpoint for free users
         // or at creation time for Pro users
@@ -70,14 +56,6 @@ export async function GET(
             { status: 402 }
           );
         }
-
-        companyInfo = user ? {
-          companyName: user.companyName,
-          companyAddress: user.companyAddress,
-          companyPhone: user.companyPhone,
-          licenseNumber: user.licenseNumber,
-          companyLogo: user.companyLogo,
-        } : null;
       }
     }
 
@@ -88,18 +66,8 @@ export async function GET(
       );
     }
 
-    // Generate PDF (deterministic bytes + stable filename)
-    // Check if user is Pro (either the owner for public links, or the current user/owner for auth access)
-    // For authenticated access, 'user' is the current user (owner).
-    // For public access, 'user' was fetched above based on proposal.userId.
-    // In both cases, 'user' variable holds the owner's record.
-    const isPro = user?.isPro || false;
-
-    const { pdfBytes, filename, sha256 } = buildProposalPdf({
-      proposal: proposal as any,
-      companyInfo,
-      isPro,
-    });
+    // Generate PDF (deterministic bytes + stable filename), branded for the owner
+    const { pdfBytes, filename, sha256 } = await renderStoredProposalPdf(proposal);
 
     const encodedFilename = encodeURIComponent(filename);
     const byteLength = Buffer.byteLength(Buffer.from(pdfBytes));
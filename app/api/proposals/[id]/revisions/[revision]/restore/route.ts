@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revision: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, revision } = await params;
+    const proposalId = parseInt(id);
+    const revisionNumber = parseInt(revision);
+
+    if (Number.isNaN(revisionNumber)) {
+      return NextResponse.json(
+        { message: 'Invalid revision number' },
+        { status: 400 }
+      );
+    }
+
+    const proposal = await storage.getProposal(proposalId);
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    if (proposal.userId !== userId) {
+      return NextResponse.json(
+        { message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // The client has signed the current content; it can no longer be swapped out
+    if (proposal.status === 'accepted' || proposal.acceptedAt) {
+      return NextResponse.json(
+        { message: 'Accepted proposals cannot be restored to an earlier revision' },
+        { status: 409 }
+      );
+    }
+
+    const restored = await storage.restoreProposalRevision(proposalId, userId, revisionNumber);
+
+    if (!restored) {
+      return NextResponse.json(
+        { message: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await storage.getProposalRevisions(proposalId);
+
+    return NextResponse.json({
+      proposal: restored,
+      restoredFromRevision: revisionNumber,
+      currentRevision: revisions.length > 0 ? revisions[revisions.length - 1].revisionNumber : null,
+    });
+  } catch (error) {
+    logger.error('Error restoring proposal revision', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to restore proposal revision' },
+      { status: 500 }
+    );
+  }
+}
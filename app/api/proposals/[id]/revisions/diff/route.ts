@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import {
+  buildRevisionSnapshot,
+  describeRevisionChange,
+  diffRevisionSnapshots,
+} from '@/lib/proposal-revisions';
+
+/**
+ * Diff two revisions of a proposal.
+ * Query params: `from` (defaults to 1, the originally sent version) and
+ * `to` (defaults to the latest revision).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const proposalId = parseInt(id);
+    const proposal = await storage.getProposal(proposalId);
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    if (proposal.userId !== userId) {
+      return NextResponse.json(
+        { message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const revisions = await storage.getProposalRevisions(proposalId);
+    if (revisions.length === 0) {
+      return NextResponse.json(
+        { message: 'This proposal has no revisions yet' },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const fromNumber = parseInt(searchParams.get('from') ?? '1');
+    const toNumber = parseInt(searchParams.get('to') ?? String(revisions[revisions.length - 1].revisionNumber));
+
+    const from = revisions.find(r => r.revisionNumber === fromNumber);
+    const to = revisions.find(r => r.revisionNumber === toNumber);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { message: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    const changes = diffRevisionSnapshots(buildRevisionSnapshot(from), buildRevisionSnapshot(to));
+
+    return NextResponse.json({
+      proposalId,
+      from: { revisionNumber: from.revisionNumber, createdAt: from.createdAt },
+      to: { revisionNumber: to.revisionNumber, createdAt: to.createdAt },
+      changes: changes.map(change => ({ ...change, description: describeRevisionChange(change) })),
+    });
+  } catch (error) {
+    logger.error('Error diffing proposal revisions', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to diff proposal revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const proposalId = parseInt(id);
+    const proposal = await storage.getProposal(proposalId);
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    if (proposal.userId !== userId) {
+      return NextResponse.json(
+        { message: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const revisions = await storage.getProposalRevisions(proposalId);
+
+    return NextResponse.json({
+      proposalId,
+      currentRevision: revisions.length > 0 ? revisions[revisions.length - 1].revisionNumber : null,
+      revisions,
+    });
+  } catch (error) {
+    logger.error('Error fetching proposal revisions', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch proposal revisions' },
+      { status: 500 }
+    );
+  }
+}
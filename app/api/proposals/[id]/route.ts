@@ -1,6 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { storage } from '@/lib/services/storage';
 import { getRequestUserId } from '@/lib/services/requestUserId';
+import { applyCostBreakdownRollUps } from '@/lib/cost-breakdown';
+import { lookupCostIndex } from '@/lib/cost-index';
+import { buildContractTerms } from '@/lib/contract-terms';
+import { clientLanguages, costBreakdownSchema } from '@shared/schema';
+import { canViewProposal } from '@/lib/company-workspace';
+import { recordProposalStatusChange } from '@/lib/crew-analytics';
+import { recordProposalOptionSelections } from '@/src/lib/learning/learning-service';
+import { z } from 'zod';
+
+// Only the cost breakdowns and client language are validated here; the rest of the PATCH body is passed through as before
+const proposalUpdateSchema = z.object({
+  costBreakdown: costBreakdownSchema.nullish(),
+  lineItems: z.array(z.object({ costBreakdown: costBreakdownSchema.nullish() })).nullish(),
+  clientLanguage: z.enum(clientLanguages).optional(),
+});
 
 export async function GET(
   request: NextRequest,
@@ -27,7 +42,9 @@ export async function GET(
       );
     }
 
-    if (proposal.userId !== userId) {
+    // Teammates can open company proposals they're allowed to see
+    const membership = proposal.userId === userId ? undefined : await storage.getUserCompanyMembership(userId);
+    if (!canViewProposal(proposal, userId, membership)) {
       return NextResponse.json(
         { message: 'Access denied' },
         { status: 403 }
@@ -68,7 +85,35 @@ export async function PATCH(
       homeArea: body.options?.homeArea
     });
 
-    const updated = await storage.updateProposal(proposalId, userId, body);
+    const updateValidation = proposalUpdateSchema.safeParse(body);
+    if (!updateValidation.success) {
+      return NextResponse.json(
+        {
+          message: updateValidation.error.issues?.[0]?.message ?? 'Invalid proposal update',
+          errors: updateValidation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const updates = applyCostBreakdownRollUps(body);
+    // Company ownership only changes through workspace membership and reassignment
+    delete updates.companyId;
+    // Terms change through /contract-terms (or with the address below), never from the raw body
+    delete updates.contractTerms;
+    // A new address may land in a different cost index geography, and a different state's terms
+    if (typeof body.address === 'string') {
+      updates.costIndex = lookupCostIndex({ address: body.address });
+      const current = await storage.getProposal(proposalId);
+      if (current && !current.acceptedAt && current.contractTerms?.state !== (updates.costIndex.state ?? null)) {
+        updates.contractTerms = buildContractTerms(updates.costIndex.state);
+      }
+    }
+
+    // Status changes (sent, won, lost...) feed the Crew activity feed and analytics
+    const before = typeof updates.status === 'string' ? await storage.getProposal(proposalId) : undefined;
+
+    const updated = await storage.updateProposal(proposalId, userId, updates);
 
     if (!updated) {
       return NextResponse.json(
@@ -77,6 +122,15 @@ export async function PATCH(
       );
     }
 
+    if (before) {
+      await recordProposalStatusChange(before, updated, userId);
+    }
+
+    // Re-saved options supersede what was logged for this proposal before
+    if ('options' in body || 'lineItems' in body) {
+      await recordProposalOptionSelections(updated);
+    }
+
     return NextResponse.json(updated);
   } catch (error) {
     console.error('Error updating proposal:', error);
@@ -3,8 +3,13 @@ import { logger } from '@/lib/logger';
 import { storage } from '@/lib/services/storage';
 import { billingService } from '@/lib/services/billingService';
 import { insertProposalSchema } from '@shared/schema';
+import { lookupCostIndex } from '@/lib/cost-index';
+import { buildContractTerms } from '@/lib/contract-terms';
 import { getRequestUserId } from '@/lib/services/requestUserId';
+import { applyCostBreakdownRollUps } from '@/lib/cost-breakdown';
 import { USER_SESSION_COOKIE } from '@/lib/user-session';
+import { recordProposalEvent } from '@/lib/crew-analytics';
+import { recordProposalOptionSelections } from '@/src/lib/learning/learning-service';
 
 export async function GET() {
   try {
@@ -180,10 +185,23 @@ export async function POST(request: NextRequest) {
       creditDeducted,
     });
 
+    // Proposals created inside a Crew workspace belong to the company
+    const membership = await storage.getUserCompanyMembership(userId);
+
+    // Record which cost index geography the address matched
+    const costIndex = lookupCostIndex({ address: validationResult.data.address });
+
+    // Itemized cost breakdowns (when present) determine the price ranges
     const proposal = await storage.createProposal({
-      ...validationResult.data,
+      ...applyCostBreakdownRollUps(validationResult.data),
+      costIndex,
+      // Terms & conditions for the job's state (payment terms, right to cancel, lien notice)
+      contractTerms: buildContractTerms(costIndex.state),
+      companyId: membership?.companyId ?? null,
       isUnlocked,
     });
+    await recordProposalEvent('proposal_created', proposal);
+    await recordProposalOptionSelections(proposal);
     
     const response = NextResponse.json({ 
       message: "Proposal created successfully", 
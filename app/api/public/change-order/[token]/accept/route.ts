@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { acceptChangeOrder, getChangeOrderByPublicToken } from '@/lib/change-orders';
+import { logger } from '@/lib/logger';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    if (!token) {
+      return NextResponse.json(
+        { message: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, email, signature } = body;
+
+    if (!name || !email) {
+      return NextResponse.json(
+        { message: 'Name and email are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!signature) {
+      return NextResponse.json(
+        { message: 'Signature is required' },
+        { status: 400 }
+      );
+    }
+
+    const changeOrder = await getChangeOrderByPublicToken(token);
+    if (!changeOrder || changeOrder.status === 'void') {
+      return NextResponse.json(
+        { message: 'Change order not found' },
+        { status: 404 }
+      );
+    }
+
+    if (changeOrder.status === 'accepted') {
+      return NextResponse.json(
+        { message: 'This change order has already been accepted' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await acceptChangeOrder(token, name, email, signature);
+    if (!updated) {
+      return NextResponse.json(
+        { message: 'Failed to accept change order' },
+        { status: 500 }
+      );
+    }
+
+    logger.info('Change order accepted', { changeOrderId: updated.id, proposalId: updated.proposalId });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Change order accepted successfully',
+    });
+  } catch (error) {
+    logger.error('Error accepting change order', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to accept change order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { logger } from '@/lib/logger';
+import {
+  buildContractLedger,
+  getChangeOrderByPublicToken,
+  getOriginalContractTotal,
+  listChangeOrdersByProposal,
+} from '@/lib/change-orders';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    if (!token) {
+      return NextResponse.json(
+        { message: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const changeOrder = await getChangeOrderByPublicToken(token);
+    if (!changeOrder || changeOrder.status === 'void') {
+      return NextResponse.json(
+        { message: 'Change order not found' },
+        { status: 404 }
+      );
+    }
+
+    const [proposal, user, siblings] = await Promise.all([
+      storage.getProposal(changeOrder.proposalId),
+      storage.getUser(changeOrder.userId),
+      listChangeOrdersByProposal(changeOrder.proposalId),
+    ]);
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Change order not found' },
+        { status: 404 }
+      );
+    }
+
+    const originalTotal = getOriginalContractTotal(proposal);
+    const ledger = buildContractLedger(originalTotal, siblings);
+    // Contract total if this change order is signed (already included when accepted)
+    const totalIfAccepted =
+      changeOrder.status === 'accepted' ? ledger.currentTotal : ledger.currentTotal + changeOrder.priceDelta;
+
+    return NextResponse.json({
+      changeOrder: {
+        number: changeOrder.number,
+        title: changeOrder.title,
+        description: changeOrder.description,
+        addedScope: changeOrder.addedScope,
+        removedScope: changeOrder.removedScope,
+        priceDelta: changeOrder.priceDelta,
+        status: changeOrder.status,
+        createdAt: changeOrder.createdAt,
+        acceptedAt: changeOrder.acceptedAt,
+        acceptedByName: changeOrder.acceptedByName,
+        signature: changeOrder.signature,
+      },
+      proposal: {
+        clientName: proposal.clientName,
+        address: proposal.address,
+        jobTypeName: proposal.jobTypeName,
+        publicToken: proposal.publicToken,
+      },
+      contract: {
+        originalTotal,
+        currentTotal: ledger.currentTotal,
+        totalIfAccepted,
+      },
+      companyInfo: user ? {
+        companyName: user.companyName,
+        companyAddress: user.companyAddress,
+        companyPhone: user.companyPhone,
+        companyLogo: user.companyLogo,
+      } : null,
+    });
+  } catch (error) {
+    logger.error('Error fetching public change order', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch change order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { stripeService } from '@/lib/services/stripeService';
+import { getInvoiceByPublicToken, setInvoiceCheckoutSession } from '@/lib/invoices';
+import { logger } from '@/lib/logger';
+import { revealUserSecret } from '@/lib/secrets';
+
+/**
+ * Start a Stripe Checkout payment for an open invoice.
+ * Uses the contractor's own Stripe account when they have one enabled.
+ * Platform payments are reconciled by the payment_intent.succeeded webhook;
+ * contractor-account payments when Stripe redirects back with ?paid=1.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    if (!token) {
+      return NextResponse.json(
+        { message: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const invoice = await getInvoiceByPublicToken(token);
+    if (!invoice || invoice.status === 'scheduled' || invoice.status === 'void') {
+      return NextResponse.json(
+        { message: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    if (invoice.status === 'paid') {
+      return NextResponse.json(
+        { message: 'This invoice has already been paid' },
+        { status: 409 }
+      );
+    }
+
+    const [proposal, user] = await Promise.all([
+      storage.getProposal(invoice.proposalId),
+      storage.getUser(invoice.userId),
+    ]);
+
+    if (!proposal || !user) {
+      return NextResponse.json(
+        { message: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_WEB_BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
+    const payPageUrl = `${baseUrl}/i/${invoice.publicToken}`;
+
+    // Contractor's own account when enabled, otherwise the platform account
+    const stripeSecretKey = user.userStripeEnabled
+      ? await revealUserSecret(user, 'stripe_secret_key', { purpose: 'invoice_checkout', invoiceId: invoice.id })
+      : null;
+
+    const session = await stripeService.createInvoiceCheckoutSession(
+      {
+        invoiceId: invoice.id,
+        proposalId: proposal.id,
+        invoiceNumber: invoice.invoiceNumber,
+        amountInCents: invoice.amount - invoice.paidAmount,
+        description: `${invoice.milestone} - ${proposal.jobTypeName}`,
+        customerEmail: proposal.acceptedByEmail,
+        successUrl: `${payPageUrl}?paid=1`,
+        cancelUrl: payPageUrl,
+      },
+      stripeSecretKey
+    );
+
+    await setInvoiceCheckoutSession(invoice.id, session.id);
+
+    return NextResponse.json({ url: session.url });
+  } catch (error) {
+    logger.error('Error creating invoice checkout session', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to start payment' },
+      { status: 500 }
+    );
+  }
+}
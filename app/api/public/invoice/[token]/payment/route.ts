@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInvoiceByPublicToken } from '@/lib/invoices';
+import { reconcileInvoicePayment } from '@/lib/services/paymentReconciliation';
+import { logger } from '@/lib/logger';
+
+/**
+ * Called by the public invoice page when Stripe Checkout redirects the client
+ * back with ?paid=1. Reads the session back (from the contractor's account
+ * when the invoice was paid there) and marks the invoice paid. Stripe is asked
+ * at most every few seconds per invoice; in between, the stored status is
+ * returned. Payments the client doesn't come back for are recorded by the
+ * payments.reconcile job.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    if (!token) {
+      return NextResponse.json(
+        { message: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const found = await getInvoiceByPublicToken(token);
+    if (!found || found.status === 'scheduled' || found.status === 'void') {
+      return NextResponse.json(
+        { message: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const invoice = await reconcileInvoicePayment(found);
+
+    return NextResponse.json({
+      status: invoice.status,
+      paidAmount: invoice.paidAmount,
+    });
+  } catch (error) {
+    logger.error('Error reconciling invoice payment', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to check payment' },
+      { status: 500 }
+    );
+  }
+}
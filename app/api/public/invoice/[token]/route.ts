@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getInvoiceByPublicToken, listInvoicesByProposal } from '@/lib/invoices';
+import { logger } from '@/lib/logger';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    if (!token) {
+      return NextResponse.json(
+        { message: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const invoice = await getInvoiceByPublicToken(token);
+    if (!invoice || invoice.status === 'scheduled' || invoice.status === 'void') {
+      return NextResponse.json(
+        { message: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const [proposal, user, schedule] = await Promise.all([
+      storage.getProposal(invoice.proposalId),
+      storage.getUser(invoice.userId),
+      listInvoicesByProposal(invoice.proposalId),
+    ]);
+
+    if (!proposal) {
+      return NextResponse.json(
+        { message: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      invoice: {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        kind: invoice.kind,
+        milestone: invoice.milestone,
+        amount: invoice.amount,
+        status: invoice.status,
+        issuedAt: invoice.issuedAt,
+        dueDate: invoice.dueDate,
+        paidAt: invoice.paidAt,
+        paidAmount: invoice.paidAmount,
+      },
+      proposal: {
+        clientName: proposal.clientName,
+        address: proposal.address,
+        jobTypeName: proposal.jobTypeName,
+      },
+      schedule: schedule
+        .filter((item) => item.status !== 'void')
+        .map((item) => ({
+          invoiceNumber: item.invoiceNumber,
+          kind: item.kind,
+          milestone: item.milestone,
+          amount: item.amount,
+          status: item.status,
+        })),
+      companyInfo: user ? {
+        companyName: user.companyName,
+        companyAddress: user.companyAddress,
+        companyPhone: user.companyPhone,
+        companyLogo: user.companyLogo,
+      } : null,
+    });
+  } catch (error) {
+    logger.error('Error fetching public invoice', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch invoice' },
+      { status: 500 }
+    );
+  }
+}
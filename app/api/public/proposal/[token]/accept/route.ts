@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { storage } from '@/lib/services/storage';
-import { sendProposalAcceptedNotification } from '@/lib/services/emailService';
+import { sendProposalAcceptedNotification, sendProposalPhotoUnavailableNotification } from '@/lib/services/emailService';
+import { isProposalExpired } from '@/lib/follow-ups/sequence';
+import { isDepositDue } from '@/lib/proposal-deposits';
+import { recordProposalEvent } from '@/lib/crew-analytics';
+import { getClientMessages, resolveClientLanguage } from '@/lib/client-locale';
+import { localizeContractTerms } from '@/lib/contract-terms';
+import { getSignerIp } from '@/lib/signing-certificates';
+import { renderStoredProposalPdf } from '@/lib/services/proposalPdfDocument';
+import { PdfPhotoLoadError } from '@/lib/services/proposalPdfPhotos';
+import { logger } from '@/lib/logger';
 
 export async function POST(
   request: NextRequest,
@@ -17,7 +26,7 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { name, email, signature } = body;
+    const { name, email, signature, consent } = body;
 
     if (!name || !email) {
       return NextResponse.json(
@@ -33,6 +42,14 @@ export async function POST(
       );
     }
 
+    // The client has to agree to sign electronically; the wording is kept on the certificate
+    if (consent !== true) {
+      return NextResponse.json(
+        { message: 'Consent to sign electronically is required' },
+        { status: 400 }
+      );
+    }
+
     // Get the proposal by token
     const proposal = await storage.getProposalByPublicToken(token);
     if (!proposal) {
@@ -50,16 +67,72 @@ export async function POST(
       );
     }
 
-    // Accept the proposal
-    const updatedProposal = await storage.acceptProposal(token, name, email, signature);
+    // Expired proposals can't be accepted until the contractor extends them
+    if (isProposalExpired(proposal)) {
+      return NextResponse.json(
+        {
+          message: 'This proposal has expired. Please contact the contractor to extend it.',
+          expired: true,
+        },
+        { status: 410 }
+      );
+    }
+
+    // Fingerprint of the document as the client saw it, taken before acceptance changes it.
+    // A photo that can't be loaded stops the signing rather than signing a different document;
+    // the contractor is told which photo to fix.
+    let documentSha256: string;
+    try {
+      ({ sha256: documentSha256 } = await renderStoredProposalPdf(proposal, { requireAllPhotos: true }));
+    } catch (error) {
+      if (!(error instanceof PdfPhotoLoadError)) throw error;
+      logger.error('Proposal photo unavailable for signing', { proposalId: proposal.id, photoId: error.photoId }, error);
+      const contractor = await storage.getUser(proposal.userId);
+      if (contractor?.email) {
+        sendProposalPhotoUnavailableNotification({
+          contractorEmail: contractor.email,
+          contractorName: contractor.firstName || undefined,
+          clientName: name,
+          projectTitle: proposal.jobTypeName,
+          photoLabel: error.photoLabel,
+          proposalId: proposal.id,
+        }).catch(err => console.error('Error sending photo unavailable notification:', err));
+      }
+      return NextResponse.json(
+        {
+          message: "This proposal can't be signed right now because one of its photos couldn't be loaded. The contractor has been notified.",
+          photoUnavailable: true,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Accept the proposal; the signing certificate is written in the same transaction
+    const language = resolveClientLanguage(proposal.clientLanguage);
+    const updatedProposal = await storage.acceptProposal(token, name, email, signature, {
+      role: 'client',
+      signerName: name,
+      signerEmail: email,
+      ipAddress: getSignerIp(request.headers),
+      userAgent: request.headers.get('user-agent'),
+      consentText: getClientMessages(language).signing.clientConsent,
+      language,
+      documentSha256,
+      termsVersion: proposal.contractTerms?.version,
+      termsState: proposal.contractTerms?.state,
+      termsShown: localizeContractTerms(proposal.contractTerms, language),
+    });
     
+    // Someone else accepted it while the document was being rendered
     if (!updatedProposal) {
       return NextResponse.json(
-        { message: 'Failed to accept proposal' },
-        { status: 500 }
+        { message: 'This proposal has already been accepted' },
+        { status: 409 }
       );
     }
 
+    await recordProposalEvent('proposal_accepted', updatedProposal);
+
     // Send notification to contractor (non-blocking)
     const user = await storage.getUser(proposal.userId);
     if (user?.email) {
@@ -87,6 +160,9 @@ export async function POST(
         projectAddress: proposal.address,
         totalPrice,
         acceptedAt: new Date(),
+        deposit: isDepositDue(proposal) && proposal.depositAmount
+          ? { amount: proposal.depositAmount, paymentUrl: proposal.paymentLinkUrl! }
+          : undefined,
       }).catch(err => console.error('Error sending acceptance notification:', err));
     }
 
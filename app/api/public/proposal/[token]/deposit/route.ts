@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { reconcileProposalDeposit } from '@/lib/services/paymentReconciliation';
+import { logger } from '@/lib/logger';
+
+/**
+ * Called by the public proposal page when Stripe redirects the client back
+ * with ?deposit=paid. Reads the deposit back from the contractor's Stripe
+ * account and records it. Stripe is asked at most every few seconds per
+ * proposal; in between, the stored status is returned. Deposits the client
+ * doesn't come back for are recorded by the payments.reconcile job.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    if (!token) {
+      return NextResponse.json(
+        { message: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    const proposal = await storage.getProposalByPublicToken(token);
+    if (!proposal || !proposal.paymentLinkId) {
+      return NextResponse.json(
+        { message: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    const reconciled = await reconcileProposalDeposit(proposal);
+
+    return NextResponse.json({
+      paymentStatus: reconciled.paymentStatus,
+      paidAmount: reconciled.paidAmount,
+    });
+  } catch (error) {
+    logger.error('Error reconciling proposal deposit', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to check deposit' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { storage } from '@/lib/services/storage';
+import { describeRevisionChange } from '@/lib/proposal-revisions';
+import { hasCostBreakdown, toClientCostTable } from '@/lib/cost-breakdown';
+import { isProposalExpired } from '@/lib/follow-ups/sequence';
+import { isDepositDue } from '@/lib/proposal-deposits';
+import { recordProposalEvent } from '@/lib/crew-analytics';
+import { localizeProposalContent, resolveClientLanguage } from '@/lib/client-locale';
+import { localizeContractTerms } from '@/lib/contract-terms';
 
 export async function GET(
   request: NextRequest,
@@ -26,9 +33,9 @@ export async function GET(
     // Record view (non-blocking)
     const viewerIp = request.headers.get('x-forwarded-for')?.split(',')[0] || undefined;
     const userAgent = request.headers.get('user-agent') || undefined;
-    storage.recordProposalView(proposal.id, viewerIp, userAgent).catch(err => 
-      console.error('Error recording proposal view:', err)
-    );
+    storage.recordProposalView(proposal.id, viewerIp, userAgent)
+      .then(() => recordProposalEvent('proposal_viewed', proposal, { viewerIp }))
+      .catch(err => console.error('Error recording proposal view:', err));
 
     // Update proposal status to 'viewed' if currently 'sent'
     if (proposal.status === 'sent') {
@@ -38,19 +45,39 @@ export async function GET(
     }
 
     const user = await storage.getUser(proposal.userId);
+
+    // Catalog scope is stored in English and rendered in the client's language
+    const clientLanguage = resolveClientLanguage(proposal.clientLanguage);
+    const content = localizeProposalContent(proposal, clientLanguage);
+
+    // Client-visible change log: every revision after the originally sent version
+    const revisions = await storage.getProposalRevisions(proposal.id);
+    const changeLog = revisions
+      .filter(revision => revision.revisionNumber > 1 && revision.changes.length > 0)
+      .map(revision => ({
+        revisionNumber: revision.revisionNumber,
+        createdAt: revision.createdAt,
+        changes: revision.changes.map(change => describeRevisionChange(change, clientLanguage)),
+      }))
+      .reverse();
     
     return NextResponse.json({
       proposal: {
         id: proposal.id,
         clientName: proposal.clientName,
         address: proposal.address,
-        jobTypeName: proposal.jobTypeName,
-        scope: proposal.scope,
-        scopeSections: proposal.scopeSections,
+        jobTypeName: content.jobTypeName,
+        scope: content.scope,
+        scopeSections: content.scopeSections,
         priceLow: proposal.priceLow,
         priceHigh: proposal.priceHigh,
         options: proposal.options,
-        lineItems: proposal.lineItems,
+        // Cost breakdowns are reduced to the client-facing table (no unit costs or markup %)
+        lineItems: content.lineItems?.map(({ costBreakdown, ...item }) => ({
+          ...item,
+          costTable: hasCostBreakdown(costBreakdown) ? toClientCostTable(costBreakdown) : null,
+        })),
+        costTable: hasCostBreakdown(proposal.costBreakdown) ? toClientCostTable(proposal.costBreakdown) : null,
         isMultiService: proposal.isMultiService,
         estimatedDaysLow: proposal.estimatedDaysLow,
         estimatedDaysHigh: proposal.estimatedDaysHigh,
@@ -61,7 +88,21 @@ export async function GET(
         signature: proposal.signature,
         contractorSignature: proposal.contractorSignature,
         contractorSignedAt: proposal.contractorSignedAt,
+        validUntil: proposal.validUntil,
+        clientLanguage,
+        // Terms & conditions as the client signs them
+        terms: localizeContractTerms(proposal.contractTerms, clientLanguage),
+        isExpired: isProposalExpired(proposal),
+        // Deposit requested by the contractor; the link is only exposed while unpaid
+        deposit: proposal.paymentLinkUrl ? {
+          percentage: proposal.depositPercentage,
+          amount: proposal.depositAmount,
+          paymentStatus: proposal.paymentStatus,
+          paidAmount: proposal.paidAmount,
+          paymentLinkUrl: isDepositDue(proposal) ? proposal.paymentLinkUrl : null,
+        } : null,
       },
+      changeLog,
       companyInfo: user ? {
         companyName: user.companyName,
         companyAddress: user.companyAddress,
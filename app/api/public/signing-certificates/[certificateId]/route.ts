@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSigningCertificate,
+  isSha256Hex,
+  maskEmail,
+  maskIpAddress,
+  verifySigningCertificate,
+} from '@/lib/signing-certificates';
+import { logger } from '@/lib/logger';
+
+const CERTIFICATE_ID = /^[0-9a-f-]{36}$/i;
+
+/**
+ * Verifies a signing certificate printed on a proposal PDF. Pass
+ * ?documentSha256=<hex> to also check a document against the one signed.
+ * Signer email and IP are partially masked.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ certificateId: string }> }
+) {
+  try {
+    const { certificateId } = await params;
+    if (!CERTIFICATE_ID.test(certificateId)) {
+      return NextResponse.json({ message: 'Invalid certificate ID' }, { status: 400 });
+    }
+
+    const documentSha256 = new URL(request.url).searchParams.get('documentSha256');
+    if (documentSha256 && !isSha256Hex(documentSha256)) {
+      return NextResponse.json(
+        { message: 'documentSha256 must be a 64-character hex SHA-256 digest' },
+        { status: 400 }
+      );
+    }
+
+    const certificate = await getSigningCertificate(certificateId.toLowerCase());
+    if (!certificate) {
+      return NextResponse.json({ message: 'Certificate not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      certificate: {
+        certificateId: certificate.certificateId,
+        proposalId: certificate.proposalId,
+        role: certificate.role,
+        signerName: certificate.signerName,
+        signerEmail: maskEmail(certificate.signerEmail),
+        signedAt: certificate.signedAt,
+        ipAddress: maskIpAddress(certificate.ipAddress),
+        userAgent: certificate.userAgent,
+        consentText: certificate.consentText,
+        language: certificate.language,
+        documentSha256: certificate.documentSha256,
+        signatureSha256: certificate.signatureSha256,
+        termsVersion: certificate.termsVersion,
+        termsState: certificate.termsState,
+        termsShown: certificate.termsShown,
+        termsSha256: certificate.termsSha256,
+        certificateSha256: certificate.certificateSha256,
+      },
+      verification: verifySigningCertificate(certificate, documentSha256),
+    });
+  } catch (error) {
+    logger.error('Error verifying signing certificate', error as Error);
+    return NextResponse.json({ message: 'Failed to verify certificate' }, { status: 500 });
+  }
+}
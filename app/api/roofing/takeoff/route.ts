@@ -0,0 +1,79 @@
+/**
+ * GET /api/roofing/takeoff
+ * 
+ * Material takeoff for a job's completed EagleView report, using the user's
+ * waste settings. Pass format=csv for a supplier order sheet.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getEagleViewOrderByJobId } from "@/lib/eagleview/storage";
+import {
+  computeRoofingTakeoff,
+  getRoofingWasteConfig,
+  supplierCsvFilename,
+  takeoffToSupplierCsv,
+} from "@/lib/roofing-takeoff";
+import { roofingMeasurementsSchema } from "@shared/schema";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Auth check
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: { code: "UNAUTHORIZED", message: "Authentication required" } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('jobId');
+    const format = searchParams.get('format');
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: { code: "INVALID_INPUT", message: "jobId query parameter is required" } },
+        { status: 400 }
+      );
+    }
+
+    const order = await getEagleViewOrderByJobId(jobId, userId);
+    if (!order) {
+      return NextResponse.json(
+        { error: { code: "NOT_FOUND", message: "No EagleView order found for this job" } },
+        { status: 404 }
+      );
+    }
+
+    const measurements = roofingMeasurementsSchema.safeParse(order.roofingMeasurements);
+    if (order.status !== 'completed' || !measurements.success) {
+      return NextResponse.json(
+        { error: { code: "NOT_READY", message: "Roof measurements are not available yet" } },
+        { status: 409 }
+      );
+    }
+
+    const wasteConfig = await getRoofingWasteConfig(userId);
+    const takeoff = computeRoofingTakeoff(measurements.data, wasteConfig);
+
+    if (format === 'csv') {
+      const csv = takeoffToSupplierCsv(takeoff, { jobId, address: order.address });
+      return new NextResponse(csv, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${supplierCsvFilename(jobId)}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ jobId, takeoff });
+
+  } catch (error) {
+    console.error("Roofing takeoff route error:", error);
+    return NextResponse.json(
+      { error: { code: "INTERNAL", message: "An unexpected error occurred" } },
+      { status: 500 }
+    );
+  }
+}
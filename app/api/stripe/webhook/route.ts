@@ -4,6 +4,8 @@ import { logger } from '@/lib/logger';
 import { getStripeClient, getStripeWebhookSecret } from '@/lib/services/stripeClient';
 import { billingService } from '@/lib/services/billingService';
 import { storage } from '@/lib/services/storage';
+import { markInvoicePaid } from '@/lib/invoices';
+import { getDepositSessionPayment } from '@/lib/proposal-deposits';
 import Stripe from 'stripe';
 
 // Disable body parsing for webhooks (needed for signature verification)
@@ -89,6 +91,13 @@ export async function POST(request: NextRequest) {
       case 'checkout.session.completed': {
         console.log('[webhook] 🛒 Handling checkout.session.completed');
         const session = event.data.object as Stripe.Checkout.Session;
+
+        // Proposal deposits paid through a Payment Link
+        if (session.payment_link) {
+          result = await handleDepositCheckoutCompleted(session, event, body);
+          break;
+        }
+
         console.log('[webhook] Session details:', {
           sessionId: session.id,
           customerId: session.customer,
@@ -102,6 +111,15 @@ export async function POST(request: NextRequest) {
         break;
       }
 
+      case 'checkout.session.async_payment_succeeded': {
+        // Delayed payment methods (e.g. ACH) settle after checkout completes
+        const session = event.data.object as Stripe.Checkout.Session;
+        result = session.payment_link
+          ? await handleDepositCheckoutCompleted(session, event, body)
+          : { success: true, message: 'Async payment acknowledged' };
+        break;
+      }
+
       case 'customer.subscription.created':
       case 'customer.subscription.updated': {
         const subscription = event.data.object as Stripe.Subscription;
@@ -154,7 +172,46 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Handle payment_intent.succeeded for proposal deposits
+ * Handle a completed Payment Link checkout for a proposal deposit.
+ * Payment Links don't copy their metadata onto the PaymentIntent, so the
+ * proposal is found by the link id instead. Only links on the platform account
+ * arrive here; contractor-account links are read back when the client returns.
+ */
+async function handleDepositCheckoutCompleted(
+  session: Stripe.Checkout.Session,
+  event: Stripe.Event,
+  rawPayload: string
+): Promise<{ success: boolean; message: string }> {
+  const paymentLinkId = typeof session.payment_link === 'string' ? session.payment_link : session.payment_link?.id;
+  if (!paymentLinkId) {
+    return { success: true, message: 'No payment link on session' };
+  }
+
+  // Bank debits complete before the money arrives; wait for async_payment_succeeded
+  const payment = getDepositSessionPayment(session);
+  if (!payment) {
+    return { success: true, message: `Deposit for payment link ${paymentLinkId} awaiting payment` };
+  }
+
+  const proposal = await storage.recordProposalDeposit(paymentLinkId, payment);
+  if (!proposal) {
+    logger.warn('Stripe webhook: No proposal for payment link', { paymentLinkId });
+    return { success: true, message: `No proposal for payment link ${paymentLinkId}` };
+  }
+
+  await billingService.recordWebhookEvent({
+    eventId: event.id,
+    eventType: event.type,
+    userId: proposal.userId,
+    rawPayload,
+  });
+
+  logger.info('Stripe webhook: Deposit received for proposal', { proposalId: proposal.id, paymentStatus: proposal.paymentStatus });
+  return { success: true, message: `Deposit received for proposal ${proposal.id}` };
+}
+
+/**
+ * Handle payment_intent.succeeded for invoice payments
  */
 async function handlePaymentSucceeded(
   paymentIntent: Stripe.PaymentIntent,
@@ -165,19 +222,16 @@ async function handlePaymentSucceeded(
     return { success: true, message: 'Event already processed' };
   }
 
-  // Handle proposal deposit payments
-  const proposalId = paymentIntent.metadata?.proposalId;
-  console.log("Proposal ID", proposalId);
-  console.log("Payment Intent", paymentIntent);
-  if (proposalId && paymentIntent.metadata?.type === 'proposal_deposit') {
-    await storage.updateProposalPaymentStatus(parseInt(proposalId), {
-      paidAmount: paymentIntent.amount_received,
-      paymentStatus: 'paid',
+  // Handle invoice payments (deposit / progress / final billing schedule)
+  const invoiceId = paymentIntent.metadata?.invoiceId;
+  if (invoiceId && paymentIntent.metadata?.type === 'invoice_payment') {
+    const invoice = await markInvoicePaid(parseInt(invoiceId), {
+      amountReceived: paymentIntent.amount_received,
       stripePaymentIntentId: paymentIntent.id,
     });
 
-    logger.info('Stripe webhook: Payment received for proposal', { proposalId });
-    return { success: true, message: `Payment received for proposal ${proposalId}` };
+    logger.info('Stripe webhook: Payment received for invoice', { invoiceId, reconciled: !!invoice });
+    return { success: true, message: `Payment received for invoice ${invoiceId}` };
   }
 
   return { success: true, message: 'Payment intent acknowledged' };
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/services/db';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
 import { proposalTemplates } from '@shared/schema';
 import { eq, and, sql } from 'drizzle-orm';
+import { canViewTemplate, updateCustomTemplateSchema } from '@/lib/custom-templates';
 
 // GET /api/templates/[id] - Get a single template
 export async function GET(
@@ -20,12 +22,13 @@ export async function GET(
       );
     }
 
-    const [template] = await db
-      .select()
-      .from(proposalTemplates)
-      .where(eq(proposalTemplates.id, templateId));
+    const template = await storage.getTemplate(templateId);
+
+    // Custom templates are private to their creator unless shared with the team
+    const userId = template?.createdBy ? await getRequestUserId(request) : null;
+    const membership = userId && template?.createdBy !== userId ? await storage.getUserCompanyMembership(userId) : undefined;
 
-    if (!template) {
+    if (!template || !canViewTemplate(template, userId, membership)) {
       return NextResponse.json(
         { message: 'Template not found' },
         { status: 404 }
@@ -48,7 +51,7 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { userId } = await auth();
+    const userId = await getRequestUserId(request);
     
     if (!userId) {
       return NextResponse.json(
@@ -67,22 +70,16 @@ export async function PATCH(
       );
     }
 
-    const body = await request.json();
+    const validation = updateCustomTemplateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: validation.error.issues[0]?.message || 'Invalid template data', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
 
-    // Can only update templates created by this user
-    const [updated] = await db
-      .update(proposalTemplates)
-      .set({
-        ...body,
-        updatedAt: new Date(),
-      })
-      .where(
-        and(
-          eq(proposalTemplates.id, templateId),
-          eq(proposalTemplates.createdBy, userId)
-        )
-      )
-      .returning();
+    // Can only update templates created by this user; content changes record a new version
+    const updated = await storage.updateCustomTemplate(templateId, userId, validation.data);
 
     if (!updated) {
       return NextResponse.json(
@@ -107,7 +104,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { userId } = await auth();
+    const userId = await getRequestUserId(request);
     
     if (!userId) {
       return NextResponse.json(
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { shareTemplateSchema } from '@/lib/custom-templates';
+
+// PATCH /api/templates/[id]/share - Share a custom template with (or hide it from) the Crew team
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const templateId = parseInt(id);
+
+    const validation = shareTemplateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: 'sharedWithCompany must be true or false', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const [template, membership] = await Promise.all([
+      Number.isNaN(templateId) ? undefined : storage.getTemplate(templateId),
+      storage.getUserCompanyMembership(userId),
+    ]);
+
+    if (!template || template.createdBy !== userId) {
+      return NextResponse.json(
+        { message: 'Template not found or you do not have permission to share it' },
+        { status: 404 }
+      );
+    }
+
+    // Companies only exist for Crew accounts
+    if (!membership) {
+      return NextResponse.json(
+        { message: 'Sharing templates requires a Crew team workspace' },
+        { status: 403 }
+      );
+    }
+
+    // Sharing moves the template into the member's current team
+    const updated = await storage.setTemplateSharing(
+      templateId,
+      userId,
+      membership.companyId,
+      validation.data.sharedWithCompany
+    );
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    logger.error('Error sharing template', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to update template sharing' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+
+// POST /api/templates/[id]/versions/[version]/restore - Restore an earlier version as the newest one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, version } = await params;
+    const templateId = parseInt(id);
+    const versionNumber = parseInt(version);
+
+    if (Number.isNaN(templateId) || Number.isNaN(versionNumber)) {
+      return NextResponse.json(
+        { message: 'Invalid template version' },
+        { status: 400 }
+      );
+    }
+
+    const template = await storage.getTemplate(templateId);
+
+    if (!template) {
+      return NextResponse.json(
+        { message: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    if (template.createdBy !== userId) {
+      return NextResponse.json(
+        { message: 'Only the creator can restore a template version' },
+        { status: 403 }
+      );
+    }
+
+    const restored = await storage.restoreTemplateVersion(templateId, userId, versionNumber);
+
+    if (!restored) {
+      return NextResponse.json(
+        { message: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      template: restored,
+      restoredFromVersion: versionNumber,
+      currentVersion: restored.version,
+    });
+  } catch (error) {
+    logger.error('Error restoring template version', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to restore template version' },
+      { status: 500 }
+    );
+  }
+}
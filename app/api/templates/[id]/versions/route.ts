@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { canViewTemplate } from '@/lib/custom-templates';
+
+// GET /api/templates/[id]/versions - Version history of a custom template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const templateId = parseInt(id);
+    const template = Number.isNaN(templateId) ? undefined : await storage.getTemplate(templateId);
+    const membership = template && template.createdBy !== userId
+      ? await storage.getUserCompanyMembership(userId)
+      : undefined;
+
+    if (!template || template.createdBy === null || !canViewTemplate(template, userId, membership)) {
+      return NextResponse.json(
+        { message: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    const versions = await storage.getTemplateVersions(templateId);
+
+    return NextResponse.json({
+      templateId,
+      currentVersion: template.version,
+      versions,
+    });
+  } catch (error) {
+    logger.error('Error fetching template versions', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch template versions' },
+      { status: 500 }
+    );
+  }
+}
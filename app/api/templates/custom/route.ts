@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+
+// GET /api/templates/custom - The user's own templates plus the ones shared with their team
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    const templates = await storage.getVisibleTemplates(userId, membership?.companyId ?? null, { customOnly: true });
+
+    return NextResponse.json({
+      templates: templates.map((template) => ({
+        ...template,
+        isOwner: template.createdBy === userId,
+      })),
+      // Sharing needs a Crew workspace
+      canShare: Boolean(membership),
+    });
+  } catch (error) {
+    logger.error('Error fetching custom templates', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fetch custom templates' },
+      { status: 500 }
+    );
+  }
+}
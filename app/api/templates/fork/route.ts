@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { templates as generatorTemplates } from '@/lib/proposal-data';
+import {
+  canViewTemplate,
+  findGeneratorJobType,
+  forkTemplateSchema,
+  templateContentFromJobType,
+  templateContentFromRow,
+} from '@/lib/custom-templates';
+
+// POST /api/templates/fork - Copy a system, team or generator template into an editable custom template
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getRequestUserId(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const validation = forkTemplateSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: 'Choose a template to fork', errors: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const membership = await storage.getUserCompanyMembership(userId);
+    const source = validation.data;
+
+    if ('templateId' in source) {
+      const template = await storage.getTemplate(source.templateId);
+      if (!template || !canViewTemplate(template, userId, membership)) {
+        return NextResponse.json(
+          { message: 'Template not found' },
+          { status: 404 }
+        );
+      }
+
+      const content = templateContentFromRow(template);
+      const forked = await storage.createCustomTemplate(
+        userId,
+        membership?.companyId ?? null,
+        template.createdBy === null ? content : { ...content, jobTypeName: `${content.jobTypeName} (copy)` },
+        template.id
+      );
+      return NextResponse.json(forked, { status: 201 });
+    }
+
+    const match = findGeneratorJobType(generatorTemplates, source.tradeId, source.jobTypeId);
+    if (!match) {
+      return NextResponse.json(
+        { message: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    const forked = await storage.createCustomTemplate(
+      userId,
+      membership?.companyId ?? null,
+      templateContentFromJobType(match.trade, match.jobType)
+    );
+    return NextResponse.json(forked, { status: 201 });
+  } catch (error) {
+    logger.error('Error forking template', error as Error);
+    return NextResponse.json(
+      { message: 'Failed to fork template' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { db } from '@/lib/services/db';
-import { proposalTemplates, insertTemplateSchema } from '@shared/schema';
-import { eq, and, or, isNull, desc } from 'drizzle-orm';
+import { storage } from '@/lib/services/storage';
+import { getRequestUserId } from '@/lib/services/requestUserId';
+import { logger } from '@/lib/logger';
+import { createCustomTemplateSchema } from '@/lib/custom-templates';
 
-// GET /api/templates - List all templates (system + user's custom)
+// GET /api/templates - List all templates (system + user's custom + shared with their team)
 export async function GET(request: NextRequest) {
   try {
-    const { userId } = await auth();
+    const userId = await getRequestUserId(request);
     const { searchParams } = new URL(request.url);
     const tradeId = searchParams.get('tradeId');
-    
-    // Build where clause - get system templates OR user's templates
-    const whereConditions = [
-      eq(proposalTemplates.isActive, true),
-    ];
-    
-    if (userId) {
-      // Get system templates (createdBy is null) OR user's templates
-      whereConditions.push(
-        or(
-          isNull(proposalTemplates.createdBy),
-          eq(proposalTemplates.createdBy, userId)
-        )!
-      );
-    } else {
-      // Only system templates for unauthenticated users
-      whereConditions.push(isNull(proposalTemplates.createdBy));
-    }
-    
-    if (tradeId) {
-      whereConditions.push(eq(proposalTemplates.tradeId, tradeId));
-    }
-    
-    const templates = await db
-      .select()
-      .from(proposalTemplates)
-      .where(and(...whereConditions))
-      .orderBy(desc(proposalTemplates.usageCount), proposalTemplates.tradeName, proposalTemplates.jobTypeName);
-    
+
+    // System templates, the user's own, and the ones shared with their Crew team
+    const membership = userId ? await storage.getUserCompanyMembership(userId) : undefined;
+    const templates = await storage.getVisibleTemplates(userId, membership?.companyId ?? null, {
+      tradeId: tradeId ?? undefined,
+    });
+
     // Group by trade for easier consumption
     const byTrade = templates.reduce((acc, template) => {
       if (!acc[template.tradeId]) {
@@ -60,8 +38,13 @@ export async function GET(request: NextRequest) {
         estimatedDaysHigh: template.estimatedDaysHigh,
         warranty: template.warranty,
         exclusions: template.exclusions,
+        scopeSections: template.scopeSections,
+        assumptions: template.assumptions,
         isDefault: template.isDefault,
         isCustom: template.createdBy !== null,
+        isOwner: userId !== null && template.createdBy === userId,
+        sharedWithCompany: template.sharedWithCompany,
+        version: template.version,
         usageCount: template.usageCount,
       });
       return acc;
@@ -72,7 +55,7 @@ export async function GET(request: NextRequest) {
       total: templates.length,
     });
   } catch (error) {
-    console.error('Error fetching templates:', error);
+    logger.error('Error fetching templates', error as Error);
     return NextResponse.json(
       { message: 'Failed to fetch templates' },
       { status: 500 }
@@ -83,8 +66,8 @@ export async function GET(request: NextRequest) {
 // POST /api/templates - Create a custom template
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
+    const userId = await getRequestUserId(request);
+
     if (!userId) {
       return NextResponse.json(
         { message: 'Unauthorized' },
@@ -93,28 +76,29 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    
-    const validationResult = insertTemplateSchema.safeParse({
+
+    // Templates created before the editor send a flat baseScope
+    const validationResult = createCustomTemplateSchema.safeParse({
       ...body,
-      createdBy: userId,
-      isDefault: false, // User templates are never default
+      scopeSections: body.scopeSections ?? (Array.isArray(body.baseScope)
+        ? [{ title: 'Scope of Work', items: body.baseScope }]
+        : undefined),
     });
 
     if (!validationResult.success) {
       return NextResponse.json(
-        { message: validationResult.error.issues[0]?.message || 'Invalid template data' },
+        { message: validationResult.error.issues[0]?.message || 'Invalid template data', errors: validationResult.error.format() },
         { status: 400 }
       );
     }
 
-    const [template] = await db
-      .insert(proposalTemplates)
-      .values(validationResult.data)
-      .returning();
+    // Templates created inside a Crew workspace can later be shared with the team
+    const membership = await storage.getUserCompanyMembership(userId);
+    const template = await storage.createCustomTemplate(userId, membership?.companyId ?? null, validationResult.data);
 
     return NextResponse.json(template, { status: 201 });
   } catch (error) {
-    console.error('Error creating template:', error);
+    logger.error('Error creating template', error as Error);
     return NextResponse.json(
       { message: 'Failed to create template' },
       { status: 500 }
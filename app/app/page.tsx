@@ -535,7 +535,7 @@ function GeneratorContent() {
         state: region.state,
         abbrev: region.abbrev,
         region: region.region,
-        multiplier: region.multiplier,
+        multiplier: regionalMultiplier,
       } : null,
       footage: service.footage,
       homeArea: service.homeArea,
@@ -6,104 +6,26 @@ import {
   Calculator, Loader2, Sparkles, Bath, ChefHat, Home as HomeIcon,
   Paintbrush, Plug, Wrench, Thermometer, TreePine, ArrowRight,
   Share2, Copy, Check, Twitter, Facebook, Linkedin, Code,
-  DollarSign, Clock, Hammer, MapPin
+  DollarSign, Clock, Hammer, MapPin, type LucideIcon
 } from "lucide-react";
-import { regionalMultipliers } from "@/lib/regional-pricing";
+import { lookupCostIndex } from "@/lib/cost-index";
+import { getCalculatorTrades } from "@/lib/catalog";
 import { buildEstimateParams } from "@/app/m/lib/estimate-params";
 
-const calculatorTrades = [
-  {
-    id: "bathroom",
-    name: "Bathroom Remodel",
-    icon: Bath,
-    materialsRatio: 0.45,
-    laborRatio: 0.55,
-    jobTypes: [
-      { id: "tub-to-shower", name: "Tub-to-Shower Conversion", low: 8500, high: 12000, days: [5, 8] },
-      { id: "full-gut", name: "Full Bathroom Remodel", low: 18000, high: 28000, days: [10, 21] },
-      { id: "half-bath", name: "Half Bath / Powder Room", low: 6500, high: 9500, days: [4, 7] },
-      { id: "vanity-refresh", name: "Vanity & Faucet Replacement", low: 1800, high: 3500, days: [1, 2] },
-      { id: "ada-accessible", name: "ADA Accessibility Upgrade", low: 12000, high: 22000, days: [7, 14] },
-      { id: "tile-only", name: "Tile Replacement", low: 3500, high: 7000, days: [3, 5] },
-    ]
-  },
-  {
-    id: "kitchen",
-    name: "Kitchen Remodel",
-    icon: ChefHat,
-    materialsRatio: 0.50,
-    laborRatio: 0.50,
-    jobTypes: [
-      { id: "full-kitchen", name: "Full Kitchen Remodel", low: 45000, high: 85000, days: [30, 60] },
-      { id: "cabinet-refresh", name: "Cabinet & Countertop Refresh", low: 8500, high: 15000, days: [7, 14] },
-      { id: "appliance-upgrade", name: "Appliance Package Install", low: 2500, high: 5000, days: [1, 2] },
-      { id: "backsplash", name: "Backsplash Installation", low: 1500, high: 4000, days: [2, 4] },
-      { id: "cabinet-refacing", name: "Cabinet Refacing", low: 5000, high: 12000, days: [5, 10] },
-      { id: "island-addition", name: "Kitchen Island Addition", low: 8000, high: 20000, days: [5, 10] },
-    ]
-  },
+const tradeIcons: Record<string, LucideIcon> = {
+  bathroom: Bath,
+  kitchen: ChefHat,
+  painting: Paintbrush,
+  electrical: Plug,
+  plumbing: Wrench,
+  hvac: Thermometer,
+};
 
-  {
-    id: "painting",
-    name: "Painting",
-    icon: Paintbrush,
-    materialsRatio: 0.25,
-    laborRatio: 0.75,
-    jobTypes: [
-      { id: "single-room", name: "Single Room (Interior)", low: 450, high: 850, days: [1, 2] },
-      { id: "whole-house", name: "Whole House Interior", low: 3500, high: 8000, days: [5, 10] },
-      { id: "exterior", name: "Exterior House Painting", low: 4000, high: 12000, days: [5, 10] },
-      { id: "cabinet-painting", name: "Cabinet Painting", low: 2500, high: 6000, days: [5, 10] },
-      { id: "deck-staining", name: "Deck Staining", low: 800, high: 2500, days: [2, 3] },
-      { id: "trim-only", name: "Trim & Door Painting", low: 1000, high: 3000, days: [2, 4] },
-    ]
-  },
-  {
-    id: "electrical",
-    name: "Electrical",
-    icon: Plug,
-    materialsRatio: 0.35,
-    laborRatio: 0.65,
-    jobTypes: [
-      { id: "panel-upgrade", name: "Panel Upgrade", low: 2500, high: 4500, days: [1, 2] },
-      { id: "ev-charger", name: "EV Charger Installation", low: 800, high: 2000, days: [1, 1] },
-      { id: "rewiring", name: "Whole House Rewiring", low: 8000, high: 15000, days: [5, 10] },
-      { id: "outlet-install", name: "Outlet Installation", low: 150, high: 400, days: [1, 1] },
-      { id: "lighting-upgrade", name: "Recessed Lighting Package", low: 1200, high: 3500, days: [1, 2] },
-      { id: "ceiling-fan", name: "Ceiling Fan Installation", low: 200, high: 500, days: [1, 1] },
-    ]
-  },
-  {
-    id: "plumbing",
-    name: "Plumbing",
-    icon: Wrench,
-    materialsRatio: 0.30,
-    laborRatio: 0.70,
-    jobTypes: [
-      { id: "water-heater", name: "Water Heater Replacement", low: 1800, high: 3500, days: [1, 1] },
-      { id: "repipe", name: "Whole House Repipe", low: 8000, high: 15000, days: [3, 5] },
-      { id: "drain-cleaning", name: "Drain Cleaning", low: 150, high: 500, days: [1, 1] },
-      { id: "sewer-line", name: "Sewer Line Repair/Replace", low: 3000, high: 8000, days: [2, 4] },
-      { id: "fixture-install", name: "Fixture Installation", low: 200, high: 600, days: [1, 1] },
-      { id: "tankless", name: "Tankless Water Heater", low: 3000, high: 5500, days: [1, 2] },
-    ]
-  },
-  {
-    id: "hvac",
-    name: "HVAC",
-    icon: Thermometer,
-    materialsRatio: 0.55,
-    laborRatio: 0.45,
-    jobTypes: [
-      { id: "ac-install", name: "AC Unit Installation", low: 4500, high: 12000, days: [1, 3] },
-      { id: "furnace", name: "Furnace Replacement", low: 3500, high: 8000, days: [1, 2] },
-      { id: "maintenance", name: "Maintenance / Tune-Up", low: 99, high: 299, days: [1, 1] },
-      { id: "ductwork", name: "Ductwork Replacement", low: 3000, high: 8000, days: [2, 4] },
-      { id: "mini-split", name: "Mini-Split Installation", low: 3000, high: 7000, days: [1, 2] },
-      { id: "heat-pump", name: "Heat Pump Installation", low: 5000, high: 12000, days: [1, 3] },
-    ]
-  },
-];
+// Job types and base prices come from the trade catalog shared with the generator and mobile app
+const calculatorTrades = getCalculatorTrades().map((trade) => ({
+  ...trade,
+  icon: tradeIcons[trade.id] ?? Hammer,
+}));
 
 const sizeMultipliers = {
   small: { label: "Small", multiplier: 0.75, description: "Basic/compact scope", sqftRange: "Under 100 sq ft" },
@@ -171,29 +93,10 @@ export default function CalculatorPage() {
   const canCalculate = selectedTrade && selectedJobType && selectedSize && (selectedSize !== "custom" || customSqFt);
 
   useEffect(() => {
-    if (zipCode.length >= 5) {
-      const stateMatch = regionalMultipliers.find(r => {
-        if (zipCode.startsWith("9")) return r.abbrev === "CA";
-        if (zipCode.startsWith("100") || zipCode.startsWith("112")) return r.abbrev === "NY";
-        if (zipCode.startsWith("77") || zipCode.startsWith("75")) return r.abbrev === "TX";
-        if (zipCode.startsWith("33") || zipCode.startsWith("32")) return r.abbrev === "FL";
-        if (zipCode.startsWith("60")) return r.abbrev === "IL";
-        if (zipCode.startsWith("19") || zipCode.startsWith("18")) return r.abbrev === "PA";
-        if (zipCode.startsWith("85") || zipCode.startsWith("86")) return r.abbrev === "AZ";
-        if (zipCode.startsWith("30") || zipCode.startsWith("31")) return r.abbrev === "GA";
-        if (zipCode.startsWith("98") || zipCode.startsWith("99")) return r.abbrev === "WA";
-        if (zipCode.startsWith("02") || zipCode.startsWith("01")) return r.abbrev === "MA";
-        if (zipCode.startsWith("80") || zipCode.startsWith("81")) return r.abbrev === "CO";
-        if (zipCode.startsWith("27") || zipCode.startsWith("28")) return r.abbrev === "NC";
-        return null;
-      });
-      if (stateMatch) {
-        setRegionalMultiplier(stateMatch.multiplier);
-        setDetectedRegion(stateMatch.state);
-      } else {
-        setRegionalMultiplier(1.0);
-        setDetectedRegion(null);
-      }
+    const costIndex = zipCode.length >= 5 ? lookupCostIndex({ zip: zipCode }) : null;
+    if (costIndex && costIndex.level !== "national") {
+      setRegionalMultiplier(costIndex.multiplier);
+      setDetectedRegion(costIndex.label);
     } else {
       setRegionalMultiplier(1.0);
       setDetectedRegion(null);
@@ -509,7 +412,7 @@ export default function CalculatorPage() {
                     <MapPin className="w-5 h-5 text-secondary" />
                   </div>
                   <h3 className="font-bold text-slate-900 mb-2">Regional Adjustments</h3>
-                  <p className="text-slate-600 text-sm">We adjust prices based on local labor rates, material costs, and cost of living differences across all 50 states.</p>
+                  <p className="text-slate-600 text-sm">We adjust prices based on local labor rates, material costs, and cost of living differences across all 50 states, down to the county and ZIP code where we have local data.</p>
                 </div>
                 <div className="bg-slate-50 rounded-xl p-5">
                   <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center mb-3">
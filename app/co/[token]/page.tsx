@@ -0,0 +1,318 @@
+'use client';
+// Force dynamic rendering to prevent static generation errors
+// This page uses useQuery and useMutation which require QueryClientProvider
+export const dynamic = 'force-dynamic';
+
+import { useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import SignaturePad, { SignaturePadRef } from "@/components/signature-pad";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, FileWarning, CheckCircle2, FileSignature, Plus, Minus } from "lucide-react";
+import { formatChangeOrderNumber, formatPriceDelta } from "@/lib/change-orders/contract";
+
+interface PublicChangeOrderResponse {
+  changeOrder: {
+    number: number;
+    title: string;
+    description: string | null;
+    addedScope: string[];
+    removedScope: string[];
+    priceDelta: number;
+    status: string;
+    createdAt: string;
+    acceptedAt: string | null;
+    acceptedByName: string | null;
+    signature: string | null;
+  };
+  proposal: {
+    clientName: string;
+    address: string;
+    jobTypeName: string;
+    publicToken: string | null;
+  };
+  contract: {
+    originalTotal: number;
+    currentTotal: number;
+    totalIfAccepted: number;
+  };
+  companyInfo: {
+    companyName?: string | null;
+    companyAddress?: string | null;
+    companyPhone?: string | null;
+    companyLogo?: string | null;
+  } | null;
+}
+
+function formatDollars(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+export default function PublicChangeOrder() {
+  const params = useParams();
+  const token = params?.token as string;
+  const signaturePadRef = useRef<SignaturePadRef>(null);
+  const queryClient = useQueryClient();
+  const [acceptName, setAcceptName] = useState("");
+  const [acceptEmail, setAcceptEmail] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery<PublicChangeOrderResponse>({
+    queryKey: ["/api/public/change-order", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/public/change-order/${token}`);
+      if (!res.ok) {
+        throw new Error("Change order not found");
+      }
+      return res.json();
+    },
+    enabled: !!token,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async ({ name, email, signature }: { name: string; email: string; signature: string }) => {
+      const res = await fetch(`/api/public/change-order/${token}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, email, signature }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to accept change order");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/public/change-order", token] });
+      setSignature(null);
+    },
+  });
+
+  const handleAcceptSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (acceptName.trim() && acceptEmail.trim() && signature) {
+      acceptMutation.mutate({
+        name: acceptName.trim(),
+        email: acceptEmail.trim(),
+        signature,
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto text-primary" />
+          <p className="mt-4 text-slate-600">Loading change order...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-8">
+          <FileWarning className="w-16 h-16 mx-auto text-slate-400" />
+          <h1 className="text-2xl font-bold mt-4 text-slate-900">Change Order Not Found</h1>
+          <p className="mt-2 text-slate-600">
+            This change order link may have expired or is no longer available.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { changeOrder, contract } = data;
+  const isAccepted = changeOrder.status === "accepted";
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <div className="sticky top-0 z-50 bg-white border-b shadow-sm">
+        <div className="max-w-[720px] mx-auto px-4 py-4">
+          <h1 className="font-heading font-bold text-lg text-slate-900">
+            {data.companyInfo?.companyName || "Change Order"}
+          </h1>
+          <p className="text-sm text-slate-500">
+            {formatChangeOrderNumber(changeOrder.number)} for {data.proposal.clientName}
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-[720px] mx-auto px-4 py-8 space-y-6">
+        {isAccepted && changeOrder.acceptedAt && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4" data-testid="status-change-order-accepted">
+            <div className="flex items-start gap-3">
+              <CheckCircle2 className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="font-medium text-green-800">
+                  This change order was accepted by {changeOrder.acceptedByName}
+                </p>
+                <p className="text-green-700 text-sm">
+                  {new Date(changeOrder.acceptedAt).toLocaleString("en-US", {
+                    dateStyle: "long",
+                    timeStyle: "short",
+                  })}
+                </p>
+              </div>
+            </div>
+            {changeOrder.signature && (
+              <div className="mt-4 pt-4 border-t border-green-200">
+                <p className="text-sm font-medium text-green-800 mb-2">Signature:</p>
+                <div className="bg-white rounded-lg p-2 inline-block border border-green-200">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={changeOrder.signature}
+                    alt="Client signature"
+                    className="max-h-20"
+                    data-testid="img-change-order-signature"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border p-6 space-y-5">
+          <div>
+            <p className="text-xs font-bold text-slate-500 uppercase">
+              Change to {data.proposal.jobTypeName} at {data.proposal.address}
+            </p>
+            <h2 className="text-xl font-bold text-slate-900 mt-1">{changeOrder.title}</h2>
+            {changeOrder.description && (
+              <p className="text-slate-600 mt-2 whitespace-pre-line">{changeOrder.description}</p>
+            )}
+          </div>
+
+          {changeOrder.addedScope.length > 0 && (
+            <div>
+              <p className="font-semibold text-slate-900 mb-2">Added to scope</p>
+              <ul className="space-y-1 text-sm">
+                {changeOrder.addedScope.map((item, index) => (
+                  <li key={index} className="flex gap-2 text-slate-700">
+                    <Plus className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {changeOrder.removedScope.length > 0 && (
+            <div>
+              <p className="font-semibold text-slate-900 mb-2">Removed from scope</p>
+              <ul className="space-y-1 text-sm">
+                {changeOrder.removedScope.map((item, index) => (
+                  <li key={index} className="flex gap-2 text-slate-500">
+                    <Minus className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+                    <span className="line-through">{item}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="border-t pt-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-slate-600">Original contract</span>
+              <span>{formatDollars(contract.originalTotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-600">This change</span>
+              <span className="font-medium" data-testid="text-price-delta">{formatPriceDelta(changeOrder.priceDelta)}</span>
+            </div>
+            <div className="flex justify-between items-end pt-2 border-t">
+              <span className="font-bold text-slate-700">
+                {isAccepted ? "Contract total" : "New contract total"}
+              </span>
+              <span className="text-2xl font-bold text-slate-900" data-testid="text-contract-total">
+                {formatDollars(isAccepted ? contract.currentTotal : contract.totalIfAccepted)}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {!isAccepted && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+                <FileSignature className="w-5 h-5 text-green-600" />
+              </div>
+              <div>
+                <h2 className="font-bold text-slate-900">Approve This Change Order</h2>
+                <p className="text-sm text-slate-600">Sign below to authorize the change to your contract</p>
+              </div>
+            </div>
+
+            <form onSubmit={handleAcceptSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="accept-name">Your Full Name</Label>
+                <Input
+                  id="accept-name"
+                  type="text"
+                  value={acceptName}
+                  onChange={(e) => setAcceptName(e.target.value)}
+                  required
+                  data-testid="input-accept-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="accept-email">Your Email Address</Label>
+                <Input
+                  id="accept-email"
+                  type="email"
+                  value={acceptEmail}
+                  onChange={(e) => setAcceptEmail(e.target.value)}
+                  placeholder="john@example.com"
+                  required
+                  data-testid="input-accept-email"
+                />
+              </div>
+
+              <div>
+                <Label>Your Signature</Label>
+                <p className="text-xs text-slate-500 mb-2">
+                  Draw your signature below using your mouse or finger
+                </p>
+                <SignaturePad
+                  ref={signaturePadRef}
+                  onSignatureChange={setSignature}
+                />
+                {!signature && (
+                  <p className="text-amber-600 text-sm mt-1" data-testid="text-signature-required">
+                    Please sign above to continue
+                  </p>
+                )}
+              </div>
+
+              {acceptMutation.isError && (
+                <p className="text-red-600 text-sm" data-testid="text-accept-error">
+                  {acceptMutation.error?.message || "Failed to accept change order"}
+                </p>
+              )}
+
+              <Button
+                type="submit"
+                disabled={acceptMutation.isPending || !acceptName.trim() || !acceptEmail.trim() || !signature}
+                className="w-full bg-green-600 hover:bg-green-700"
+                data-testid="button-confirm-accept-change-order"
+              >
+                {acceptMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Accepting...
+                  </>
+                ) : (
+                  "Accept Change Order"
+                )}
+              </Button>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,8 @@ import EmailProposalModal from "@/components/email-proposal-modal";
 import EditPriceModal from "@/components/edit-price-modal";
 import CountersignModal from "@/components/countersign-modal";
 import PaymentLinkModal from "@/components/payment-link-modal";
+import InvoicesModal from "@/components/invoices-modal";
+import ChangeOrdersModal from "@/components/change-orders-modal";
 import PaywallModal from "@/components/paywall-modal";
 import { useAuth } from "@/hooks/useAuth";
 import { useLanguage } from "@/hooks/useLanguage";
@@ -48,6 +50,7 @@ interface Proposal {
   paidAmount?: number | null;
   viewCount?: number | null;
   lastViewedAt?: string | null;
+  validUntil?: string | null;
   isUnlocked?: boolean;
 }
 
@@ -90,6 +93,15 @@ export default function Dashboard() {
     paymentLinkUrl?: string | null;
     depositPercentage?: number | null;
   } | null>(null);
+  const [invoicesModalData, setInvoicesModalData] = useState<{
+    id: number;
+    clientName: string;
+    depositPercentage?: number | null;
+  } | null>(null);
+  const [changeOrdersModalData, setChangeOrdersModalData] = useState<{
+    id: number;
+    clientName: string;
+  } | null>(null);
   const [deleteModalData, setDeleteModalData] = useState<{
     id: number;
     clientName: string;
@@ -447,6 +459,36 @@ export default function Dashboard() {
     }
   };
 
+  const extendProposal = async (proposalId: number) => {
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/extend`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ days: 30 }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to extend proposal');
+      }
+
+      setProposals(prev =>
+        prev.map(p => p.id === proposalId ? { ...p, validUntil: data.validUntil } : p)
+      );
+      toast({
+        title: 'Proposal extended',
+        description: `Valid until ${new Date(data.validUntil).toLocaleDateString()}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to extend proposal',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDeleteSuccess = (proposalId: number) => {
     // Optimistic UI update - remove the proposal from the list
     setProposals(prev => prev.filter(p => p.id !== proposalId));
@@ -730,6 +772,17 @@ export default function Dashboard() {
                     depositPercentage: p.depositPercentage,
                   })
                 }
+                onInvoices={(p) =>
+                  setInvoicesModalData({
+                    id: p.id,
+                    clientName: p.clientName,
+                    depositPercentage: p.depositPercentage,
+                  })
+                }
+                onChangeOrders={(p) =>
+                  setChangeOrdersModalData({ id: p.id, clientName: p.clientName })
+                }
+                onExtend={(p) => extendProposal(p.id)}
                 onMarkStatus={(p, status) => updateProposalStatus(p.id, status)}
                 onDeleteDraft={(p) => setDeleteModalData({ id: p.id, clientName: p.clientName })}
                 onUnlock={(p) => handleUnlockProposal(p.id)}
@@ -855,6 +908,25 @@ export default function Dashboard() {
         />
       )}
 
+      {invoicesModalData && (
+        <InvoicesModal
+          isOpen={true}
+          onClose={() => setInvoicesModalData(null)}
+          proposalId={invoicesModalData.id}
+          clientName={invoicesModalData.clientName}
+          existingDepositPercentage={invoicesModalData.depositPercentage}
+        />
+      )}
+
+      {changeOrdersModalData && (
+        <ChangeOrdersModal
+          isOpen={true}
+          onClose={() => setChangeOrdersModalData(null)}
+          proposalId={changeOrdersModalData.id}
+          clientName={changeOrdersModalData.clientName}
+        />
+      )}
+
       {paymentModalData && (
         <PaymentLinkModal
           isOpen={true}
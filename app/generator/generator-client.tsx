@@ -1,6 +1,7 @@
 "use client";
 
-import { useEffect, useState, useRef, Suspense } from "react";
+import { useEffect, useState, useRef, useMemo, Suspense } from "react";
+import Link from "next/link";
 import LayoutWrapper from "@/components/layout-wrapper";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -10,7 +11,20 @@ import {
   JobType,
   getLocalizedJobType,
   getLocalizedJobTypes,
+  type JobOption,
 } from "@/lib/proposal-data";
+import {
+  optionValueLabel,
+  type OptionPreselection,
+} from "@/src/lib/learning/option-learning";
+import {
+  CLIENT_LOCALES,
+  DEFAULT_CLIENT_LANGUAGE,
+  localizeProposalContent,
+  resolveClientLanguage,
+} from "@/lib/client-locale";
+import { mergeCustomTemplates } from "@/lib/custom-templates";
+import type { ClientLanguage, ProposalTemplate } from "@shared/schema";
 import { useSearchParams } from "next/navigation";
 import {
   Form,
@@ -472,12 +486,17 @@ function GeneratorContent() {
   >({});
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [clientLanguage, setClientLanguage] = useState<ClientLanguage>(DEFAULT_CLIENT_LANGUAGE);
   const [savedProposalId, setSavedProposalId] = useState<number | null>(null);
   const [isProposalUnlocked, setIsProposalUnlocked] = useState<boolean>(false);
   const [isUnlocking, setIsUnlocking] = useState(false);
   const [emailModalOpen, setEmailModalOpen] = useState(false);
   const [isSavingForEmail, setIsSavingForEmail] = useState(false);
   const [photos, setPhotos] = useState<UploadedPhoto[]>([]);
+  // Learned option preselections per service, shown as "because you usually choose X"
+  const [optionPreselections, setOptionPreselections] = useState<
+    Record<string, { jobTypeId: string; byOption: Record<string, OptionPreselection> }>
+  >({});
   const [showPaywall, setShowPaywall] = useState(false);
   // Draft-first: Track validation errors for finalize fields (client name + address)
   // These are only shown when user tries to export/send
@@ -503,10 +522,19 @@ function GeneratorContent() {
 
   const userSelectedTrades = user?.selectedTrades || [];
   const userId = user?.id ?? null;
-  const availableTemplates =
-    userSelectedTrades.length > 0
-      ? templates.filter((t) => userSelectedTrades.includes(t.id))
-      : templates;
+  // The user's own custom templates and the ones shared with their team
+  const { data: customTemplateData } = useQuery<{ templates: ProposalTemplate[] }>({
+    queryKey: ["/api/templates/custom"],
+    enabled: Boolean(userId),
+  });
+  const selectedTradesKey = userSelectedTrades.join(",");
+  const availableTemplates = useMemo(() => {
+    const selected = selectedTradesKey ? selectedTradesKey.split(",") : [];
+    return mergeCustomTemplates(
+      selected.length > 0 ? templates.filter((t) => selected.includes(t.id)) : templates,
+      customTemplateData?.templates ?? [],
+    );
+  }, [selectedTradesKey, customTemplateData]);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -699,6 +727,94 @@ function GeneratorContent() {
       windowWidthIn: null,
       windowHeightIn: null,
     });
+
+    const tradeId = services.find((s) => s.id === serviceId)?.tradeId;
+    if (tradeId && jobTypeId) {
+      void preselectLearnedOptions(serviceId, tradeId, jobTypeId);
+    }
+  };
+
+  // Preselect the options this user (or contractors in the job's area) usually pick
+  const preselectLearnedOptions = async (
+    serviceId: string,
+    tradeId: string,
+    jobTypeId: string,
+  ) => {
+    if (!userId) return;
+
+    try {
+      const response = await fetch("/api/learning/option-preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          tradeId,
+          jobTypeId,
+          address: form.getValues("address") || undefined,
+        }),
+      });
+      if (!response.ok) return;
+
+      const { preselections } = (await response.json()) as {
+        preselections: OptionPreselection[];
+      };
+      if (preselections.length === 0) return;
+
+      setServices((prev) =>
+        prev.map((s) =>
+          // Leave services the user changed or already picked options for
+          s.id === serviceId &&
+          s.jobTypeId === jobTypeId &&
+          Object.keys(s.options).length === 0
+            ? {
+                ...s,
+                options: Object.fromEntries(
+                  preselections.map((p) => [p.optionId, p.value]),
+                ),
+              }
+            : s,
+        ),
+      );
+      setOptionPreselections((prev) => ({
+        ...prev,
+        [serviceId]: {
+          jobTypeId,
+          byOption: Object.fromEntries(
+            preselections.map((p) => [p.optionId, p]),
+          ),
+        },
+      }));
+    } catch {
+      // Ignore (preselection is best-effort).
+    }
+  };
+
+  // Explanation for an option still set to its learned preselection
+  const renderPreselectionHint = (
+    service: ServiceItem,
+    option: JobOption,
+    index: number,
+  ) => {
+    const learned = optionPreselections[service.id];
+    if (!learned || learned.jobTypeId !== service.jobTypeId) return null;
+    const preselection = learned.byOption[option.id];
+    if (!preselection || service.options[option.id] !== preselection.value) {
+      return null;
+    }
+
+    const label = optionValueLabel(option, preselection.value);
+    return (
+      <p
+        className="mt-1.5 flex items-center gap-1 text-xs text-slate-500"
+        data-testid={`hint-option-${option.id}-${index}`}
+      >
+        <Sparkles className="w-3 h-3 text-secondary" />
+        {(preselection.source === "user"
+          ? t.generator.usuallyChoose
+          : t.generator.usuallyChosenNearby
+        ).replace("{option}", label)}
+      </p>
+    );
   };
 
   const generateServiceData = (service: ServiceItem) => {
@@ -929,7 +1045,7 @@ function GeneratorContent() {
           state: region.state,
           abbrev: region.abbrev,
           region: region.region,
-          multiplier: region.multiplier,
+          multiplier: regionalMultiplier,
         }
         : null,
       footage: service.footage,
@@ -1119,6 +1235,7 @@ function GeneratorContent() {
       status: "draft",
       isUnlocked: false, // Requires credit to unlock (PDF/email)
       photoCount: photos.length,
+      clientLanguage,
       isDraftWithoutClientInfo:
         clientName === "Draft Proposal" || address === "Address pending",
     };
@@ -1528,6 +1645,7 @@ function GeneratorContent() {
         isUnlocked: false,
         // Photo count
         photoCount: photos.length,
+        clientLanguage,
         // Draft-first: Track if this is a draft without full client info
         isDraftWithoutClientInfo:
           clientName === "Draft Proposal" || address === "Address pending",
@@ -1597,6 +1715,8 @@ function GeneratorContent() {
   };
 
   const previewData = generateProposalData();
+  // Catalog scope shows in the client's language, as it will on the PDF
+  const clientPreviewData = localizeProposalContent(previewData, clientLanguage);
 
   // Handle email button click - save draft first if needed, then open email modal
   const handleEmailClick = async () => {
@@ -1731,6 +1851,7 @@ function GeneratorContent() {
         isUnlocked: true,
         // Photo count
         photoCount: photos.length,
+        clientLanguage,
       };
 
       const response = await fetch("/api/proposals", {
@@ -1899,6 +2020,15 @@ function GeneratorContent() {
                 ))}
               </SelectContent>
             </Select>
+            {userId && (
+              <Link
+                href="/settings/templates"
+                className="mt-1.5 inline-block text-xs text-muted-foreground hover:underline"
+                data-testid={`link-manage-templates-${index}`}
+              >
+                {t.generator.manageTemplates}
+              </Link>
+            )}
           </div>
         )}
 
@@ -2257,6 +2387,7 @@ function GeneratorContent() {
                             ))}
                           </SelectContent>
                         </Select>
+                        {renderPreselectionHint(service, option, index)}
                       </div>
                     ) : (
                       <label
@@ -2295,6 +2426,7 @@ function GeneratorContent() {
                                 </span>
                               )}
                           </span>
+                          {renderPreselectionHint(service, option, index)}
                         </div>
                       </label>
                     ),
@@ -2519,6 +2651,31 @@ function GeneratorContent() {
                             </FormItem>
                           )}
                         />
+                        <div className="space-y-2">
+                          <label className="text-sm font-medium block">
+                            {t.generator.clientLanguage}
+                          </label>
+                          <Select
+                            value={clientLanguage}
+                            onValueChange={(value) =>
+                              setClientLanguage(resolveClientLanguage(value))
+                            }
+                          >
+                            <SelectTrigger data-testid="select-client-language">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.values(CLIENT_LOCALES).map((locale) => (
+                                <SelectItem key={locale.id} value={locale.id}>
+                                  {locale.nativeName}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">
+                            {t.generator.clientLanguageHint}
+                          </p>
+                        </div>
                       </div>
 
                       <div className="h-px bg-border" />
@@ -2954,7 +3111,8 @@ function GeneratorContent() {
                     <div data-testid="proposal-preview-container" id="proposal-preview">
                       <ProposalPreview
                         ref={previewRef}
-                        data={previewData}
+                        data={clientPreviewData}
+                        language={clientLanguage}
                         companyInfo={
                           user
                             ? {
@@ -2978,7 +3136,8 @@ function GeneratorContent() {
               {/* Mobile Preview Drawer */}
               <ProposalPreviewPane
                 ref={previewPaneRef}
-                data={previewData}
+                data={clientPreviewData}
+                language={clientLanguage}
                 companyInfo={
                   user
                     ? {
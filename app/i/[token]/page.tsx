@@ -0,0 +1,298 @@
+'use client';
+// Force dynamic rendering to prevent static generation errors
+// This page uses useQuery and useMutation which require QueryClientProvider
+export const dynamic = 'force-dynamic';
+
+import { useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Download, Loader2, FileWarning, CheckCircle2, CreditCard } from "lucide-react";
+
+interface PublicInvoiceResponse {
+  invoice: {
+    id: number;
+    invoiceNumber: string;
+    kind: string;
+    milestone: string;
+    amount: number;
+    status: string;
+    issuedAt: string | null;
+    dueDate: string | null;
+    paidAt: string | null;
+    paidAmount: number;
+  };
+  proposal: {
+    clientName: string;
+    address: string;
+    jobTypeName: string;
+  };
+  schedule: Array<{
+    invoiceNumber: string;
+    kind: string;
+    milestone: string;
+    amount: number;
+    status: string;
+  }>;
+  companyInfo: {
+    companyName?: string | null;
+    companyAddress?: string | null;
+    companyPhone?: string | null;
+    companyLogo?: string | null;
+  } | null;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  deposit: "Deposit",
+  progress: "Progress payment",
+  final: "Final payment",
+};
+
+function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function formatDate(value: string | null): string {
+  return value
+    ? new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })
+    : "-";
+}
+
+// Payment checks after returning from Checkout: 5s, 10s, 20s, 40s apart, then stop
+const PAYMENT_CHECKS = 5;
+
+export default function PublicInvoice() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const token = params?.token as string;
+  const returnedFromCheckout = searchParams?.get("paid") === "1";
+  const [isDownloading, setIsDownloading] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<PublicInvoiceResponse>({
+    queryKey: ["/api/public/invoice", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/public/invoice/${token}`);
+      if (!res.ok) {
+        throw new Error("Invoice not found");
+      }
+      return res.json();
+    },
+    enabled: !!token,
+  });
+
+  // Back from Checkout: have the server read the payment back from Stripe, backing
+  // off and then leaving it to the server's scheduled check (payments can take days to settle)
+  useQuery<{ status: string; paidAmount: number }>({
+    queryKey: ["/api/public/invoice", token, "payment"],
+    queryFn: async () => {
+      const res = await fetch(`/api/public/invoice/${token}/payment`, { method: "POST" });
+      if (!res.ok) {
+        throw new Error("Failed to check payment");
+      }
+      const payment = await res.json();
+      if (payment.status === "paid") {
+        queryClient.invalidateQueries({ queryKey: ["/api/public/invoice", token], exact: true });
+      }
+      return payment;
+    },
+    enabled: !!token && returnedFromCheckout,
+    refetchInterval: (query) => {
+      if (query.state.data?.status === "paid") return false;
+      const checks = query.state.dataUpdateCount;
+      return checks < PAYMENT_CHECKS ? 5000 * 2 ** (checks - 1) : false;
+    },
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/public/invoice/${token}/pay`, { method: "POST" });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to start payment");
+      }
+      return res.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+  });
+
+  const handleDownloadPDF = async () => {
+    if (!data) return;
+
+    setIsDownloading(true);
+    try {
+      const res = await fetch(`/api/invoices/${data.invoice.id}/pdf?token=${encodeURIComponent(token)}`);
+      if (!res.ok) {
+        throw new Error("Failed to generate PDF");
+      }
+
+      const bytes = await res.arrayBuffer();
+      const blob = new Blob([bytes], { type: "application/pdf" });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${data.invoice.invoiceNumber}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error generating PDF:", err);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto text-primary" />
+          <p className="mt-4 text-slate-600">Loading invoice...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-8">
+          <FileWarning className="w-16 h-16 mx-auto text-slate-400" />
+          <h1 className="text-2xl font-bold mt-4 text-slate-900">Invoice Not Found</h1>
+          <p className="mt-2 text-slate-600">
+            This invoice link may have expired or is no longer available.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { invoice } = data;
+  const isPaid = invoice.status === "paid";
+  const amountDue = isPaid ? 0 : invoice.amount - invoice.paidAmount;
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <div className="sticky top-0 z-50 bg-white border-b shadow-sm">
+        <div className="max-w-[720px] mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="font-heading font-bold text-lg text-slate-900">
+              {data.companyInfo?.companyName || "Invoice"}
+            </h1>
+            <p className="text-sm text-slate-500">
+              Invoice {invoice.invoiceNumber} for {data.proposal.clientName}
+            </p>
+          </div>
+          <Button
+            onClick={handleDownloadPDF}
+            disabled={isDownloading}
+            variant="outline"
+            data-testid="button-download-invoice-pdf"
+          >
+            {isDownloading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-[720px] mx-auto px-4 py-8 space-y-6">
+        {isPaid ? (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center gap-3" data-testid="status-invoice-paid">
+            <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0" />
+            <div>
+              <p className="font-medium text-green-800">Paid - thank you!</p>
+              <p className="text-green-700 text-sm">Payment received on {formatDate(invoice.paidAt)}.</p>
+            </div>
+          </div>
+        ) : returnedFromCheckout ? (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-center gap-3">
+            <Loader2 className="w-5 h-5 text-blue-600 animate-spin flex-shrink-0" />
+            <p className="text-blue-800">Confirming your payment...</p>
+          </div>
+        ) : null}
+
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <div className="flex justify-between gap-6 mb-6">
+            <div>
+              <p className="text-xs font-bold text-slate-500 uppercase">Bill to</p>
+              <p className="font-bold text-slate-900">{data.proposal.clientName}</p>
+              <p className="text-sm text-slate-600">{data.proposal.address}</p>
+            </div>
+            <div className="text-right text-sm">
+              <p><span className="text-slate-500">Issued:</span> {formatDate(invoice.issuedAt)}</p>
+              <p><span className="text-slate-500">Due:</span> {formatDate(invoice.dueDate)}</p>
+            </div>
+          </div>
+
+          <div className="flex justify-between items-start border-t border-b py-4">
+            <div>
+              <p className="font-medium text-slate-900">
+                {KIND_LABELS[invoice.kind] ?? invoice.kind}: {invoice.milestone}
+              </p>
+              <p className="text-sm text-slate-500">{data.proposal.jobTypeName}</p>
+            </div>
+            <p className="font-bold text-slate-900">{formatCents(invoice.amount)}</p>
+          </div>
+
+          <div className="flex justify-between items-end mt-4">
+            <span className="font-bold text-slate-700">Amount due</span>
+            <span className="text-2xl font-bold text-slate-900" data-testid="text-amount-due">
+              {formatCents(amountDue)}
+            </span>
+          </div>
+
+          {!isPaid && !returnedFromCheckout && (
+            <div className="mt-6">
+              <Button
+                onClick={() => payMutation.mutate()}
+                disabled={payMutation.isPending}
+                className="w-full bg-green-600 hover:bg-green-700 text-white"
+                data-testid="button-pay-invoice"
+              >
+                {payMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CreditCard className="w-4 h-4 mr-2" />
+                )}
+                Pay {formatCents(amountDue)}
+              </Button>
+              {payMutation.error && (
+                <p className="text-sm text-red-600 mt-2">{(payMutation.error as Error).message}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {data.schedule.length > 1 && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="font-bold text-slate-900 mb-3">Billing schedule</h2>
+            <ul className="divide-y text-sm">
+              {data.schedule.map((item) => (
+                <li
+                  key={item.invoiceNumber}
+                  className={`flex justify-between py-2 ${item.invoiceNumber === invoice.invoiceNumber ? "font-semibold" : ""}`}
+                >
+                  <span className="text-slate-700">
+                    {KIND_LABELS[item.kind] ?? item.kind}: {item.milestone}
+                  </span>
+                  <span className="flex gap-4">
+                    <span className="text-slate-500 capitalize">{item.status}</span>
+                    <span className="text-slate-900">{formatCents(item.amount)}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
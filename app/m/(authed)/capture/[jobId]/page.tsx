@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,17 +14,26 @@ import {
   CheckCircle,
   AlertCircle,
   Smartphone,
+  CloudOff,
+  RotateCw,
 } from "lucide-react";
 import { PhoneUploadDialog } from "@/components/phone-upload-dialog";
-import { mobileApiFetch, newIdempotencyKey, PresignResponse } from "@/app/m/lib/api";
+import { OutboxItemStatusBadge } from "@/components/outbox-sync-status";
+import { Textarea } from "@/components/ui/textarea";
+import { mobileApiFetch } from "@/app/m/lib/api";
+import { enqueueJobNotes, enqueuePhotoUpload, removeOutboxItem, retryOutboxItem } from "@/app/m/lib/outbox";
+import { isLocalJobRef, resolveOutboxJobId, type OutboxItem } from "@/lib/mobile-outbox";
+import { useOutbox } from "@/hooks/useOutbox";
 
 type UploadedPhoto = {
   id: string;
   serverId?: number;
   localUrl: string;
   remoteUrl?: string;
-  status: "pending" | "uploading" | "uploaded" | "error";
+  // queued = saved on the device, waiting for the outbox to send it
+  status: "queued" | "uploading" | "uploaded" | "error";
   error?: string;
+  outboxItem?: OutboxItem;
 };
 
 /**
@@ -83,166 +92,151 @@ export default function CapturePhotosPage() {
   const router = useRouter();
   const jobId = params.jobId as string;
 
-  const [photos, setPhotos] = useState<UploadedPhoto[]>([]);
+  const [serverPhotos, setServerPhotos] = useState<UploadedPhoto[]>([]);
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
   const [phoneUploadOpen, setPhoneUploadOpen] = useState(false);
   const [similarStatus, setSimilarStatus] = useState<"idle" | "loading" | "pending" | "ready">("idle");
   const [similarCount, setSimilarCount] = useState(0);
   const [similarUnavailable, setSimilarUnavailable] = useState(false);
+  const [notes, setNotes] = useState("");
 
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const galleryInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
-  const generateId = () => `photo-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  // Photos, notes and the job itself go through the offline outbox
+  const { items: outboxItems, online } = useOutbox(jobId);
+  const serverJobId = resolveOutboxJobId(outboxItems, jobId);
+  const queuedCreate = outboxItems.find((item) => item.kind === "create_job");
+  const notesItem = [...outboxItems].reverse().find((item) => item.kind === "update_notes");
+  const syncedPhotoCount = outboxItems.filter(
+    (item) => item.kind === "upload_photo" && item.status === "synced"
+  ).length;
 
-  // Hydrate from server truth on load (refresh-safe).
+  // A job created offline gets its real id once it syncs
   useEffect(() => {
+    if (isLocalJobRef(jobId) && serverJobId !== null) {
+      router.replace(`/m/capture/${serverJobId}`);
+    }
+  }, [jobId, serverJobId, router]);
+
+  // Prefill site notes: queued edits, then the notes typed at job creation
+  useEffect(() => {
+    if (notesItem?.kind === "update_notes") {
+      setNotes((prev) => prev || notesItem.payload.jobNotes);
+    } else if (queuedCreate?.kind === "create_job" && queuedCreate.payload.notes) {
+      setNotes((prev) => prev || queuedCreate.payload.notes || "");
+    }
+  }, [notesItem, queuedCreate]);
+
+  useEffect(() => {
+    if (serverJobId === null) return;
+    mobileApiFetch<{ jobNotes?: string | null }>(`/api/mobile/jobs/${serverJobId}`)
+      .then((job) => setNotes((prev) => prev || job.jobNotes || ""))
+      .catch(() => {
+        // Offline or missing - notes stay editable and sync later
+      });
+  }, [serverJobId]);
+
+  // Hydrate from server truth on load (refresh-safe), and again as queued photos sync.
+  useEffect(() => {
+    if (serverJobId === null) return;
     let cancelled = false;
     const run = async () => {
       try {
         const res = await mobileApiFetch<{ photos: Array<{ id: number; publicUrl: string }> }>(
-          `/api/mobile/jobs/${jobId}/photos`,
+          `/api/mobile/jobs/${serverJobId}/photos`,
           { method: "GET" }
         );
         if (cancelled) return;
-        const serverPhotos: UploadedPhoto[] = (res.photos || []).map((p) => ({
-          id: `server-${p.id}`,
-          serverId: p.id,
-          localUrl: p.publicUrl,
-          remoteUrl: p.publicUrl,
-          status: "uploaded",
-        }));
-        setPhotos(serverPhotos);
+        setServerPhotos(
+          (res.photos || []).map((p) => ({
+            id: `server-${p.id}`,
+            serverId: p.id,
+            localUrl: p.publicUrl,
+            remoteUrl: p.publicUrl,
+            status: "uploaded",
+          }))
+        );
       } catch (err) {
         // Non-blocking: allow page to function even if list fails,
         // but log for debugging and surface a gentle error message.
-        console.error("Failed to load existing photos for job", jobId, err);
-        setError((prev) => prev ?? "We couldn't load existing photos. You can still add new ones.");
+        console.error("Failed to load existing photos for job", serverJobId, err);
+        if (navigator.onLine) {
+          setError((prev) => prev ?? "We couldn't load existing photos. You can still add new ones.");
+        }
       }
     };
     run();
     return () => {
       cancelled = true;
     };
-  }, [jobId]);
+  }, [serverJobId, syncedPhotoCount]);
 
-  const uploadPhoto = async (photo: UploadedPhoto, file: File) => {
-    try {
-      // Update status to uploading
-      setPhotos((prev) =>
-        prev.map((p) => (p.id === photo.id ? { ...p, status: "uploading" as const } : p))
-      );
-
-      // Create FormData
-      const formData = new FormData();
-      formData.append("file", file);
-
-      // Upload via proxy endpoint
-      const res = await mobileApiFetch<{
-        success: boolean;
-        uploadedPhotos: Array<{ id: number; publicUrl: string }>;
-        errors?: Array<{ filename: string; error: string }>;
-      }>(
-        `/api/mobile/jobs/${jobId}/photos/upload`,
-        {
-          method: "POST",
-          body: formData,
-        }
-      );
-
-      if (!res.success || !res.uploadedPhotos || res.uploadedPhotos.length === 0) {
-        const errorMsg = res.errors?.[0]?.error || "Upload failed";
-        throw new Error(errorMsg);
+  // Object URLs for photos still on the device
+  const queuedPhotoItems = useMemo(
+    () => outboxItems.filter((item) => item.kind === "upload_photo"),
+    [outboxItems]
+  );
+  const previewUrlsRef = useRef(new Map<string, string>());
+  const previewUrls = useMemo(() => {
+    const urls = previewUrlsRef.current;
+    const live = new Set<string>();
+    for (const item of queuedPhotoItems) {
+      if (item.kind !== "upload_photo" || item.status === "synced") continue;
+      live.add(item.id);
+      if (!urls.has(item.id)) urls.set(item.id, URL.createObjectURL(item.payload.file));
+    }
+    for (const [id, url] of urls) {
+      if (!live.has(id)) {
+        URL.revokeObjectURL(url);
+        urls.delete(id);
       }
+    }
+    return Object.fromEntries(urls) as Record<string, string>;
+  }, [queuedPhotoItems]);
+  useEffect(() => {
+    const urls = previewUrlsRef.current;
+    return () => {
+      for (const url of urls.values()) URL.revokeObjectURL(url);
+      urls.clear();
+    };
+  }, []);
 
-      const uploaded = res.uploadedPhotos[0];
-
-      // Update status to uploaded
-      setPhotos((prev) =>
-        prev.map((p) =>
-          p.id === photo.id
-            ? { ...p, status: "uploaded" as const, remoteUrl: uploaded.publicUrl, serverId: uploaded.id }
-            : p
-        )
-      );
-
-      // Reconcile with server truth (ensures refresh-safe + canonical ordering).
-      try {
-        const res = await mobileApiFetch<{ photos: Array<{ id: number; publicUrl: string }> }>(
-          `/api/mobile/jobs/${jobId}/photos`,
-          { method: "GET" }
-        );
-        setPhotos((prev) => {
-          // Index any existing server-backed photos by serverId so we can reuse them
-          const byServerId = new Map<number, UploadedPhoto>();
-          for (const p of prev) {
-            if (typeof p.serverId === "number") {
-              byServerId.set(p.serverId, p);
-            }
-          }
-
-          const serverPhotos: UploadedPhoto[] = (res.photos || []).map((p) => {
-            const existing = byServerId.get(p.id);
-            if (existing) {
-              // Reuse existing client entry but ensure canonical server data
-              return {
-                ...existing,
-                serverId: p.id,
-                localUrl: p.publicUrl,
-                remoteUrl: p.publicUrl,
-                status: "uploaded" as const,
-              };
-            }
-            // New server photo we haven't seen before
-            return {
-              id: `server-${p.id}`,
-              serverId: p.id,
-              localUrl: p.publicUrl,
-              remoteUrl: p.publicUrl,
-              status: "uploaded" as const,
-            };
+  const photos = useMemo<UploadedPhoto[]>(() => {
+    const serverIds = new Set(serverPhotos.map((p) => p.serverId));
+    const queued: UploadedPhoto[] = [];
+    for (const item of queuedPhotoItems) {
+      if (item.status === "synced") {
+        // Synced but not in the server list yet (refresh in flight)
+        if (item.result?.photoId && !serverIds.has(item.result.photoId) && item.result.publicUrl) {
+          queued.push({
+            id: item.id,
+            serverId: item.result.photoId,
+            localUrl: item.result.publicUrl,
+            remoteUrl: item.result.publicUrl,
+            status: "uploaded",
           });
-
-          // In-flight photos are those that do not yet have a serverId
-          const inFlight = prev.filter(
-            (p) =>
-              p.serverId == null &&
-              (p.status === "uploading" || p.status === "pending" || p.status === "error")
-          );
-          return [...serverPhotos, ...inFlight];
-        });
-      } catch {
-        // ignore
-      }
-    } catch (e) {
-      console.error("Photo upload failed:", e);
-      // Update status to error with a more helpful message
-      let message = "Upload failed";
-      if (e instanceof Error) {
-        if (e.message.includes("fetch")) message = "Network error - check connection";
-        else if (e.message.includes("storage")) message = "Storage error - try again";
-        else message = e.message; // Keep it short for the UI
+        }
+        continue;
       }
-
-      setPhotos((prev) =>
-        prev.map((p) =>
-          p.id === photo.id
-            ? { ...p, status: "error" as const, error: message }
-            : p
-        )
-      );
+      queued.push({
+        id: item.id,
+        localUrl: previewUrls[item.id] ?? "",
+        status: item.status === "syncing" ? "uploading" : item.status === "failed" ? "error" : "queued",
+        error: item.lastError,
+        outboxItem: item,
+      });
     }
-  };
+    return [...serverPhotos, ...queued].filter((p) => !hiddenIds.has(p.id));
+  }, [serverPhotos, queuedPhotoItems, previewUrls, hiddenIds]);
 
   const handleFiles = useCallback(async (files: FileList | null) => {
     if (!files || files.length === 0) return;
 
     setError(null); // Clear any previous error
 
-    const newPhotos: UploadedPhoto[] = [];
-    const filesToUpload: { photo: UploadedPhoto; file: File }[] = [];
-
     for (const file of Array.from(files)) {
       if (!file.type.startsWith("image/")) continue;
 
@@ -250,23 +244,14 @@ export default function CapturePhotosPage() {
       // AWS Rekognition only supports JPEG/PNG. iPhones often capture as HEIC.
       const convertedFile = await convertToJpeg(file);
 
-      const photo: UploadedPhoto = {
-        id: generateId(),
-        localUrl: URL.createObjectURL(convertedFile),
-        status: "pending",
-      };
-
-      newPhotos.push(photo);
-      filesToUpload.push({ photo, file: convertedFile });
-    }
-
-    setPhotos((prev) => [...prev, ...newPhotos]);
-
-    // Start uploading all files
-    for (const { photo, file } of filesToUpload) {
-      uploadPhoto(photo, file);
+      // Stored on the device first, then uploaded (now, or when back online)
+      try {
+        await enqueuePhotoUpload(jobId, convertedFile);
+      } catch (e) {
+        console.error("Failed to queue photo:", e);
+        setError("Couldn't save the photo on this device. Please try again.");
+      }
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [jobId]);
 
   // Drag and drop handlers
@@ -300,22 +285,28 @@ export default function CapturePhotosPage() {
     }
   }, [handleFiles]);
 
-  const removePhoto = (id: string) => {
+  const removePhoto = (photo: UploadedPhoto) => {
     setError(null); // Clear any previous error
-    setPhotos((prev) => {
-      const photo = prev.find((p) => p.id === id);
-      if (photo?.localUrl.startsWith("blob:")) {
-        URL.revokeObjectURL(photo.localUrl);
-      }
-      return prev.filter((p) => p.id !== id);
-    });
+    if (photo.outboxItem) {
+      void removeOutboxItem(photo.outboxItem.id);
+      return;
+    }
+    setHiddenIds((prev) => new Set(prev).add(photo.id));
   };
 
-  const retryPhoto = (id: string) => {
-    // For retry, we'd need to keep the original file reference
-    // For simplicity, just remove the errored photo and let user re-add
+  const retryPhoto = (photo: UploadedPhoto) => {
     setError(null); // Clear any previous error
-    removePhoto(id);
+    if (photo.outboxItem) void retryOutboxItem(photo.outboxItem.id);
+  };
+
+  const saveNotes = async () => {
+    setError(null);
+    try {
+      await enqueueJobNotes(jobId, notes.trim());
+    } catch (e) {
+      console.error("Failed to queue notes:", e);
+      setError("Couldn't save notes on this device. Please try again.");
+    }
   };
 
   const handleAnalyzePhotos = () => {
@@ -326,7 +317,12 @@ export default function CapturePhotosPage() {
       return;
     }
 
-    const uploadingPhotos = photos.filter((p) => p.status === "uploading");
+    if (serverJobId === null) {
+      setError("This job hasn't synced yet. Photos will upload once you're back online.");
+      return;
+    }
+
+    const uploadingPhotos = photos.filter((p) => p.status === "uploading" || p.status === "queued");
     if (uploadingPhotos.length > 0) {
       setError("Please wait for all photos to finish uploading");
       return;
@@ -339,11 +335,12 @@ export default function CapturePhotosPage() {
     }
 
     // Navigate to issue selection page
-    router.push(`/m/issues/${jobId}`);
+    router.push(`/m/issues/${serverJobId}`);
   };
 
   const uploadedCount = photos.filter((p) => p.status === "uploaded").length;
   const uploadingCount = photos.filter((p) => p.status === "uploading").length;
+  const queuedCount = photos.filter((p) => p.status === "queued").length;
   const errorCount = photos.filter((p) => p.status === "error").length;
 
   // Fire-and-forget: start polling for similar-job scope suggestions once photos begin uploading.
@@ -371,7 +368,7 @@ export default function CapturePhotosPage() {
           disabled?: boolean;
           reason?: string;
         }>(
-          `/api/mobile/jobs/${jobId}/scope-suggestions?k=5`,
+          `/api/mobile/jobs/${serverJobId}/scope-suggestions?k=5`,
           { method: "GET" }
         );
         if (!isMounted) return;
@@ -397,7 +394,7 @@ export default function CapturePhotosPage() {
       }
     };
 
-    if (uploadedCount > 0 || uploadingCount > 0) {
+    if (serverJobId !== null && (uploadedCount > 0 || uploadingCount > 0)) {
       setSimilarStatus("loading");
       setSimilarUnavailable(false);
       poll(0);
@@ -411,7 +408,7 @@ export default function CapturePhotosPage() {
       isMounted = false;
       if (pollTimeout) clearTimeout(pollTimeout);
     };
-  }, [jobId, uploadedCount, uploadingCount]);
+  }, [serverJobId, uploadedCount, uploadingCount]);
 
   return (
     <div className="p-4 lg:px-8 lg:py-6 pb-24 min-h-[80vh]">
@@ -445,7 +442,12 @@ export default function CapturePhotosPage() {
             <ArrowLeft className="w-4 h-4" />
             Back
           </Button>
-          <span className="text-sm text-slate-500">Job #{jobId}</span>
+          <span className="text-sm text-slate-500 flex items-center gap-2">
+            {serverJobId !== null ? `Job #${serverJobId}` : "New job"}
+            {queuedCreate && queuedCreate.status !== "synced" && (
+              <OutboxItemStatusBadge item={queuedCreate} online={online} />
+            )}
+          </span>
         </div>
 
         {/* Title */}
@@ -456,6 +458,14 @@ export default function CapturePhotosPage() {
           </p>
         </div>
 
+        {!online && (
+          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm flex items-start gap-2">
+            <CloudOff className="w-4 h-4 shrink-0 mt-0.5" />
+            No signal. Keep shooting - photos and notes are saved on this device and upload
+            automatically when you&apos;re back online.
+          </div>
+        )}
+
         {/* Error message */}
         {error && (
           <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm flex items-start gap-2">
@@ -486,6 +496,7 @@ export default function CapturePhotosPage() {
             variant="outline"
             className="h-16 sm:h-20 lg:h-24 flex-row sm:flex-col gap-3 sm:gap-2 justify-start sm:justify-center px-4"
             onClick={() => setPhoneUploadOpen(true)}
+            disabled={serverJobId === null || !online}
           >
             <Smartphone className="w-5 h-5 sm:w-6 sm:h-6 lg:w-8 lg:h-8" />
             <span className="text-sm lg:text-base font-medium">Upload from Phone</span>
@@ -493,15 +504,17 @@ export default function CapturePhotosPage() {
         </div>
 
         {/* Phone Upload Dialog */}
+        {serverJobId !== null && (
         <PhoneUploadDialog
           open={phoneUploadOpen}
           onOpenChange={setPhoneUploadOpen}
-          jobId={parseInt(jobId)}
+          jobId={serverJobId}
           onPhotosUploaded={() => {
             // Optionally trigger a refresh of photos here
             // For now, we rely on manual refresh or realtime updates
           }}
         />
+        )}
 
         {/* Photo count summary */}
         {photos.length > 0 && (
@@ -518,6 +531,12 @@ export default function CapturePhotosPage() {
                 {uploadingCount} uploading
               </span>
             )}
+            {queuedCount > 0 && (
+              <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full flex items-center gap-1">
+                <CloudOff className="w-3 h-3" />
+                {queuedCount} {online ? "queued" : "saved offline"}
+              </span>
+            )}
             {errorCount > 0 && (
               <span className="px-2 py-1 bg-red-100 text-red-700 rounded-full flex items-center gap-1">
                 <AlertCircle className="w-3 h-3" />
@@ -598,20 +617,37 @@ export default function CapturePhotosPage() {
                       </div>
                     )}
 
+                    {photo.status === "queued" && photo.outboxItem && (
+                      <div className="absolute top-2 left-2 bg-white/90 rounded px-1.5 py-0.5">
+                        <OutboxItemStatusBadge item={photo.outboxItem} online={online} />
+                      </div>
+                    )}
+
                     {photo.status === "error" && (
                       <div className="absolute inset-0 bg-red-500/90 flex flex-col items-center justify-center p-3 text-white text-center">
                         <AlertCircle className="w-6 h-6 mb-2 shrink-0" />
                         <p className="text-xs font-medium line-clamp-3 break-words w-full mb-2">
                           {photo.error}
                         </p>
-                        <Button
-                          variant="secondary"
-                          size="sm"
-                          className="h-7 text-xs px-3 shadow-sm hover:bg-white/90"
-                          onClick={() => retryPhoto(photo.id)}
-                        >
-                          Remove
-                        </Button>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            className="h-7 text-xs px-3 shadow-sm hover:bg-white/90"
+                            onClick={() => retryPhoto(photo)}
+                          >
+                            <RotateCw className="w-3 h-3 mr-1" />
+                            Retry
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            className="h-7 text-xs px-3 shadow-sm hover:bg-white/90"
+                            onClick={() => removePhoto(photo)}
+                          >
+                            Remove
+                          </Button>
+                        </div>
                       </div>
                     )}
 
@@ -621,7 +657,7 @@ export default function CapturePhotosPage() {
                         variant="destructive"
                         size="icon"
                         className="absolute top-2 right-2 h-7 w-7"
-                        onClick={() => removePhoto(photo.id)}
+                        onClick={() => removePhoto(photo)}
                       >
                         <Trash2 className="w-4 h-4" />
                       </Button>
@@ -664,6 +700,33 @@ export default function CapturePhotosPage() {
           </Card>
         )}
 
+        {/* Site notes (queued like photos, so they survive a dead zone) */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center justify-between">
+              Site notes
+              {notesItem && <OutboxItemStatusBadge item={notesItem} online={online} />}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Access, conditions, anything the photos don't show..."
+              rows={3}
+              maxLength={5000}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={saveNotes}
+              disabled={notesItem?.kind === "update_notes" && notesItem.payload.jobNotes === notes.trim()}
+            >
+              Save notes
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Tips */}
         {photos.length === 0 && (
           <Card className="bg-blue-50 border-blue-200">
@@ -685,14 +748,16 @@ export default function CapturePhotosPage() {
             <Button
               className="w-full h-12 text-base gap-2"
               onClick={handleAnalyzePhotos}
-              disabled={uploadedCount === 0 || uploadingCount > 0}
+              disabled={uploadedCount === 0 || uploadingCount > 0 || queuedCount > 0 || serverJobId === null}
             >
               <Sparkles className="w-5 h-5" />
               Analyze & Select Issues
             </Button>
-            {uploadingCount > 0 && (
+            {uploadingCount + queuedCount > 0 && (
               <p className="text-xs text-center text-slate-500 mt-2">
-                Waiting for {uploadingCount} photo{uploadingCount > 1 ? "s" : ""} to upload...
+                {online
+                  ? `Waiting for ${uploadingCount + queuedCount} photo${uploadingCount + queuedCount > 1 ? "s" : ""} to upload...`
+                  : `${queuedCount} photo${queuedCount > 1 ? "s" : ""} will upload when you're back online`}
               </p>
             )}
           </div>
@@ -57,7 +57,8 @@ import {
   Car,
   type LucideIcon,
 } from "lucide-react";
-import { mobileApiFetch, newIdempotencyKey, MobileJob } from "@/app/m/lib/api";
+import { mobileApiFetch, newIdempotencyKey, MobileApiError, MobileJob } from "@/app/m/lib/api";
+import { enqueueCreateJob, isOutboxSupported } from "@/app/m/lib/outbox";
 import { 
   validateJobAddress, 
   applyCorrectedAddress,
@@ -84,6 +85,8 @@ import {
   SavedCustomer,
   isMeasurementTrade,
   isValidJobTypeId,
+  normalizeJobTypeId,
+  normalizeJobTypeIds,
 } from "@/app/m/lib/job-memory";
 import { cn } from "@/lib/utils";
 import { useLanguage } from "@/hooks/useLanguage";
@@ -1073,8 +1076,9 @@ function CreateJobPageInner() {
     // Also check for direct jobType URL param
     const urlJobType = searchParams.get("jobType");
     if (urlJobType && !params) {
-      if (isValidJobTypeId(urlJobType)) {
-        setJobType(urlJobType);
+      const normalizedUrlJobType = normalizeJobTypeId(urlJobType);
+      if (normalizedUrlJobType) {
+        setJobType(normalizedUrlJobType);
         hasAppliedEstimateParams.current = true;
       } else {
         // Invalid job type from URL - clear and warn
@@ -1093,14 +1097,15 @@ function CreateJobPageInner() {
       const lastSetup = getLastJobSetup();
       // Filter recent job types to only include valid ones
       const rawRecent = getRecentJobTypes(5);
-      const validRecent = rawRecent.filter(isValidJobTypeId);
+      const validRecent = normalizeJobTypeIds(rawRecent);
       setRecentJobTypes(validRecent.slice(0, 3));
 
       // Only apply lastSetup if we didn't get estimate params
       if (lastSetup && !hasAppliedEstimateParams.current) {
-        // Validate the stored job type before using
-        if (isValidJobTypeId(lastSetup.jobType)) {
-          setJobType(lastSetup.jobType);
+        // Validate the stored job type before using (retired IDs map to their catalog ID)
+        const storedJobType = normalizeJobTypeId(lastSetup.jobType);
+        if (storedJobType) {
+          setJobType(storedJobType);
         } else {
           // Invalid stored job type - clear and use default
           console.warn(`Invalid jobType from localStorage: ${lastSetup.jobType}`);
@@ -1123,7 +1128,7 @@ function CreateJobPageInner() {
         await syncAllData();
         // Refresh local state after sync - filter invalid types
         const newRawRecent = getRecentJobTypes(5);
-        const newValidRecent = newRawRecent.filter(isValidJobTypeId);
+        const newValidRecent = normalizeJobTypeIds(newRawRecent);
         setRecentJobTypes(newValidRecent.slice(0, 3));
         forceUpdate((n) => n + 1);
       } catch (e) {
@@ -1183,32 +1188,39 @@ function CreateJobPageInner() {
       // Don't save addressId - user should explicitly select each time
     });
 
+    const jobPayload = {
+      jobType: /^\d+$/.test(finalJobType) ? Number(finalJobType) : finalJobType,
+      // Draft-first: Customer and address are optional - backend will use defaults
+      customer: selectedCustomer?.name || undefined,
+      address: selectedAddress?.formatted || undefined,
+      // Include lat/lng and placeId if address is provided
+      ...(selectedAddress && {
+        lat: selectedAddress.lat,
+        lng: selectedAddress.lng,
+        placeId: selectedAddress.placeId,
+      }),
+      notes: internalNotes.trim() || undefined,
+    };
+    const idempotencyKey = newIdempotencyKey();
+    // Route to measurement page for fence/driveway trades, otherwise capture
+    const nextStep = isMeasurementTrade(finalJobType) ? "measure" : "capture";
+
     try {
       const res = await mobileApiFetch<MobileJob>("/api/mobile/jobs", {
         method: "POST",
-        headers: { "Idempotency-Key": newIdempotencyKey() },
-        body: JSON.stringify({
-          jobType: /^\d+$/.test(finalJobType) ? Number(finalJobType) : finalJobType,
-          // Draft-first: Customer and address are optional - backend will use defaults
-          customer: selectedCustomer?.name || undefined,
-          address: selectedAddress?.formatted || undefined,
-          // Include lat/lng and placeId if address is provided
-          ...(selectedAddress && {
-            lat: selectedAddress.lat,
-            lng: selectedAddress.lng,
-            placeId: selectedAddress.placeId,
-          }),
-          notes: internalNotes.trim() || undefined,
-        }),
+        headers: { "Idempotency-Key": idempotencyKey },
+        body: JSON.stringify(jobPayload),
       });
 
-      // Route to measurement page for fence/driveway trades, otherwise capture
-      if (isMeasurementTrade(finalJobType)) {
-        router.push(`/m/measure/${res.jobId}`);
-      } else {
-        router.push(`/m/capture/${res.jobId}`);
-      }
+      router.push(`/m/${nextStep}/${res.jobId}`);
     } catch (e) {
+      // No signal: queue the job (same idempotency key, in case the request did
+      // reach the server) and keep capturing against a local job ref
+      if (!(e instanceof MobileApiError) && isOutboxSupported()) {
+        const localJobRef = await enqueueCreateJob(jobPayload, idempotencyKey);
+        router.push(`/m/${nextStep}/${localJobRef}`);
+        return;
+      }
       setError(e instanceof Error ? e.message : "Failed to create job");
     } finally {
       setBusy(false);
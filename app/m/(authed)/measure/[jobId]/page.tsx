@@ -1,15 +1,20 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, Loader2, MapPin, AlertCircle } from "lucide-react";
 import { mobileApiFetch } from "@/app/m/lib/api";
+import { getOutboxItems } from "@/app/m/lib/outbox";
+import { saveJobMeasurements } from "@/app/m/lib/measurements";
+import { isLocalJobRef } from "@/lib/mobile-outbox";
 import MapMeasurementStep, {
-  type Measurements,
+  type MeasurementSession,
   type MeasurementTrade,
 } from "@/components/scopescan/MapMeasurementStep";
+import { parseMeasurementSession } from "@/src/lib/mobile/measurements/session";
 import { isMeasurementTrade } from "@/app/m/lib/job-memory";
+import { useMeasurementAutosave } from "@/hooks/useMeasurementAutosave";
 
 interface JobDetails {
   jobId: number;
@@ -18,7 +23,8 @@ interface JobDetails {
   lat?: number;
   lng?: number;
   customer?: string;
-  measurements?: Measurements | null;
+  // Stored session, or a single fence/driveway measurement from older jobs
+  measurements?: unknown;
 }
 
 /**
@@ -26,8 +32,9 @@ interface JobDetails {
  * 
  * This page is shown for fence and driveway trades after job creation.
  * It allows users to draw on satellite imagery to measure:
- * - Fence: polyline -> linear feet
- * - Driveway: polygon -> area, perimeter, cubic yards
+ * - Fence: named runs (polylines) -> linear feet, plus gates per run
+ * - Driveway: named areas (polygons) with cut-outs -> area, perimeter, cubic yards
+ * The session autosaves to the job as it changes.
  */
 export default function MeasurePage() {
   const params = useParams();
@@ -38,11 +45,40 @@ export default function MeasurePage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [session, setSession] = useState<MeasurementSession | null>(null);
+  const { flush } = useMeasurementAutosave(jobId, session);
+  const initialSession = useMemo(() => parseMeasurementSession(job?.measurements), [job?.measurements]);
 
   // Fetch job details
   useEffect(() => {
     async function fetchJob() {
       try {
+        // Job created offline: read it from the outbox until it syncs
+        if (isLocalJobRef(jobId)) {
+          const queued = (await getOutboxItems()).find(
+            (item) => item.kind === "create_job" && item.jobRef === jobId
+          );
+          if (queued?.kind !== "create_job") {
+            throw new Error("This job isn't saved on this device");
+          }
+          if (queued.result?.jobId) {
+            router.replace(`/m/measure/${queued.result.jobId}`);
+            return;
+          }
+          const jobType = String(queued.payload.jobType);
+          setJob({
+            jobId: -1,
+            jobType,
+            address: queued.payload.address,
+            customer: queued.payload.customer,
+          });
+          if (!isMeasurementTrade(jobType)) {
+            router.replace(`/m/capture/${jobId}`);
+          }
+          // Driveway packages need the server, so offline driveway jobs measure here
+          return;
+        }
+
         const res = await mobileApiFetch<JobDetails>(`/api/mobile/jobs/${jobId}`);
         setJob(res);
         
@@ -67,49 +103,36 @@ export default function MeasurePage() {
     fetchJob();
   }, [jobId, router]);
 
-  // Handle measurements change (for auto-save)
-  const handleMeasurementsChange = useCallback(
-    (measurements: Measurements | null) => {
-      // Draft is automatically saved to localStorage by the component
-      // We can also save to the server here if needed
-      if (job) {
-        setJob((prev) => prev ? { ...prev, measurements } : null);
-      }
-    },
-    [job]
-  );
+  // Handle session change (autosaved by useMeasurementAutosave)
+  const handleSessionChange = useCallback((next: MeasurementSession) => {
+    setSession(next);
+  }, []);
 
   // Handle finish - save and navigate to capture
   const handleFinish = useCallback(
-    async (measurements: Measurements) => {
+    async (finished: MeasurementSession) => {
       setSaving(true);
       setError(null);
       
       try {
-        // Save measurements to the job
-        await mobileApiFetch(`/api/mobile/jobs/${jobId}/measurements`, {
-          method: "PUT",
-          body: JSON.stringify({ measurements }),
-        });
-        
-        // Navigate to capture page
-        router.push(`/m/capture/${jobId}`);
+        // Save only the drawn segments (queued, so a dropped signal doesn't lose them)
+        await saveJobMeasurements(jobId, finished);
       } catch (e) {
-        // Even if save fails, measurements are in localStorage
-        // Navigate anyway - they'll be picked up later
+        // Autosave already has the latest session; navigate anyway
         console.error("Failed to save measurements:", e);
-        router.push(`/m/capture/${jobId}`);
       } finally {
         setSaving(false);
+        router.push(`/m/capture/${jobId}`);
       }
     },
     [jobId, router]
   );
 
-  // Handle skip measurement
-  const handleSkip = useCallback(() => {
+  // Handle skip measurement (keep anything drawn so far)
+  const handleSkip = useCallback(async () => {
+    await flush();
     router.push(`/m/capture/${jobId}`);
-  }, [jobId, router]);
+  }, [flush, jobId, router]);
 
   // Loading state
   if (loading) {
@@ -231,7 +254,8 @@ export default function MeasurePage() {
         <MapMeasurementStep
           trade={trade}
           initialAddressLatLng={{ lat: defaultLat, lng: defaultLng }}
-          onMeasurementsChange={handleMeasurementsChange}
+          initialSession={initialSession}
+          onSessionChange={handleSessionChange}
           onFinish={handleFinish}
         />
       </div>
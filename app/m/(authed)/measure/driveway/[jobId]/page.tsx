@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -24,10 +24,14 @@ import {
   Check,
 } from "lucide-react";
 import { mobileApiFetch, newIdempotencyKey } from "@/app/m/lib/api";
-import MapMeasurementStep, {
-  type DrivewayMeasurements,
-  type Measurements,
-} from "@/components/scopescan/MapMeasurementStep";
+import { saveJobMeasurements } from "@/app/m/lib/measurements";
+import MapMeasurementStep, { type MeasurementSession } from "@/components/scopescan/MapMeasurementStep";
+import {
+  getMeasuredSegments,
+  parseMeasurementSession,
+  type AreaSegment,
+} from "@/src/lib/mobile/measurements/session";
+import { useMeasurementAutosave } from "@/hooks/useMeasurementAutosave";
 
 interface JobDetails {
   jobId: number;
@@ -37,7 +41,8 @@ interface JobDetails {
   lng?: number;
   customer?: string;
   clientName?: string;
-  measurements?: DrivewayMeasurements | null;
+  // Stored session, or a single driveway measurement from older jobs
+  measurements?: unknown;
 }
 
 type PackageKey = "GOOD" | "BETTER" | "BEST";
@@ -133,7 +138,7 @@ const DRIVEWAY_ADDONS: AddOn[] = [
  * Driveway Measurement Page (Dedicated Route)
  *
  * This is the upgraded driveway experience with:
- * - Polygon drawing for area measurement
+ * - Polygon drawing for area measurement (several named areas, with cut-outs)
  * - Package selection (Good/Better/Best)
  * - Add-ons selection
  * - Generate proposal functionality
@@ -149,10 +154,17 @@ export default function DrivewayMeasurePage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Measurement state
-  const [measurements, setMeasurements] = useState<DrivewayMeasurements | null>(
-    null
-  );
+  // Measurement state (autosaved to the job while drawing)
+  const [session, setSession] = useState<MeasurementSession | null>(null);
+  const { flush: flushMeasurements } = useMeasurementAutosave(jobId, session);
+  const initialSession = useMemo(() => parseMeasurementSession(job?.measurements), [job?.measurements]);
+
+  // Drawn areas and their totals; null until at least one area is drawn
+  const measurements = useMemo(() => {
+    if (!session) return null;
+    const areas = getMeasuredSegments(session).filter((s): s is AreaSegment => s.kind === "area");
+    return areas.length > 0 ? { areas, totals: session.totals } : null;
+  }, [session]);
 
   // Package & Add-ons state
   const [selectedPackage, setSelectedPackage] = useState<PackageKey>("BETTER");
@@ -176,11 +188,6 @@ export default function DrivewayMeasurePage() {
           router.replace(`/m/measure/${jobId}`);
           return;
         }
-
-        // Load existing measurements if available
-        if (res.measurements) {
-          setMeasurements(res.measurements);
-        }
       } catch (e) {
         setError(e instanceof Error ? e.message : "Failed to load job");
       } finally {
@@ -190,18 +197,10 @@ export default function DrivewayMeasurePage() {
     fetchJob();
   }, [jobId, router]);
 
-  // Handle measurements change from map component
-  const handleMeasurementsChange = useCallback(
-    (newMeasurements: Measurements | null) => {
-      // Only accept driveway measurements (type guard)
-      if (newMeasurements && "drivewayPolygonPoints" in newMeasurements) {
-        setMeasurements(newMeasurements);
-      } else if (newMeasurements === null) {
-        setMeasurements(null);
-      }
-    },
-    []
-  );
+  // Handle session change from map component
+  const handleSessionChange = useCallback((next: MeasurementSession) => {
+    setSession(next);
+  }, []);
 
   // Calculate pricing
   const calculatePricing = useCallback(() => {
@@ -210,16 +209,16 @@ export default function DrivewayMeasurePage() {
     const pkg = DRIVEWAY_PACKAGES.find((p) => p.id === selectedPackage);
     if (!pkg) return null;
 
-    const basePrice = measurements.drivewaySF * pkg.pricePerSqFt;
+    const basePrice = measurements.totals.areaSF * pkg.pricePerSqFt;
 
     let addOnsTotal = 0;
     selectedAddOns.forEach((addOnId) => {
       const addOn = DRIVEWAY_ADDONS.find((a) => a.id === addOnId);
       if (addOn) {
         if (addOn.unit === "per sq ft") {
-          addOnsTotal += addOn.price * measurements.drivewaySF;
+          addOnsTotal += addOn.price * measurements.totals.areaSF;
         } else if (addOn.unit === "per linear ft") {
-          addOnsTotal += addOn.price * measurements.drivewayPerimeterLF;
+          addOnsTotal += addOn.price * measurements.totals.perimeterLF;
         } else {
           addOnsTotal += addOn.price;
         }
@@ -248,18 +247,15 @@ export default function DrivewayMeasurePage() {
 
   // Save measurements to job
   const saveMeasurementsToJob = useCallback(async () => {
-    if (!measurements) return;
+    if (!session) return;
 
     try {
-      await mobileApiFetch(`/api/mobile/jobs/${jobId}/measurements`, {
-        method: "PUT",
-        body: JSON.stringify({ measurements }),
-      });
+      // Queued and flushed right away; replays later if the signal drops
+      await saveJobMeasurements(jobId, session);
     } catch (e) {
       console.error("Failed to save measurements:", e);
-      // Continue anyway - measurements are saved locally
     }
-  }, [jobId, measurements]);
+  }, [jobId, session]);
 
   // Generate proposal
   const handleGenerateProposal = useCallback(async () => {
@@ -285,7 +281,7 @@ export default function DrivewayMeasurePage() {
       );
 
       const payload = {
-        measurements,
+        measurements: session,
         package: selectedPackage,
         packageDetails: selectedPkg,
         addOns: selectedAddOnDetails,
@@ -307,35 +303,36 @@ export default function DrivewayMeasurePage() {
       // Navigate to preview with the draft
       const previewPayload = encodeURIComponent(
         JSON.stringify({
-          summary: `Driveway installation - ${measurements.drivewaySF.toLocaleString()} sq ft with ${selectedPkg?.name} package`,
+          summary: `Driveway installation - ${measurements.totals.areaSF.toLocaleString()} sq ft with ${selectedPkg?.name} package`,
           packages: {
             GOOD: {
               total:
-                measurements.drivewaySF * DRIVEWAY_PACKAGES[0].pricePerSqFt,
+                measurements.totals.areaSF * DRIVEWAY_PACKAGES[0].pricePerSqFt,
             },
             BETTER: {
               total:
-                measurements.drivewaySF * DRIVEWAY_PACKAGES[1].pricePerSqFt,
+                measurements.totals.areaSF * DRIVEWAY_PACKAGES[1].pricePerSqFt,
             },
             BEST: {
               total:
-                measurements.drivewaySF * DRIVEWAY_PACKAGES[2].pricePerSqFt,
+                measurements.totals.areaSF * DRIVEWAY_PACKAGES[2].pricePerSqFt,
             },
           },
           scopeItems: [
-            {
-              name: `${selectedPkg?.name} Driveway Package`,
-              description: selectedPkg?.description,
-              price: pricing?.basePrice,
-            },
+            // One line item per measured area
+            ...measurements.areas.map((area) => ({
+              name: `${area.name} - ${selectedPkg?.name} Package`,
+              description: `${area.areaSF.toLocaleString()} sq ft at ${area.thicknessIn}" - ${selectedPkg?.description}`,
+              price: Math.round(area.areaSF * (selectedPkg?.pricePerSqFt ?? 0)),
+            })),
             ...selectedAddOnDetails.map((addon) => ({
               name: addon.name,
               description: addon.description,
               price:
                 addon.unit === "per sq ft"
-                  ? addon.price * measurements.drivewaySF
+                  ? addon.price * measurements.totals.areaSF
                   : addon.unit === "per linear ft"
-                    ? addon.price * measurements.drivewayPerimeterLF
+                    ? addon.price * measurements.totals.perimeterLF
                     : addon.price,
             })),
           ],
@@ -354,6 +351,7 @@ export default function DrivewayMeasurePage() {
     }
   }, [
     measurements,
+    session,
     job,
     jobId,
     selectedPackage,
@@ -365,11 +363,9 @@ export default function DrivewayMeasurePage() {
 
   // Skip to capture (without proposal)
   const handleSkipToCapture = useCallback(async () => {
-    if (measurements) {
-      await saveMeasurementsToJob();
-    }
+    await flushMeasurements();
     router.push(`/m/capture/${jobId}`);
-  }, [measurements, jobId, saveMeasurementsToJob, router]);
+  }, [jobId, flushMeasurements, router]);
 
   // Format currency
   const formatCurrency = (amount: number) => {
@@ -491,7 +487,8 @@ export default function DrivewayMeasurePage() {
           <MapMeasurementStep
             trade="driveway"
             initialAddressLatLng={{ lat: defaultLat, lng: defaultLng }}
-            onMeasurementsChange={handleMeasurementsChange}
+            initialSession={initialSession}
+            onSessionChange={handleSessionChange}
           />
         </div>
 
@@ -507,24 +504,37 @@ export default function DrivewayMeasurePage() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-sm text-slate-600">Area</span>
+                {measurements.areas.map((area) => (
+                  <div key={area.id} className="flex justify-between">
+                    <span className="text-sm text-slate-600">
+                      {area.name} ({area.thicknessIn}&quot;)
+                      {area.cutouts.length > 0 && (
+                        <span className="text-xs text-muted-foreground ml-1">
+                          less {area.cutoutSF.toLocaleString()} sq ft cut-outs
+                        </span>
+                      )}
+                    </span>
+                    <span className="font-medium">
+                      {area.areaSF.toLocaleString()} sq ft
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between pt-2 border-t">
+                  <span className="text-sm text-slate-600">Total Area</span>
                   <span className="font-medium">
-                    {measurements.drivewaySF.toLocaleString()} sq ft
+                    {measurements.totals.areaSF.toLocaleString()} sq ft
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-sm text-slate-600">Perimeter</span>
                   <span className="font-medium">
-                    {measurements.drivewayPerimeterLF.toLocaleString()} ft
+                    {measurements.totals.perimeterLF.toLocaleString()} ft
                   </span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-sm text-slate-600">
-                    Concrete ({measurements.drivewayThicknessIn}&quot; thick)
-                  </span>
+                  <span className="text-sm text-slate-600">Concrete</span>
                   <span className="font-medium">
-                    {measurements.drivewayCY} cubic yards
+                    {measurements.totals.cubicYards} cubic yards
                   </span>
                 </div>
               </CardContent>
@@ -19,8 +19,15 @@ import {
   Home,
   User,
   MapPin,
+  History,
 } from "lucide-react";
-import { mobileApiFetch, newIdempotencyKey, SubmitResponse, MobileJob } from "@/app/m/lib/api";
+import {
+  mobileApiFetch,
+  newIdempotencyKey,
+  SubmitResponse,
+  MobileJob,
+  SimilarJobsResponse,
+} from "@/app/m/lib/api";
 import JobAddressField from "@/components/job-address-field";
 import { EagleViewRoofMeasurements } from "@/components/eagleview-roof-measurements";
 import type { RoofingMeasurements } from "@/hooks/useEagleViewOrder";
@@ -73,6 +80,7 @@ export default function PreviewPage() {
   const [savingClientDetails, setSavingClientDetails] = useState(false);
   const [clientDetailsErrors, setClientDetailsErrors] = useState<{ clientName?: string; address?: string }>({});
   const [showPaywall, setShowPaywall] = useState(false);
+  const [similarJobs, setSimilarJobs] = useState<SimilarJobsResponse | null>(null);
 
   // Draft-first: Check if client details are complete
   const hasCompleteClientDetails = Boolean(
@@ -112,6 +120,13 @@ export default function PreviewPage() {
     fetchJobInfo();
   }, [jobId]);
 
+  // Similar past jobs (own and company) as pricing anchors; optional
+  useEffect(() => {
+    mobileApiFetch<SimilarJobsResponse>(`/api/mobile/jobs/${jobId}/similar?k=5&scope=company`, { method: "GET" })
+      .then(setSimilarJobs)
+      .catch(() => setSimilarJobs(null));
+  }, [jobId]);
+
   useEffect(() => {
     const payloadParam = searchParams.get("payload");
     if (payloadParam) {
@@ -539,6 +554,55 @@ export default function PreviewPage() {
           </CardContent>
         </Card>
 
+        {/* Similar Past Jobs */}
+        {similarJobs && similarJobs.similar.length > 0 && (
+          <Card data-testid="similar-jobs-card">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <History className="w-4 h-4" />
+                Similar Past Jobs
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {similarJobs.anchor && (
+                <p className="text-sm text-slate-700">
+                  Comparable jobs went for{" "}
+                  <span className="font-semibold text-slate-900">{formatCurrency(similarJobs.anchor.anchor)}</span>
+                  {similarJobs.anchor.low !== similarJobs.anchor.high && (
+                    <span className="text-slate-500">
+                      {" "}({formatCurrency(similarJobs.anchor.low)} – {formatCurrency(similarJobs.anchor.high)})
+                    </span>
+                  )}
+                </p>
+              )}
+              {similarJobs.similar.map((job) => (
+                <div key={job.jobId} className="flex items-start justify-between gap-3 border-b border-slate-100 pb-2 last:border-0 last:pb-0">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-slate-900 truncate">{job.jobTypeName}</div>
+                    <div className="text-xs text-slate-500 truncate">
+                      {Math.round(job.similarity * 100)}% match · {job.address}
+                      {job.shared && " · Team"}
+                    </div>
+                    {job.scope.length > 0 && (
+                      <div className="text-xs text-slate-500 truncate">{job.scope.slice(0, 3).join(", ")}</div>
+                    )}
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className="text-sm font-medium text-slate-900">
+                      {formatCurrency(job.finalPrice ?? undefined)}
+                    </div>
+                    {job.outcome && (
+                      <div className={`text-xs font-medium ${job.outcome === "won" ? "text-green-600" : "text-slate-500"}`}>
+                        {job.outcome === "won" ? "Won" : "Lost"}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Summary */}
         {payload.summary && (
           <Card>
@@ -4,6 +4,8 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { ArrowLeft, Camera } from "lucide-react";
 import { useLanguage } from "@/hooks/useLanguage";
+import { useOutboxSync } from "@/hooks/useOutbox";
+import { OutboxSyncIndicator } from "@/components/outbox-sync-status";
 
 export function MobileLayoutClient({
   isSignedIn,
@@ -16,6 +18,9 @@ export function MobileLayoutClient({
   const pathname = usePathname();
   const showBackToHome = pathname !== "/m";
 
+  // Replay queued jobs/photos/notes/measurements whenever we're back online
+  useOutboxSync();
+
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Header - responsive for mobile and desktop */}
@@ -48,6 +53,7 @@ export function MobileLayoutClient({
               </Link>
             </div>
             <div className="flex items-center gap-2">
+              <OutboxSyncIndicator />
               {isSignedIn && (
                 <span className="text-xs text-green-600 bg-green-50 px-2 py-1 rounded-full">
                   ✓ {t.nav.signedIn}
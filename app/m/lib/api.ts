@@ -1,5 +1,7 @@
 "use client";
 
+import type { SimilarJob, SimilarJobsPricePrior } from "@/src/lib/similar-jobs/prior";
+
 // Mobile web API configuration stored in localStorage
 const STORAGE_KEY = "scopegen-mobile-web-config";
 
@@ -66,6 +68,19 @@ export function getConfig(): MobileWebConfig {
   };
 }
 
+// Thrown for non-2xx responses; network failures surface as the fetch TypeError
+export class MobileApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = "MobileApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
 export async function mobileApiFetch<T>(
   path: string,
   init?: RequestInit
@@ -91,7 +106,7 @@ export async function mobileApiFetch<T>(
 
   if (!res.ok) {
     const msg = json?.error?.message || json?.message || `Request failed (${res.status})`;
-    throw new Error(msg);
+    throw new MobileApiError(msg, res.status, json?.error?.code);
   }
 
   return json as T;
@@ -129,6 +144,17 @@ export type SubmitResponse = {
   webReviewUrl: string;
 };
 
+export type { SimilarJob, SimilarJobsPricePrior };
+
+export type SimilarJobsResponse = {
+  ok: true;
+  status: "ready" | "pending";
+  scope: "own" | "company";
+  similar: SimilarJob[];
+  anchor: SimilarJobsPricePrior | null;
+  disabled?: boolean;
+};
+
 // Types for issue analysis
 
 // Remedy types for repair vs replace decisioning
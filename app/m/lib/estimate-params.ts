@@ -1,58 +1,28 @@
 import { z } from "zod";
+import { getDefaultTradeCatalog, getMobileJobTypeForEstimate } from "@/lib/catalog";
 
 /**
  * Schema for validating URL query params from the calculator estimate handoff.
  * These params prefill the create page with context from the price estimate.
  */
 
-// Valid trade IDs from the calculator
-export const VALID_TRADES = [
-  "bathroom",
-  "kitchen",
-  "roofing",
-  "painting",
-  "electrical",
-  "plumbing",
-  "hvac",
-  "landscaping",
-  "flooring",
-  "siding",
-  "drywall",
-  "windows",
-  "deck",
-  "fence",
-  "concrete",
-  "tile",
-  "cabinets",
-] as const;
+// Valid trade IDs from the calculator: catalog trade IDs and their aliases
+export const VALID_TRADES: readonly string[] = getDefaultTradeCatalog().trades.flatMap((trade) => [trade.id, ...trade.aliases]);
 
 // Valid size options
 export const VALID_SIZES = ["small", "medium", "large", "custom"] as const;
 
 // Map calculator trade IDs to create page job type IDs
-export const TRADE_TO_JOB_TYPE: Record<string, string> = {
-  bathroom: "bathroom-remodel",
-  kitchen: "kitchen-remodel",
-  roofing: "roofing",
-  painting: "painting",
-  electrical: "electrical",
-  plumbing: "plumbing",
-  hvac: "hvac",
-  landscaping: "landscaping",
-  flooring: "flooring",
-  siding: "siding",
-  drywall: "drywall",
-  windows: "windows",
-  deck: "deck",
-  fence: "fence",
-  concrete: "concrete",
-  tile: "tile",
-  cabinets: "cabinets",
-};
+export const TRADE_TO_JOB_TYPE: Record<string, string> = Object.fromEntries(
+  VALID_TRADES.flatMap((trade) => {
+    const jobTypeId = getMobileJobTypeForEstimate(trade);
+    return jobTypeId ? [[trade, jobTypeId]] : [];
+  })
+);
 
 // Zod schema for estimate query params
 export const estimateParamsSchema = z.object({
-  trade: z.enum(VALID_TRADES).optional(),
+  trade: z.string().refine((trade) => VALID_TRADES.includes(trade), "Unknown trade").optional(),
   jobType: z.string().optional(), // Job type ID from calculator (e.g., "tub-to-shower")
   size: z.enum(VALID_SIZES).optional(),
   zip: z.string().regex(/^\d{5}$/, "ZIP must be 5 digits").optional(),
@@ -102,11 +72,12 @@ export function parseEstimateParams(
 }
 
 /**
- * Convert estimate params to create page job type ID.
+ * Convert estimate params to create page job type ID: the estimated job type
+ * when the mobile app offers it, otherwise the trade's default.
  */
 export function getJobTypeFromEstimate(params: EstimateParams): string | null {
   if (params.trade) {
-    return TRADE_TO_JOB_TYPE[params.trade] || null;
+    return getMobileJobTypeForEstimate(params.trade, params.jobType) ?? null;
   }
   return null;
 }
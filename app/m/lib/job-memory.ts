@@ -554,6 +554,8 @@ import {
   getJobTypeIcon as _getJobTypeIcon,
   isMeasurementTrade as _isMeasurementTrade,
   isValidJobTypeId,
+  normalizeJobTypeId,
+  normalizeJobTypeIds,
   validateJobTypeIdOrDefault,
   MEASUREMENT_TRADE_IDS,
   type JobTypeDefinition,
@@ -570,7 +572,7 @@ export type MeasurementTrade = MeasurementTradeId;
 export const isMeasurementTrade = _isMeasurementTrade;
 export const getJobTypeLabel = _getJobTypeLabel;
 export const getJobTypeIcon = _getJobTypeIcon;
-export { isValidJobTypeId, validateJobTypeIdOrDefault };
+export { isValidJobTypeId, normalizeJobTypeId, normalizeJobTypeIds, validateJobTypeIdOrDefault };
 export type { JobTypeDefinition };
 
 // ============ COMBINED GETTERS (LOCAL + REMOTE) ============
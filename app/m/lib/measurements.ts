@@ -0,0 +1,20 @@
+"use client";
+
+import type { MeasurementSession } from "@/src/lib/mobile/measurements/session";
+import { mobileApiFetch } from "./api";
+import { enqueueMeasurements, isOutboxSupported } from "./outbox";
+
+/**
+ * Save a job's measurement session. Goes through the outbox when available so
+ * a dropped signal (or a job still queued offline) doesn't lose it.
+ */
+export async function saveJobMeasurements(jobRef: string, session: MeasurementSession | null): Promise<void> {
+  if (isOutboxSupported()) {
+    await enqueueMeasurements(jobRef, session);
+    return;
+  }
+  await mobileApiFetch(`/api/mobile/jobs/${jobRef}/measurements`, {
+    method: "PUT",
+    body: JSON.stringify({ measurements: session }),
+  });
+}
@@ -0,0 +1,328 @@
+"use client";
+
+import {
+  createOutboxItem,
+  findPrunableItems,
+  findSupersededItems,
+  getNextOutboxAttemptAt,
+  markOutboxItemFailed,
+  markOutboxItemSynced,
+  markOutboxItemSyncing,
+  newLocalJobRef,
+  nextOutboxSeq,
+  recoverInterruptedItems,
+  resetOutboxItem,
+  resolveOutboxJobId,
+  selectNextOutboxItem,
+  type CreateJobPayload,
+  type OutboxItem,
+  type OutboxItemKind,
+  type OutboxItemResult,
+  type OutboxPayloads,
+} from "@/lib/mobile-outbox";
+import { MobileApiError, mobileApiFetch, newIdempotencyKey } from "./api";
+
+// Offline outbox for /m - IndexedDB queue + sync engine.
+// Queue rules (ordering, retries) live in lib/mobile-outbox.ts.
+const DB_NAME = "scopegen-mobile-outbox";
+const DB_VERSION = 1;
+const STORE = "items";
+// Fallback poll while items are waiting (online events aren't reliable everywhere)
+const POLL_INTERVAL_MS = 30_000;
+
+type Listener = (items: OutboxItem[]) => void;
+
+const listeners = new Set<Listener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let started = 0;
+let stopEngine: (() => void) | null = null;
+
+// ============ INDEXEDDB HELPERS ============
+
+export function isOutboxSupported(): boolean {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) {
+          req.result.createObjectStore(STORE, { keyPath: "id" });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function readItems(): Promise<OutboxItem[]> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(STORE, "readonly").objectStore(STORE).getAll();
+    req.onsuccess = () => resolve((req.result as OutboxItem[]).sort((a, b) => a.seq - b.seq));
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function writeItems(put: OutboxItem[], remove: string[] = []): Promise<void> {
+  if (put.length === 0 && remove.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const id of remove) store.delete(id);
+    for (const item of put) store.put(item);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function notify(): Promise<OutboxItem[]> {
+  const items = await readItems();
+  for (const listener of listeners) listener(items);
+  return items;
+}
+
+// ============ PUBLIC API ============
+
+export async function getOutboxItems(): Promise<OutboxItem[]> {
+  if (!isOutboxSupported()) return [];
+  return readItems();
+}
+
+/**
+ * Subscribe to queue changes; the listener is called with the current items
+ * right away and after every change made in this tab.
+ */
+export function subscribeOutbox(listener: Listener): () => void {
+  listeners.add(listener);
+  if (isOutboxSupported()) {
+    readItems().then(listener).catch((e) => console.error("Failed to read outbox:", e));
+  }
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function enqueue<K extends OutboxItemKind>(
+  kind: K,
+  jobRef: string,
+  payload: OutboxPayloads[K],
+  idempotencyKey = newIdempotencyKey()
+): Promise<OutboxItem> {
+  const items = await readItems();
+  const now = Date.now();
+  const item = createOutboxItem({
+    id: `outbox-${now}-${Math.random().toString(36).slice(2, 9)}`,
+    kind,
+    jobRef,
+    idempotencyKey,
+    payload,
+    seq: nextOutboxSeq(items),
+    now,
+  });
+  await writeItems([item], findSupersededItems(items, kind, jobRef));
+  await notify();
+  void flushOutbox();
+  return item;
+}
+
+/**
+ * Queue a job creation. Pass the Idempotency-Key of a create request that may
+ * already have reached the server so the replay returns that same job.
+ * Returns the local job ref to route with until the job syncs.
+ */
+export async function enqueueCreateJob(payload: CreateJobPayload, idempotencyKey?: string): Promise<string> {
+  const jobRef = newLocalJobRef();
+  await enqueue("create_job", jobRef, payload, idempotencyKey);
+  return jobRef;
+}
+
+export function enqueuePhotoUpload(jobRef: string, file: File): Promise<OutboxItem> {
+  return enqueue("upload_photo", jobRef, { file, filename: file.name || "photo.jpg" });
+}
+
+export function enqueueJobNotes(jobRef: string, jobNotes: string): Promise<OutboxItem> {
+  return enqueue("update_notes", jobRef, { jobNotes });
+}
+
+export function enqueueMeasurements(jobRef: string, measurements: unknown): Promise<OutboxItem> {
+  return enqueue("save_measurements", jobRef, { measurements });
+}
+
+export async function retryOutboxItem(id: string): Promise<void> {
+  const item = (await readItems()).find((i) => i.id === id);
+  if (!item || item.status !== "failed") return;
+  await writeItems([resetOutboxItem(item, Date.now())]);
+  await notify();
+  void flushOutbox();
+}
+
+export async function removeOutboxItem(id: string): Promise<void> {
+  await writeItems([], [id]);
+  await notify();
+}
+
+export async function resolveJobRef(jobRef: string): Promise<number | null> {
+  if (!isOutboxSupported()) return resolveOutboxJobId([], jobRef);
+  return resolveOutboxJobId(await readItems(), jobRef);
+}
+
+// ============ SYNC ENGINE ============
+
+async function send(item: OutboxItem, items: OutboxItem[]): Promise<OutboxItemResult> {
+  const headers = { "Idempotency-Key": item.idempotencyKey };
+
+  if (item.kind === "create_job") {
+    const res = await mobileApiFetch<{ jobId: number }>("/api/mobile/jobs", {
+      method: "POST",
+      headers,
+      body: JSON.stringify(item.payload),
+    });
+    return { jobId: res.jobId };
+  }
+
+  const jobId = resolveOutboxJobId(items, item.jobRef);
+  if (jobId === null) throw new Error("Job has not synced yet");
+
+  switch (item.kind) {
+    case "upload_photo": {
+      const formData = new FormData();
+      formData.append("file", item.payload.file, item.payload.filename);
+      const res = await mobileApiFetch<{
+        success: boolean;
+        uploadedPhotos: Array<{ id: number; publicUrl: string }>;
+        errors?: Array<{ filename: string; error: string }>;
+      }>(`/api/mobile/jobs/${jobId}/photos/upload`, { method: "POST", headers, body: formData });
+      const uploaded = res.uploadedPhotos?.[0];
+      if (!res.success || !uploaded) {
+        // The server rejected the file itself; resending it won't help
+        throw new MobileApiError(res.errors?.[0]?.error || "Upload failed", 422);
+      }
+      return { jobId, photoId: uploaded.id, publicUrl: uploaded.publicUrl };
+    }
+    case "update_notes":
+      await mobileApiFetch(`/api/mobile/jobs/${jobId}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ jobNotes: item.payload.jobNotes }),
+      });
+      return { jobId };
+    case "save_measurements":
+      await mobileApiFetch(`/api/mobile/jobs/${jobId}/measurements`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ measurements: item.payload.measurements }),
+      });
+      return { jobId };
+  }
+}
+
+function scheduleRetry(items: OutboxItem[]) {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const nextAt = getNextOutboxAttemptAt(items);
+  if (nextAt === null || started === 0) return;
+  retryTimer = setTimeout(() => void flushOutbox(), Math.max(0, nextAt - Date.now()) + 50);
+}
+
+async function runFlush(): Promise<void> {
+  let items = await readItems();
+
+  while (navigator.onLine) {
+    const next = selectNextOutboxItem(items, Date.now());
+    if (!next) break;
+
+    await writeItems([markOutboxItemSyncing(next, Date.now())]);
+    items = await notify();
+
+    let updated: OutboxItem;
+    let unreachable = false;
+    try {
+      updated = markOutboxItemSynced(next, await send(next, items), Date.now());
+    } catch (e) {
+      console.error(`Outbox ${next.kind} failed:`, e);
+      updated = markOutboxItemFailed(next, e, Date.now());
+      // No HTTP response at all: stop here instead of timing out on every item
+      unreachable = !(e instanceof MobileApiError);
+    }
+
+    await writeItems([updated]);
+    items = await notify();
+    if (unreachable) break;
+  }
+
+  scheduleRetry(items);
+}
+
+/**
+ * Replay due items in order. Concurrent calls share one run.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!isOutboxSupported()) return Promise.resolve();
+  if (!flushPromise) {
+    flushPromise = runFlush()
+      .catch((e) => console.error("Outbox flush failed:", e))
+      .finally(() => {
+        flushPromise = null;
+      });
+  }
+  return flushPromise;
+}
+
+/**
+ * Start background sync (reference counted - call from every mounted layout).
+ * Recovers items interrupted mid-request, prunes old synced items, and flushes
+ * on load, when the browser comes back online, and when the tab regains focus.
+ */
+export function startOutboxSync(): () => void {
+  if (!isOutboxSupported()) return () => {};
+
+  started++;
+  if (started === 1) {
+    const onWake = () => {
+      if (document.visibilityState === "visible") void flushOutbox();
+    };
+    window.addEventListener("online", onWake);
+    document.addEventListener("visibilitychange", onWake);
+    const poll = setInterval(() => void flushOutbox(), POLL_INTERVAL_MS);
+
+    void (async () => {
+      try {
+        const items = await readItems();
+        const now = Date.now();
+        await writeItems(recoverInterruptedItems(items, now), findPrunableItems(items, now));
+        await notify();
+        await flushOutbox();
+      } catch (e) {
+        console.error("Failed to start outbox sync:", e);
+      }
+    })();
+
+    stopEngine = () => {
+      window.removeEventListener("online", onWake);
+      document.removeEventListener("visibilitychange", onWake);
+      clearInterval(poll);
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+    };
+  }
+
+  return () => {
+    started--;
+    if (started === 0) {
+      stopEngine?.();
+      stopEngine = null;
+    }
+  };
+}
@@ -4,15 +4,18 @@
 export const dynamic = 'force-dynamic';
 
 import { useRef, useState } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import ProposalPreview from "@/components/proposal-preview";
 import SignaturePad, { SignaturePadRef } from "@/components/signature-pad";
+import ProposalChangeLog, { type ProposalChangeLogEntry } from "@/components/proposal-change-log";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Download, Loader2, FileWarning, CheckCircle2, FileSignature } from "lucide-react";
-import { useLanguage } from "@/hooks/useLanguage";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Download, Loader2, FileWarning, CheckCircle2, FileSignature, Clock, CreditCard } from "lucide-react";
+import { type ClientCostTable } from "@/lib/cost-breakdown";
+import { fillMessage, formatClientDate, formatClientNumber, getClientLocale } from "@/lib/client-locale/locales";
 
 interface PublicProposalResponse {
   proposal: {
@@ -35,7 +38,9 @@ interface PublicProposalResponse {
       priceHigh: number;
       estimatedDaysLow?: number;
       estimatedDaysHigh?: number;
+      costTable?: ClientCostTable | null;
     }>;
+    costTable?: ClientCostTable | null;
     isMultiService?: boolean;
     estimatedDaysLow?: number;
     estimatedDaysHigh?: number;
@@ -44,7 +49,19 @@ interface PublicProposalResponse {
     acceptedByName?: string;
     acceptedByEmail?: string;
     signature?: string | null;
+    validUntil?: string | null;
+    clientLanguage?: string;
+    terms?: Array<{ id: string; title: string; body: string }>;
+    isExpired?: boolean;
+    deposit?: {
+      percentage: number | null;
+      amount: number | null; // cents
+      paymentStatus: string | null;
+      paidAmount: number | null; // cents
+      paymentLinkUrl: string | null;
+    } | null;
   };
+  changeLog?: ProposalChangeLogEntry[];
   companyInfo: {
     companyName?: string | null;
     companyAddress?: string | null;
@@ -53,41 +70,77 @@ interface PublicProposalResponse {
   } | null;
 }
 
+// Deposit checks after returning from Stripe: 5s, 10s, 20s, 40s apart, then stop
+const DEPOSIT_CHECKS = 5;
+
 export default function PublicProposal() {
   const params = useParams();
   const token = params?.token as string;
+  const searchParams = useSearchParams();
+  // Stripe redirects back here after the deposit; it may not be recorded yet
+  const returnedFromDeposit = searchParams?.get("deposit") === "paid";
   const previewRef = useRef<HTMLDivElement>(null);
   const signaturePadRef = useRef<SignaturePadRef>(null);
   const queryClient = useQueryClient();
-  const { t } = useLanguage();
   const [isDownloading, setIsDownloading] = useState(false);
   const [showAcceptForm, setShowAcceptForm] = useState(false);
   const [acceptName, setAcceptName] = useState("");
   const [acceptEmail, setAcceptEmail] = useState("");
   const [signature, setSignature] = useState<string | null>(null);
+  const [consent, setConsent] = useState(false);
 
   const { data, isLoading, error } = useQuery<PublicProposalResponse>({
     queryKey: ["/api/public/proposal", token],
     queryFn: async () => {
       const res = await fetch(`/api/public/proposal/${token}`);
       if (!res.ok) {
-        throw new Error(t.proposal.proposalNotFound);
+        throw new Error(getClientLocale("en").messages.publicPage.proposalNotFound);
       }
       return res.json();
     },
     enabled: !!token,
   });
 
+  // The deposit is paid on the contractor's Stripe account; read it back until it's recorded
+  useQuery<{ paymentStatus: string | null; paidAmount: number | null }>({
+    queryKey: ["/api/public/proposal", token, "deposit"],
+    queryFn: async () => {
+      const res = await fetch(`/api/public/proposal/${token}/deposit`, { method: "POST" });
+      if (!res.ok) {
+        throw new Error("Failed to check deposit");
+      }
+      const status = await res.json();
+      if (status.paymentStatus === "partial" || status.paymentStatus === "paid") {
+        queryClient.invalidateQueries({ queryKey: ["/api/public/proposal", token], exact: true });
+      }
+      return status;
+    },
+    enabled: !!token && returnedFromDeposit,
+    // Back off, then leave it to the server's scheduled check (payments can take days to settle)
+    refetchInterval: (query) => {
+      const status = query.state.data?.paymentStatus;
+      if (status === "partial" || status === "paid") return false;
+      const checks = query.state.dataUpdateCount;
+      return checks < DEPOSIT_CHECKS ? 5000 * 2 ** (checks - 1) : false;
+    },
+  });
+
+  // Everything the client reads is in the proposal's client language (English until it loads)
+  const language = data?.proposal.clientLanguage ?? "en";
+  const locale = getClientLocale(language);
+  const t = locale.messages.publicPage;
+
   const acceptMutation = useMutation({
     mutationFn: async ({ name, email, signature }: { name: string; email: string; signature: string }) => {
       const res = await fetch(`/api/public/proposal/${token}/accept`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, email, signature }),
+        // The consent wording shown here is recorded server-side on the signing certificate
+        body: JSON.stringify({ name, email, signature, consent: true }),
       });
       if (!res.ok) {
         const error = await res.json();
-        throw new Error(error.message || t.proposal.failedToAccept);
+        throw new Error(error.photoUnavailable ? t.photoUnavailable : error.message || t.failedToAccept);
       }
       return res.json();
     },
@@ -95,6 +148,7 @@ export default function PublicProposal() {
       queryClient.invalidateQueries({ queryKey: ["/api/public/proposal", token] });
       setShowAcceptForm(false);
       setSignature(null);
+      setConsent(false);
     },
   });
 
@@ -137,7 +191,7 @@ export default function PublicProposal() {
 
   const handleAcceptSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (acceptName.trim() && acceptEmail.trim() && signature) {
+    if (acceptName.trim() && acceptEmail.trim() && signature && consent) {
       acceptMutation.mutate({
         name: acceptName.trim(),
         email: acceptEmail.trim(),
@@ -151,7 +205,7 @@ export default function PublicProposal() {
       <div className="min-h-screen bg-slate-100 flex items-center justify-center">
         <div className="text-center">
           <Loader2 className="w-8 h-8 animate-spin mx-auto text-primary" />
-          <p className="mt-4 text-slate-600">Loading proposal...</p>
+          <p className="mt-4 text-slate-600">{t.loading}</p>
         </div>
       </div>
     );
@@ -162,9 +216,9 @@ export default function PublicProposal() {
       <div className="min-h-screen bg-slate-100 flex items-center justify-center">
         <div className="text-center max-w-md mx-auto p-8">
           <FileWarning className="w-16 h-16 mx-auto text-slate-400" />
-          <h1 className="text-2xl font-bold mt-4 text-slate-900">Proposal Not Found</h1>
+          <h1 className="text-2xl font-bold mt-4 text-slate-900">{t.notFoundTitle}</h1>
           <p className="mt-2 text-slate-600">
-            This proposal link may have expired or is no longer available.
+            {t.notFoundBody}
           </p>
         </div>
       </div>
@@ -172,6 +226,11 @@ export default function PublicProposal() {
   }
 
   const isAccepted = data.proposal.status === 'accepted';
+  const isExpired = !isAccepted && !!data.proposal.isExpired;
+  const deposit = data.proposal.deposit;
+  const depositPaid = !!deposit && (deposit.paymentStatus === 'partial' || deposit.paymentStatus === 'paid');
+  const formatCents = (cents: number) => `$${formatClientNumber(Math.round(cents / 100), language)}`;
+  const validUntilLabel = data.proposal.validUntil ? formatClientDate(data.proposal.validUntil, language) : null;
 
   const proposalData = {
     clientName: data.proposal.clientName,
@@ -199,7 +258,13 @@ export default function PublicProposal() {
         item.estimatedDaysLow && item.estimatedDaysHigh
           ? { low: item.estimatedDaysLow, high: item.estimatedDaysHigh }
           : { low: 1, high: 3 },
+      costTable: item.costTable,
     })),
+    terms: data.proposal.terms,
+    costTable:
+      data.proposal.costTable ??
+      (data.proposal.lineItems?.length === 1 ? data.proposal.lineItems[0].costTable : null),
+    validUntil: data.proposal.validUntil,
     ...data.proposal.options,
   };
 
@@ -209,17 +274,27 @@ export default function PublicProposal() {
         <div className="max-w-[900px] mx-auto px-4 py-4 flex items-center justify-between">
           <div>
             <h1 className="font-heading font-bold text-lg text-slate-900">
-              {data.companyInfo?.companyName || "Proposal"}
+              {data.companyInfo?.companyName || locale.messages.document.proposal}
             </h1>
             <p className="text-sm text-slate-500">
-              Proposal for {data.proposal.clientName}
+              {fillMessage(t.proposalFor, { name: data.proposal.clientName })}
+              {validUntilLabel && !isAccepted && (
+                <span data-testid="text-valid-until">
+                  {" "}· {isExpired ? t.expired : t.validUntil} {validUntilLabel}
+                </span>
+              )}
             </p>
           </div>
           <div className="flex items-center gap-3">
             {isAccepted ? (
               <div className="flex items-center gap-2 text-green-600 bg-green-50 px-4 py-2 rounded-lg border border-green-200">
                 <CheckCircle2 className="w-5 h-5" />
-                <span className="font-medium" data-testid="status-accepted">Accepted</span>
+                <span className="font-medium" data-testid="status-accepted">{t.accepted}</span>
+              </div>
+            ) : isExpired ? (
+              <div className="flex items-center gap-2 text-amber-700 bg-amber-50 px-4 py-2 rounded-lg border border-amber-200">
+                <Clock className="w-5 h-5" />
+                <span className="font-medium" data-testid="status-expired">{t.expired}</span>
               </div>
             ) : (
               <Button
@@ -228,7 +303,7 @@ export default function PublicProposal() {
                 data-testid="button-accept-proposal"
               >
                 <FileSignature className="w-4 h-4 mr-2" />
-                {t.proposal.acceptProposal}
+                {t.acceptProposal}
               </Button>
             )}
             <Button
@@ -240,12 +315,12 @@ export default function PublicProposal() {
               {isDownloading ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Generating...
+                  {t.generatingPdf}
                 </>
               ) : (
                 <>
                   <Download className="w-4 h-4 mr-2" />
-                  Download PDF
+                  {t.downloadPdf}
                 </>
               )}
             </Button>
@@ -253,49 +328,49 @@ export default function PublicProposal() {
         </div>
       </div>
 
-      {showAcceptForm && !isAccepted && (
+      {showAcceptForm && !isAccepted && !isExpired && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
             <div className="text-center mb-6">
               <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
                 <FileSignature className="w-6 h-6 text-green-600" />
               </div>
-              <h2 className="text-xl font-bold text-slate-900">Accept This Proposal</h2>
+              <h2 className="text-xl font-bold text-slate-900">{t.acceptTitle}</h2>
               <p className="text-slate-600 mt-1">
-                Please provide your information and signature to accept
+                {t.acceptSubtitle}
               </p>
             </div>
 
             <form onSubmit={handleAcceptSubmit} className="space-y-4">
               <div>
-                <Label htmlFor="accept-name">Your Full Name</Label>
+                <Label htmlFor="accept-name">{t.fullName}</Label>
                 <Input
                   id="accept-name"
                   type="text"
                   value={acceptName}
                   onChange={(e) => setAcceptName(e.target.value)}
-                  placeholder={t.proposal.signaturePlaceholder}
+                  placeholder={t.namePlaceholder}
                   required
                   data-testid="input-accept-name"
                 />
               </div>
               <div>
-                <Label htmlFor="accept-email">Your Email Address</Label>
+                <Label htmlFor="accept-email">{t.email}</Label>
                 <Input
                   id="accept-email"
                   type="email"
                   value={acceptEmail}
                   onChange={(e) => setAcceptEmail(e.target.value)}
-                  placeholder="john@example.com"
+                  placeholder={t.emailPlaceholder}
                   required
                   data-testid="input-accept-email"
                 />
               </div>
 
               <div>
-                <Label>Your Signature</Label>
+                <Label>{t.signature}</Label>
                 <p className="text-xs text-slate-500 mb-2">
-                  Draw your signature below using your mouse or finger
+                  {t.signatureHint}
                 </p>
                 <SignaturePad
                   ref={signaturePadRef}
@@ -303,14 +378,32 @@ export default function PublicProposal() {
                 />
                 {!signature && (
                   <p className="text-amber-600 text-sm mt-1" data-testid="text-signature-required">
-                    Please sign above to continue
+                    {t.signatureRequired}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="accept-consent" className="flex items-start gap-3 text-sm text-slate-600 cursor-pointer">
+                  <Checkbox
+                    id="accept-consent"
+                    checked={consent}
+                    onCheckedChange={(checked) => setConsent(checked === true)}
+                    className="mt-0.5"
+                    data-testid="checkbox-accept-consent"
+                  />
+                  <span>{locale.messages.signing.clientConsent}</span>
+                </label>
+                {signature && !consent && (
+                  <p className="text-amber-600 text-sm mt-1" data-testid="text-consent-required">
+                    {t.consentRequired}
                   </p>
                 )}
               </div>
 
               {acceptMutation.isError && (
                 <p className="text-red-600 text-sm" data-testid="text-accept-error">
-                  {acceptMutation.error?.message || t.proposal.failedToAccept}
+                  {acceptMutation.error?.message || t.failedToAccept}
                 </p>
               )}
 
@@ -321,25 +414,26 @@ export default function PublicProposal() {
                   onClick={() => {
                     setShowAcceptForm(false);
                     setSignature(null);
+                    setConsent(false);
                   }}
                   className="flex-1"
                   data-testid="button-cancel-accept"
                 >
-                  Cancel
+                  {t.cancel}
                 </Button>
                 <Button
                   type="submit"
-                  disabled={acceptMutation.isPending || !acceptName.trim() || !acceptEmail.trim() || !signature}
+                  disabled={acceptMutation.isPending || !acceptName.trim() || !acceptEmail.trim() || !signature || !consent}
                   className="flex-1 bg-green-600 hover:bg-green-700"
                   data-testid="button-confirm-accept"
                 >
                   {acceptMutation.isPending ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      {t.proposal.acceptingProposal}
+                      {t.acceptingProposal}
                     </>
                   ) : (
-                    t.proposal.acceptProposal
+                    t.acceptProposal
                   )}
                 </Button>
               </div>
@@ -355,10 +449,10 @@ export default function PublicProposal() {
               <CheckCircle2 className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" />
               <div className="flex-1">
                 <p className="font-medium text-green-800">
-                  This proposal was accepted by {data.proposal.acceptedByName}
+                  {fillMessage(t.acceptedBy, { name: data.proposal.acceptedByName ?? "" })}
                 </p>
                 <p className="text-green-700 text-sm">
-                  {new Date(data.proposal.acceptedAt).toLocaleString('en-US', {
+                  {new Date(data.proposal.acceptedAt).toLocaleString(locale.intlLocale, {
                     dateStyle: 'long',
                     timeStyle: 'short'
                   })}
@@ -367,12 +461,12 @@ export default function PublicProposal() {
             </div>
             {data.proposal.signature && (
               <div className="mt-4 pt-4 border-t border-green-200">
-                <p className="text-sm font-medium text-green-800 mb-2">Signature:</p>
+                <p className="text-sm font-medium text-green-800 mb-2">{t.signatureLabel}</p>
                 <div className="bg-white rounded-lg p-2 inline-block border border-green-200">
                   {/* eslint-disable-next-line @next/next/no-img-element */}
                   <img
                     src={data.proposal.signature}
-                    alt={t.proposal.clientSignature}
+                    alt={t.clientSignatureAlt}
                     className="max-h-20"
                     data-testid="img-signature"
                   />
@@ -383,16 +477,75 @@ export default function PublicProposal() {
         </div>
       )}
 
+      {deposit && !isExpired && (
+        <div className="max-w-[900px] mx-auto px-4 pt-6">
+          {depositPaid || returnedFromDeposit ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start gap-3" data-testid="deposit-received">
+              <CheckCircle2 className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="font-medium text-green-800">
+                  {depositPaid ? t.depositReceived : t.depositProcessing}
+                </p>
+                {depositPaid && deposit.paidAmount ? (
+                  <p className="text-green-700 text-sm">{fillMessage(t.depositPaid, { amount: formatCents(deposit.paidAmount) })}</p>
+                ) : null}
+              </div>
+            </div>
+          ) : deposit.paymentLinkUrl && deposit.amount ? (
+            <div className="bg-white border border-slate-200 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <CreditCard className="w-5 h-5 text-primary flex-shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium text-slate-900">
+                  {fillMessage(t.depositAmount, { percentage: deposit.percentage ?? 0, amount: formatCents(deposit.amount) })}
+                </p>
+                <p className="text-slate-600 text-sm">
+                  {isAccepted ? t.depositPayToSchedule : t.depositDueOnAccept}
+                </p>
+              </div>
+              {isAccepted && (
+                <Button asChild className="bg-green-600 hover:bg-green-700 text-white" data-testid="button-pay-deposit">
+                  <a href={deposit.paymentLinkUrl}>
+                    <CreditCard className="w-4 h-4 mr-2" />
+                    {t.payDeposit}
+                  </a>
+                </Button>
+              )}
+            </div>
+          ) : null}
+        </div>
+      )}
+
+      {isExpired && (
+        <div className="max-w-[900px] mx-auto px-4 pt-6">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start gap-3">
+            <Clock className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="font-medium text-amber-800">{fillMessage(t.expiredOn, { date: validUntilLabel ?? "" })}</p>
+              <p className="text-amber-700 text-sm">
+                {fillMessage(t.contactToExtend, { company: data.companyInfo?.companyName || t.theContractor })}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {data.changeLog && data.changeLog.length > 0 && (
+        <div className="max-w-[900px] mx-auto px-4 pt-6">
+          <ProposalChangeLog entries={data.changeLog} language={language} />
+        </div>
+      )}
+
       <div className="py-8 px-4">
         <ProposalPreview
           ref={previewRef}
           data={proposalData}
           companyInfo={data.companyInfo || undefined}
+          language={language}
         />
       </div>
 
       <div className="text-center py-8 text-slate-500 text-sm">
-        Powered by <span className="font-semibold">ScopeGen</span>
+        {locale.messages.document.poweredBy} <span className="font-semibold">ScopeGen</span>
       </div>
     </div>
   );
@@ -7,77 +7,29 @@ import { useState, useEffect } from "react";
 import LayoutWrapper from "@/components/layout-wrapper";
 import Link from "next/link";
 import Image from "next/image";
-import { CheckCircle2, ArrowRight, Clock, DollarSign, FileCheck, Loader2, Bath, ChefHat, Home as HomeIcon, Paintbrush, Plug, Wrench, Thermometer, TreePine, Calculator, Sparkles, Star, Users, TrendingUp, Target, FileText, HardHat, UserCheck, Building2, ChevronDown } from "lucide-react";
+import { CheckCircle2, ArrowRight, Clock, DollarSign, FileCheck, Loader2, Bath, ChefHat, Home as HomeIcon, Paintbrush, Plug, Wrench, Thermometer, TreePine, Calculator, Sparkles, Star, Users, TrendingUp, Target, FileText, HardHat, UserCheck, Building2, ChevronDown, type LucideIcon } from "lucide-react";
 import { ScopeScanTeaser } from "@/components/marketing/ScopeScanTeaser";
 import { ProposalPreviewSection } from "@/components/marketing/ProposalPreviewSection";
 import { PlanCompareTable } from "@/components/pricing/PlanCompareTable";
 import { FAQJsonLd } from "@/components/JsonLd";
 import { useLanguage } from "@/hooks/useLanguage";
 import { useQuery } from "@tanstack/react-query";
+import { getCalculatorTrades } from "@/lib/catalog";
+
+const tradeIcons: Record<string, LucideIcon> = {
+  bathroom: Bath,
+  kitchen: ChefHat,
+  painting: Paintbrush,
+  electrical: Plug,
+  plumbing: Wrench,
+  hvac: Thermometer,
+};
 
-const calculatorTrades = [
-  {
-    id: "kitchen",
-    name: "Kitchen Remodel",
-    icon: ChefHat,
-    jobTypes: [
-      { id: "full-kitchen", name: "Full Kitchen Remodel", low: 45000, high: 85000 },
-      { id: "cabinet-refresh", name: "Cabinet & Countertop Refresh", low: 8500, high: 15000 },
-      { id: "appliance-upgrade", name: "Appliance Package Install", low: 2500, high: 5000 },
-    ]
-  },
-  {
-    id: "bathroom",
-    name: "Bathroom Remodel",
-    icon: Bath,
-    jobTypes: [
-      { id: "tub-to-shower", name: "Tub-to-Shower Conversion", low: 8500, high: 12000 },
-      { id: "full-gut", name: "Full Bathroom Remodel", low: 18000, high: 28000 },
-      { id: "half-bath", name: "Half Bath / Powder Room", low: 6500, high: 9500 },
-      { id: "vanity-refresh", name: "Vanity & Faucet Replacement", low: 1800, high: 3500 },
-    ]
-  },
-  {
-    id: "electrical",
-    name: "Electrical",
-    icon: Plug,
-    jobTypes: [
-      { id: "panel-upgrade", name: "Panel Upgrade", low: 2500, high: 4500 },
-      { id: "ev-charger", name: "EV Charger Installation", low: 800, high: 2000 },
-      { id: "rewiring", name: "Whole House Rewiring", low: 8000, high: 15000 },
-    ]
-  },
-  {
-    id: "hvac",
-    name: "HVAC",
-    icon: Thermometer,
-    jobTypes: [
-      { id: "ac-install", name: "AC Unit Installation", low: 4500, high: 12000 },
-      { id: "furnace", name: "Furnace Replacement", low: 3500, high: 8000 },
-      { id: "maintenance", name: "Maintenance / Tune-Up", low: 99, high: 299 },
-    ]
-  },
-  {
-    id: "plumbing",
-    name: "Plumbing",
-    icon: Wrench,
-    jobTypes: [
-      { id: "water-heater", name: "Water Heater Replacement", low: 1800, high: 3500 },
-      { id: "repipe", name: "Whole House Repipe", low: 8000, high: 15000 },
-      { id: "drain-cleaning", name: "Drain Cleaning", low: 150, high: 500 },
-    ]
-  },
-  {
-    id: "painting",
-    name: "Painting",
-    icon: Paintbrush,
-    jobTypes: [
-      { id: "single-room", name: "Single Room (Interior)", low: 450, high: 850 },
-      { id: "whole-house", name: "Whole House Interior", low: 3500, high: 8000 },
-      { id: "exterior", name: "Exterior House Painting", low: 4000, high: 12000 },
-    ]
-  },
-];
+// Featured job types from the trade catalog shared with the full calculator
+const calculatorTrades = getCalculatorTrades({ featuredOnly: true }).map((trade) => ({
+  ...trade,
+  icon: tradeIcons[trade.id] ?? Calculator,
+}));
 
 const sizeMultipliers = {
   small: { label: "Small", multiplier: 0.75, description: "Basic scope" },
@@ -7,6 +7,9 @@ import { useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useQuery } from "@tanstack/react-query";
 import ProposalPreview from "@/components/proposal-preview";
+import { localizeProposalContent } from "@/lib/client-locale";
+import { localizeContractTerms } from "@/lib/contract-terms";
+import type { ProposalContractTerms } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import EmailProposalModal from "@/components/email-proposal-modal";
 import PaywallModal from "@/components/paywall-modal";
@@ -36,6 +39,8 @@ interface Proposal {
   status?: string;
   isUnlocked?: boolean;
   publicToken?: string | null;
+  clientLanguage?: string;
+  contractTerms?: ProposalContractTerms | null;
   lineItems?: Array<{
     id: string;
     tradeName: string;
@@ -171,7 +176,7 @@ export default function ProposalViewPage() {
   }
 
   // Transform proposal data for ProposalPreview component
-  const proposalData = {
+  const proposalData = localizeProposalContent({
     clientName: proposal.clientName,
     address: proposal.address,
     jobTypeName: proposal.jobTypeName,
@@ -198,7 +203,8 @@ export default function ProposalViewPage() {
         : { low: 1, high: 3 },
     })),
     ...proposal.options,
-  };
+    terms: localizeContractTerms(proposal.contractTerms, proposal.clientLanguage),
+  }, proposal.clientLanguage);
 
   return (
     <div className="min-h-screen bg-slate-100">
@@ -285,6 +291,7 @@ export default function ProposalViewPage() {
         <ProposalPreview
           ref={previewRef}
           data={proposalData}
+          language={proposal.clientLanguage}
         />
       </div>
 
@@ -0,0 +1,223 @@
+'use client';
+// Force dynamic rendering to prevent static generation errors
+// This page uses useAuth() which requires QueryClientProvider
+export const dynamic = 'force-dynamic';
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import LayoutWrapper from "@/components/layout-wrapper";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ArrowLeft, Copy, Pencil, Trash2, FilePlus2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { templates as generatorTemplates } from "@/lib/proposal-data";
+import TemplateEditor, { TemplateSharingSwitch } from "@/components/template-editor";
+import type { ProposalTemplate } from "@shared/schema";
+
+type CustomTemplateRow = ProposalTemplate & { isOwner: boolean };
+
+/**
+ * Contractor-owned templates: fork a built-in or team template, edit it, and
+ * share it with the Crew team. The generator and mobile drafts use them.
+ */
+export default function TemplatesSettings() {
+  const { user, isLoading: authLoading } = useAuth();
+  const [customTemplates, setCustomTemplates] = useState<CustomTemplateRow[] | null>(null);
+  const [canShare, setCanShare] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [forkTradeId, setForkTradeId] = useState("");
+  const [forkJobTypeId, setForkJobTypeId] = useState("");
+  const [busyId, setBusyId] = useState<number | "new" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await fetch("/api/templates/custom", { credentials: "include" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to load templates");
+      setCustomTemplates(data.templates);
+      setCanShare(data.canShare);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) loadTemplates();
+  }, [user, loadTemplates]);
+
+  const replaceTemplate = (template: ProposalTemplate) => {
+    setCustomTemplates((prev) => prev?.map((row) => (row.id === template.id ? { ...row, ...template } : row)) ?? null);
+  };
+
+  const fork = async (source: { templateId: number } | { tradeId: string; jobTypeId: string }, busyKey: number | "new") => {
+    setBusyId(busyKey);
+    setError(null);
+    try {
+      const response = await fetch("/api/templates/fork", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(source),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to copy template");
+      setCustomTemplates((prev) => [{ ...data, isOwner: true }, ...(prev ?? [])]);
+      setEditingId(data.id);
+      setForkJobTypeId("");
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (template: CustomTemplateRow) => {
+    if (!window.confirm(`Delete "${template.jobTypeName}"? Proposals already created from it are not affected.`)) return;
+    setBusyId(template.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, { method: "DELETE", credentials: "include" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to delete template");
+      }
+      setCustomTemplates((prev) => prev?.filter((row) => row.id !== template.id) ?? null);
+      if (editingId === template.id) setEditingId(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const forkTrade = generatorTemplates.find((trade) => trade.id === forkTradeId);
+  const ownTemplates = customTemplates?.filter((template) => template.isOwner) ?? [];
+  const teamTemplates = customTemplates?.filter((template) => !template.isOwner) ?? [];
+  const editing = ownTemplates.find((template) => template.id === editingId);
+
+  if (authLoading) {
+    return (
+      <LayoutWrapper>
+        <div className="flex justify-center py-20"><Loader2 className="w-6 h-6 animate-spin" /></div>
+      </LayoutWrapper>
+    );
+  }
+
+  return (
+    <LayoutWrapper>
+      <div className="container mx-auto max-w-4xl px-4 py-8 space-y-6">
+        <div>
+          <Link href="/settings" className="inline-flex items-center text-sm text-muted-foreground hover:underline">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Settings
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold">Proposal templates</h1>
+          <p className="text-muted-foreground">
+            Start from a built-in template, make it yours, and it shows up in the proposal generator and ScopeScan drafts.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New template</CardTitle>
+            <CardDescription>Copy a built-in template as a starting point.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2 sm:flex-row">
+            <Select value={forkTradeId} onValueChange={(value) => { setForkTradeId(value); setForkJobTypeId(""); }}>
+              <SelectTrigger className="sm:w-56"><SelectValue placeholder="Trade" /></SelectTrigger>
+              <SelectContent>
+                {generatorTemplates.map((trade) => (
+                  <SelectItem key={trade.id} value={trade.id}>{trade.trade}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={forkJobTypeId} onValueChange={setForkJobTypeId} disabled={!forkTrade}>
+              <SelectTrigger className="sm:flex-1"><SelectValue placeholder="Job type" /></SelectTrigger>
+              <SelectContent>
+                {forkTrade?.jobTypes.map((jobType) => (
+                  <SelectItem key={jobType.id} value={jobType.id}>{jobType.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => fork({ tradeId: forkTradeId, jobTypeId: forkJobTypeId }, "new")}
+              disabled={!forkJobTypeId || busyId !== null}
+              data-testid="button-fork-template"
+            >
+              {busyId === "new" ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FilePlus2 className="w-4 h-4 mr-1" />}
+              Copy and edit
+            </Button>
+          </CardContent>
+        </Card>
+
+        {editing && (
+          <TemplateEditor
+            key={`${editing.id}-${editing.version}`}
+            template={editing}
+            onSaved={replaceTemplate}
+            onClose={() => setEditingId(null)}
+          />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>My templates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!customTemplates && <Loader2 className="w-4 h-4 animate-spin" />}
+            {customTemplates && ownTemplates.length === 0 && (
+              <p className="text-sm text-muted-foreground">You haven&apos;t created any templates yet.</p>
+            )}
+            {ownTemplates.map((template) => (
+              <div key={template.id} className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <p className="font-medium">{template.jobTypeName}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {template.tradeName} · v{template.version}
+                    {!template.isActive && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <TemplateSharingSwitch template={template} canShare={canShare} onChange={replaceTemplate} />
+                  <Button variant="outline" size="sm" onClick={() => setEditingId(template.id)}>
+                    <Pencil className="w-4 h-4 mr-1" /> Edit
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(template)} disabled={busyId !== null} aria-label="Delete template">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {teamTemplates.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Shared by your team</CardTitle>
+              <CardDescription>Use them as-is in the generator, or copy one to make your own changes.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {teamTemplates.map((template) => (
+                <div key={template.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <p className="font-medium">{template.jobTypeName}</p>
+                    <p className="text-sm text-muted-foreground">{template.tradeName} · v{template.version}</p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => fork({ templateId: template.id }, template.id)} disabled={busyId !== null}>
+                    {busyId === template.id ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Copy className="w-4 h-4 mr-1" />}
+                    Copy
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </LayoutWrapper>
+  );
+}
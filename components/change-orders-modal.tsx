@@ -0,0 +1,309 @@
+'use client';
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Copy, Check, FilePlus2, Plus, Ban } from "lucide-react";
+import { formatChangeOrderNumber, formatPriceDelta } from "@/lib/change-orders/contract";
+
+interface ChangeOrderRow {
+  id: number;
+  number: number;
+  title: string;
+  priceDelta: number;
+  status: string;
+  publicToken: string;
+}
+
+interface ChangeOrdersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  proposalId: number;
+  clientName: string;
+}
+
+function formatDollars(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+// One scope item per line
+function parseScopeLines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+/**
+ * Change orders on an accepted proposal: draft a scope/price change, share the
+ * client signing link, and track the running contract total.
+ */
+export default function ChangeOrdersModal({
+  isOpen,
+  onClose,
+  proposalId,
+  clientName,
+}: ChangeOrdersModalProps) {
+  const [changeOrders, setChangeOrders] = useState<ChangeOrderRow[] | null>(null);
+  const [originalTotal, setOriginalTotal] = useState(0);
+  const [currentTotal, setCurrentTotal] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [addedScope, setAddedScope] = useState("");
+  const [removedScope, setRemovedScope] = useState("");
+  const [priceDelta, setPriceDelta] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [voidingId, setVoidingId] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChangeOrders = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/change-orders`, { credentials: "include" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to load change orders");
+      }
+      const data = await response.json();
+      setChangeOrders(data.changeOrders);
+      setOriginalTotal(data.originalTotal);
+      setCurrentTotal(data.currentTotal);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [proposalId]);
+
+  useEffect(() => {
+    if (isOpen) loadChangeOrders();
+  }, [isOpen, loadChangeOrders]);
+
+  const resetForm = () => {
+    setTitle("");
+    setDescription("");
+    setAddedScope("");
+    setRemovedScope("");
+    setPriceDelta("");
+    setShowForm(false);
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/change-orders`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          title,
+          description: description.trim() || undefined,
+          addedScope: parseScopeLines(addedScope),
+          removedScope: parseScopeLines(removedScope),
+          priceDelta: Math.round(Number(priceDelta) || 0),
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to create change order");
+      }
+      resetForm();
+      await loadChangeOrders();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVoid = async (changeOrderId: number) => {
+    setVoidingId(changeOrderId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/change-orders/${changeOrderId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to void change order");
+      }
+      await loadChangeOrders();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setVoidingId(null);
+    }
+  };
+
+  const handleCopyLink = async (changeOrder: ChangeOrderRow) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/co/${changeOrder.publicToken}`);
+    setCopiedId(changeOrder.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const visibleOrders = changeOrders?.filter((order) => order.status !== "void") ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FilePlus2 className="w-5 h-5 text-primary" />
+            Change Orders
+          </DialogTitle>
+          <DialogDescription>Contract changes for {clientName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {changeOrders === null && !error ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+            </div>
+          ) : showForm ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="change-order-title">Title</Label>
+                <Input
+                  id="change-order-title"
+                  placeholder="e.g. Upgrade to tile backsplash"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  data-testid="input-change-order-title"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="change-order-description">Description (optional)</Label>
+                <Textarea
+                  id="change-order-description"
+                  rows={2}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="change-order-added">Added scope (one per line)</Label>
+                <Textarea
+                  id="change-order-added"
+                  rows={3}
+                  value={addedScope}
+                  onChange={(e) => setAddedScope(e.target.value)}
+                  data-testid="input-change-order-added"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="change-order-removed">Removed scope (one per line)</Label>
+                <Textarea
+                  id="change-order-removed"
+                  rows={2}
+                  value={removedScope}
+                  onChange={(e) => setRemovedScope(e.target.value)}
+                  data-testid="input-change-order-removed"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="change-order-delta">Price change ($, negative for credits)</Label>
+                <Input
+                  id="change-order-delta"
+                  type="number"
+                  step={1}
+                  value={priceDelta}
+                  onChange={(e) => setPriceDelta(e.target.value)}
+                  data-testid="input-change-order-delta"
+                />
+              </div>
+              <div className="bg-slate-50 p-4 rounded-lg flex justify-between text-sm">
+                <span className="text-slate-600">Contract total if signed</span>
+                <span className="font-bold text-primary">
+                  {formatDollars(currentTotal + Math.round(Number(priceDelta) || 0))}
+                </span>
+              </div>
+            </>
+          ) : (
+            <>
+              {visibleOrders.length > 0 ? (
+                <ul className="divide-y border rounded-lg" data-testid="list-change-orders">
+                  {visibleOrders.map((changeOrder) => (
+                    <li key={changeOrder.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900 truncate">
+                          {formatChangeOrderNumber(changeOrder.number)} · {changeOrder.title}
+                        </p>
+                        <p className="text-xs uppercase text-slate-500">{changeOrder.status}</p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className="font-medium">{formatPriceDelta(changeOrder.priceDelta)}</span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleCopyLink(changeOrder)}
+                          data-testid={`button-copy-change-order-link-${changeOrder.id}`}
+                        >
+                          {copiedId === changeOrder.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                        </Button>
+                        {changeOrder.status === "pending" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleVoid(changeOrder.id)}
+                            disabled={voidingId === changeOrder.id}
+                            data-testid={`button-void-change-order-${changeOrder.id}`}
+                          >
+                            {voidingId === changeOrder.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500 text-center py-4">No change orders yet.</p>
+              )}
+
+              <div className="bg-slate-50 p-4 rounded-lg space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Original contract</span>
+                  <span>{formatDollars(originalTotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Current contract total</span>
+                  <span className="font-bold text-primary" data-testid="text-current-contract-total">
+                    {formatDollars(currentTotal)}
+                  </span>
+                </div>
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600 bg-red-50 p-2 rounded">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          {showForm ? (
+            <>
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={isSaving || !title.trim()} data-testid="button-create-change-order">
+                {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                Create change order
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => setShowForm(true)}
+                disabled={changeOrders === null}
+                data-testid="button-new-change-order"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                New change order
+              </Button>
+              <Button onClick={onClose}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { type ClientCostTable } from "@/lib/cost-breakdown";
+import { formatClientMoney, formatClientNumber, getClientMessages } from "@/lib/client-locale/locales";
+
+interface CostBreakdownTableProps {
+  table: ClientCostTable;
+  /** Client language for headings, units and amounts */
+  language?: string;
+}
+
+/**
+ * Itemized quantity x unit-cost table for a proposal or one of its services.
+ * Markup is already folded into the material and labor amounts.
+ */
+export default function CostBreakdownTable({ table, language = "en" }: CostBreakdownTableProps) {
+  if (table.rows.length === 0) return null;
+
+  const m = getClientMessages(language).costTable;
+  const formatMoney = (amount: number) => formatClientMoney(amount, language);
+
+  return (
+    <div className="mt-4 border border-slate-200 rounded-lg overflow-hidden" data-testid="table-cost-breakdown">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-slate-100 text-slate-700">
+            <th className="text-left px-3 py-2 font-semibold">{m.item}</th>
+            <th className="text-right px-3 py-2 font-semibold">{m.qty}</th>
+            <th className="text-right px-3 py-2 font-semibold">{m.materials}</th>
+            <th className="text-right px-3 py-2 font-semibold">{m.labor}</th>
+            <th className="text-right px-3 py-2 font-semibold">{m.total}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, index) => (
+            <tr key={index} className="border-t border-slate-100">
+              <td className="px-3 py-2 text-slate-800">{row.description}</td>
+              <td className="px-3 py-2 text-right text-slate-600 whitespace-nowrap">
+                {formatClientNumber(row.quantity, language)} {m.units[row.unit]}
+              </td>
+              <td className="px-3 py-2 text-right text-slate-600">{formatMoney(row.material)}</td>
+              <td className="px-3 py-2 text-right text-slate-600">{formatMoney(row.labor)}</td>
+              <td className="px-3 py-2 text-right font-medium text-slate-900">{formatMoney(row.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-slate-300 bg-slate-50 font-semibold text-slate-900">
+            <td className="px-3 py-2" colSpan={2}>{m.subtotal}</td>
+            <td className="px-3 py-2 text-right">{formatMoney(table.material)}</td>
+            <td className="px-3 py-2 text-right">{formatMoney(table.labor)}</td>
+            <td className="px-3 py-2 text-right">{formatMoney(table.total)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
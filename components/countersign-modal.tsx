@@ -8,6 +8,8 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { getClientMessages } from "@/lib/client-locale/locales";
 import { Loader2, Check, Pen, Eraser } from "lucide-react";
 
 interface CountersignModalProps {
@@ -30,6 +32,7 @@ export default function CountersignModal({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [hasSignature, setHasSignature] = useState(false);
+  const [consent, setConsent] = useState(false);
 
   useEffect(() => {
     if (isOpen && canvasRef.current) {
@@ -113,7 +116,8 @@ export default function CountersignModal({
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ signature }),
+        // The consent wording shown below is recorded server-side on the signing certificate
+        body: JSON.stringify({ signature, consent }),
       });
 
       const data = await response.json();
@@ -180,6 +184,17 @@ export default function CountersignModal({
             </div>
           </div>
 
+          <label htmlFor="countersign-consent" className="flex items-start gap-3 text-sm text-slate-600 cursor-pointer">
+            <Checkbox
+              id="countersign-consent"
+              checked={consent}
+              onCheckedChange={(checked) => setConsent(checked === true)}
+              className="mt-0.5"
+              data-testid="checkbox-countersign-consent"
+            />
+            <span>{getClientMessages("en").signing.contractorConsent}</span>
+          </label>
+
           {error && (
             <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
               {error}
@@ -196,7 +211,7 @@ export default function CountersignModal({
             </Button>
             <Button
               onClick={handleSubmit}
-              disabled={isSubmitting || !hasSignature}
+              disabled={isSubmitting || !hasSignature || !consent}
               className="gap-2"
             >
               {isSubmitting ? (
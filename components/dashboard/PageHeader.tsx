@@ -171,7 +171,7 @@ export function DashboardPageHeader({
             </Button>
 
             <Button asChild variant="ghost" className="text-slate-700">
-              <Link href="/settings">{manageTemplatesLabel}</Link>
+              <Link href="/settings/templates">{manageTemplatesLabel}</Link>
             </Button>
           </div>
         </div>
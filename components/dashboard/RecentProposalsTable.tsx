@@ -22,6 +22,9 @@ import {
   Loader2,
   ChevronLeft,
   ChevronRight,
+  Receipt,
+  FilePlus2,
+  Clock,
 } from "lucide-react";
 import { StatusBadge } from "@/components/dashboard/StatusBadge";
 
@@ -41,6 +44,7 @@ export interface ProposalRow {
   lastViewedAt?: string | null;
   paymentLinkUrl?: string | null;
   depositPercentage?: number | null;
+  validUntil?: string | null;
   isUnlocked?: boolean;
 }
 
@@ -83,6 +87,9 @@ export function RecentProposalsTable({
   onAdjustPrice,
   onCountersign,
   onPayment,
+  onInvoices,
+  onChangeOrders,
+  onExtend,
   onMarkStatus,
   onDeleteDraft,
   onUnlock,
@@ -103,6 +110,9 @@ export function RecentProposalsTable({
   onAdjustPrice: (p: ProposalRow) => void;
   onCountersign: (p: ProposalRow) => void;
   onPayment: (p: ProposalRow) => void;
+  onInvoices?: (p: ProposalRow) => void;
+  onChangeOrders?: (p: ProposalRow) => void;
+  onExtend?: (p: ProposalRow) => void;
   onMarkStatus: (p: ProposalRow, status: "won" | "lost") => void;
   onDeleteDraft: (p: ProposalRow) => void;
   onUnlock?: (p: ProposalRow) => void;
@@ -272,6 +282,8 @@ export function RecentProposalsTable({
                   const last = p.lastViewedAt || p.createdAt;
                   // const lastLabel = p.lastViewedAt ? "Viewed" : "Created";
                   const isDraft = normalizeStatus(p.status) === "draft";
+                  const isOpen = ["sent", "viewed"].includes(normalizeStatus(p.status));
+                  const isExpired = isOpen && !!p.validUntil && new Date(p.validUntil).getTime() <= Date.now();
 
                   return (
                     <tr
@@ -295,7 +307,14 @@ export function RecentProposalsTable({
                       </td>
                       <td className="px-6 py-4 text-slate-700 min-w-[200px]">{p.jobTypeName}</td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <StatusBadge status={p.status} />
+                        <div className="flex items-center gap-2">
+                          <StatusBadge status={p.status} />
+                          {isExpired && (
+                            <span className="text-xs font-medium text-amber-700" data-testid={`text-expired-${p.id}`}>
+                              Expired
+                            </span>
+                          )}
+                        </div>
                       </td>
                       <td className="px-6 py-4 font-semibold text-slate-900 whitespace-nowrap">
                         {formatCurrency(amount, locale)}
@@ -384,6 +403,33 @@ export function RecentProposalsTable({
                                 {!p.isUnlocked && <Lock className="ml-auto h-3 w-3" />}
                               </DropdownMenuItem>
                             ) : null}
+                            {onInvoices && ["accepted", "won"].includes(normalizeStatus(p.status)) ? (
+                              <DropdownMenuItem
+                                onClick={() => onInvoices(p)}
+                                data-testid={`action-invoices-${p.id}`}
+                              >
+                                <Receipt className="mr-2 h-4 w-4" />
+                                Invoices
+                              </DropdownMenuItem>
+                            ) : null}
+                            {onExtend && isOpen ? (
+                              <DropdownMenuItem
+                                onClick={() => onExtend(p)}
+                                data-testid={`action-extend-${p.id}`}
+                              >
+                                <Clock className="mr-2 h-4 w-4" />
+                                {isExpired ? "Reopen for 30 days" : "Extend 30 days"}
+                              </DropdownMenuItem>
+                            ) : null}
+                            {onChangeOrders && ["accepted", "won"].includes(normalizeStatus(p.status)) ? (
+                              <DropdownMenuItem
+                                onClick={() => onChangeOrders(p)}
+                                data-testid={`action-change-orders-${p.id}`}
+                              >
+                                <FilePlus2 className="mr-2 h-4 w-4" />
+                                Change Orders
+                              </DropdownMenuItem>
+                            ) : null}
                             <DropdownMenuItem
                               onClick={() => onMarkStatus(p, "won")}
                               disabled={!p.isUnlocked}
@@ -20,6 +20,7 @@ import {
   RefreshCw,
   Info,
   Home,
+  Download,
 } from "lucide-react";
 import { useEagleViewOrder, type RoofingMeasurements } from "@/hooks/useEagleViewOrder";
 import { cn } from "@/lib/utils";
@@ -208,6 +209,19 @@ export function EagleViewRoofMeasurements({
               View Full Report
             </Button>
           )}
+
+          {status === 'completed' && measurements && (
+            <Button variant="outline" size="sm" asChild>
+              <a
+                href={`/api/roofing/takeoff?jobId=${encodeURIComponent(jobId)}&format=csv`}
+                download
+                data-testid="button-supplier-order-csv"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Supplier Order (CSV)
+              </a>
+            </Button>
+          )}
         </div>
 
         {/* Address being measured */}
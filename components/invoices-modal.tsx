@@ -0,0 +1,290 @@
+'use client';
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Copy, Check, Receipt, Plus, Trash2, Download, Send } from "lucide-react";
+import { DEFAULT_DEPOSIT_PERCENT, DEFAULT_FINAL_MILESTONE } from "@/lib/invoices/schedule";
+
+interface InvoiceRow {
+  id: number;
+  invoiceNumber: string;
+  kind: string;
+  milestone: string;
+  amount: number;
+  status: string;
+  publicToken: string;
+}
+
+interface InvoicesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  proposalId: number;
+  clientName: string;
+  existingDepositPercentage?: number | null;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  deposit: "Deposit",
+  progress: "Progress",
+  final: "Final",
+};
+
+function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+/**
+ * Billing schedule for an accepted proposal: create the deposit / progress /
+ * final invoices, issue milestones as they are reached, and share pay links.
+ */
+export default function InvoicesModal({
+  isOpen,
+  onClose,
+  proposalId,
+  clientName,
+  existingDepositPercentage,
+}: InvoicesModalProps) {
+  const [invoices, setInvoices] = useState<InvoiceRow[] | null>(null);
+  const [contractTotal, setContractTotal] = useState(0);
+  const [depositPercent, setDepositPercent] = useState(String(existingDepositPercentage ?? DEFAULT_DEPOSIT_PERCENT));
+  const [progress, setProgress] = useState<Array<{ milestone: string; percent: string }>>([]);
+  const [finalMilestone, setFinalMilestone] = useState(DEFAULT_FINAL_MILESTONE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [issuingId, setIssuingId] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvoices = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/invoices`, { credentials: "include" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to load invoices");
+      }
+      const data = await response.json();
+      setInvoices(data.invoices);
+      setContractTotal(data.contractTotal);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [proposalId]);
+
+  useEffect(() => {
+    if (isOpen) loadInvoices();
+  }, [isOpen, loadInvoices]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/invoices`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          depositPercent: Number(depositPercent) || 0,
+          progress: progress.map((p) => ({ milestone: p.milestone, percent: Number(p.percent) || 0 })),
+          finalMilestone,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to create invoices");
+      }
+      await loadInvoices();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleIssue = async (invoiceId: number) => {
+    setIssuingId(invoiceId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/invoices/${invoiceId}/issue`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || "Failed to issue invoice");
+      }
+      await loadInvoices();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIssuingId(null);
+    }
+  };
+
+  const handleCopyLink = async (invoice: InvoiceRow) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/i/${invoice.publicToken}`);
+    setCopiedId(invoice.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const scheduledPercent =
+    (Number(depositPercent) || 0) + progress.reduce((sum, p) => sum + (Number(p.percent) || 0), 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Receipt className="w-5 h-5 text-primary" />
+            Invoices
+          </DialogTitle>
+          <DialogDescription>Billing schedule for {clientName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {invoices === null && !error ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+            </div>
+          ) : invoices && invoices.length > 0 ? (
+            <ul className="divide-y border rounded-lg" data-testid="list-invoices">
+              {invoices.map((invoice) => (
+                <li key={invoice.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900">
+                      {invoice.invoiceNumber} · {KIND_LABELS[invoice.kind] ?? invoice.kind}
+                    </p>
+                    <p className="text-slate-500 truncate">{invoice.milestone}</p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className="font-medium">{formatCents(invoice.amount)}</span>
+                    <span className="text-xs uppercase text-slate-500 w-16 text-right">{invoice.status}</span>
+                    {invoice.status === "scheduled" ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleIssue(invoice.id)}
+                        disabled={issuingId === invoice.id}
+                        data-testid={`button-issue-invoice-${invoice.id}`}
+                      >
+                        {issuingId === invoice.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleCopyLink(invoice)}
+                        data-testid={`button-copy-invoice-link-${invoice.id}`}
+                      >
+                        {copiedId === invoice.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => window.open(`/api/invoices/${invoice.id}/pdf`, "_blank")}
+                      data-testid={`button-download-invoice-${invoice.id}`}
+                    >
+                      <Download className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="invoice-deposit">Deposit (%)</Label>
+                <Input
+                  id="invoice-deposit"
+                  type="number"
+                  min={0}
+                  max={99}
+                  value={depositPercent}
+                  onChange={(e) => setDepositPercent(e.target.value)}
+                  data-testid="input-invoice-deposit"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Progress payments</Label>
+                {progress.map((payment, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      placeholder="Milestone (e.g. Rough-in complete)"
+                      value={payment.milestone}
+                      onChange={(e) =>
+                        setProgress((prev) => prev.map((p, i) => (i === index ? { ...p, milestone: e.target.value } : p)))
+                      }
+                    />
+                    <Input
+                      type="number"
+                      className="w-24"
+                      placeholder="%"
+                      value={payment.percent}
+                      onChange={(e) =>
+                        setProgress((prev) => prev.map((p, i) => (i === index ? { ...p, percent: e.target.value } : p)))
+                      }
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setProgress((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setProgress((prev) => [...prev, { milestone: "", percent: "" }])}
+                  data-testid="button-add-progress-payment"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add milestone
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="invoice-final">Final payment milestone</Label>
+                <Input
+                  id="invoice-final"
+                  value={finalMilestone}
+                  onChange={(e) => setFinalMilestone(e.target.value)}
+                />
+              </div>
+
+              <div className="bg-slate-50 p-4 rounded-lg flex justify-between text-sm">
+                <span className="text-slate-600">Final payment ({Math.max(100 - scheduledPercent, 0)}%)</span>
+                <span className="font-bold text-primary">
+                  {formatCents(Math.round(contractTotal * Math.max(100 - scheduledPercent, 0) / 100))}
+                </span>
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600 bg-red-50 p-2 rounded">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          {invoices && invoices.length === 0 ? (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={isSaving} data-testid="button-create-invoices">
+                {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+                Create invoices
+              </Button>
+            </>
+          ) : (
+            <Button onClick={onClose}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
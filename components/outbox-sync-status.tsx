@@ -0,0 +1,98 @@
+"use client";
+
+import { AlertCircle, CheckCircle, CloudOff, Loader2, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useOutbox } from "@/hooks/useOutbox";
+import { retryOutboxItem } from "@/app/m/lib/outbox";
+import type { OutboxItem } from "@/lib/mobile-outbox";
+
+const KIND_LABELS: Record<OutboxItem["kind"], string> = {
+  create_job: "Job",
+  upload_photo: "Photo",
+  update_notes: "Notes",
+  save_measurements: "Measurements",
+};
+
+/**
+ * Sync state of one queued item (photo, notes, measurements or the job itself)
+ */
+export function OutboxItemStatusBadge({
+  item,
+  online,
+  showLabel = false,
+}: {
+  item: OutboxItem;
+  online: boolean;
+  showLabel?: boolean;
+}) {
+  const label = showLabel ? `${KIND_LABELS[item.kind]}: ` : "";
+
+  if (item.status === "synced") {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-green-700" data-testid={`outbox-status-${item.id}`}>
+        <CheckCircle className="w-3 h-3" />
+        {label}Synced
+      </span>
+    );
+  }
+
+  if (item.status === "syncing") {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-blue-700" data-testid={`outbox-status-${item.id}`}>
+        <Loader2 className="w-3 h-3 animate-spin" />
+        {label}Syncing…
+      </span>
+    );
+  }
+
+  if (item.status === "failed") {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-red-700" data-testid={`outbox-status-${item.id}`}>
+        <AlertCircle className="w-3 h-3" />
+        {label}Failed{item.lastError ? ` - ${item.lastError}` : ""}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-5 px-1 text-xs"
+          onClick={() => void retryOutboxItem(item.id)}
+        >
+          <RotateCw className="w-3 h-3 mr-1" />
+          Retry
+        </Button>
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-amber-700" data-testid={`outbox-status-${item.id}`}>
+      <CloudOff className="w-3 h-3" />
+      {label}
+      {!online ? "Saved offline" : item.attempts > 0 ? `Retrying (attempt ${item.attempts + 1})` : "Queued"}
+    </span>
+  );
+}
+
+/**
+ * Header pill: offline state and how much is still waiting to sync
+ */
+export function OutboxSyncIndicator() {
+  const { summary, online } = useOutbox();
+  const waiting = summary.pending + summary.syncing;
+
+  if (online && waiting === 0 && summary.failed === 0) return null;
+
+  return (
+    <span
+      className={`text-xs px-2 py-1 rounded-full inline-flex items-center gap-1 ${
+        summary.failed > 0 ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-700"
+      }`}
+      data-testid="outbox-sync-indicator"
+    >
+      {summary.syncing > 0 ? <Loader2 className="w-3 h-3 animate-spin" /> : <CloudOff className="w-3 h-3" />}
+      {!online && "Offline"}
+      {!online && waiting > 0 && " · "}
+      {waiting > 0 && `${waiting} to sync`}
+      {summary.failed > 0 && `${waiting > 0 || !online ? " · " : ""}${summary.failed} failed`}
+    </span>
+  );
+}
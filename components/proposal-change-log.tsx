@@ -0,0 +1,80 @@
+'use client';
+import { useState } from "react";
+import { History, ChevronDown, ChevronUp } from "lucide-react";
+import { fillMessage, getClientLocale } from "@/lib/client-locale/locales";
+
+export interface ProposalChangeLogEntry {
+  revisionNumber: number;
+  createdAt: string | null;
+  changes: string[];
+}
+
+interface ProposalChangeLogProps {
+  entries: ProposalChangeLogEntry[];
+  /** Client language; change descriptions arrive already localized */
+  language?: string;
+}
+
+/**
+ * "What changed" panel for the public proposal page.
+ * Lists every revision made after the proposal was originally sent, newest first.
+ */
+export default function ProposalChangeLog({ entries, language = "en" }: ProposalChangeLogProps) {
+  const [expanded, setExpanded] = useState(true);
+  const locale = getClientLocale(language);
+  const m = locale.messages.changeLog;
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg" data-testid="panel-change-log">
+      <button
+        type="button"
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center justify-between gap-3 p-4 text-left"
+        data-testid="button-toggle-change-log"
+      >
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-amber-600 flex-shrink-0" />
+          <div>
+            <p className="font-medium text-amber-900">{m.whatChanged}</p>
+            <p className="text-amber-700 text-sm">
+              {fillMessage(entries.length === 1 ? m.updatedOnce : m.updatedTimes, { count: entries.length })}
+            </p>
+          </div>
+        </div>
+        {expanded ? (
+          <ChevronUp className="w-5 h-5 text-amber-600" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-amber-600" />
+        )}
+      </button>
+
+      {expanded && (
+        <ol className="border-t border-amber-200 divide-y divide-amber-100">
+          {entries.map((entry) => (
+            <li key={entry.revisionNumber} className="p-4" data-testid={`change-log-revision-${entry.revisionNumber}`}>
+              <p className="text-sm font-medium text-amber-900">
+                {fillMessage(m.revision, { number: entry.revisionNumber })}
+                {entry.createdAt && (
+                  <span className="font-normal text-amber-700">
+                    {" "}&middot;{" "}
+                    {new Date(entry.createdAt).toLocaleString(locale.intlLocale, {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                    })}
+                  </span>
+                )}
+              </p>
+              <ul className="mt-2 space-y-1 text-sm text-amber-800 list-disc pl-5">
+                {entry.changes.map((change, i) => (
+                  <li key={i}>{change}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
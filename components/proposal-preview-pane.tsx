@@ -108,6 +108,8 @@ interface ProposalPreviewPaneProps {
   emptyStateDescription?: string;
   /** Additional class name for the container */
   className?: string;
+  /** Client language the proposal is rendered in */
+  language?: string;
 }
 
 export interface ProposalPreviewPaneHandle {
@@ -144,6 +146,7 @@ const ProposalPreviewPane = forwardRef<ProposalPreviewPaneHandle, ProposalPrevie
       emptyStateTitle = 'Ready to Start',
       emptyStateDescription = 'Fill in the form details to see a live preview of your proposal.',
       className,
+      language,
     },
     ref
   ) => {
@@ -210,11 +213,12 @@ const ProposalPreviewPane = forwardRef<ProposalPreviewPaneHandle, ProposalPrevie
               companyInfo={companyInfo}
               photos={photos}
               showPhotos={showPhotos}
+              language={language}
             />
           </div>
         );
       },
-      [isLoading, hasValidServices, previewDataWithPlaceholders, companyInfo, photos, showPhotos, EmptyState]
+      [isLoading, hasValidServices, previewDataWithPlaceholders, companyInfo, photos, showPhotos, language, EmptyState]
     );
 
     // Don't render anything if not visible
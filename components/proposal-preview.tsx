@@ -17,6 +17,9 @@ import {
   type ScopeSection,
   type LineItem,
 } from "./proposal-types";
+import CostBreakdownTable from "@/components/cost-breakdown-table";
+import { type ClientCostTable } from "@/lib/cost-breakdown";
+import { fillMessage, formatClientDate, formatClientNumber, getClientMessages } from "@/lib/client-locale/locales";
 
 // Local interfaces removed in favor of shared types in ./proposal-types.ts
 
@@ -46,6 +49,12 @@ interface ProposalPreviewProps {
       multiplier: number;
     } | null;
     lineItems?: LineItem[];
+    /** Optional: Itemized quantity x unit-cost table (single-service) */
+    costTable?: ClientCostTable | null;
+    /** Optional: Expiry date (ISO string) once the proposal has been sent */
+    validUntil?: string | null;
+    /** Optional: Attached state terms (see localizeContractTerms); defaults to the generic terms */
+    terms?: Array<{ id: string; title: string; body: string }>;
   };
   blurred?: boolean;
   onUnlock?: () => void;
@@ -56,15 +65,18 @@ interface ProposalPreviewProps {
   showPhotos?: boolean;
   /** Whether the user has Pro features (e-signature, custom logo) */
   isPro?: boolean;
+  /** Client language for the document's labels; content is shown as passed */
+  language?: string;
 }
 
 const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
-  ({ data, companyInfo, photos = [], showPhotos = true, blurred = false, onUnlock, isPro = false }, ref) => {
-    const today = new Date().toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+  ({ data, companyInfo, photos = [], showPhotos = true, blurred = false, onUnlock, isPro = false, language = "en" }, ref) => {
+    const m = getClientMessages(language);
+    const dateOptions: Intl.DateTimeFormatOptions = { year: "numeric", month: "long", day: "numeric" };
+    // The English date seeds the proposal number so it doesn't change with the language
+    const today = new Date().toLocaleDateString("en-US", dateOptions);
+    const todayLabel = formatClientDate(new Date(), language, dateOptions);
+    const formatDollars = (amount: number) => `$${formatClientNumber(amount, language)}`;
 
     const proposalNumber = (() => {
       const seed = `${data.clientName ?? ""}|${data.address ?? ""}|${today}`;
@@ -76,6 +88,7 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
     })();
 
     const hasMultipleServices = data.lineItems && data.lineItems.length > 1;
+    const validUntilLabel = data.validUntil ? formatClientDate(data.validUntil, language) : null;
     // Memoize lineItems to prevent useMemo dependency issues
     const lineItems = useMemo(() => data.lineItems || [], [data.lineItems]);
 
@@ -108,7 +121,7 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
         {/* Header */}
         <div className="flex justify-between items-start border-b-2 border-slate-900 pb-6 mb-8">
           <div>
-            <h1 className="text-3xl font-heading font-bold text-slate-900 uppercase tracking-wide">Proposal</h1>
+            <h1 className="text-3xl font-heading font-bold text-slate-900 uppercase tracking-wide">{m.document.proposal}</h1>
             <p className="text-slate-500 mt-1">#{proposalNumber}</p>
           </div>
           <div className="text-right flex items-start gap-4 justify-end">
@@ -156,21 +169,21 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
         {/* Client Info */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-8 mb-8">
           <div>
-            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Prepared For</h3>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{m.document.preparedFor}</h3>
             <div className="font-bold text-lg" data-testid="preview-client-name">{data.clientName || "Client Name"}</div>
             <div className="text-slate-600" data-testid="preview-address">{data.address || "123 Client Street"}</div>
           </div>
           <div className="sm:text-right">
-            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Date</h3>
-            <div>{today}</div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{m.document.date}</h3>
+            <div>{todayLabel}</div>
             <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1 mt-4">
-              {hasMultipleServices ? "Proposal Type" : "Job Type"}
+              {hasMultipleServices ? m.document.proposalType : m.document.jobType}
             </h3>
             <div className="font-medium" data-testid="preview-job-type">
               {hasMultipleServices ? (
                 <span className="flex items-center sm:justify-end gap-1">
                   <Layers className="w-4 h-4" />
-                  Multi-Service Proposal
+                  {m.document.multiServiceProposal}
                 </span>
               ) : (
                 data.jobTypeName || "General Contracting"
@@ -184,11 +197,11 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
           <div className="mb-6 flex items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg px-4 py-3">
             <Clock className="w-5 h-5 text-blue-600 shrink-0" />
             <div>
-              <span className="font-bold text-blue-900">Estimated Timeline: </span>
+              <span className="font-bold text-blue-900">{m.document.estimatedTimeline}: </span>
               <span className="text-blue-800">
                 {data.estimatedDays.low === data.estimatedDays.high
-                  ? `${data.estimatedDays.low} working day${data.estimatedDays.low > 1 ? 's' : ''}`
-                  : `${data.estimatedDays.low}-${data.estimatedDays.high} working days`
+                  ? fillMessage(data.estimatedDays.low > 1 ? m.document.workingDays : m.document.workingDay, { days: data.estimatedDays.low })
+                  : fillMessage(m.document.workingDays, { days: `${data.estimatedDays.low}-${data.estimatedDays.high}` })
                 }
               </span>
             </div>
@@ -208,15 +221,15 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
           <div className="mb-8">
             <h2 className="text-lg font-heading font-bold text-white bg-slate-900 px-3 py-1 inline-block mb-4">
               <Layers className="w-4 h-4 inline mr-2 -mt-0.5" />
-              Services Included
+              {m.document.servicesIncluded}
             </h2>
             <div className="border border-slate-200 rounded-lg overflow-hidden">
               <table className="w-full text-sm">
                 <thead className="bg-slate-100">
                   <tr>
-                    <th className="text-left py-3 px-4 font-bold text-slate-700">Service</th>
-                    <th className="text-center py-3 px-4 font-bold text-slate-700">Est. Days</th>
-                    <th className="text-right py-3 px-4 font-bold text-slate-700">Price</th>
+                    <th className="text-left py-3 px-4 font-bold text-slate-700">{m.document.service}</th>
+                    <th className="text-center py-3 px-4 font-bold text-slate-700">{m.document.estDays}</th>
+                    <th className="text-right py-3 px-4 font-bold text-slate-700">{m.document.price}</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -237,7 +250,7 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
                         {(() => {
                           const low = item.priceLow ?? item.priceRange.low;
                           const high = item.priceHigh ?? item.priceRange.high;
-                          return `$${Math.round((low + high) / 2).toLocaleString()}`;
+                          return formatDollars(Math.round((low + high) / 2));
                         })()}
                       </td>
                     </tr>
@@ -245,7 +258,7 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
                 </tbody>
                 <tfoot className="bg-blue-50 border-t-2 border-primary">
                   <tr>
-                    <td className="py-3 px-4 font-bold text-slate-900">Total</td>
+                    <td className="py-3 px-4 font-bold text-slate-900">{m.document.total}</td>
                     <td className="py-3 px-4 text-center font-bold text-slate-900">
                       {(() => {
                         const totalDaysLow = lineItems.reduce((sum, item) => sum + (item.estimatedDaysLow ?? item.estimatedDays.low), 0);
@@ -254,13 +267,13 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
                       })()}
                     </td>
                     <td className="py-3 px-4 text-right font-bold text-lg text-primary">
-                      ${(() => {
+                      {(() => {
                         const totalPrice = lineItems.reduce((sum, item) => {
                           const low = item.priceLow ?? item.priceRange.low;
                           const high = item.priceHigh ?? item.priceRange.high;
                           return sum + Math.round((low + high) / 2);
                         }, 0);
-                        return totalPrice.toLocaleString();
+                        return formatDollars(totalPrice);
                       })()}
                     </td>
                   </tr>
@@ -273,11 +286,11 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
         {/* Scope of Work - Show by service for multi-service */}
         {hasMultipleServices ? (
           <div className="mb-8">
-            <h2 className="text-lg font-heading font-bold text-white bg-slate-900 px-3 py-1 inline-block mb-4">Detailed Scope of Work</h2>
+            <h2 className="text-lg font-heading font-bold text-white bg-slate-900 px-3 py-1 inline-block mb-4">{m.document.detailedScopeOfWork}</h2>
 
             <div className="space-y-6">
               <p className="italic text-slate-600">
-                We propose to furnish all materials and perform all labor necessary to complete the following:
+                {m.document.scopeIntro}
               </p>
 
               {lineItems.map((item, serviceIndex) => {
@@ -332,6 +345,8 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
                         ))}
                       </ul>
                     )}
+
+                    {item.costTable && <CostBreakdownTable table={item.costTable} language={language} />}
                   </div>
                 );
               })}
@@ -340,11 +355,11 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
         ) : (
           /* Single Service Scope of Work */
           <div className="mb-8">
-            <h2 className="text-lg font-heading font-bold text-white bg-slate-900 px-3 py-1 inline-block mb-4">Scope of Work</h2>
+            <h2 className="text-lg font-heading font-bold text-white bg-slate-900 px-3 py-1 inline-block mb-4">{m.document.scopeOfWork}</h2>
 
             <div className="space-y-4">
               <p className="italic text-slate-600">
-                We propose to furnish all materials and perform all labor necessary to complete the following:
+                {m.document.scopeIntro}
               </p>
 
               {/* Inline scope photos for single service (show first matching photos) */}
@@ -407,7 +422,7 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
           <div className="mb-8">
             <h2 className="text-lg font-heading font-bold text-white bg-green-700 px-3 py-1 inline-block mb-4">
               <CheckCircle2 className="w-4 h-4 inline mr-2 -mt-0.5" />
-              Included
+              {m.document.included}
             </h2>
             <div className="bg-green-50 border border-green-200 rounded-lg p-4">
               <ul className="list-disc pl-5 space-y-1.5 text-green-800" data-testid="preview-included-list">
@@ -424,10 +439,10 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
           <div className="mb-8">
             <h2 className="text-lg font-heading font-bold text-white bg-blue-600 px-3 py-1 inline-block mb-4">
               <FileQuestion className="w-4 h-4 inline mr-2 -mt-0.5" />
-              Assumptions
+              {m.document.assumptions}
             </h2>
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-              <p className="text-sm text-blue-900 mb-3">This proposal is based on the following assumptions:</p>
+              <p className="text-sm text-blue-900 mb-3">{m.document.assumptionsIntro}</p>
               <ul className="list-disc pl-5 space-y-1.5 text-blue-800" data-testid="preview-assumptions-list">
                 {data.assumptions.map((item: string, i: number) => (
                   <li key={i}>{item}</li>
@@ -442,10 +457,10 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
           <div className="mb-8">
             <h2 className="text-lg font-heading font-bold text-white bg-purple-600 px-3 py-1 inline-block mb-4">
               <Plus className="w-4 h-4 inline mr-2 -mt-0.5" />
-              Available Add-ons
+              {m.document.addons}
             </h2>
             <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
-              <p className="text-sm text-purple-900 mb-3">Optional upgrades available upon request:</p>
+              <p className="text-sm text-purple-900 mb-3">{m.document.addonsIntro}</p>
               <ul className="list-disc pl-5 space-y-1.5 text-purple-800" data-testid="preview-addons-list">
                 {data.addons.map((item: string, i: number) => (
                   <li key={i}>{item}</li>
@@ -460,10 +475,10 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
           <div className="mb-8">
             <h2 className="text-lg font-heading font-bold text-white bg-amber-600 px-3 py-1 inline-block mb-4">
               <AlertCircle className="w-4 h-4 inline mr-2 -mt-0.5" />
-              Not Included
+              {m.document.notIncluded}
             </h2>
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
-              <p className="text-sm text-amber-900 mb-3">The following items are not included in this proposal and may require separate pricing:</p>
+              <p className="text-sm text-amber-900 mb-3">{m.document.notIncludedIntro}</p>
               <ul className="list-disc pl-5 space-y-1.5 text-amber-800">
                 {data.exclusions.map((item: string, i: number) => (
                   <li key={i}>{item}</li>
@@ -476,17 +491,23 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
         {/* Pricing - Only show for single service (multi-service shows in table) */}
         {!hasMultipleServices && (
           <div className="mb-8 break-inside-avoid">
-            <h2 className="text-lg font-heading font-bold text-white bg-slate-900 px-3 py-1 inline-block mb-4">Investment</h2>
+            <h2 className="text-lg font-heading font-bold text-white bg-slate-900 px-3 py-1 inline-block mb-4">{m.document.investment}</h2>
+
+            {data.costTable && (
+              <div className="mb-4">
+                <CostBreakdownTable table={data.costTable} language={language} />
+              </div>
+            )}
 
             <div className="border border-slate-200 rounded-lg p-6 bg-slate-50">
               <div className="flex justify-between items-end mb-2">
-                <span className="font-bold text-slate-700">Total Project Estimate</span>
+                <span className="font-bold text-slate-700">{m.document.totalProjectEstimate}</span>
                 <span className="text-2xl font-bold text-slate-900" data-testid="preview-total-price">
-                  ${Math.round(((data.priceRange?.low ?? 0) + (data.priceRange?.high ?? 0)) / 2).toLocaleString()}
+                  {formatDollars(Math.round(((data.priceRange?.low ?? 0) + (data.priceRange?.high ?? 0)) / 2))}
                 </span>
               </div>
               <p className="text-xs text-slate-500">
-                *Price includes all labor, materials, and taxes as specified above. Valid for 30 days.
+                {m.document.priceNote} {validUntilLabel ? fillMessage(m.document.validUntil, { date: validUntilLabel }) : m.document.validFor30Days}
               </p>
             </div>
           </div>
@@ -497,7 +518,7 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
           <div className="mb-8">
             <h2 className="text-lg font-heading font-bold text-white bg-green-700 px-3 py-1 inline-block mb-4">
               <Shield className="w-4 h-4 inline mr-2 -mt-0.5" />
-              Warranty
+              {m.document.warranty}
             </h2>
             <div className="bg-green-50 border border-green-200 rounded-lg p-4">
               <p className="text-green-800">{data.warranty}</p>
@@ -507,13 +528,18 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
 
         {/* Terms & Conditions */}
         <div className="mb-8 text-xs text-slate-500">
-          <h3 className="font-bold text-slate-700 mb-2 uppercase tracking-wider">Terms & Conditions</h3>
+          <h3 className="font-bold text-slate-700 mb-2 uppercase tracking-wider">{m.document.termsAndConditions}</h3>
           <ol className="list-decimal pl-4 space-y-1">
-            <li>Payment terms: 50% deposit due upon acceptance, balance due upon completion.</li>
-            <li>Any changes to the scope of work may result in additional charges.</li>
-            <li>Work schedule subject to weather conditions and material availability.</li>
-            <li>Customer to provide access to work area and utilities as needed.</li>
-            <li>All permits to be obtained by contractor unless otherwise specified.</li>
+            {data.terms
+              ? data.terms.map((term) => (
+                <li key={term.id}>
+                  {term.title && <span className="font-semibold text-slate-700">{term.title}: </span>}
+                  {term.body}
+                </li>
+              ))
+              : m.document.terms.map((term, i) => (
+                <li key={i}>{term}</li>
+              ))}
           </ol>
         </div>
 
@@ -521,7 +547,7 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
         {hasPhotos && organizedPhotos.appendix.length > 0 && (
           <AppendixGallery
             photos={organizedPhotos.appendix}
-            title="Photo Appendix"
+            title={m.document.photoAppendix}
           />
         )}
 
@@ -530,18 +556,20 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
           <div className="mt-12 pt-8 border-t border-slate-200 grid grid-cols-1 sm:grid-cols-2 gap-8 sm:gap-12">
             <div>
               <div className="h-12 border-b border-slate-900 mb-2"></div>
-              <div className="text-xs font-bold uppercase text-slate-500">Contractor Signature</div>
+              <div className="text-xs font-bold uppercase text-slate-500">{m.document.contractorSignature}</div>
             </div>
             <div>
               <div className="h-12 border-b border-slate-900 mb-2"></div>
-              <div className="text-xs font-bold uppercase text-slate-500">Client Signature</div>
+              <div className="text-xs font-bold uppercase text-slate-500">{m.document.clientSignature}</div>
             </div>
           </div>
         )}
 
         {/* Acceptance Date */}
         <div className="mt-6 text-center text-xs text-slate-400">
-          This proposal is valid for 30 days from the date above.
+          {validUntilLabel
+            ? fillMessage(m.document.validUntilFooter, { date: validUntilLabel })
+            : m.document.validFor30DaysFooter}
         </div>
 
         {/* Powered by ScopeGen Footer */}
@@ -553,10 +581,10 @@ const ProposalPreview = forwardRef<HTMLDivElement, ProposalPreviewProps>(
             href="/"
             className="text-xs text-slate-400 hover:text-slate-600 transition-colors"
           >
-            Powered by <span className="font-semibold">ScopeGen</span>
+            {m.document.poweredBy} <span className="font-semibold">ScopeGen</span>
           </Link>
           <p className="text-[10px] text-slate-300 mt-1">
-            Professional proposals in seconds
+            {m.document.tagline}
           </p>
         </div>
 
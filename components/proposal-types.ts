@@ -1,4 +1,5 @@
 import { type ProposalPhoto } from './proposal-photos';
+import { type ClientCostTable } from '@/lib/cost-breakdown';
 
 export interface CompanyInfo {
     companyName?: string | null;
@@ -40,6 +41,8 @@ export interface LineItem {
     estimatedDaysHigh?: number;
     warranty?: string;
     exclusions?: string[];
+    /** Optional: Itemized quantity x unit-cost table */
+    costTable?: ClientCostTable | null;
 }
 
 export interface ProposalPreviewData {
@@ -66,5 +69,9 @@ export interface ProposalPreviewData {
         multiplier: number;
     } | null;
     lineItems?: LineItem[];
+    /** Optional: Itemized quantity x unit-cost table (single-service) */
+    costTable?: ClientCostTable | null;
+    /** Optional: Expiry date (ISO string) once the proposal has been sent */
+    validUntil?: string | null;
     photos?: ProposalPhoto[];
 }
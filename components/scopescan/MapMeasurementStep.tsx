@@ -1,8 +1,9 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { GoogleMap, useJsApiLoader } from "@react-google-maps/api";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -12,53 +13,62 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Loader2, Undo2, Trash2, CheckCircle, Ruler, Square } from "lucide-react";
+import {
+  Loader2,
+  Undo2,
+  Trash2,
+  CheckCircle,
+  Ruler,
+  Square,
+  Plus,
+  Minus,
+  Scissors,
+  DoorOpen,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { GOOGLE_MAPS_LIBRARIES, GOOGLE_MAPS_LOADER_ID } from "@/lib/google-maps-config";
+import {
+  AREA_MATERIALS,
+  AREA_THICKNESS_OPTIONS,
+  FENCE_MATERIALS,
+  buildMeasurementSession,
+  createSegment,
+  getMaterialLabel,
+  getSegmentQuantity,
+  isSegmentMeasured,
+  planarGeometry,
+  recomputeSegment,
+  type LatLngPoint,
+  type MeasurementGeometry,
+  type MeasurementSegment,
+  type MeasurementSession,
+  type MeasurementTrade,
+} from "@/src/lib/mobile/measurements/session";
+
+export type { LatLngPoint, MeasurementSession, MeasurementTrade } from "@/src/lib/mobile/measurements/session";
 
 // ============ Types ============
 
-export type MeasurementTrade = "fence" | "driveway";
-
-export interface LatLngPoint {
-  lat: number;
-  lng: number;
-}
-
-export interface FenceMeasurements {
-  fenceLinePoints: LatLngPoint[];
-  fenceLF: number; // linear feet
-}
-
-export interface DrivewayMeasurements {
-  drivewayPolygonPoints: LatLngPoint[];
-  drivewaySF: number; // square feet
-  drivewayPerimeterLF: number; // linear feet
-  drivewayThicknessIn: number; // 4, 5, or 6 inches
-  drivewayCY: number; // cubic yards with waste factor
-}
-
-export type Measurements = FenceMeasurements | DrivewayMeasurements;
-
 export interface MapMeasurementStepProps {
   trade: MeasurementTrade;
   initialAddressLatLng: LatLngPoint;
-  onMeasurementsChange: (measurements: Measurements | null) => void;
-  onFinish?: (measurements: Measurements) => void;
+  // Session saved on the job, if any (parse with parseMeasurementSession)
+  initialSession?: MeasurementSession | null;
+  onSessionChange: (session: MeasurementSession) => void;
+  onFinish?: (session: MeasurementSession) => void;
 }
 
+type DrawTarget = "outline" | "cutout";
+type Overlay = google.maps.Polyline | google.maps.Polygon;
+
 // ============ Constants ============
 
 const METERS_TO_FEET = 3.28084;
 const SQ_METERS_TO_SQ_FEET = 10.7639;
-const WASTE_FACTOR = 1.10; // 10% waste
 
-const STORAGE_KEYS = {
-  fence: "scopescan_draft_fence",
-  driveway: "scopescan_draft_driveway",
-} as const;
-
-const DEFAULT_THICKNESS = 4; // inches
+const ACTIVE_COLOR = "#FF6B00";
+const INACTIVE_COLOR = "#94A3B8";
+const CUTOUT_COLOR = "#DC2626";
 
 const mapContainerStyle = {
   width: "100%",
@@ -67,48 +77,6 @@ const mapContainerStyle = {
 
 // ============ Utility Functions ============
 
-/**
- * Compute length in feet from a path using Google's geometry library
- */
-function computePathLengthFeet(path: google.maps.LatLng[]): number {
-  if (path.length < 2) return 0;
-  const lengthMeters = google.maps.geometry.spherical.computeLength(path);
-  return lengthMeters * METERS_TO_FEET;
-}
-
-/**
- * Compute polygon area in sq ft using Google's geometry library
- */
-function computePolygonAreaSqFt(path: google.maps.LatLng[]): number {
-  if (path.length < 3) return 0;
-  const areaM2 = google.maps.geometry.spherical.computeArea(path);
-  return areaM2 * SQ_METERS_TO_SQ_FEET;
-}
-
-/**
- * Compute polygon perimeter in feet
- */
-function computePolygonPerimeterFeet(path: google.maps.LatLng[]): number {
-  if (path.length < 3) return 0;
-  // Close the polygon by adding first point at end
-  const closedPath = [...path, path[0]];
-  return computePathLengthFeet(closedPath);
-}
-
-/**
- * Compute cubic yards for concrete given area and thickness
- */
-function computeCubicYards(
-  sqFt: number,
-  thicknessInches: number
-): number {
-  const thicknessFeet = thicknessInches / 12;
-  const cubicFeet = sqFt * thicknessFeet;
-  const cubicYards = cubicFeet / 27;
-  const withWaste = cubicYards * WASTE_FACTOR;
-  return Math.round(withWaste * 10) / 10; // Round to 0.1
-}
-
 /**
  * Convert LatLngPoint array to google.maps.LatLng array
  */
@@ -127,159 +95,54 @@ function toLatLngPointArray(
 }
 
 /**
- * Fallback planar distance calculation for tests without Google Maps loaded
- */
-function planarDistanceMeters(p1: LatLngPoint, p2: LatLngPoint): number {
-  const R = 6371000; // Earth radius in meters
-  const lat1 = (p1.lat * Math.PI) / 180;
-  const lat2 = (p2.lat * Math.PI) / 180;
-  const dLat = lat2 - lat1;
-  const dLng = ((p2.lng - p1.lng) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-/**
- * Fallback planar polygon area using Shoelace formula
- */
-function planarPolygonAreaM2(points: LatLngPoint[]): number {
-  if (points.length < 3) return 0;
-  // Convert to approximate meters using center point
-  const centerLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
-  const mPerDegLat = 111320;
-  const mPerDegLng = 111320 * Math.cos((centerLat * Math.PI) / 180);
-  
-  const coords = points.map((p) => ({
-    x: p.lng * mPerDegLng,
-    y: p.lat * mPerDegLat,
-  }));
-  
-  let area = 0;
-  for (let i = 0; i < coords.length; i++) {
-    const j = (i + 1) % coords.length;
-    area += coords[i].x * coords[j].y;
-    area -= coords[j].x * coords[i].y;
-  }
-  return Math.abs(area / 2);
-}
-
-/**
- * Compute fence measurements from points (with fallback for tests)
+ * Spherical geometry from Google's geometry library; planar fallback for tests
+ * and before the library has loaded
  */
-export function computeFenceMeasurements(points: LatLngPoint[]): FenceMeasurements {
-  let lengthFeet = 0;
-  
-  if (typeof google !== "undefined" && google.maps?.geometry?.spherical) {
-    const path = toGoogleLatLngArray(points);
-    lengthFeet = computePathLengthFeet(path);
-  } else {
-    // Fallback for tests
-    for (let i = 0; i < points.length - 1; i++) {
-      lengthFeet += planarDistanceMeters(points[i], points[i + 1]) * METERS_TO_FEET;
-    }
+function getGeometry(): MeasurementGeometry {
+  if (typeof google === "undefined" || !google.maps?.geometry?.spherical) {
+    return planarGeometry;
   }
-  
   return {
-    fenceLinePoints: points,
-    fenceLF: Math.round(lengthFeet * 10) / 10,
+    pathLengthFeet: (points) =>
+      points.length < 2
+        ? 0
+        : google.maps.geometry.spherical.computeLength(toGoogleLatLngArray(points)) * METERS_TO_FEET,
+    polygonAreaSqFt: (points) =>
+      points.length < 3
+        ? 0
+        : google.maps.geometry.spherical.computeArea(toGoogleLatLngArray(points)) * SQ_METERS_TO_SQ_FEET,
   };
 }
 
-/**
- * Compute driveway measurements from points (with fallback for tests)
- */
-export function computeDrivewayMeasurements(
-  points: LatLngPoint[],
-  thicknessIn: number = DEFAULT_THICKNESS
-): DrivewayMeasurements {
-  let areaSqFt = 0;
-  let perimeterFeet = 0;
-  
-  if (typeof google !== "undefined" && google.maps?.geometry?.spherical) {
-    const path = toGoogleLatLngArray(points);
-    areaSqFt = computePolygonAreaSqFt(path);
-    perimeterFeet = computePolygonPerimeterFeet(path);
-  } else {
-    // Fallback for tests
-    areaSqFt = planarPolygonAreaM2(points) * SQ_METERS_TO_SQ_FEET;
-    for (let i = 0; i < points.length; i++) {
-      const j = (i + 1) % points.length;
-      perimeterFeet += planarDistanceMeters(points[i], points[j]) * METERS_TO_FEET;
-    }
-  }
-  
-  const cy = computeCubicYards(areaSqFt, thicknessIn);
-  
-  return {
-    drivewayPolygonPoints: points,
-    drivewaySF: Math.round(areaSqFt * 10) / 10,
-    drivewayPerimeterLF: Math.round(perimeterFeet * 10) / 10,
-    drivewayThicknessIn: thicknessIn,
-    drivewayCY: cy,
-  };
+function newSegmentId(): string {
+  return `seg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
 }
 
-// ============ Local Storage ============
-
-function loadDraftFromStorage(trade: MeasurementTrade): Measurements | null {
-  if (typeof window === "undefined") return null;
-  
-  try {
-    const raw = localStorage.getItem(STORAGE_KEYS[trade]);
-    if (!raw) return null;
-    return JSON.parse(raw);
-  } catch {
-    return null;
-  }
+function cutoutKey(segmentId: string, index: number): string {
+  return `${segmentId}:cutout:${index}`;
 }
 
-function saveDraftToStorage(trade: MeasurementTrade, measurements: Measurements | null): void {
-  if (typeof window === "undefined") return;
-  
-  try {
-    if (measurements) {
-      localStorage.setItem(STORAGE_KEYS[trade], JSON.stringify(measurements));
-    } else {
-      localStorage.removeItem(STORAGE_KEYS[trade]);
-    }
-  } catch (e) {
-    console.error("Failed to save draft:", e);
-  }
-}
-
-function clearDraftFromStorage(trade: MeasurementTrade): void {
-  if (typeof window === "undefined") return;
-  
-  try {
-    localStorage.removeItem(STORAGE_KEYS[trade]);
-  } catch {
-    // Ignore
-  }
+function formatQuantity(segment: MeasurementSegment): string {
+  const { value, unit } = getSegmentQuantity(segment);
+  return `${value.toLocaleString()} ${unit === "LF" ? "ft" : "sq ft"}`;
 }
 
 // ============ Test Hooks ============
 
-// Expose test hooks for Playwright testing
-if (typeof window !== "undefined") {
-  // These will be set by the component
-  (window as Window & {
-    __setFenceLinePoints?: (points: LatLngPoint[]) => void;
-    __setDrivewayPolygonPoints?: (points: LatLngPoint[]) => void;
-  }).__setFenceLinePoints = undefined;
-  (window as Window & {
-    __setDrivewayPolygonPoints?: (points: LatLngPoint[]) => void;
-  }).__setDrivewayPolygonPoints = undefined;
-}
+// Expose test hooks for Playwright testing; they set the active segment's shape
+type TestHookWindow = Window & {
+  __setFenceLinePoints?: (points: LatLngPoint[]) => void;
+  __setDrivewayPolygonPoints?: (points: LatLngPoint[]) => void;
+  __addMeasurementCutout?: (points: LatLngPoint[]) => void;
+};
 
 // ============ Component ============
 
 export default function MapMeasurementStep({
   trade,
   initialAddressLatLng,
-  onMeasurementsChange,
+  initialSession,
+  onSessionChange,
   onFinish,
 }: MapMeasurementStepProps) {
   const { isLoaded, loadError } = useJsApiLoader({
@@ -288,226 +151,246 @@ export default function MapMeasurementStep({
     libraries: GOOGLE_MAPS_LIBRARIES,
   });
 
+  const isFence = trade === "fence";
+
   const mapRef = useRef<google.maps.Map | null>(null);
   const drawingManagerRef = useRef<google.maps.drawing.DrawingManager | null>(null);
-  const polylineRef = useRef<google.maps.Polyline | null>(null);
-  const polygonRef = useRef<google.maps.Polygon | null>(null);
+  // Outlines keyed by segment id, cut-outs by cutoutKey()
+  const overlaysRef = useRef(new Map<string, Overlay>());
+  const [mapReady, setMapReady] = useState(false);
 
   // State
-  const [measurements, setMeasurements] = useState<Measurements | null>(null);
-  const [thickness, setThickness] = useState<number>(DEFAULT_THICKNESS);
+  const [segments, setSegments] = useState<MeasurementSegment[]>(() =>
+    initialSession && initialSession.trade === trade && initialSession.segments.length > 0
+      ? initialSession.segments
+      : [createSegment(trade, [], newSegmentId())]
+  );
+  const [activeId, setActiveId] = useState<string>(() => segments[0].id);
+  const [drawTarget, setDrawTarget] = useState<DrawTarget>("outline");
 
-  // Determine if shape is valid
-  const isFence = trade === "fence";
-  const hasValidShape = isFence
-    ? measurements && "fenceLinePoints" in measurements && measurements.fenceLinePoints.length >= 2
-    : measurements && "drivewayPolygonPoints" in measurements && measurements.drivewayPolygonPoints.length >= 3;
-
-  // Update measurements and save to storage
-  const updateMeasurements = useCallback(
-    (newMeasurements: Measurements | null) => {
-      setMeasurements(newMeasurements);
-      saveDraftToStorage(trade, newMeasurements);
-      onMeasurementsChange(newMeasurements);
+  // Drawing-manager callbacks are registered once; read current values from refs
+  const activeIdRef = useRef(activeId);
+  const drawTargetRef = useRef(drawTarget);
+  activeIdRef.current = activeId;
+  drawTargetRef.current = drawTarget;
+
+  const activeSegment = segments.find((s) => s.id === activeId) ?? segments[0];
+  const session = useMemo(() => buildMeasurementSession(trade, segments), [trade, segments]);
+  const hasMeasuredSegment = segments.some(isSegmentMeasured);
+
+  useEffect(() => {
+    onSessionChange(session);
+  }, [session, onSessionChange]);
+
+  const dropOverlay = useCallback((key: string) => {
+    const overlay = overlaysRef.current.get(key);
+    if (overlay) {
+      overlay.setMap(null);
+      overlaysRef.current.delete(key);
+    }
+  }, []);
+
+  const updateSegment = useCallback(
+    (segmentId: string, update: (segment: MeasurementSegment) => MeasurementSegment) => {
+      setSegments((prev) =>
+        prev.map((s) => (s.id === segmentId ? recomputeSegment(update(s), getGeometry()) : s))
+      );
     },
-    [trade, onMeasurementsChange]
+    []
   );
 
-  // Handle fence polyline updates
-  const updateFenceFromPolyline = useCallback(() => {
-    if (!polylineRef.current) return;
-    const path = polylineRef.current.getPath();
-    const points = toLatLngPointArray(path);
-    if (points.length >= 2) {
-      const m = computeFenceMeasurements(points);
-      updateMeasurements(m);
-    } else {
-      updateMeasurements(null);
+  // Outline or cut-out edited on the map
+  const updateShape = useCallback(
+    (segmentId: string, cutoutIndex: number | null, points: LatLngPoint[]) => {
+      updateSegment(segmentId, (s) => {
+        if (cutoutIndex === null) return { ...s, points };
+        if (s.kind !== "area") return s;
+        const cutouts = [...s.cutouts];
+        cutouts[cutoutIndex] = points;
+        return { ...s, cutouts };
+      });
+    },
+    [updateSegment]
+  );
+
+  const setOutline = useCallback(
+    (segmentId: string, points: LatLngPoint[]) => {
+      dropOverlay(segmentId);
+      updateSegment(segmentId, (s) => ({ ...s, points }));
+    },
+    [dropOverlay, updateSegment]
+  );
+
+  const addCutout = useCallback(
+    (segmentId: string, points: LatLngPoint[]) => {
+      if (points.length < 3) return;
+      updateSegment(segmentId, (s) => (s.kind === "area" ? { ...s, cutouts: [...s.cutouts, points] } : s));
+    },
+    [updateSegment]
+  );
+
+  // Recompute with spherical geometry once Google has loaded
+  useEffect(() => {
+    if (!isLoaded) return;
+    setSegments((prev) => prev.map((s) => recomputeSegment(s, getGeometry())));
+  }, [isLoaded]);
+
+  // Keep map overlays in step with segments: create missing ones, drop removed
+  // ones, and highlight (and make editable) only the active segment
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!mapReady || !map) return;
+
+    const wanted = new Set<string>();
+    const ensure = (key: string, create: () => Overlay, onChange: (points: LatLngPoint[]) => void) => {
+      wanted.add(key);
+      if (overlaysRef.current.has(key)) return overlaysRef.current.get(key)!;
+      const overlay = create();
+      const path = overlay.getPath();
+      const update = () => onChange(toLatLngPointArray(path));
+      google.maps.event.addListener(path, "set_at", update);
+      google.maps.event.addListener(path, "insert_at", update);
+      google.maps.event.addListener(path, "remove_at", update);
+      overlaysRef.current.set(key, overlay);
+      return overlay;
+    };
+
+    for (const segment of segments) {
+      const active = segment.id === activeId;
+      const color = active ? ACTIVE_COLOR : INACTIVE_COLOR;
+
+      if (segment.points.length > 0) {
+        const path = segment.points.map((p) => ({ lat: p.lat, lng: p.lng }));
+        const outline = ensure(
+          segment.id,
+          () =>
+            segment.kind === "fence"
+              ? new google.maps.Polyline({ path, strokeOpacity: 1, strokeWeight: 4, map })
+              : new google.maps.Polygon({ paths: path, strokeOpacity: 1, strokeWeight: 3, fillOpacity: 0.2, map }),
+          (points) => updateShape(segment.id, null, points)
+        );
+        outline.setOptions({ strokeColor: color, fillColor: color, editable: active, zIndex: active ? 2 : 1 });
+        google.maps.event.clearListeners(outline, "click");
+        outline.addListener("click", () => setActiveId(segment.id));
+      }
+
+      if (segment.kind === "area") {
+        segment.cutouts.forEach((cutout, index) => {
+          const overlay = ensure(
+            cutoutKey(segment.id, index),
+            () =>
+              new google.maps.Polygon({
+                paths: cutout.map((p) => ({ lat: p.lat, lng: p.lng })),
+                strokeColor: CUTOUT_COLOR,
+                strokeOpacity: 1,
+                strokeWeight: 2,
+                fillColor: CUTOUT_COLOR,
+                fillOpacity: 0.25,
+                map,
+              }),
+            (points) => updateShape(segment.id, index, points)
+          );
+          overlay.setOptions({ editable: active, zIndex: 3 });
+        });
+      }
+    }
+
+    for (const key of [...overlaysRef.current.keys()]) {
+      if (!wanted.has(key)) dropOverlay(key);
     }
-  }, [updateMeasurements]);
-
-  // Handle driveway polygon updates
-  const updateDrivewayFromPolygon = useCallback(() => {
-    if (!polygonRef.current) return;
-    const path = polygonRef.current.getPath();
-    const points = toLatLngPointArray(path);
-    if (points.length >= 3) {
-      const m = computeDrivewayMeasurements(points, thickness);
-      updateMeasurements(m);
+  }, [mapReady, segments, activeId, updateShape, dropOverlay]);
+
+  // Draw mode follows the active segment: draw its outline until it has one,
+  // or a cut-out when asked
+  useEffect(() => {
+    const drawingManager = drawingManagerRef.current;
+    if (!mapReady || !drawingManager) return;
+
+    if (drawTarget === "cutout") {
+      drawingManager.setDrawingMode(google.maps.drawing.OverlayType.POLYGON);
+    } else if (activeSegment.points.length === 0) {
+      drawingManager.setDrawingMode(
+        isFence ? google.maps.drawing.OverlayType.POLYLINE : google.maps.drawing.OverlayType.POLYGON
+      );
     } else {
-      updateMeasurements(null);
+      drawingManager.setDrawingMode(null);
     }
-  }, [updateMeasurements, thickness]);
+  }, [mapReady, drawTarget, activeSegment.points.length, isFence]);
+
+  // Remove overlays when unmounting
+  useEffect(() => {
+    const overlays = overlaysRef.current;
+    return () => {
+      for (const overlay of overlays.values()) overlay.setMap(null);
+      overlays.clear();
+    };
+  }, []);
 
-  // Handle undo - remove last point
+  // Handle undo - remove last point of the active outline
   const handleUndo = useCallback(() => {
-    if (isFence && polylineRef.current) {
-      const path = polylineRef.current.getPath();
+    const overlay = overlaysRef.current.get(activeSegment.id);
+    if (overlay) {
+      const path = overlay.getPath();
       if (path.getLength() > 0) {
-        path.pop();
-        updateFenceFromPolyline();
-      }
-    } else if (!isFence && polygonRef.current) {
-      const path = polygonRef.current.getPath();
-      if (path.getLength() > 0) {
-        path.pop();
-        updateDrivewayFromPolygon();
+        path.pop(); // remove_at listener updates the segment
       }
     }
-  }, [isFence, updateFenceFromPolyline, updateDrivewayFromPolygon]);
+  }, [activeSegment.id]);
 
-  // Handle clear - remove entire shape
+  // Handle clear - remove the active segment's shape (outline and cut-outs)
   const handleClear = useCallback(() => {
-    if (polylineRef.current) {
-      polylineRef.current.setMap(null);
-      polylineRef.current = null;
-    }
-    if (polygonRef.current) {
-      polygonRef.current.setMap(null);
-      polygonRef.current = null;
-    }
-    updateMeasurements(null);
-    clearDraftFromStorage(trade);
-    
-    // Re-enable drawing manager
-    if (drawingManagerRef.current && mapRef.current) {
-      drawingManagerRef.current.setOptions({
-        drawingMode: isFence
-          ? google.maps.drawing.OverlayType.POLYLINE
-          : google.maps.drawing.OverlayType.POLYGON,
-      });
-    }
-  }, [trade, isFence, updateMeasurements]);
-
-  // Handle finish
-  const handleFinish = useCallback(() => {
-    if (measurements && hasValidShape && onFinish) {
-      onFinish(measurements);
-    }
-  }, [measurements, hasValidShape, onFinish]);
-
-  // Handle thickness change for driveway
-  const handleThicknessChange = useCallback(
-    (value: string) => {
-      const newThickness = parseInt(value, 10);
-      setThickness(newThickness);
-      
-      if (measurements && "drivewayPolygonPoints" in measurements) {
-        const m = computeDrivewayMeasurements(
-          measurements.drivewayPolygonPoints,
-          newThickness
-        );
-        updateMeasurements(m);
-      }
+    dropOverlay(activeSegment.id);
+    updateSegment(activeSegment.id, (s) => (s.kind === "area" ? { ...s, points: [], cutouts: [] } : { ...s, points: [] }));
+    setDrawTarget("outline");
+  }, [activeSegment.id, dropOverlay, updateSegment]);
+
+  const handleAddSegment = useCallback(() => {
+    const segment = createSegment(trade, segments, newSegmentId());
+    setSegments((prev) => [...prev, segment]);
+    setActiveId(segment.id);
+    setDrawTarget("outline");
+  }, [trade, segments]);
+
+  const handleRemoveSegment = useCallback(
+    (segmentId: string) => {
+      const remaining = segments.filter((s) => s.id !== segmentId);
+      if (remaining.length === 0) return;
+      setSegments(remaining);
+      if (activeId === segmentId) setActiveId(remaining[0].id);
+      setDrawTarget("outline");
     },
-    [measurements, updateMeasurements]
+    [segments, activeId]
   );
 
-  // Create polyline from saved points
-  const createPolylineFromPoints = useCallback(
-    (points: LatLngPoint[], map: google.maps.Map) => {
-      if (polylineRef.current) {
-        polylineRef.current.setMap(null);
-      }
-      
-      const polyline = new google.maps.Polyline({
-        path: points.map((p) => ({ lat: p.lat, lng: p.lng })),
-        strokeColor: "#FF6B00",
-        strokeOpacity: 1,
-        strokeWeight: 4,
-        editable: true,
-        map,
-      });
-      
-      polylineRef.current = polyline;
-      
-      // Add path change listeners
-      const path = polyline.getPath();
-      google.maps.event.addListener(path, "set_at", updateFenceFromPolyline);
-      google.maps.event.addListener(path, "insert_at", updateFenceFromPolyline);
-      google.maps.event.addListener(path, "remove_at", updateFenceFromPolyline);
-      
-      // Disable drawing manager
-      if (drawingManagerRef.current) {
-        drawingManagerRef.current.setDrawingMode(null);
-      }
-      
-      return polyline;
-    },
-    [updateFenceFromPolyline]
-  );
+  const handleRemoveLastCutout = useCallback(() => {
+    updateSegment(activeSegment.id, (s) => (s.kind === "area" ? { ...s, cutouts: s.cutouts.slice(0, -1) } : s));
+  }, [activeSegment.id, updateSegment]);
 
-  // Create polygon from saved points
-  const createPolygonFromPoints = useCallback(
-    (points: LatLngPoint[], map: google.maps.Map) => {
-      if (polygonRef.current) {
-        polygonRef.current.setMap(null);
-      }
-      
-      const polygon = new google.maps.Polygon({
-        paths: points.map((p) => ({ lat: p.lat, lng: p.lng })),
-        strokeColor: "#FF6B00",
-        strokeOpacity: 1,
-        strokeWeight: 3,
-        fillColor: "#FF6B00",
-        fillOpacity: 0.2,
-        editable: true,
-        map,
-      });
-      
-      polygonRef.current = polygon;
-      
-      // Add path change listeners
-      const path = polygon.getPath();
-      google.maps.event.addListener(path, "set_at", updateDrivewayFromPolygon);
-      google.maps.event.addListener(path, "insert_at", updateDrivewayFromPolygon);
-      google.maps.event.addListener(path, "remove_at", updateDrivewayFromPolygon);
-      
-      // Disable drawing manager
-      if (drawingManagerRef.current) {
-        drawingManagerRef.current.setDrawingMode(null);
-      }
-      
-      return polygon;
-    },
-    [updateDrivewayFromPolygon]
-  );
+  // Handle finish - only segments with a shape are kept
+  const handleFinish = useCallback(() => {
+    if (hasMeasuredSegment && onFinish) {
+      onFinish(buildMeasurementSession(trade, segments.filter(isSegmentMeasured)));
+    }
+  }, [hasMeasuredSegment, onFinish, trade, segments]);
 
   // Set up test hooks
   useEffect(() => {
-    if (typeof window === "undefined" || !mapRef.current) return;
-    
-    const win = window as Window & {
-      __setFenceLinePoints?: (points: LatLngPoint[]) => void;
-      __setDrivewayPolygonPoints?: (points: LatLngPoint[]) => void;
-    };
-    
+    if (typeof window === "undefined") return;
+    const win = window as TestHookWindow;
+
     if (isFence) {
-      win.__setFenceLinePoints = (points: LatLngPoint[]) => {
-        if (mapRef.current) {
-          createPolylineFromPoints(points, mapRef.current);
-        }
-        const m = computeFenceMeasurements(points);
-        updateMeasurements(m);
-      };
+      win.__setFenceLinePoints = (points) => setOutline(activeIdRef.current, points);
     } else {
-      win.__setDrivewayPolygonPoints = (points: LatLngPoint[]) => {
-        if (mapRef.current) {
-          createPolygonFromPoints(points, mapRef.current);
-        }
-        const m = computeDrivewayMeasurements(points, thickness);
-        updateMeasurements(m);
-      };
+      win.__setDrivewayPolygonPoints = (points) => setOutline(activeIdRef.current, points);
+      win.__addMeasurementCutout = (points) => addCutout(activeIdRef.current, points);
     }
-    
+
     return () => {
-      if (isFence) {
-        win.__setFenceLinePoints = undefined;
-      } else {
-        win.__setDrivewayPolygonPoints = undefined;
-      }
+      win.__setFenceLinePoints = undefined;
+      win.__setDrivewayPolygonPoints = undefined;
+      win.__addMeasurementCutout = undefined;
     };
-  }, [isFence, createPolylineFromPoints, createPolygonFromPoints, updateMeasurements, thickness]);
+  }, [isFence, setOutline, addCutout]);
 
   // Initialize map and drawing manager
   const onMapLoad = useCallback(
@@ -516,102 +399,47 @@ export default function MapMeasurementStep({
 
       // Set up drawing manager
       const drawingManager = new google.maps.drawing.DrawingManager({
-        drawingMode: isFence
-          ? google.maps.drawing.OverlayType.POLYLINE
-          : google.maps.drawing.OverlayType.POLYGON,
+        drawingMode: null,
         drawingControl: false, // We use custom buttons
         polylineOptions: {
-          strokeColor: "#FF6B00",
+          strokeColor: ACTIVE_COLOR,
           strokeOpacity: 1,
           strokeWeight: 4,
-          editable: true,
         },
         polygonOptions: {
-          strokeColor: "#FF6B00",
+          strokeColor: ACTIVE_COLOR,
           strokeOpacity: 1,
           strokeWeight: 3,
-          fillColor: "#FF6B00",
+          fillColor: ACTIVE_COLOR,
           fillOpacity: 0.2,
-          editable: true,
         },
       });
 
       drawingManager.setMap(map);
       drawingManagerRef.current = drawingManager;
 
-      // Handle polyline complete (fence)
-      google.maps.event.addListener(
-        drawingManager,
-        "polylinecomplete",
-        (polyline: google.maps.Polyline) => {
-          // Remove any existing polyline
-          if (polylineRef.current) {
-            polylineRef.current.setMap(null);
-          }
-          polylineRef.current = polyline;
-
-          // Add path change listeners
-          const path = polyline.getPath();
-          google.maps.event.addListener(path, "set_at", updateFenceFromPolyline);
-          google.maps.event.addListener(path, "insert_at", updateFenceFromPolyline);
-          google.maps.event.addListener(path, "remove_at", updateFenceFromPolyline);
-
-          updateFenceFromPolyline();
-
-          // Disable drawing mode after completion
-          drawingManager.setDrawingMode(null);
-        }
-      );
-
-      // Handle polygon complete (driveway)
-      google.maps.event.addListener(
-        drawingManager,
-        "polygoncomplete",
-        (polygon: google.maps.Polygon) => {
-          // Remove any existing polygon
-          if (polygonRef.current) {
-            polygonRef.current.setMap(null);
-          }
-          polygonRef.current = polygon;
-
-          // Add path change listeners
-          const path = polygon.getPath();
-          google.maps.event.addListener(path, "set_at", updateDrivewayFromPolygon);
-          google.maps.event.addListener(path, "insert_at", updateDrivewayFromPolygon);
-          google.maps.event.addListener(path, "remove_at", updateDrivewayFromPolygon);
-
-          updateDrivewayFromPolygon();
-
-          // Disable drawing mode after completion
-          drawingManager.setDrawingMode(null);
+      // The drawn overlay is only used for its points; the overlay sync
+      // recreates it from segment state with the right styling
+      const handleDrawn = (overlay: Overlay) => {
+        const points = toLatLngPointArray(overlay.getPath());
+        overlay.setMap(null);
+
+        if (drawTargetRef.current === "cutout") {
+          addCutout(activeIdRef.current, points);
+          setDrawTarget("outline");
+        } else {
+          setOutline(activeIdRef.current, points);
         }
-      );
+      };
 
-      // Load draft from storage
-      const draft = loadDraftFromStorage(trade);
-      if (draft) {
-        if (isFence && "fenceLinePoints" in draft && draft.fenceLinePoints.length >= 2) {
-          createPolylineFromPoints(draft.fenceLinePoints, map);
-          setMeasurements(draft);
-          onMeasurementsChange(draft);
-        } else if (!isFence && "drivewayPolygonPoints" in draft && draft.drivewayPolygonPoints.length >= 3) {
-          createPolygonFromPoints(draft.drivewayPolygonPoints, map);
-          setThickness(draft.drivewayThicknessIn || DEFAULT_THICKNESS);
-          setMeasurements(draft);
-          onMeasurementsChange(draft);
-        }
-      }
+      // Handle polyline complete (fence run)
+      google.maps.event.addListener(drawingManager, "polylinecomplete", handleDrawn);
+      // Handle polygon complete (area outline or cut-out)
+      google.maps.event.addListener(drawingManager, "polygoncomplete", handleDrawn);
 
+      setMapReady(true);
     },
-    [
-      isFence,
-      trade,
-      updateFenceFromPolyline,
-      updateDrivewayFromPolygon,
-      createPolylineFromPoints,
-      createPolygonFromPoints,
-      onMeasurementsChange,
-    ]
+    [addCutout, setOutline]
   );
 
   // Loading state
@@ -631,6 +459,9 @@ export default function MapMeasurementStep({
     );
   }
 
+  const materials: ReadonlyArray<{ id: string; label: string }> = isFence ? FENCE_MATERIALS : AREA_MATERIALS;
+  const segmentNoun = isFence ? "run" : "area";
+
   return (
     <div
       className="relative flex flex-col h-full min-h-[500px]"
@@ -639,15 +470,20 @@ export default function MapMeasurementStep({
       {/* Instructions */}
       <div className="p-3 bg-slate-50 border-b">
         <div className="text-sm text-slate-700">
-          {isFence ? (
+          {drawTarget === "cutout" ? (
+            <>
+              <strong>Draw a cut-out in {activeSegment.name}:</strong> Outline the part
+              that isn&apos;t paved (planter, existing slab). It&apos;s subtracted from the area.
+            </>
+          ) : isFence ? (
             <>
-              <strong>Draw your fence line:</strong> Tap points on the map to create
-              a polyline. Double-tap or click Finish when done.
+              <strong>Draw {activeSegment.name}:</strong> Tap points on the map to create
+              a fence line. Double-tap to finish the run, then add another run if needed.
             </>
           ) : (
             <>
-              <strong>Draw your driveway outline:</strong> Tap points on the map to
-              create a polygon. Close the shape or click Finish when done.
+              <strong>Draw {activeSegment.name}:</strong> Tap points on the map to
+              outline the area. Close the shape, then add another area if needed.
             </>
           )}
         </div>
@@ -671,92 +507,227 @@ export default function MapMeasurementStep({
         />
       </div>
 
-      {/* Measurements Display */}
-      {measurements && (
-        <Card className="m-3 border-primary/30 bg-primary/5">
-          <CardContent className="p-3 space-y-2">
-            {isFence && "fenceLF" in measurements && (
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2 text-sm font-medium">
-                  <Ruler className="w-4 h-4 text-primary" />
-                  Total Fence Length
-                </div>
-                <span
-                  className="text-lg font-bold text-primary"
-                  data-testid="measurement-fence-lf"
-                >
-                  {measurements.fenceLF.toLocaleString()} ft
+      {/* Segments */}
+      <Card className="m-3 border-primary/30 bg-primary/5">
+        <CardContent className="p-3 space-y-3">
+          <div className="flex flex-wrap gap-2" data-testid="measurement-segments">
+            {segments.map((segment) => (
+              <button
+                key={segment.id}
+                type="button"
+                onClick={() => {
+                  setActiveId(segment.id);
+                  setDrawTarget("outline");
+                }}
+                className={cn(
+                  "px-3 py-1.5 rounded-full border text-xs text-left",
+                  segment.id === activeId
+                    ? "border-primary bg-white text-primary font-medium"
+                    : "border-slate-200 bg-white text-slate-600"
+                )}
+                data-testid={`measurement-segment-${segment.id}`}
+              >
+                {segment.name}
+                <span className="ml-1 text-muted-foreground">
+                  {isSegmentMeasured(segment) ? formatQuantity(segment) : "not drawn"}
                 </span>
+              </button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 rounded-full text-xs"
+              onClick={handleAddSegment}
+              data-testid="measurement-add-segment"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add {segmentNoun}
+            </Button>
+          </div>
+
+          {/* Active segment */}
+          <div className="space-y-2 pt-2 border-t">
+            <div className="flex items-center gap-2">
+              <Input
+                value={activeSegment.name}
+                onChange={(e) => updateSegment(activeSegment.id, (s) => ({ ...s, name: e.target.value.slice(0, 100) }))}
+                className="h-8 text-sm"
+                aria-label={`${segmentNoun} name`}
+                data-testid="measurement-segment-name"
+              />
+              {segments.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-muted-foreground"
+                  onClick={() => handleRemoveSegment(activeSegment.id)}
+                  aria-label={`Remove ${segmentNoun}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="material-select" className="text-sm">
+                Material
+              </Label>
+              <Select
+                value={activeSegment.material}
+                onValueChange={(material) => updateSegment(activeSegment.id, (s) => ({ ...s, material }))}
+              >
+                <SelectTrigger id="material-select" className="w-36" data-testid="material-select">
+                  <SelectValue>{getMaterialLabel(activeSegment)}</SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {materials.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {activeSegment.kind === "fence" ? (
+              <div className="flex items-center justify-between gap-3">
+                <Label className="text-sm flex items-center gap-1">
+                  <DoorOpen className="w-4 h-4" />
+                  Gates
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => updateSegment(activeSegment.id, (s) => (s.kind === "fence" ? { ...s, gateCount: s.gateCount - 1 } : s))}
+                    disabled={activeSegment.gateCount === 0}
+                    aria-label="Remove gate"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </Button>
+                  <span className="w-6 text-center font-medium" data-testid="measurement-gate-count">
+                    {activeSegment.gateCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => updateSegment(activeSegment.id, (s) => (s.kind === "fence" ? { ...s, gateCount: s.gateCount + 1 } : s))}
+                    aria-label="Add gate"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
               </div>
+            ) : (
+              <>
+                {/* Thickness Selector */}
+                <div className="flex items-center justify-between gap-3">
+                  <Label htmlFor="thickness-select" className="text-sm">
+                    Thickness
+                  </Label>
+                  <Select
+                    value={String(activeSegment.thicknessIn)}
+                    onValueChange={(value) =>
+                      updateSegment(activeSegment.id, (s) => (s.kind === "area" ? { ...s, thicknessIn: parseInt(value, 10) } : s))
+                    }
+                  >
+                    <SelectTrigger id="thickness-select" className="w-24" data-testid="thickness-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AREA_THICKNESS_OPTIONS.map((t) => (
+                        <SelectItem key={t} value={String(t)}>
+                          {t}&quot;
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Cut-outs */}
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm flex items-center gap-1">
+                    <Scissors className="w-4 h-4" />
+                    Cut-outs
+                    {activeSegment.cutouts.length > 0 && (
+                      <span className="text-muted-foreground" data-testid="measurement-cutout-sf">
+                        ({activeSegment.cutouts.length}, -{activeSegment.cutoutSF.toLocaleString()} sq ft)
+                      </span>
+                    )}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {activeSegment.cutouts.length > 0 && (
+                      <Button variant="ghost" size="sm" className="h-8 px-2" onClick={handleRemoveLastCutout}>
+                        Remove last
+                      </Button>
+                    )}
+                    <Button
+                      variant={drawTarget === "cutout" ? "default" : "outline"}
+                      size="sm"
+                      className="h-8"
+                      onClick={() => setDrawTarget(drawTarget === "cutout" ? "outline" : "cutout")}
+                      disabled={!isSegmentMeasured(activeSegment)}
+                      data-testid="measurement-add-cutout"
+                    >
+                      {drawTarget === "cutout" ? "Cancel" : "Add cut-out"}
+                    </Button>
+                  </div>
+                </div>
+              </>
             )}
+          </div>
 
-            {!isFence && "drivewaySF" in measurements && (
+          {/* Totals */}
+          <div className="space-y-1 pt-2 border-t">
+            {isFence ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <Ruler className="w-4 h-4 text-primary" />
+                    Total Fence Length
+                  </div>
+                  <span className="text-lg font-bold text-primary" data-testid="measurement-fence-lf">
+                    {session.totals.fenceLF.toLocaleString()} ft
+                  </span>
+                </div>
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>Gates</span>
+                  <span data-testid="measurement-fence-gates">{session.totals.gateCount}</span>
+                </div>
+              </>
+            ) : (
               <>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2 text-sm font-medium">
                     <Square className="w-4 h-4 text-primary" />
-                    Driveway Area
+                    Total Area
                   </div>
-                  <span
-                    className="text-lg font-bold text-primary"
-                    data-testid="measurement-driveway-sf"
-                  >
-                    {measurements.drivewaySF.toLocaleString()} sq ft
+                  <span className="text-lg font-bold text-primary" data-testid="measurement-driveway-sf">
+                    {session.totals.areaSF.toLocaleString()} sq ft
                   </span>
                 </div>
                 <div className="flex items-center justify-between text-sm text-muted-foreground">
                   <span>Perimeter</span>
                   <span data-testid="measurement-driveway-perimeter">
-                    {measurements.drivewayPerimeterLF.toLocaleString()} ft
+                    {session.totals.perimeterLF.toLocaleString()} ft
                   </span>
                 </div>
-
-                {/* Thickness Selector */}
-                <div className="pt-2 border-t">
-                  <div className="flex items-center justify-between gap-3">
-                    <Label htmlFor="thickness-select" className="text-sm">
-                      Concrete Thickness
-                    </Label>
-                    <Select
-                      value={String(thickness)}
-                      onValueChange={handleThicknessChange}
-                    >
-                      <SelectTrigger
-                        id="thickness-select"
-                        className="w-24"
-                        data-testid="thickness-select"
-                      >
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="4">4&quot;</SelectItem>
-                        <SelectItem value="5">5&quot;</SelectItem>
-                        <SelectItem value="6">6&quot;</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-
-                {/* Cubic Yards */}
-                <div className="flex items-center justify-between pt-2 border-t">
-                  <span className="text-sm font-medium">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">
                     Estimated Concrete
-                    <span className="text-xs text-muted-foreground ml-1">
-                      (includes 10% waste)
-                    </span>
+                    <span className="text-xs text-muted-foreground ml-1">(includes 10% waste)</span>
                   </span>
-                  <span
-                    className="text-lg font-bold text-primary"
-                    data-testid="measurement-driveway-cy"
-                  >
-                    {measurements.drivewayCY} CY
+                  <span className="font-bold text-primary" data-testid="measurement-driveway-cy">
+                    {session.totals.cubicYards} CY
                   </span>
                 </div>
               </>
             )}
-          </CardContent>
-        </Card>
-      )}
+          </div>
+        </CardContent>
+      </Card>
 
       {/* Fixed Bottom Action Bar */}
       <div className="sticky bottom-0 left-0 right-0 p-3 bg-white border-t shadow-lg safe-area-inset-bottom">
@@ -765,7 +736,7 @@ export default function MapMeasurementStep({
             variant="outline"
             size="lg"
             onClick={handleUndo}
-            disabled={!hasValidShape}
+            disabled={activeSegment.points.length === 0}
             className="flex-1"
           >
             <Undo2 className="w-4 h-4 mr-2" />
@@ -775,24 +746,26 @@ export default function MapMeasurementStep({
             variant="outline"
             size="lg"
             onClick={handleClear}
-            disabled={!measurements}
+            disabled={activeSegment.points.length === 0}
             className="flex-1"
           >
             <Trash2 className="w-4 h-4 mr-2" />
             Clear
           </Button>
-          <Button
-            size="lg"
-            onClick={handleFinish}
-            disabled={!hasValidShape}
-            className={cn(
-              "flex-1",
-              hasValidShape && "bg-primary hover:bg-primary/90"
-            )}
-          >
-            <CheckCircle className="w-4 h-4 mr-2" />
-            Finish
-          </Button>
+          {onFinish && (
+            <Button
+              size="lg"
+              onClick={handleFinish}
+              disabled={!hasMeasuredSegment}
+              className={cn(
+                "flex-1",
+                hasMeasuredSegment && "bg-primary hover:bg-primary/90"
+              )}
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Finish
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,457 @@
+'use client';
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2, History, RotateCcw, ArrowUp, ArrowDown } from "lucide-react";
+import { scopeSectionsOf } from "@/lib/custom-templates";
+import type {
+  ProposalTemplate,
+  ProposalTemplateChange,
+  ProposalTemplateVersion,
+  TemplateJobOption,
+} from "@shared/schema";
+
+interface SectionDraft {
+  title: string;
+  items: string;
+}
+
+interface TemplateEditorProps {
+  template: ProposalTemplate;
+  onSaved: (template: ProposalTemplate) => void;
+  onClose: () => void;
+}
+
+// One item per line
+function parseLines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function toSlug(label: string, taken: string[]): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "option";
+  let slug = base;
+  for (let n = 2; taken.includes(slug); n++) slug = `${base}-${n}`;
+  return slug;
+}
+
+function formatDollars(amount: number | null): string {
+  if (amount == null) return "—";
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+}
+
+function describeChange(change: ProposalTemplateChange): string {
+  switch (change.field) {
+    case "jobTypeName":
+      return `Renamed to "${change.to}"`;
+    case "warranty":
+      return "Warranty updated";
+    case "scope":
+    case "exclusions":
+    case "assumptions": {
+      const list = change.field === "scope" ? "scope" : change.field;
+      return `${change.type === "added" ? "Added to" : "Removed from"} ${list}: ${change.item}`;
+    }
+    case "price":
+      return `Price ${formatDollars(change.from.low)}–${formatDollars(change.from.high)} → ${formatDollars(change.to.low)}–${formatDollars(change.to.high)}`;
+    case "days":
+      return `Duration ${change.from.low ?? "?"}–${change.from.high ?? "?"} → ${change.to.low ?? "?"}–${change.to.high ?? "?"} days`;
+    case "options":
+      return `Option "${change.label}" ${change.type}`;
+    case "scopeSections":
+      return "Scope sections regrouped";
+  }
+}
+
+function numberOrNull(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = Math.round(Number(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Editor for a contractor-owned template: grouped scope, priced options,
+ * warranty, exclusions and assumptions, plus its version history.
+ */
+export default function TemplateEditor({ template, onSaved, onClose }: TemplateEditorProps) {
+  const [name, setName] = useState(template.jobTypeName);
+  const [priceLow, setPriceLow] = useState(String(template.basePriceLow));
+  const [priceHigh, setPriceHigh] = useState(String(template.basePriceHigh));
+  const [daysLow, setDaysLow] = useState(template.estimatedDaysLow != null ? String(template.estimatedDaysLow) : "");
+  const [daysHigh, setDaysHigh] = useState(template.estimatedDaysHigh != null ? String(template.estimatedDaysHigh) : "");
+  const [sections, setSections] = useState<SectionDraft[]>(() =>
+    scopeSectionsOf(template).map((section) => ({ title: section.title, items: section.items.join("\n") }))
+  );
+  const [options, setOptions] = useState<TemplateJobOption[]>(template.options ?? []);
+  const [warranty, setWarranty] = useState(template.warranty ?? "");
+  const [exclusions, setExclusions] = useState((template.exclusions ?? []).join("\n"));
+  const [assumptions, setAssumptions] = useState((template.assumptions ?? []).join("\n"));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [versions, setVersions] = useState<ProposalTemplateVersion[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/templates/${template.id}/versions`, { credentials: "include" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to load version history");
+      setVersions(data.versions);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [template.id]);
+
+  useEffect(() => {
+    if (showHistory) loadVersions();
+  }, [showHistory, loadVersions, template.version]);
+
+  const updateSection = (index: number, updates: Partial<SectionDraft>) => {
+    setSections((prev) => prev.map((section, i) => (i === index ? { ...section, ...updates } : section)));
+  };
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    setSections((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const updateOption = (index: number, updates: Partial<TemplateJobOption>) => {
+    setOptions((prev) => prev.map((option, i) => (i === index ? { ...option, ...updates } : option)));
+  };
+
+  const addOption = () => {
+    setOptions((prev) => [
+      ...prev,
+      { id: toSlug("option", prev.map((o) => o.id)), label: "", type: "boolean", priceModifier: 0 },
+    ]);
+  };
+
+  const setOptionType = (index: number, type: TemplateJobOption["type"]) => {
+    const option = options[index];
+    updateOption(index, type === "select"
+      ? { type, priceModifier: undefined, choices: option.choices?.length ? option.choices : [{ value: "standard", label: "Standard", priceModifier: 0 }] }
+      : { type, choices: undefined, priceModifier: option.priceModifier ?? 0 });
+  };
+
+  const updateChoice = (optionIndex: number, choiceIndex: number, updates: Partial<NonNullable<TemplateJobOption["choices"]>[number]>) => {
+    const choices = (options[optionIndex].choices ?? []).map((choice, i) => (i === choiceIndex ? { ...choice, ...updates } : choice));
+    updateOption(optionIndex, { choices });
+  };
+
+  const addChoice = (optionIndex: number) => {
+    const choices = options[optionIndex].choices ?? [];
+    updateOption(optionIndex, {
+      choices: [...choices, { value: toSlug("choice", choices.map((c) => c.value)), label: "", priceModifier: 0 }],
+    });
+  };
+
+  const removeChoice = (optionIndex: number, choiceIndex: number) => {
+    updateOption(optionIndex, { choices: (options[optionIndex].choices ?? []).filter((_, i) => i !== choiceIndex) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          jobTypeName: name,
+          basePriceLow: numberOrNull(priceLow) ?? 0,
+          basePriceHigh: numberOrNull(priceHigh) ?? 0,
+          estimatedDaysLow: numberOrNull(daysLow),
+          estimatedDaysHigh: numberOrNull(daysHigh),
+          scopeSections: sections.map((section) => ({ title: section.title, items: parseLines(section.items) })),
+          options: options.map((option) => ({
+            ...option,
+            scopeAddition: option.scopeAddition?.trim() || undefined,
+            choices: option.choices?.map((choice) => ({ ...choice, scopeAddition: choice.scopeAddition?.trim() || undefined })),
+          })),
+          warranty: warranty.trim() || null,
+          exclusions: parseLines(exclusions),
+          assumptions: parseLines(assumptions),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to save template");
+      onSaved(data);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    setRestoringVersion(version);
+    setError(null);
+    try {
+      const response = await fetch(`/api/templates/${template.id}/versions/${version}/restore`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to restore version");
+      onSaved(data.template);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{template.jobTypeName}</CardTitle>
+            <CardDescription>
+              {template.tradeName} · Version {template.version}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowHistory((open) => !open)} data-testid="button-template-history">
+            <History className="w-4 h-4 mr-1" /> History
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {showHistory && (
+          <div className="rounded-md border bg-slate-50 p-3 space-y-3" data-testid="template-version-history">
+            {!versions && <Loader2 className="w-4 h-4 animate-spin" />}
+            {versions?.length === 0 && <p className="text-sm text-muted-foreground">No saved versions yet.</p>}
+            {versions?.slice().reverse().map((version) => (
+              <div key={version.id} className="flex items-start justify-between gap-3 text-sm">
+                <div>
+                  <p className="font-medium">
+                    Version {version.version}
+                    {version.restoredFromVersion != null && ` (restored from ${version.restoredFromVersion})`}
+                    {version.createdAt && (
+                      <span className="ml-2 font-normal text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</span>
+                    )}
+                  </p>
+                  <ul className="list-disc pl-5 text-muted-foreground">
+                    {version.changes.length === 0 && <li>Initial version</li>}
+                    {version.changes.map((change, i) => <li key={i}>{describeChange(change)}</li>)}
+                  </ul>
+                </div>
+                {version.version !== template.version && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore(version.version)}
+                    disabled={restoringVersion !== null}
+                  >
+                    {restoringVersion === version.version
+                      ? <Loader2 className="w-4 h-4 animate-spin" />
+                      : <><RotateCcw className="w-4 h-4 mr-1" /> Restore</>}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="sm:col-span-2">
+            <Label htmlFor="template-name">Template name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <Label>Base price range ($)</Label>
+            <div className="flex items-center gap-2">
+              <Input type="number" min={0} value={priceLow} onChange={(e) => setPriceLow(e.target.value)} aria-label="Low price" />
+              <span>–</span>
+              <Input type="number" min={0} value={priceHigh} onChange={(e) => setPriceHigh(e.target.value)} aria-label="High price" />
+            </div>
+          </div>
+          <div>
+            <Label>Estimated days</Label>
+            <div className="flex items-center gap-2">
+              <Input type="number" min={1} value={daysLow} onChange={(e) => setDaysLow(e.target.value)} aria-label="Minimum days" />
+              <span>–</span>
+              <Input type="number" min={1} value={daysHigh} onChange={(e) => setDaysHigh(e.target.value)} aria-label="Maximum days" />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Scope sections</Label>
+            <Button variant="outline" size="sm" onClick={() => setSections((prev) => [...prev, { title: "", items: "" }])}>
+              <Plus className="w-4 h-4 mr-1" /> Add section
+            </Button>
+          </div>
+          {sections.map((section, index) => (
+            <div key={index} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={section.title}
+                  placeholder="Section title, e.g. Demolition"
+                  onChange={(e) => updateSection(index, { title: e.target.value })}
+                />
+                <Button variant="ghost" size="icon" onClick={() => moveSection(index, -1)} disabled={index === 0} aria-label="Move section up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => moveSection(index, 1)} disabled={index === sections.length - 1} aria-label="Move section down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setSections((prev) => prev.filter((_, i) => i !== index))} aria-label="Remove section">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <Textarea
+                rows={4}
+                value={section.items}
+                placeholder="One scope item per line"
+                onChange={(e) => updateSection(index, { items: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Options</Label>
+            <Button variant="outline" size="sm" onClick={addOption}>
+              <Plus className="w-4 h-4 mr-1" /> Add option
+            </Button>
+          </div>
+          {options.map((option, index) => (
+            <div key={option.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input value={option.label} placeholder="Option label" onChange={(e) => updateOption(index, { label: e.target.value })} />
+                <Select value={option.type} onValueChange={(value) => setOptionType(index, value as TemplateJobOption["type"])}>
+                  <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="boolean">Yes / no</SelectItem>
+                    <SelectItem value="select">Choice</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" onClick={() => setOptions((prev) => prev.filter((_, i) => i !== index))} aria-label="Remove option">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {option.type === "boolean" ? (
+                <div className="grid gap-2 sm:grid-cols-[10rem_1fr]">
+                  <Input
+                    type="number"
+                    value={option.priceModifier ?? 0}
+                    onChange={(e) => updateOption(index, { priceModifier: numberOrNull(e.target.value) ?? 0 })}
+                    aria-label="Price modifier ($)"
+                  />
+                  <Input
+                    value={option.scopeAddition ?? ""}
+                    placeholder="Scope line added when selected"
+                    onChange={(e) => updateOption(index, { scopeAddition: e.target.value })}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {(option.choices ?? []).map((choice, choiceIndex) => (
+                    <div key={choice.value} className="grid gap-2 sm:grid-cols-[1fr_8rem_1fr_auto]">
+                      <Input value={choice.label} placeholder="Choice label" onChange={(e) => updateChoice(index, choiceIndex, { label: e.target.value })} />
+                      <Input
+                        type="number"
+                        value={choice.priceModifier}
+                        onChange={(e) => updateChoice(index, choiceIndex, { priceModifier: numberOrNull(e.target.value) ?? 0 })}
+                        aria-label="Price modifier ($)"
+                      />
+                      <Input
+                        value={choice.scopeAddition ?? ""}
+                        placeholder="Scope line added when chosen"
+                        onChange={(e) => updateChoice(index, choiceIndex, { scopeAddition: e.target.value })}
+                      />
+                      <Button variant="ghost" size="icon" onClick={() => removeChoice(index, choiceIndex)} aria-label="Remove choice">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="ghost" size="sm" onClick={() => addChoice(index)}>
+                    <Plus className="w-4 h-4 mr-1" /> Add choice
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <Label htmlFor="template-warranty">Warranty</Label>
+          <Textarea id="template-warranty" rows={2} value={warranty} onChange={(e) => setWarranty(e.target.value)} />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <Label htmlFor="template-exclusions">Exclusions</Label>
+            <Textarea id="template-exclusions" rows={5} value={exclusions} placeholder="One per line" onChange={(e) => setExclusions(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="template-assumptions">Assumptions</Label>
+            <Textarea id="template-assumptions" rows={5} value={assumptions} placeholder="One per line" onChange={(e) => setAssumptions(e.target.value)} />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button onClick={handleSave} disabled={isSaving} data-testid="button-save-template">
+            {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Save new version
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function TemplateSharingSwitch({
+  template,
+  canShare,
+  onChange,
+}: {
+  template: ProposalTemplate;
+  canShare: boolean;
+  onChange: (template: ProposalTemplate) => void;
+}) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleToggle = async (sharedWithCompany: boolean) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/templates/${template.id}/share`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ sharedWithCompany }),
+      });
+      if (response.ok) onChange(await response.json());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Switch
+        checked={template.sharedWithCompany}
+        onCheckedChange={handleToggle}
+        disabled={!canShare || isSaving}
+        title={canShare ? undefined : "Sharing needs a Crew team workspace"}
+      />
+      Shared with team
+    </label>
+  );
+}
@@ -0,0 +1,22 @@
+-- Migration: Add proposal revision history
+-- Description: Snapshots client-facing proposal content on every edit after the first send,
+-- so contractors and homeowners can see exactly what changed since the original quote.
+
+CREATE TABLE IF NOT EXISTS "proposal_revisions" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "proposal_id" integer NOT NULL REFERENCES "proposals"("id") ON DELETE CASCADE,
+  "revision_number" integer NOT NULL,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "scope" text[] NOT NULL,
+  "scope_sections" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "line_items" jsonb,
+  "price_low" integer NOT NULL,
+  "price_high" integer NOT NULL,
+  "options" jsonb NOT NULL DEFAULT '{}'::jsonb,
+  "exclusions" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "changes" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "restored_from_revision" integer,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_proposal_revisions_proposal_revision" ON "proposal_revisions" ("proposal_id", "revision_number");
@@ -0,0 +1,5 @@
+-- Migration: Add itemized cost breakdown to proposals
+-- Description: Optional quantity x unit-cost breakdown (material, labor, markup) for
+-- single-service proposals. Multi-service proposals store it per line item in line_items.
+
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "cost_breakdown" jsonb;
@@ -0,0 +1,28 @@
+-- Migration: Add invoices
+-- Description: Billing schedule (deposit, progress payments, final payment) generated from
+-- accepted proposals. Each invoice has a per-contractor number and its own public pay link.
+
+CREATE TABLE IF NOT EXISTS "invoices" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "proposal_id" integer NOT NULL REFERENCES "proposals"("id") ON DELETE CASCADE,
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "sequence" integer NOT NULL,
+  "invoice_number" varchar(32) NOT NULL,
+  "kind" varchar(20) NOT NULL,
+  "schedule_index" integer NOT NULL,
+  "milestone" text NOT NULL,
+  "amount" integer NOT NULL,
+  "status" varchar(20) NOT NULL DEFAULT 'scheduled',
+  "public_token" varchar NOT NULL UNIQUE,
+  "due_date" timestamp,
+  "issued_at" timestamp,
+  "paid_at" timestamp,
+  "paid_amount" integer NOT NULL DEFAULT 0,
+  "stripe_checkout_session_id" varchar,
+  "stripe_payment_intent_id" varchar,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_invoices_proposal" ON "invoices" ("proposal_id", "schedule_index");
+CREATE INDEX IF NOT EXISTS "idx_invoices_user_sequence" ON "invoices" ("user_id", "sequence");
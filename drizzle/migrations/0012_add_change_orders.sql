@@ -0,0 +1,25 @@
+-- Migration: Add change orders
+-- Description: Scope changes (added/removed items and a price delta) on an accepted proposal,
+-- each with its own public link and client e-signature.
+
+CREATE TABLE IF NOT EXISTS "change_orders" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "proposal_id" integer NOT NULL REFERENCES "proposals"("id") ON DELETE CASCADE,
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "number" integer NOT NULL,
+  "title" varchar(200) NOT NULL,
+  "description" text,
+  "added_scope" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "removed_scope" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "price_delta" integer NOT NULL DEFAULT 0,
+  "status" varchar(20) NOT NULL DEFAULT 'pending',
+  "public_token" varchar NOT NULL UNIQUE,
+  "accepted_at" timestamp,
+  "accepted_by_name" varchar,
+  "accepted_by_email" varchar,
+  "signature" text,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_change_orders_proposal" ON "change_orders" ("proposal_id", "number");
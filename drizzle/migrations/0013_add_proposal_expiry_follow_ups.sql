@@ -0,0 +1,26 @@
+-- Migration: Add proposal expiry and follow-up reminders
+-- Description: validUntil/sent tracking on proposals, per-contractor validity and follow-up
+-- sequence settings, and a log of follow-up emails already sent.
+
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "valid_until" timestamp;
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "sent_at" timestamp;
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "sent_to_email" varchar;
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "follow_ups_enabled" boolean NOT NULL DEFAULT true;
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "proposal_validity_days" integer NOT NULL DEFAULT 30;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "follow_up_sequence" jsonb;
+
+-- Proposals sent before this migration keep a NULL valid_until (they never expire)
+-- and have no recipient on record, so the follow-up engine skips them.
+
+CREATE TABLE IF NOT EXISTS "proposal_follow_ups" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "proposal_id" integer NOT NULL REFERENCES "proposals"("id") ON DELETE CASCADE,
+  "step_id" varchar(50) NOT NULL,
+  "trigger" varchar(30) NOT NULL,
+  "recipient" varchar(255) NOT NULL,
+  "message_id" text,
+  "sent_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_proposal_follow_ups_step" ON "proposal_follow_ups" ("proposal_id", "step_id");
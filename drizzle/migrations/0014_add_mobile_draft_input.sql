@@ -0,0 +1,8 @@
+-- Migration: Add structured draft input to mobile job drafts
+-- Description: Selected issues, remedies and confirmed scope are stored as versioned JSON
+-- instead of being encoded into the questions text array.
+
+ALTER TABLE "mobile_job_drafts" ADD COLUMN IF NOT EXISTS "draft_input" jsonb;
+
+-- Drafts still pending at deploy time have no draft_input; the worker rebuilds it
+-- from their legacy questions markers when it picks them up.
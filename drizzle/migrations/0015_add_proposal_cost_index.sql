@@ -0,0 +1,7 @@
+-- Migration: Record the regional cost index geography on proposals
+-- Description: Which ZIP / ZIP3 / county / state cost index entry the job address
+-- matched when the proposal was priced.
+
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "cost_index" jsonb;
+
+-- Existing proposals keep NULL: they were priced with the old state-only table.
@@ -0,0 +1,5 @@
+-- Migration: Add map measurements to mobile jobs
+-- Description: Fence/driveway measurements saved from /m/measure (and replayed from the
+-- offline outbox) are stored on the job so the measure pages can reload them.
+
+ALTER TABLE "mobile_jobs" ADD COLUMN IF NOT EXISTS "measurements" jsonb;
@@ -0,0 +1,6 @@
+-- Migration: Add roofing takeoff waste settings to users
+-- Description: Per-user overrides for the waste percentages used by the roofing
+-- material takeoff (shingles by complexity/pitch, underlayment, accessories).
+-- NULL means the built-in defaults.
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "roofing_waste_config" jsonb;
@@ -0,0 +1,11 @@
+-- Migration: Company-owned proposals for Crew workspaces
+-- Description: Proposals created by a company member belong to that company.
+-- Owners and admins see every team proposal; members see their own plus the
+-- ones shared with the team.
+
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "company_id" integer REFERENCES "companies"("id") ON DELETE SET NULL;
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "shared_with_company" boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS "idx_proposals_company" ON "proposals" ("company_id");
+
+-- Existing proposals keep NULL: they stay personal to the user who created them.
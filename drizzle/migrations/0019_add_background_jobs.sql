@@ -0,0 +1,55 @@
+-- Migration: Background job queue and cron schedules
+-- Description: One Postgres-backed queue for the draft, vision and similar-jobs
+-- embedding workers (previously each polled its own table in-process), plus the
+-- last/next run of each cron schedule so only one worker fires it.
+
+CREATE TABLE IF NOT EXISTS "background_jobs" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "name" varchar(80) NOT NULL,
+  "payload" jsonb NOT NULL DEFAULT '{}'::jsonb,
+  "status" varchar(20) NOT NULL DEFAULT 'pending',
+  "dedupe_key" varchar(160),
+  "attempts" integer NOT NULL DEFAULT 0,
+  "max_attempts" integer NOT NULL DEFAULT 5,
+  "run_at" timestamp NOT NULL DEFAULT now(),
+  "locked_by" varchar(80),
+  "locked_at" timestamp,
+  "last_error" text,
+  "started_at" timestamp,
+  "finished_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "idx_background_jobs_status_run_at" ON "background_jobs" ("status", "run_at");
+CREATE INDEX IF NOT EXISTS "idx_background_jobs_name_status" ON "background_jobs" ("name", "status");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_background_jobs_pending_dedupe" ON "background_jobs" ("dedupe_key") WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS "job_schedules" (
+  "name" varchar(80) PRIMARY KEY,
+  "cron" varchar(80) NOT NULL,
+  "next_run_at" timestamp NOT NULL,
+  "last_run_at" timestamp,
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
+
+-- Carry over work the old in-process workers had not finished yet.
+INSERT INTO "background_jobs" ("name", "payload", "dedupe_key")
+SELECT 'mobile.draft', jsonb_build_object('draftId', "id"), 'mobile.draft:' || "id"
+FROM "mobile_job_drafts"
+WHERE "status" IN ('pending', 'processing')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "background_jobs" ("name", "payload", "dedupe_key")
+SELECT 'mobile.vision', jsonb_build_object('photoId', "id"), 'mobile.vision:' || "id"
+FROM "mobile_job_photos"
+WHERE "findings_status" IN ('pending', 'processing')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "background_jobs" ("name", "payload", "dedupe_key")
+SELECT DISTINCT 'similar-jobs.embed', jsonb_build_object('jobId', "job_id"), 'similar-jobs.embed:' || "job_id"
+FROM "job_embedding_jobs"
+WHERE "status" IN ('pending', 'processing')
+ON CONFLICT DO NOTHING;
+
+-- job_embedding_jobs is no longer written; it is kept for history only.
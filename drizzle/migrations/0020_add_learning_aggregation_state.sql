@@ -0,0 +1,10 @@
+-- Migration: Learning aggregation watermarks
+-- Description: Tracks the last user_action_log id folded into the pattern tables
+-- by the nightly aggregation job, so each action is counted exactly once.
+
+CREATE TABLE IF NOT EXISTS "learning_aggregation_state" (
+  "pipeline" varchar(50) PRIMARY KEY,
+  "last_action_id" integer NOT NULL DEFAULT 0,
+  "last_run_at" timestamp,
+  "updated_at" timestamp NOT NULL DEFAULT now()
+);
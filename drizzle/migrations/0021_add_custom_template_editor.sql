@@ -0,0 +1,32 @@
+-- Migration: Contractor-owned custom templates
+-- Description: Custom proposal templates gain grouped scope sections and
+-- assumptions, remember the template they were forked from, can be shared with
+-- a Crew workspace, and keep a version history of every saved edit. Mobile jobs
+-- remember the template they were created from so drafts use the same one.
+
+ALTER TABLE "proposal_templates" ADD COLUMN IF NOT EXISTS "scope_sections" jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE "proposal_templates" ADD COLUMN IF NOT EXISTS "assumptions" jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE "proposal_templates" ADD COLUMN IF NOT EXISTS "company_id" integer REFERENCES "companies"("id") ON DELETE SET NULL;
+ALTER TABLE "proposal_templates" ADD COLUMN IF NOT EXISTS "shared_with_company" boolean NOT NULL DEFAULT false;
+ALTER TABLE "proposal_templates" ADD COLUMN IF NOT EXISTS "forked_from_id" integer REFERENCES "proposal_templates"("id") ON DELETE SET NULL;
+ALTER TABLE "proposal_templates" ADD COLUMN IF NOT EXISTS "version" integer NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS "idx_templates_company" ON "proposal_templates" ("company_id");
+
+CREATE TABLE IF NOT EXISTS "proposal_template_versions" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "template_id" integer NOT NULL REFERENCES "proposal_templates"("id") ON DELETE CASCADE,
+  "version" integer NOT NULL,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "snapshot" jsonb NOT NULL,
+  "changes" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "restored_from_version" integer,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_template_versions_template_version" ON "proposal_template_versions" ("template_id", "version");
+
+ALTER TABLE "mobile_jobs" ADD COLUMN IF NOT EXISTS "template_id" integer REFERENCES "proposal_templates"("id") ON DELETE SET NULL;
+
+-- Existing custom templates keep company_id NULL (personal) and start at version 1
+-- without a history row; the first saved edit records both versions.
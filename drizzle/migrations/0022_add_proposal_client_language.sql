@@ -0,0 +1,6 @@
+-- Migration: Per-proposal client language
+-- Description: Proposals remember the language the client reads them in. The
+-- PDF, the public proposal page and client emails render in that language;
+-- existing proposals stay English.
+
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "client_language" varchar(10) NOT NULL DEFAULT 'en';
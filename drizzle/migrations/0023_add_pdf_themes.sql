@@ -0,0 +1,6 @@
+-- Migration: Proposal PDF themes
+-- Description: Per-user and per-company branding for proposal PDFs (colors, font,
+-- logo placement, cover and terms pages, page size). Null keeps the defaults.
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "pdf_theme" jsonb;
+ALTER TABLE "companies" ADD COLUMN IF NOT EXISTS "pdf_theme" jsonb;
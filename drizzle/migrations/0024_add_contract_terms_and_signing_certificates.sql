@@ -0,0 +1,32 @@
+-- Migration: Contract terms and signing certificates
+-- Description: State terms & conditions attached to proposals, and an audit
+-- certificate per signature (signer, time, IP, user agent, consent text, and
+-- SHA-256 of the document and terms at signing).
+
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "contract_terms" jsonb;
+
+CREATE TABLE IF NOT EXISTS "signing_certificates" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "certificate_id" varchar(36) NOT NULL UNIQUE,
+  "proposal_id" integer NOT NULL REFERENCES "proposals"("id") ON DELETE CASCADE,
+  "role" varchar(20) NOT NULL,
+  "signer_name" varchar NOT NULL,
+  "signer_email" varchar,
+  "signer_user_id" varchar,
+  "signed_at" timestamp NOT NULL,
+  "ip_address" varchar(64),
+  "user_agent" text,
+  "consent_text" text NOT NULL,
+  "language" varchar(10) NOT NULL DEFAULT 'en',
+  "document_sha256" varchar(64) NOT NULL,
+  "signature_sha256" varchar(64) NOT NULL,
+  "terms_version" varchar(20),
+  "terms_state" varchar(2),
+  "terms_shown" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "terms_sha256" varchar(64) NOT NULL,
+  "certificate_sha256" varchar(64) NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+-- One signature per party on a proposal
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_signing_certificates_proposal_role" ON "signing_certificates" ("proposal_id", "role");
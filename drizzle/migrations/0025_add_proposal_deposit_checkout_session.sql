@@ -0,0 +1,6 @@
+-- Migration: Record the Checkout Session a proposal deposit was paid through
+-- Description: Deposit links live on the contractor's own Stripe account, so their
+-- events never reach the platform webhook. Deposits are read back from Stripe when
+-- the client returns; the session id keeps that and the webhook from counting twice.
+
+ALTER TABLE "proposals" ADD COLUMN IF NOT EXISTS "deposit_checkout_session_id" varchar;
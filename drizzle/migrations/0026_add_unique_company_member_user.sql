@@ -0,0 +1,26 @@
+-- Migration: One team workspace per user
+-- Description: Invite acceptance checked membership before inserting, so invites
+-- accepted at the same moment could put a user on two teams. Which membership to keep
+-- is a call for support, so the migration stops and lists the users on more than one
+-- team instead of removing rows. Remove the extra memberships, then run it again.
+
+DO $$
+DECLARE
+  conflicts text;
+BEGIN
+  SELECT string_agg(format('%s (%s)', "user_id", "memberships"), '; ' ORDER BY "user_id")
+  INTO conflicts
+  FROM (
+    SELECT "user_id", string_agg(format('row %s: company %s as %s', "id", "company_id", "role"), ', ' ORDER BY "id") AS "memberships"
+    FROM "company_members"
+    GROUP BY "user_id"
+    HAVING COUNT(*) > 1
+  ) AS "duplicated";
+
+  IF conflicts IS NOT NULL THEN
+    RAISE EXCEPTION 'Users belong to more than one team: %', conflicts
+      USING HINT = 'Delete the extra company_members rows for these users, then rerun this migration.';
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_company_members_user" ON "company_members" ("user_id");
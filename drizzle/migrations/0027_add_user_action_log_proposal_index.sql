@@ -0,0 +1,5 @@
+-- Migration: Look up logged actions by proposal
+-- Description: Saving a proposal replaces the option selections logged for it
+-- instead of appending a full set each time; the index keeps that lookup cheap.
+
+CREATE INDEX IF NOT EXISTS "idx_user_action_log_proposal" ON "user_action_log" ("proposal_id", "action_type");
@@ -22,18 +22,22 @@
  * track.scopeAdd('Install wax ring');
  * track.priceAdjust(5); // +5%
  * ```
+ *
+ * The profile is learned server-side and shared across devices; this hook
+ * reads the locally cached copy and refreshes it from the server.
  */
 
 import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { trackAction } from '@/src/lib/learning/adaptive-profile';
 import {
-  trackAction,
-  getLearnedPricingAdjustment,
-  getLearnedScopeModifications,
-  getLearnedPhotoCategory,
-  getLearnedCaptions,
-  getLearningProgress,
-} from '@/src/lib/learning/adaptive-profile';
+  learnedPricingAdjustment,
+  learnedScopeModifications,
+  learnedPhotoCategory,
+  learnedCaptions,
+  learningProgress,
+} from '@/src/lib/learning/adaptive-learning';
 import { getRequiredComponents, getMissingScopeItems } from './useAutoEnhance';
+import { useAdaptiveProfile } from './useAdaptiveProfile';
 
 // ==========================================
 // Types
@@ -82,20 +86,21 @@ interface UseAdaptiveReturn {
 export function useAdaptive(context: AdaptiveContext): UseAdaptiveReturn {
   const { userId, jobTypeId, tradeId, zipcode } = context;
   const proposalIdRef = useRef<string>(`proposal-${Date.now()}`);
+  const profile = useAdaptiveProfile(userId);
 
-  // Get learning progress on mount
+  // Learning progress from the synced profile
   const status = useMemo(() => {
-    if (!userId) {
+    if (!profile) {
       return { isAdapted: false, daysActive: 0, daysRemaining: 7, confidence: 0 };
     }
-    const progress = getLearningProgress(userId);
+    const progress = learningProgress(profile);
     return {
       isAdapted: progress.isComplete,
       daysActive: progress.daysActive,
       daysRemaining: progress.daysRemaining,
       confidence: progress.confidence,
     };
-  }, [userId]);
+  }, [profile]);
 
   // ==========================================
   // Apply Learning
@@ -122,7 +127,7 @@ export function useAdaptive(context: AdaptiveContext): UseAdaptiveReturn {
     }
 
     // 2. Add learned preferences (if adapted)
-    const learned = getLearnedScopeModifications(userId, enhanced, jobTypeId);
+    const learned = profile ? learnedScopeModifications(profile, enhanced, jobTypeId) : null;
     if (learned) {
       for (const item of learned.add) {
         if (!existing.has(item.toLowerCase())) {
@@ -134,15 +139,15 @@ export function useAdaptive(context: AdaptiveContext): UseAdaptiveReturn {
     }
 
     return enhanced;
-  }, [userId, jobTypeId]);
+  }, [userId, jobTypeId, profile]);
 
   /**
    * Adjust price based on learned patterns
    */
   const toPrice = useCallback((baseLow: number, baseHigh: number): { low: number; high: number } => {
-    if (!userId) return { low: baseLow, high: baseHigh };
+    if (!profile) return { low: baseLow, high: baseHigh };
 
-    const learned = getLearnedPricingAdjustment(userId, jobTypeId, zipcode);
+    const learned = learnedPricingAdjustment(profile, jobTypeId, zipcode);
     
     if (learned && learned.confidence >= 50) {
       const multiplier = 1 + (learned.adjustment / 100);
@@ -153,31 +158,31 @@ export function useAdaptive(context: AdaptiveContext): UseAdaptiveReturn {
     }
 
     return { low: baseLow, high: baseHigh };
-  }, [userId, jobTypeId, zipcode]);
+  }, [profile, jobTypeId, zipcode]);
 
   /**
    * Get photo category for position
    */
   const toPhotoCategory = useCallback((position: number): string => {
-    if (!userId) {
+    if (!profile) {
       return getDefaultCategory(position);
     }
 
-    const learned = getLearnedPhotoCategory(userId, position);
+    const learned = learnedPhotoCategory(profile, position);
     if (learned && learned.confidence >= 50) {
       return learned.category;
     }
 
     return getDefaultCategory(position);
-  }, [userId]);
+  }, [profile]);
 
   /**
    * Get caption suggestions
    */
   const toCaptions = useCallback((category: string): string[] => {
-    if (!userId) return [];
-    return getLearnedCaptions(userId, category);
-  }, [userId]);
+    if (!profile) return [];
+    return learnedCaptions(profile, category);
+  }, [profile]);
 
   // ==========================================
   // Track Actions
@@ -274,16 +279,18 @@ export function useAutoScope(
   onEnhance: (additions: string[]) => void
 ): void {
   const hasApplied = useRef<Record<string, boolean>>({});
+  const profile = useAdaptiveProfile(userId);
 
   useEffect(() => {
-    if (!jobTypeId || !userId) return;
+    // Wait for the cached profile so learned items go out with the first batch
+    if (!jobTypeId || !userId || !profile) return;
     if (hasApplied.current[jobTypeId]) return;
 
     // Get required items
     const required = getRequiredComponents(jobTypeId);
     
     // Get learned items
-    const learned = getLearnedScopeModifications(userId, [], jobTypeId);
+    const learned = learnedScopeModifications(profile, [], jobTypeId);
     
     const allItems = [
       ...required,
@@ -297,7 +304,7 @@ export function useAutoScope(
       onEnhance(unique);
       hasApplied.current[jobTypeId] = true;
     }
-  }, [jobTypeId, userId, onEnhance]);
+  }, [jobTypeId, userId, profile, onEnhance]);
 }
 
 /**
@@ -310,12 +317,14 @@ export function useAutoPrice(
   jobTypeId?: string,
   zipcode?: string
 ): { low: number; high: number; wasAdjusted: boolean } {
+  const profile = useAdaptiveProfile(userId);
+
   return useMemo(() => {
-    if (!userId || !baseLow || !baseHigh) {
+    if (!profile || !baseLow || !baseHigh) {
       return { low: baseLow, high: baseHigh, wasAdjusted: false };
     }
 
-    const learned = getLearnedPricingAdjustment(userId, jobTypeId, zipcode);
+    const learned = learnedPricingAdjustment(profile, jobTypeId, zipcode);
     
     if (learned && learned.confidence >= 50) {
       const multiplier = 1 + (learned.adjustment / 100);
@@ -327,7 +336,7 @@ export function useAutoPrice(
     }
 
     return { low: baseLow, high: baseHigh, wasAdjusted: false };
-  }, [userId, baseLow, baseHigh, jobTypeId, zipcode]);
+  }, [profile, baseLow, baseHigh, jobTypeId, zipcode]);
 }
 
 export default useAdaptive;
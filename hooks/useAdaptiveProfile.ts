@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  getUserProfile,
+  subscribeToProfile,
+  syncAdaptiveProfile,
+  type UserProfile,
+} from '@/src/lib/learning/adaptive-profile';
+
+/**
+ * The user's adaptive profile: the locally cached copy right away, then the
+ * server's once synced (and after each batch of tracked actions). Null until
+ * mounted or without a user.
+ */
+export function useAdaptiveProfile(userId?: string): UserProfile | null {
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    let active = true;
+    setProfile(getUserProfile(userId));
+
+    const unsubscribe = subscribeToProfile((updated) => {
+      if (active && updated.userId === userId) setProfile(updated);
+    });
+    void syncAdaptiveProfile(userId).then((synced) => {
+      if (active) setProfile(synced);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  return profile;
+}
+
+export default useAdaptiveProfile;
@@ -6,11 +6,15 @@
  * 
  * Features:
  * - Auto-adds commonly required components (wax rings, supply lines, etc.)
+ * - Adds items the user's adaptive profile learned they always include
  * - Learns from user modifications
  * - Applies regional patterns
  */
 
 import { useEffect, useRef, useCallback } from 'react';
+import { trackAction } from '@/src/lib/learning/adaptive-profile';
+import { learnedScopeModifications } from '@/src/lib/learning/adaptive-learning';
+import { useAdaptiveProfile } from './useAdaptiveProfile';
 
 // ==========================================
 // Types
@@ -202,6 +206,7 @@ export function useAutoEnhance({
 }: UseAutoEnhanceProps) {
   const hasRun = useRef(false);
   const previousJobType = useRef<string | null>(null);
+  const profile = useAdaptiveProfile(context.userId);
 
   // Get enhancements for current job type
   const getEnhancements = useCallback((): ScopeEnhancement => {
@@ -227,7 +232,12 @@ export function useAutoEnhance({
       }
     }
 
-    if (requiredItems.length === 0) {
+    // Items this user always adds (once their profile has adapted)
+    const learned = profile
+      ? learnedScopeModifications(profile, currentScope, context.jobTypeId)?.add ?? []
+      : [];
+
+    if (requiredItems.length === 0 && learned.length === 0) {
       return { additions: [], warnings: [] };
     }
 
@@ -261,8 +271,14 @@ export function useAutoEnhance({
       }
     }
 
+    for (const item of learned) {
+      if (!additions.some(added => added.toLowerCase() === item.toLowerCase())) {
+        additions.push(item);
+      }
+    }
+
     return { additions, warnings: [] };
-  }, [context.jobTypeId, currentScope]);
+  }, [context.jobTypeId, currentScope, profile]);
 
   // Run enhancement
   useEffect(() => {
@@ -270,6 +286,8 @@ export function useAutoEnhance({
     if (runOnce && hasRun.current && previousJobType.current === context.jobTypeId) return;
     if (!context.jobTypeId) return;
     if (!onScopeEnhance) return;
+    // Signed-in users: wait for the cached profile so learned items are included
+    if (context.userId && !profile) return;
 
     const { additions } = getEnhancements();
     
@@ -280,7 +298,7 @@ export function useAutoEnhance({
 
     hasRun.current = true;
     previousJobType.current = context.jobTypeId;
-  }, [context.jobTypeId, disabled, runOnce, getEnhancements, onScopeEnhance]);
+  }, [context.jobTypeId, context.userId, profile, disabled, runOnce, getEnhancements, onScopeEnhance]);
 
   // Return enhancement info for debugging/display
   return {
@@ -344,26 +362,23 @@ export function getMissingScopeItems(
 }
 
 /**
- * Silent background learning tracker
+ * Silent background learning tracker. Queued with the adaptive profile's
+ * batched action tracking (needs a signed-in user).
  */
 export function trackUserAction(
   action: 'scope_add' | 'scope_remove' | 'scope_modify' | 'price_adjust',
   context: EnhancementContext,
   data: Record<string, unknown>
 ): void {
-  // Fire and forget - don't await
-  if (typeof window === 'undefined') return;
-  
-  const endpoint = `/api/learning/track/${action.replace('_', '-')}`;
-  
-  fetch(endpoint, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    credentials: 'include',
-    body: JSON.stringify({ ...context, ...data }),
-  }).catch(() => {
-    // Silent fail
-  });
+  const { userId, ...trackContext } = context;
+  if (!userId) return;
+
+  trackAction(
+    userId,
+    action === 'scope_modify' ? 'scope_edit' : action,
+    trackContext,
+    { jobTypeId: context.jobTypeId, zipcode: context.zipcode, ...data }
+  );
 }
 
 export default useAutoEnhance;
@@ -0,0 +1,51 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { MeasurementSession } from '@/src/lib/mobile/measurements/session';
+import { saveJobMeasurements } from '@/app/m/lib/measurements';
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+export interface UseMeasurementAutosaveReturn {
+  /** Save now if anything changed since the last save */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Debounced server-side save of a job's measurement session while drawing.
+ * The first session seen counts as already saved (it came from the job).
+ */
+export function useMeasurementAutosave(
+  jobRef: string,
+  session: MeasurementSession | null
+): UseMeasurementAutosaveReturn {
+  const lastSavedRef = useRef<string | null>(null);
+  const latestRef = useRef(session);
+  latestRef.current = session;
+
+  const flush = useCallback(async () => {
+    const current = latestRef.current;
+    const serialized = JSON.stringify(current);
+    const previous = lastSavedRef.current;
+    if (!current || serialized === previous) return;
+    lastSavedRef.current = serialized;
+    try {
+      await saveJobMeasurements(jobRef, current);
+    } catch (e) {
+      lastSavedRef.current = previous;
+      console.error('Failed to save measurements:', e);
+    }
+  }, [jobRef]);
+
+  useEffect(() => {
+    if (!session) return;
+    if (lastSavedRef.current === null) {
+      lastSavedRef.current = JSON.stringify(session);
+      return;
+    }
+    const timer = setTimeout(() => void flush(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [session, flush]);
+
+  return { flush };
+}
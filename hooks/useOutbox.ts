@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  getOutboxItemsForJob,
+  summarizeOutbox,
+  type OutboxItem,
+  type OutboxSummary,
+} from '@/lib/mobile-outbox';
+import { startOutboxSync, subscribeOutbox } from '@/app/m/lib/outbox';
+
+export interface UseOutboxReturn {
+  /** Queued items (only this job's when a jobRef is given) */
+  items: OutboxItem[];
+  summary: OutboxSummary;
+  /** Browser connectivity as reported by navigator.onLine */
+  online: boolean;
+}
+
+/**
+ * Keeps the /m outbox syncing while mounted (mount once in the layout)
+ */
+export function useOutboxSync(): void {
+  useEffect(() => startOutboxSync(), []);
+}
+
+/**
+ * Live view of the offline outbox for per-item sync status
+ */
+export function useOutbox(jobRef?: string): UseOutboxReturn {
+  const [allItems, setAllItems] = useState<OutboxItem[]>([]);
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => subscribeOutbox(setAllItems), []);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const items = useMemo(
+    () => (jobRef ? getOutboxItemsForJob(allItems, jobRef) : allItems),
+    [allItems, jobRef]
+  );
+  const summary = useMemo(() => summarizeOutbox(items), [items]);
+
+  return { items, summary, online };
+}
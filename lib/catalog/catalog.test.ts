@@ -0,0 +1,263 @@
+/**
+ * Trade Catalog Unit Tests
+ *
+ * Tests for catalog validation and alias resolution, and consistency checks
+ * that fail when the generator templates, default DB templates, mobile job
+ * types or calculator drift from the catalog's IDs and prices.
+ * Run with: npx tsx lib/catalog/catalog.test.ts
+ */
+
+import { getDefaultTradeCatalog, loadTradeCatalog, type TradeCatalog } from './dataset';
+import {
+  findCatalogJobType,
+  getCalculatorTrades,
+  getJobTypeIdVariants,
+  getMobileJobTypeForEstimate,
+  getMobileJobTypes,
+  resolveJobTypeId,
+  resolveTradeId,
+} from './lookup';
+import { templates } from '../proposal-data';
+import { JOB_TYPE_DEFINITIONS, PRIMARY_JOB_TYPE_IDS, isValidJobTypeId, normalizeJobTypeId, normalizeJobTypeIds } from '../job-types';
+import { getDefaultTemplateForJobType, getDefaultTemplates } from '../services/template-seeder';
+import { TRADE_TO_JOB_TYPE, getJobTypeFromEstimate } from '../../app/m/lib/estimate-params';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+function assertThrows(fn: () => unknown, message: string) {
+  try {
+    fn();
+    console.log(`❌ FAIL: ${message} (did not throw)`);
+    failed++;
+  } catch {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  }
+}
+
+// Collects every divergence so one failure lists them all
+function assertNoDivergence(problems: string[], message: string) {
+  assert(problems.length === 0, message);
+  for (const problem of problems) console.log(`   ${problem}`);
+}
+
+function priceOf(jobTypeId: string) {
+  const match = findCatalogJobType(jobTypeId);
+  return match ? { price: match.jobType.price, days: match.jobType.days } : undefined;
+}
+
+function catalogWith(edit: (catalog: TradeCatalog) => void): TradeCatalog {
+  const catalog = structuredClone(getDefaultTradeCatalog());
+  edit(catalog);
+  return catalog;
+}
+
+// ============ TESTS ============
+
+function testBundledCatalog() {
+  console.log('\n--- bundled catalog ---');
+
+  const catalog = getDefaultTradeCatalog();
+  assert(catalog.version.length > 0, 'catalog is versioned');
+  assert(catalog.trades.length > 0, 'catalog has trades');
+  assert(getMobileJobTypes().length > 0, 'catalog has mobile job types');
+  assert(getCalculatorTrades().length > 0, 'catalog has calculator trades');
+}
+
+function testValidation() {
+  console.log('\n--- validation ---');
+
+  assertThrows(
+    () => loadTradeCatalog(catalogWith((c) => { c.trades[0].jobTypes[0].price = { low: 500, high: 100 }; })),
+    'rejects a reversed price range'
+  );
+  assertThrows(
+    () => loadTradeCatalog(catalogWith((c) => { c.trades[0].jobTypes[0].id = 'Tub To Shower'; })),
+    'rejects non-kebab-case IDs'
+  );
+  assertThrows(
+    () => loadTradeCatalog(catalogWith((c) => { c.trades[1].jobTypes.push(structuredClone(c.trades[0].jobTypes[0])); })),
+    'rejects a job type ID used in two trades'
+  );
+  assertThrows(
+    () => loadTradeCatalog(catalogWith((c) => { c.trades[0].jobTypes[0].aliases.push(c.trades[0].jobTypes[1].id); })),
+    'rejects an alias that shadows another job type'
+  );
+  assertThrows(
+    () => loadTradeCatalog(catalogWith((c) => { c.trades[1].aliases.push(c.trades[0].id); })),
+    'rejects a trade alias that shadows another trade'
+  );
+  assertThrows(
+    () => loadTradeCatalog(catalogWith((c) => {
+      const trade = c.trades.find((t) => !t.calculator)!;
+      trade.jobTypes[0].calculator = true;
+    })),
+    'requires a materials/labor split for calculator trades'
+  );
+}
+
+function testAliases() {
+  console.log('\n--- aliases ---');
+
+  assertEqual(resolveJobTypeId('full-gut'), 'full-gut', 'resolves canonical IDs');
+  assertEqual(resolveJobTypeId('cabinet-refacing'), 'cabinet-reface', 'resolves retired mobile IDs');
+  assertEqual(resolveJobTypeId('ada-accessible'), 'ada-accessibility', 'resolves retired calculator IDs');
+  assertEqual(resolveJobTypeId(' Full-Kitchen '), 'full-kitchen-gut', 'ignores case and whitespace');
+  assertEqual(resolveJobTypeId('hot-tub'), undefined, 'unknown job types do not resolve');
+  assertEqual(resolveTradeId('windows'), 'windows-doors', 'resolves trade aliases');
+  assertEqual(findCatalogJobType('full-gut', 'kitchen'), undefined, 'a trade scopes job type lookups');
+  assertEqual(getJobTypeIdVariants('countertop-replacement'), ['countertop-replace', 'countertop-replacement'], 'lists every stored ID of a job type');
+  assertEqual(getJobTypeIdVariants('custom-job'), ['custom-job'], 'custom template IDs pass through');
+}
+
+function testGeneratorTemplates() {
+  console.log('\n--- generator templates ---');
+
+  const problems: string[] = [];
+  for (const template of templates) {
+    const trade = getDefaultTradeCatalog().trades.find((t) => t.id === template.id);
+    if (!trade) problems.push(`trade ${template.id} is not in the catalog`);
+    else if (trade.name !== template.trade) problems.push(`trade ${template.id} is named "${template.trade}"`);
+
+    for (const jobType of template.jobTypes) {
+      const match = findCatalogJobType(jobType.id, template.id);
+      if (!match || match.jobType.id !== jobType.id) {
+        problems.push(`${template.id}/${jobType.id} is not a catalog ID`);
+        continue;
+      }
+      if (JSON.stringify(jobType.basePriceRange) !== JSON.stringify(match.jobType.price)) {
+        problems.push(`${template.id}/${jobType.id} is priced ${JSON.stringify(jobType.basePriceRange)}`);
+      }
+      if (JSON.stringify(jobType.estimatedDays) !== JSON.stringify(match.jobType.days)) {
+        problems.push(`${template.id}/${jobType.id} takes ${JSON.stringify(jobType.estimatedDays)}`);
+      }
+      if (jobType.name !== match.jobType.name) problems.push(`${template.id}/${jobType.id} is named "${jobType.name}"`);
+    }
+  }
+  assertNoDivergence(problems, 'generator template IDs, names and prices match the catalog');
+}
+
+function testDefaultDbTemplates() {
+  console.log('\n--- default DB templates ---');
+
+  const problems: string[] = [];
+  const seeded = new Set(getDefaultTemplates().map((t) => t.jobTypeId));
+  for (const { trade, jobType } of getMobileJobTypes()) {
+    if (!seeded.has(jobType.id)) problems.push(`mobile job type ${jobType.id} has no default template`);
+    const template = getDefaultTemplateForJobType(jobType.id);
+    if (!template) continue;
+    if (template.tradeId !== trade.id) problems.push(`${jobType.id} is seeded under trade ${template.tradeId}`);
+    const seededRange = { price: { low: template.basePriceLow, high: template.basePriceHigh }, days: { low: template.estimatedDaysLow, high: template.estimatedDaysHigh } };
+    if (JSON.stringify(seededRange) !== JSON.stringify(priceOf(jobType.id))) {
+      problems.push(`${jobType.id} is seeded at ${JSON.stringify(seededRange)}`);
+    }
+  }
+  for (const jobTypeId of seeded) {
+    if (!findCatalogJobType(jobTypeId)?.jobType.mobile) problems.push(`default template ${jobTypeId} is not a mobile job type`);
+  }
+  assertNoDivergence(problems, 'default templates cover exactly the mobile job types at catalog prices');
+
+  assertEqual(getDefaultTemplateForJobType('cabinet-refacing')?.jobTypeId, 'cabinet-reface', 'retired IDs find their default template');
+}
+
+function testMobileJobTypes() {
+  console.log('\n--- mobile job types ---');
+
+  const problems: string[] = [];
+  for (const definition of JOB_TYPE_DEFINITIONS) {
+    const mobile = findCatalogJobType(definition.id)?.jobType.mobile;
+    if (!mobile || mobile.hidden) problems.push(`${definition.id} is not a visible mobile job type`);
+    else if (mobile.label !== definition.label) problems.push(`${definition.id} is labelled "${definition.label}"`);
+  }
+  for (const id of PRIMARY_JOB_TYPE_IDS) {
+    if (!isValidJobTypeId(id)) problems.push(`primary job type ${id} is not offered`);
+  }
+  assertNoDivergence(problems, 'job picker IDs come from the catalog');
+
+  assertEqual(JOB_TYPE_DEFINITIONS.slice(0, PRIMARY_JOB_TYPE_IDS.length).map((t) => t.id), [...PRIMARY_JOB_TYPE_IDS], 'primary job types come first');
+  assertEqual(normalizeJobTypeId('countertop-replacement'), 'countertop-replace', 'stored retired IDs normalize');
+  assertEqual(normalizeJobTypeIds(['cabinet-refacing', 'cabinet-reface', 'nope']), ['cabinet-reface'], 'stored recents drop unknown and duplicate IDs');
+}
+
+function testCalculator() {
+  console.log('\n--- calculator ---');
+
+  const problems: string[] = [];
+  for (const trade of getCalculatorTrades()) {
+    if (Math.abs(trade.materialsRatio + trade.laborRatio - 1) > 1e-9) problems.push(`${trade.id} split does not add up`);
+    for (const jobType of trade.jobTypes) {
+      const catalogRange = priceOf(jobType.id);
+      const shown = { price: { low: jobType.low, high: jobType.high }, days: { low: jobType.days[0], high: jobType.days[1] } };
+      if (JSON.stringify(shown) !== JSON.stringify(catalogRange)) problems.push(`${trade.id}/${jobType.id} shows ${JSON.stringify(shown)}`);
+
+      // Every estimate must land on a job type the create page accepts
+      const handoff = getJobTypeFromEstimate({ trade: trade.id, jobType: jobType.id });
+      if (!handoff || !isValidJobTypeId(handoff)) problems.push(`${trade.id}/${jobType.id} hands off to ${handoff}`);
+    }
+  }
+  assertNoDivergence(problems, 'calculator job types match catalog prices and hand off to valid mobile job types');
+
+  const featured = getCalculatorTrades({ featuredOnly: true });
+  assert(
+    featured.every((trade) => trade.jobTypes.every((jobType) => findCatalogJobType(jobType.id)?.jobType.calculator)),
+    'featured job types are calculator job types'
+  );
+
+  assertEqual(getJobTypeFromEstimate({ trade: 'bathroom', jobType: 'tub-to-shower' }), 'tub-to-shower', 'estimates hand off to the same mobile job type');
+  assertEqual(getJobTypeFromEstimate({ trade: 'bathroom', jobType: 'full-gut' }), 'bathroom-remodel', 'other estimates hand off to the trade default');
+  assertEqual(getMobileJobTypeForEstimate('kitchen', 'cabinet-refacing'), 'cabinet-reface', 'estimates with retired IDs hand off');
+  assertEqual(TRADE_TO_JOB_TYPE.windows, 'windows', 'trade aliases map to mobile job types');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Trade Catalog Unit Tests');
+  console.log('='.repeat(50));
+
+  testBundledCatalog();
+  testValidation();
+  testAliases();
+  testGeneratorTemplates();
+  testDefaultDbTemplates();
+  testMobileJobTypes();
+  testCalculator();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,117 @@
+/**
+ * Trade Catalog Dataset
+ *
+ * Schema and loader for the trade/job-type catalog: the single list of trade
+ * and job type IDs, names, base price ranges and durations that the proposal
+ * generator, price calculator, mobile job picker and default DB templates
+ * derive from. The bundled catalog lives in ./data/trade-catalog.json; bump
+ * its version whenever an ID or price changes.
+ *
+ * Pure module - safe to import from client and server code.
+ */
+
+import { z } from "zod";
+import bundledCatalog from "./data/trade-catalog.json";
+
+const catalogIdSchema = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Catalog IDs must be lowercase kebab-case");
+
+const rangeSchema = z
+  .object({ low: z.number().int().min(0), high: z.number().int().min(0) })
+  .refine((range) => range.low <= range.high, "Range low must not exceed high");
+
+export const mobileJobTypeCategories = ["interior", "exterior", "systems", "general"] as const;
+
+export const catalogJobTypeSchema = z.object({
+  id: catalogIdSchema,
+  name: z.string().min(1),
+  // National base range in USD, before size, package and regional multipliers
+  price: rangeSchema,
+  days: rangeSchema.refine((range) => range.low >= 1, "Durations start at 1 day"),
+  // Retired or consumer-specific IDs that resolve to this job type
+  aliases: z.array(catalogIdSchema).default([]),
+  // Offered by the public price calculator; featured ones also by the homepage quick estimate
+  calculator: z.boolean().default(false),
+  featured: z.boolean().default(false),
+  // Seeded as a default DB template for mobile jobs; hidden ones stay out of the job picker
+  mobile: z
+    .object({
+      label: z.string().min(1),
+      icon: z.string().min(1),
+      category: z.enum(mobileJobTypeCategories),
+      hidden: z.boolean().default(false),
+    })
+    .optional(),
+});
+
+export const catalogTradeSchema = z.object({
+  id: catalogIdSchema,
+  name: z.string().min(1),
+  // Label for compact UI such as mobile template lists
+  shortName: z.string().min(1).optional(),
+  aliases: z.array(catalogIdSchema).default([]),
+  // Materials/labor split shown by the price calculator
+  calculator: z
+    .object({ materialsRatio: z.number().min(0).max(1), laborRatio: z.number().min(0).max(1) })
+    .refine((split) => Math.abs(split.materialsRatio + split.laborRatio - 1) < 1e-9, "Materials and labor must add up to 1")
+    .optional(),
+  jobTypes: z.array(catalogJobTypeSchema).min(1),
+});
+
+export const tradeCatalogSchema = z.object({
+  version: z.string().min(1),
+  description: z.string().optional(),
+  trades: z.array(catalogTradeSchema).min(1),
+});
+
+export type TradeCatalog = z.infer<typeof tradeCatalogSchema>;
+export type CatalogTrade = TradeCatalog["trades"][number];
+export type CatalogJobType = CatalogTrade["jobTypes"][number];
+export type MobileJobTypeCategory = typeof mobileJobTypeCategories[number];
+
+/**
+ * Validate a catalog and check that IDs resolve unambiguously: trade IDs and
+ * aliases are unique, and job type IDs and aliases are unique across the whole
+ * catalog (DB templates and mobile jobs are keyed by job type ID alone).
+ * Throws with the first problem found.
+ */
+export function loadTradeCatalog(raw: unknown): TradeCatalog {
+  const catalog = tradeCatalogSchema.parse(raw);
+
+  const tradeKeys = new Map<string, string>();
+  const jobTypeKeys = new Map<string, string>();
+
+  for (const trade of catalog.trades) {
+    for (const key of [trade.id, ...trade.aliases]) {
+      const owner = tradeKeys.get(key);
+      if (owner) throw new Error(`Trade catalog ID ${key} is used by both ${owner} and ${trade.id}`);
+      tradeKeys.set(key, trade.id);
+    }
+
+    for (const jobType of trade.jobTypes) {
+      const where = `${trade.id}/${jobType.id}`;
+      for (const key of [jobType.id, ...jobType.aliases]) {
+        const owner = jobTypeKeys.get(key);
+        if (owner) throw new Error(`Trade catalog job type ID ${key} is used by both ${owner} and ${where}`);
+        jobTypeKeys.set(key, where);
+      }
+      if (jobType.featured && !jobType.calculator) {
+        throw new Error(`Trade catalog job type ${where} is featured but not in the calculator`);
+      }
+      if (jobType.calculator && !trade.calculator) {
+        throw new Error(`Trade catalog job type ${where} is in the calculator but ${trade.id} has no materials/labor split`);
+      }
+    }
+  }
+
+  return catalog;
+}
+
+let defaultCatalog: TradeCatalog | null = null;
+
+// The bundled catalog, validated once on first use
+export function getDefaultTradeCatalog(): TradeCatalog {
+  if (!defaultCatalog) {
+    defaultCatalog = loadTradeCatalog(bundledCatalog);
+  }
+  return defaultCatalog;
+}
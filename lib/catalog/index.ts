@@ -0,0 +1,9 @@
+/**
+ * Trade/job-type catalog: IDs, aliases, base prices and durations shared by
+ * the generator, calculator, mobile app and default DB templates.
+ *
+ * Everything here is pure and safe to import from client and server code.
+ */
+
+export * from "./dataset";
+export * from "./lookup";
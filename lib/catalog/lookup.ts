@@ -0,0 +1,149 @@
+/**
+ * Trade Catalog Lookup
+ *
+ * Resolves trade and job type IDs (canonical or alias) against the catalog
+ * and derives the views each consumer needs: mobile job types, calculator
+ * trades and the calculator → mobile handoff.
+ *
+ * Pure module - safe to import from client and server code.
+ */
+
+import { getDefaultTradeCatalog, type CatalogJobType, type CatalogTrade } from "./dataset";
+
+export interface CatalogJobTypeMatch {
+  trade: CatalogTrade;
+  jobType: CatalogJobType;
+}
+
+export interface CalculatorJobType {
+  id: string;
+  name: string;
+  low: number;
+  high: number;
+  days: [number, number];
+}
+
+export interface CalculatorTrade {
+  id: string;
+  name: string;
+  materialsRatio: number;
+  laborRatio: number;
+  jobTypes: CalculatorJobType[];
+}
+
+function normalizeKey(input: string): string {
+  return input.trim().toLowerCase();
+}
+
+/**
+ * Trade for a canonical trade ID or alias (e.g. "windows" → "windows-doors").
+ */
+export function getCatalogTrade(input: string, catalog = getDefaultTradeCatalog()): CatalogTrade | undefined {
+  const key = normalizeKey(input);
+  return catalog.trades.find((trade) => trade.id === key || trade.aliases.includes(key));
+}
+
+export function resolveTradeId(input: string, catalog = getDefaultTradeCatalog()): string | undefined {
+  return getCatalogTrade(input, catalog)?.id;
+}
+
+/**
+ * Job type for a canonical job type ID or alias (e.g. "cabinet-refacing" →
+ * "cabinet-reface"). With a trade, only job types of that trade match.
+ */
+export function findCatalogJobType(
+  input: string,
+  tradeInput?: string,
+  catalog = getDefaultTradeCatalog()
+): CatalogJobTypeMatch | undefined {
+  const key = normalizeKey(input);
+  const trades = tradeInput === undefined ? catalog.trades : [getCatalogTrade(tradeInput, catalog)];
+  for (const trade of trades) {
+    const jobType = trade?.jobTypes.find((candidate) => candidate.id === key || candidate.aliases.includes(key));
+    if (trade && jobType) return { trade, jobType };
+  }
+  return undefined;
+}
+
+export function resolveJobTypeId(input: string, catalog = getDefaultTradeCatalog()): string | undefined {
+  return findCatalogJobType(input, undefined, catalog)?.jobType.id;
+}
+
+/**
+ * Like findCatalogJobType, for code that is built from the catalog and must
+ * not drift from it. Throws when the job type is missing.
+ */
+export function requireCatalogJobType(
+  input: string,
+  tradeInput?: string,
+  catalog = getDefaultTradeCatalog()
+): CatalogJobTypeMatch {
+  const match = findCatalogJobType(input, tradeInput, catalog);
+  if (!match) {
+    const where = tradeInput === undefined ? input : `${tradeInput}/${input}`;
+    throw new Error(`Job type ${where} is not in trade catalog ${catalog.version}`);
+  }
+  return match;
+}
+
+/**
+ * Every ID a job type has been stored under: the canonical ID first, then
+ * its aliases. IDs outside the catalog (custom templates) come back as-is.
+ */
+export function getJobTypeIdVariants(input: string, catalog = getDefaultTradeCatalog()): string[] {
+  const match = findCatalogJobType(input, undefined, catalog);
+  return match ? [match.jobType.id, ...match.jobType.aliases] : [input];
+}
+
+/**
+ * Job types seeded as default mobile templates, in catalog order. Includes
+ * hidden ones; filter on `mobile.hidden` for the job picker.
+ */
+export function getMobileJobTypes(catalog = getDefaultTradeCatalog()): CatalogJobTypeMatch[] {
+  return catalog.trades.flatMap((trade) =>
+    trade.jobTypes.filter((jobType) => jobType.mobile).map((jobType) => ({ trade, jobType }))
+  );
+}
+
+/**
+ * Mobile job type a calculator estimate hands off to: the estimated job type
+ * when mobile offers it, otherwise the trade's first mobile job type.
+ */
+export function getMobileJobTypeForEstimate(
+  tradeInput: string,
+  jobTypeInput?: string,
+  catalog = getDefaultTradeCatalog()
+): string | undefined {
+  const trade = getCatalogTrade(tradeInput, catalog);
+  if (!trade) return undefined;
+  const estimated = jobTypeInput ? findCatalogJobType(jobTypeInput, trade.id, catalog) : undefined;
+  if (estimated?.jobType.mobile) return estimated.jobType.id;
+  return trade.jobTypes.find((jobType) => jobType.mobile)?.id;
+}
+
+/**
+ * Trades and job types offered by the price calculator, or with
+ * `featuredOnly` the shorter list shown by the homepage quick estimate.
+ */
+export function getCalculatorTrades(
+  options: { featuredOnly?: boolean } = {},
+  catalog = getDefaultTradeCatalog()
+): CalculatorTrade[] {
+  return catalog.trades.flatMap((trade) => {
+    const jobTypes = trade.jobTypes.filter((jobType) => (options.featuredOnly ? jobType.featured : jobType.calculator));
+    if (!trade.calculator || jobTypes.length === 0) return [];
+    return [{
+      id: trade.id,
+      name: trade.name,
+      materialsRatio: trade.calculator.materialsRatio,
+      laborRatio: trade.calculator.laborRatio,
+      jobTypes: jobTypes.map((jobType) => ({
+        id: jobType.id,
+        name: jobType.name,
+        low: jobType.price.low,
+        high: jobType.price.high,
+        days: [jobType.days.low, jobType.days.high],
+      })),
+    }];
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Change Order Contract Unit Tests
+ * 
+ * Tests for change order validation and the running contract total.
+ * Run with: npx tsx lib/change-orders/contract.test.ts
+ */
+
+import {
+  buildContractLedger,
+  createChangeOrderSchema,
+  formatChangeOrderNumber,
+  formatPriceDelta,
+  getOriginalContractTotal,
+} from './contract';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+function order(number: number, priceDelta: number, status: string) {
+  return { number, title: `Change ${number}`, priceDelta, status };
+}
+
+// ============ TESTS ============
+
+function testOriginalTotal() {
+  console.log('\n--- getOriginalContractTotal ---');
+  assertEqual(getOriginalContractTotal({ priceLow: 9000, priceHigh: 11000 }), 10000, 'midpoint of the accepted range');
+  assertEqual(getOriginalContractTotal({ priceLow: 1000, priceHigh: 1001 }), 1001, 'rounds to whole dollars');
+}
+
+function testLedger() {
+  console.log('\n--- buildContractLedger ---');
+  const empty = buildContractLedger(10000, []);
+  assertEqual(empty.currentTotal, 10000, 'no change orders keeps the original total');
+  assertEqual(empty.rows.length, 0, 'no rows without change orders');
+
+  const ledger = buildContractLedger(10000, [
+    order(3, 500, 'pending'),
+    order(1, 2500, 'accepted'),
+    order(2, -750, 'accepted'),
+  ]);
+  assertEqual(ledger.rows.map((r) => r.changeOrder.number), [1, 2, 3], 'rows are ordered by change order number');
+  assertEqual(ledger.rows.map((r) => r.runningTotal), [12500, 11750, 11750], 'running total after each change order');
+  assertEqual(ledger.currentTotal, 11750, 'pending orders do not move the contract total');
+
+  const withVoid = buildContractLedger(10000, [order(1, 2500, 'void'), order(2, 100, 'accepted')]);
+  assertEqual(withVoid.rows.length, 1, 'voided orders are left out of the ledger');
+  assertEqual(withVoid.currentTotal, 10100, 'voided orders do not affect the total');
+}
+
+function testValidation() {
+  console.log('\n--- createChangeOrderSchema ---');
+  const valid = createChangeOrderSchema.safeParse({ title: 'Add outlet', addedScope: ['Install GFCI outlet'], priceDelta: 180 });
+  assert(valid.success, 'accepts added scope with a price delta');
+  assertEqual(valid.success ? valid.data.removedScope : null, [], 'removed scope defaults to empty');
+
+  const credit = createChangeOrderSchema.safeParse({ title: 'Credit', priceDelta: -300 });
+  assert(credit.success, 'accepts a price-only credit');
+
+  const noop = createChangeOrderSchema.safeParse({ title: 'Nothing', priceDelta: 0 });
+  assert(!noop.success, 'rejects a change order that changes nothing');
+
+  const fractional = createChangeOrderSchema.safeParse({ title: 'Odd', priceDelta: 10.5 });
+  assert(!fractional.success, 'rejects fractional dollar deltas');
+
+  const untitled = createChangeOrderSchema.safeParse({ title: '  ', priceDelta: 10 });
+  assert(!untitled.success, 'rejects a blank title');
+}
+
+function testFormatting() {
+  console.log('\n--- formatting ---');
+  assertEqual(formatChangeOrderNumber(4), 'CO-4', 'change order number');
+  assertEqual(formatPriceDelta(1500), '+$1,500', 'positive delta is signed');
+  assertEqual(formatPriceDelta(-250), '-$250', 'negative delta is signed');
+  assertEqual(formatPriceDelta(0), '$0', 'zero delta has no sign');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Change Order Contract Unit Tests');
+  console.log('='.repeat(50));
+
+  testOriginalTotal();
+  testLedger();
+  testValidation();
+  testFormatting();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
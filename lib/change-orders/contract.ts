@@ -0,0 +1,80 @@
+/**
+ * Change Order Contract Helpers
+ *
+ * Validation and running-contract-total math for change orders on an
+ * accepted proposal. Safe to import from client and server code.
+ */
+
+import { z } from "zod";
+
+export const createChangeOrderSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(2000).optional(),
+    addedScope: z.array(z.string().trim().min(1).max(500)).max(50).default([]),
+    removedScope: z.array(z.string().trim().min(1).max(500)).max(50).default([]),
+    priceDelta: z.number().int().min(-10_000_000).max(10_000_000),
+  })
+  .refine(
+    (order) => order.addedScope.length > 0 || order.removedScope.length > 0 || order.priceDelta !== 0,
+    { message: "A change order must change the scope or the price" }
+  );
+
+export type CreateChangeOrderInput = z.infer<typeof createChangeOrderSchema>;
+
+type ChangeOrderLike = {
+  number: number;
+  title: string;
+  priceDelta: number;
+  status: string;
+};
+
+export interface ContractLedgerRow<T extends ChangeOrderLike> {
+  changeOrder: T;
+  // Contract total after this change order; pending orders don't move it
+  runningTotal: number;
+}
+
+export function formatChangeOrderNumber(number: number): string {
+  return `CO-${number}`;
+}
+
+/**
+ * Original contract total in dollars (midpoint of the accepted price range,
+ * the same figure shown as the project total on the proposal).
+ */
+export function getOriginalContractTotal(proposal: { priceLow: number; priceHigh: number }): number {
+  return Math.round((proposal.priceLow + proposal.priceHigh) / 2);
+}
+
+/**
+ * Build the running contract total across change orders (voided orders are
+ * skipped). Only accepted orders change the total.
+ */
+export function buildContractLedger<T extends ChangeOrderLike>(
+  originalTotal: number,
+  changeOrders: T[]
+): { rows: ContractLedgerRow<T>[]; currentTotal: number } {
+  let runningTotal = originalTotal;
+  const rows = [...changeOrders]
+    .filter((order) => order.status !== "void")
+    .sort((a, b) => a.number - b.number)
+    .map((changeOrder) => {
+      if (changeOrder.status === "accepted") {
+        runningTotal += changeOrder.priceDelta;
+      }
+      return { changeOrder, runningTotal };
+    });
+  return { rows, currentTotal: runningTotal };
+}
+
+export function formatPriceDelta(delta: number): string {
+  const formatted = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(Math.abs(delta));
+  if (delta > 0) return `+${formatted}`;
+  if (delta < 0) return `-${formatted}`;
+  return formatted;
+}
@@ -0,0 +1,16 @@
+/**
+ * Change Orders Module
+ * 
+ * Server-side only module for change orders on accepted proposals.
+ * Client code should import pure helpers from './contract' directly.
+ */
+
+export * from './contract';
+export {
+  createChangeOrder,
+  listChangeOrdersByProposal,
+  getChangeOrderById,
+  getChangeOrderByPublicToken,
+  acceptChangeOrder,
+  voidChangeOrder,
+} from './storage';
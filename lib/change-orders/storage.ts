@@ -0,0 +1,102 @@
+/**
+ * Change Order Storage Service
+ *
+ * Database operations for proposal change orders.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import { changeOrders, type ChangeOrder } from "@shared/schema";
+import { and, asc, eq, sql } from "drizzle-orm";
+import type { CreateChangeOrderInput } from "./contract";
+
+/**
+ * Create a change order with the next per-proposal number.
+ */
+export async function createChangeOrder(
+  proposalId: number,
+  userId: string,
+  input: CreateChangeOrderInput
+): Promise<ChangeOrder> {
+  return await db.transaction(async (tx) => {
+    // Serialize numbering per proposal
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`change_orders:${proposalId}`}))`);
+
+    const [{ maxNumber }] = await tx
+      .select({ maxNumber: sql<number>`coalesce(max(${changeOrders.number}), 0)` })
+      .from(changeOrders)
+      .where(eq(changeOrders.proposalId, proposalId));
+
+    const [changeOrder] = await tx
+      .insert(changeOrders)
+      .values({
+        proposalId,
+        userId,
+        number: Number(maxNumber) + 1,
+        title: input.title,
+        description: input.description || null,
+        addedScope: input.addedScope,
+        removedScope: input.removedScope,
+        priceDelta: input.priceDelta,
+        status: "pending",
+        publicToken: crypto.randomUUID(),
+      })
+      .returning();
+    return changeOrder;
+  });
+}
+
+export async function listChangeOrdersByProposal(proposalId: number): Promise<ChangeOrder[]> {
+  return await db
+    .select()
+    .from(changeOrders)
+    .where(eq(changeOrders.proposalId, proposalId))
+    .orderBy(asc(changeOrders.number));
+}
+
+export async function getChangeOrderById(id: number): Promise<ChangeOrder | undefined> {
+  const [changeOrder] = await db.select().from(changeOrders).where(eq(changeOrders.id, id));
+  return changeOrder;
+}
+
+export async function getChangeOrderByPublicToken(token: string): Promise<ChangeOrder | undefined> {
+  const [changeOrder] = await db.select().from(changeOrders).where(eq(changeOrders.publicToken, token));
+  return changeOrder;
+}
+
+/**
+ * Record the client's signature. Only pending change orders can be accepted.
+ */
+export async function acceptChangeOrder(
+  token: string,
+  acceptedByName: string,
+  acceptedByEmail: string,
+  signature: string
+): Promise<ChangeOrder | undefined> {
+  const now = new Date();
+  const [updated] = await db
+    .update(changeOrders)
+    .set({
+      status: "accepted",
+      acceptedAt: now,
+      acceptedByName,
+      acceptedByEmail,
+      signature,
+      updatedAt: now,
+    })
+    .where(and(eq(changeOrders.publicToken, token), eq(changeOrders.status, "pending")))
+    .returning();
+  return updated;
+}
+
+/**
+ * Withdraw a change order the client hasn't signed yet.
+ */
+export async function voidChangeOrder(id: number, userId: string): Promise<ChangeOrder | undefined> {
+  const [updated] = await db
+    .update(changeOrders)
+    .set({ status: "void", updatedAt: new Date() })
+    .where(and(eq(changeOrders.id, id), eq(changeOrders.userId, userId), eq(changeOrders.status, "pending")))
+    .returning();
+  return updated;
+}
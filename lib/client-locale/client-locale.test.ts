@@ -0,0 +1,184 @@
+/**
+ * Client Locale Module Unit Tests
+ *
+ * Tests for client language resolution, message catalogs, localization of
+ * stored catalog content, and translation coverage.
+ * Run with: npx tsx lib/client-locale/client-locale.test.ts
+ */
+
+import {
+  CLIENT_LOCALES,
+  fillMessage,
+  formatClientCurrency,
+  formatClientDate,
+  getClientMessages,
+  getTranslationCoverage,
+  localizeCatalogString,
+  localizeProposalContent,
+  resolveClientLanguage,
+} from './index';
+import { getJobTypeTranslation, templates } from '../proposal-data';
+import { describeRevisionChange } from '../proposal-revisions';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+function messageKeys(value: unknown, prefix = ''): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return [prefix];
+  return Object.entries(value).flatMap(([key, child]) => messageKeys(child, prefix ? `${prefix}.${key}` : key));
+}
+
+// ============ TEST DATA ============
+
+const bathroom = templates.find(t => t.id === 'bathroom')!;
+const tubToShower = bathroom.jobTypes.find(j => j.id === 'tub-to-shower')!;
+const tubToShowerEs = getJobTypeTranslation('es', 'bathroom', 'tub-to-shower')!;
+
+// ============ TESTS ============
+
+function testResolveClientLanguage() {
+  console.log('\n--- resolveClientLanguage ---');
+  assertEqual(resolveClientLanguage('es'), 'es', 'keeps a known language');
+  assertEqual(resolveClientLanguage('fr'), 'en', 'falls back to English for unknown languages');
+  assertEqual(resolveClientLanguage(null), 'en', 'falls back to English when unset');
+  assertEqual(resolveClientLanguage('toString'), 'en', 'ignores inherited object keys');
+}
+
+function testMessages() {
+  console.log('\n--- messages ---');
+  const englishKeys = messageKeys(CLIENT_LOCALES.en.messages);
+  for (const locale of Object.values(CLIENT_LOCALES)) {
+    assertEqual(messageKeys(locale.messages), englishKeys, `${locale.id} messages have the same keys as English`);
+    assertEqual(
+      locale.messages.document.terms.length,
+      CLIENT_LOCALES.en.messages.document.terms.length,
+      `${locale.id} has every term`
+    );
+  }
+  assertEqual(getClientMessages('es').document.scopeOfWork, 'Alcance del Trabajo', 'returns Spanish messages');
+  assertEqual(getClientMessages('xx').document.scopeOfWork, 'Scope of Work', 'unknown languages get English messages');
+}
+
+function testFillMessage() {
+  console.log('\n--- fillMessage ---');
+  assertEqual(fillMessage('Hi {name},', { name: 'Ana' }), 'Hi Ana,', 'fills placeholders');
+  assertEqual(fillMessage('{count} of {total}', { count: 2 }), '2 of {total}', 'leaves unknown placeholders as written');
+}
+
+function testFormatting() {
+  console.log('\n--- formatting ---');
+  assertEqual(formatClientCurrency(12500, 'en'), '$12,500', 'formats whole dollars in English');
+  assert(formatClientCurrency(12500, 'es').includes('12,500'), 'formats whole dollars for US Spanish');
+  assertEqual(formatClientDate('2026-03-05T12:00:00Z', 'en'), 'March 5, 2026', 'formats long English dates');
+  assert(formatClientDate('2026-03-05T12:00:00Z', 'es').includes('marzo'), 'formats long Spanish dates');
+}
+
+function testLocalizeProposalContent() {
+  console.log('\n--- localizeProposalContent ---');
+  const proposal = {
+    clientName: 'Ana Torres',
+    jobTypeName: tubToShower.name,
+    scope: [tubToShower.baseScope[0], 'Move the vanity 6 inches left'],
+    exclusions: tubToShower.exclusions,
+    warranty: tubToShower.warranty,
+    lineItems: [
+      { tradeName: bathroom.trade, jobTypeName: tubToShower.name, scope: [tubToShower.baseScope[1]] },
+    ],
+  };
+
+  const es = localizeProposalContent(proposal, 'es');
+  assertEqual(es.jobTypeName, tubToShowerEs.name, 'translates the job type name');
+  assertEqual(es.scope[0], tubToShowerEs.baseScope[0], 'translates catalog scope');
+  assertEqual(es.scope[1], 'Move the vanity 6 inches left', 'keeps custom scope as written');
+  assertEqual(es.exclusions, tubToShowerEs.exclusions, 'translates exclusions');
+  assertEqual(es.warranty, tubToShowerEs.warranty, 'translates the warranty');
+  assertEqual(es.lineItems[0].tradeName, 'Remodelación de Baño', 'translates line item trade names');
+  assertEqual(es.lineItems[0].scope, [tubToShowerEs.baseScope[1]], 'translates line item scope');
+  assertEqual(es.clientName, 'Ana Torres', 'leaves other fields alone');
+  assertEqual(proposal.scope[0], tubToShower.baseScope[0], 'does not modify the stored proposal');
+  assert(localizeProposalContent(proposal, 'en') === proposal, 'English returns the proposal unchanged');
+  assertEqual(
+    localizeCatalogString('Selected Options & Customizations', 'es'),
+    'Opciones y Personalizaciones Seleccionadas',
+    'translates the generated options section title'
+  );
+}
+
+function testTranslationCoverage() {
+  console.log('\n--- getTranslationCoverage ---');
+  const es = getTranslationCoverage('es');
+  const jobTypeCount = templates.reduce((sum, t) => sum + t.jobTypes.length, 0);
+  assertEqual(es.length, jobTypeCount, 'reports every catalog job type');
+  const incomplete = es.filter(c => c.missing.length > 0).map(c => `${c.tradeId}/${c.jobTypeId}`);
+  assertEqual(incomplete, [], 'Spanish covers every job type of every trade');
+
+  const untranslated = getTranslationCoverage('fr', [bathroom]);
+  assertEqual(untranslated[0].translated, 0, 'a language without translations has nothing translated');
+  assertEqual(untranslated[0].missing[0], { field: 'name', source: tubToShower.name }, 'missing strings name their field');
+}
+
+function testDescribeRevisionChangeLocalized() {
+  console.log('\n--- describeRevisionChange (localized) ---');
+  assertEqual(
+    describeRevisionChange({ field: 'scope', type: 'removed', item: tubToShower.baseScope[0] }, 'es'),
+    `Eliminado: ${tubToShowerEs.baseScope[0]}`,
+    'describes scope removals in Spanish with translated scope'
+  );
+  assertEqual(
+    describeRevisionChange({ field: 'options', type: 'changed', key: 'ridgeVent', from: true, to: false }, 'es'),
+    'Ridge Vent cambió de Sí a No',
+    'describes option changes in Spanish'
+  );
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Client Locale Module Unit Tests');
+  console.log('='.repeat(50));
+
+  testResolveClientLanguage();
+  testMessages();
+  testFillMessage();
+  testFormatting();
+  testLocalizeProposalContent();
+  testTranslationCoverage();
+  testDescribeRevisionChangeLocalized();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,109 @@
+import { getJobTypeTranslation, templates } from "../proposal-data";
+import { pairJobTypeStrings } from "./coverage";
+import { CLIENT_LOCALES, getClientMessages, resolveClientLanguage } from "./locales";
+
+interface LocalizableScopeSection {
+  title: string;
+  items: string[];
+}
+
+interface LocalizableLineItem {
+  tradeName?: string;
+  jobTypeName?: string;
+  scope?: string[];
+  scopeSections?: LocalizableScopeSection[] | null;
+  warranty?: string | null;
+  exclusions?: string[] | null;
+}
+
+/** The client-facing text fields of a stored proposal. */
+export interface LocalizableProposalContent {
+  jobTypeName?: string;
+  scope?: string[];
+  scopeSections?: LocalizableScopeSection[] | null;
+  warranty?: string | null;
+  exclusions?: string[] | null;
+  lineItems?: LocalizableLineItem[] | null;
+}
+
+const catalogIndexes = new Map<string, Map<string, string>>();
+
+// English catalog text -> translation for every string a catalog job type can put on a proposal
+function getCatalogIndex(language: string): Map<string, string> {
+  const cached = catalogIndexes.get(language);
+  if (cached) return cached;
+
+  const index = new Map<string, string>();
+  const add = (source: string, translated: string | undefined) => {
+    if (translated && !index.has(source)) index.set(source, translated);
+  };
+
+  const messages = getClientMessages(language);
+  const tradeNames: Record<string, string> = messages.tradeNames;
+  const englishTradeNames: Record<string, string> = CLIENT_LOCALES.en.messages.tradeNames;
+  for (const [tradeId, name] of Object.entries(englishTradeNames)) {
+    add(name, tradeNames[tradeId]);
+  }
+  add(CLIENT_LOCALES.en.messages.document.selectedOptionsSection, messages.document.selectedOptionsSection);
+
+  for (const trade of templates) {
+    add(trade.trade, tradeNames[trade.id]);
+    for (const jobType of trade.jobTypes) {
+      const translation = getJobTypeTranslation(language, trade.id, jobType.id);
+      for (const pair of pairJobTypeStrings(jobType, translation)) {
+        add(pair.source, pair.translated);
+      }
+    }
+  }
+
+  catalogIndexes.set(language, index);
+  return index;
+}
+
+/**
+ * Translation of a string that came from the catalog. Custom wording (edited
+ * scope, AI-enhanced scope, custom templates) has no translation and is
+ * returned as written.
+ */
+export function localizeCatalogString(text: string, language: unknown): string {
+  const resolved = resolveClientLanguage(language);
+  if (resolved === "en") return text;
+  return getCatalogIndex(resolved).get(text.trim()) ?? text;
+}
+
+function localizeList(items: string[], language: unknown): string[] {
+  return items.map((item) => localizeCatalogString(item, language));
+}
+
+function localizeSections(sections: LocalizableScopeSection[], language: unknown): LocalizableScopeSection[] {
+  return sections.map((section) => ({
+    ...section,
+    title: localizeCatalogString(section.title, language),
+    items: localizeList(section.items, language),
+  }));
+}
+
+function localizeFields<T extends LocalizableLineItem>(content: T, language: unknown): T {
+  return {
+    ...content,
+    ...(content.tradeName !== undefined && { tradeName: localizeCatalogString(content.tradeName, language) }),
+    ...(content.jobTypeName !== undefined && { jobTypeName: localizeCatalogString(content.jobTypeName, language) }),
+    ...(content.scope && { scope: localizeList(content.scope, language) }),
+    ...(content.scopeSections && { scopeSections: localizeSections(content.scopeSections, language) }),
+    ...(content.warranty && { warranty: localizeCatalogString(content.warranty, language) }),
+    ...(content.exclusions && { exclusions: localizeList(content.exclusions, language) }),
+  };
+}
+
+/**
+ * Copy of a proposal with its catalog scope, names, warranty and exclusions in
+ * the client's language. Proposals are stored in English, so this runs when a
+ * client-facing document is rendered.
+ */
+export function localizeProposalContent<T extends LocalizableProposalContent>(proposal: T, language: unknown): T {
+  if (resolveClientLanguage(language) === "en") return proposal;
+  return {
+    ...localizeFields(proposal, language),
+    ...(proposal.lineItems && { lineItems: proposal.lineItems.map((item) => localizeFields(item, language)) }),
+  };
+}
@@ -0,0 +1,102 @@
+import {
+  getJobTypeTranslation,
+  templates,
+  type JobType,
+  type JobTypeTranslation,
+  type Template,
+} from "../proposal-data";
+
+/** One client-facing catalog string and its translation, if there is one. */
+export interface PairedCatalogString {
+  // Where the string lives in the job type, e.g. "baseScope[2]" or "options.niche.label"
+  field: string;
+  source: string;
+  translated?: string;
+}
+
+export interface JobTypeTranslationCoverage {
+  tradeId: string;
+  jobTypeId: string;
+  jobTypeName: string;
+  total: number;
+  translated: number;
+  missing: PairedCatalogString[];
+}
+
+function pairList(
+  field: string,
+  source: string[] | undefined,
+  translated: string[] | undefined,
+  out: PairedCatalogString[]
+) {
+  // Lists are positional, so a translation with a different length can't be trusted
+  const aligned = !!translated && translated.length === source?.length;
+  source?.forEach((text, i) => {
+    out.push({ field: `${field}[${i}]`, source: text, translated: aligned ? translated[i] : undefined });
+  });
+}
+
+/**
+ * Every client-facing string of a catalog job type paired with its
+ * translation. Strings the translation doesn't cover have no `translated`.
+ */
+export function pairJobTypeStrings(jobType: JobType, translation: JobTypeTranslation | undefined): PairedCatalogString[] {
+  const out: PairedCatalogString[] = [{ field: "name", source: jobType.name, translated: translation?.name }];
+
+  pairList("baseScope", jobType.baseScope, translation?.baseScope, out);
+  jobType.scopeSections?.forEach((section, i) => {
+    const translatedSection = translation?.scopeSections?.[i];
+    out.push({ field: `scopeSections[${i}].title`, source: section.title, translated: translatedSection?.title });
+    pairList(`scopeSections[${i}].items`, section.items, translatedSection?.items, out);
+  });
+  pairList("included", jobType.included, translation?.included, out);
+  pairList("assumptions", jobType.assumptions, translation?.assumptions, out);
+  pairList("addons", jobType.addons, translation?.addons, out);
+  pairList("exclusions", jobType.exclusions, translation?.exclusions, out);
+  if (jobType.warranty) {
+    out.push({ field: "warranty", source: jobType.warranty, translated: translation?.warranty });
+  }
+
+  for (const option of jobType.options) {
+    const optionTranslation = translation?.options[option.id];
+    out.push({ field: `options.${option.id}.label`, source: option.label, translated: optionTranslation?.label });
+    if (option.scopeAddition) {
+      out.push({
+        field: `options.${option.id}.scopeAddition`,
+        source: option.scopeAddition,
+        translated: optionTranslation?.scopeAddition,
+      });
+    }
+    for (const choice of option.choices ?? []) {
+      const choiceTranslation = optionTranslation?.choices?.find((c) => c.value === choice.value);
+      const field = `options.${option.id}.choices.${choice.value}`;
+      out.push({ field: `${field}.label`, source: choice.label, translated: choiceTranslation?.label });
+      if (choice.scopeAddition) {
+        out.push({ field: `${field}.scopeAddition`, source: choice.scopeAddition, translated: choiceTranslation?.scopeAddition });
+      }
+    }
+  }
+
+  return out.map((pair) => (pair.translated?.trim() ? pair : { field: pair.field, source: pair.source }));
+}
+
+/**
+ * Translation coverage of every catalog job type for a language. English is
+ * the source language and is always fully covered.
+ */
+export function getTranslationCoverage(language: string, trades: Template[] = templates): JobTypeTranslationCoverage[] {
+  return trades.flatMap((trade) =>
+    trade.jobTypes.map((jobType) => {
+      const pairs = pairJobTypeStrings(jobType, getJobTypeTranslation(language, trade.id, jobType.id));
+      const missing = language === "en" ? [] : pairs.filter((pair) => pair.translated === undefined);
+      return {
+        tradeId: trade.id,
+        jobTypeId: jobType.id,
+        jobTypeName: jobType.name,
+        total: pairs.length,
+        translated: pairs.length - missing.length,
+        missing,
+      };
+    })
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * Client-facing languages: copy for the proposal document, public page,
+ * change log and client emails, localization of stored catalog scope, and
+ * catalog translation coverage.
+ *
+ * Everything here is pure and safe to import from client and server code.
+ */
+
+export * from "./locales";
+export * from "./content";
+export * from "./coverage";
+export type { ClientMessages } from "./messages/en";
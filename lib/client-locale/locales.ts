@@ -0,0 +1,78 @@
+import type { ClientLanguage } from "@shared/schema";
+import { enMessages, type ClientMessages } from "./messages/en";
+import { esMessages } from "./messages/es";
+
+export interface ClientLocale {
+  id: ClientLanguage;
+  // Name in the language itself, shown in the contractor's language picker
+  nativeName: string;
+  // Locale passed to Intl for dates and currency
+  intlLocale: string;
+  messages: ClientMessages;
+}
+
+/**
+ * Every language a proposal can be rendered in. Adding one means a
+ * messages/<id>.ts file, an entry here and in `clientLanguages`
+ * (shared/schema.ts), plus job type translations registered with
+ * registerJobTypeTranslations (lib/proposal-data.ts).
+ */
+export const CLIENT_LOCALES: Record<ClientLanguage, ClientLocale> = {
+  en: { id: "en", nativeName: "English", intlLocale: "en-US", messages: enMessages },
+  es: { id: "es", nativeName: "Español", intlLocale: "es-US", messages: esMessages },
+};
+
+export const DEFAULT_CLIENT_LANGUAGE: ClientLanguage = "en";
+
+export function isClientLanguage(value: unknown): value is ClientLanguage {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CLIENT_LOCALES, value);
+}
+
+/** Stored or requested language, falling back to English for anything unknown. */
+export function resolveClientLanguage(value: unknown): ClientLanguage {
+  return isClientLanguage(value) ? value : DEFAULT_CLIENT_LANGUAGE;
+}
+
+export function getClientLocale(language: unknown): ClientLocale {
+  return CLIENT_LOCALES[resolveClientLanguage(language)];
+}
+
+export function getClientMessages(language: unknown): ClientMessages {
+  return getClientLocale(language).messages;
+}
+
+/** Fills {placeholder} tokens in a message. Unknown tokens are left as written. */
+export function fillMessage(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (token, key: string) =>
+    key in values ? String(values[key]) : token
+  );
+}
+
+/** Whole-dollar amount, e.g. "$12,500". */
+export function formatClientCurrency(amount: number, language: unknown): string {
+  return new Intl.NumberFormat(getClientLocale(language).intlLocale, {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/** Dollars and cents, e.g. "$1,234.50". */
+export function formatClientMoney(amount: number, language: unknown): string {
+  return new Intl.NumberFormat(getClientLocale(language).intlLocale, {
+    style: "currency",
+    currency: "USD",
+  }).format(amount);
+}
+
+export function formatClientNumber(value: number, language: unknown): string {
+  return new Intl.NumberFormat(getClientLocale(language).intlLocale).format(value);
+}
+
+export function formatClientDate(
+  date: Date | string,
+  language: unknown,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "long" }
+): string {
+  return new Intl.DateTimeFormat(getClientLocale(language).intlLocale, options).format(new Date(date));
+}
@@ -0,0 +1,253 @@
+/**
+ * English client-facing copy: the proposal document (preview and PDF), the
+ * public proposal page, the change log and client emails.
+ *
+ * Placeholders like {date} are filled with fillMessage().
+ */
+export const enMessages = {
+  document: {
+    proposal: "Proposal",
+    preparedFor: "Prepared For",
+    date: "Date",
+    jobType: "Job Type",
+    proposalType: "Proposal Type",
+    multiServiceProposal: "Multi-Service Proposal",
+    multiServiceCount: "Multi-Service ({count} services)",
+    estimatedTimeline: "Estimated Timeline",
+    workingDay: "{days} working day",
+    workingDays: "{days} working days",
+    servicesIncluded: "Services Included",
+    service: "Service",
+    estDays: "Est. Days",
+    price: "Price",
+    total: "Total",
+    scopeOfWork: "Scope of Work",
+    detailedScopeOfWork: "Detailed Scope of Work",
+    scopeIntro: "We propose to furnish all materials and perform all labor necessary to complete the following:",
+    selectedOptionsSection: "Selected Options & Customizations",
+    included: "Included",
+    assumptions: "Assumptions",
+    assumptionsIntro: "This proposal is based on the following assumptions:",
+    addons: "Available Add-ons",
+    addonsIntro: "Optional upgrades available upon request:",
+    notIncluded: "Not Included",
+    notIncludedIntro: "The following items are not included in this proposal and may require separate pricing:",
+    investment: "Investment",
+    costBreakdown: "Cost Breakdown",
+    totalProjectEstimate: "Total Project Estimate",
+    totalProjectEstimateAllServices: "Total Project Estimate (All Services)",
+    priceNote: "*Price includes all labor, materials, and taxes as specified above.",
+    validUntil: "Valid until {date}.",
+    validFor30Days: "Valid for 30 days.",
+    validUntilFooter: "This proposal is valid until {date}.",
+    validFor30DaysFooter: "This proposal is valid for 30 days from the date above.",
+    warranty: "Warranty",
+    termsAndConditions: "Terms & Conditions",
+    termsIntro: "By signing below, the client and contractor agree to the following terms:",
+    terms: [
+      "Payment terms: 50% deposit due upon acceptance, balance due upon completion.",
+      "Any changes to the scope of work may result in additional charges.",
+      "Work schedule subject to weather conditions and material availability.",
+      "Customer to provide access to work area and utilities as needed.",
+      "All permits to be obtained by contractor unless otherwise specified.",
+    ],
+    existingConditions: "Existing Conditions",
+    photoAppendix: "Photo Appendix",
+    contractorSignature: "Contractor Signature",
+    clientSignature: "Client Signature",
+    accepted: "Accepted",
+    poweredBy: "Powered by",
+    tagline: "Professional proposals in seconds",
+  },
+  changeOrders: {
+    appendixTitle: "Appendix: Change Orders",
+    originalContractTotal: "Original contract total",
+    acceptedOn: "Accepted {date}",
+    acceptedOnBy: "Accepted {date} by {name}",
+    pendingClientSignature: "Pending client signature",
+    runningContractTotal: "Running contract total",
+    currentContractTotal: "Current Contract Total",
+    pendingNote: "*Pending change orders are not included until signed by the client.",
+  },
+  // Consent recorded with each signature and the signing certificate page (lib/signing-certificates)
+  signing: {
+    clientConsent: "I have reviewed this proposal and its terms and conditions and agree to be bound by them. I agree that my electronic signature is the legal equivalent of my handwritten signature.",
+    contractorConsent: "I have reviewed this signed proposal and agree to perform the work on these terms. I agree that my electronic signature is the legal equivalent of my handwritten signature.",
+    certificateTitle: "Signing Certificate",
+    certificateIntro: "Electronic signature record for this proposal. Each record can be checked at the verification link shown with it.",
+    client: "Client",
+    contractor: "Contractor",
+    signer: "Signer",
+    signedAt: "Signed (UTC)",
+    ipAddress: "IP address",
+    userAgent: "Browser",
+    consent: "Consent",
+    documentSha256: "Document SHA-256",
+    termsSha256: "Terms SHA-256",
+    certificateSha256: "Certificate SHA-256",
+    certificateId: "Certificate ID",
+    verify: "Verify",
+    notRecorded: "Not recorded",
+  },
+  costTable: {
+    item: "Item",
+    qty: "Qty",
+    materials: "Materials",
+    labor: "Labor",
+    total: "Total",
+    subtotal: "Subtotal",
+    units: {
+      sq_ft: "sq ft",
+      linear_ft: "LF",
+      each: "each",
+      square: "square",
+    },
+  },
+  // Trade names by catalog trade ID (lib/catalog)
+  tradeNames: {
+    bathroom: "Bathroom Remodel",
+    kitchen: "Kitchen Remodel",
+    painting: "Painting",
+    electrical: "Electrical",
+    plumbing: "Plumbing",
+    hvac: "HVAC",
+    roofing: "Roofing",
+    siding: "Siding",
+    "windows-doors": "Windows & Doors",
+    flooring: "Flooring",
+    fence: "Fence",
+    driveway: "Driveway",
+    general: "General",
+  },
+  publicPage: {
+    loading: "Loading proposal...",
+    notFoundTitle: "Proposal Not Found",
+    notFoundBody: "This proposal link may have expired or is no longer available.",
+    proposalNotFound: "Proposal not found",
+    proposalFor: "Proposal for {name}",
+    validUntil: "Valid until",
+    expired: "Expired",
+    accepted: "Accepted",
+    acceptProposal: "Accept Proposal",
+    acceptingProposal: "Accepting...",
+    failedToAccept: "Failed to accept proposal",
+    photoUnavailable: "This proposal can't be signed right now because one of its photos couldn't be loaded. The contractor has been notified.",
+    generatingPdf: "Generating...",
+    downloadPdf: "Download PDF",
+    acceptTitle: "Accept This Proposal",
+    acceptSubtitle: "Please provide your information and signature to accept",
+    fullName: "Your Full Name",
+    namePlaceholder: "John Smith",
+    email: "Your Email Address",
+    emailPlaceholder: "john@example.com",
+    signature: "Your Signature",
+    signatureHint: "Draw your signature below using your mouse or finger",
+    signatureRequired: "Please sign above to continue",
+    consentRequired: "Please agree to sign electronically to continue",
+    cancel: "Cancel",
+    acceptedBy: "This proposal was accepted by {name}",
+    signatureLabel: "Signature:",
+    clientSignatureAlt: "Client signature",
+    depositReceived: "Deposit received",
+    depositProcessing: "Thank you - your deposit is being processed",
+    depositPaid: "{amount} paid",
+    depositAmount: "{percentage}% deposit: {amount}",
+    depositPayToSchedule: "Pay your deposit securely to get on the schedule.",
+    depositDueOnAccept: "Due when you accept this proposal.",
+    payDeposit: "Pay Deposit",
+    expiredOn: "This proposal expired on {date}",
+    contactToExtend: "Contact {company} to extend it before accepting.",
+    theContractor: "the contractor",
+  },
+  changeLog: {
+    whatChanged: "What changed",
+    updatedOnce: "This proposal has been updated {count} time since it was first sent",
+    updatedTimes: "This proposal has been updated {count} times since it was first sent",
+    revision: "Revision {number}",
+    scopeAdded: "Added: {item}",
+    scopeAddedTo: "Added ({service}): {item}",
+    scopeRemoved: "Removed: {item}",
+    scopeRemovedFrom: "Removed ({service}): {item}",
+    nowExcluded: "Now excluded: {item}",
+    noLongerExcluded: "No longer excluded: {item}",
+    serviceAdded: "Service added: {service} ({price})",
+    serviceRemoved: "Service removed: {service}",
+    servicePriceChanged: "{service} price changed from {from} to {to}",
+    totalPriceChanged: "Total price changed from {from} to {to}",
+    optionSet: "{option}: {value}",
+    optionRemoved: "{option} removed",
+    optionChanged: "{option} changed from {from} to {to}",
+    yes: "Yes",
+    no: "No",
+    updated: "updated",
+  },
+  emails: {
+    greeting: "Hi {name},",
+    greetingNoName: "Hi there,",
+    closing: "Best regards,",
+    project: "Project",
+    client: "Client",
+    address: "Address",
+    total: "Total",
+    yourContractor: "Your contractor",
+    proposal: {
+      subject: "Proposal: {title} for {client}",
+      heading: "New Proposal",
+      prepared: "{sender} have prepared a proposal for you.",
+      preparedForProject: "{sender} have prepared a proposal for your project.",
+      senderFallback: "We",
+      messageFrom: "Message from {sender}:",
+      theContractor: "the contractor",
+      viewButton: "View & Download Proposal",
+      viewHint: "Click the button above to view the full proposal and download it as a PDF.",
+      signOffFallback: "The Team",
+      footerCreatedWith: "This proposal was created with {link}",
+      footerTagline: "Professional proposals for contractors",
+    },
+    completed: {
+      subject: "Signed Proposal: {title} - Ready to Begin",
+      heading: "Proposal Fully Signed!",
+      intro: "Great news! Your proposal has been fully signed and the project is ready to begin.",
+      introBothParties: "Great news! Your proposal has been fully signed by both parties and the project is ready to begin.",
+      bothSignaturesComplete: "Both signatures complete",
+      youSigned: "You signed",
+      contractorSigned: "Contractor signed",
+      viewSignedLink: "View your signed proposal: {url}",
+      viewSignedButton: "View Signed Proposal",
+      payDepositLink: "Pay your {amount} deposit: {url}",
+      payDepositButton: "Pay {amount} Deposit",
+      nextSteps: "{contractor} will be in touch soon to coordinate next steps.",
+      thanks: "Thank you for your business!",
+      signOffFallback: "Your Contractor",
+      footer: "ScopeGen - Professional Proposals for Contractors",
+    },
+    // Keyed by follow-up trigger (lib/follow-ups)
+    followUp: {
+      unviewed: {
+        subject: "Your proposal for {title} is ready",
+        heading: "Your proposal is waiting",
+        body: "{sender} sent you a proposal for {title} a few days ago. It only takes a minute to review.",
+      },
+      viewed_not_accepted: {
+        subject: "Any questions about your {title} proposal?",
+        heading: "Any questions?",
+        body: "Thanks for taking a look at the proposal for {title}. If anything is unclear or you'd like changes, just reply to {sender}.",
+      },
+      before_expiry: {
+        subject: "Your {title} proposal expires soon",
+        heading: "Your proposal expires soon",
+        body: "The pricing in your proposal for {title} is valid until {date}. Accept it online before then to lock it in.",
+        bodyNoDate: "The pricing in your proposal for {title} is valid for a short time. Accept it online before then to lock it in.",
+      },
+      viewLink: "View the proposal: {url}",
+      viewButton: "View Proposal",
+      footer: "Sent on behalf of {sender} via ScopeGen",
+    },
+  },
+};
+
+type DeepStringify<T> = {
+  [K in keyof T]: T[K] extends object ? DeepStringify<T[K]> : string;
+};
+
+export type ClientMessages = DeepStringify<typeof enMessages>;
@@ -0,0 +1,243 @@
+import type { ClientMessages } from "./en";
+
+/**
+ * Spanish client-facing copy. Keys mirror messages/en.ts.
+ */
+export const esMessages: ClientMessages = {
+  document: {
+    proposal: "Propuesta",
+    preparedFor: "Preparado Para",
+    date: "Fecha",
+    jobType: "Tipo de Trabajo",
+    proposalType: "Tipo de Propuesta",
+    multiServiceProposal: "Propuesta de Varios Servicios",
+    multiServiceCount: "Varios Servicios ({count} servicios)",
+    estimatedTimeline: "Tiempo Estimado",
+    workingDay: "{days} día hábil",
+    workingDays: "{days} días hábiles",
+    servicesIncluded: "Servicios Incluidos",
+    service: "Servicio",
+    estDays: "Días Est.",
+    price: "Precio",
+    total: "Total",
+    scopeOfWork: "Alcance del Trabajo",
+    detailedScopeOfWork: "Alcance Detallado del Trabajo",
+    scopeIntro: "Proponemos suministrar todos los materiales y realizar toda la mano de obra necesaria para completar lo siguiente:",
+    selectedOptionsSection: "Opciones y Personalizaciones Seleccionadas",
+    included: "Incluido",
+    assumptions: "Supuestos",
+    assumptionsIntro: "Esta propuesta se basa en los siguientes supuestos:",
+    addons: "Mejoras Disponibles",
+    addonsIntro: "Mejoras opcionales disponibles a solicitud:",
+    notIncluded: "No Incluido",
+    notIncludedIntro: "Los siguientes conceptos no están incluidos en esta propuesta y pueden requerir una cotización aparte:",
+    investment: "Inversión",
+    costBreakdown: "Desglose de Costos",
+    totalProjectEstimate: "Estimado Total del Proyecto",
+    totalProjectEstimateAllServices: "Estimado Total del Proyecto (Todos los Servicios)",
+    priceNote: "*El precio incluye toda la mano de obra, los materiales y los impuestos según lo especificado arriba.",
+    validUntil: "Válida hasta el {date}.",
+    validFor30Days: "Válida por 30 días.",
+    validUntilFooter: "Esta propuesta es válida hasta el {date}.",
+    validFor30DaysFooter: "Esta propuesta es válida por 30 días a partir de la fecha indicada arriba.",
+    warranty: "Garantía",
+    termsAndConditions: "Términos y Condiciones",
+    termsIntro: "Al firmar abajo, el cliente y el contratista aceptan los siguientes términos:",
+    terms: [
+      "Condiciones de pago: 50% de anticipo al aceptar, el saldo al terminar el trabajo.",
+      "Cualquier cambio al alcance del trabajo puede generar cargos adicionales.",
+      "El calendario de trabajo está sujeto a las condiciones del clima y la disponibilidad de materiales.",
+      "El cliente proporcionará acceso al área de trabajo y a los servicios según sea necesario.",
+      "El contratista obtendrá todos los permisos, salvo que se especifique lo contrario.",
+    ],
+    existingConditions: "Condiciones Actuales",
+    photoAppendix: "Anexo de Fotos",
+    contractorSignature: "Firma del Contratista",
+    clientSignature: "Firma del Cliente",
+    accepted: "Aceptada",
+    poweredBy: "Con la tecnología de",
+    tagline: "Propuestas profesionales en segundos",
+  },
+  changeOrders: {
+    appendixTitle: "Anexo: Órdenes de Cambio",
+    originalContractTotal: "Total original del contrato",
+    acceptedOn: "Aceptada el {date}",
+    acceptedOnBy: "Aceptada el {date} por {name}",
+    pendingClientSignature: "Pendiente de firma del cliente",
+    runningContractTotal: "Total acumulado del contrato",
+    currentContractTotal: "Total Actual del Contrato",
+    pendingNote: "*Las órdenes de cambio pendientes no se incluyen hasta que el cliente las firme.",
+  },
+  signing: {
+    clientConsent: "He revisado esta propuesta y sus términos y condiciones, y acepto obligarme a ellos. Acepto que mi firma electrónica tiene la misma validez legal que mi firma autógrafa.",
+    contractorConsent: "He revisado esta propuesta firmada y acepto realizar el trabajo según estos términos. Acepto que mi firma electrónica tiene la misma validez legal que mi firma autógrafa.",
+    certificateTitle: "Certificado de Firma",
+    certificateIntro: "Registro de firma electrónica de esta propuesta. Cada registro puede comprobarse en el enlace de verificación que lo acompaña.",
+    client: "Cliente",
+    contractor: "Contratista",
+    signer: "Firmante",
+    signedAt: "Firmado (UTC)",
+    ipAddress: "Dirección IP",
+    userAgent: "Navegador",
+    consent: "Consentimiento",
+    documentSha256: "SHA-256 del documento",
+    termsSha256: "SHA-256 de los términos",
+    certificateSha256: "SHA-256 del certificado",
+    certificateId: "ID del certificado",
+    verify: "Verificar",
+    notRecorded: "No registrado",
+  },
+  costTable: {
+    item: "Concepto",
+    qty: "Cant.",
+    materials: "Materiales",
+    labor: "Mano de Obra",
+    total: "Total",
+    subtotal: "Subtotal",
+    units: {
+      sq_ft: "pies²",
+      linear_ft: "pies lin.",
+      each: "c/u",
+      square: "cuadro",
+    },
+  },
+  tradeNames: {
+    bathroom: "Remodelación de Baño",
+    kitchen: "Remodelación de Cocina",
+    painting: "Pintura",
+    electrical: "Electricidad",
+    plumbing: "Plomería",
+    hvac: "Calefacción y Aire Acondicionado",
+    roofing: "Techos",
+    siding: "Revestimiento Exterior",
+    "windows-doors": "Ventanas y Puertas",
+    flooring: "Pisos",
+    fence: "Cercas",
+    driveway: "Entradas de Auto",
+    general: "General",
+  },
+  publicPage: {
+    loading: "Cargando la propuesta...",
+    notFoundTitle: "Propuesta No Encontrada",
+    notFoundBody: "Es posible que este enlace haya vencido o que la propuesta ya no esté disponible.",
+    proposalNotFound: "Propuesta no encontrada",
+    proposalFor: "Propuesta para {name}",
+    validUntil: "Válida hasta el",
+    expired: "Vencida",
+    accepted: "Aceptada",
+    acceptProposal: "Aceptar Propuesta",
+    acceptingProposal: "Aceptando...",
+    failedToAccept: "Error al aceptar la propuesta",
+    photoUnavailable: "Esta propuesta no se puede firmar en este momento porque una de sus fotos no se pudo cargar. Se ha avisado al contratista.",
+    generatingPdf: "Generando...",
+    downloadPdf: "Descargar PDF",
+    acceptTitle: "Aceptar Esta Propuesta",
+    acceptSubtitle: "Proporcione sus datos y su firma para aceptar",
+    fullName: "Su Nombre Completo",
+    namePlaceholder: "Juan García",
+    email: "Su Correo Electrónico",
+    emailPlaceholder: "juan@ejemplo.com",
+    signature: "Su Firma",
+    signatureHint: "Dibuje su firma abajo con el mouse o con el dedo",
+    signatureRequired: "Firme arriba para continuar",
+    consentRequired: "Acepte firmar electrónicamente para continuar",
+    cancel: "Cancelar",
+    acceptedBy: "Esta propuesta fue aceptada por {name}",
+    signatureLabel: "Firma:",
+    clientSignatureAlt: "Firma del cliente",
+    depositReceived: "Anticipo recibido",
+    depositProcessing: "Gracias - su anticipo se está procesando",
+    depositPaid: "{amount} pagado",
+    depositAmount: "Anticipo del {percentage}%: {amount}",
+    depositPayToSchedule: "Pague su anticipo de forma segura para reservar su fecha.",
+    depositDueOnAccept: "Se paga al aceptar esta propuesta.",
+    payDeposit: "Pagar Anticipo",
+    expiredOn: "Esta propuesta venció el {date}",
+    contactToExtend: "Comuníquese con {company} para extenderla antes de aceptarla.",
+    theContractor: "el contratista",
+  },
+  changeLog: {
+    whatChanged: "Qué cambió",
+    updatedOnce: "Esta propuesta se ha actualizado {count} vez desde que se envió por primera vez",
+    updatedTimes: "Esta propuesta se ha actualizado {count} veces desde que se envió por primera vez",
+    revision: "Revisión {number}",
+    scopeAdded: "Agregado: {item}",
+    scopeAddedTo: "Agregado ({service}): {item}",
+    scopeRemoved: "Eliminado: {item}",
+    scopeRemovedFrom: "Eliminado ({service}): {item}",
+    nowExcluded: "Ahora excluido: {item}",
+    noLongerExcluded: "Ya no excluido: {item}",
+    serviceAdded: "Servicio agregado: {service} ({price})",
+    serviceRemoved: "Servicio eliminado: {service}",
+    servicePriceChanged: "El precio de {service} cambió de {from} a {to}",
+    totalPriceChanged: "El precio total cambió de {from} a {to}",
+    optionSet: "{option}: {value}",
+    optionRemoved: "{option} eliminado",
+    optionChanged: "{option} cambió de {from} a {to}",
+    yes: "Sí",
+    no: "No",
+    updated: "actualizado",
+  },
+  emails: {
+    greeting: "Hola {name},",
+    greetingNoName: "Hola,",
+    closing: "Saludos cordiales,",
+    project: "Proyecto",
+    client: "Cliente",
+    address: "Dirección",
+    total: "Total",
+    yourContractor: "Su contratista",
+    proposal: {
+      subject: "Propuesta: {title} para {client}",
+      heading: "Nueva Propuesta",
+      prepared: "{sender} preparó una propuesta para usted.",
+      preparedForProject: "{sender} preparó una propuesta para su proyecto.",
+      senderFallback: "Su contratista",
+      messageFrom: "Mensaje de {sender}:",
+      theContractor: "el contratista",
+      viewButton: "Ver y Descargar la Propuesta",
+      viewHint: "Haga clic en el botón de arriba para ver la propuesta completa y descargarla en PDF.",
+      signOffFallback: "El Equipo",
+      footerCreatedWith: "Esta propuesta se creó con {link}",
+      footerTagline: "Propuestas profesionales para contratistas",
+    },
+    completed: {
+      subject: "Propuesta Firmada: {title} - Lista para Comenzar",
+      heading: "¡Propuesta Firmada por Completo!",
+      intro: "¡Buenas noticias! Su propuesta ha sido firmada por completo y el proyecto está listo para comenzar.",
+      introBothParties: "¡Buenas noticias! Su propuesta ha sido firmada por ambas partes y el proyecto está listo para comenzar.",
+      bothSignaturesComplete: "Ambas firmas completas",
+      youSigned: "Usted firmó",
+      contractorSigned: "El contratista firmó",
+      viewSignedLink: "Vea su propuesta firmada: {url}",
+      viewSignedButton: "Ver la Propuesta Firmada",
+      payDepositLink: "Pague su anticipo de {amount}: {url}",
+      payDepositButton: "Pagar Anticipo de {amount}",
+      nextSteps: "{contractor} se comunicará pronto con usted para coordinar los siguientes pasos.",
+      thanks: "¡Gracias por su preferencia!",
+      signOffFallback: "Su Contratista",
+      footer: "ScopeGen - Propuestas Profesionales para Contratistas",
+    },
+    followUp: {
+      unviewed: {
+        subject: "Su propuesta para {title} está lista",
+        heading: "Su propuesta lo está esperando",
+        body: "{sender} le envió una propuesta para {title} hace unos días. Revisarla solo toma un minuto.",
+      },
+      viewed_not_accepted: {
+        subject: "¿Tiene preguntas sobre su propuesta de {title}?",
+        heading: "¿Tiene preguntas?",
+        body: "Gracias por revisar la propuesta para {title}. Si algo no está claro o desea cambios, solo responda a {sender}.",
+      },
+      before_expiry: {
+        subject: "Su propuesta de {title} vence pronto",
+        heading: "Su propuesta vence pronto",
+        body: "Los precios de su propuesta para {title} son válidos hasta el {date}. Acéptela en línea antes de esa fecha para asegurarlos.",
+        bodyNoDate: "Los precios de su propuesta para {title} son válidos por poco tiempo. Acéptela en línea antes de que venza para asegurarlos.",
+      },
+      viewLink: "Vea la propuesta: {url}",
+      viewButton: "Ver la Propuesta",
+      footer: "Enviado en nombre de {sender} a través de ScopeGen",
+    },
+  },
+};
@@ -0,0 +1,167 @@
+/**
+ * Crew Workspace Unit Tests
+ *
+ * Tests for team proposal visibility, member management rules and seat limits.
+ * Run with: npx tsx lib/company-workspace.test.ts
+ */
+
+import {
+  canAssignRole,
+  canManageMember,
+  canReassignProposal,
+  canViewProposal,
+  getInviteExpiry,
+  getSeatCapacity,
+  getSeatUsage,
+  inviteMemberSchema,
+  isInvitePending,
+  toTeamMember,
+  updateMemberRoleSchema,
+} from './company-workspace';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const TEAM_PROPOSAL = { userId: 'alice', companyId: 7, sharedWithCompany: false };
+
+// ============ TESTS ============
+
+function testProposalVisibility() {
+  console.log('\n--- proposal visibility ---');
+  assert(canViewProposal(TEAM_PROPOSAL, 'alice', { companyId: 7, role: 'member' }), 'creator sees own proposal');
+  assert(canViewProposal({ ...TEAM_PROPOSAL, companyId: null }, 'alice', null), 'creator sees personal proposal without a team');
+  assert(canViewProposal(TEAM_PROPOSAL, 'owen', { companyId: 7, role: 'owner' }), 'owner sees team proposal');
+  assert(canViewProposal(TEAM_PROPOSAL, 'ada', { companyId: 7, role: 'admin' }), 'admin sees team proposal');
+  assert(!canViewProposal(TEAM_PROPOSAL, 'bob', { companyId: 7, role: 'member' }), 'member does not see unshared teammate proposal');
+  assert(
+    canViewProposal({ ...TEAM_PROPOSAL, sharedWithCompany: true }, 'bob', { companyId: 7, role: 'member' }),
+    'member sees shared teammate proposal'
+  );
+  assert(!canViewProposal(TEAM_PROPOSAL, 'owen', { companyId: 8, role: 'owner' }), 'other company owner is denied');
+  assert(
+    !canViewProposal({ ...TEAM_PROPOSAL, companyId: null }, 'owen', { companyId: 7, role: 'owner' }),
+    'personal proposals stay private from the owner'
+  );
+  assert(!canViewProposal(TEAM_PROPOSAL, 'bob', undefined), 'outsider is denied');
+}
+
+function testReassignment() {
+  console.log('\n--- reassignment ---');
+  assert(canReassignProposal(TEAM_PROPOSAL, { companyId: 7, role: 'owner' }), 'owner can reassign');
+  assert(canReassignProposal(TEAM_PROPOSAL, { companyId: 7, role: 'admin' }), 'admin can reassign');
+  assert(!canReassignProposal(TEAM_PROPOSAL, { companyId: 7, role: 'member' }), 'member cannot reassign');
+  assert(!canReassignProposal({ companyId: null }, { companyId: 7, role: 'owner' }), 'personal proposal cannot be reassigned');
+}
+
+function testMemberManagement() {
+  console.log('\n--- member management ---');
+  assert(canManageMember('owner', 'admin'), 'owner manages admins');
+  assert(canManageMember('admin', 'member'), 'admin manages members');
+  assert(!canManageMember('admin', 'admin'), 'admin cannot manage other admins');
+  assert(!canManageMember('owner', 'owner'), 'owner role is untouchable');
+  assert(!canManageMember('member', 'member'), 'member manages nobody');
+
+  assert(canAssignRole('owner', 'admin'), 'owner can make admins');
+  assert(!canAssignRole('admin', 'admin'), 'admin cannot make admins');
+  assert(canAssignRole('admin', 'member'), 'admin can invite members');
+  assert(!canAssignRole('member', 'member'), 'member cannot invite');
+  assert(!canAssignRole('owner', 'owner'), 'ownership cannot be assigned');
+}
+
+function testSchemas() {
+  console.log('\n--- request schemas ---');
+  const invite = inviteMemberSchema.safeParse({ email: '  Crew@Example.com ' });
+  assertEqual(invite.success && invite.data, { email: 'crew@example.com', role: 'member' }, 'invite normalizes email and defaults role');
+  assert(!inviteMemberSchema.safeParse({ email: 'crew@example.com', role: 'owner' }).success, 'invite rejects owner role');
+  assert(!inviteMemberSchema.safeParse({ email: 'not-an-email' }).success, 'invite rejects bad email');
+  assert(!updateMemberRoleSchema.safeParse({ role: 'owner' }).success, 'role change rejects owner');
+}
+
+function testSeats() {
+  console.log('\n--- seats ---');
+  assertEqual(getSeatCapacity({ seatLimit: 3, extraSeats: 2 }), 5, 'capacity includes extra seats');
+
+  const expired = { acceptedAt: null, expiresAt: new Date('2026-02-01T00:00:00Z') };
+  const pending = { acceptedAt: null, expiresAt: getInviteExpiry(NOW) };
+  const accepted = { acceptedAt: NOW, expiresAt: getInviteExpiry(NOW) };
+  assert(isInvitePending(pending, NOW), 'unexpired invite is pending');
+  assert(!isInvitePending(expired, NOW), 'expired invite is not pending');
+  assert(!isInvitePending(accepted, NOW), 'accepted invite is not pending');
+
+  assertEqual(
+    getSeatUsage({ seatLimit: 3, extraSeats: 1 }, 2, [pending, expired, accepted], NOW),
+    { capacity: 4, members: 2, pendingInvites: 1, available: 1 },
+    'pending invites hold seats'
+  );
+  assertEqual(
+    getSeatUsage({ seatLimit: 3, extraSeats: 0 }, 4, [], NOW).available,
+    0,
+    'over-capacity teams have no seats left'
+  );
+  assertEqual(getInviteExpiry(NOW).toISOString(), '2026-03-08T12:00:00.000Z', 'invites expire after 7 days');
+}
+
+function testTeamMember() {
+  console.log('\n--- team member view ---');
+  const user = { email: 'sam@example.com', firstName: 'Sam', lastName: 'Ortiz', profileImageUrl: null, userStripeSecretKey: 'enc:v1:secret' };
+  const member = toTeamMember({ userId: 'sam', role: 'admin', createdAt: NOW, user });
+  assertEqual(member.name, 'Sam Ortiz', 'uses full name');
+  assert(!('userStripeSecretKey' in member) && !('user' in member), 'drops the rest of the user record');
+  assertEqual(
+    toTeamMember({ userId: 'x', role: 'member', createdAt: null, user: { ...user, firstName: null, lastName: null } }).name,
+    'sam@example.com',
+    'falls back to email'
+  );
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Crew Workspace Unit Tests');
+  console.log('='.repeat(50));
+
+  testProposalVisibility();
+  testReassignment();
+  testMemberManagement();
+  testSchemas();
+  testSeats();
+  testTeamMember();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,177 @@
+/**
+ * Crew Workspace Rules
+ * Member roles, team proposal visibility and seat limits for company
+ * workspaces. Shared by the /api/company routes, invite acceptance and the
+ * proposal APIs.
+ *
+ * Safe to import from client and server code.
+ */
+
+import { z } from "zod";
+
+export const companyRoles = ["owner", "admin", "member"] as const;
+export type CompanyRole = typeof companyRoles[number];
+
+// Roles that can be handed out by invite or role change (ownership isn't transferable here)
+export const assignableCompanyRoles = ["admin", "member"] as const;
+export type AssignableCompanyRole = typeof assignableCompanyRoles[number];
+
+export const INVITE_EXPIRY_DAYS = 7;
+
+export const createCompanySchema = z.object({
+  name: z.string().trim().min(1, "Company name is required").max(255),
+  address: z.string().trim().max(500).nullish(),
+  phone: z.string().trim().max(50).nullish(),
+  licenseNumber: z.string().trim().max(100).nullish(),
+});
+
+export const updateCompanySchema = createCompanySchema.partial();
+
+export const inviteMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email("A valid email is required"),
+  role: z.enum(assignableCompanyRoles).default("member"),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(assignableCompanyRoles),
+});
+
+export const reassignProposalSchema = z.object({
+  userId: z.string().min(1, "userId is required"),
+});
+
+export interface CompanyMembershipContext {
+  companyId: number;
+  role: string;
+}
+
+export interface CompanyProposalAccess {
+  userId: string;
+  companyId: number | null;
+  sharedWithCompany: boolean;
+}
+
+/**
+ * Owners and admins run the team: they see every company proposal and manage
+ * members, invites and assignments.
+ */
+export function isCompanyManager(role: string | null | undefined): boolean {
+  return role === "owner" || role === "admin";
+}
+
+/**
+ * Creators always see their own proposals. Within the owning company, managers
+ * see everything and members only see what has been shared with the team.
+ */
+export function canViewProposal(
+  proposal: CompanyProposalAccess,
+  userId: string,
+  membership?: CompanyMembershipContext | null
+): boolean {
+  if (proposal.userId === userId) return true;
+  if (!membership || proposal.companyId == null) return false;
+  if (proposal.companyId !== membership.companyId) return false;
+  return isCompanyManager(membership.role) || proposal.sharedWithCompany;
+}
+
+export function canReassignProposal(
+  proposal: Pick<CompanyProposalAccess, "companyId">,
+  membership?: CompanyMembershipContext | null
+): boolean {
+  if (!membership || proposal.companyId == null) return false;
+  return proposal.companyId === membership.companyId && isCompanyManager(membership.role);
+}
+
+/**
+ * Whether `actorRole` may change the role of, or remove, a member holding
+ * `targetRole`. Nobody can touch the owner; admins only manage plain members.
+ */
+export function canManageMember(actorRole: string, targetRole: string): boolean {
+  if (targetRole === "owner") return false;
+  if (actorRole === "owner") return true;
+  return actorRole === "admin" && targetRole === "member";
+}
+
+/**
+ * Whether `actorRole` may hand out `role` (by invite or role change). Only the
+ * owner can create admins.
+ */
+export function canAssignRole(actorRole: string, role: string): boolean {
+  if (role === "admin") return actorRole === "owner";
+  return role === "member" && isCompanyManager(actorRole);
+}
+
+export interface SeatUsage {
+  capacity: number;
+  members: number;
+  pendingInvites: number;
+  available: number;
+}
+
+/**
+ * Included seats plus purchased extra seats.
+ */
+export function getSeatCapacity(company: { seatLimit: number; extraSeats: number }): number {
+  return Math.max(0, company.seatLimit) + Math.max(0, company.extraSeats);
+}
+
+export function isInvitePending(
+  invite: { acceptedAt: Date | null; expiresAt: Date },
+  now: Date = new Date()
+): boolean {
+  return invite.acceptedAt == null && invite.expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * Pending (unaccepted, unexpired) invites hold a seat so a team can't send out
+ * more invites than it has room for.
+ */
+export function getSeatUsage(
+  company: { seatLimit: number; extraSeats: number },
+  memberCount: number,
+  invites: { acceptedAt: Date | null; expiresAt: Date }[],
+  now: Date = new Date()
+): SeatUsage {
+  const capacity = getSeatCapacity(company);
+  const pendingInvites = invites.filter((invite) => isInvitePending(invite, now)).length;
+  return {
+    capacity,
+    members: memberCount,
+    pendingInvites,
+    available: Math.max(0, capacity - memberCount - pendingInvites),
+  };
+}
+
+export function getInviteExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export interface TeamMember {
+  userId: string;
+  role: string;
+  name: string;
+  email: string | null;
+  profileImageUrl: string | null;
+  joinedAt: Date | null;
+}
+
+/**
+ * Public view of a member row: only the user fields teammates need (the full
+ * user record carries billing and Stripe settings).
+ */
+export function toTeamMember(member: {
+  userId: string;
+  role: string;
+  createdAt: Date | null;
+  user: { email: string | null; firstName: string | null; lastName: string | null; profileImageUrl: string | null };
+}): TeamMember {
+  const fullName = [member.user.firstName, member.user.lastName].filter(Boolean).join(" ");
+  return {
+    userId: member.userId,
+    role: member.role,
+    name: fullName || member.user.email || "Team member",
+    email: member.user.email,
+    profileImageUrl: member.user.profileImageUrl,
+    joinedAt: member.createdAt,
+  };
+}
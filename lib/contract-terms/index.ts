@@ -0,0 +1,11 @@
+/**
+ * Contract Terms Module
+ *
+ * State terms & conditions library (payment terms, right to cancel, lien
+ * notices, disclosures) attached to proposals.
+ *
+ * Everything here is pure and safe to import from client and server code.
+ */
+
+export * from "./library";
+export * from "./terms";
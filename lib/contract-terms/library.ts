@@ -0,0 +1,236 @@
+/**
+ * Contract Clause Library
+ *
+ * Terms & conditions printed above the signatures. Every proposal gets the
+ * general clauses; a state's clauses replace the general clause of the same
+ * kind (its payment terms, cancellation notice, lien notice) and add its
+ * required disclosures. Notices paraphrase the cited statutes - contractors
+ * remain responsible for what their contracts must say.
+ *
+ * Bump CONTRACT_TERMS_VERSION whenever clause wording changes; proposals and
+ * signing certificates record the version they were built from.
+ *
+ * Pure module - safe to import from client and server code.
+ */
+
+import type { ContractClause } from "@shared/schema";
+
+export const CONTRACT_TERMS_VERSION = "2026.10";
+
+export const GENERAL_CLAUSES: ContractClause[] = [
+  {
+    id: "general-payment",
+    kind: "payment",
+    title: { en: "Payment Terms", es: "Condiciones de Pago" },
+    body: {
+      en: "A 50% deposit is due upon acceptance and the balance is due upon completion of the work.",
+      es: "Se debe pagar un anticipo del 50% al aceptar y el saldo al terminar el trabajo.",
+    },
+  },
+  {
+    id: "general-change-orders",
+    kind: "change_orders",
+    title: { en: "Changes to the Work", es: "Cambios al Trabajo" },
+    body: {
+      en: "Any change to the scope of work must be agreed in a written change order and may result in additional charges.",
+      es: "Cualquier cambio al alcance del trabajo debe acordarse en una orden de cambio por escrito y puede generar cargos adicionales.",
+    },
+  },
+  {
+    id: "general-schedule",
+    kind: "schedule",
+    title: { en: "Schedule", es: "Calendario" },
+    body: {
+      en: "The work schedule is subject to weather conditions and material availability.",
+      es: "El calendario de trabajo está sujeto a las condiciones del clima y la disponibilidad de materiales.",
+    },
+  },
+  {
+    id: "general-site-access",
+    kind: "site_access",
+    title: { en: "Access and Utilities", es: "Acceso y Servicios" },
+    body: {
+      en: "The customer will provide access to the work area and to utilities as needed.",
+      es: "El cliente proporcionará acceso al área de trabajo y a los servicios según sea necesario.",
+    },
+  },
+  {
+    id: "general-permits",
+    kind: "permits",
+    title: { en: "Permits", es: "Permisos" },
+    body: {
+      en: "The contractor will obtain all required permits unless otherwise specified.",
+      es: "El contratista obtendrá todos los permisos requeridos, salvo que se especifique lo contrario.",
+    },
+  },
+  {
+    id: "general-right-to-cancel",
+    kind: "right_to_cancel",
+    citation: "16 C.F.R. Part 429",
+    title: { en: "Right to Cancel", es: "Derecho de Cancelación" },
+    body: {
+      en: "If you signed this contract at your home or anywhere other than the contractor's place of business, you may cancel it without any penalty or obligation at any time before midnight of the third business day after the date you signed. To cancel, deliver or send a signed and dated written notice of cancellation to the contractor.",
+      es: "Si firmó este contrato en su casa o en cualquier lugar que no sea el establecimiento del contratista, puede cancelarlo sin penalidad ni obligación en cualquier momento antes de la medianoche del tercer día hábil después de la fecha en que lo firmó. Para cancelarlo, entregue o envíe al contratista un aviso de cancelación por escrito, firmado y fechado.",
+    },
+  },
+  {
+    id: "general-lien-notice",
+    kind: "lien_notice",
+    title: { en: "Lien Notice", es: "Aviso de Gravamen" },
+    body: {
+      en: "Contractors, subcontractors and material suppliers who are not paid for work on, or materials delivered to, your property may have the right to place a lien on the property. You may ask the contractor for lien waivers from subcontractors and suppliers as payments are made.",
+      es: "Los contratistas, subcontratistas y proveedores de materiales a quienes no se les pague por el trabajo realizado en su propiedad o por los materiales entregados en ella pueden tener derecho a imponer un gravamen sobre la propiedad. Puede pedir al contratista renuncias de gravamen de los subcontratistas y proveedores a medida que se realicen los pagos.",
+    },
+  },
+];
+
+export const STATE_CLAUSES: Record<string, ContractClause[]> = {
+  CA: [
+    {
+      id: "ca-payment",
+      kind: "payment",
+      citation: "Cal. Bus. & Prof. Code § 7159",
+      title: { en: "Payment Terms", es: "Condiciones de Pago" },
+      body: {
+        en: "The down payment may not exceed $1,000 or 10 percent of the contract price, whichever is less. Progress payments may not exceed the value of the work performed and materials delivered. The balance is due upon completion of the work.",
+        es: "El pago inicial no puede exceder $1,000 o el 10 por ciento del precio del contrato, lo que sea menor. Los pagos parciales no pueden exceder el valor del trabajo realizado y de los materiales entregados. El saldo se paga al terminar el trabajo.",
+      },
+    },
+    {
+      id: "ca-right-to-cancel",
+      kind: "right_to_cancel",
+      citation: "Cal. Civ. Code § 1689.6; Bus. & Prof. Code § 7159",
+      title: { en: "Three-Day Right to Cancel", es: "Derecho de Cancelación de Tres Días" },
+      body: {
+        en: "You, the buyer, have the right to cancel this contract within three business days (five business days if you are 65 or older). You may cancel by e-mailing, mailing, faxing or delivering a written notice to the contractor at the contractor's place of business by midnight of the third business day after you received a signed and dated copy of the contract that includes this notice.",
+        es: "Usted, el comprador, tiene derecho a cancelar este contrato dentro de tres días hábiles (cinco días hábiles si tiene 65 años o más). Puede cancelarlo enviando por correo electrónico, correo postal o fax, o entregando, un aviso por escrito al contratista en su establecimiento antes de la medianoche del tercer día hábil después de haber recibido una copia firmada y fechada del contrato que incluya este aviso.",
+      },
+    },
+    {
+      id: "ca-mechanics-lien-warning",
+      kind: "lien_notice",
+      citation: "Cal. Bus. & Prof. Code § 7159",
+      title: { en: "Mechanics Lien Warning", es: "Advertencia sobre Gravámenes de Construcción" },
+      body: {
+        en: "Anyone who helps improve your property, but who is not paid, may record a mechanics lien on your property - a claim, like a mortgage, recorded with the county recorder. Even if you pay your contractor in full, unpaid subcontractors, suppliers and laborers may record liens and sue to foreclose them, and you could be forced to pay twice or have your home sold to pay the lien. Subcontractors and suppliers must give you a Preliminary Notice to preserve their lien rights. To protect yourself, obtain a lien release from each of them as you make payments.",
+        es: "Cualquier persona que ayude a mejorar su propiedad y a quien no se le pague puede registrar un gravamen de construcción sobre su propiedad: un reclamo, como una hipoteca, registrado ante el registrador del condado. Aunque le pague a su contratista la totalidad, los subcontratistas, proveedores y trabajadores a quienes no se les pague pueden registrar gravámenes y demandar para ejecutarlos, y usted podría verse obligado a pagar dos veces o a que se venda su casa para pagar el gravamen. Los subcontratistas y proveedores deben entregarle un Aviso Preliminar para conservar su derecho de gravamen. Para protegerse, obtenga una liberación de gravamen de cada uno de ellos a medida que realice los pagos.",
+      },
+    },
+    {
+      id: "ca-cslb-notice",
+      kind: "disclosure",
+      citation: "Cal. Bus. & Prof. Code § 7030",
+      title: { en: "Contractors State License Board", es: "Junta Estatal de Licencias de Contratistas" },
+      body: {
+        en: "Contractors are required by law to be licensed and regulated by the Contractors State License Board, which has jurisdiction to investigate complaints against contractors if a complaint is filed within four years of the date of the alleged violation. Questions about a contractor may be referred to the Registrar, Contractors State License Board, P.O. Box 26000, Sacramento, CA 95826.",
+        es: "La ley exige que los contratistas tengan licencia y estén regulados por la Junta Estatal de Licencias de Contratistas, que tiene jurisdicción para investigar quejas contra contratistas si la queja se presenta dentro de los cuatro años siguientes a la fecha de la supuesta infracción. Las preguntas sobre un contratista pueden dirigirse al Registrador, Contractors State License Board, P.O. Box 26000, Sacramento, CA 95826.",
+      },
+    },
+  ],
+  FL: [
+    {
+      id: "fl-payment",
+      kind: "payment",
+      citation: "Fla. Stat. § 489.126",
+      title: { en: "Payment Terms", es: "Condiciones de Pago" },
+      body: {
+        en: "A 50% deposit is due upon acceptance and the balance is due upon completion of the work. Because the deposit exceeds 10 percent of the contract price, the contractor will apply for permits within 30 days and start work within 90 days after the permits are issued, unless you or circumstances beyond the contractor's control delay the work.",
+        es: "Se debe pagar un anticipo del 50% al aceptar y el saldo al terminar el trabajo. Como el anticipo excede el 10 por ciento del precio del contrato, el contratista solicitará los permisos dentro de 30 días y comenzará el trabajo dentro de 90 días después de que se emitan, salvo que usted o circunstancias fuera del control del contratista retrasen el trabajo.",
+      },
+    },
+    {
+      id: "fl-right-to-cancel",
+      kind: "right_to_cancel",
+      citation: "Fla. Stat. § 501.025",
+      title: { en: "Right to Cancel", es: "Derecho de Cancelación" },
+      body: {
+        en: "If this is a home solicitation sale, you may cancel this contract without penalty until midnight of the third business day after the day you signed it. To cancel, give the contractor written notice by mail, e-mail or delivery.",
+        es: "Si esta es una venta solicitada en su domicilio, puede cancelar este contrato sin penalidad hasta la medianoche del tercer día hábil después del día en que lo firmó. Para cancelarlo, entregue al contratista un aviso por escrito por correo postal, correo electrónico o en persona.",
+      },
+    },
+    {
+      id: "fl-construction-lien-law",
+      kind: "lien_notice",
+      citation: "Fla. Stat. § 713.015",
+      title: { en: "Florida Construction Lien Law", es: "Ley de Gravámenes de Construcción de Florida" },
+      body: {
+        en: "ACCORDING TO FLORIDA'S CONSTRUCTION LIEN LAW (SECTIONS 713.001-713.37, FLORIDA STATUTES), THOSE WHO WORK ON YOUR PROPERTY OR PROVIDE MATERIALS AND SERVICES AND ARE NOT PAID IN FULL HAVE A RIGHT TO ENFORCE THEIR CLAIM FOR PAYMENT AGAINST YOUR PROPERTY. THIS CLAIM IS KNOWN AS A CONSTRUCTION LIEN. IF YOUR CONTRACTOR OR A SUBCONTRACTOR FAILS TO PAY SUBCONTRACTORS, SUB-SUBCONTRACTORS, OR MATERIAL SUPPLIERS, THOSE PEOPLE WHO ARE OWED MONEY MAY LOOK TO YOUR PROPERTY FOR PAYMENT, EVEN IF YOU HAVE ALREADY PAID YOUR CONTRACTOR IN FULL. IF YOU FAIL TO PAY YOUR CONTRACTOR, YOUR CONTRACTOR MAY ALSO HAVE A LIEN ON YOUR PROPERTY. THIS MEANS IF A LIEN IS FILED YOUR PROPERTY COULD BE SOLD AGAINST YOUR WILL TO PAY FOR LABOR, MATERIALS, OR OTHER SERVICES THAT YOUR CONTRACTOR OR A SUBCONTRACTOR MAY HAVE FAILED TO PAY. TO PROTECT YOURSELF, YOU SHOULD STIPULATE IN THIS CONTRACT THAT BEFORE ANY PAYMENT IS MADE, YOUR CONTRACTOR IS REQUIRED TO PROVIDE YOU WITH A WRITTEN RELEASE OF LIEN FROM ANY PERSON OR COMPANY THAT HAS PROVIDED TO YOU A \"NOTICE TO OWNER.\" FLORIDA'S CONSTRUCTION LIEN LAW IS COMPLEX, AND IT IS RECOMMENDED THAT YOU CONSULT AN ATTORNEY.",
+        es: "DE ACUERDO CON LA LEY DE GRAVÁMENES DE CONSTRUCCIÓN DE FLORIDA (SECCIONES 713.001-713.37 DE LOS ESTATUTOS DE FLORIDA), QUIENES TRABAJAN EN SU PROPIEDAD O PROPORCIONAN MATERIALES Y SERVICIOS Y NO RECIBEN EL PAGO COMPLETO TIENEN DERECHO A HACER VALER SU RECLAMO DE PAGO CONTRA SU PROPIEDAD. ESTE RECLAMO SE CONOCE COMO GRAVAMEN DE CONSTRUCCIÓN. SI SU CONTRATISTA O UN SUBCONTRATISTA NO LES PAGA A LOS SUBCONTRATISTAS, SUB-SUBCONTRATISTAS O PROVEEDORES DE MATERIALES, LAS PERSONAS A QUIENES SE LES DEBE DINERO PUEDEN RECURRIR A SU PROPIEDAD PARA COBRAR, AUNQUE USTED YA LE HAYA PAGADO LA TOTALIDAD A SU CONTRATISTA. SI USTED NO LE PAGA A SU CONTRATISTA, SU CONTRATISTA TAMBIÉN PUEDE TENER UN GRAVAMEN SOBRE SU PROPIEDAD. ESTO SIGNIFICA QUE, SI SE PRESENTA UN GRAVAMEN, SU PROPIEDAD PODRÍA VENDERSE EN CONTRA DE SU VOLUNTAD PARA PAGAR LA MANO DE OBRA, LOS MATERIALES U OTROS SERVICIOS QUE SU CONTRATISTA O UN SUBCONTRATISTA NO HAYA PAGADO. PARA PROTEGERSE, DEBE ESTIPULAR EN ESTE CONTRATO QUE, ANTES DE REALIZAR CUALQUIER PAGO, SU CONTRATISTA DEBE ENTREGARLE UNA LIBERACIÓN DE GRAVAMEN POR ESCRITO DE CUALQUIER PERSONA O EMPRESA QUE LE HAYA ENTREGADO UN \"AVISO AL PROPIETARIO\". LA LEY DE GRAVÁMENES DE CONSTRUCCIÓN DE FLORIDA ES COMPLEJA Y SE RECOMIENDA QUE CONSULTE A UN ABOGADO.",
+      },
+    },
+    {
+      id: "fl-recovery-fund",
+      kind: "disclosure",
+      citation: "Fla. Stat. § 489.1425",
+      title: { en: "Homeowners' Construction Recovery Fund", es: "Fondo de Recuperación de Construcción para Propietarios" },
+      body: {
+        en: "Payment, up to a limited amount, may be available from the Florida Homeowners' Construction Recovery Fund if you lose money on a project performed under contract, where the loss results from specified violations of Florida law by a licensed contractor. For information about the recovery fund and filing a claim, contact the Florida Construction Industry Licensing Board.",
+        es: "Es posible que el Fondo de Recuperación de Construcción para Propietarios de Florida pague, hasta un monto limitado, si usted pierde dinero en un proyecto realizado bajo contrato y la pérdida se debe a infracciones específicas de la ley de Florida por parte de un contratista con licencia. Para obtener información sobre el fondo y presentar un reclamo, comuníquese con la Junta de Licencias de la Industria de la Construcción de Florida.",
+      },
+    },
+  ],
+  NY: [
+    {
+      id: "ny-payment",
+      kind: "payment",
+      citation: "N.Y. Gen. Bus. Law § 771; Lien Law § 71-a",
+      title: { en: "Payment Terms", es: "Condiciones de Pago" },
+      body: {
+        en: "A 50% deposit is due upon acceptance and the balance is due upon completion of the work. Any payment received before the work is substantially complete will be deposited in an escrow account in a New York bank, or protected by a bond or contractual arrangement, within five business days of receipt.",
+        es: "Se debe pagar un anticipo del 50% al aceptar y el saldo al terminar el trabajo. Todo pago recibido antes de que el trabajo esté sustancialmente terminado se depositará en una cuenta de garantía (escrow) en un banco de Nueva York, o se protegerá con una fianza o un acuerdo contractual, dentro de los cinco días hábiles siguientes a su recepción.",
+      },
+    },
+    {
+      id: "ny-right-to-cancel",
+      kind: "right_to_cancel",
+      citation: "N.Y. Gen. Bus. Law § 771",
+      title: { en: "Right to Cancel", es: "Derecho de Cancelación" },
+      body: {
+        en: "You may cancel this contract at any time before midnight of the third business day after receiving a written copy of it. Cancel by mailing or delivering a signed and dated written notice to the contractor.",
+        es: "Puede cancelar este contrato en cualquier momento antes de la medianoche del tercer día hábil después de recibir una copia escrita del mismo. Para cancelarlo, envíe por correo o entregue al contratista un aviso por escrito, firmado y fechado.",
+      },
+    },
+    {
+      id: "ny-mechanics-lien",
+      kind: "lien_notice",
+      citation: "N.Y. Gen. Bus. Law § 771",
+      title: { en: "Mechanic's Lien Notice", es: "Aviso de Gravamen de Construcción" },
+      body: {
+        en: "Any contractor, subcontractor or materialman who provides home improvement goods or services under this contract and who is not paid may have a valid legal claim against your property known as a mechanic's lien. Any mechanic's lien filed against your property may be discharged. Payment of the agreed-upon price before a mechanic's lien is filed may invalidate the lien. You may contact an attorney to determine your rights to discharge a mechanic's lien.",
+        es: "Cualquier contratista, subcontratista o proveedor de materiales que suministre bienes o servicios de mejoras al hogar bajo este contrato y a quien no se le pague puede tener un reclamo legal válido contra su propiedad, conocido como gravamen de construcción. Cualquier gravamen de construcción presentado contra su propiedad puede cancelarse. El pago del precio acordado antes de que se presente un gravamen de construcción puede invalidarlo. Puede consultar a un abogado para conocer sus derechos para cancelar un gravamen de construcción.",
+      },
+    },
+  ],
+  TX: [
+    {
+      id: "tx-payment",
+      kind: "payment",
+      citation: "Tex. Prop. Code § 53.101",
+      title: { en: "Payment Terms", es: "Condiciones de Pago" },
+      body: {
+        en: "A 50% deposit is due upon acceptance. The balance, less 10 percent of the contract price, is due upon completion of the work; the retained 10 percent is due 30 days after completion, as Texas law requires owners to retain it to protect against lien claims.",
+        es: "Se debe pagar un anticipo del 50% al aceptar. El saldo, menos el 10 por ciento del precio del contrato, se paga al terminar el trabajo; el 10 por ciento retenido se paga 30 días después de terminado, ya que la ley de Texas exige que los propietarios lo retengan como protección contra reclamos de gravamen.",
+      },
+    },
+    {
+      id: "tx-right-to-cancel",
+      kind: "right_to_cancel",
+      citation: "Tex. Bus. & Com. Code ch. 601",
+      title: { en: "Right to Cancel", es: "Derecho de Cancelación" },
+      body: {
+        en: "If this contract was signed at your home, you may cancel it without penalty or obligation within three business days after the date you signed it by giving the contractor written notice of cancellation.",
+        es: "Si firmó este contrato en su casa, puede cancelarlo sin penalidad ni obligación dentro de los tres días hábiles siguientes a la fecha en que lo firmó, entregando al contratista un aviso de cancelación por escrito.",
+      },
+    },
+    {
+      id: "tx-lien-disclosure",
+      kind: "lien_notice",
+      citation: "Tex. Prop. Code § 53.255",
+      title: { en: "Know Your Rights and Responsibilities Under the Law", es: "Conozca Sus Derechos y Responsabilidades Conforme a la Ley" },
+      body: {
+        en: "You are about to enter into a transaction to build new improvements or repair or remodel existing improvements on your property. Texas law gives subcontractors and suppliers who are not paid the right to claim a lien on your property. You may request a list of the subcontractors and suppliers the contractor will use, and you should obtain a signed lien release or bills-paid affidavit from the contractor when you make the final payment. If a lien is claimed, you may consult an attorney.",
+        es: "Está por celebrar una transacción para construir nuevas mejoras, o reparar o remodelar mejoras existentes, en su propiedad. La ley de Texas otorga a los subcontratistas y proveedores a quienes no se les pague el derecho a reclamar un gravamen sobre su propiedad. Puede solicitar una lista de los subcontratistas y proveedores que usará el contratista, y debe obtener del contratista una liberación de gravamen firmada o una declaración jurada de cuentas pagadas al hacer el pago final. Si se reclama un gravamen, puede consultar a un abogado.",
+      },
+    },
+  ],
+};
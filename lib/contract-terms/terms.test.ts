@@ -0,0 +1,188 @@
+/**
+ * Contract Terms Module Unit Tests
+ *
+ * Tests for state clause selection, the attached terms snapshot, localized
+ * terms and how attached terms render in the proposal PDF.
+ * Run with: npx tsx lib/contract-terms/terms.test.ts
+ */
+
+import { proposalContractTermsSchema } from '@shared/schema';
+import { CLIENT_LOCALES } from '../client-locale/locales';
+import { buildProposalPdf } from '../services/proposalPdf';
+import { CONTRACT_TERMS_VERSION, GENERAL_CLAUSES, STATE_CLAUSES } from './library';
+import {
+  buildContractTerms,
+  CONTRACT_TERMS_STATES,
+  contractTermsUpdateSchema,
+  getContractClauses,
+  localizeContractTerms,
+} from './terms';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// ============ TEST DATA ============
+
+const proposal = {
+  id: 7,
+  clientName: 'Dana Reyes',
+  address: '400 Ocean Dr, Miami FL 33139',
+  jobTypeName: 'Roof Replacement',
+  scope: ['Tear off existing shingles', 'Install new underlayment'],
+  priceLow: 18000,
+  priceHigh: 22000,
+  status: 'sent',
+  createdAt: new Date('2026-03-02T00:00:00Z'),
+};
+
+const ids = (clauses: { id: string }[]) => clauses.map((clause) => clause.id);
+
+// ============ TESTS ============
+
+function testGetContractClauses() {
+  console.log('\n--- getContractClauses ---');
+  assertEqual(ids(getContractClauses(null)), ids(GENERAL_CLAUSES), 'no state uses the general clauses');
+  assertEqual(ids(getContractClauses('OH')), ids(GENERAL_CLAUSES), 'states without their own clauses use the general clauses');
+
+  const california = getContractClauses('CA');
+  assertEqual(california[0].id, 'ca-payment', 'state payment terms replace the general ones in place');
+  assertEqual(
+    california.find((clause) => clause.kind === 'right_to_cancel')?.id,
+    'ca-right-to-cancel',
+    'state right to cancel replaces the federal notice'
+  );
+  assertEqual(california[california.length - 1].id, 'ca-cslb-notice', 'additional state disclosures come last');
+  assertEqual(california.length, GENERAL_CLAUSES.length + 1, 'no clause kind is duplicated');
+  assertEqual(ids(getContractClauses(' fl ')), ids(getContractClauses('FL')), 'state codes are case- and space-insensitive');
+}
+
+function testLibrary() {
+  console.log('\n--- clause library ---');
+  const all = [...GENERAL_CLAUSES, ...Object.values(STATE_CLAUSES).flat()];
+  assertEqual(new Set(ids(all)).size, all.length, 'clause IDs are unique');
+  assert(
+    all.every((clause) => Object.keys(CLIENT_LOCALES).every((language) =>
+      clause.title[language as 'en'].trim() !== '' && clause.body[language as 'en'].trim() !== ''
+    )),
+    'every clause is written in every client language'
+  );
+  for (const state of CONTRACT_TERMS_STATES) {
+    const kinds = STATE_CLAUSES[state].map((clause) => clause.kind);
+    assert(
+      kinds.includes('payment') && kinds.includes('right_to_cancel') && kinds.includes('lien_notice'),
+      `${state} has payment terms, a right to cancel and a lien notice`
+    );
+    assert(STATE_CLAUSES[state].every((clause) => clause.citation), `${state} clauses cite their statute`);
+  }
+}
+
+function testBuildContractTerms() {
+  console.log('\n--- buildContractTerms ---');
+  const terms = buildContractTerms('tx');
+  assertEqual(terms.version, CONTRACT_TERMS_VERSION, 'records the library version');
+  assertEqual(terms.state, 'TX', 'records the normalized state');
+  assertEqual(ids(terms.clauses), ids(getContractClauses('TX')), 'snapshots the state clauses');
+  assertEqual(buildContractTerms('Texas').state, null, 'unrecognized states are recorded as none');
+  assert(proposalContractTermsSchema.safeParse(buildContractTerms('FL')).success, 'the snapshot passes the proposal schema');
+}
+
+function testLocalizeContractTerms() {
+  console.log('\n--- localizeContractTerms ---');
+  assertEqual(
+    localizeContractTerms(null, 'es').map((clause) => clause.body),
+    CLIENT_LOCALES.es.messages.document.terms,
+    'proposals without attached terms keep the generic terms'
+  );
+  assert(localizeContractTerms(undefined, 'en').every((clause) => clause.title === ''), 'generic terms have no titles');
+
+  const shown = localizeContractTerms(buildContractTerms('NY'), 'es');
+  assertEqual(shown[0].title, 'Condiciones de Pago', 'titles are in the client language');
+  assert(shown[0].body.endsWith('(N.Y. Gen. Bus. Law § 771; Lien Law § 71-a)'), 'bodies end with the citation');
+  assert(
+    localizeContractTerms(buildContractTerms('NY'), 'fr')[0].body.startsWith('A 50% deposit'),
+    'unknown languages fall back to English'
+  );
+}
+
+function testContractTermsUpdateSchema() {
+  console.log('\n--- contractTermsUpdateSchema ---');
+  assertEqual(contractTermsUpdateSchema.parse({ state: 'ca' }), { state: 'CA' }, 'uppercases the state');
+  assert(contractTermsUpdateSchema.safeParse({ state: null }).success, 'null selects the general clauses');
+  assert(!contractTermsUpdateSchema.safeParse({ state: 'California' }).success, 'rejects state names');
+  assert(!contractTermsUpdateSchema.safeParse({ state: 'CA', clauses: [] }).success, 'rejects unknown fields');
+}
+
+function testPdfTerms() {
+  console.log('\n--- buildProposalPdf terms ---');
+  const generic = buildProposalPdf({ proposal, companyInfo: null });
+  const florida = buildProposalPdf({ proposal: { ...proposal, contractTerms: buildContractTerms('FL') }, companyInfo: null });
+  const text = Buffer.from(florida.pdfBytes).toString('latin1');
+
+  assert(florida.sha256 !== generic.sha256, 'attached terms change the document');
+  assert(text.includes('7. Florida Construction Lien Law'), 'renders clause titles');
+  assert(text.includes('Fla. Stat. ') && text.includes('713.015'), 'renders statute citations');
+  assert(!text.includes('All permits to be obtained by contractor'), 'attached terms replace the generic list');
+  assertEqual(
+    buildProposalPdf({ proposal: { ...proposal, contractTerms: buildContractTerms('FL') }, companyInfo: null }).sha256,
+    florida.sha256,
+    'attached terms render identical bytes every time'
+  );
+
+  const spanish = buildProposalPdf({
+    proposal: { ...proposal, clientLanguage: 'es', contractTerms: buildContractTerms('FL') },
+    companyInfo: null,
+    theme: { termsPage: true },
+  });
+  assert(Buffer.from(spanish.pdfBytes).toString('latin1').includes('Ley de Grav'), 'renders clauses in the client language on the terms page');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Contract Terms Module Unit Tests');
+  console.log('='.repeat(50));
+
+  testGetContractClauses();
+  testLibrary();
+  testBuildContractTerms();
+  testLocalizeContractTerms();
+  testContractTermsUpdateSchema();
+  testPdfTerms();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,86 @@
+/**
+ * Contract Terms Helpers
+ *
+ * Builds the terms snapshot attached to a proposal for its state and renders
+ * it in the client's language. Proposals without attached terms (created
+ * before the library) keep the generic terms from the client messages.
+ *
+ * Pure module - safe to import from client and server code.
+ */
+
+import { z } from "zod";
+import type { ContractClause, ProposalContractTerms, SignedTermsClause } from "@shared/schema";
+import { getClientMessages, resolveClientLanguage } from "@/lib/client-locale/locales";
+import { CONTRACT_TERMS_VERSION, GENERAL_CLAUSES, STATE_CLAUSES } from "./library";
+
+export const contractTermsUpdateSchema = z
+  .object({
+    state: z
+      .string()
+      .regex(/^[A-Za-z]{2}$/, "State must be a two-letter code like TX")
+      .transform((state) => state.toUpperCase())
+      .nullable(),
+  })
+  .strict();
+
+/** States with their own payment terms, notices or disclosures. */
+export const CONTRACT_TERMS_STATES = Object.keys(STATE_CLAUSES).sort();
+
+function normalizeState(state: string | null | undefined): string | null {
+  const code = state?.trim().toUpperCase();
+  return code && /^[A-Z]{2}$/.test(code) ? code : null;
+}
+
+/**
+ * Clauses for a state: the general clauses with the state's version of each
+ * kind swapped in place, followed by the state's additional clauses.
+ */
+export function getContractClauses(state: string | null | undefined): ContractClause[] {
+  const code = normalizeState(state);
+  const stateClauses = (code && STATE_CLAUSES[code]) || [];
+  const replaced = new Set<ContractClause>();
+
+  const clauses = GENERAL_CLAUSES.map((clause) => {
+    const override = stateClauses.find((candidate) => candidate.kind === clause.kind);
+    if (!override) return clause;
+    replaced.add(override);
+    return override;
+  });
+
+  return [...clauses, ...stateClauses.filter((clause) => !replaced.has(clause))];
+}
+
+/** Snapshot attached to a proposal; later library changes don't alter it. */
+export function buildContractTerms(state: string | null | undefined): ProposalContractTerms {
+  return {
+    version: CONTRACT_TERMS_VERSION,
+    state: normalizeState(state),
+    clauses: getContractClauses(state),
+  };
+}
+
+/**
+ * The terms as shown to a signer in their language. Without attached terms
+ * this is the generic list, which has no clause titles.
+ */
+export function localizeContractTerms(
+  terms: ProposalContractTerms | null | undefined,
+  language: unknown
+): SignedTermsClause[] {
+  const resolved = resolveClientLanguage(language);
+  if (!terms) {
+    return getClientMessages(resolved).document.terms.map((body, index) => ({
+      id: `generic-${index + 1}`,
+      title: "",
+      body,
+    }));
+  }
+
+  return terms.clauses.map((clause) => ({
+    id: clause.id,
+    title: clause.title[resolved] ?? clause.title.en,
+    body: clause.citation
+      ? `${clause.body[resolved] ?? clause.body.en} (${clause.citation})`
+      : clause.body[resolved] ?? clause.body.en,
+  }));
+}
@@ -0,0 +1,205 @@
+/**
+ * Cost Breakdown Module Unit Tests
+ * 
+ * Tests for quantity x unit-cost math, roll-ups, the client table, and 1build mapping.
+ * Run with: npx tsx lib/cost-breakdown.test.ts
+ */
+
+import {
+  applyCostBreakdownRollUps,
+  computeCostBreakdownRow,
+  computeCostBreakdownTotals,
+  costBreakdownRowFromOneBuildSource,
+  costBreakdownUnitFromUom,
+  rollUpCostBreakdown,
+  toClientCostTable,
+} from './cost-breakdown';
+import type { CostBreakdown, CostBreakdownRow, ProposalLineItem } from '@shared/schema';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// ============ TEST DATA ============
+
+function row(overrides: Partial<CostBreakdownRow> = {}): CostBreakdownRow {
+  return {
+    id: 'row-1',
+    description: 'Architectural shingles',
+    quantity: 30,
+    unit: 'square',
+    materialUnitCost: 120,
+    laborHours: 40,
+    laborRate: 65,
+    markupPercent: 20,
+    ...overrides,
+  };
+}
+
+// 30 sq x $120 = $3,600 material; 40 h x $65 = $2,600 labor; 20% markup = $1,240
+const shingles = row();
+// 200 LF x $2.50 = $500 material; 6 h x $65 = $390 labor; no markup
+const dripEdge = row({ id: 'row-2', description: 'Drip edge', quantity: 200, unit: 'linear_ft', materialUnitCost: 2.5, laborHours: 6, markupPercent: 0 });
+
+function lineItem(overrides: Partial<ProposalLineItem> = {}): ProposalLineItem {
+  return {
+    id: 'svc-1',
+    tradeId: 'roofing',
+    tradeName: 'Roofing',
+    jobTypeId: 'roof-replacement',
+    jobTypeName: 'Roof Replacement',
+    jobSize: 2,
+    scope: ['Tear off existing shingles'],
+    options: {},
+    priceLow: 9000,
+    priceHigh: 11000,
+    ...overrides,
+  };
+}
+
+// ============ TESTS ============
+
+function testRowMath() {
+  console.log('\n--- computeCostBreakdownRow ---');
+  assertEqual(
+    computeCostBreakdownRow(shingles),
+    { materialCost: 3600, laborCost: 2600, markupAmount: 1240, total: 7440 },
+    'material + labor hours x rate + markup'
+  );
+  assertEqual(
+    computeCostBreakdownRow(row({ quantity: 3, materialUnitCost: 0.1, laborHours: 0, markupPercent: 0 })).total,
+    0.3,
+    'rounds to cents without float drift'
+  );
+
+  const totals = computeCostBreakdownTotals({ rows: [shingles, dripEdge] });
+  assertEqual(totals, { materialCost: 4100, laborCost: 2990, markupAmount: 1240, total: 8330 }, 'totals sum all rows');
+}
+
+function testRollUp() {
+  console.log('\n--- rollUpCostBreakdown ---');
+  const breakdown: CostBreakdown = { rows: [shingles, dripEdge] };
+  assertEqual(rollUpCostBreakdown(breakdown), { priceLow: 8330, priceHigh: 8330 }, 'exact price without a range');
+  assertEqual(
+    rollUpCostBreakdown({ ...breakdown, rangePercent: 10 }),
+    { priceLow: 7497, priceHigh: 9163 },
+    'rangePercent spreads around the total'
+  );
+}
+
+function testApplyRollUps() {
+  console.log('\n--- applyCostBreakdownRollUps ---');
+  const untouched = { priceLow: 100, priceHigh: 200, lineItems: [lineItem()] };
+  assert(applyCostBreakdownRollUps(untouched) === untouched, 'payloads without a breakdown are unchanged');
+
+  const single = applyCostBreakdownRollUps({ priceLow: 1, priceHigh: 2, costBreakdown: { rows: [shingles] } });
+  assertEqual([single.priceLow, single.priceHigh], [7440, 7440], 'single-service breakdown sets the price');
+
+  const multi = applyCostBreakdownRollUps({
+    priceLow: 0,
+    priceHigh: 0,
+    lineItems: [
+      lineItem({ costBreakdown: { rows: [dripEdge] } }),
+      lineItem({ id: 'svc-2', priceLow: 1000, priceHigh: 2000 }),
+    ],
+  });
+  assertEqual([multi.lineItems![0].priceLow, multi.lineItems![0].priceHigh], [890, 890], 'line item price comes from its breakdown');
+  assertEqual([multi.priceLow, multi.priceHigh], [1890, 2890], 'proposal total re-sums line items');
+
+  const empty = { priceLow: 5, priceHigh: 6, costBreakdown: { rows: [] } };
+  assert(applyCostBreakdownRollUps(empty) === empty, 'empty breakdowns are ignored');
+}
+
+function testClientTable() {
+  console.log('\n--- toClientCostTable ---');
+  const table = toClientCostTable({ rows: [shingles, dripEdge] });
+  assertEqual(
+    table.rows[0],
+    { description: 'Architectural shingles', quantity: 30, unit: 'square', material: 4320, labor: 3120, total: 7440 },
+    'markup is folded into material and labor'
+  );
+  assertEqual([table.material, table.labor, table.total], [4820, 3510, 8330], 'subtotals add up');
+  assert(!('markupPercent' in table.rows[0]), 'markup percent is not exposed');
+}
+
+function testOneBuildMapping() {
+  console.log('\n--- 1build mapping ---');
+  assertEqual(costBreakdownUnitFromUom('SF'), 'sq_ft', 'SF maps to sq_ft');
+  assertEqual(costBreakdownUnitFromUom('L.F.'), 'linear_ft', 'L.F. maps to linear_ft');
+  assertEqual(costBreakdownUnitFromUom('SQ'), 'square', 'SQ maps to square');
+  assertEqual(costBreakdownUnitFromUom('CY'), null, 'unknown units map to null');
+
+  const fromSource = costBreakdownRowFromOneBuildSource(
+    {
+      id: 'src-1',
+      name: 'Asphalt shingles, installed',
+      unitCost: 250,
+      unit: 'SQ',
+      calculatedUnitRateUsdCents: 25000,
+      laborRateUsdCents: 13000,
+      materialRateUsdCents: 12000,
+    },
+    { id: 'row-x', quantity: 30, laborRate: 65, markupPercent: 15 }
+  );
+  assertEqual(
+    [fromSource.unit, fromSource.materialUnitCost, fromSource.laborHours, fromSource.laborRate],
+    ['square', 120, 60, 65],
+    'per-unit labor converts to hours at the contractor rate'
+  );
+  assertEqual([fromSource.source, fromSource.sourceId], ['onebuild', 'src-1'], 'records the 1build source');
+
+  const materialOnly = costBreakdownRowFromOneBuildSource(
+    { id: 'src-2', name: 'Drip edge', unitCost: 2.5, unit: 'LF' },
+    { id: 'row-y', quantity: 10, laborRate: 0 }
+  );
+  assertEqual([materialOnly.materialUnitCost, materialOnly.laborHours], [2.5, 0], 'falls back to unit cost for material');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Cost Breakdown Module Unit Tests');
+  console.log('='.repeat(50));
+
+  testRowMath();
+  testRollUp();
+  testApplyRollUps();
+  testClientTable();
+  testOneBuildMapping();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
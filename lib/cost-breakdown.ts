@@ -0,0 +1,222 @@
+/**
+ * Itemized Cost Breakdown Helpers
+ * Quantity x unit-cost math for the optional per-line-item cost breakdown,
+ * roll-up into the existing priceLow/priceHigh ranges, and the client-facing
+ * table shown on the proposal PDF and public proposal page.
+ */
+
+import type {
+  CostBreakdown,
+  CostBreakdownRow,
+  CostBreakdownUnit,
+  ProposalLineItem,
+} from "@shared/schema";
+import type { OneBuildSource } from "@/lib/services/onebuild";
+
+export const COST_BREAKDOWN_UNIT_LABELS: Record<CostBreakdownUnit, string> = {
+  sq_ft: "sq ft",
+  linear_ft: "LF",
+  each: "each",
+  square: "square",
+};
+
+export interface CostBreakdownRowTotals {
+  materialCost: number;
+  laborCost: number;
+  markupAmount: number;
+  total: number;
+}
+
+/**
+ * A breakdown row as shown to the homeowner: markup is folded into the
+ * material and labor amounts rather than shown as its own column.
+ */
+export interface ClientCostTableRow {
+  description: string;
+  quantity: number;
+  unit: CostBreakdownUnit;
+  material: number;
+  labor: number;
+  total: number;
+}
+
+export interface ClientCostTable {
+  rows: ClientCostTableRow[];
+  material: number;
+  labor: number;
+  total: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function hasCostBreakdown(
+  breakdown: CostBreakdown | null | undefined
+): breakdown is CostBreakdown {
+  return !!breakdown && breakdown.rows.length > 0;
+}
+
+export function computeCostBreakdownRow(row: CostBreakdownRow): CostBreakdownRowTotals {
+  const materialCost = roundCents(row.quantity * row.materialUnitCost);
+  const laborCost = roundCents(row.laborHours * row.laborRate);
+  const markupAmount = roundCents((materialCost + laborCost) * (row.markupPercent / 100));
+  return {
+    materialCost,
+    laborCost,
+    markupAmount,
+    total: roundCents(materialCost + laborCost + markupAmount),
+  };
+}
+
+export function computeCostBreakdownTotals(breakdown: CostBreakdown): CostBreakdownRowTotals {
+  return breakdown.rows.reduce<CostBreakdownRowTotals>(
+    (sum, row) => {
+      const totals = computeCostBreakdownRow(row);
+      return {
+        materialCost: roundCents(sum.materialCost + totals.materialCost),
+        laborCost: roundCents(sum.laborCost + totals.laborCost),
+        markupAmount: roundCents(sum.markupAmount + totals.markupAmount),
+        total: roundCents(sum.total + totals.total),
+      };
+    },
+    { materialCost: 0, laborCost: 0, markupAmount: 0, total: 0 }
+  );
+}
+
+/**
+ * Roll a breakdown up into whole-dollar priceLow/priceHigh. Without a
+ * rangePercent both ends equal the itemized total.
+ */
+export function rollUpCostBreakdown(breakdown: CostBreakdown): { priceLow: number; priceHigh: number } {
+  const { total } = computeCostBreakdownTotals(breakdown);
+  const spread = (breakdown.rangePercent ?? 0) / 100;
+  return {
+    priceLow: Math.round(total * (1 - spread)),
+    priceHigh: Math.round(total * (1 + spread)),
+  };
+}
+
+type RollUpSource = {
+  priceLow?: number;
+  priceHigh?: number;
+  lineItems?: ProposalLineItem[] | null;
+  costBreakdown?: CostBreakdown | null;
+};
+
+/**
+ * Apply cost breakdown roll-ups to a proposal payload (create body or update
+ * payload). Line items with a breakdown get their prices recomputed; the
+ * proposal total is re-summed when any line item changed, or taken from the
+ * proposal-level breakdown for single-service proposals. Payloads without a
+ * breakdown are returned unchanged.
+ */
+export function applyCostBreakdownRollUps<T extends RollUpSource>(data: T): T {
+  if (data.lineItems && data.lineItems.length > 0) {
+    if (!data.lineItems.some((item) => hasCostBreakdown(item.costBreakdown))) {
+      return data;
+    }
+    const lineItems = data.lineItems.map((item) =>
+      hasCostBreakdown(item.costBreakdown)
+        ? { ...item, ...rollUpCostBreakdown(item.costBreakdown) }
+        : item
+    );
+    return {
+      ...data,
+      lineItems,
+      priceLow: lineItems.reduce((sum, item) => sum + item.priceLow, 0),
+      priceHigh: lineItems.reduce((sum, item) => sum + item.priceHigh, 0),
+    };
+  }
+
+  if (hasCostBreakdown(data.costBreakdown)) {
+    return { ...data, ...rollUpCostBreakdown(data.costBreakdown) };
+  }
+
+  return data;
+}
+
+/**
+ * Build the homeowner-facing table (no unit costs, hours, or markup %).
+ */
+export function toClientCostTable(breakdown: CostBreakdown): ClientCostTable {
+  const rows = breakdown.rows.map((row) => {
+    const totals = computeCostBreakdownRow(row);
+    const markupFactor = 1 + row.markupPercent / 100;
+    const material = roundCents(totals.materialCost * markupFactor);
+    return {
+      description: row.description,
+      quantity: row.quantity,
+      unit: row.unit,
+      material,
+      // Derive labor from the total so the columns always add up after rounding
+      labor: roundCents(totals.total - material),
+      total: totals.total,
+    };
+  });
+  return {
+    rows,
+    material: roundCents(rows.reduce((sum, row) => sum + row.material, 0)),
+    labor: roundCents(rows.reduce((sum, row) => sum + row.labor, 0)),
+    total: roundCents(rows.reduce((sum, row) => sum + row.total, 0)),
+  };
+}
+
+/**
+ * Map a 1build unit of measure (e.g. "SF", "LF", "EA", "SQ") to a breakdown unit.
+ */
+export function costBreakdownUnitFromUom(uom: string | null | undefined): CostBreakdownUnit | null {
+  const normalized = (uom || "").trim().toLowerCase().replace(/[.\s_-]+/g, "");
+  switch (normalized) {
+    case "sf":
+    case "sqft":
+    case "squarefoot":
+    case "squarefeet":
+      return "sq_ft";
+    case "lf":
+    case "linft":
+    case "linearfoot":
+    case "linearfeet":
+      return "linear_ft";
+    case "ea":
+    case "each":
+      return "each";
+    case "sq":
+    case "square":
+    case "squares":
+      return "square";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build a breakdown row from a 1build source. 1build quotes labor per unit of
+ * measure; it is converted to hours using the contractor's hourly labor rate
+ * so the row keeps the hours x rate shape.
+ */
+export function costBreakdownRowFromOneBuildSource(
+  source: OneBuildSource,
+  options: { id: string; quantity: number; laborRate: number; markupPercent?: number }
+): CostBreakdownRow {
+  const unitRateCents = source.calculatedUnitRateUsdCents ?? Math.round(source.unitCost * 100);
+  const laborUnitCents = source.laborRateUsdCents ?? 0;
+  const materialUnitCents = source.materialRateUsdCents ?? Math.max(unitRateCents - laborUnitCents, 0);
+  const laborHours =
+    options.laborRate > 0
+      ? roundCents((options.quantity * laborUnitCents) / 100 / options.laborRate)
+      : 0;
+
+  return {
+    id: options.id,
+    description: source.name,
+    quantity: options.quantity,
+    unit: costBreakdownUnitFromUom(source.unit) ?? "each",
+    materialUnitCost: materialUnitCents / 100,
+    laborHours,
+    laborRate: options.laborRate,
+    markupPercent: options.markupPercent ?? 0,
+    source: "onebuild",
+    sourceId: source.id,
+  };
+}
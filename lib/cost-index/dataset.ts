@@ -0,0 +1,225 @@
+/**
+ * Labor Cost Index Dataset
+ *
+ * Schema and loader for the regional cost index: state multipliers, ZIP3 →
+ * state coverage ranges, and optional county, ZIP3 and ZIP refinements. The
+ * bundled dataset lives in ./data/us-cost-index.json and can be regenerated
+ * from a CSV with scripts/import-cost-index.ts.
+ *
+ * Pure module - safe to import from client and server code.
+ */
+
+import { z } from "zod";
+import bundledDataset from "./data/us-cost-index.json";
+
+const multiplierSchema = z.number().min(0.5).max(2.5);
+const stateCodeSchema = z.string().regex(/^[A-Z]{2}$/, "State must be a 2-letter code");
+const zip3Schema = z.string().regex(/^\d{3}$/, "ZIP3 must be 3 digits");
+const zipSchema = z.string().regex(/^\d{5}$/, "ZIP must be 5 digits");
+// "TX:Travis County"
+const countyKeySchema = z.string().regex(/^[A-Z]{2}:.+$/, "County key must look like \"TX:Travis County\"");
+
+export const costIndexDatasetSchema = z.object({
+  version: z.string().min(1),
+  description: z.string().optional(),
+  states: z.record(
+    stateCodeSchema,
+    z.object({
+      name: z.string().min(1),
+      region: z.string().min(1),
+      multiplier: multiplierSchema,
+    })
+  ),
+  // Inclusive [fromZip3, toZip3, state] ranges; resolves the state for any ZIP
+  zip3States: z.array(z.tuple([zip3Schema, zip3Schema, stateCodeSchema])),
+  counties: z.record(countyKeySchema, z.object({ multiplier: multiplierSchema })),
+  // County and multiplier are both optional: a ZIP3 row may only point at its county
+  zip3: z.record(
+    zip3Schema,
+    z.object({ county: countyKeySchema.optional(), multiplier: multiplierSchema.optional() })
+  ),
+  zips: z.record(
+    zipSchema,
+    z.object({ county: countyKeySchema.optional(), multiplier: multiplierSchema.optional() })
+  ),
+});
+
+export type CostIndexDataset = z.infer<typeof costIndexDatasetSchema>;
+
+/**
+ * Validate a dataset and check that every county reference resolves and every
+ * county belongs to a known state. Throws with the first problem found.
+ */
+export function loadCostIndexDataset(raw: unknown): CostIndexDataset {
+  const dataset = costIndexDatasetSchema.parse(raw);
+
+  for (const countyKey of Object.keys(dataset.counties)) {
+    const state = countyKey.slice(0, 2);
+    if (!dataset.states[state]) {
+      throw new Error(`Cost index county ${countyKey} references unknown state ${state}`);
+    }
+  }
+
+  const refs = [
+    ...Object.entries(dataset.zip3).map(([key, row]) => [`ZIP3 ${key}`, row.county] as const),
+    ...Object.entries(dataset.zips).map(([key, row]) => [`ZIP ${key}`, row.county] as const),
+  ];
+  for (const [where, county] of refs) {
+    if (county && !dataset.counties[county]) {
+      throw new Error(`Cost index ${where} references unknown county ${county}`);
+    }
+  }
+
+  for (const [from, to, state] of dataset.zip3States) {
+    if (from > to) throw new Error(`Cost index ZIP3 range ${from}-${to} is reversed`);
+    if (!dataset.states[state]) throw new Error(`Cost index ZIP3 range ${from}-${to} references unknown state ${state}`);
+  }
+
+  return dataset;
+}
+
+let defaultDataset: CostIndexDataset | null = null;
+
+// The bundled dataset, validated once on first use
+export function getDefaultCostIndexDataset(): CostIndexDataset {
+  if (!defaultDataset) {
+    defaultDataset = loadCostIndexDataset(bundledDataset);
+  }
+  return defaultDataset;
+}
+
+// ============ CSV IMPORT ============
+
+export const costIndexCsvLevels = ["state", "zip3_range", "county", "zip3", "zip"] as const;
+export type CostIndexCsvLevel = typeof costIndexCsvLevels[number];
+
+/**
+ * One CSV row. Columns: level,key,state,name,region,county,multiplier
+ *
+ *   state,TX,,Texas,South,,0.92
+ *   zip3_range,750-799,TX,,,,
+ *   county,Travis County,TX,,,,1.02
+ *   zip3,787,TX,,,Travis County,1.02
+ *   zip,78624,TX,,,Gillespie County,
+ */
+export interface CostIndexCsvRow {
+  level: CostIndexCsvLevel;
+  key: string;
+  state: string;
+  name: string;
+  region: string;
+  county: string;
+  multiplier: number | undefined;
+}
+
+export function parseCostIndexCsv(text: string): CostIndexCsvRow[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith("#"));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(",").map((col) => col.trim().toLowerCase());
+  const hasHeader = header[0] === "level";
+  const columns = hasHeader ? header : ["level", "key", "state", "name", "region", "county", "multiplier"];
+
+  return lines.slice(hasHeader ? 1 : 0).map((line, idx) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const get = (col: string) => cells[columns.indexOf(col)] ?? "";
+    const level = get("level") as CostIndexCsvLevel;
+    if (!costIndexCsvLevels.includes(level)) {
+      throw new Error(`Cost index CSV line ${idx + (hasHeader ? 2 : 1)}: unknown level "${get("level")}"`);
+    }
+    const rawMultiplier = get("multiplier");
+    const multiplier = rawMultiplier ? Number(rawMultiplier) : undefined;
+    if (multiplier !== undefined && !Number.isFinite(multiplier)) {
+      throw new Error(`Cost index CSV line ${idx + (hasHeader ? 2 : 1)}: invalid multiplier "${rawMultiplier}"`);
+    }
+    return {
+      level,
+      key: get("key"),
+      state: get("state").toUpperCase(),
+      name: get("name"),
+      region: get("region"),
+      county: get("county"),
+      multiplier,
+    };
+  });
+}
+
+/**
+ * Apply CSV rows on top of a dataset (rows win) and validate the result.
+ */
+export function mergeCostIndexRows(
+  base: CostIndexDataset,
+  rows: CostIndexCsvRow[],
+  version: string
+): CostIndexDataset {
+  const next: CostIndexDataset = {
+    ...base,
+    version,
+    states: { ...base.states },
+    zip3States: [...base.zip3States],
+    counties: { ...base.counties },
+    zip3: { ...base.zip3 },
+    zips: { ...base.zips },
+  };
+
+  for (const row of rows) {
+    const countyKey = row.county ? `${row.state}:${row.county}` : undefined;
+    switch (row.level) {
+      case "state": {
+        const existing = next.states[row.key];
+        next.states[row.key] = {
+          name: row.name || existing?.name || row.key,
+          region: row.region || existing?.region || "",
+          multiplier: row.multiplier ?? existing?.multiplier ?? 1,
+        };
+        break;
+      }
+      case "zip3_range": {
+        const [from, to = from] = row.key.split("-");
+        next.zip3States = next.zip3States.filter(([f, t]) => t < from || f > to);
+        next.zip3States.push([from, to, row.state]);
+        next.zip3States.sort((a, b) => a[0].localeCompare(b[0]));
+        break;
+      }
+      case "county":
+        next.counties[`${row.state}:${row.key}`] = { multiplier: row.multiplier ?? 1 };
+        break;
+      case "zip3":
+        next.zip3[row.key] = { county: countyKey, multiplier: row.multiplier };
+        break;
+      case "zip":
+        next.zips[row.key] = { county: countyKey, multiplier: row.multiplier };
+        break;
+    }
+  }
+
+  return loadCostIndexDataset(JSON.parse(JSON.stringify(next)));
+}
+
+// One row per line so dataset diffs stay reviewable
+export function serializeCostIndexDataset(dataset: CostIndexDataset): string {
+  const row = (value: unknown) => JSON.stringify(value).replace(/":/g, "\": ").replace(/,"/g, ", \"");
+  const block = (name: string, entries: Record<string, unknown>, last = false) => {
+    const keys = Object.keys(entries).sort();
+    return [
+      `  "${name}": {`,
+      ...keys.map((key, i) => `    ${JSON.stringify(key)}: ${row(entries[key])}${i < keys.length - 1 ? "," : ""}`),
+      `  }${last ? "" : ","}`,
+    ];
+  };
+
+  return [
+    "{",
+    `  "version": ${JSON.stringify(dataset.version)},`,
+    ...(dataset.description ? [`  "description": ${JSON.stringify(dataset.description)},`] : []),
+    ...block("states", dataset.states),
+    `  "zip3States": [`,
+    ...dataset.zip3States.map((range, i) => `    ${JSON.stringify(range).replace(/,/g, ", ")}${i < dataset.zip3States.length - 1 ? "," : ""}`),
+    "  ],",
+    ...block("counties", dataset.counties),
+    ...block("zip3", dataset.zip3),
+    ...block("zips", dataset.zips, true),
+    "}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,8 @@
+/**
+ * Regional labor cost index (ZIP → ZIP3 → county → state).
+ *
+ * Everything here is pure and safe to import from client and server code.
+ */
+
+export * from "./dataset";
+export * from "./lookup";
@@ -0,0 +1,208 @@
+/**
+ * Cost Index Unit Tests
+ *
+ * Tests for the ZIP → ZIP3 → county → state lookup, dataset validation, and
+ * CSV import.
+ * Run with: npx tsx lib/cost-index/lookup.test.ts
+ */
+
+import {
+  getDefaultCostIndexDataset,
+  loadCostIndexDataset,
+  mergeCostIndexRows,
+  parseCostIndexCsv,
+  serializeCostIndexDataset,
+  type CostIndexDataset,
+} from './dataset';
+import { detectStateCode, extractZip, getStateForZip, lookupCostIndex } from './lookup';
+import { computePriceRange } from '../../src/lib/mobile/draft/pricebook';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+function assertThrows(fn: () => unknown, message: string) {
+  try {
+    fn();
+    console.log(`❌ FAIL: ${message} (did not throw)`);
+    failed++;
+  } catch {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  }
+}
+
+const fixture: CostIndexDataset = {
+  version: 'test',
+  states: {
+    TX: { name: 'Texas', region: 'South', multiplier: 0.92 },
+    CA: { name: 'California', region: 'Pacific', multiplier: 1.35 },
+  },
+  zip3States: [
+    ['750', '799', 'TX'],
+    ['900', '961', 'CA'],
+  ],
+  counties: {
+    'TX:Travis County': { multiplier: 1.02 },
+    'TX:Gillespie County': { multiplier: 0.84 },
+  },
+  zip3: {
+    '787': { county: 'TX:Travis County', multiplier: 1.03 },
+    '786': {},
+  },
+  zips: {
+    '78746': { county: 'TX:Travis County', multiplier: 1.12 },
+    '78624': { county: 'TX:Gillespie County' },
+  },
+};
+
+// ============ TESTS ============
+
+function testLookupOrder() {
+  console.log('\n--- lookupCostIndex ---');
+  const zip = lookupCostIndex({ zip: '78746' }, fixture);
+  assertEqual([zip.level, zip.key, zip.multiplier], ['zip', '78746', 1.12], 'ZIP row with a multiplier wins');
+  assertEqual([zip.state, zip.county], ['TX', 'Travis County'], 'ZIP match carries its county and state');
+
+  const zip3 = lookupCostIndex({ zip: '78701' }, fixture);
+  assertEqual([zip3.level, zip3.key, zip3.multiplier], ['zip3', '787', 1.03], 'unlisted ZIP falls back to its ZIP3');
+
+  const county = lookupCostIndex({ zip: '78624' }, fixture);
+  assertEqual([county.level, county.key, county.multiplier], ['county', 'TX:Gillespie County', 0.84], 'ZIP without a multiplier uses its county');
+  assertEqual(county.label, 'Gillespie County, TX', 'county label');
+
+  const state = lookupCostIndex({ zip: '78610' }, fixture);
+  assertEqual([state.level, state.key, state.multiplier], ['state', 'TX', 0.92], 'ZIP3 without county or multiplier falls back to the state');
+
+  const national = lookupCostIndex({ zip: '10001' }, fixture);
+  assertEqual([national.level, national.multiplier], ['national', 1], 'ZIP outside every range is the national average');
+
+  const explicitCounty = lookupCostIndex({ state: 'tx', county: 'Gillespie County' }, fixture);
+  assertEqual(explicitCounty.level, 'county', 'explicit state + county resolves without a ZIP');
+
+  const fromAddress = lookupCostIndex({ address: '123 Main St, Fredericksburg, TX 78624' }, fixture);
+  assertEqual(fromAddress.level, 'county', 'ZIP is extracted from the address');
+
+  const stateOnly = lookupCostIndex({ address: '1 Ocean Ave, Santa Monica, California' }, fixture);
+  assertEqual([stateOnly.level, stateOnly.key], ['state', 'CA'], 'state name in the address resolves the state');
+
+  assertEqual(lookupCostIndex({ zip: '78746' }, fixture).datasetVersion, 'test', 'records the dataset version');
+}
+
+function testHelpers() {
+  console.log('\n--- helpers ---');
+  assertEqual(extractZip('500 Congress Ave, Austin, TX 78701-1234'), '78701', 'extracts ZIP+4 as ZIP');
+  assertEqual(extractZip('no zip here'), null, 'no ZIP');
+  assertEqual(getStateForZip('78624', fixture), 'TX', 'ZIP3 range resolves state');
+  assertEqual(detectStateCode('Austin, TX', fixture), 'TX', 'state code in address');
+  assertEqual(detectStateCode('', fixture), null, 'empty address');
+}
+
+function testBundledDataset() {
+  console.log('\n--- bundled dataset ---');
+  const dataset = getDefaultCostIndexDataset();
+  assertEqual(Object.keys(dataset.states).length, 51, 'all 50 states plus DC');
+
+  const austin = lookupCostIndex({ zip: '78701' });
+  const hillCountry = lookupCostIndex({ zip: '78624' });
+  assert(austin.multiplier > hillCountry.multiplier, 'Austin prices above Fredericksburg');
+  assertEqual(hillCountry.county, 'Gillespie County', 'Fredericksburg resolves to Gillespie County');
+
+  const unknownTexas = lookupCostIndex({ zip: '79901' });
+  assertEqual([unknownTexas.level, unknownTexas.key], ['state', 'TX'], 'unlisted El Paso ZIP falls back to Texas, not a default county');
+
+  for (const [from, to, state] of dataset.zip3States) {
+    assert(lookupCostIndex({ zip: `${from}01` }).state === state && lookupCostIndex({ zip: `${to}99` }).state === state, `ZIP3 ${from}-${to} resolves to ${state}`);
+  }
+
+  assertEqual(serializeCostIndexDataset(dataset), serializeCostIndexDataset(loadCostIndexDataset(JSON.parse(serializeCostIndexDataset(dataset)))), 'serialized dataset round-trips');
+}
+
+function testValidation() {
+  console.log('\n--- loadCostIndexDataset ---');
+  assertThrows(() => loadCostIndexDataset({ ...fixture, zips: { '78624': { county: 'TX:Nowhere County' } } }), 'rejects unknown county references');
+  assertThrows(() => loadCostIndexDataset({ ...fixture, counties: { 'ZZ:Somewhere County': { multiplier: 1 } } }), 'rejects counties in unknown states');
+  assertThrows(() => loadCostIndexDataset({ ...fixture, zip3States: [['799', '750', 'TX']] }), 'rejects reversed ZIP3 ranges');
+  assertThrows(() => loadCostIndexDataset({ ...fixture, states: { TX: { name: 'Texas', region: 'South', multiplier: 9 } } }), 'rejects out-of-range multipliers');
+}
+
+function testCsvImport() {
+  console.log('\n--- CSV import ---');
+  const rows = parseCostIndexCsv([
+    'level,key,state,name,region,county,multiplier',
+    '# Hill Country refresh',
+    'county,Kerr County,TX,,,,0.83',
+    'zip,78028,TX,,,Kerr County,',
+    'zip3,786,TX,,,,0.95',
+    'state,TX,,,,,0.93',
+  ].join('\n'));
+  assertEqual(rows.length, 4, 'skips header and comments');
+
+  const merged = mergeCostIndexRows(fixture, rows, 'test-2');
+  assertEqual(merged.version, 'test-2', 'stamps the new version');
+  assertEqual(lookupCostIndex({ zip: '78028' }, merged).label, 'Kerr County, TX', 'imported ZIP resolves to imported county');
+  assertEqual(lookupCostIndex({ zip: '78610' }, merged).level, 'zip3', 'imported ZIP3 multiplier applies');
+  assertEqual(merged.states.TX, { name: 'Texas', region: 'South', multiplier: 0.93 }, 'state row keeps existing name/region');
+  assertEqual(fixture.states.TX.multiplier, 0.92, 'base dataset is not mutated');
+
+  assertThrows(() => parseCostIndexCsv('level,key\nplanet,EARTH'), 'rejects unknown levels');
+  assertThrows(() => mergeCostIndexRows(fixture, parseCostIndexCsv('zip,78028,TX,,,Kerr County,'), 'x'), 'rejects rows pointing at unknown counties');
+}
+
+function testPriceRange() {
+  console.log('\n--- computePriceRange ---');
+  const base = { basePriceLow: 1000, basePriceHigh: 2000, jobSize: 2 };
+  assertEqual(computePriceRange({ ...base, costIndexMultiplier: 1.1 }), { priceLow: 1100, priceHigh: 2200 }, 'applies the cost index');
+  assertEqual(computePriceRange({ ...base, costIndexMultiplier: 1.1, marketMultiplier: 0.9 }), { priceLow: 900, priceHigh: 1800 }, 'live market data overrides the cost index');
+  assertEqual(computePriceRange(base), { priceLow: 1000, priceHigh: 2000 }, 'no regional data leaves prices unchanged');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Cost Index Unit Tests');
+  console.log('='.repeat(50));
+
+  testLookupOrder();
+  testHelpers();
+  testBundledDataset();
+  testValidation();
+  testCsvImport();
+  testPriceRange();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,124 @@
+/**
+ * Labor Cost Index Lookup
+ *
+ * Resolves a job location to the most specific cost index entry, walking
+ * ZIP → ZIP3 → county → state and falling back to the national average.
+ *
+ * Pure module - safe to import from client and server code.
+ */
+
+import type { CostIndexMatch } from "@shared/schema";
+import { getDefaultCostIndexDataset, type CostIndexDataset } from "./dataset";
+
+export const NATIONAL_COST_INDEX_MULTIPLIER = 1;
+
+const STATE_NAMES_TO_CODES: Record<string, string> = {
+  "alabama": "AL", "alaska": "AK", "arizona": "AZ", "arkansas": "AR",
+  "california": "CA", "colorado": "CO", "connecticut": "CT", "delaware": "DE",
+  "florida": "FL", "georgia": "GA", "hawaii": "HI", "idaho": "ID",
+  "illinois": "IL", "indiana": "IN", "iowa": "IA", "kansas": "KS",
+  "kentucky": "KY", "louisiana": "LA", "maine": "ME", "maryland": "MD",
+  "massachusetts": "MA", "michigan": "MI", "minnesota": "MN", "mississippi": "MS",
+  "missouri": "MO", "montana": "MT", "nebraska": "NE", "nevada": "NV",
+  "new hampshire": "NH", "new jersey": "NJ", "new mexico": "NM", "new york": "NY",
+  "north carolina": "NC", "north dakota": "ND", "ohio": "OH", "oklahoma": "OK",
+  "oregon": "OR", "pennsylvania": "PA", "rhode island": "RI", "south carolina": "SC",
+  "south dakota": "SD", "tennessee": "TN", "texas": "TX", "utah": "UT",
+  "vermont": "VT", "virginia": "VA", "washington": "WA", "west virginia": "WV",
+  "wisconsin": "WI", "wyoming": "WY", "district of columbia": "DC", "d.c.": "DC",
+};
+
+export function extractZip(address?: string | null) {
+  if (!address) return null;
+  const m = address.match(/\b(\d{5})(?:-\d{4})?\b/);
+  return m ? m[1] : null;
+}
+
+/**
+ * State code from a free-form address: a standalone 2-letter code (e.g.
+ * "Austin, TX 78701") or a full state name.
+ */
+export function detectStateCode(address?: string | null, dataset: CostIndexDataset = getDefaultCostIndexDataset()): string | null {
+  if (!address) return null;
+  const normalized = address.toLowerCase().trim();
+
+  for (const code of Object.keys(dataset.states)) {
+    if (new RegExp(`\\b${code.toLowerCase()}\\b`).test(normalized)) {
+      return code;
+    }
+  }
+
+  for (const [name, code] of Object.entries(STATE_NAMES_TO_CODES)) {
+    if (normalized.includes(name)) return code;
+  }
+
+  return null;
+}
+
+export function getStateForZip(zip: string, dataset: CostIndexDataset = getDefaultCostIndexDataset()): string | null {
+  const zip3 = zip.slice(0, 3);
+  const range = dataset.zip3States.find(([from, to]) => zip3 >= from && zip3 <= to);
+  return range ? range[2] : null;
+}
+
+function countyName(countyKey: string) {
+  return countyKey.slice(3);
+}
+
+export interface CostIndexQuery {
+  zip?: string | null;
+  // Full county name as in the dataset, e.g. "Travis County" (needs a state)
+  county?: string | null;
+  state?: string | null;
+  // Used for any of the above that weren't given
+  address?: string | null;
+}
+
+/**
+ * Most specific cost index entry for a location. A ZIP that isn't listed
+ * still resolves through its ZIP3, that ZIP3's county, and its state.
+ */
+export function lookupCostIndex(
+  query: CostIndexQuery,
+  dataset: CostIndexDataset = getDefaultCostIndexDataset()
+): CostIndexMatch {
+  const zip = query.zip?.match(/^\d{5}/)?.[0] ?? extractZip(query.address);
+  const zip3 = zip?.slice(0, 3) ?? null;
+  const zipRow = zip ? dataset.zips[zip] : undefined;
+  const zip3Row = zip3 ? dataset.zip3[zip3] : undefined;
+
+  const state =
+    (zip ? getStateForZip(zip, dataset) : null) ??
+    query.state?.toUpperCase() ??
+    detectStateCode(query.address, dataset);
+  const countyKey =
+    zipRow?.county ?? zip3Row?.county ?? (state && query.county ? `${state}:${query.county}` : undefined);
+  const county = countyKey && dataset.counties[countyKey] ? countyKey : undefined;
+
+  const base = {
+    state: state ?? undefined,
+    county: county ? countyName(county) : undefined,
+    datasetVersion: dataset.version,
+  };
+  const where = county ? `${countyName(county)}, ${state}` : state ?? "";
+
+  if (zip && zipRow?.multiplier !== undefined) {
+    return { ...base, level: "zip", key: zip, label: `ZIP ${zip}${where ? ` (${where})` : ""}`, multiplier: zipRow.multiplier };
+  }
+  if (zip3 && zip3Row?.multiplier !== undefined) {
+    return { ...base, level: "zip3", key: zip3, label: `ZIP ${zip3}xx${where ? ` (${where})` : ""}`, multiplier: zip3Row.multiplier };
+  }
+  if (county) {
+    return { ...base, level: "county", key: county, label: where, multiplier: dataset.counties[county].multiplier };
+  }
+  if (state && dataset.states[state]) {
+    return { ...base, level: "state", key: state, label: dataset.states[state].name, multiplier: dataset.states[state].multiplier };
+  }
+  return {
+    level: "national",
+    key: "US",
+    label: "National average",
+    multiplier: NATIONAL_COST_INDEX_MULTIPLIER,
+    datasetVersion: dataset.version,
+  };
+}
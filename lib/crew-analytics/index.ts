@@ -0,0 +1,24 @@
+/**
+ * Crew Analytics Module
+ * 
+ * Server-side only module for the team activity feed, member activity and
+ * company analytics snapshots.
+ * Client code should import pure helpers from './rollup' directly.
+ */
+
+export * from './rollup';
+export {
+  applyCrewEvent,
+  countProposalViews,
+  countRecentProposalViews,
+  listCompanySnapshots,
+  listMemberActivity,
+  listActivityFeed,
+} from './storage';
+export {
+  recordProposalEvent,
+  recordProposalStatusChange,
+  recordMemberEvent,
+  type ProposalActivityType,
+  type MemberActivityType,
+} from './recorder';
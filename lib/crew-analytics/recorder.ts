@@ -0,0 +1,113 @@
+/**
+ * Crew Event Recorder
+ *
+ * Entry points the API routes call when something happens on a team: proposal
+ * created, sent, viewed, accepted, won or lost, and members invited, joining
+ * or removed. Personal proposals (no company) are ignored.
+ *
+ * Recording is best-effort: failures are logged and never surface to the
+ * request that triggered them.
+ */
+
+import { storage } from "@/lib/services/storage";
+import { logger } from "@/lib/logger";
+import type { CompanyActivityType, Proposal } from "@shared/schema";
+import { applyCrewEvent, countProposalViews, countRecentProposalViews } from "./storage";
+
+export type ProposalActivityType = Extract<
+  CompanyActivityType,
+  "proposal_created" | "proposal_sent" | "proposal_viewed" | "proposal_accepted" | "proposal_won" | "proposal_lost"
+>;
+
+export type MemberActivityType = Extract<CompanyActivityType, "member_joined" | "member_invited" | "member_removed">;
+
+// Reloads and return visits from the same viewer within this window count as one view
+const VIEW_WINDOW_MS = 30 * 60 * 1000;
+
+// Status changes that count as team events when a proposal moves into them
+const STATUS_EVENTS: Partial<Record<string, ProposalActivityType>> = {
+  sent: "proposal_sent",
+  accepted: "proposal_accepted",
+  won: "proposal_won",
+  lost: "proposal_lost",
+};
+
+async function getUserName(userId: string): Promise<string> {
+  const user = await storage.getUser(userId);
+  return [user?.firstName, user?.lastName].filter(Boolean).join(" ") || user?.email || "Team member";
+}
+
+/**
+ * Record a proposal event for the proposal's company. The event is attributed
+ * to the proposal's assignee unless `actorId` says otherwise. A view is
+ * skipped when the same viewer opened the proposal within the last half hour.
+ */
+export async function recordProposalEvent(
+  type: ProposalActivityType,
+  proposal: Proposal,
+  options: { actorId?: string; viewerIp?: string; occurredAt?: Date } = {}
+): Promise<void> {
+  if (proposal.companyId == null) return;
+
+  try {
+    const userId = options.actorId ?? proposal.userId;
+    const occurredAt = options.occurredAt ?? new Date();
+    let firstView: boolean | undefined;
+    let newViewer: boolean | undefined;
+    if (type === "proposal_viewed") {
+      const since = new Date(occurredAt.getTime() - VIEW_WINDOW_MS);
+      if (await countRecentProposalViews(proposal.id, options.viewerIp, since) > 1) return;
+
+      const views = await countProposalViews(proposal.id, options.viewerIp);
+      firstView = views.total <= 1;
+      newViewer = views.fromViewer === null ? firstView : views.fromViewer <= 1;
+    }
+
+    await applyCrewEvent({
+      type,
+      companyId: proposal.companyId,
+      userId,
+      userName: await getUserName(userId),
+      occurredAt,
+      proposal,
+      firstView,
+      newViewer,
+    });
+  } catch (error) {
+    logger.error("Failed to record crew proposal event", { type, proposalId: proposal.id }, error);
+  }
+}
+
+/**
+ * Record the team event (if any) for a proposal whose status just changed.
+ */
+export async function recordProposalStatusChange(
+  before: Pick<Proposal, "status">,
+  after: Proposal,
+  actorId?: string
+): Promise<void> {
+  if (before.status === after.status) return;
+  const type = STATUS_EVENTS[after.status];
+  if (!type) return;
+  await recordProposalEvent(type, after, { actorId });
+}
+
+export async function recordMemberEvent(
+  type: MemberActivityType,
+  companyId: number,
+  userId: string,
+  options: { memberEmail?: string; occurredAt?: Date } = {}
+): Promise<void> {
+  try {
+    await applyCrewEvent({
+      type,
+      companyId,
+      userId,
+      userName: await getUserName(userId),
+      occurredAt: options.occurredAt ?? new Date(),
+      memberEmail: options.memberEmail,
+    });
+  } catch (error) {
+    logger.error("Failed to record crew member event", { type, companyId }, error);
+  }
+}
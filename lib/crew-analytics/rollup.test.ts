@@ -0,0 +1,194 @@
+/**
+ * Crew Analytics Roll-up Unit Tests
+ *
+ * Tests for period bounds, feed entries, member counters and snapshot roll-ups.
+ * Run with: npx tsx lib/crew-analytics/rollup.test.ts
+ */
+
+import {
+  applyEventToMemberActivity,
+  applyEventToSnapshot,
+  calculateWinRate,
+  EMPTY_MEMBER_ACTIVITY,
+  EMPTY_SNAPSHOT,
+  getPeriodBounds,
+  getProposalValueCents,
+  toFeedEntry,
+  type CrewEvent,
+} from './rollup';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// Wednesday
+const AT = new Date('2026-03-18T15:30:00Z');
+
+const PROPOSAL = {
+  id: 42,
+  clientName: 'Jane Doe',
+  tradeId: 'roofing',
+  jobTypeName: 'Roof Replacement',
+  priceLow: 9000,
+  priceHigh: 11000,
+  lineItems: null,
+};
+
+function event(type: CrewEvent['type'], overrides: Partial<CrewEvent> = {}): CrewEvent {
+  return { type, companyId: 7, userId: 'sam', userName: 'Sam Ortiz', occurredAt: AT, proposal: PROPOSAL, ...overrides };
+}
+
+// ============ TESTS ============
+
+function testPeriodBounds() {
+  console.log('\n--- period bounds ---');
+  const daily = getPeriodBounds('daily', AT);
+  assertEqual([daily.start.toISOString(), daily.end.toISOString()], ['2026-03-18T00:00:00.000Z', '2026-03-19T00:00:00.000Z'], 'daily is the UTC day');
+  const weekly = getPeriodBounds('weekly', AT);
+  assertEqual([weekly.start.toISOString(), weekly.end.toISOString()], ['2026-03-16T00:00:00.000Z', '2026-03-23T00:00:00.000Z'], 'weekly starts Monday');
+  assertEqual(getPeriodBounds('weekly', new Date('2026-03-22T23:59:00Z')).start.toISOString(), '2026-03-16T00:00:00.000Z', 'Sunday belongs to the week before');
+  const monthly = getPeriodBounds('monthly', new Date('2026-12-31T10:00:00Z'));
+  assertEqual([monthly.start.toISOString(), monthly.end.toISOString()], ['2026-12-01T00:00:00.000Z', '2027-01-01T00:00:00.000Z'], 'monthly rolls over the year');
+}
+
+function testProposalValue() {
+  console.log('\n--- proposal value ---');
+  assertEqual(getProposalValueCents(PROPOSAL), { low: 900_000, high: 1_100_000, mid: 1_000_000 }, 'price range in cents');
+  assertEqual(
+    getProposalValueCents({ ...PROPOSAL, lineItems: [{ priceLow: 1000, priceHigh: 2000 }, { priceLow: 3000, priceHigh: 4000 }] }),
+    { low: 400_000, high: 600_000, mid: 500_000 },
+    'multi-service sums line items'
+  );
+}
+
+function testFeedEntry() {
+  console.log('\n--- feed entry ---');
+  assertEqual(
+    toFeedEntry(event('proposal_sent')),
+    {
+      companyId: 7,
+      userId: 'sam',
+      activityType: 'proposal_sent',
+      proposalId: 42,
+      metadata: { memberName: 'Sam Ortiz', clientName: 'Jane Doe', jobType: 'Roof Replacement', proposalValue: 1_000_000 },
+    },
+    'proposal event carries client and value'
+  );
+  const invited = toFeedEntry(event('member_invited', { proposal: undefined, memberEmail: 'new@example.com' }));
+  assertEqual(invited.proposalId, null, 'member event has no proposal');
+  assertEqual(invited.metadata.memberEmail, 'new@example.com', 'member event carries the email');
+}
+
+function testMemberActivity() {
+  console.log('\n--- member activity ---');
+  let activity = applyEventToMemberActivity(EMPTY_MEMBER_ACTIVITY, event('proposal_created'));
+  assertEqual(activity.proposalsCreated, 1, 'counts created');
+  assertEqual(activity.totalValueCreated, 1_000_000, 'adds created value');
+  assertEqual(activity.currentPeriodProposals, 1, 'counts toward the current month');
+  assertEqual(activity.periodResetAt?.toISOString(), '2026-03-01T00:00:00.000Z', 'period starts at the month');
+  assertEqual(activity.winRate, null, 'no win rate before any decision');
+
+  activity = applyEventToMemberActivity(activity, event('proposal_sent'));
+  activity = applyEventToMemberActivity(activity, event('proposal_won'));
+  activity = applyEventToMemberActivity(activity, event('proposal_lost'));
+  activity = applyEventToMemberActivity(activity, event('proposal_lost'));
+  assertEqual([activity.proposalsSent, activity.proposalsWon, activity.proposalsLost], [1, 1, 2], 'counts sent, won and lost');
+  assertEqual(activity.winRate, 33, 'win rate is won over decided');
+  assertEqual(activity.totalValueWon, 1_000_000, 'adds won value');
+
+  const viewed = applyEventToMemberActivity(activity, event('proposal_viewed', { occurredAt: new Date('2026-03-20T00:00:00Z') }));
+  assertEqual(viewed.lastActiveAt?.toISOString(), AT.toISOString(), 'client views do not mark the member active');
+
+  const april = applyEventToMemberActivity(activity, event('proposal_created', { occurredAt: new Date('2026-04-02T09:00:00Z') }));
+  assertEqual([april.currentPeriodProposals, april.currentPeriodWon], [1, 0], 'current period resets in a new month');
+  assertEqual(april.proposalsCreated, 2, 'lifetime counters keep growing');
+
+  assertEqual(calculateWinRate(3, 1), 75, 'win rate rounds to a whole percent');
+}
+
+function testSnapshot() {
+  console.log('\n--- snapshots ---');
+  let snapshot = applyEventToSnapshot(EMPTY_SNAPSHOT, event('proposal_created'));
+  snapshot = applyEventToSnapshot(snapshot, event('proposal_created', {
+    userId: 'ada',
+    userName: 'Ada',
+    proposal: { ...PROPOSAL, id: 43, tradeId: 'siding', priceLow: 4000, priceHigh: 6000 },
+  }));
+  assertEqual(snapshot.totalProposals, 2, 'counts created proposals');
+  assertEqual([snapshot.avgPriceLow, snapshot.avgPriceHigh], [650_000, 850_000], 'averages the price range');
+  assertEqual(snapshot.tradeBreakdown, { roofing: { count: 1, value: 1_000_000 }, siding: { count: 1, value: 500_000 } }, 'breaks down by trade');
+
+  snapshot = applyEventToSnapshot(snapshot, event('proposal_sent'));
+  snapshot = applyEventToSnapshot(snapshot, event('proposal_viewed', { firstView: true, newViewer: true }));
+  snapshot = applyEventToSnapshot(snapshot, event('proposal_viewed', { firstView: false, newViewer: false }));
+  snapshot = applyEventToSnapshot(snapshot, event('proposal_accepted'));
+  snapshot = applyEventToSnapshot(snapshot, event('proposal_won'));
+  assertEqual(
+    [snapshot.sentCount, snapshot.viewedCount, snapshot.totalViews, snapshot.uniqueViewers, snapshot.acceptedCount, snapshot.wonCount],
+    [1, 1, 2, 1, 1, 1],
+    'counts funnel events'
+  );
+  assertEqual([snapshot.wonValueLow, snapshot.wonValueHigh], [900_000, 1_100_000], 'adds won value range');
+  assertEqual(
+    snapshot.memberBreakdown.sam,
+    { proposals: 1, sent: 1, won: 1, lost: 0, valueLow: 900_000, valueHigh: 1_100_000, userName: 'Sam Ortiz' },
+    'breaks down by member'
+  );
+  assertEqual(snapshot.memberBreakdown.ada.proposals, 1, 'tracks each member separately');
+
+  assert(EMPTY_SNAPSHOT.totalProposals === 0 && Object.keys(EMPTY_SNAPSHOT.memberBreakdown).length === 0, 'does not mutate the input');
+  assertEqual(
+    applyEventToSnapshot(EMPTY_SNAPSHOT, event('member_joined', { proposal: undefined })),
+    EMPTY_SNAPSHOT,
+    'member events leave snapshots alone'
+  );
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Crew Analytics Roll-up Unit Tests');
+  console.log('='.repeat(50));
+
+  testPeriodBounds();
+  testProposalValue();
+  testFeedEntry();
+  testMemberActivity();
+  testSnapshot();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
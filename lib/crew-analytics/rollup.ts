@@ -0,0 +1,328 @@
+/**
+ * Crew Analytics Roll-ups
+ * Pure helpers that turn team activity events into feed entries, member
+ * activity counters and daily/weekly/monthly company snapshots.
+ *
+ * Safe to import from client and server code.
+ */
+
+import type { CompanyActivityType } from "@shared/schema";
+
+export const snapshotPeriodTypes = ["daily", "weekly", "monthly"] as const;
+export type SnapshotPeriodType = typeof snapshotPeriodTypes[number];
+
+export interface CrewEventProposal {
+  id: number;
+  clientName: string;
+  tradeId: string;
+  jobTypeName: string;
+  priceLow: number;
+  priceHigh: number;
+  lineItems?: { priceLow?: number | null; priceHigh?: number | null }[] | null;
+}
+
+export interface CrewEvent {
+  type: CompanyActivityType;
+  companyId: number;
+  // The member who acted (for client views and accepts: the proposal's assignee)
+  userId: string;
+  userName: string;
+  occurredAt: Date;
+  proposal?: CrewEventProposal;
+  memberEmail?: string;
+  // Views only: first view of the proposal at all / first from this viewer
+  firstView?: boolean;
+  newViewer?: boolean;
+}
+
+export interface ProposalValue {
+  low: number;
+  high: number;
+  mid: number;
+}
+
+/**
+ * Proposal value range in cents. Multi-service proposals sum their line items
+ * (the stored price range only covers the first service).
+ */
+export function getProposalValueCents(proposal: CrewEventProposal): ProposalValue {
+  let low = proposal.priceLow;
+  let high = proposal.priceHigh;
+  if (proposal.lineItems && proposal.lineItems.length > 0) {
+    low = proposal.lineItems.reduce((sum, item) => sum + (item.priceLow ?? 0), 0);
+    high = proposal.lineItems.reduce((sum, item) => sum + (item.priceHigh ?? 0), 0);
+  }
+  return { low: low * 100, high: high * 100, mid: Math.round((low + high) / 2) * 100 };
+}
+
+/**
+ * UTC period containing `date`. Weeks start on Monday; `end` is exclusive.
+ */
+export function getPeriodBounds(periodType: SnapshotPeriodType, date: Date): { start: Date; end: Date } {
+  const y = date.getUTCFullYear();
+  const m = date.getUTCMonth();
+  const d = date.getUTCDate();
+
+  if (periodType === "monthly") {
+    return { start: new Date(Date.UTC(y, m, 1)), end: new Date(Date.UTC(y, m + 1, 1)) };
+  }
+  if (periodType === "weekly") {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return { start: new Date(Date.UTC(y, m, d - daysSinceMonday)), end: new Date(Date.UTC(y, m, d - daysSinceMonday + 7)) };
+  }
+  return { start: new Date(Date.UTC(y, m, d)), end: new Date(Date.UTC(y, m, d + 1)) };
+}
+
+// ============ FEED ============
+
+export function toFeedEntry(event: CrewEvent) {
+  const metadata: {
+    clientName?: string;
+    proposalValue?: number;
+    jobType?: string;
+    memberEmail?: string;
+    memberName?: string;
+  } = { memberName: event.userName };
+
+  if (event.proposal) {
+    metadata.clientName = event.proposal.clientName;
+    metadata.jobType = event.proposal.jobTypeName;
+    metadata.proposalValue = getProposalValueCents(event.proposal).mid;
+  }
+  if (event.memberEmail) metadata.memberEmail = event.memberEmail;
+
+  return {
+    companyId: event.companyId,
+    userId: event.userId,
+    activityType: event.type,
+    proposalId: event.proposal?.id ?? null,
+    metadata,
+  };
+}
+
+// ============ MEMBER ACTIVITY ============
+
+export interface MemberActivityCounters {
+  proposalsCreated: number;
+  proposalsSent: number;
+  proposalsWon: number;
+  proposalsLost: number;
+  proposalsAccepted: number;
+  totalValueCreated: number;
+  totalValueWon: number;
+  winRate: number | null;
+  lastActiveAt: Date | null;
+  lastProposalCreatedAt: Date | null;
+  lastProposalSentAt: Date | null;
+  lastProposalWonAt: Date | null;
+  currentPeriodProposals: number;
+  currentPeriodWon: number;
+  currentPeriodValue: number;
+  periodResetAt: Date | null;
+}
+
+export const EMPTY_MEMBER_ACTIVITY: MemberActivityCounters = {
+  proposalsCreated: 0,
+  proposalsSent: 0,
+  proposalsWon: 0,
+  proposalsLost: 0,
+  proposalsAccepted: 0,
+  totalValueCreated: 0,
+  totalValueWon: 0,
+  winRate: null,
+  lastActiveAt: null,
+  lastProposalCreatedAt: null,
+  lastProposalSentAt: null,
+  lastProposalWonAt: null,
+  currentPeriodProposals: 0,
+  currentPeriodWon: 0,
+  currentPeriodValue: 0,
+  periodResetAt: null,
+};
+
+/**
+ * Decided proposals only: won / (won + lost), as a whole percentage.
+ */
+export function calculateWinRate(won: number, lost: number): number | null {
+  const decided = won + lost;
+  return decided > 0 ? Math.round((won / decided) * 100) : null;
+}
+
+// Client-side actions (views, accepts) don't make the member "active"
+const MEMBER_ACTIONS: ReadonlySet<CompanyActivityType> = new Set<CompanyActivityType>([
+  "proposal_created",
+  "proposal_sent",
+  "proposal_won",
+  "proposal_lost",
+  "member_joined",
+  "member_invited",
+]);
+
+/**
+ * Apply one event to a member's counters. The "current period" counters cover
+ * the calendar month and reset when an event lands in a new month.
+ */
+export function applyEventToMemberActivity(
+  activity: MemberActivityCounters,
+  event: CrewEvent
+): MemberActivityCounters {
+  const at = event.occurredAt;
+  const next = { ...activity };
+
+  const monthStart = getPeriodBounds("monthly", at).start;
+  if (!next.periodResetAt || next.periodResetAt.getTime() < monthStart.getTime()) {
+    next.currentPeriodProposals = 0;
+    next.currentPeriodWon = 0;
+    next.currentPeriodValue = 0;
+    next.periodResetAt = monthStart;
+  }
+
+  if (MEMBER_ACTIONS.has(event.type)) next.lastActiveAt = at;
+
+  const value = event.proposal ? getProposalValueCents(event.proposal).mid : 0;
+  switch (event.type) {
+    case "proposal_created":
+      next.proposalsCreated += 1;
+      next.totalValueCreated += value;
+      next.lastProposalCreatedAt = at;
+      next.currentPeriodProposals += 1;
+      next.currentPeriodValue += value;
+      break;
+    case "proposal_sent":
+      next.proposalsSent += 1;
+      next.lastProposalSentAt = at;
+      break;
+    case "proposal_accepted":
+      next.proposalsAccepted += 1;
+      break;
+    case "proposal_won":
+      next.proposalsWon += 1;
+      next.totalValueWon += value;
+      next.lastProposalWonAt = at;
+      next.currentPeriodWon += 1;
+      break;
+    case "proposal_lost":
+      next.proposalsLost += 1;
+      break;
+  }
+
+  next.winRate = calculateWinRate(next.proposalsWon, next.proposalsLost);
+  return next;
+}
+
+// ============ COMPANY SNAPSHOTS ============
+
+export type MemberBreakdown = Record<string, {
+  userName: string;
+  proposals: number;
+  sent: number;
+  won: number;
+  lost: number;
+  valueLow: number;
+  valueHigh: number;
+}>;
+
+export type TradeBreakdown = Record<string, { count: number; value: number }>;
+
+export interface SnapshotCounters {
+  totalProposals: number;
+  sentCount: number;
+  viewedCount: number;
+  acceptedCount: number;
+  wonCount: number;
+  lostCount: number;
+  totalValueLow: number;
+  totalValueHigh: number;
+  wonValueLow: number;
+  wonValueHigh: number;
+  avgPriceLow: number | null;
+  avgPriceHigh: number | null;
+  totalViews: number;
+  uniqueViewers: number;
+  memberBreakdown: MemberBreakdown;
+  tradeBreakdown: TradeBreakdown;
+}
+
+export const EMPTY_SNAPSHOT: SnapshotCounters = {
+  totalProposals: 0,
+  sentCount: 0,
+  viewedCount: 0,
+  acceptedCount: 0,
+  wonCount: 0,
+  lostCount: 0,
+  totalValueLow: 0,
+  totalValueHigh: 0,
+  wonValueLow: 0,
+  wonValueHigh: 0,
+  avgPriceLow: null,
+  avgPriceHigh: null,
+  totalViews: 0,
+  uniqueViewers: 0,
+  memberBreakdown: {},
+  tradeBreakdown: {},
+};
+
+/**
+ * Apply one event to a period snapshot. Proposal totals, averages and the
+ * trade breakdown count proposals created in the period; sends, views and
+ * outcomes count when they happen.
+ */
+export function applyEventToSnapshot(snapshot: SnapshotCounters, event: CrewEvent): SnapshotCounters {
+  const next: SnapshotCounters = {
+    ...snapshot,
+    memberBreakdown: { ...snapshot.memberBreakdown },
+    tradeBreakdown: { ...snapshot.tradeBreakdown },
+  };
+  const proposal = event.proposal;
+  if (!proposal) return next;
+
+  const value = getProposalValueCents(proposal);
+  const member = {
+    ...(next.memberBreakdown[event.userId] ?? { proposals: 0, sent: 0, won: 0, lost: 0, valueLow: 0, valueHigh: 0 }),
+    userName: event.userName,
+  };
+
+  switch (event.type) {
+    case "proposal_created": {
+      next.totalProposals += 1;
+      next.totalValueLow += value.low;
+      next.totalValueHigh += value.high;
+      next.avgPriceLow = Math.round(next.totalValueLow / next.totalProposals);
+      next.avgPriceHigh = Math.round(next.totalValueHigh / next.totalProposals);
+      member.proposals += 1;
+      member.valueLow += value.low;
+      member.valueHigh += value.high;
+      const trade = next.tradeBreakdown[proposal.tradeId] ?? { count: 0, value: 0 };
+      next.tradeBreakdown[proposal.tradeId] = { count: trade.count + 1, value: trade.value + value.mid };
+      break;
+    }
+    case "proposal_sent":
+      next.sentCount += 1;
+      member.sent += 1;
+      break;
+    case "proposal_viewed":
+      next.totalViews += 1;
+      if (event.firstView) next.viewedCount += 1;
+      if (event.newViewer) next.uniqueViewers += 1;
+      // Views are the client's doing; they don't add to the member's row
+      return next;
+    case "proposal_accepted":
+      next.acceptedCount += 1;
+      return next;
+    case "proposal_won":
+      next.wonCount += 1;
+      next.wonValueLow += value.low;
+      next.wonValueHigh += value.high;
+      member.won += 1;
+      break;
+    case "proposal_lost":
+      next.lostCount += 1;
+      member.lost += 1;
+      break;
+    default:
+      return next;
+  }
+
+  next.memberBreakdown[event.userId] = member;
+  return next;
+}
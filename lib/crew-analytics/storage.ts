@@ -0,0 +1,226 @@
+/**
+ * Crew Analytics Storage Service
+ *
+ * Database operations for the team activity feed, member activity counters
+ * and company analytics snapshots.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import {
+  companyActivityFeed,
+  companyAnalyticsSnapshots,
+  companyMembers,
+  memberActivity,
+  proposalViews,
+  users,
+  type CompanyActivityFeed,
+  type CompanyAnalyticsSnapshot,
+  type MemberActivity,
+} from "@shared/schema";
+import { and, count, desc, eq, gte, lt, sql } from "drizzle-orm";
+import {
+  applyEventToMemberActivity,
+  applyEventToSnapshot,
+  EMPTY_MEMBER_ACTIVITY,
+  EMPTY_SNAPSHOT,
+  getPeriodBounds,
+  snapshotPeriodTypes,
+  toFeedEntry,
+  type CrewEvent,
+  type MemberActivityCounters,
+  type SnapshotCounters,
+  type SnapshotPeriodType,
+} from "./rollup";
+
+function toMemberCounters(row: MemberActivity): MemberActivityCounters {
+  const counters = { ...EMPTY_MEMBER_ACTIVITY };
+  for (const key of Object.keys(counters) as (keyof MemberActivityCounters)[]) {
+    (counters as Record<string, unknown>)[key] = row[key];
+  }
+  return counters;
+}
+
+function toSnapshotCounters(row: CompanyAnalyticsSnapshot): SnapshotCounters {
+  const counters = { ...EMPTY_SNAPSHOT };
+  for (const key of Object.keys(counters) as (keyof SnapshotCounters)[]) {
+    (counters as Record<string, unknown>)[key] = row[key] ?? EMPTY_SNAPSHOT[key];
+  }
+  return counters;
+}
+
+/**
+ * Record one team event: append it to the activity feed, update the member's
+ * counters and roll it into the daily, weekly and monthly snapshots. Runs in a
+ * single transaction, serialized per company so concurrent events don't lose
+ * counter updates.
+ */
+export async function applyCrewEvent(event: CrewEvent): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`crew-analytics:${event.companyId}`}))`);
+
+    await tx.insert(companyActivityFeed).values({ ...toFeedEntry(event), createdAt: event.occurredAt });
+
+    if (event.type !== "member_removed") {
+      const [existing] = await tx
+        .select()
+        .from(memberActivity)
+        .where(and(eq(memberActivity.companyId, event.companyId), eq(memberActivity.userId, event.userId)))
+        .limit(1);
+
+      const counters = applyEventToMemberActivity(existing ? toMemberCounters(existing) : EMPTY_MEMBER_ACTIVITY, event);
+      if (existing) {
+        await tx
+          .update(memberActivity)
+          .set({ ...counters, updatedAt: new Date() })
+          .where(eq(memberActivity.id, existing.id));
+      } else {
+        await tx.insert(memberActivity).values({ companyId: event.companyId, userId: event.userId, ...counters });
+      }
+    }
+
+    // Only proposal events move the snapshot metrics
+    if (!event.proposal) return;
+
+    for (const periodType of snapshotPeriodTypes) {
+      const { start, end } = getPeriodBounds(periodType, event.occurredAt);
+      const [existing] = await tx
+        .select()
+        .from(companyAnalyticsSnapshots)
+        .where(and(
+          eq(companyAnalyticsSnapshots.companyId, event.companyId),
+          eq(companyAnalyticsSnapshots.periodType, periodType),
+          eq(companyAnalyticsSnapshots.periodStart, start)
+        ))
+        .limit(1);
+
+      const counters = applyEventToSnapshot(existing ? toSnapshotCounters(existing) : EMPTY_SNAPSHOT, event);
+      if (existing) {
+        await tx
+          .update(companyAnalyticsSnapshots)
+          .set(counters)
+          .where(eq(companyAnalyticsSnapshots.id, existing.id));
+      } else {
+        await tx.insert(companyAnalyticsSnapshots).values({
+          companyId: event.companyId,
+          periodType,
+          periodStart: start,
+          periodEnd: end,
+          ...counters,
+        });
+      }
+    }
+  });
+}
+
+/**
+ * How many times a proposal has been opened, in total and from one viewer IP.
+ * Called after the current view is recorded, so a count of 1 means "first".
+ */
+export async function countProposalViews(proposalId: number, viewerIp?: string) {
+  const [total] = await db
+    .select({ count: count() })
+    .from(proposalViews)
+    .where(eq(proposalViews.proposalId, proposalId));
+
+  if (!viewerIp) return { total: total?.count ?? 0, fromViewer: null };
+
+  const [fromViewer] = await db
+    .select({ count: count() })
+    .from(proposalViews)
+    .where(and(eq(proposalViews.proposalId, proposalId), eq(proposalViews.viewerIp, viewerIp)));
+
+  return { total: total?.count ?? 0, fromViewer: fromViewer?.count ?? 0 };
+}
+
+/**
+ * How many times a proposal has been opened since `since` from one viewer IP
+ * (from anyone when the IP is unknown), including the view just recorded.
+ */
+export async function countRecentProposalViews(proposalId: number, viewerIp: string | undefined, since: Date) {
+  const [recent] = await db
+    .select({ count: count() })
+    .from(proposalViews)
+    .where(and(
+      eq(proposalViews.proposalId, proposalId),
+      viewerIp ? eq(proposalViews.viewerIp, viewerIp) : undefined,
+      gte(proposalViews.createdAt, since)
+    ));
+  return recent?.count ?? 0;
+}
+
+export async function listCompanySnapshots(
+  companyId: number,
+  periodType: SnapshotPeriodType,
+  limit: number
+): Promise<CompanyAnalyticsSnapshot[]> {
+  return await db
+    .select()
+    .from(companyAnalyticsSnapshots)
+    .where(and(
+      eq(companyAnalyticsSnapshots.companyId, companyId),
+      eq(companyAnalyticsSnapshots.periodType, periodType)
+    ))
+    .orderBy(desc(companyAnalyticsSnapshots.periodStart))
+    .limit(limit);
+}
+
+/**
+ * Current members with their activity counters (zeroed until their first event).
+ */
+export async function listMemberActivity(companyId: number) {
+  const rows = await db
+    .select({
+      userId: companyMembers.userId,
+      role: companyMembers.role,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+      profileImageUrl: users.profileImageUrl,
+      activity: memberActivity,
+    })
+    .from(companyMembers)
+    .innerJoin(users, eq(companyMembers.userId, users.id))
+    .leftJoin(memberActivity, and(
+      eq(memberActivity.companyId, companyMembers.companyId),
+      eq(memberActivity.userId, companyMembers.userId)
+    ))
+    .where(eq(companyMembers.companyId, companyId))
+    .orderBy(companyMembers.createdAt);
+
+  return rows.map(({ activity, firstName, lastName, ...member }) => ({
+    ...member,
+    name: [firstName, lastName].filter(Boolean).join(" ") || member.email || "Team member",
+    ...(activity ? toMemberCounters(activity) : EMPTY_MEMBER_ACTIVITY),
+  }));
+}
+
+/**
+ * Newest feed entries first. Pass the last seen id as `beforeId` to page back.
+ */
+export async function listActivityFeed(
+  companyId: number,
+  limit: number,
+  beforeId?: number
+): Promise<(CompanyActivityFeed & { userName: string | null })[]> {
+  const rows = await db
+    .select({
+      entry: companyActivityFeed,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+    })
+    .from(companyActivityFeed)
+    .innerJoin(users, eq(companyActivityFeed.userId, users.id))
+    .where(and(
+      eq(companyActivityFeed.companyId, companyId),
+      beforeId ? lt(companyActivityFeed.id, beforeId) : undefined
+    ))
+    .orderBy(desc(companyActivityFeed.id))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    ...row.entry,
+    userName: [row.firstName, row.lastName].filter(Boolean).join(" ") || row.email,
+  }));
+}
@@ -0,0 +1,255 @@
+/**
+ * Custom Template Unit Tests
+ *
+ * Tests for editor validation, forking built-in templates, version diffs,
+ * team visibility, mobile template selection and the generator merge.
+ * Run with: npx tsx lib/custom-templates.test.ts
+ */
+
+import type { ProposalTemplate } from '@shared/schema';
+import { templates } from './proposal-data';
+import {
+  buildTemplateSnapshot,
+  canEditTemplate,
+  canViewTemplate,
+  createCustomTemplateSchema,
+  customJobTypeId,
+  diffTemplateSnapshots,
+  findGeneratorJobType,
+  mergeCustomTemplates,
+  parseCustomJobTypeId,
+  pickTemplateForJob,
+  templateContentFromJobType,
+  templateContentFromRow,
+  updateCustomTemplateSchema,
+} from './custom-templates';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+function makeTemplate(overrides: Partial<ProposalTemplate> = {}): ProposalTemplate {
+  return {
+    id: 1,
+    tradeId: 'bathroom',
+    tradeName: 'Bathroom',
+    jobTypeId: 'tub-to-shower',
+    jobTypeName: 'Tub to Shower',
+    baseScope: ['Remove tub.', 'Install shower pan.'],
+    scopeSections: [],
+    options: [],
+    basePriceLow: 8000,
+    basePriceHigh: 14000,
+    estimatedDaysLow: 3,
+    estimatedDaysHigh: 5,
+    warranty: '1-year labor warranty.',
+    exclusions: ['Permits'],
+    assumptions: [],
+    isDefault: false,
+    isActive: true,
+    createdBy: 'alice',
+    companyId: null,
+    sharedWithCompany: false,
+    forkedFromId: null,
+    version: 1,
+    usageCount: 0,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const VALID_CONTENT = {
+  tradeId: 'bathroom',
+  tradeName: 'Bathroom',
+  jobTypeId: 'tub-to-shower',
+  jobTypeName: 'Tub to Shower (Premium)',
+  scopeSections: [{ title: 'Demolition', items: ['Remove tub.'] }],
+  options: [
+    { id: 'niche', label: 'Shower niche', type: 'boolean', priceModifier: 350, scopeAddition: 'Install tiled niche.' },
+    { id: 'glass', label: 'Glass', type: 'select', choices: [{ value: 'clear', label: 'Clear', priceModifier: 0 }] },
+  ],
+  basePriceLow: 9000,
+  basePriceHigh: 15000,
+};
+
+// ============ TESTS ============
+
+function testEditorValidation() {
+  console.log('\n--- editor validation ---');
+
+  const parsed = createCustomTemplateSchema.safeParse(VALID_CONTENT);
+  assert(parsed.success, 'accepts a complete template');
+  assertEqual(parsed.data?.exclusions, [], 'optional lists default to empty');
+
+  assert(!createCustomTemplateSchema.safeParse({ ...VALID_CONTENT, basePriceLow: 20000 }).success, 'rejects a reversed price range');
+  assert(!createCustomTemplateSchema.safeParse({ ...VALID_CONTENT, scopeSections: [] }).success, 'requires at least one scope section');
+  assert(
+    !createCustomTemplateSchema.safeParse({ ...VALID_CONTENT, scopeSections: [{ title: 'Demo', items: [] }] }).success,
+    'rejects an empty scope section'
+  );
+  assert(
+    !createCustomTemplateSchema.safeParse({ ...VALID_CONTENT, options: [{ id: 'glass', label: 'Glass', type: 'select', choices: [] }] }).success,
+    'select options need choices'
+  );
+  assert(
+    !createCustomTemplateSchema.safeParse({ ...VALID_CONTENT, options: [VALID_CONTENT.options[0], VALID_CONTENT.options[0]] }).success,
+    'rejects duplicate option IDs'
+  );
+  assert(updateCustomTemplateSchema.safeParse({ warranty: null }).success, 'edits may touch a single field');
+  assert(!updateCustomTemplateSchema.safeParse({ basePriceLow: 5, basePriceHigh: 1 }).success, 'edits are range-checked');
+}
+
+function testForkBuiltInTemplates() {
+  console.log('\n--- fork built-in templates ---');
+
+  const problems: string[] = [];
+  for (const trade of templates) {
+    for (const jobType of trade.jobTypes) {
+      const result = createCustomTemplateSchema.safeParse(templateContentFromJobType(trade, jobType));
+      if (!result.success) problems.push(`${trade.id}/${jobType.id}: ${result.error.issues[0]?.message}`);
+    }
+  }
+  assert(problems.length === 0, 'every built-in generator template forks into valid editor content');
+  for (const problem of problems) console.log(`   ${problem}`);
+
+  const match = findGeneratorJobType(templates, 'bathroom', 'tub-to-shower');
+  const content = match && templateContentFromJobType(match.trade, match.jobType);
+  assertEqual(content?.jobTypeId, 'tub-to-shower', 'forks keep the source job type ID');
+  assertEqual(content?.basePriceLow, match?.jobType.basePriceRange.low, 'forks keep the source price');
+  assert((content?.assumptions.length ?? 0) > 0, 'forks keep assumptions');
+  assertEqual(findGeneratorJobType(templates, 'kitchen', 'tub-to-shower'), undefined, 'the trade scopes fork lookups');
+}
+
+function testSnapshots() {
+  console.log('\n--- snapshots and diffs ---');
+
+  const legacy = buildTemplateSnapshot(makeTemplate());
+  assertEqual(legacy.scopeSections, [{ title: 'Scope of Work', items: ['Remove tub.', 'Install shower pan.'] }], 'flat scope becomes one section');
+  assertEqual(templateContentFromRow(makeTemplate()).scopeSections.length, 1, 'DB forks carry sections');
+
+  assertEqual(diffTemplateSnapshots(legacy, legacy), [], 'identical snapshots have no changes');
+
+  const edited = buildTemplateSnapshot(makeTemplate({
+    scopeSections: [{ title: 'Demolition', items: ['Remove tub.'] }, { title: 'Install', items: ['Install curbless shower pan.'] }],
+    basePriceHigh: 15000,
+    options: [{ id: 'niche', label: 'Niche', type: 'boolean', priceModifier: 350 }],
+    assumptions: ['Studs are sound'],
+  }));
+  const changes = diffTemplateSnapshots(legacy, edited);
+  assertEqual(
+    changes.map((change) => `${change.field}:${change.type}`),
+    ['scope:added', 'scope:removed', 'assumptions:added', 'price:changed', 'options:added'],
+    'reports scope, assumption, price and option changes'
+  );
+
+  const regrouped = buildTemplateSnapshot(makeTemplate({
+    scopeSections: [{ title: 'Demolition', items: ['Remove tub.'] }, { title: 'Install', items: ['Install shower pan.'] }],
+  }));
+  assertEqual(diffTemplateSnapshots(legacy, regrouped), [{ field: 'scopeSections', type: 'changed' }], 'regrouping sections is a change');
+}
+
+function testVisibility() {
+  console.log('\n--- visibility ---');
+
+  const system = makeTemplate({ createdBy: null });
+  const personal = makeTemplate({ companyId: 7 });
+  const shared = makeTemplate({ companyId: 7, sharedWithCompany: true });
+
+  assert(canViewTemplate(system, null), 'anyone sees system templates');
+  assert(canViewTemplate(personal, 'alice'), 'creators see their own templates');
+  assert(!canViewTemplate(personal, 'bob', { companyId: 7 }), 'unshared templates stay private within the team');
+  assert(canViewTemplate(shared, 'bob', { companyId: 7 }), 'teammates see shared templates');
+  assert(!canViewTemplate(shared, 'carol', { companyId: 8 }), 'other teams do not see shared templates');
+  assert(!canViewTemplate(shared, 'dave'), 'users without a team do not see shared templates');
+  assert(canEditTemplate(shared, 'alice') && !canEditTemplate(shared, 'bob'), 'only the creator edits');
+  assert(!canEditTemplate(system, 'alice'), 'nobody edits system templates');
+}
+
+function testPickTemplateForJob() {
+  console.log('\n--- mobile template selection ---');
+
+  const system = makeTemplate({ id: 1, createdBy: null });
+  const own = makeTemplate({ id: 2, createdBy: 'bob', updatedAt: new Date('2026-02-01T00:00:00Z') });
+  const ownNewer = makeTemplate({ id: 3, createdBy: 'bob', updatedAt: new Date('2026-03-01T00:00:00Z') });
+  const shared = makeTemplate({ id: 4, companyId: 7, sharedWithCompany: true });
+  const otherUsers = makeTemplate({ id: 5, createdBy: 'mallory' });
+  const inactive = makeTemplate({ id: 6, createdBy: 'bob', isActive: false, updatedAt: new Date('2026-04-01T00:00:00Z') });
+
+  const team = { companyId: 7 };
+  assertEqual(pickTemplateForJob([system, shared, own, ownNewer, inactive], 'bob', team)?.id, 3, 'prefers the newest own active template');
+  assertEqual(pickTemplateForJob([system, shared], 'bob', team)?.id, 4, 'then a template shared with the team');
+  assertEqual(pickTemplateForJob([otherUsers, system], 'bob', team)?.id, 1, 'never another user\'s private template');
+  assertEqual(pickTemplateForJob([otherUsers], 'bob'), undefined, 'nothing visible means no template');
+}
+
+function testGeneratorMerge() {
+  console.log('\n--- generator merge ---');
+
+  assertEqual(customJobTypeId(42), 'custom-42', 'custom job type IDs carry the template ID');
+  assertEqual(parseCustomJobTypeId('custom-42'), 42, 'custom job type IDs parse back');
+  assertEqual(parseCustomJobTypeId('tub-to-shower'), null, 'catalog IDs are not custom');
+
+  const custom = makeTemplate({ id: 42, assumptions: ['Studs are sound'] });
+  const roofing = makeTemplate({ id: 43, tradeId: 'roofing', tradeName: 'Roofing', jobTypeId: 'roof-replacement' });
+  const merged = mergeCustomTemplates(templates, [custom, roofing, makeTemplate({ id: 44, createdBy: null })]);
+
+  const bathroom = merged.find((trade) => trade.id === 'bathroom');
+  assertEqual(bathroom?.jobTypes[0].id, 'custom-42', 'custom templates come first in their trade');
+  assertEqual(bathroom?.jobTypes.length, (templates.find((t) => t.id === 'bathroom')?.jobTypes.length ?? 0) + 1, 'built-in job types stay available');
+  assertEqual(bathroom?.jobTypes[0].assumptions, ['Studs are sound'], 'assumptions reach the generator');
+  assertEqual(bathroom?.jobTypes[0].basePriceRange, { low: 8000, high: 14000 }, 'prices reach the generator');
+  assertEqual(merged.find((trade) => trade.id === 'roofing')?.jobTypes.map((j) => j.id), ['custom-43'], 'custom templates add missing trades');
+  assert(!merged.some((trade) => trade.jobTypes.some((j) => j.id === 'custom-44')), 'system rows are not merged');
+  assertEqual(templates.find((t) => t.id === 'bathroom')?.jobTypes.some((j) => j.id === 'custom-42'), false, 'the built-in list is not mutated');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Custom Template Unit Tests');
+  console.log('='.repeat(50));
+
+  testEditorValidation();
+  testForkBuiltInTemplates();
+  testSnapshots();
+  testVisibility();
+  testPickTemplateForJob();
+  testGeneratorMerge();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
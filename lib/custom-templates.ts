@@ -0,0 +1,424 @@
+/**
+ * Custom Template Rules
+ * Editor validation, forking, version snapshots and team visibility for
+ * contractor-owned proposal templates, and the conversions that put them in
+ * front of the proposal generator and the mobile draft pipeline. Shared by the
+ * /api/templates routes, the storage layer, mobile job creation and the
+ * template editor.
+ *
+ * Safe to import from client and server code.
+ */
+
+import { z } from "zod";
+import type {
+  ProposalTemplate,
+  ProposalTemplateChange,
+  ProposalTemplateSnapshot,
+  ScopeSection,
+} from "@shared/schema";
+import type { JobType, Template } from "./proposal-data";
+import type { CompanyMembershipContext } from "./company-workspace";
+
+// Generator job type IDs for custom templates, e.g. "custom-42"
+const CUSTOM_JOB_TYPE_PREFIX = "custom-";
+
+const MAX_PRICE = 10_000_000;
+
+const lineSchema = z.string().trim().min(1).max(1000);
+const optionIdSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9._-]+$/, "Option IDs may only contain letters, numbers, dots, dashes and underscores")
+  .max(50);
+
+export const templateScopeSectionSchema = z.object({
+  title: z.string().trim().min(1, "Every scope section needs a title").max(200),
+  items: z.array(lineSchema).min(1, "Every scope section needs at least one item"),
+});
+
+export const templateOptionChoiceSchema = z.object({
+  value: optionIdSchema,
+  label: z.string().trim().min(1).max(200),
+  // Dollars added to the base price when chosen
+  priceModifier: z.number().int().min(-MAX_PRICE).max(MAX_PRICE),
+  scopeAddition: lineSchema.optional(),
+});
+
+export const templateOptionSchema = z
+  .object({
+    id: optionIdSchema,
+    label: z.string().trim().min(1, "Every option needs a label").max(200),
+    type: z.enum(["boolean", "select"]),
+    choices: z.array(templateOptionChoiceSchema).optional(),
+    priceModifier: z.number().int().min(-MAX_PRICE).max(MAX_PRICE).optional(),
+    scopeAddition: lineSchema.optional(),
+  })
+  .superRefine((option, ctx) => {
+    if (option.type === "select" && (!option.choices || option.choices.length === 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Option "${option.label}" needs at least one choice`, path: ["choices"] });
+    }
+    const values = (option.choices ?? []).map((choice) => choice.value);
+    if (new Set(values).size !== values.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Option "${option.label}" has duplicate choices`, path: ["choices"] });
+    }
+  });
+
+const templateContentFields = {
+  jobTypeName: z.string().trim().min(1, "Template name is required").max(200),
+  scopeSections: z.array(templateScopeSectionSchema).min(1, "Add at least one scope section"),
+  options: z.array(templateOptionSchema).default([]),
+  basePriceLow: z.number().int().min(0).max(MAX_PRICE),
+  basePriceHigh: z.number().int().min(0).max(MAX_PRICE),
+  estimatedDaysLow: z.number().int().min(1).max(365).nullable().default(null),
+  estimatedDaysHigh: z.number().int().min(1).max(365).nullable().default(null),
+  warranty: z.string().trim().max(2000).nullable().default(null),
+  exclusions: z.array(lineSchema).default([]),
+  assumptions: z.array(lineSchema).default([]),
+};
+
+function checkContent(
+  content: Partial<Pick<ProposalTemplateSnapshot, "options" | "basePriceLow" | "basePriceHigh" | "estimatedDaysLow" | "estimatedDaysHigh">>,
+  ctx: z.RefinementCtx
+) {
+  if (content.basePriceLow !== undefined && content.basePriceHigh !== undefined && content.basePriceLow > content.basePriceHigh) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Low price must not exceed high price", path: ["basePriceLow"] });
+  }
+  if (content.estimatedDaysLow != null && content.estimatedDaysHigh != null && content.estimatedDaysLow > content.estimatedDaysHigh) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Minimum days must not exceed maximum days", path: ["estimatedDaysLow"] });
+  }
+  const optionIds = (content.options ?? []).map((option) => option.id);
+  if (new Set(optionIds).size !== optionIds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Option IDs must be unique", path: ["options"] });
+  }
+}
+
+/**
+ * A new custom template as submitted by the editor.
+ */
+export const createCustomTemplateSchema = z
+  .object({
+    tradeId: z.string().trim().min(1).max(50),
+    tradeName: z.string().trim().min(1).max(100),
+    jobTypeId: z.string().trim().min(1).max(50),
+    ...templateContentFields,
+  })
+  .superRefine(checkContent);
+
+/**
+ * Editor save: any subset of the content. Trade and job type stay fixed so
+ * mobile jobs keep resolving to the same template.
+ */
+export const updateCustomTemplateSchema = z
+  .object({
+    jobTypeName: templateContentFields.jobTypeName,
+    scopeSections: templateContentFields.scopeSections,
+    options: z.array(templateOptionSchema),
+    basePriceLow: templateContentFields.basePriceLow,
+    basePriceHigh: templateContentFields.basePriceHigh,
+    estimatedDaysLow: z.number().int().min(1).max(365).nullable(),
+    estimatedDaysHigh: z.number().int().min(1).max(365).nullable(),
+    warranty: z.string().trim().max(2000).nullable(),
+    exclusions: z.array(lineSchema),
+    assumptions: z.array(lineSchema),
+    isActive: z.boolean(),
+  })
+  .partial()
+  .superRefine(checkContent);
+
+export const forkTemplateSchema = z.union([
+  // A DB template (system, own or shared with the team)
+  z.object({ templateId: z.number().int().positive() }),
+  // A built-in generator template
+  z.object({ tradeId: z.string().trim().min(1), jobTypeId: z.string().trim().min(1) }),
+]);
+
+export const shareTemplateSchema = z.object({
+  sharedWithCompany: z.boolean(),
+});
+
+export type CreateCustomTemplateInput = z.infer<typeof createCustomTemplateSchema>;
+export type UpdateCustomTemplateInput = z.infer<typeof updateCustomTemplateSchema>;
+
+// Template content as the editor and fork sources see it
+export type CustomTemplateContent = CreateCustomTemplateInput;
+
+export function flattenScopeSections(sections: ScopeSection[]): string[] {
+  return sections.flatMap((section) => section.items);
+}
+
+/**
+ * Scope sections of a template row. Templates saved before the editor only
+ * have the flat list, which becomes a single section.
+ */
+export function scopeSectionsOf(template: Pick<ProposalTemplate, "baseScope" | "scopeSections">): ScopeSection[] {
+  if (template.scopeSections && template.scopeSections.length > 0) return template.scopeSections;
+  return template.baseScope.length > 0 ? [{ title: "Scope of Work", items: template.baseScope }] : [];
+}
+
+export function buildTemplateSnapshot(
+  template: Pick<
+    ProposalTemplate,
+    | "jobTypeName"
+    | "baseScope"
+    | "scopeSections"
+    | "options"
+    | "basePriceLow"
+    | "basePriceHigh"
+    | "estimatedDaysLow"
+    | "estimatedDaysHigh"
+    | "warranty"
+    | "exclusions"
+    | "assumptions"
+  >
+): ProposalTemplateSnapshot {
+  const scopeSections = scopeSectionsOf(template);
+  return {
+    jobTypeName: template.jobTypeName,
+    baseScope: flattenScopeSections(scopeSections),
+    scopeSections,
+    options: template.options ?? [],
+    basePriceLow: template.basePriceLow,
+    basePriceHigh: template.basePriceHigh,
+    estimatedDaysLow: template.estimatedDaysLow ?? null,
+    estimatedDaysHigh: template.estimatedDaysHigh ?? null,
+    warranty: template.warranty ?? null,
+    exclusions: template.exclusions ?? [],
+    assumptions: template.assumptions ?? [],
+  };
+}
+
+function diffStringLists(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter((item) => !beforeSet.has(item)),
+    removed: before.filter((item) => !afterSet.has(item)),
+  };
+}
+
+/**
+ * Changes between two versions of a template, for the version history.
+ */
+export function diffTemplateSnapshots(
+  before: ProposalTemplateSnapshot,
+  after: ProposalTemplateSnapshot
+): ProposalTemplateChange[] {
+  const changes: ProposalTemplateChange[] = [];
+
+  if (before.jobTypeName !== after.jobTypeName) {
+    changes.push({ field: "jobTypeName", type: "changed", from: before.jobTypeName, to: after.jobTypeName });
+  }
+
+  for (const field of ["scope", "exclusions", "assumptions"] as const) {
+    const key = field === "scope" ? "baseScope" : field;
+    const diff = diffStringLists(before[key], after[key]);
+    for (const item of diff.added) changes.push({ field, type: "added", item });
+    for (const item of diff.removed) changes.push({ field, type: "removed", item });
+  }
+
+  if (before.basePriceLow !== after.basePriceLow || before.basePriceHigh !== after.basePriceHigh) {
+    changes.push({
+      field: "price",
+      type: "changed",
+      from: { low: before.basePriceLow, high: before.basePriceHigh },
+      to: { low: after.basePriceLow, high: after.basePriceHigh },
+    });
+  }
+  if (before.estimatedDaysLow !== after.estimatedDaysLow || before.estimatedDaysHigh !== after.estimatedDaysHigh) {
+    changes.push({
+      field: "days",
+      type: "changed",
+      from: { low: before.estimatedDaysLow, high: before.estimatedDaysHigh },
+      to: { low: after.estimatedDaysLow, high: after.estimatedDaysHigh },
+    });
+  }
+  if (before.warranty !== after.warranty) {
+    changes.push({ field: "warranty", type: "changed", from: before.warranty, to: after.warranty });
+  }
+
+  const beforeOptions = new Map(before.options.map((option) => [option.id, option]));
+  const afterOptions = new Map(after.options.map((option) => [option.id, option]));
+  for (const [id, option] of afterOptions) {
+    const previous = beforeOptions.get(id);
+    if (!previous) changes.push({ field: "options", type: "added", optionId: id, label: option.label });
+    else if (JSON.stringify(previous) !== JSON.stringify(option)) {
+      changes.push({ field: "options", type: "changed", optionId: id, label: option.label });
+    }
+  }
+  for (const [id, option] of beforeOptions) {
+    if (!afterOptions.has(id)) changes.push({ field: "options", type: "removed", optionId: id, label: option.label });
+  }
+
+  // Regrouping or retitling sections without changing their items is still an edit
+  if (!changes.some((change) => change.field === "scope") && JSON.stringify(before.scopeSections) !== JSON.stringify(after.scopeSections)) {
+    changes.push({ field: "scopeSections", type: "changed" });
+  }
+
+  return changes;
+}
+
+/**
+ * Editor content for a fork of a DB template (system or custom).
+ */
+export function templateContentFromRow(template: ProposalTemplate): CustomTemplateContent {
+  const snapshot = buildTemplateSnapshot(template);
+  return {
+    tradeId: template.tradeId,
+    tradeName: template.tradeName,
+    jobTypeId: template.jobTypeId,
+    jobTypeName: snapshot.jobTypeName,
+    scopeSections: snapshot.scopeSections,
+    options: snapshot.options,
+    basePriceLow: snapshot.basePriceLow,
+    basePriceHigh: snapshot.basePriceHigh,
+    estimatedDaysLow: snapshot.estimatedDaysLow,
+    estimatedDaysHigh: snapshot.estimatedDaysHigh,
+    warranty: snapshot.warranty,
+    exclusions: snapshot.exclusions,
+    assumptions: snapshot.assumptions,
+  };
+}
+
+/**
+ * Editor content for a fork of a built-in generator template.
+ */
+export function templateContentFromJobType(trade: Pick<Template, "id" | "trade">, jobType: JobType): CustomTemplateContent {
+  const scopeSections = jobType.scopeSections && jobType.scopeSections.length > 0
+    ? jobType.scopeSections.map((section) => ({ title: section.title, items: [...section.items] }))
+    : [{ title: "Scope of Work", items: [...jobType.baseScope] }];
+  return {
+    tradeId: trade.id,
+    tradeName: trade.trade,
+    jobTypeId: jobType.id,
+    jobTypeName: jobType.name,
+    scopeSections,
+    options: jobType.options.map((option) => ({ ...option })),
+    basePriceLow: jobType.basePriceRange.low,
+    basePriceHigh: jobType.basePriceRange.high,
+    estimatedDaysLow: jobType.estimatedDays?.low ?? null,
+    estimatedDaysHigh: jobType.estimatedDays?.high ?? null,
+    warranty: jobType.warranty ?? null,
+    exclusions: [...(jobType.exclusions ?? [])],
+    assumptions: [...(jobType.assumptions ?? [])],
+  };
+}
+
+export function findGeneratorJobType(
+  generatorTemplates: Template[],
+  tradeId: string,
+  jobTypeId: string
+): { trade: Template; jobType: JobType } | undefined {
+  const trade = generatorTemplates.find((t) => t.id === tradeId);
+  const jobType = trade?.jobTypes.find((j) => j.id === jobTypeId);
+  return trade && jobType ? { trade, jobType } : undefined;
+}
+
+// ============ Visibility ============
+
+export type TemplateAccess = Pick<ProposalTemplate, "createdBy" | "companyId" | "sharedWithCompany">;
+
+export function isSystemTemplate(template: Pick<ProposalTemplate, "createdBy">): boolean {
+  return template.createdBy === null;
+}
+
+/**
+ * Everyone sees system templates and creators see their own. Within a Crew
+ * workspace every member sees the templates shared with the team.
+ */
+export function canViewTemplate(
+  template: TemplateAccess,
+  userId: string | null,
+  membership?: Pick<CompanyMembershipContext, "companyId"> | null
+): boolean {
+  if (isSystemTemplate(template)) return true;
+  if (userId && template.createdBy === userId) return true;
+  if (!membership || template.companyId == null) return false;
+  return template.companyId === membership.companyId && template.sharedWithCompany;
+}
+
+/**
+ * Only the creator edits a custom template; teammates fork shared ones.
+ */
+export function canEditTemplate(template: Pick<ProposalTemplate, "createdBy">, userId: string): boolean {
+  return template.createdBy === userId;
+}
+
+/**
+ * Template a mobile job should use among the active candidates for its job
+ * type: the user's own most recently edited one, then the newest one shared
+ * with their team, then the system template.
+ */
+export function pickTemplateForJob<T extends TemplateAccess & Pick<ProposalTemplate, "id" | "isActive" | "updatedAt">>(
+  candidates: T[],
+  userId: string,
+  membership?: Pick<CompanyMembershipContext, "companyId"> | null
+): T | undefined {
+  const rank = (template: T) => {
+    if (template.createdBy === userId) return 0;
+    if (!isSystemTemplate(template)) return 1;
+    return 2;
+  };
+  const usable = candidates.filter((template) => template.isActive && canViewTemplate(template, userId, membership));
+  return usable.sort((a, b) => {
+    const byRank = rank(a) - rank(b);
+    if (byRank !== 0) return byRank;
+    const byUpdated = (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0);
+    return byUpdated !== 0 ? byUpdated : a.id - b.id;
+  })[0];
+}
+
+// ============ Generator ============
+
+export function customJobTypeId(templateId: number): string {
+  return `${CUSTOM_JOB_TYPE_PREFIX}${templateId}`;
+}
+
+export function parseCustomJobTypeId(jobTypeId: string): number | null {
+  if (!jobTypeId.startsWith(CUSTOM_JOB_TYPE_PREFIX)) return null;
+  const id = Number(jobTypeId.slice(CUSTOM_JOB_TYPE_PREFIX.length));
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Generator job type for a custom template. Its ID is `custom-<templateId>`
+ * so it sits next to the built-in job type it was forked from.
+ */
+export function toGeneratorJobType(template: ProposalTemplate): JobType {
+  const snapshot = buildTemplateSnapshot(template);
+  return {
+    id: customJobTypeId(template.id),
+    name: snapshot.jobTypeName,
+    baseScope: snapshot.baseScope,
+    scopeSections: snapshot.scopeSections,
+    ...(snapshot.assumptions.length > 0 && { assumptions: snapshot.assumptions }),
+    options: snapshot.options,
+    basePriceRange: { low: snapshot.basePriceLow, high: snapshot.basePriceHigh },
+    ...(snapshot.estimatedDaysLow != null && snapshot.estimatedDaysHigh != null && {
+      estimatedDays: { low: snapshot.estimatedDaysLow, high: snapshot.estimatedDaysHigh },
+    }),
+    ...(snapshot.warranty && { warranty: snapshot.warranty }),
+    ...(snapshot.exclusions.length > 0 && { exclusions: snapshot.exclusions }),
+  };
+}
+
+/**
+ * Built-in generator templates with the user's custom ones listed first in
+ * their trade. Trades without a built-in template get their own entry.
+ */
+export function mergeCustomTemplates(generatorTemplates: Template[], customTemplates: ProposalTemplate[]): Template[] {
+  const merged = generatorTemplates.map((trade) => ({ ...trade, jobTypes: [...trade.jobTypes] }));
+  const customByTrade = new Map<string, JobType[]>();
+  for (const template of customTemplates) {
+    if (isSystemTemplate(template) || !template.isActive) continue;
+    let trade = merged.find((t) => t.id === template.tradeId);
+    if (!trade) {
+      trade = { id: template.tradeId, trade: template.tradeName, jobTypes: [] };
+      merged.push(trade);
+    }
+    customByTrade.set(trade.id, [...(customByTrade.get(trade.id) ?? []), toGeneratorJobType(template)]);
+  }
+  return merged.map((trade) => {
+    const custom = customByTrade.get(trade.id);
+    return custom ? { ...trade, jobTypes: [...custom, ...trade.jobTypes] } : trade;
+  });
+}
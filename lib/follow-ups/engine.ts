@@ -0,0 +1,82 @@
+/**
+ * Follow-up Engine
+ *
+ * Sends due follow-up reminders for open proposals. Meant to run on a
+ * schedule; each run sends at most one reminder per proposal.
+ */
+
+import { sendProposalFollowUpEmail } from "@/lib/services/emailService";
+import { logger } from "@/lib/logger";
+import { getDueFollowUpSteps, getFollowUpSequence } from "./sequence";
+import {
+  claimFollowUpStep,
+  listFollowUpCandidates,
+  listFollowUpsByProposals,
+  releaseFollowUpStep,
+  setFollowUpMessageId,
+} from "./storage";
+
+export interface FollowUpRunResult {
+  checked: number;
+  sent: number;
+  failed: number;
+}
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_WEB_BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
+}
+
+export async function runProposalFollowUps(now: Date = new Date()): Promise<FollowUpRunResult> {
+  const candidates = await listFollowUpCandidates();
+  const history = await listFollowUpsByProposals(candidates.map(({ proposal }) => proposal.id));
+
+  const sentByProposal = new Map<number, string[]>();
+  for (const row of history) {
+    sentByProposal.set(row.proposalId, [...(sentByProposal.get(row.proposalId) ?? []), row.stepId]);
+  }
+
+  const result: FollowUpRunResult = { checked: candidates.length, sent: 0, failed: 0 };
+
+  for (const { proposal, owner } of candidates) {
+    const [step] = getDueFollowUpSteps(
+      proposal,
+      getFollowUpSequence(owner.followUpSequence),
+      sentByProposal.get(proposal.id) ?? [],
+      now
+    );
+    if (!step || !proposal.sentToEmail) continue;
+
+    const claim = await claimFollowUpStep(proposal.id, step, proposal.sentToEmail);
+    if (!claim) continue;
+
+    try {
+      const senderName = [owner.firstName, owner.lastName].filter(Boolean).join(" ") || undefined;
+      const email = await sendProposalFollowUpEmail({
+        recipientEmail: proposal.sentToEmail,
+        recipientName: proposal.clientName,
+        trigger: step.trigger,
+        proposalTitle: proposal.jobTypeName,
+        proposalUrl: `${getBaseUrl()}/p/${proposal.publicToken}`,
+        validUntil: proposal.validUntil,
+        senderName,
+        senderCompany: owner.companyName || undefined,
+        proposalId: proposal.id,
+        clientLanguage: proposal.clientLanguage,
+      });
+
+      if (!email.success) {
+        throw new Error(email.error || "Failed to send email");
+      }
+
+      await setFollowUpMessageId(claim.id, email.messageId ?? null);
+      result.sent++;
+    } catch (error) {
+      await releaseFollowUpStep(claim.id);
+      result.failed++;
+      logger.error("Proposal follow-up failed", { proposalId: proposal.id, stepId: step.id }, error as Error);
+    }
+  }
+
+  logger.info("Proposal follow-up run complete", { ...result });
+  return result;
+}
@@ -0,0 +1,20 @@
+/**
+ * Follow-ups Module
+ * 
+ * Server-side only module for proposal expiry and follow-up reminders.
+ * Client code should import pure helpers from './sequence' directly.
+ */
+
+export * from './sequence';
+export {
+  listFollowUpCandidates,
+  listFollowUpsByProposals,
+  claimFollowUpStep,
+  setFollowUpMessageId,
+  releaseFollowUpStep,
+  extendProposalValidity,
+  getFollowUpSettings,
+  updateFollowUpSettings,
+  type FollowUpSettings,
+} from './storage';
+export { runProposalFollowUps, type FollowUpRunResult } from './engine';
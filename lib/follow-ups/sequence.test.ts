@@ -0,0 +1,163 @@
+/**
+ * Follow-up Sequence Unit Tests
+ * 
+ * Tests for proposal expiry and deciding which follow-up reminders are due.
+ * Run with: npx tsx lib/follow-ups/sequence.test.ts
+ */
+
+import { followUpSequenceSchema } from '@shared/schema';
+import {
+  DEFAULT_FOLLOW_UP_SEQUENCE,
+  addDays,
+  computeValidUntil,
+  getDueFollowUpSteps,
+  getFollowUpSequence,
+  isProposalExpired,
+  type FollowUpCandidate,
+} from './sequence';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+const SENT_AT = new Date('2025-03-01T12:00:00Z');
+
+function candidate(overrides: Partial<FollowUpCandidate> = {}): FollowUpCandidate {
+  return {
+    status: 'sent',
+    sentAt: SENT_AT,
+    validUntil: computeValidUntil(SENT_AT, 30),
+    acceptedAt: null,
+    followUpsEnabled: true,
+    ...overrides,
+  };
+}
+
+function dueIds(proposal: FollowUpCandidate, daysAfterSend: number, sent: string[] = []) {
+  return getDueFollowUpSteps(proposal, DEFAULT_FOLLOW_UP_SEQUENCE, sent, addDays(SENT_AT, daysAfterSend)).map((s) => s.id);
+}
+
+// ============ TESTS ============
+
+function testExpiry() {
+  console.log('\n--- expiry ---');
+  const validUntil = computeValidUntil(SENT_AT, 30);
+  assertEqual(validUntil.toISOString(), '2025-03-31T12:00:00.000Z', 'validity window counts from the send date');
+  assert(!isProposalExpired({ validUntil }, addDays(SENT_AT, 29)), 'not expired before validUntil');
+  assert(isProposalExpired({ validUntil }, addDays(SENT_AT, 30)), 'expired at validUntil');
+  assert(isProposalExpired({ validUntil: validUntil.toISOString() }, addDays(SENT_AT, 31)), 'accepts ISO strings');
+  assert(!isProposalExpired({ validUntil: null }), 'proposals without a date never expire');
+}
+
+function testUnviewed() {
+  console.log('\n--- unviewed nudge ---');
+  assertEqual(dueIds(candidate(), 2), [], 'nothing due before day 3');
+  assertEqual(dueIds(candidate(), 3), ['unviewed-3'], 'unviewed nudge on day 3');
+  assertEqual(dueIds(candidate(), 4, ['unviewed-3']), [], 'already-sent steps are skipped');
+  assertEqual(dueIds(candidate({ status: 'viewed' }), 3), [], 'no unviewed nudge once viewed');
+}
+
+function testViewedNotAccepted() {
+  console.log('\n--- viewed-not-accepted nudge ---');
+  assertEqual(dueIds(candidate({ status: 'viewed' }), 6), [], 'nothing due before day 7');
+  assertEqual(dueIds(candidate({ status: 'viewed' }), 7), ['viewed-7'], 'viewed nudge on day 7');
+  assertEqual(dueIds(candidate({ status: 'sent' }), 7, ['unviewed-3']), [], 'no viewed nudge while unviewed');
+}
+
+function testBeforeExpiry() {
+  console.log('\n--- before-expiry nudge ---');
+  assertEqual(
+    dueIds(candidate({ status: 'viewed' }), 28, ['viewed-7']),
+    ['expiry-2'],
+    'expiry reminder 2 days before validUntil'
+  );
+  assertEqual(
+    dueIds(candidate({ status: 'sent' }), 28),
+    ['unviewed-3', 'expiry-2'],
+    'overdue steps are returned in the order they became due'
+  );
+  assertEqual(dueIds(candidate({ status: 'viewed' }), 30, ['viewed-7']), [], 'nothing after expiry');
+  assertEqual(dueIds(candidate({ validUntil: null, status: 'viewed' }), 40, ['viewed-7']), [], 'no expiry reminder without a date');
+}
+
+function testStopConditions() {
+  console.log('\n--- stop conditions ---');
+  for (const status of ['accepted', 'won', 'lost']) {
+    assertEqual(dueIds(candidate({ status }), 10), [], `stops once ${status}`);
+  }
+  assertEqual(dueIds(candidate({ acceptedAt: addDays(SENT_AT, 1) }), 10), [], 'stops once accepted even if status lags');
+  assertEqual(dueIds(candidate({ followUpsEnabled: false }), 10), [], 'respects per-proposal opt-out');
+  assertEqual(dueIds(candidate({ sentAt: null }), 10), [], 'never-sent proposals get nothing');
+}
+
+function testCustomSequence() {
+  console.log('\n--- custom sequences ---');
+  assertEqual(getFollowUpSequence(null), DEFAULT_FOLLOW_UP_SEQUENCE, 'null falls back to the default sequence');
+
+  const custom = [
+    { id: 'early', trigger: 'unviewed' as const, days: 1 },
+    { id: 'later', trigger: 'unviewed' as const, days: 5, enabled: false },
+  ];
+  const due = getDueFollowUpSteps(candidate(), custom, [], addDays(SENT_AT, 6)).map((s) => s.id);
+  assertEqual(due, ['early'], 'disabled steps never fire');
+
+  assert(followUpSequenceSchema.safeParse(custom).success, 'valid sequence passes validation');
+  assert(
+    !followUpSequenceSchema.safeParse([custom[0], { ...custom[1], id: 'early' }]).success,
+    'duplicate step ids are rejected'
+  );
+  assert(
+    !followUpSequenceSchema.safeParse([{ id: 'x', trigger: 'someday', days: 1 }]).success,
+    'unknown triggers are rejected'
+  );
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Follow-up Sequence Unit Tests');
+  console.log('='.repeat(50));
+
+  testExpiry();
+  testUnviewed();
+  testViewedNotAccepted();
+  testBeforeExpiry();
+  testStopConditions();
+  testCustomSequence();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,95 @@
+/**
+ * Proposal Expiry & Follow-up Sequence
+ *
+ * Pure helpers for proposal validity windows and deciding which follow-up
+ * reminders are due. Safe to import from client and server code.
+ */
+
+import type { FollowUpStep, FollowUpTrigger } from "@shared/schema";
+
+export const DEFAULT_PROPOSAL_VALIDITY_DAYS = 30;
+
+export const DEFAULT_FOLLOW_UP_SEQUENCE: FollowUpStep[] = [
+  { id: "unviewed-3", trigger: "unviewed", days: 3 },
+  { id: "viewed-7", trigger: "viewed_not_accepted", days: 7 },
+  { id: "expiry-2", trigger: "before_expiry", days: 2 },
+];
+
+// Once a proposal reaches one of these statuses the sequence stops for good
+export const FOLLOW_UP_STOP_STATUSES = ["accepted", "won", "lost"] as const;
+
+export const FOLLOW_UP_TRIGGER_LABELS: Record<FollowUpTrigger, string> = {
+  unviewed: "Not opened",
+  viewed_not_accepted: "Viewed but not accepted",
+  before_expiry: "Before expiry",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function computeValidUntil(sentAt: Date, validityDays = DEFAULT_PROPOSAL_VALIDITY_DAYS): Date {
+  return addDays(sentAt, validityDays);
+}
+
+export function isProposalExpired(
+  proposal: { validUntil?: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  if (!proposal.validUntil) return false;
+  return new Date(proposal.validUntil).getTime() <= now.getTime();
+}
+
+export function getFollowUpSequence(sequence: FollowUpStep[] | null | undefined): FollowUpStep[] {
+  return sequence ?? DEFAULT_FOLLOW_UP_SEQUENCE;
+}
+
+export interface FollowUpCandidate {
+  status: string;
+  sentAt: Date | null;
+  validUntil: Date | null;
+  acceptedAt?: Date | null;
+  followUpsEnabled: boolean;
+}
+
+/**
+ * Steps of the sequence that are due for a proposal right now, in the order
+ * they became due. Steps already sent are skipped, as are steps whose
+ * condition no longer holds (e.g. the "unviewed" nudge once the client has
+ * opened the proposal).
+ */
+export function getDueFollowUpSteps(
+  proposal: FollowUpCandidate,
+  sequence: FollowUpStep[],
+  sentStepIds: Iterable<string>,
+  now: Date = new Date()
+): FollowUpStep[] {
+  if (!proposal.followUpsEnabled || !proposal.sentAt) return [];
+  if (proposal.acceptedAt) return [];
+  if ((FOLLOW_UP_STOP_STATUSES as readonly string[]).includes(proposal.status)) return [];
+  if (isProposalExpired(proposal, now)) return [];
+
+  const sent = new Set(sentStepIds);
+  const due: Array<{ step: FollowUpStep; dueAt: Date }> = [];
+
+  for (const step of sequence) {
+    if (step.enabled === false || sent.has(step.id)) continue;
+
+    let dueAt: Date | null = null;
+    if (step.trigger === "unviewed" && proposal.status === "sent") {
+      dueAt = addDays(proposal.sentAt, step.days);
+    } else if (step.trigger === "viewed_not_accepted" && proposal.status === "viewed") {
+      dueAt = addDays(proposal.sentAt, step.days);
+    } else if (step.trigger === "before_expiry" && proposal.validUntil) {
+      dueAt = addDays(proposal.validUntil, -step.days);
+    }
+
+    if (dueAt && dueAt.getTime() <= now.getTime()) {
+      due.push({ step, dueAt });
+    }
+  }
+
+  return due.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime()).map(({ step }) => step);
+}
@@ -0,0 +1,129 @@
+/**
+ * Follow-up Storage Service
+ *
+ * Database operations for proposal expiry and follow-up reminders.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import {
+  proposalFollowUps,
+  proposals,
+  users,
+  type FollowUpStep,
+  type Proposal,
+  type ProposalFollowUp,
+} from "@shared/schema";
+import { and, eq, inArray, isNotNull } from "drizzle-orm";
+
+/**
+ * Proposals that may still need a follow-up: emailed to a client, not yet
+ * decided, and with follow-ups enabled. Includes the owner's sequence and
+ * sender details.
+ */
+export async function listFollowUpCandidates() {
+  return await db
+    .select({
+      proposal: proposals,
+      owner: {
+        firstName: users.firstName,
+        lastName: users.lastName,
+        companyName: users.companyName,
+        followUpSequence: users.followUpSequence,
+      },
+    })
+    .from(proposals)
+    .innerJoin(users, eq(users.id, proposals.userId))
+    .where(
+      and(
+        inArray(proposals.status, ["sent", "viewed"]),
+        eq(proposals.followUpsEnabled, true),
+        isNotNull(proposals.sentAt),
+        isNotNull(proposals.sentToEmail),
+        isNotNull(proposals.publicToken)
+      )
+    );
+}
+
+export async function listFollowUpsByProposals(proposalIds: number[]): Promise<ProposalFollowUp[]> {
+  if (proposalIds.length === 0) return [];
+  return await db
+    .select()
+    .from(proposalFollowUps)
+    .where(inArray(proposalFollowUps.proposalId, proposalIds));
+}
+
+/**
+ * Claim a step before sending so overlapping runs can't send it twice.
+ * Returns undefined when the step was already claimed.
+ */
+export async function claimFollowUpStep(
+  proposalId: number,
+  step: { id: string; trigger: string },
+  recipient: string
+): Promise<ProposalFollowUp | undefined> {
+  const [row] = await db
+    .insert(proposalFollowUps)
+    .values({ proposalId, stepId: step.id, trigger: step.trigger, recipient })
+    .onConflictDoNothing()
+    .returning();
+  return row;
+}
+
+export async function setFollowUpMessageId(id: number, messageId: string | null): Promise<void> {
+  await db.update(proposalFollowUps).set({ messageId }).where(eq(proposalFollowUps.id, id));
+}
+
+// Release a claim whose email failed so the next run retries it
+export async function releaseFollowUpStep(id: number): Promise<void> {
+  await db.delete(proposalFollowUps).where(eq(proposalFollowUps.id, id));
+}
+
+/**
+ * Move a proposal's expiry date. Before-expiry reminders are re-armed so the
+ * client is nudged again ahead of the new date.
+ */
+export async function extendProposalValidity(
+  proposalId: number,
+  userId: string,
+  validUntil: Date
+): Promise<Proposal | undefined> {
+  const [updated] = await db
+    .update(proposals)
+    .set({ validUntil, updatedAt: new Date() })
+    .where(and(eq(proposals.id, proposalId), eq(proposals.userId, userId)))
+    .returning();
+
+  if (updated) {
+    await db
+      .delete(proposalFollowUps)
+      .where(and(eq(proposalFollowUps.proposalId, proposalId), eq(proposalFollowUps.trigger, "before_expiry")));
+  }
+
+  return updated;
+}
+
+export interface FollowUpSettings {
+  proposalValidityDays: number;
+  followUpSequence: FollowUpStep[] | null;
+}
+
+export async function getFollowUpSettings(userId: string): Promise<FollowUpSettings | undefined> {
+  const [settings] = await db
+    .select({ proposalValidityDays: users.proposalValidityDays, followUpSequence: users.followUpSequence })
+    .from(users)
+    .where(eq(users.id, userId));
+  return settings;
+}
+
+export async function updateFollowUpSettings(
+  userId: string,
+  updates: Partial<FollowUpSettings>
+): Promise<FollowUpSettings | undefined> {
+  const [settings] = await db
+    .update(users)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning({ proposalValidityDays: users.proposalValidityDays, followUpSequence: users.followUpSequence });
+  return settings;
+}
@@ -0,0 +1,19 @@
+/**
+ * Invoices Module
+ * 
+ * Server-side only module for proposal invoices (deposit / progress / final).
+ * Client code should import pure helpers from './schedule' directly.
+ */
+
+export * from './schedule';
+export {
+  createInvoiceSchedule,
+  listInvoicesByProposal,
+  getInvoiceById,
+  getInvoiceByPublicToken,
+  issueInvoice,
+  listInvoicesAwaitingPayment,
+  setInvoiceCheckoutSession,
+  markInvoicePaid,
+  type CreateInvoiceScheduleParams,
+} from './storage';
@@ -0,0 +1,164 @@
+/**
+ * Invoice Schedule Unit Tests
+ * 
+ * Tests for billing schedule splitting, numbering, and payment roll-up.
+ * Run with: npx tsx lib/invoices/schedule.test.ts
+ */
+
+import {
+  buildInvoiceSchedule,
+  formatInvoiceNumber,
+  getContractTotalCents,
+  getDefaultInvoiceSchedule,
+  getInvoiceSessionPayment,
+  invoiceScheduleSchema,
+  summarizeInvoicePayments,
+} from './schedule';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// ============ TESTS ============
+
+function testContractTotal() {
+  console.log('\n--- getContractTotalCents ---');
+  assertEqual(getContractTotalCents({ priceLow: 9000, priceHigh: 11000 }), 1000000, 'midpoint of the range, in cents');
+  assertEqual(getContractTotalCents({ priceLow: 1000, priceHigh: 1001 }), 100100, 'rounds the midpoint to whole dollars');
+}
+
+function testDefaultSchedule() {
+  console.log('\n--- getDefaultInvoiceSchedule ---');
+  const schedule = buildInvoiceSchedule(1000000, getDefaultInvoiceSchedule({ depositPercentage: null }));
+  assertEqual(schedule.map((e) => [e.kind, e.amount]), [['deposit', 500000], ['final', 500000]], '50% deposit, balance on completion');
+
+  const custom = getDefaultInvoiceSchedule({ depositPercentage: 30 });
+  assertEqual(custom.depositPercent, 30, 'uses the proposal deposit percentage');
+}
+
+function testProgressSchedule() {
+  console.log('\n--- buildInvoiceSchedule ---');
+  const schedule = buildInvoiceSchedule(100001, {
+    depositPercent: 33,
+    progress: [
+      { milestone: 'Rough-in complete', percent: 33 },
+      { milestone: 'Drywall complete', percent: 17 },
+    ],
+    finalMilestone: 'Final walkthrough',
+  });
+  assertEqual(
+    schedule.map((e) => [e.kind, e.scheduleIndex, e.milestone]),
+    [
+      ['deposit', 0, 'Deposit due upon acceptance'],
+      ['progress', 1, 'Rough-in complete'],
+      ['progress', 2, 'Drywall complete'],
+      ['final', 3, 'Final walkthrough'],
+    ],
+    'deposit, progress milestones, then final'
+  );
+  assertEqual(schedule.reduce((sum, e) => sum + e.amount, 0), 100001, 'amounts always sum to the contract total');
+  assertEqual(schedule[3].amount, 100001 - 33000 - 33000 - 17000, 'final absorbs the rounding remainder');
+
+  const noDeposit = buildInvoiceSchedule(50000, { depositPercent: 0, progress: [] });
+  assertEqual(noDeposit.map((e) => [e.kind, e.amount]), [['final', 50000]], 'zero deposit bills everything at the end');
+}
+
+function testScheduleValidation() {
+  console.log('\n--- invoiceScheduleSchema ---');
+  assert(invoiceScheduleSchema.safeParse({ depositPercent: 50 }).success, 'progress defaults to empty');
+  assert(
+    !invoiceScheduleSchema.safeParse({ depositPercent: 50, progress: [{ milestone: 'Framing', percent: 50 }] }).success,
+    'rejects schedules that leave nothing for the final payment'
+  );
+  assert(
+    !invoiceScheduleSchema.safeParse({ depositPercent: 10, progress: [{ milestone: '', percent: 10 }] }).success,
+    'rejects empty milestone names'
+  );
+}
+
+function testNumbering() {
+  console.log('\n--- formatInvoiceNumber ---');
+  assertEqual(formatInvoiceNumber(7), 'INV-0007', 'pads to four digits');
+  assertEqual(formatInvoiceNumber(12345), 'INV-12345', 'grows past four digits');
+}
+
+function testPaymentSummary() {
+  console.log('\n--- summarizeInvoicePayments ---');
+  const open = { amount: 5000, paidAmount: 0, status: 'open' };
+  const paid = { amount: 5000, paidAmount: 5000, status: 'paid' };
+  assertEqual(summarizeInvoicePayments([]), { paidAmount: 0, paymentStatus: 'none' }, 'no invoices');
+  assertEqual(summarizeInvoicePayments([open, open]), { paidAmount: 0, paymentStatus: 'pending' }, 'nothing paid yet');
+  assertEqual(summarizeInvoicePayments([paid, open]), { paidAmount: 5000, paymentStatus: 'partial' }, 'deposit paid');
+  assertEqual(summarizeInvoicePayments([paid, paid]), { paidAmount: 10000, paymentStatus: 'paid' }, 'fully paid');
+  assertEqual(
+    summarizeInvoicePayments([paid, { ...open, status: 'void' }]),
+    { paidAmount: 5000, paymentStatus: 'paid' },
+    'void invoices are ignored'
+  );
+}
+
+function testInvoiceSessionPayment() {
+  console.log('\n--- getInvoiceSessionPayment ---');
+  const session = {
+    status: 'complete',
+    payment_status: 'paid',
+    amount_total: 300_000,
+    payment_intent: 'pi_1',
+    metadata: { invoiceId: '7', type: 'invoice_payment' },
+  } as const;
+  assertEqual(getInvoiceSessionPayment(session, 7), { amountReceived: 300_000, stripePaymentIntentId: 'pi_1' }, 'paid session pays its invoice');
+  assertEqual(getInvoiceSessionPayment(session, 8), null, 'ignores sessions for other invoices');
+  assertEqual(getInvoiceSessionPayment({ ...session, payment_status: 'unpaid' }, 7), null, 'unpaid sessions pay nothing');
+  assertEqual(getInvoiceSessionPayment({ ...session, metadata: { invoiceId: '7', type: 'proposal_deposit' } }, 7), null, 'ignores other payment types');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Invoice Schedule Unit Tests');
+  console.log('='.repeat(50));
+
+  testContractTotal();
+  testDefaultSchedule();
+  testProgressSchedule();
+  testScheduleValidation();
+  testNumbering();
+  testPaymentSummary();
+  testInvoiceSessionPayment();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,139 @@
+/**
+ * Invoice Schedule Helpers
+ *
+ * Pure helpers for turning an accepted proposal into billable milestones
+ * (deposit, progress payments, final payment) and for invoice numbering.
+ * Safe to import from client and server code.
+ */
+
+import type Stripe from "stripe";
+import { z } from "zod";
+import type { InvoiceKind } from "@shared/schema";
+
+export const DEFAULT_DEPOSIT_PERCENT = 50;
+export const DEFAULT_FINAL_MILESTONE = "Project completion";
+
+export const invoiceScheduleSchema = z
+  .object({
+    depositPercent: z.number().min(0).max(100),
+    progress: z
+      .array(
+        z.object({
+          milestone: z.string().trim().min(1).max(200),
+          percent: z.number().gt(0).max(100),
+        })
+      )
+      .max(10)
+      .default([]),
+    finalMilestone: z.string().trim().min(1).max(200).optional(),
+    // Days after issuing that an invoice is due (0 = due on receipt)
+    dueInDays: z.number().int().min(0).max(90).optional(),
+  })
+  .refine(
+    (schedule) =>
+      schedule.depositPercent + schedule.progress.reduce((sum, p) => sum + p.percent, 0) < 100,
+    { message: "Deposit and progress payments must leave a balance for the final payment" }
+  );
+
+export type InvoiceSchedule = z.infer<typeof invoiceScheduleSchema>;
+
+export interface InvoiceScheduleEntry {
+  kind: InvoiceKind;
+  scheduleIndex: number;
+  milestone: string;
+  amount: number; // cents
+}
+
+/**
+ * Contract total in cents. Matches the "Total Project Estimate" shown on the
+ * proposal PDF and public page (midpoint of the price range).
+ */
+export function getContractTotalCents(proposal: { priceLow: number; priceHigh: number }): number {
+  return Math.round((proposal.priceLow + proposal.priceHigh) / 2) * 100;
+}
+
+/**
+ * Default schedule: the proposal's deposit percentage (or 50%) up front and
+ * the balance on completion, mirroring the proposal's payment terms.
+ */
+export function getDefaultInvoiceSchedule(proposal: { depositPercentage?: number | null }): InvoiceSchedule {
+  return {
+    depositPercent: proposal.depositPercentage ?? DEFAULT_DEPOSIT_PERCENT,
+    progress: [],
+    finalMilestone: DEFAULT_FINAL_MILESTONE,
+  };
+}
+
+/**
+ * Split a contract total into schedule entries. Percentages are rounded to
+ * whole cents and the final payment absorbs the rounding remainder, so the
+ * entries always sum to the contract total.
+ */
+export function buildInvoiceSchedule(totalCents: number, schedule: InvoiceSchedule): InvoiceScheduleEntry[] {
+  const entries: InvoiceScheduleEntry[] = [];
+
+  if (schedule.depositPercent > 0) {
+    entries.push({
+      kind: "deposit",
+      scheduleIndex: 0,
+      milestone: "Deposit due upon acceptance",
+      amount: Math.round((totalCents * schedule.depositPercent) / 100),
+    });
+  }
+
+  schedule.progress.forEach((payment, index) => {
+    entries.push({
+      kind: "progress",
+      scheduleIndex: index + 1,
+      milestone: payment.milestone,
+      amount: Math.round((totalCents * payment.percent) / 100),
+    });
+  });
+
+  const billed = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  entries.push({
+    kind: "final",
+    scheduleIndex: schedule.progress.length + 1,
+    milestone: schedule.finalMilestone ?? DEFAULT_FINAL_MILESTONE,
+    amount: totalCents - billed,
+  });
+
+  return entries;
+}
+
+export function formatInvoiceNumber(sequence: number): string {
+  return `INV-${String(sequence).padStart(4, "0")}`;
+}
+
+/**
+ * Roll invoice payments up into the proposal's paymentStatus/paidAmount.
+ */
+export function summarizeInvoicePayments(
+  invoices: Array<{ amount: number; paidAmount: number; status: string }>
+): { paidAmount: number; paymentStatus: "none" | "pending" | "partial" | "paid" } {
+  const billable = invoices.filter((invoice) => invoice.status !== "void");
+  const total = billable.reduce((sum, invoice) => sum + invoice.amount, 0);
+  const paidAmount = billable.reduce((sum, invoice) => sum + invoice.paidAmount, 0);
+
+  if (billable.length === 0) return { paidAmount: 0, paymentStatus: "none" };
+  if (paidAmount <= 0) return { paidAmount: 0, paymentStatus: "pending" };
+  if (paidAmount < total) return { paidAmount, paymentStatus: "partial" };
+  return { paidAmount, paymentStatus: "paid" };
+}
+
+/**
+ * The payment an invoice Checkout Session made, or null until it is paid or
+ * when the session belongs to a different invoice.
+ */
+export function getInvoiceSessionPayment(
+  session: Pick<Stripe.Checkout.Session, "status" | "payment_status" | "amount_total" | "payment_intent" | "metadata">,
+  invoiceId: number
+): { amountReceived: number; stripePaymentIntentId: string } | null {
+  if (session.metadata?.type !== "invoice_payment" || session.metadata?.invoiceId !== String(invoiceId)) return null;
+  if (session.status !== "complete" || session.payment_status !== "paid") return null;
+
+  const stripePaymentIntentId =
+    typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+  if (!stripePaymentIntentId) return null;
+  return { amountReceived: session.amount_total ?? 0, stripePaymentIntentId };
+}
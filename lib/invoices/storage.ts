@@ -0,0 +1,163 @@
+/**
+ * Invoice Storage Service
+ *
+ * Database operations for proposal invoices.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import { invoices, proposals, type Invoice } from "@shared/schema";
+import { and, asc, eq, gte, isNotNull, sql } from "drizzle-orm";
+import {
+  formatInvoiceNumber,
+  summarizeInvoicePayments,
+  type InvoiceScheduleEntry,
+} from "./schedule";
+
+export interface CreateInvoiceScheduleParams {
+  proposalId: number;
+  userId: string;
+  entries: InvoiceScheduleEntry[];
+  dueInDays?: number;
+  // Deposit already collected through the proposal's payment link
+  depositPaid?: { amount: number; stripePaymentIntentId?: string | null };
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Create the full billing schedule for a proposal. Invoice numbers are
+ * allocated sequentially per contractor inside one transaction. The first
+ * invoice is issued immediately; later milestones stay scheduled until issued.
+ */
+export async function createInvoiceSchedule(params: CreateInvoiceScheduleParams): Promise<Invoice[]> {
+  return await db.transaction(async (tx) => {
+    // Serialize numbering per contractor
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`invoices:${params.userId}`}))`);
+
+    const [{ maxSequence }] = await tx
+      .select({ maxSequence: sql<number>`coalesce(max(${invoices.sequence}), 0)` })
+      .from(invoices)
+      .where(eq(invoices.userId, params.userId));
+
+    const now = new Date();
+    const dueInDays = params.dueInDays ?? 0;
+    let sequence = Number(maxSequence);
+
+    const rows = params.entries.map((entry, index) => {
+      sequence += 1;
+      const issueNow = index === 0;
+      const prepaid = entry.kind === "deposit" && params.depositPaid && params.depositPaid.amount >= entry.amount;
+      return {
+        proposalId: params.proposalId,
+        userId: params.userId,
+        sequence,
+        invoiceNumber: formatInvoiceNumber(sequence),
+        kind: entry.kind,
+        scheduleIndex: entry.scheduleIndex,
+        milestone: entry.milestone,
+        amount: entry.amount,
+        status: prepaid ? "paid" : issueNow ? "open" : "scheduled",
+        publicToken: crypto.randomUUID(),
+        issuedAt: issueNow || prepaid ? now : null,
+        dueDate: issueNow ? addDays(now, dueInDays) : null,
+        paidAt: prepaid ? now : null,
+        paidAmount: prepaid ? entry.amount : 0,
+        stripePaymentIntentId: prepaid ? params.depositPaid?.stripePaymentIntentId ?? null : null,
+      };
+    });
+
+    return await tx.insert(invoices).values(rows).returning();
+  });
+}
+
+export async function listInvoicesByProposal(proposalId: number): Promise<Invoice[]> {
+  return await db
+    .select()
+    .from(invoices)
+    .where(eq(invoices.proposalId, proposalId))
+    .orderBy(asc(invoices.scheduleIndex));
+}
+
+export async function getInvoiceById(id: number): Promise<Invoice | undefined> {
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+  return invoice;
+}
+
+export async function getInvoiceByPublicToken(token: string): Promise<Invoice | undefined> {
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.publicToken, token));
+  return invoice;
+}
+
+/**
+ * Issue a scheduled invoice once its milestone is reached.
+ */
+export async function issueInvoice(id: number, userId: string, dueInDays = 0): Promise<Invoice | undefined> {
+  const now = new Date();
+  const [invoice] = await db
+    .update(invoices)
+    .set({ status: "open", issuedAt: now, dueDate: addDays(now, dueInDays), updatedAt: now })
+    .where(and(eq(invoices.id, id), eq(invoices.userId, userId), eq(invoices.status, "scheduled")))
+    .returning();
+  return invoice;
+}
+
+/** Open invoices with a Checkout Session started since `updatedSince`, oldest first. */
+export async function listInvoicesAwaitingPayment(updatedSince: Date, limit: number): Promise<Invoice[]> {
+  return await db
+    .select()
+    .from(invoices)
+    .where(and(
+      eq(invoices.status, "open"),
+      isNotNull(invoices.stripeCheckoutSessionId),
+      gte(invoices.updatedAt, updatedSince)
+    ))
+    .orderBy(asc(invoices.id))
+    .limit(limit);
+}
+
+export async function setInvoiceCheckoutSession(id: number, checkoutSessionId: string): Promise<void> {
+  await db
+    .update(invoices)
+    .set({ stripeCheckoutSessionId: checkoutSessionId, updatedAt: new Date() })
+    .where(eq(invoices.id, id));
+}
+
+/**
+ * Record a successful payment and roll it up into the proposal's payment
+ * status. Repeated deliveries for an already-paid invoice are no-ops.
+ */
+export async function markInvoicePaid(
+  id: number,
+  payment: { amountReceived: number; stripePaymentIntentId: string }
+): Promise<Invoice | undefined> {
+  const now = new Date();
+  const [invoice] = await db
+    .update(invoices)
+    .set({
+      status: "paid",
+      paidAmount: payment.amountReceived,
+      paidAt: now,
+      stripePaymentIntentId: payment.stripePaymentIntentId,
+      updatedAt: now,
+    })
+    .where(and(eq(invoices.id, id), sql`${invoices.status} <> 'paid'`))
+    .returning();
+
+  if (!invoice) return undefined;
+
+  const summary = summarizeInvoicePayments(await listInvoicesByProposal(invoice.proposalId));
+  await db
+    .update(proposals)
+    .set({
+      paidAmount: summary.paidAmount,
+      paymentStatus: summary.paymentStatus,
+      stripePaymentIntentId: payment.stripePaymentIntentId,
+      updatedAt: now,
+    })
+    .where(eq(proposals.id, invoice.proposalId));
+
+  return invoice;
+}
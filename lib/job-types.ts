@@ -4,9 +4,13 @@
  * This module defines all valid job types for the ScopeScan system.
  * Both client UI and server validation should reference this list
  * to prevent drift between what the UI shows and what the backend accepts.
+ * The list is derived from the trade catalog (lib/catalog): job types with
+ * a visible mobile entry, which are also the ones seeded as DB templates.
  */
 
-export type JobTypeCategory = "interior" | "exterior" | "systems" | "general";
+import { getMobileJobTypes, resolveJobTypeId, type MobileJobTypeCategory } from "./catalog";
+
+export type JobTypeCategory = MobileJobTypeCategory;
 
 export interface JobTypeDefinition {
   id: string;
@@ -16,39 +20,36 @@ export interface JobTypeDefinition {
 }
 
 /**
- * Complete list of active job types.
- * Order matters for UI display - primary types first.
- * 
- * IMPORTANT: When adding/removing job types here, also update:
- * - lib/services/template-seeder.ts (backend templates)
+ * Primary job types shown on initial load (most common).
+ * These appear as tiles on the create page.
  */
-export const JOB_TYPE_DEFINITIONS: readonly JobTypeDefinition[] = [
-  // Interior
-  { id: "bathroom-remodel", label: "Bathroom", icon: "🛁", category: "interior" },
-  { id: "kitchen-remodel", label: "Kitchen", icon: "🍳", category: "interior" },
-
-  { id: "painting", label: "Painting", icon: "🎨", category: "interior" },
-
-
-
-  // Systems
-  { id: "hvac", label: "HVAC", icon: "❄️", category: "systems" },
-  { id: "plumbing", label: "Plumbing", icon: "🔧", category: "systems" },
-  { id: "electrical", label: "Electrical", icon: "⚡", category: "systems" },
-
-  // Bathroom sub-types
-  { id: "shower-replacement", label: "Shower Replacement", icon: "🚿", category: "interior" },
-  { id: "tub-to-shower", label: "Tub to Shower", icon: "🚿", category: "interior" },
-  { id: "shower-remodel", label: "Shower Remodel", icon: "🚿", category: "interior" },
-  { id: "walk-in-tub", label: "Walk-In Tub", icon: "🛁", category: "interior" },
-
-  // Kitchen sub-types
-  { id: "cabinet-refacing", label: "Cabinet Refacing", icon: "🍳", category: "interior" },
-  { id: "countertop-replacement", label: "Countertop Replacement", icon: "🍳", category: "interior" },
-
-
+export const PRIMARY_JOB_TYPE_IDS = [
+  "bathroom-remodel",
+  "kitchen-remodel",
+  "painting",
+  "hvac",
+  "plumbing",
+  "electrical",
 ] as const;
 
+/**
+ * Complete list of active job types.
+ * Order matters for UI display - primary types first, then catalog order.
+ */
+export const JOB_TYPE_DEFINITIONS: readonly JobTypeDefinition[] = getMobileJobTypes()
+  .flatMap(({ jobType }) =>
+    jobType.mobile && !jobType.mobile.hidden
+      ? [{ id: jobType.id, label: jobType.mobile.label, icon: jobType.mobile.icon, category: jobType.mobile.category }]
+      : []
+  )
+  // Stable sort keeps catalog order after the primary types
+  .sort((a, b) => primaryRank(a.id) - primaryRank(b.id));
+
+function primaryRank(id: string): number {
+  const rank = (PRIMARY_JOB_TYPE_IDS as readonly string[]).indexOf(id);
+  return rank === -1 ? PRIMARY_JOB_TYPE_IDS.length : rank;
+}
+
 /**
  * Set of all valid job type IDs for O(1) lookup.
  */
@@ -65,11 +66,12 @@ export function isValidJobTypeId(jobTypeId: string): boolean {
 }
 
 /**
- * Get job type definition by ID.
+ * Get job type definition by ID or catalog alias.
  * Returns undefined if the job type doesn't exist.
  */
 export function getJobTypeById(id: string): JobTypeDefinition | undefined {
-  return JOB_TYPE_DEFINITIONS.find(t => t.id === id);
+  const canonicalId = resolveJobTypeId(id) ?? id;
+  return JOB_TYPE_DEFINITIONS.find(t => t.id === canonicalId);
 }
 
 /**
@@ -97,19 +99,6 @@ export function isMeasurementTrade(jobTypeId: string): jobTypeId is MeasurementT
   return MEASUREMENT_TRADE_IDS.includes(jobTypeId as MeasurementTradeId);
 }
 
-/**
- * Primary job types shown on initial load (most common).
- * These appear as tiles on the create page.
- */
-export const PRIMARY_JOB_TYPE_IDS = [
-  "bathroom-remodel",
-  "kitchen-remodel",
-  "painting",
-  "hvac",
-  "plumbing",
-  "electrical",
-] as const;
-
 /**
  * Get primary job type definitions for UI display.
  */
@@ -128,7 +117,8 @@ export function getAllJobTypes(): readonly JobTypeDefinition[] {
 
 /**
  * Normalize a job type ID to its canonical form.
- * Handles case variations. Returns undefined if not a valid job type.
+ * Handles case variations and retired IDs kept as catalog aliases
+ * (e.g. "cabinet-refacing"). Returns undefined if not a valid job type.
  */
 export function normalizeJobTypeId(input: string): string | undefined {
   const lower = input.toLowerCase().trim();
@@ -136,6 +126,11 @@ export function normalizeJobTypeId(input: string): string | undefined {
   if (VALID_JOB_TYPE_IDS.has(lower)) {
     return lower;
   }
+  // Catalog alias
+  const canonicalId = resolveJobTypeId(lower);
+  if (canonicalId && VALID_JOB_TYPE_IDS.has(canonicalId)) {
+    return canonicalId;
+  }
   // Try to find by label (case-insensitive)
   const byLabel = JOB_TYPE_DEFINITIONS.find(
     t => t.label.toLowerCase() === lower
@@ -154,3 +149,12 @@ export function validateJobTypeIdOrDefault(
   if (!input) return defaultId;
   return isValidJobTypeId(input) ? input : defaultId;
 }
+
+/**
+ * Normalize stored job type IDs (recents, saved setups), dropping unknown
+ * IDs and duplicates that only differed by alias.
+ */
+export function normalizeJobTypeIds(inputs: readonly string[]): string[] {
+  const ids = inputs.map(normalizeJobTypeId).filter((id): id is string => id !== undefined);
+  return [...new Set(ids)];
+}
@@ -0,0 +1,29 @@
+/**
+ * Background Job Handlers
+ *
+ * The function behind each job name, and the cron schedules that enqueue
+ * recurring jobs. Imported only by the runner, since it pulls in every
+ * worker's dependencies.
+ */
+
+import { processDraftJob } from "@/src/lib/mobile/draft/worker";
+import { processVisionJob } from "@/src/lib/mobile/vision/worker";
+import { processEmbeddingJob } from "@/src/lib/similar-jobs/worker";
+import { updateAggregatedPatterns } from "@/src/lib/learning/learning-service";
+import { reconcileOutstandingPayments } from "@/lib/services/paymentReconciliation";
+import type { JobHandler, JobName, ScheduledJob } from "./schedule";
+
+export const jobHandlers: { [N in JobName]: JobHandler<N> } = {
+  "mobile.draft": processDraftJob,
+  "mobile.vision": processVisionJob,
+  "similar-jobs.embed": processEmbeddingJob,
+  "learning.aggregate-patterns": () => updateAggregatedPatterns(),
+  "payments.reconcile": () => reconcileOutstandingPayments(),
+};
+
+export const scheduledJobs: ScheduledJob[] = [
+  // Roll the raw action log up into the learning pattern tables (UTC, off-peak)
+  { name: "learning.aggregate-patterns.nightly", cron: "15 3 * * *", job: "learning.aggregate-patterns", payload: {} },
+  // Record payments taken on contractors' own Stripe accounts that the client didn't come back for
+  { name: "payments.reconcile.half-hourly", cron: "*/30 * * * *", job: "payments.reconcile", payload: {} },
+];
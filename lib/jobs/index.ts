@@ -0,0 +1,18 @@
+/**
+ * Background Jobs Module
+ *
+ * Server-side only module for the Postgres-backed job queue.
+ * Client code should import pure helpers from './schedule' directly. The
+ * runner lives in './runner' since it loads every job handler.
+ */
+
+export * from './schedule';
+export {
+  enqueueJob,
+  listJobs,
+  countJobsByStatus,
+  getJob,
+  retryJob,
+  listJobSchedules,
+  type EnqueueJobOptions,
+} from './storage';
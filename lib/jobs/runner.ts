@@ -0,0 +1,187 @@
+/**
+ * Background Job Runner
+ *
+ * Claims due jobs, runs their handlers and records the outcome. Used by the
+ * standalone worker (scripts/run-job-worker.ts) and the cron drain route.
+ */
+
+import { logger } from "@/lib/logger";
+import type { BackgroundJob } from "@shared/schema";
+import { jobHandlers, scheduledJobs } from "./handlers";
+import {
+  JOB_LOCK_TIMEOUT_MS,
+  PermanentJobError,
+  type JobHandler,
+  type JobName,
+  type JobPayloads,
+  type JobStatus,
+} from "./schedule";
+import {
+  claimDueSchedule,
+  claimNextJob,
+  completeJob,
+  enqueueJob,
+  failJob,
+  releaseStaleJobs,
+  touchJob,
+} from "./storage";
+
+export interface JobRunResult {
+  released: number;
+  scheduled: number;
+  completed: number;
+  retrying: number;
+  dead: number;
+}
+
+// How often a worker re-fires due schedules and reclaims abandoned jobs
+const HOUSEKEEPING_INTERVAL_MS = 30 * 1000;
+
+export function createWorkerId(prefix: string): string {
+  return `${prefix}-${process.pid}-${Math.random().toString(16).slice(2)}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Enqueue every cron schedule that is due. Safe to call from many workers:
+ * each firing is claimed by exactly one.
+ */
+export async function enqueueDueSchedules(now = new Date()): Promise<number> {
+  let enqueued = 0;
+  for (const schedule of scheduledJobs) {
+    if (!(await claimDueSchedule(schedule.name, schedule.cron, now))) continue;
+    await enqueueJob(schedule.job, schedule.payload, { dedupeKey: `schedule:${schedule.name}` });
+    enqueued++;
+  }
+  return enqueued;
+}
+
+/**
+ * Run one claimed job and record the outcome. Never throws.
+ */
+export async function runJob(job: BackgroundJob): Promise<JobStatus> {
+  const handler = (jobHandlers as Record<string, JobHandler<JobName> | undefined>)[job.name];
+  // Keep the lock fresh so a slow job isn't reclaimed by another worker
+  const heartbeat = setInterval(() => {
+    touchJob(job).catch((error) => logger.warn("Failed to refresh job lock", { jobId: job.id, error: String(error) }));
+  }, JOB_LOCK_TIMEOUT_MS / 4);
+
+  try {
+    if (!handler) throw new PermanentJobError(`UNKNOWN_JOB: no handler for "${job.name}"`);
+
+    await handler(job.payload as JobPayloads[JobName], {
+      jobId: job.id,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      isFinalAttempt: job.attempts >= job.maxAttempts,
+    });
+    await completeJob(job);
+    return "completed";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      const status = await failJob(job, message, !(error instanceof PermanentJobError));
+      if (status === "dead") {
+        logger.error("Background job moved to dead letter", { jobId: job.id, name: job.name, attempts: job.attempts }, error as Error);
+      } else {
+        logger.warn("Background job failed, will retry", { jobId: job.id, name: job.name, attempts: job.attempts, error: message });
+      }
+      return status;
+    } catch (recordError) {
+      // The lock expires and the job is picked up again
+      logger.error("Failed to record job failure", { jobId: job.id, name: job.name }, recordError as Error);
+      return "running";
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * One pass over the queue: reclaim abandoned jobs, fire due schedules, then run
+ * due jobs one at a time until the queue is empty or a limit is reached.
+ */
+export async function runDueJobs(options: {
+  workerId: string;
+  maxJobs: number;
+  // Stop claiming new jobs after this long (the job in flight still finishes)
+  timeBudgetMs?: number;
+}): Promise<JobRunResult> {
+  const startedAt = Date.now();
+  const result: JobRunResult = {
+    released: await releaseStaleJobs(),
+    scheduled: await enqueueDueSchedules(),
+    completed: 0,
+    retrying: 0,
+    dead: 0,
+  };
+
+  for (let run = 0; run < options.maxJobs; run++) {
+    if (options.timeBudgetMs !== undefined && Date.now() - startedAt >= options.timeBudgetMs) break;
+
+    const job = await claimNextJob(options.workerId);
+    if (!job) break;
+
+    const status = await runJob(job);
+    if (status === "completed") result.completed++;
+    else if (status === "dead") result.dead++;
+    else result.retrying++;
+  }
+
+  return result;
+}
+
+/**
+ * Long-running worker: `concurrency` lanes each claim and run one job at a
+ * time, polling when the queue is empty. Resolves once `signal` aborts and the
+ * jobs in flight have finished.
+ */
+export async function runWorker(options: {
+  workerId: string;
+  concurrency: number;
+  pollIntervalMs: number;
+  signal: AbortSignal;
+}): Promise<void> {
+  const { workerId, concurrency, pollIntervalMs, signal } = options;
+
+  async function housekeeping() {
+    while (!signal.aborted) {
+      try {
+        const released = await releaseStaleJobs();
+        const scheduled = await enqueueDueSchedules();
+        if (released > 0 || scheduled > 0) {
+          logger.info("Job worker housekeeping", { workerId, released, scheduled });
+        }
+      } catch (error) {
+        logger.error("Job worker housekeeping failed", { workerId }, error as Error);
+      }
+      await sleep(HOUSEKEEPING_INTERVAL_MS, signal);
+    }
+  }
+
+  async function lane() {
+    while (!signal.aborted) {
+      try {
+        const job = await claimNextJob(workerId);
+        if (job) {
+          await runJob(job);
+          continue;
+        }
+      } catch (error) {
+        logger.error("Job worker failed to claim a job", { workerId }, error as Error);
+      }
+      await sleep(pollIntervalMs, signal);
+    }
+  }
+
+  await Promise.all([housekeeping(), ...Array.from({ length: concurrency }, lane)]);
+}
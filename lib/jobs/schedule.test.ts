@@ -0,0 +1,134 @@
+/**
+ * Background Jobs Unit Tests
+ *
+ * Tests for retry backoff, dead-letter decisions and cron schedule parsing.
+ * Run with: npx tsx lib/jobs/schedule.test.ts
+ */
+
+import {
+  getFailureOutcome,
+  getNextCronRun,
+  parseCronExpression,
+  PermanentJobError,
+  retryDelaySeconds,
+} from './schedule';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+function assertThrows(fn: () => unknown, message: string) {
+  try {
+    fn();
+    assert(false, message);
+  } catch {
+    assert(true, message);
+  }
+}
+
+// Wednesday
+const NOW = new Date('2026-03-18T15:30:20Z');
+
+function nextRun(expression: string, after = NOW) {
+  return getNextCronRun(expression, after).toISOString();
+}
+
+// ============ TESTS ============
+
+function testRetryBackoff() {
+  console.log('\n--- retry backoff ---');
+  assertEqual([0, 1, 2, 3, 4, 5].map(retryDelaySeconds), [0, 2, 5, 15, 30, 60], 'backs off per attempt');
+  assertEqual(retryDelaySeconds(12), 60, 'caps at a minute');
+}
+
+function testFailureOutcome() {
+  console.log('\n--- failure outcome ---');
+  assertEqual(
+    getFailureOutcome({ attempts: 2, maxAttempts: 5 }, NOW),
+    { status: 'pending', runAt: new Date('2026-03-18T15:30:25Z') },
+    'retries with backoff while attempts remain'
+  );
+  assertEqual(getFailureOutcome({ attempts: 5, maxAttempts: 5 }, NOW).status, 'dead', 'dead-letters after the last attempt');
+  assertEqual(getFailureOutcome({ attempts: 1, maxAttempts: 5 }, NOW, false).status, 'dead', 'non-retryable errors dead-letter at once');
+
+  const error = new PermanentJobError('JOB_NOT_FOUND');
+  assert(error instanceof Error && error.name === 'PermanentJobError', 'permanent errors are identifiable');
+}
+
+function testCronParsing() {
+  console.log('\n--- cron parsing ---');
+  const schedule = parseCronExpression('*/15 9-17 * * 1-5');
+  assertEqual([...schedule.minutes], [0, 15, 30, 45], 'expands minute steps');
+  assertEqual([...schedule.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17], 'expands hour ranges');
+  assertEqual(schedule.anyDay, false, 'day of week alone is an AND');
+  assertEqual([...parseCronExpression('0 0 * * 7').daysOfWeek], [0], '7 means Sunday');
+  assertEqual([...parseCronExpression('5,10-20/5 * * * *').minutes], [5, 10, 15, 20], 'combines lists and stepped ranges');
+  assertEqual([...parseCronExpression('@daily').hours], [0], 'supports macros');
+
+  assertThrows(() => parseCronExpression('* * * *'), 'rejects four fields');
+  assertThrows(() => parseCronExpression('60 * * * *'), 'rejects out-of-range minutes');
+  assertThrows(() => parseCronExpression('* * 0 * *'), 'rejects day of month 0');
+  assertThrows(() => parseCronExpression('*/0 * * * *'), 'rejects a zero step');
+  assertThrows(() => parseCronExpression('a * * * *'), 'rejects names');
+}
+
+function testNextRun() {
+  console.log('\n--- next run ---');
+  assertEqual(nextRun('* * * * *'), '2026-03-18T15:31:00.000Z', 'next whole minute');
+  assertEqual(nextRun('* * * * *', new Date('2026-03-18T15:31:00Z')), '2026-03-18T15:32:00.000Z', 'strictly after the given time');
+  assertEqual(nextRun('15 3 * * *'), '2026-03-19T03:15:00.000Z', 'daily rolls to tomorrow once past');
+  assertEqual(nextRun('45 15 * * *'), '2026-03-18T15:45:00.000Z', 'daily later today');
+  assertEqual(nextRun('0 9 * * 1'), '2026-03-23T09:00:00.000Z', 'weekly on Monday');
+  assertEqual(nextRun('0 0 1 * *', new Date('2026-12-15T00:00:00Z')), '2027-01-01T00:00:00.000Z', 'monthly rolls over the year');
+  assertEqual(nextRun('0 0 29 2 *'), '2028-02-29T00:00:00.000Z', 'waits for a leap day');
+  assertEqual(nextRun('0 12 1 * 5'), '2026-03-20T12:00:00.000Z', 'day of month OR day of week when both are set');
+  assertThrows(() => getNextCronRun('0 0 31 2 *', NOW), 'impossible dates fail instead of looping');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Background Jobs Unit Tests');
+  console.log('='.repeat(50));
+
+  testRetryBackoff();
+  testFailureOutcome();
+  testCronParsing();
+  testNextRun();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,202 @@
+/**
+ * Background Jobs - Pure Logic
+ *
+ * Job names and payloads, retry/dead-letter decisions and cron schedule
+ * parsing for the Postgres-backed job queue.
+ * Safe to import from client and server code.
+ */
+
+// ============ JOBS ============
+
+export const jobStatuses = ["pending", "running", "completed", "dead"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+/**
+ * Payload carried by each named job. Adding a job means adding it here and
+ * registering its handler in ./handlers.
+ */
+export interface JobPayloads {
+  "mobile.draft": { draftId: number };
+  "mobile.vision": { photoId: number };
+  "similar-jobs.embed": { jobId: number };
+  "learning.aggregate-patterns": Record<string, never>;
+  "payments.reconcile": Record<string, never>;
+}
+
+export type JobName = keyof JobPayloads;
+
+export interface JobContext {
+  jobId: number;
+  // 1-based; includes the current attempt
+  attempt: number;
+  maxAttempts: number;
+  isFinalAttempt: boolean;
+}
+
+export type JobHandler<N extends JobName> = (payload: JobPayloads[N], context: JobContext) => Promise<void>;
+
+/**
+ * Throw from a handler when retrying cannot help (e.g. the row it works on
+ * was deleted): the job goes straight to the dead-letter state.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+// A running job whose lock is older than this is assumed to have lost its worker
+export const JOB_LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Seconds to wait before the next attempt, indexed by attempts made so far
+const RETRY_BACKOFF_SECONDS = [0, 2, 5, 15, 30, 60];
+
+export function retryDelaySeconds(attempts: number): number {
+  return RETRY_BACKOFF_SECONDS[Math.min(Math.max(attempts, 0), RETRY_BACKOFF_SECONDS.length - 1)];
+}
+
+export type FailureOutcome =
+  | { status: "pending"; runAt: Date }
+  | { status: "dead"; runAt: null };
+
+/**
+ * What happens to a job whose attempt just failed: back to the queue with a
+ * backoff, or into the dead-letter state once it is out of attempts (or the
+ * error says retrying won't help).
+ */
+export function getFailureOutcome(
+  job: { attempts: number; maxAttempts: number },
+  now: Date,
+  retryable = true
+): FailureOutcome {
+  if (!retryable || job.attempts >= job.maxAttempts) {
+    return { status: "dead", runAt: null };
+  }
+  return { status: "pending", runAt: new Date(now.getTime() + retryDelaySeconds(job.attempts) * 1000) };
+}
+
+// ============ CRON SCHEDULES ============
+
+/**
+ * A recurring job: enqueued each time its cron expression fires.
+ */
+export type ScheduledJob = {
+  [N in JobName]: { name: string; cron: string; job: N; payload: JobPayloads[N] };
+}[JobName];
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  anyDay: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+function parseCronField(field: string, { name, min, max }: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid cron ${name}: "${part}"`);
+
+    const [, range, startRaw, endRaw, stepRaw] = match;
+    const start = range === "*" ? min : Number(startRaw);
+    const end = range === "*" ? max : endRaw !== undefined ? Number(endRaw) : stepRaw ? max : start;
+    const step = stepRaw ? Number(stepRaw) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron ${name}: "${part}"`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month
+ * day-of-week) or one of @hourly/@daily/@weekly/@monthly. Supports `*`,
+ * numbers, ranges, lists and steps. Schedules are evaluated in UTC.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = (CRON_MACROS[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDay: fields[2] !== "*" && fields[4] !== "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+  return schedule.anyDay ? domMatch || dowMatch : domMatch && dowMatch;
+}
+
+/**
+ * The first minute strictly after `after` that the schedule fires on.
+ */
+export function getNextCronRun(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  // Skip whole months/days/hours that can't match; bounded so an impossible
+  // expression (e.g. 31 February) fails instead of looping forever
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error("Cron expression never matches");
+}
@@ -0,0 +1,265 @@
+/**
+ * Background Jobs Storage Service
+ *
+ * Database operations for the job queue and cron schedule state.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import { backgroundJobs, jobSchedules, type BackgroundJob } from "@shared/schema";
+import { and, count, desc, eq, inArray, lt, lte, sql } from "drizzle-orm";
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  getFailureOutcome,
+  getNextCronRun,
+  JOB_LOCK_TIMEOUT_MS,
+  type JobName,
+  type JobPayloads,
+  type JobStatus,
+} from "./schedule";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface EnqueueJobOptions {
+  runAt?: Date;
+  // While a pending job with this key exists, further enqueues are dropped
+  dedupeKey?: string;
+  maxAttempts?: number;
+}
+
+/**
+ * Add a job to the queue. Returns undefined when an identical job is already
+ * pending (same dedupe key). Pass the caller's transaction as `executor` to
+ * enqueue the job together with the rows it works on.
+ */
+export async function enqueueJob<N extends JobName>(
+  name: N,
+  payload: JobPayloads[N],
+  options: EnqueueJobOptions = {},
+  executor: Tx | typeof db = db
+): Promise<BackgroundJob | undefined> {
+  const [job] = await executor
+    .insert(backgroundJobs)
+    .values({
+      name,
+      payload,
+      dedupeKey: options.dedupeKey ?? null,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date(),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  return job;
+}
+
+/**
+ * Lock the next due job for a worker. SKIP LOCKED lets several workers poll
+ * the queue without handing out the same job twice.
+ */
+export async function claimNextJob(workerId: string, now = new Date()): Promise<BackgroundJob | undefined> {
+  const due = db
+    .select({ id: backgroundJobs.id })
+    .from(backgroundJobs)
+    .where(and(eq(backgroundJobs.status, "pending"), lte(backgroundJobs.runAt, now)))
+    .orderBy(backgroundJobs.runAt, backgroundJobs.id)
+    .limit(1)
+    .for("update", { skipLocked: true });
+
+  const [job] = await db
+    .update(backgroundJobs)
+    .set({
+      status: "running",
+      lockedBy: workerId,
+      lockedAt: now,
+      startedAt: now,
+      attempts: sql`${backgroundJobs.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(inArray(backgroundJobs.id, due))
+    .returning();
+
+  return job;
+}
+
+/**
+ * Refresh the lock of a long-running job so it isn't mistaken for abandoned.
+ */
+export async function touchJob(job: BackgroundJob, now = new Date()): Promise<void> {
+  await db
+    .update(backgroundJobs)
+    .set({ lockedAt: now, updatedAt: now })
+    .where(and(eq(backgroundJobs.id, job.id), eq(backgroundJobs.lockedBy, job.lockedBy ?? "")));
+}
+
+export async function completeJob(job: BackgroundJob, now = new Date()): Promise<void> {
+  await db
+    .update(backgroundJobs)
+    .set({ status: "completed", lockedBy: null, lockedAt: null, finishedAt: now, updatedAt: now })
+    .where(and(eq(backgroundJobs.id, job.id), eq(backgroundJobs.lockedBy, job.lockedBy ?? "")));
+}
+
+// Another job with the same dedupe key is already pending. Only one pending
+// row per key is allowed, so a job that would return to the queue beside it is
+// dead-lettered instead: the pending copy does the work.
+const pendingDuplicateExists = sql`EXISTS (
+  SELECT 1 FROM background_jobs AS pending
+  WHERE pending.dedupe_key = background_jobs.dedupe_key AND pending.status = 'pending'
+)`;
+
+/**
+ * Record a failed attempt: reschedule with backoff, or dead-letter the job.
+ */
+export async function failJob(
+  job: BackgroundJob,
+  error: string,
+  retryable: boolean,
+  now = new Date()
+): Promise<JobStatus> {
+  const outcome = getFailureOutcome(job, now, retryable);
+  const status = outcome.status === "pending"
+    ? sql<JobStatus>`CASE WHEN ${pendingDuplicateExists} THEN 'dead' ELSE 'pending' END`
+    : outcome.status;
+
+  const [failed] = await db
+    .update(backgroundJobs)
+    .set({
+      status,
+      runAt: outcome.runAt ?? job.runAt,
+      lastError: error,
+      lockedBy: null,
+      lockedAt: null,
+      finishedAt: outcome.status === "dead" ? now : sql`CASE WHEN ${pendingDuplicateExists} THEN ${now.toISOString()}::timestamp END`,
+      updatedAt: now,
+    })
+    .where(and(eq(backgroundJobs.id, job.id), eq(backgroundJobs.lockedBy, job.lockedBy ?? "")))
+    .returning({ status: backgroundJobs.status });
+
+  return (failed?.status as JobStatus | undefined) ?? outcome.status;
+}
+
+/**
+ * Put back jobs whose worker died mid-run (lock expired). Jobs that already
+ * used their last attempt, or that have an identical job pending, are
+ * dead-lettered instead.
+ */
+export async function releaseStaleJobs(now = new Date()): Promise<number> {
+  const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS);
+  // Two stale jobs can share a dedupe key; only the oldest goes back to the queue
+  const olderStaleDuplicateExists = sql`EXISTS (
+    SELECT 1 FROM background_jobs AS stale
+    WHERE stale.dedupe_key = background_jobs.dedupe_key
+      AND stale.id < background_jobs.id
+      AND stale.status = 'running'
+      AND stale.locked_at < ${staleBefore.toISOString()}::timestamp
+      AND stale.attempts < stale.max_attempts
+  )`;
+
+  const released = await db
+    .update(backgroundJobs)
+    .set({
+      status: sql`CASE
+        WHEN ${backgroundJobs.attempts} >= ${backgroundJobs.maxAttempts} THEN 'dead'
+        WHEN ${pendingDuplicateExists} OR ${olderStaleDuplicateExists} THEN 'dead'
+        ELSE 'pending'
+      END`,
+      lastError: "LOCK_EXPIRED: worker stopped before the job finished",
+      lockedBy: null,
+      lockedAt: null,
+      runAt: now,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(backgroundJobs.status, "running"),
+      lt(backgroundJobs.lockedAt, staleBefore)
+    ))
+    .returning({ id: backgroundJobs.id });
+
+  return released.length;
+}
+
+// ============ SCHEDULES ============
+
+/**
+ * Claim one firing of a cron schedule. The first call creates the schedule
+ * (first run at the next matching minute); a changed cron expression
+ * reschedules it. Returns true for exactly one caller per due run.
+ */
+export async function claimDueSchedule(name: string, cron: string, now = new Date()): Promise<boolean> {
+  const nextRunAt = getNextCronRun(cron, now);
+
+  await db
+    .insert(jobSchedules)
+    .values({ name, cron, nextRunAt })
+    .onConflictDoUpdate({
+      target: jobSchedules.name,
+      set: { cron, nextRunAt, updatedAt: now },
+      setWhere: sql`${jobSchedules.cron} <> ${cron}`,
+    });
+
+  const [claimed] = await db
+    .update(jobSchedules)
+    .set({ lastRunAt: now, nextRunAt, updatedAt: now })
+    .where(and(eq(jobSchedules.name, name), lte(jobSchedules.nextRunAt, now)))
+    .returning();
+
+  return !!claimed;
+}
+
+export async function listJobSchedules() {
+  return await db.select().from(jobSchedules).orderBy(jobSchedules.name);
+}
+
+// ============ ADMIN ============
+
+export async function listJobs(filters: {
+  status?: JobStatus;
+  name?: string;
+  limit: number;
+  beforeId?: number;
+}): Promise<BackgroundJob[]> {
+  return await db
+    .select()
+    .from(backgroundJobs)
+    .where(and(
+      filters.status ? eq(backgroundJobs.status, filters.status) : undefined,
+      filters.name ? eq(backgroundJobs.name, filters.name) : undefined,
+      filters.beforeId ? lt(backgroundJobs.id, filters.beforeId) : undefined
+    ))
+    .orderBy(desc(backgroundJobs.id))
+    .limit(filters.limit);
+}
+
+/**
+ * Job counts per name and status, for the admin overview.
+ */
+export async function countJobsByStatus() {
+  return await db
+    .select({ name: backgroundJobs.name, status: backgroundJobs.status, count: count() })
+    .from(backgroundJobs)
+    .groupBy(backgroundJobs.name, backgroundJobs.status)
+    .orderBy(backgroundJobs.name, backgroundJobs.status);
+}
+
+export async function getJob(id: number): Promise<BackgroundJob | undefined> {
+  const [job] = await db.select().from(backgroundJobs).where(eq(backgroundJobs.id, id)).limit(1);
+  return job;
+}
+
+/**
+ * Move a dead job back to the queue with a fresh set of attempts. Returns
+ * undefined if it is not dead or an identical job is already pending.
+ */
+export async function retryJob(id: number, now = new Date()): Promise<BackgroundJob | undefined> {
+  const [job] = await db
+    .update(backgroundJobs)
+    .set({ status: "pending", attempts: 0, runAt: now, finishedAt: null, updatedAt: now })
+    .where(and(
+      eq(backgroundJobs.id, id),
+      eq(backgroundJobs.status, "dead"),
+      sql`NOT ${pendingDuplicateExists}`
+    ))
+    .returning();
+
+  return job;
+}
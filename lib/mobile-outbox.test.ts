@@ -0,0 +1,191 @@
+/**
+ * Mobile Outbox Unit Tests
+ *
+ * Tests for offline outbox replay order, retry state, local job refs and pruning.
+ * Run with: npx tsx lib/mobile-outbox.test.ts
+ */
+
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_MAX_RETRY_MS,
+  OUTBOX_SYNCED_RETENTION_MS,
+  createOutboxItem,
+  findPrunableItems,
+  findSupersededItems,
+  getNextOutboxAttemptAt,
+  getOutboxItemsForJob,
+  getOutboxRetryDelayMs,
+  isLocalJobRef,
+  isRetryableSyncError,
+  markOutboxItemFailed,
+  markOutboxItemSynced,
+  markOutboxItemSyncing,
+  newLocalJobRef,
+  nextOutboxSeq,
+  recoverInterruptedItems,
+  resetOutboxItem,
+  resolveOutboxJobId,
+  selectNextOutboxItem,
+  summarizeOutbox,
+  type OutboxItem,
+} from './mobile-outbox';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+const NOW = 1_700_000_000_000;
+const LOCAL = 'local-abc';
+
+function httpError(status: number) {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+function buildQueue(): OutboxItem[] {
+  const photo = { file: new Blob(['x']), filename: 'a.jpg' };
+  return [
+    createOutboxItem({ id: 'job', kind: 'create_job', jobRef: LOCAL, idempotencyKey: 'k-job', payload: { jobType: 'fence' }, seq: 1, now: NOW }),
+    createOutboxItem({ id: 'p1', kind: 'upload_photo', jobRef: LOCAL, idempotencyKey: 'k-p1', payload: photo, seq: 2, now: NOW }),
+    createOutboxItem({ id: 'n1', kind: 'update_notes', jobRef: LOCAL, idempotencyKey: 'k-n1', payload: { jobNotes: 'crawlspace' }, seq: 3, now: NOW }),
+    createOutboxItem({ id: 'other', kind: 'upload_photo', jobRef: '42', idempotencyKey: 'k-o', payload: photo, seq: 4, now: NOW }),
+  ];
+}
+
+function replace(items: OutboxItem[], updated: OutboxItem): OutboxItem[] {
+  return items.map((item) => (item.id === updated.id ? updated : item));
+}
+
+// ============ TESTS ============
+
+function testJobRefs() {
+  console.log('\n--- job refs ---');
+  const ref = newLocalJobRef();
+  assert(isLocalJobRef(ref), 'new refs are local');
+  assert(!isLocalJobRef('42'), 'server ids are not local');
+  assertEqual(resolveOutboxJobId([], '42'), 42, 'numeric ref resolves to itself');
+  assertEqual(resolveOutboxJobId([], 'abc'), null, 'garbage ref does not resolve');
+
+  const items = buildQueue();
+  assertEqual(resolveOutboxJobId(items, LOCAL), null, 'local ref unresolved before create syncs');
+  const synced = replace(items, markOutboxItemSynced(items[0], { jobId: 77 }, NOW));
+  assertEqual(resolveOutboxJobId(synced, LOCAL), 77, 'local ref resolves to created job id');
+  assertEqual(getOutboxItemsForJob(synced, '77').map((i) => i.id), ['job', 'p1', 'n1'], 'server id finds items queued under the local ref');
+}
+
+function testReplayOrder() {
+  console.log('\n--- replay order ---');
+  let items = buildQueue();
+  assertEqual(selectNextOutboxItem(items, NOW)?.id, 'job', 'create_job goes first');
+
+  items = replace(items, markOutboxItemSyncing(items[0], NOW));
+  assertEqual(selectNextOutboxItem(items, NOW)?.id, 'other', 'other jobs are not blocked by a job in flight');
+
+  items = replace(items, markOutboxItemFailed(items[0], new TypeError('Failed to fetch'), NOW));
+  assertEqual(selectNextOutboxItem(items, NOW)?.id, 'other', 'photos wait while their job is backing off');
+  assertEqual(selectNextOutboxItem(items, NOW + OUTBOX_MAX_RETRY_MS)?.id, 'job', 'job retries once due');
+
+  items = replace(items, markOutboxItemSynced(items[0], { jobId: 77 }, NOW));
+  assertEqual(selectNextOutboxItem(items, NOW)?.id, 'p1', 'photo follows once job synced');
+
+  items = replace(items, markOutboxItemFailed(items[1], httpError(400), NOW));
+  assertEqual(items[1].status, 'failed', '4xx fails permanently');
+  assertEqual(selectNextOutboxItem(items, NOW)?.id, 'other', 'failed item blocks later items for its job');
+
+  items = replace(items, resetOutboxItem(items[1], NOW));
+  assertEqual(selectNextOutboxItem(items, NOW)?.id, 'p1', 'manual retry unblocks');
+
+  const orphan = [createOutboxItem({ id: 'x', kind: 'upload_photo', jobRef: 'local-gone', idempotencyKey: 'k', payload: { file: new Blob([]), filename: 'x' }, seq: 1, now: NOW })];
+  assertEqual(selectNextOutboxItem(orphan, NOW), null, 'items for an unknown local job never send');
+}
+
+function testRetryState() {
+  console.log('\n--- retry state ---');
+  assertEqual(getOutboxRetryDelayMs(1), 2000, 'first retry after 2s');
+  assertEqual(getOutboxRetryDelayMs(3), 8000, 'backoff doubles');
+  assertEqual(getOutboxRetryDelayMs(30), OUTBOX_MAX_RETRY_MS, 'backoff is capped');
+
+  assert(isRetryableSyncError(new TypeError('Failed to fetch')), 'network errors retry');
+  assert(isRetryableSyncError(httpError(503)), '5xx retries');
+  assert(isRetryableSyncError(httpError(429)), '429 retries');
+  assert(!isRetryableSyncError(httpError(404)), '404 does not retry');
+
+  let item = buildQueue()[1];
+  item = markOutboxItemFailed(item, httpError(500), NOW);
+  assertEqual([item.status, item.attempts, item.nextAttemptAt, item.lastError], ['pending', 1, NOW + 2000, 'HTTP 500'], 'records attempt, backoff and error');
+  assertEqual(item.idempotencyKey, 'k-p1', 'keeps its idempotency key across attempts');
+  for (let i = 1; i < OUTBOX_MAX_ATTEMPTS; i++) item = markOutboxItemFailed(item, httpError(500), NOW);
+  assertEqual([item.status, item.attempts], ['failed', OUTBOX_MAX_ATTEMPTS], 'gives up after max attempts');
+  assertEqual(resetOutboxItem(item, NOW).attempts, 0, 'manual retry resets attempts');
+  assertEqual(markOutboxItemSynced(item, { photoId: 5 }, NOW).lastError, undefined, 'success clears the error');
+}
+
+function testQueueHousekeeping() {
+  console.log('\n--- housekeeping ---');
+  const items = buildQueue();
+  assertEqual(nextOutboxSeq(items), 5, 'next seq follows the max');
+  assertEqual(nextOutboxSeq([]), 1, 'empty queue starts at 1');
+  assertEqual(findSupersededItems(items, 'update_notes', LOCAL), ['n1'], 'newer notes replace queued notes');
+  assertEqual(findSupersededItems(items, 'upload_photo', LOCAL), [], 'photos are never superseded');
+
+  const interrupted = replace(items, markOutboxItemSyncing(items[0], NOW));
+  assertEqual(recoverInterruptedItems(interrupted, NOW + 1).map((i) => [i.id, i.status]), [['job', 'pending']], 'syncing items recover to pending');
+
+  const later = NOW + OUTBOX_SYNCED_RETENTION_MS + 1;
+  const allSynced = items.map((item) => markOutboxItemSynced(item, { jobId: 77 }, NOW));
+  assertEqual(findPrunableItems(allSynced, later).length, 4, 'old synced items are pruned');
+  const stillActive = replace(allSynced, items[2]);
+  assertEqual(findPrunableItems(stillActive, later), ['other'], 'keeps synced items whose job still has work');
+  assertEqual(findPrunableItems(allSynced, NOW + 1), [], 'recent synced items stay');
+
+  assertEqual(summarizeOutbox(stillActive), { pending: 1, syncing: 0, synced: 3, failed: 0 }, 'summary counts statuses');
+  assertEqual(getNextOutboxAttemptAt(stillActive), NOW, 'next attempt is the earliest pending');
+  assertEqual(getNextOutboxAttemptAt(allSynced), null, 'nothing scheduled when all synced');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Mobile Outbox Unit Tests');
+  console.log('='.repeat(50));
+
+  testJobRefs();
+  testReplayOrder();
+  testRetryState();
+  testQueueHousekeeping();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,277 @@
+/**
+ * Mobile Outbox Module
+ *
+ * Queue rules for the /m offline outbox: ordering, retry/backoff, local job
+ * references and pruning. Storage (IndexedDB) and the network calls live in
+ * app/m/lib/outbox.ts; everything here is pure so it can be unit tested.
+ *
+ * Ordering: items replay in enqueue order per job. A job's later items wait
+ * until every earlier item for the same job has synced, so photos never
+ * upload before the job they belong to exists. Items for different jobs do
+ * not block each other.
+ */
+
+export const OUTBOX_MAX_ATTEMPTS = 8;
+export const OUTBOX_BASE_RETRY_MS = 2_000;
+export const OUTBOX_MAX_RETRY_MS = 5 * 60_000;
+// Synced items stay visible (and keep local job refs resolvable) for a day
+export const OUTBOX_SYNCED_RETENTION_MS = 24 * 60 * 60_000;
+
+const LOCAL_JOB_PREFIX = "local-";
+
+export type OutboxItemKind = "create_job" | "upload_photo" | "update_notes" | "save_measurements";
+export type OutboxItemStatus = "pending" | "syncing" | "synced" | "failed";
+
+export interface CreateJobPayload {
+  jobType: string | number;
+  customer?: string;
+  address?: string;
+  lat?: string | number | null;
+  lng?: string | number | null;
+  placeId?: string | null;
+  notes?: string;
+}
+
+export interface UploadPhotoPayload {
+  file: Blob;
+  filename: string;
+}
+
+export interface UpdateNotesPayload {
+  jobNotes: string;
+}
+
+export interface SaveMeasurementsPayload {
+  measurements: unknown;
+}
+
+export interface OutboxPayloads {
+  create_job: CreateJobPayload;
+  upload_photo: UploadPhotoPayload;
+  update_notes: UpdateNotesPayload;
+  save_measurements: SaveMeasurementsPayload;
+}
+
+/**
+ * What the server returned for a synced item
+ */
+export interface OutboxItemResult {
+  jobId?: number;
+  photoId?: number;
+  publicUrl?: string;
+}
+
+interface OutboxItemBase {
+  id: string;
+  /** Enqueue order; replay follows it */
+  seq: number;
+  /** Server job id as a string, or a local ref ("local-…") for a queued create_job */
+  jobRef: string;
+  /** Sent as the Idempotency-Key header on every attempt */
+  idempotencyKey: string;
+  status: OutboxItemStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  result?: OutboxItemResult;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type OutboxItem = {
+  [K in OutboxItemKind]: OutboxItemBase & { kind: K; payload: OutboxPayloads[K] };
+}[OutboxItemKind];
+
+export interface OutboxSummary {
+  pending: number;
+  syncing: number;
+  synced: number;
+  failed: number;
+}
+
+// ============ JOB REFERENCES ============
+
+export function newLocalJobRef(): string {
+  return `${LOCAL_JOB_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function isLocalJobRef(jobRef: string): boolean {
+  return jobRef.startsWith(LOCAL_JOB_PREFIX);
+}
+
+/**
+ * Server job id for a job ref: numeric refs are already server ids; local refs
+ * resolve once their create_job item has synced.
+ */
+export function resolveOutboxJobId(items: OutboxItem[], jobRef: string): number | null {
+  if (!isLocalJobRef(jobRef)) {
+    const id = Number(jobRef);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  }
+  const created = items.find(
+    (item) => item.kind === "create_job" && item.jobRef === jobRef && item.status === "synced"
+  );
+  return created?.result?.jobId ?? null;
+}
+
+// ============ CREATING ITEMS ============
+
+export function createOutboxItem<K extends OutboxItemKind>(params: {
+  id: string;
+  kind: K;
+  jobRef: string;
+  idempotencyKey: string;
+  payload: OutboxPayloads[K];
+  seq: number;
+  now: number;
+}): OutboxItem {
+  return {
+    id: params.id,
+    kind: params.kind,
+    jobRef: params.jobRef,
+    idempotencyKey: params.idempotencyKey,
+    payload: params.payload,
+    seq: params.seq,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: params.now,
+    createdAt: params.now,
+    updatedAt: params.now,
+  } as OutboxItem;
+}
+
+export function nextOutboxSeq(items: OutboxItem[]): number {
+  return items.reduce((max, item) => Math.max(max, item.seq), 0) + 1;
+}
+
+/**
+ * Notes and measurements are last-write-wins: a newer save replaces any older
+ * one for the same job that hasn't started syncing.
+ */
+export function findSupersededItems(items: OutboxItem[], kind: OutboxItemKind, jobRef: string): string[] {
+  if (kind !== "update_notes" && kind !== "save_measurements") return [];
+  return items
+    .filter((item) => item.kind === kind && item.jobRef === jobRef && (item.status === "pending" || item.status === "failed"))
+    .map((item) => item.id);
+}
+
+// ============ REPLAY ORDER ============
+
+/**
+ * The next item to send, or null when nothing is due. An item is blocked while
+ * an earlier item for the same job is unsynced (including permanently failed).
+ */
+export function selectNextOutboxItem(items: OutboxItem[], now: number): OutboxItem | null {
+  const blockedJobs = new Set<string>();
+  for (const item of [...items].sort((a, b) => a.seq - b.seq)) {
+    if (item.status === "synced") continue;
+    if (blockedJobs.has(item.jobRef)) continue;
+    blockedJobs.add(item.jobRef);
+
+    if (item.status === "syncing" || item.status === "failed") continue;
+    if (item.nextAttemptAt > now) continue;
+    if (item.kind !== "create_job" && resolveOutboxJobId(items, item.jobRef) === null) continue;
+    return item;
+  }
+  return null;
+}
+
+/**
+ * Earliest time a pending item becomes due (for scheduling the next flush)
+ */
+export function getNextOutboxAttemptAt(items: OutboxItem[]): number | null {
+  const due = items.filter((item) => item.status === "pending").map((item) => item.nextAttemptAt);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+// ============ RETRY STATE ============
+
+export function getOutboxRetryDelayMs(attempts: number): number {
+  return Math.min(OUTBOX_BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_MAX_RETRY_MS);
+}
+
+/**
+ * Network errors, timeouts, rate limits and 5xx are worth retrying; any
+ * other HTTP error (validation, not found, auth) will fail the same way again.
+ */
+export function isRetryableSyncError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status !== "number") return true;
+  return status >= 500 || status === 408 || status === 429;
+}
+
+export function markOutboxItemSyncing(item: OutboxItem, now: number): OutboxItem {
+  return { ...item, status: "syncing", updatedAt: now };
+}
+
+export function markOutboxItemSynced(item: OutboxItem, result: OutboxItemResult, now: number): OutboxItem {
+  return { ...item, status: "synced", result, lastError: undefined, updatedAt: now };
+}
+
+export function markOutboxItemFailed(item: OutboxItem, error: unknown, now: number): OutboxItem {
+  const attempts = item.attempts + 1;
+  const message = error instanceof Error ? error.message : String(error);
+  const giveUp = !isRetryableSyncError(error) || attempts >= OUTBOX_MAX_ATTEMPTS;
+  return {
+    ...item,
+    status: giveUp ? "failed" : "pending",
+    attempts,
+    nextAttemptAt: giveUp ? item.nextAttemptAt : now + getOutboxRetryDelayMs(attempts),
+    lastError: message,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Manual retry from the UI: start over with a fresh attempt budget
+ */
+export function resetOutboxItem(item: OutboxItem, now: number): OutboxItem {
+  return { ...item, status: "pending", attempts: 0, nextAttemptAt: now, updatedAt: now };
+}
+
+/**
+ * Items left "syncing" when the page closed mid-request go back to pending.
+ * Their idempotency key makes the resend safe.
+ */
+export function recoverInterruptedItems(items: OutboxItem[], now: number): OutboxItem[] {
+  return items
+    .filter((item) => item.status === "syncing")
+    .map((item) => ({ ...item, status: "pending" as const, nextAttemptAt: now, updatedAt: now }));
+}
+
+// ============ HOUSEKEEPING ============
+
+/**
+ * Synced items past retention, except ones whose job still has unsynced work
+ * (their create_job is what resolves the local job ref).
+ */
+export function findPrunableItems(items: OutboxItem[], now: number): string[] {
+  const activeJobs = new Set(items.filter((item) => item.status !== "synced").map((item) => item.jobRef));
+  return items
+    .filter(
+      (item) =>
+        item.status === "synced" &&
+        now - item.updatedAt > OUTBOX_SYNCED_RETENTION_MS &&
+        !activeJobs.has(item.jobRef)
+    )
+    .map((item) => item.id);
+}
+
+export function summarizeOutbox(items: OutboxItem[]): OutboxSummary {
+  const summary: OutboxSummary = { pending: 0, syncing: 0, synced: 0, failed: 0 };
+  for (const item of items) summary[item.status]++;
+  return summary;
+}
+
+/**
+ * Items that belong to a job, whether it's addressed by local ref or server id
+ */
+export function getOutboxItemsForJob(items: OutboxItem[], jobRef: string): OutboxItem[] {
+  const jobId = resolveOutboxJobId(items, jobRef);
+  const localRef = isLocalJobRef(jobRef)
+    ? jobRef
+    : items.find((item) => item.kind === "create_job" && item.result?.jobId === jobId)?.jobRef;
+  return items
+    .filter((item) => item.jobRef === jobRef || item.jobRef === localRef || (jobId !== null && item.jobRef === String(jobId)))
+    .sort((a, b) => a.seq - b.seq);
+}
@@ -0,0 +1,14 @@
+/**
+ * PDF Theme Module
+ *
+ * Server-side only module for proposal PDF branding.
+ * Client code should import pure helpers from './theme' directly.
+ */
+
+export * from './theme';
+export {
+  getEffectivePdfTheme,
+  getUserPdfTheme,
+  updateCompanyPdfTheme,
+  updateUserPdfTheme,
+} from './storage';
@@ -0,0 +1,63 @@
+/**
+ * PDF Theme Storage Service
+ *
+ * Per-user and per-company proposal PDF themes.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import { companies, companyMembers, users, type PdfTheme } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { pickPdfTheme, type PdfThemeSource } from "./theme";
+
+// Null when the user keeps the defaults, undefined when the user doesn't exist
+export async function getUserPdfTheme(userId: string): Promise<PdfTheme | null | undefined> {
+  const [row] = await db
+    .select({ pdfTheme: users.pdfTheme })
+    .from(users)
+    .where(eq(users.id, userId));
+  return row ? row.pdfTheme : undefined;
+}
+
+// Pass null to go back to the defaults
+export async function updateUserPdfTheme(
+  userId: string,
+  pdfTheme: PdfTheme | null
+): Promise<PdfTheme | null | undefined> {
+  const [row] = await db
+    .update(users)
+    .set({ pdfTheme, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning({ pdfTheme: users.pdfTheme });
+  return row ? row.pdfTheme : undefined;
+}
+
+// Pass null to let members use their own themes again
+export async function updateCompanyPdfTheme(
+  companyId: number,
+  pdfTheme: PdfTheme | null
+): Promise<PdfTheme | null | undefined> {
+  const [row] = await db
+    .update(companies)
+    .set({ pdfTheme, updatedAt: new Date() })
+    .where(eq(companies.id, companyId))
+    .returning({ pdfTheme: companies.pdfTheme });
+  return row ? row.pdfTheme : undefined;
+}
+
+/**
+ * The theme a user's proposals render with: their Crew company's theme when
+ * set, otherwise their own.
+ */
+export async function getEffectivePdfTheme(
+  userId: string
+): Promise<{ theme: PdfTheme | null; source: PdfThemeSource }> {
+  const [row] = await db
+    .select({ userTheme: users.pdfTheme, companyTheme: companies.pdfTheme })
+    .from(users)
+    .leftJoin(companyMembers, eq(companyMembers.userId, users.id))
+    .leftJoin(companies, eq(companies.id, companyMembers.companyId))
+    .where(eq(users.id, userId))
+    .limit(1);
+  return pickPdfTheme({ company: row?.companyTheme, user: row?.userTheme });
+}
@@ -0,0 +1,153 @@
+/**
+ * PDF Theme Module Unit Tests
+ *
+ * Tests for theme resolution, company/user precedence, validation and
+ * deterministic themed proposal PDFs.
+ * Run with: npx tsx lib/pdf-theme/theme.test.ts
+ */
+
+import sharp from 'sharp';
+import { pdfThemeSchema } from '@shared/schema';
+import { DEFAULT_PDF_THEME, pickPdfTheme, resolvePdfTheme } from './theme';
+import { buildProposalPdf } from '../services/proposalPdf';
+import type { PdfPhoto } from '../services/proposalPdfPhotos';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// ============ TEST DATA ============
+
+const proposal = {
+  id: 42,
+  clientName: 'Ana Torres',
+  address: '12 Elm St, Austin TX',
+  jobTypeName: 'Tub to Shower Conversion',
+  scope: ['Remove existing tub', 'Install shower pan'],
+  priceLow: 9000,
+  priceHigh: 11000,
+  status: 'sent',
+  createdAt: new Date('2026-01-05T00:00:00Z'),
+};
+
+const companyInfo = { companyName: 'Acme Builders', companyAddress: '1 Main St', companyPhone: '555-0100' };
+
+async function photo(id: string, category: PdfPhoto['category'], order = 0): Promise<PdfPhoto> {
+  const { data, info } = await sharp({ create: { width: 80, height: 60, channels: 3, background: '#4a90d9' } })
+    .jpeg()
+    .toBuffer({ resolveWithObject: true });
+  return { id, url: `/uploads/${id}.jpg`, category, order, data: new Uint8Array(data), width: info.width, height: info.height };
+}
+
+function pageCount(pdfBytes: ArrayBuffer): number {
+  return (Buffer.from(pdfBytes).toString('latin1').match(/\/Type \/Page\n/g) ?? []).length;
+}
+
+// ============ TESTS ============
+
+function testResolvePdfTheme() {
+  console.log('\n--- resolvePdfTheme ---');
+  assertEqual(resolvePdfTheme(null), DEFAULT_PDF_THEME, 'no theme resolves to the defaults');
+  assertEqual(
+    resolvePdfTheme({ primaryColor: '#0F5132', pageSize: 'a4' }),
+    { ...DEFAULT_PDF_THEME, primaryColor: '#0f5132', pageSize: 'a4' },
+    'partial themes keep the other defaults and lowercase colors'
+  );
+  assertEqual(
+    resolvePdfTheme({ accentColor: 'orange', font: 'comic-sans' as never, coverPage: 'yes' as never }),
+    DEFAULT_PDF_THEME,
+    'invalid stored values fall back to the defaults'
+  );
+}
+
+function testPickPdfTheme() {
+  console.log('\n--- pickPdfTheme ---');
+  const company = { primaryColor: '#111111' };
+  const user = { primaryColor: '#222222' };
+  assertEqual(pickPdfTheme({ company, user }), { theme: company, source: 'company' }, 'a company theme wins');
+  assertEqual(pickPdfTheme({ company: null, user }), { theme: user, source: 'user' }, 'falls back to the user theme');
+  assertEqual(pickPdfTheme({}), { theme: null, source: 'default' }, 'no themes means the defaults');
+}
+
+function testPdfThemeSchema() {
+  console.log('\n--- pdfThemeSchema ---');
+  assert(pdfThemeSchema.safeParse({ primaryColor: '#1e3a5f', logoPlacement: 'left', coverPage: true }).success, 'accepts a valid partial theme');
+  assert(!pdfThemeSchema.safeParse({ primaryColor: 'navy' }).success, 'rejects non-hex colors');
+  assert(!pdfThemeSchema.safeParse({ pageSize: 'legal' }).success, 'rejects unknown page sizes');
+  assert(!pdfThemeSchema.safeParse({ watermark: true }).success, 'rejects unknown fields');
+}
+
+async function testThemedPdf() {
+  console.log('\n--- buildProposalPdf themes ---');
+  const build = (theme?: Parameters<typeof buildProposalPdf>[0]['theme'], photos?: PdfPhoto[]) =>
+    buildProposalPdf({ proposal, companyInfo, theme, photos });
+
+  const plain = build();
+  assertEqual(build().sha256, plain.sha256, 'the default theme renders identical bytes');
+  assertEqual(build(DEFAULT_PDF_THEME).sha256, plain.sha256, 'an explicit default theme matches no theme');
+  assert(Buffer.from(plain.pdfBytes).toString('latin1').includes("/CreationDate (D:20000101000000+00'00')"), 'uses the fixed creation date');
+
+  const branded = { primaryColor: '#0f5132', font: 'times', logoPlacement: 'left', pageSize: 'a4' } as const;
+  assertEqual(build(branded).sha256, build(branded).sha256, 'a theme renders identical bytes every time');
+  assert(build(branded).sha256 !== plain.sha256, 'a different theme changes the output');
+  assert(/\/MediaBox \[0 0 595\.2/.test(Buffer.from(build({ pageSize: 'a4' }).pdfBytes).toString('latin1')), 'A4 page size');
+
+  assertEqual(pageCount(plain.pdfBytes), 1, 'default layout fits on one page');
+  assertEqual(pageCount(build({ coverPage: true }).pdfBytes), 2, 'cover page adds a page');
+  assertEqual(pageCount(build({ termsPage: true }).pdfBytes), 2, 'terms page adds a page');
+
+  const photos = [await photo('1', 'hero'), await photo('2', 'existing'), await photo('3', 'other')];
+  const withPhotos = build(null, photos);
+  const text = Buffer.from(withPhotos.pdfBytes).toString('latin1');
+  assertEqual((text.match(/\/Subtype \/Image/g) ?? []).length, 3, 'embeds hero, existing conditions and appendix photos');
+  assert(text.includes('EXISTING CONDITIONS') && text.includes('PHOTO APPENDIX'), 'renders the photo sections');
+  assertEqual(build(null, photos).sha256, withPhotos.sha256, 'photos render identical bytes every time');
+}
+
+// ============ RUN ALL TESTS ============
+
+async function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('PDF Theme Module Unit Tests');
+  console.log('='.repeat(50));
+
+  testResolvePdfTheme();
+  testPickPdfTheme();
+  testPdfThemeSchema();
+  await testThemedPdf();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
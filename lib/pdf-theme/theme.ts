@@ -0,0 +1,71 @@
+/**
+ * Proposal PDF Themes
+ *
+ * Brand colors, font, logo placement, cover and terms pages and page size
+ * for buildProposalPdf. Stored themes are partial; resolvePdfTheme fills the
+ * rest from the defaults, which reproduce the original ScopeGen layout.
+ *
+ * Pure module - safe to import from client and server code.
+ */
+
+import {
+  pdfFonts,
+  pdfLogoPlacements,
+  pdfPageSizes,
+  type PdfTheme,
+} from "@shared/schema";
+
+export type ResolvedPdfTheme = Required<PdfTheme>;
+
+// Where an effective theme came from: a Crew company, the user, or neither
+export type PdfThemeSource = "company" | "user" | "default";
+
+export const DEFAULT_PDF_THEME: ResolvedPdfTheme = {
+  primaryColor: "#1e3a5f",
+  accentColor: "#f97316",
+  font: "helvetica",
+  logoPlacement: "right",
+  coverPage: false,
+  termsPage: false,
+  pageSize: "letter",
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+/**
+ * Fills unset or invalid fields from the defaults. Colors are lowercased so
+ * equivalent themes render identical bytes.
+ */
+export function resolvePdfTheme(theme?: PdfTheme | null): ResolvedPdfTheme {
+  const color = (value: unknown, fallback: string) =>
+    typeof value === "string" && HEX_COLOR.test(value) ? value.toLowerCase() : fallback;
+
+  return {
+    primaryColor: color(theme?.primaryColor, DEFAULT_PDF_THEME.primaryColor),
+    accentColor: color(theme?.accentColor, DEFAULT_PDF_THEME.accentColor),
+    font: isOneOf(pdfFonts, theme?.font) ? theme.font : DEFAULT_PDF_THEME.font,
+    logoPlacement: isOneOf(pdfLogoPlacements, theme?.logoPlacement)
+      ? theme.logoPlacement
+      : DEFAULT_PDF_THEME.logoPlacement,
+    coverPage: typeof theme?.coverPage === "boolean" ? theme.coverPage : DEFAULT_PDF_THEME.coverPage,
+    termsPage: typeof theme?.termsPage === "boolean" ? theme.termsPage : DEFAULT_PDF_THEME.termsPage,
+    pageSize: isOneOf(pdfPageSizes, theme?.pageSize) ? theme.pageSize : DEFAULT_PDF_THEME.pageSize,
+  };
+}
+
+/**
+ * The theme a proposal renders with: the Crew company's when it has one,
+ * otherwise the proposal owner's own theme.
+ */
+export function pickPdfTheme(themes: {
+  company?: PdfTheme | null;
+  user?: PdfTheme | null;
+}): { theme: PdfTheme | null; source: PdfThemeSource } {
+  if (themes.company) return { theme: themes.company, source: "company" };
+  if (themes.user) return { theme: themes.user, source: "user" };
+  return { theme: null, source: "default" };
+}
@@ -1,3 +1,5 @@
+import { getCatalogTrade, requireCatalogJobType } from "./catalog";
+
 export interface Template {
   id: string;
   trade: string;
@@ -45,16 +47,49 @@ export interface JobOption {
   scopeAddition?: string;
 }
 
-export const templates: Template[] = [
+/**
+ * Scope content for a job type. Name, base price range and duration come
+ * from the trade catalog (lib/catalog) so every consumer quotes the same IDs
+ * and prices.
+ */
+export type JobTypeContent = Omit<JobType, "name" | "basePriceRange" | "estimatedDays">;
+
+export interface TemplateContent {
+  id: string;
+  jobTypes: JobTypeContent[];
+}
+
+function withCatalog(content: TemplateContent[]): Template[] {
+  return content.map((trade) => {
+    const catalogTrade = getCatalogTrade(trade.id);
+    if (!catalogTrade || catalogTrade.id !== trade.id) {
+      throw new Error(`Trade ${trade.id} is not in the trade catalog`);
+    }
+    return {
+      id: trade.id,
+      trade: catalogTrade.name,
+      jobTypes: trade.jobTypes.map((jobType) => {
+        const { jobType: entry } = requireCatalogJobType(jobType.id, trade.id);
+        if (entry.id !== jobType.id) {
+          throw new Error(`Job type ${trade.id}/${jobType.id} must use its catalog ID ${entry.id}`);
+        }
+        return {
+          ...jobType,
+          name: entry.name,
+          basePriceRange: { ...entry.price },
+          estimatedDays: { ...entry.days },
+        };
+      }),
+    };
+  });
+}
+
+const templateContent: TemplateContent[] = [
   {
     id: "bathroom",
-    trade: "Bathroom Remodel",
     jobTypes: [
       {
         id: "tub-to-shower",
-        name: "Tub-to-Shower Conversion",
-        basePriceRange: { low: 8500, high: 12000 },
-        estimatedDays: { low: 5, high: 8 },
         warranty: "1-year labor warranty on all workmanship. Manufacturer warranties apply to all fixtures and materials.",
         exclusions: [
           "Repair of hidden water damage discovered after demolition",
@@ -199,9 +234,6 @@ export const templates: Template[] = [
       },
       {
         id: "shower-remodel",
-        name: "Shower Remodel",
-        basePriceRange: { low: 6500, high: 10000 },
-        estimatedDays: { low: 4, high: 7 },
         warranty: "1-year labor warranty on all workmanship. Manufacturer warranties apply to all fixtures and materials.",
         exclusions: [
           "Repair of hidden water damage discovered after demolition",
@@ -350,9 +382,6 @@ export const templates: Template[] = [
       },
       {
         id: "full-gut",
-        name: "Full Bathroom Gut & Remodel",
-        basePriceRange: { low: 18000, high: 28000 },
-        estimatedDays: { low: 10, high: 18 },
         warranty: "2-year labor warranty on all workmanship. Extended manufacturer warranties on fixtures.",
         exclusions: [
           "Structural repairs to floor joists or wall framing",
@@ -421,9 +450,6 @@ export const templates: Template[] = [
       },
       {
         id: "half-bath",
-        name: "Half Bath / Powder Room Remodel",
-        basePriceRange: { low: 6500, high: 9500 },
-        estimatedDays: { low: 4, high: 6 },
         warranty: "1-year labor warranty on all workmanship.",
         exclusions: ["Plumbing relocation", "New window installation"],
         baseScope: [
@@ -465,9 +491,6 @@ export const templates: Template[] = [
       },
       {
         id: "ada-accessibility",
-        name: "ADA/Accessibility Bathroom Remodel",
-        basePriceRange: { low: 12000, high: 22000 },
-        estimatedDays: { low: 7, high: 12 },
         warranty: "2-year labor warranty on all workmanship.",
         exclusions: ["Structural modifications beyond doorway widening", "Bedroom modifications"],
         baseScope: [
@@ -513,9 +536,6 @@ export const templates: Template[] = [
       },
       {
         id: "vanity-refresh",
-        name: "Vanity & Faucet Replacement",
-        basePriceRange: { low: 1800, high: 3500 },
-        estimatedDays: { low: 1, high: 2 },
         warranty: "1-year labor warranty.",
         exclusions: ["Plumbing relocation", "Wall repair beyond minor patching"],
         baseScope: [
@@ -554,9 +574,6 @@ export const templates: Template[] = [
       },
       {
         id: "walk-in-tub",
-        name: "Walk-In Tub Installation",
-        basePriceRange: { low: 8000, high: 15000 },
-        estimatedDays: { low: 3, high: 5 },
         warranty: "2-year labor warranty on all workmanship. Manufacturer warranty on tub and components (typically 1-3 years on door seal, lifetime on shell).",
         exclusions: [
           "Subfloor repair excluded unless discovered and approved during demo",
@@ -744,13 +761,9 @@ export const templates: Template[] = [
   },
   {
     id: "kitchen",
-    trade: "Kitchen Remodel",
     jobTypes: [
       {
         id: "full-kitchen-gut",
-        name: "Full Kitchen Remodel – Gut & Replace",
-        basePriceRange: { low: 45000, high: 85000 },
-        estimatedDays: { low: 25, high: 45 },
         warranty: "2-year labor warranty on all workmanship. Manufacturer warranties apply to all fixtures and materials.",
         exclusions: [
           "Appliance costs (allowance may be included)",
@@ -856,9 +869,6 @@ export const templates: Template[] = [
       },
       {
         id: "full-kitchen-cosmetic",
-        name: "Full Kitchen Remodel – Cosmetic Only",
-        basePriceRange: { low: 15000, high: 30000 },
-        estimatedDays: { low: 10, high: 18 },
         warranty: "1-year labor warranty on all workmanship. Manufacturer warranties apply to all fixtures and materials.",
         exclusions: [
           "Structural modifications",
@@ -955,9 +965,6 @@ export const templates: Template[] = [
       },
       {
         id: "partial-kitchen",
-        name: "Partial Kitchen Remodel",
-        basePriceRange: { low: 8000, high: 18000 },
-        estimatedDays: { low: 7, high: 14 },
         warranty: "1-year labor warranty on all workmanship.",
         exclusions: [
           "Structural modifications",
@@ -1050,9 +1057,6 @@ export const templates: Template[] = [
       },
       {
         id: "cabinet-reface",
-        name: "Cabinet Reface Only",
-        basePriceRange: { low: 6000, high: 12000 },
-        estimatedDays: { low: 4, high: 7 },
         warranty: "1-year labor warranty. Manufacturer warranty on materials.",
         exclusions: [
           "Countertop replacement",
@@ -1103,9 +1107,6 @@ export const templates: Template[] = [
       },
       {
         id: "cabinet-paint",
-        name: "Cabinet Paint Only",
-        basePriceRange: { low: 3500, high: 7000 },
-        estimatedDays: { low: 3, high: 5 },
         warranty: "1-year warranty on paint finish.",
         exclusions: [
           "Countertop replacement",
@@ -1160,9 +1161,6 @@ export const templates: Template[] = [
       },
       {
         id: "countertop-replace",
-        name: "Countertop Replacement Only",
-        basePriceRange: { low: 3000, high: 8000 },
-        estimatedDays: { low: 2, high: 3 },
         warranty: "1-year labor warranty. Manufacturer warranty on materials.",
         exclusions: [
           "Cabinet modifications",
@@ -1231,9 +1229,6 @@ export const templates: Template[] = [
       },
       {
         id: "backsplash-install",
-        name: "Backsplash Install Only",
-        basePriceRange: { low: 1200, high: 3000 },
-        estimatedDays: { low: 1, high: 2 },
         warranty: "1-year labor warranty.",
         exclusions: [
           "Countertop replacement",
@@ -1289,9 +1284,6 @@ export const templates: Template[] = [
       },
       {
         id: "flooring-replace",
-        name: "Flooring Replacement Only",
-        basePriceRange: { low: 2500, high: 6000 },
-        estimatedDays: { low: 2, high: 4 },
         warranty: "1-year labor warranty. Manufacturer warranty on materials.",
         exclusions: [
           "Subfloor repair beyond minor patching",
@@ -1343,9 +1335,6 @@ export const templates: Template[] = [
       },
       {
         id: "appliance-install",
-        name: "Appliance Install Only",
-        basePriceRange: { low: 250, high: 750 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "30-day warranty on installation (appliance warranty separate).",
         exclusions: [
           "Appliance purchase",
@@ -1403,9 +1392,6 @@ export const templates: Template[] = [
       },
       {
         id: "island-addition",
-        name: "Island Addition / Modification",
-        basePriceRange: { low: 5000, high: 15000 },
-        estimatedDays: { low: 3, high: 7 },
         warranty: "1-year labor warranty on all workmanship.",
         exclusions: [
           "Structural floor modifications",
@@ -1479,9 +1465,6 @@ export const templates: Template[] = [
       },
       {
         id: "pantry-buildout",
-        name: "Pantry Build-Out / Modification",
-        basePriceRange: { low: 3000, high: 8000 },
-        estimatedDays: { low: 2, high: 5 },
         warranty: "1-year labor warranty on all workmanship.",
         exclusions: [
           "Structural wall modifications",
@@ -1545,13 +1528,9 @@ export const templates: Template[] = [
   },
   {
     id: "painting",
-    trade: "Painting",
     jobTypes: [
       {
         id: "interior-room",
-        name: "Single Room Painting",
-        basePriceRange: { low: 450, high: 850 },
-        estimatedDays: { low: 1, high: 2 },
         warranty: "1-year warranty against peeling, flaking, or blistering.",
         exclusions: ["Repair of water damage", "Wallpaper removal", "Lead paint abatement"],
         baseScope: [
@@ -1610,9 +1589,6 @@ export const templates: Template[] = [
       },
       {
         id: "whole-house-interior",
-        name: "Whole House Interior Painting",
-        basePriceRange: { low: 3500, high: 7500 },
-        estimatedDays: { low: 4, high: 8 },
         warranty: "2-year warranty against peeling, flaking, or blistering.",
         exclusions: ["Extensive drywall repair", "Popcorn ceiling removal", "Lead paint abatement"],
         baseScope: [
@@ -1657,9 +1633,6 @@ export const templates: Template[] = [
       },
       {
         id: "exterior-paint",
-        name: "Exterior House Painting",
-        basePriceRange: { low: 4500, high: 9500 },
-        estimatedDays: { low: 4, high: 10 },
         warranty: "5-year warranty against peeling, flaking, or blistering.",
         exclusions: ["Carpentry repairs beyond minor patching", "Lead paint abatement", "Deck/fence staining"],
         baseScope: [
@@ -1705,13 +1678,9 @@ export const templates: Template[] = [
   },
   {
     id: "plumbing",
-    trade: "Plumbing",
     jobTypes: [
       {
         id: "valve-repair",
-        name: "Valve Repair & Replacement",
-        basePriceRange: { low: 350, high: 650 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "1-year warranty on parts and labor.",
         exclusions: ["Wall/ceiling repair after access", "Whole-house repiping"],
         baseScope: [
@@ -1744,9 +1713,6 @@ export const templates: Template[] = [
       },
       {
         id: "water-heater",
-        name: "Water Heater Replacement (Tank)",
-        basePriceRange: { low: 1400, high: 2200 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "Tank warranty per manufacturer (6-12 years). 1-year labor warranty.",
         exclusions: ["Gas line modifications", "Electrical panel upgrades", "Permit fees"],
         baseScope: [
@@ -1790,9 +1756,6 @@ export const templates: Template[] = [
       },
       {
         id: "tankless-install",
-        name: "Tankless Water Heater Installation",
-        basePriceRange: { low: 3500, high: 5500 },
-        estimatedDays: { low: 1, high: 2 },
         warranty: "Unit warranty per manufacturer (10-15 years). 2-year labor warranty.",
         exclusions: ["Gas line upgrade if undersized", "Electrical panel upgrade"],
         baseScope: [
@@ -1828,9 +1791,6 @@ export const templates: Template[] = [
       },
       {
         id: "repipe-whole-house",
-        name: "Whole House Repipe (PEX)",
-        basePriceRange: { low: 5500, high: 9500 },
-        estimatedDays: { low: 2, high: 4 },
         warranty: "25-year warranty on PEX piping. 2-year labor warranty.",
         exclusions: ["Drywall/ceiling repair (patching only)", "Fixture replacement", "Permits"],
         baseScope: [
@@ -1866,9 +1826,6 @@ export const templates: Template[] = [
       },
       {
         id: "drain-cleaning",
-        name: "Drain Cleaning & Clog Removal",
-        basePriceRange: { low: 150, high: 450 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "30-day warranty on cleared drain.",
         exclusions: ["Pipe repair or replacement", "Septic system issues", "Main sewer line replacement"],
         baseScope: [
@@ -1900,9 +1857,6 @@ export const templates: Template[] = [
       },
       {
         id: "fixture-install",
-        name: "Plumbing Fixture Installation",
-        basePriceRange: { low: 250, high: 550 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "1-year labor warranty. Fixture warranty per manufacturer.",
         exclusions: ["Fixture cost (unless specified)", "Plumbing rough-in changes", "Wall repair"],
         baseScope: [
@@ -1936,9 +1890,6 @@ export const templates: Template[] = [
       },
       {
         id: "sump-pump",
-        name: "Sump Pump Installation/Replacement",
-        basePriceRange: { low: 650, high: 1400 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "Pump warranty per manufacturer. 1-year labor warranty.",
         exclusions: ["French drain installation", "Foundation waterproofing", "Pit excavation"],
         baseScope: [
@@ -1971,9 +1922,6 @@ export const templates: Template[] = [
       },
       {
         id: "toilet-install",
-        name: "Toilet Installation/Replacement",
-        basePriceRange: { low: 350, high: 650 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "1-year labor warranty. Toilet warranty per manufacturer.",
         exclusions: ["Toilet fixture cost (unless included)", "Flange repair if heavily corroded", "Subfloor repair"],
         baseScope: [
@@ -2027,9 +1975,6 @@ export const templates: Template[] = [
       },
       {
         id: "tub-shower-conversion",
-        name: "Tub to Shower Conversion",
-        basePriceRange: { low: 4500, high: 8500 },
-        estimatedDays: { low: 3, high: 6 },
         warranty: "2-year labor warranty on all plumbing work. Manufacturer warranty on fixtures.",
         exclusions: ["Tile work beyond immediate shower area", "Bathroom vanity work", "Electrical upgrades", "Permits"],
         baseScope: [
@@ -2096,9 +2041,6 @@ export const templates: Template[] = [
       },
       {
         id: "shower-tub-valve",
-        name: "Shower/Tub Valve Replacement",
-        basePriceRange: { low: 450, high: 850 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "1-year labor warranty. Valve warranty per manufacturer.",
         exclusions: ["Tile repair beyond access area", "Full shower renovation", "Moving valve location"],
         baseScope: [
@@ -2143,13 +2085,9 @@ export const templates: Template[] = [
   },
   {
     id: "electrical",
-    trade: "Electrical",
     jobTypes: [
       {
         id: "panel-upgrade",
-        name: "Panel Upgrade & Service",
-        basePriceRange: { low: 2500, high: 5500 },
-        estimatedDays: { low: 1, high: 2 },
         warranty: "Lifetime warranty on panel. 1-year labor warranty.",
         exclusions: ["Utility company fees for service change", "Permit fees", "Tree trimming for service clearance"],
         baseScope: [
@@ -2202,9 +2140,6 @@ export const templates: Template[] = [
       },
       {
         id: "rewiring",
-        name: "Whole-House or Partial Rewire",
-        basePriceRange: { low: 8000, high: 25000 },
-        estimatedDays: { low: 5, high: 14 },
         warranty: "2-year labor warranty on all wiring. Materials per manufacturer warranty.",
         exclusions: ["Drywall repair and painting", "Permit fees", "Insulation replacement"],
         baseScope: [
@@ -2257,9 +2192,6 @@ export const templates: Template[] = [
       },
       {
         id: "kitchen-bath-wiring",
-        name: "Kitchen & Bath Remodel Wiring",
-        basePriceRange: { low: 1800, high: 4500 },
-        estimatedDays: { low: 1, high: 3 },
         warranty: "1-year labor warranty on all electrical work.",
         exclusions: ["Permit fees", "Fixture costs (unless specified)", "Drywall repair"],
         baseScope: [
@@ -2314,9 +2246,6 @@ export const templates: Template[] = [
       },
       {
         id: "addition-garage-shed",
-        name: "Addition, Garage & Shed Wiring",
-        basePriceRange: { low: 2500, high: 6500 },
-        estimatedDays: { low: 2, high: 4 },
         warranty: "1-year labor warranty. Materials per manufacturer warranty.",
         exclusions: ["Trenching for underground runs", "Permit fees", "Concrete cutting/patching"],
         baseScope: [
@@ -2367,9 +2296,6 @@ export const templates: Template[] = [
       },
       {
         id: "ev-charger",
-        name: "EV Charger Installation",
-        basePriceRange: { low: 1200, high: 2800 },
-        estimatedDays: { low: 1, high: 2 },
         warranty: "Charger warranty per manufacturer. 1-year labor warranty.",
         exclusions: ["Charger unit cost (unless specified)", "Trenching for detached garage", "Permit fees"],
         baseScope: [
@@ -2424,9 +2350,6 @@ export const templates: Template[] = [
       },
       {
         id: "outdoor-electrical",
-        name: "Outdoor & Yard Electrical",
-        basePriceRange: { low: 1200, high: 3500 },
-        estimatedDays: { low: 1, high: 3 },
         warranty: "1-year labor warranty. Fixture warranties per manufacturer.",
         exclusions: ["Trenching (unless specified)", "Landscaping repair", "Permit fees"],
         baseScope: [
@@ -2480,9 +2403,6 @@ export const templates: Template[] = [
       },
       {
         id: "generator",
-        name: "Generator Installation",
-        basePriceRange: { low: 850, high: 12000 },
-        estimatedDays: { low: 1, high: 3 },
         warranty: "Generator warranty per manufacturer. 1-year labor warranty on installation.",
         exclusions: ["Generator unit cost (unless specified)", "Gas line installation", "Permit fees", "Concrete pad"],
         baseScope: [
@@ -2538,9 +2458,6 @@ export const templates: Template[] = [
       },
       {
         id: "recessed-lighting",
-        name: "Recessed Lighting Installation",
-        basePriceRange: { low: 800, high: 1600 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "1-year labor warranty. LED warranty per manufacturer.",
         exclusions: ["Attic insulation replacement", "Major ceiling repair"],
         baseScope: [
@@ -3526,13 +3443,9 @@ export const templates: Template[] = [
   === END COMMENTED OUT NON-CORE TRADES === */
   {
     id: "hvac",
-    trade: "HVAC",
     jobTypes: [
       {
         id: "full-system-split",
-        name: "Full System Replacement – Split (AC + Furnace)",
-        basePriceRange: { low: 9500, high: 18000 },
-        estimatedDays: { low: 1, high: 2 },
         warranty: "10-year parts warranty with registration. 2-year labor warranty.",
         exclusions: ["Ductwork replacement", "Zoning systems", "Electrical panel upgrades", "Permits (if required by jurisdiction)"],
         // Legacy flat array (kept for backward compatibility)
@@ -3702,9 +3615,6 @@ export const templates: Template[] = [
       },
       {
         id: "ac-only",
-        name: "AC Only Replacement",
-        basePriceRange: { low: 4500, high: 9000 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "Manufacturer warranty (5-10 years parts). 2-year labor warranty.",
         exclusions: ["Furnace replacement", "Ductwork modifications", "Indoor coil replacement (unless included)", "Electrical panel upgrade"],
         baseScope: [
@@ -3782,9 +3692,6 @@ export const templates: Template[] = [
       },
       {
         id: "furnace-only",
-        name: "Furnace Only Replacement",
-        basePriceRange: { low: 3500, high: 7500 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "Manufacturer warranty (limited lifetime heat exchanger, 10-year parts). 2-year labor warranty.",
         exclusions: ["A/C replacement", "Ductwork modifications", "Gas line installation", "Permits (if required)"],
         baseScope: [
@@ -3853,9 +3760,6 @@ export const templates: Template[] = [
       },
       {
         id: "heat-pump-system",
-        name: "Heat Pump System Replacement",
-        basePriceRange: { low: 8500, high: 16000 },
-        estimatedDays: { low: 1, high: 2 },
         warranty: "10-year parts warranty with registration. 2-year labor warranty.",
         exclusions: ["Ductwork replacement", "Electrical panel upgrade", "Backup heating installation", "Permits (if required)"],
         baseScope: [
@@ -3935,9 +3839,6 @@ export const templates: Template[] = [
       },
       {
         id: "mini-split-single",
-        name: "Mini-Split Install – Single Zone",
-        basePriceRange: { low: 3500, high: 6500 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "7-year compressor warranty. 5-year parts warranty. 2-year labor warranty.",
         exclusions: ["Electrical panel upgrade", "Major structural modifications", "Permits (if required)"],
         baseScope: [
@@ -4015,9 +3916,6 @@ export const templates: Template[] = [
       },
       {
         id: "mini-split-multi",
-        name: "Mini-Split Install – Multi Zone",
-        basePriceRange: { low: 7500, high: 15000 },
-        estimatedDays: { low: 1, high: 3 },
         warranty: "7-year compressor warranty. 5-year parts warranty. 2-year labor warranty.",
         exclusions: ["Electrical panel upgrade", "Major structural modifications", "Permits (if required)"],
         baseScope: [
@@ -4099,9 +3997,6 @@ export const templates: Template[] = [
       },
       {
         id: "ductwork-repair",
-        name: "Ductwork Repair / Replacement Only",
-        basePriceRange: { low: 1500, high: 8000 },
-        estimatedDays: { low: 1, high: 3 },
         warranty: "5-year warranty on duct installation. 2-year labor warranty.",
         exclusions: ["HVAC equipment", "Thermostat replacement", "Insulation (unless specified)", "Permits (if required)"],
         baseScope: [
@@ -4172,9 +4067,6 @@ export const templates: Template[] = [
       },
       {
         id: "iaq-upgrades",
-        name: "Indoor Air Quality / Add-On Upgrades",
-        basePriceRange: { low: 500, high: 4000 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "Manufacturer warranty on equipment. 1-year labor warranty.",
         exclusions: ["HVAC equipment replacement", "Ductwork modifications", "Electrical panel upgrade"],
         baseScope: [
@@ -4244,9 +4136,6 @@ export const templates: Template[] = [
       },
       {
         id: "maintenance-tuneup",
-        name: "Maintenance / Tune-Up",
-        basePriceRange: { low: 99, high: 299 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "30-day warranty on repairs performed. No warranty on diagnostics only.",
         exclusions: ["Parts replacement (quoted separately)", "Refrigerant (if needed)", "Major repairs"],
         baseScope: [
@@ -4317,9 +4206,6 @@ export const templates: Template[] = [
       },
       {
         id: "service-diagnostic",
-        name: "Service Call / Diagnostic Only",
-        basePriceRange: { low: 89, high: 150 },
-        estimatedDays: { low: 1, high: 1 },
         warranty: "Diagnostic fee applied toward repair if work is approved.",
         exclusions: ["Parts and materials", "Repairs (quoted separately)", "Refrigerant"],
         baseScope: [
@@ -6074,8 +5960,10 @@ export const templates: Template[] = [
   === END COMMENTED OUT NON-CORE TRADES (BLOCK 2) === */
 ];
 
+export const templates: Template[] = withCatalog(templateContent);
+
 // Spanish translations for electrical job types
-export const electricalJobTypesEs: Record<string, { name: string; baseScope: string[]; warranty?: string; exclusions?: string[]; options: Record<string, { label: string; scopeAddition?: string; choices?: { value: string; label: string; scopeAddition?: string }[] }> }> = {
+export const electricalJobTypesEs: Record<string, JobTypeTranslation> = {
   "panel-upgrade": {
     name: "Actualización de Panel y Servicio",
     warranty: "Garantía de por vida en el panel. Garantía de 1 año en mano de obra.",
@@ -6300,7 +6188,7 @@ export function getElectricalJobTypeEs(jobTypeId: string) {
 }
 
 // Spanish translations for HVAC job types
-export const hvacJobTypesEs: Record<string, { name: string; baseScope: string[]; warranty?: string; exclusions?: string[]; options: Record<string, { label: string; scopeAddition?: string; choices?: { value: string; label: string; scopeAddition?: string }[] }> }> = {
+export const hvacJobTypesEs: Record<string, JobTypeTranslation> = {
   "full-system-split": {
     name: "Reemplazo Completo de Sistema – Split (A/C + Calefactor)",
     warranty: "Garantía de 10 años en piezas con registro. Garantía de 2 años en mano de obra.",
@@ -6331,6 +6219,81 @@ export const hvacJobTypesEs: Record<string, { name: string; baseScope: string[];
       "Proporcionar orientación del sistema e instrucciones de reemplazo de filtro al propietario.",
       "Limpiar área de trabajo y remover todos los escombros."
     ],
+    scopeSections: [
+      {
+        title: "Remoción y Demolición",
+        items: [
+          "Recuperar refrigerante existente según regulaciones EPA Sección 608.",
+          "Desconectar y remover unidad condensadora exterior de A/C existente.",
+          "Desconectar y remover calefactor interior existente.",
+          "Desechar equipos viejos según regulaciones ambientales."
+        ]
+      },
+      {
+        title: "Instalación de Unidad Exterior",
+        items: [
+          "Colocar nueva unidad condensadora en base existente (o instalar nueva base si es necesario).",
+          "Instalar protector contra sobretensiones en el desconectador exterior (si se selecciona)."
+        ]
+      },
+      {
+        title: "Instalación de Unidad Interior",
+        items: [
+          "Instalar nuevo calefactor en ubicación existente.",
+          "Instalar nuevo serpentín evaporador compatible con tonelaje del condensador.",
+          "Instalar nueva bandeja de drenaje y línea de condensado con trampa."
+        ]
+      },
+      {
+        title: "Sistema de Refrigerante",
+        items: [
+          "Reemplazar línea de refrigerante si es requerido por distancia o condición.",
+          "Instalar nuevo filtro secador y puertos de servicio.",
+          "Soldar todas las conexiones de refrigerante con soldadura de plata.",
+          "Probar presión del sistema con nitrógeno a 500 PSI.",
+          "Evacuar sistema a 500 micrones usando bomba de vacío.",
+          "Cargar sistema con refrigerante especificado por fábrica (R-410A).",
+          "Verificar valores de subenfriamiento y sobrecalentamiento según especificaciones del fabricante."
+        ]
+      },
+      {
+        title: "Electricidad y Controles",
+        items: [
+          "Conectar línea de gas al calefactor (si es de gas) y probar fugas.",
+          "Conectar y probar termostato existente o nuevo.",
+          "Programar y calibrar configuraciones del termostato."
+        ]
+      },
+      {
+        title: "Puesta en Marcha y Pruebas",
+        items: [
+          "Verificar flujo de aire en todos los registros de suministro.",
+          "Probar modos de calefacción y enfriamiento para operación correcta.",
+          "Medir diferencial de temperatura (enfriamiento: 16-22°F, calefacción: 40-70°F de aumento)."
+        ]
+      },
+      {
+        title: "Cierre y Entrega",
+        items: [
+          "Registrar garantía con el fabricante.",
+          "Proporcionar orientación del sistema e instrucciones de reemplazo de filtro al propietario.",
+          "Limpiar área de trabajo y remover todos los escombros."
+        ]
+      }
+    ],
+    assumptions: [
+      "Los ductos existentes están en buen estado y tienen el tamaño adecuado.",
+      "El servicio eléctrico es adecuado para el nuevo equipo.",
+      "La línea de suministro de gas tiene el tamaño adecuado (si el calefactor es de gas).",
+      "Acceso libre a las ubicaciones del equipo interior y exterior.",
+      "No se requieren modificaciones estructurales para la colocación del equipo."
+    ],
+    addons: [
+      "Termostato inteligente con sensores de habitación y configuración de la aplicación",
+      "Luz germicida UV-C en la manejadora de aire",
+      "Servicio completo de limpieza de ductos",
+      "Nueva base compuesta para el condensador"
+    ],
     options: {
       "tonnage": {
         label: "Tamaño del Sistema (Tonelaje)",
@@ -6795,7 +6758,7 @@ export function getHvacJobTypeEs(jobTypeId: string) {
 }
 
 // Spanish translations for Interior Painting job types
-export const paintingJobTypesEs: Record<string, { name: string; baseScope: string[]; warranty?: string; exclusions?: string[]; options: Record<string, { label: string; scopeAddition?: string; choices?: { value: string; label: string; scopeAddition?: string }[] }> }> = {
+export const paintingJobTypesEs: Record<string, JobTypeTranslation> = {
   "interior-room": {
     name: "Pintura de Habitación Individual",
     warranty: "Garantía de 1 año contra descascarado, descamación o ampollas.",
@@ -6882,7 +6845,7 @@ export const paintingJobTypesEs: Record<string, { name: string; baseScope: strin
 };
 
 // Spanish translations for Landscaping job types
-export const landscapingJobTypesEs: Record<string, { name: string; baseScope: string[]; warranty?: string; exclusions?: string[]; options: Record<string, { label: string; scopeAddition?: string; choices?: { value: string; label: string; scopeAddition?: string }[] }> }> = {
+export const landscapingJobTypesEs: Record<string, JobTypeTranslation> = {
   "full-yard-makeover": {
     name: "Renovación Completa – Patio Delantero y Trasero",
     warranty: "Garantía de 1 año en todas las plantas (con cuidado adecuado). Garantía de 2 años en pavimento duro y mano de obra de riego.",
@@ -7781,10 +7744,1061 @@ export const landscapingJobTypesEs: Record<string, { name: string; baseScope: st
   }
 };
 
-// Type for Spanish translation structure
-type SpanishTranslation = {
+// Spanish translations for bathroom job types
+export const bathroomJobTypesEs: Record<string, JobTypeTranslation> = {
+  "tub-to-shower": {
+    name: "Conversión de Tina a Ducha",
+    warranty: "Garantía de 1 año en mano de obra en todos los trabajos. Las garantías del fabricante aplican a todos los accesorios y materiales.",
+    exclusions: [
+      "Reparación de daños ocultos por agua descubiertos después de la demolición",
+      "Mejoras eléctricas más allá de los circuitos existentes",
+      "Permisos y tarifas de inspección (si se requieren)",
+      "Puede requerirse reubicar el drenaje según las condiciones existentes (se cotiza por separado si es necesario)"
+    ],
+    baseScope: [
+      "Demoler la tina y el revestimiento existentes hasta los montantes.",
+      "Desechar todos los escombros fuera del sitio conforme a las regulaciones locales.",
+      "Inspeccionar la estructura y la plomería en busca de daños por agua; informar los hallazgos al propietario.",
+      "Instalar nueva base de ducha con la pendiente adecuada (mínimo 1/4\" por pie).",
+      "Instalar placa de cemento en todas las paredes de la ducha según las especificaciones del fabricante.",
+      "Aplicar membrana impermeable en todas las áreas húmedas cumpliendo las normas TCNA.",
+      "Instalar nueva válvula de ducha, válvula mezcladora y juego de acabados.",
+      "Colocar azulejo en las paredes de la ducha hasta el techo con mortero adhesivo (thin-set).",
+      "Rellenar todas las juntas con lechada arenada premium; sellar las juntas.",
+      "Instalar regadera, brazo y chapetón.",
+      "Sellar todas las esquinas y transiciones con silicón resistente al moho.",
+      "Limpieza final y retiro de escombros; proteger el trabajo terminado."
+    ],
+    scopeSections: [
+      { title: "Preconstrucción / Protección", items: ["Protección del sitio, incluyendo cubierta de pisos y barreras contra el polvo.", "Proteger los acabados y accesorios adyacentes contra daños."] },
+      { title: "Demolición", items: ["Demoler la tina y el revestimiento existentes hasta los montantes.", "Retirar y desechar todos los escombros fuera del sitio según las regulaciones locales."] },
+      { title: "Plomería (Instalación Preliminar / Ajustes)", items: ["Verificar/modificar la ubicación de la válvula de ducha según se requiera.", "Verificar la ubicación del drenaje de la ducha; ajustar si es necesario (condicional).", "Instalar nueva válvula de ducha, válvula mezcladora y juego de acabados."] },
+      { title: "Impermeabilización / Base de Respaldo", items: ["Instalar placa de respaldo impermeable (sistema de placa de cemento o de espuma).", "Aplicar membrana impermeable en todas las áreas húmedas cumpliendo las normas TCNA.", "Sellar todas las uniones y fijaciones según las especificaciones del fabricante."] },
+      { title: "Instalación del Acabado de Paredes", items: ["Instalar el acabado de paredes según el tipo de sistema seleccionado.", "Asegurar plomada, nivel y transiciones correctas en todas las esquinas.", "Instalar perfiles de remate y piezas esquineras según se requiera.", "Sellar todos los bordes y juntas con la masilla/sellador adecuado."] },
+      { title: "Puerta / Cerramiento de Ducha", items: ["Medir e instalar la puerta/cerramiento de ducha según la selección.", "Sellar el marco de la puerta a las paredes con silicón."] },
+      { title: "Acabado / Limpieza", items: ["Sellado final en todas las transiciones con silicón resistente al moho.", "Limpieza final, retiro de escombros y protección del trabajo terminado.", "Recorrido final y lista de pendientes con el propietario."] }
+    ],
+    assumptions: [
+      "La instalación preliminar de plomería existente es accesible y está en condiciones de uso",
+      "No hay daños ocultos por agua, moho ni madera podrida en las cavidades de las paredes",
+      "Altura de techo estándar (8 pies o menos)",
+      "El propietario seleccionará los accesorios/acabados antes de ordenar los materiales"
+    ],
+    options: {
+      "wall-system-type": {
+        label: "Tipo de Acabado de Paredes",
+        choices: [
+          { value: "tile", label: "Azulejo", scopeAddition: "Colocar azulejo en las paredes de la ducha hasta el techo con mortero adhesivo (thin-set). Rellenar todas las juntas con lechada arenada premium; sellar las juntas." },
+          { value: "acrylic", label: "Revestimiento Acrílico", scopeAddition: "Instalar paneles acrílicos de revestimiento de ducha con molduras a juego. Sellar todas las uniones con silicón." },
+          { value: "solid_surface", label: "Sistema de Paredes de Superficie Sólida", scopeAddition: "Instalar paneles de superficie sólida con adhesivo aprobado. Instalar perfiles de remate y piezas esquineras según se requiera. Sellar todos los bordes y juntas con sellador del mismo color. Asegurar plomada, nivel y transiciones correctas en todo el trabajo." }
+        ]
+      },
+      "niche": { label: "Agregar Nicho Empotrado", scopeAddition: "Enmarcar e instalar nicho empotrado (12x24) para jabón/champú con acabado a juego." },
+      "glass-door": {
+        label: "Estilo de Puerta de Vidrio",
+        choices: [
+          { value: "none", label: "Sin Puerta de Vidrio (Solo Barra para Cortina)", scopeAddition: "Instalar barra para cortina de ducha." },
+          { value: "framed", label: "Puerta Corrediza con Marco", scopeAddition: "Instalar puerta corrediza de vidrio con marco y herrajes cromados." },
+          { value: "semi-frameless", label: "Puerta Pivotante Semi sin Marco", scopeAddition: "Instalar puerta pivotante de vidrio semi sin marco con herrajes de níquel cepillado." },
+          { value: "frameless", label: "Panel Fijo sin Marco", scopeAddition: "Instalar panel fijo de vidrio sin marco con pinzas y herrajes de acero inoxidable." }
+        ]
+      },
+      "bench": { label: "Banca Integrada en la Ducha", scopeAddition: "Construir banca impermeable (aprox. 18\" x 30\") con acabado igual al de las paredes." },
+      "linear-drain": { label: "Mejora a Drenaje Lineal", scopeAddition: "Instalar sistema de drenaje lineal de acero inoxidable en lugar del drenaje central estándar." },
+      "body-sprays": { label: "Sistema de Chorros Corporales", scopeAddition: "Instalar (3) chorros corporales montados en la pared con control de válvula dedicado." },
+      "valve-upgrade": { label: "Mejorar Válvula/Acabados de Ducha", scopeAddition: "Mejorar a válvula de ducha termostática premium con juego de acabados a juego." }
+    }
+  },
+  "shower-remodel": {
+    name: "Remodelación de Ducha",
+    warranty: "Garantía de 1 año en mano de obra en todos los trabajos. Las garantías del fabricante aplican a todos los accesorios y materiales.",
+    exclusions: [
+      "Reparación de daños ocultos por agua descubiertos después de la demolición",
+      "Mejoras eléctricas más allá de los circuitos existentes",
+      "Permisos y tarifas de inspección (si se requieren)",
+      "Puede requerirse reubicar el drenaje según las condiciones existentes (se cotiza por separado si es necesario)",
+      "El tiempo de entrega del vidrio puede extender el calendario del proyecto"
+    ],
+    baseScope: [
+      "Demoler el revestimiento de ducha existente y los materiales asociados.",
+      "Desechar todos los escombros fuera del sitio conforme a las regulaciones locales.",
+      "Inspeccionar la estructura y la plomería en busca de daños por agua; informar los hallazgos al propietario.",
+      "Instalar nueva base de ducha si se requiere, con la pendiente adecuada hacia el drenaje.",
+      "Instalar placa de respaldo impermeable en todas las paredes de la ducha.",
+      "Aplicar membrana impermeable en todas las áreas húmedas.",
+      "Instalar nueva válvula de ducha y acabados si están incluidos.",
+      "Instalar el acabado de paredes según el tipo de sistema seleccionado.",
+      "Instalar regadera, brazo y chapetón.",
+      "Sellar todas las esquinas y transiciones con silicón resistente al moho.",
+      "Limpieza final y retiro de escombros; proteger el trabajo terminado."
+    ],
+    scopeSections: [
+      { title: "Preconstrucción / Protección", items: ["Protección del sitio, incluyendo cubierta de pisos y barreras contra el polvo.", "Proteger los acabados y accesorios adyacentes contra daños."] },
+      { title: "Demolición", items: ["Demoler el revestimiento de ducha existente y los materiales asociados.", "Retirar y desechar todos los escombros fuera del sitio según las regulaciones locales."] },
+      { title: "Plomería (Instalación Preliminar / Ajustes)", items: ["Verificar/modificar la ubicación de la válvula de ducha según se requiera.", "Verificar la ubicación del drenaje de la ducha; ajustar si es necesario (como asignación o condicional).", "Reemplazar/mejorar la válvula de ducha y los acabados si están incluidos."] },
+      { title: "Impermeabilización / Base de Respaldo", items: ["Instalar placa de respaldo impermeable (p. ej., sistema de placa de espuma impermeable o placa de cemento).", "Aplicar el método de impermeabilización según las especificaciones del fabricante.", "Sellar todas las uniones y fijaciones según el método del fabricante."] },
+      { title: "Instalación del Sistema de Paredes", items: ["Instalar el acabado de paredes según el tipo de sistema seleccionado.", "Asegurar plomada, nivel y transiciones correctas en todas las esquinas.", "Instalar perfiles de remate y piezas esquineras según se requiera.", "Sellar todos los bordes y juntas con la masilla/sellador adecuado."] },
+      { title: "Puerta / Cerramiento de Ducha", items: ["Medir e instalar la puerta/cerramiento de ducha según la selección.", "Sellar el marco de la puerta a las paredes con silicón."] },
+      { title: "Acabado / Limpieza", items: ["Sellado final en todas las transiciones con silicón resistente al moho.", "Limpieza final, retiro de escombros y acarreo.", "Lista básica de pendientes y recorrido con el propietario."] }
+    ],
+    assumptions: [
+      "La base de ducha existente se reemplazará o está en condiciones de uso",
+      "La instalación preliminar de plomería existente es accesible y está en condiciones de uso",
+      "No hay daños ocultos por agua, moho ni madera podrida en las cavidades de las paredes",
+      "Altura de techo estándar (8 pies o menos)",
+      "El propietario seleccionará los accesorios/acabados antes de ordenar los materiales"
+    ],
+    options: {
+      "wall-system-type": {
+        label: "Tipo de Acabado de Paredes",
+        choices: [
+          { value: "tile", label: "Azulejo", scopeAddition: "Colocar azulejo en las paredes de la ducha hasta el techo con mortero adhesivo (thin-set). Rellenar todas las juntas con lechada arenada premium; sellar las juntas." },
+          { value: "acrylic", label: "Revestimiento Acrílico", scopeAddition: "Instalar paneles acrílicos de revestimiento de ducha con molduras a juego. Sellar todas las uniones con silicón." },
+          { value: "solid_surface", label: "Sistema de Paredes de Superficie Sólida", scopeAddition: "Instalar paneles de superficie sólida con adhesivo aprobado. Instalar perfiles de remate y piezas esquineras según se requiera. Sellar todos los bordes y juntas con sellador del mismo color. Asegurar plomada, nivel y transiciones correctas en todo el trabajo." }
+        ]
+      },
+      "shower-base": {
+        label: "Base de Ducha",
+        choices: [
+          { value: "keep", label: "Conservar la Base Existente", scopeAddition: "Conservar la base de ducha existente; inspeccionar y sellar según sea necesario." },
+          { value: "acrylic", label: "Nueva Base Acrílica", scopeAddition: "Instalar nueva base de ducha acrílica con la pendiente adecuada hacia el drenaje." },
+          { value: "tile", label: "Nuevo Piso de Azulejo / Base de Mortero", scopeAddition: "Instalar nueva base de ducha sobre lecho de mortero con piso de azulejo y drenaje lineal o central." }
+        ]
+      },
+      "niche": { label: "Agregar Nicho Empotrado", scopeAddition: "Enmarcar e instalar nicho empotrado (12x24) para jabón/champú con acabado a juego." },
+      "glass-door": {
+        label: "Tipo de Puerta de Ducha",
+        choices: [
+          { value: "none", label: "Sin Puerta de Vidrio (Solo Barra para Cortina)", scopeAddition: "Instalar barra para cortina de ducha." },
+          { value: "framed", label: "Puerta Estándar con Marco", scopeAddition: "Instalar puerta de ducha de vidrio con marco y herrajes cromados." },
+          { value: "semi-frameless", label: "Puerta Semi sin Marco", scopeAddition: "Instalar puerta pivotante de vidrio semi sin marco con herrajes de níquel cepillado." },
+          { value: "frameless", label: "Puerta de Vidrio sin Marco", scopeAddition: "Instalar puerta/panel de vidrio sin marco con herrajes de acero inoxidable." }
+        ]
+      },
+      "bench": { label: "Banca Integrada en la Ducha", scopeAddition: "Construir banca impermeable (aprox. 18\" x 30\") con acabado igual al de las paredes." },
+      "valve-upgrade": { label: "Mejorar Válvula/Acabados de Ducha", scopeAddition: "Mejorar a válvula de ducha termostática premium con juego de acabados a juego." },
+      "linear-drain": { label: "Mejora a Drenaje Lineal", scopeAddition: "Instalar sistema de drenaje lineal de acero inoxidable en lugar del drenaje central estándar." }
+    }
+  },
+  "full-gut": {
+    name: "Demolición Completa y Remodelación de Baño",
+    warranty: "Garantía de 2 años en mano de obra en todos los trabajos. Garantías extendidas del fabricante en los accesorios.",
+    exclusions: [
+      "Reparaciones estructurales a las vigas del piso o a la estructura de las paredes",
+      "Remediación de moho más allá del tratamiento superficial",
+      "Reubicación de la columna principal de drenaje o de las tuberías verticales de suministro"
+    ],
+    baseScope: [
+      "Demolición completa del tocador, inodoro, tina/ducha, piso y acabados de paredes.",
+      "Retirar los accesorios existentes y desechar todos los escombros fuera del sitio.",
+      "Inspeccionar y documentar el estado de la plomería, la electricidad y la estructura.",
+      "Actualizar la instalación preliminar de plomería según lo requiera el código local.",
+      "Instalar nuevos circuitos eléctricos para tomacorrientes GFI, extractor y luminarias.",
+      "Instalar panel de yeso resistente a la humedad en las paredes; placa de cemento en las áreas húmedas.",
+      "Instalar nuevo mueble de tocador (estándar de 36-48\") con herrajes de cierre suave.",
+      "Instalar la cubierta del tocador con lavabo bajo cubierta o de sobreponer.",
+      "Instalar nuevo grifo y ensamble de desagüe automático.",
+      "Instalar nuevo inodoro con sello de anillo de cera y línea de suministro.",
+      "Instalar nueva tina o sistema de ducha según las especificaciones del plan.",
+      "Colocar el azulejo seleccionado en el piso; instalar transiciones en las puertas.",
+      "Colocar azulejo en las áreas húmedas con sistema de membrana impermeable.",
+      "Pintar paredes y techo con pintura resistente a la humedad (2 capas).",
+      "Instalar nuevas luminarias, extractor y tomacorrientes GFI.",
+      "Instalar nuevos toalleros, portapapel y accesorios.",
+      "Limpieza final, retoques y recorrido con el propietario."
+    ],
+    options: {
+      "heated-floor": { label: "Sistema de Piso Radiante", scopeAddition: "Instalar malla eléctrica de calefacción radiante de piso con termostato digital programable." },
+      "double-vanity": { label: "Mejora a Tocador Doble", scopeAddition: "Instalar tocador de doble lavabo (60-72\") con dos grifos y cubierta extendida." },
+      "freestanding-tub": { label: "Tina de Remojo Independiente", scopeAddition: "Instalar tina de remojo acrílica independiente con llenador y desagüe montados en el piso." },
+      "tile-grade": {
+        label: "Selección de Calidad de Azulejo",
+        choices: [
+          { value: "standard", label: "Cerámica Estándar", scopeAddition: "Instalar azulejo de cerámica estándar (incluido en el precio base)." },
+          { value: "porcelain", label: "Porcelanato Premium", scopeAddition: "Mejorar a azulejo de porcelanato premium de mayor durabilidad." },
+          { value: "natural-stone", label: "Piedra Natural", scopeAddition: "Instalar azulejo de piedra natural (mármol, travertino o pizarra) con sellador." }
+        ]
+      },
+      "custom-shower": { label: "Ducha de Azulejo a la Medida", scopeAddition: "Construir ducha de azulejo a la medida con bordillo, drenaje lineal y paredes de azulejo hasta el techo." }
+    }
+  },
+  "half-bath": {
+    name: "Remodelación de Medio Baño / Tocador de Visitas",
+    warranty: "Garantía de 1 año en mano de obra en todos los trabajos.",
+    exclusions: ["Reubicación de plomería", "Instalación de ventana nueva"],
+    baseScope: [
+      "Retirar el tocador, inodoro, piso y acabados de paredes existentes.",
+      "Desechar todos los escombros de demolición fuera del sitio.",
+      "Reparar/parchar el panel de yeso según sea necesario; instalar panel de yeso nuevo si se requiere.",
+      "Instalar nuevo mueble de tocador (24-30\" de ancho) con cubierta y lavabo.",
+      "Instalar nuevo grifo monomando o de tres piezas.",
+      "Instalar nuevo inodoro con todos los herrajes y accesorios.",
+      "Instalar nuevo piso de vinil de lujo en tablones o de azulejo.",
+      "Pintar paredes y techo (2 capas de látex premium).",
+      "Instalar nueva luminaria sobre el tocador.",
+      "Instalar espejo, toallero de aro y portapapel.",
+      "Sellar todos los bordes; limpieza e inspección final."
+    ],
+    options: {
+      "pedestal-sink": { label: "Lavabo de Pedestal (en lugar del tocador)", scopeAddition: "Instalar lavabo de pedestal en lugar del mueble de tocador para una estética clásica." },
+      "wallpaper-accent": { label: "Pared de Acento con Papel Tapiz", scopeAddition: "Instalar papel tapiz de diseñador en la pared de acento con la preparación y el adhesivo adecuados." },
+      "wainscoting": { label: "Lambrín", scopeAddition: "Instalar paneles de lambrín de 36\" con moldura superior y pintar a juego." }
+    }
+  },
+  "ada-accessibility": {
+    name: "Remodelación de Baño Accesible/ADA",
+    warranty: "Garantía de 2 años en mano de obra en todos los trabajos.",
+    exclusions: ["Modificaciones estructurales más allá de ampliar la puerta", "Modificaciones a recámaras"],
+    baseScope: [
+      "Retirar la tina/ducha, el tocador y el inodoro existentes.",
+      "Desechar todos los escombros de demolición fuera del sitio.",
+      "Ampliar la puerta a una abertura libre de 36\" si se requiere.",
+      "Instalar ducha sin bordillo/de acceso en silla de ruedas con la pendiente adecuada hacia el drenaje.",
+      "Instalar piso de azulejo antiderrapante en todo el baño.",
+      "Instalar banca plegable de ducha con capacidad para 500 lbs.",
+      "Instalar barras de apoyo que cumplen con ADA en la ducha, el inodoro y el tocador.",
+      "Instalar inodoro de altura confort (asiento de 17-19\" de altura).",
+      "Instalar tocador de pared o accesible con espacio libre para las rodillas.",
+      "Instalar grifos de palanca en todo el baño.",
+      "Instalar regadera de mano en barra deslizante ajustable.",
+      "Instalar válvula de balance de presión contra quemaduras.",
+      "Asegurar niveles de iluminación adecuados según las pautas de ADA.",
+      "Instalar interruptores y tomacorrientes accesibles a las alturas adecuadas.",
+      "Inspección y recorrido final."
+    ],
+    options: {
+      "grab-bar-upgrade": { label: "Paquete de Barras de Apoyo de Diseñador", scopeAddition: "Mejorar a barras de apoyo de diseñador con acabado de níquel cepillado o bronce envejecido." },
+      "heated-floor-ada": { label: "Sistema de Piso Radiante", scopeAddition: "Instalar calefacción radiante eléctrica de piso con termostato programable." },
+      "transfer-bench": { label: "Banca de Transferencia Integrada", scopeAddition: "Construir banca de transferencia de azulejo que se extiende fuera de la ducha para facilitar la entrada." }
+    }
+  },
+  "vanity-refresh": {
+    name: "Reemplazo de Tocador y Grifo",
+    warranty: "Garantía de 1 año en mano de obra.",
+    exclusions: ["Reubicación de plomería", "Reparación de paredes más allá de parchado menor"],
+    baseScope: [
+      "Cerrar el suministro de agua al tocador.",
+      "Desconectar y retirar el tocador, la cubierta y el grifo existentes.",
+      "Desechar el tocador viejo fuera del sitio.",
+      "Inspeccionar las conexiones de plomería; reemplazar las líneas de suministro.",
+      "Instalar nuevo mueble de tocador; fijarlo a los montantes de la pared.",
+      "Instalar nueva cubierta con recorte para el lavabo.",
+      "Instalar nuevo lavabo bajo cubierta o de embutir.",
+      "Instalar nuevo grifo y ensamble de desagüe.",
+      "Conectar la trampa en P y revisar que no haya fugas.",
+      "Aplicar masilla alrededor de los bordes de la cubierta.",
+      "Instalar nuevo espejo sobre el tocador.",
+      "Limpiar y probar todos los accesorios."
+    ],
+    options: {
+      "vanity-size": {
+        label: "Ancho del Tocador",
+        choices: [
+          { value: "30", label: "Sencillo de 30 pulgadas" },
+          { value: "48", label: "Sencillo de 48 pulgadas", scopeAddition: "Instalar tocador de 48 pulgadas con cubierta extendida." },
+          { value: "60", label: "Doble de 60 pulgadas", scopeAddition: "Instalar tocador doble de 60 pulgadas con dos lavabos y dos grifos." }
+        ]
+      },
+      "add-lighting": { label: "Nueva Luminaria para el Tocador", scopeAddition: "Retirar la luminaria vieja e instalar nueva luminaria de tocador sobre el espejo." }
+    }
+  },
+  "walk-in-tub": {
+    name: "Instalación de Tina con Puerta (Walk-In)",
+    warranty: "Garantía de 2 años en mano de obra en todos los trabajos. Garantía del fabricante en la tina y sus componentes (normalmente 1-3 años en el sello de la puerta y de por vida en la carcasa).",
+    exclusions: [
+      "Reparación del contrapiso excluida salvo que se descubra y apruebe durante la demolición",
+      "Mejoras eléctricas más allá del circuito dedicado (se excluyen actualizaciones del panel)",
+      "Tarifas de permisos (opción de asignación disponible)",
+      "Daños ocultos por agua o remediación de moho",
+      "Reemplazo o mejora del calentador de agua (se cotiza por separado si es necesario)"
+    ],
+    baseScope: [
+      "Proteger los pisos y áreas adyacentes con lonas y plástico.",
+      "Desconectar y retirar la tina, el revestimiento y los accesorios asociados existentes.",
+      "Desechar todos los escombros de demolición fuera del sitio según las regulaciones locales.",
+      "Inspeccionar y reparar el contrapiso según sea necesario (se incluyen reparaciones menores).",
+      "Verificar las líneas de suministro de agua y las llaves de cierre; reemplazar las líneas de suministro.",
+      "Modificar la alineación del drenaje según sea necesario para la conexión de la tina con puerta.",
+      "Instalar la tina con puerta; nivelar, asegurar y conectar la plomería.",
+      "Instalar el llenador de tina, la regadera de mano (si se selecciona) y el ensamble de desagüe.",
+      "Verificar la capacidad eléctrica; instalar circuito GFCI dedicado si se seleccionan chorros/calentador.",
+      "Instalar paneles de revestimiento de pared o preparar las paredes para azulejo (según la selección).",
+      "Probar fugas, probar el sello de la puerta y probar los chorros/calentador si están incluidos.",
+      "Limpieza final, retiro de escombros y recorrido con el propietario."
+    ],
+    scopeSections: [
+      { title: "Preconstrucción / Protección", items: ["Proteger los pisos y áreas adyacentes con lonas y plástico.", "Instalar barreras contra el polvo según sea necesario para proteger el resto de la casa."] },
+      { title: "Demolición", items: ["Desconectar y retirar la tina y el revestimiento existentes.", "Retirar los accesorios asociados (grifo, desagüe, rebosadero).", "Desechar todos los escombros de demolición fuera del sitio según las regulaciones locales."] },
+      { title: "Plomería", items: ["Verificar las líneas de suministro de agua y las llaves de cierre; reemplazar las líneas de suministro según sea necesario.", "Modificar la alineación del drenaje según se requiera para la conexión de la tina con puerta (instalación típica).", "Instalar el llenador de tina, la regadera de mano (si se selecciona) y el ensamble de desagüe.", "Conectar todas las líneas de suministro y drenaje; revisar que no haya fugas."] },
+      { title: "Capacidad Eléctrica", items: ["Verificar la capacidad eléctrica para las funciones de la tina con puerta.", "Si se seleccionan chorros/calentador: instalar circuito GFCI dedicado (puede requerir permiso).", "Conectar los componentes eléctricos de la tina según las especificaciones del fabricante."] },
+      { title: "Revisión de Capacidad de Agua Caliente", items: ["Verificar que la capacidad del calentador de agua existente sea suficiente para el volumen de llenado de la tina.", "Recomendar una mejora del calentador de agua si es insuficiente (se cotiza por separado)."] },
+      { title: "Instalación de la Tina con Puerta", items: ["Colocar y nivelar la tina con puerta en el nicho.", "Fijar la tina a los montantes de la pared y al piso según las especificaciones del fabricante.", "Conectar todos los componentes de plomería y electricidad.", "Revisar fugas y verificar la integridad del sello de la puerta.", "Probar el funcionamiento de los chorros y del calentador en línea si están incluidos."] },
+      { title: "Revestimiento / Acabado de Paredes", items: ["Instalar paneles de revestimiento de pared o preparar las paredes para azulejo (según la selección).", "Instalar perfiles de remate, piezas esquineras y accesorios.", "Sellar todos los bordes y transiciones con silicón."] },
+      { title: "Acabado / Limpieza", items: ["Parchar, pintar o retocar las paredes según sea necesario (alcance definido en el presupuesto).", "Limpieza final y desecho de escombros.", "Recorrido con el propietario; demostrar el funcionamiento y las funciones de seguridad de la tina."] }
+    ],
+    assumptions: [
+      "Las dimensiones del nicho de la tina existente admiten una tina con puerta estándar (se verifica durante la visita)",
+      "Las líneas de suministro de agua y el drenaje existentes son accesibles y están en condiciones de uso",
+      "Servicio eléctrico residencial estándar (panel de 100A o más) con espacio disponible para interruptores",
+      "La capacidad del calentador de agua existente es suficiente para el volumen de llenado de la tina (se recomiendan 40 galones o más)",
+      "La estructura del piso es sólida y puede soportar el peso de la tina llena",
+      "El propietario seleccionará el modelo y las opciones de la tina antes de ordenarla"
+    ],
+    options: {
+      "jets": { label: "Chorros de Hidroterapia", scopeAddition: "La tina con puerta incluye sistema de hidroterapia con chorros de aire/agua. Verificar la capacidad eléctrica; se requiere circuito GFCI dedicado." },
+      "heater": { label: "Calentador de Agua en Línea", scopeAddition: "La tina con puerta incluye calentador de agua en línea para mantener la temperatura del baño. Verificar la capacidad eléctrica; se requiere circuito GFCI dedicado." },
+      "electrical-circuit": {
+        label: "Circuito Eléctrico Dedicado",
+        choices: [
+          { value: "verify", label: "Verificar y Cotizar si es Necesario", scopeAddition: "Verificar la capacidad eléctrica existente. Si se requiere un circuito GFCI dedicado para los chorros/calentador, cotizar el trabajo eléctrico por separado." },
+          { value: "include", label: "Incluir Circuito GFCI Dedicado", scopeAddition: "Instalar nuevo circuito GFCI dedicado de 20A desde el panel eléctrico hasta la ubicación de la tina. Incluye interruptor, cableado y tomacorriente GFCI." },
+          { value: "exclude", label: "Excluir (el Propietario lo Gestiona)", scopeAddition: "El trabajo del circuito eléctrico queda excluido de este alcance. El propietario contratará a un electricista con licencia si se requiere un circuito dedicado." }
+        ]
+      },
+      "shower-config": {
+        label: "Configuración de Ducha",
+        choices: [
+          { value: "tub_only", label: "Solo Tina (Sin Ducha)", scopeAddition: "Tina con puerta instalada solo para baño; sin regadera ni configuración de ducha." },
+          { value: "handheld", label: "Tina + Regadera de Mano", scopeAddition: "Instalar regadera de mano en barra deslizante ajustable para ducharse y enjuagarse sentado." },
+          { value: "tub_shower_kit", label: "Tina + Kit de Conversión a Ducha", scopeAddition: "Instalar kit completo de conversión a ducha con regadera de pared, válvula desviadora y paneles de revestimiento para poder ducharse de pie." }
+        ]
+      },
+      "surround-type": {
+        label: "Tipo de Revestimiento de Paredes",
+        choices: [
+          { value: "acrylic", label: "Paneles de Revestimiento Acrílico", scopeAddition: "Instalar paneles acrílicos de revestimiento de pared con molduras a juego. Sellar todas las uniones con silicón." },
+          { value: "solid_surface", label: "Sistema de Paredes de Superficie Sólida", scopeAddition: "Instalar paneles de superficie sólida con adhesivo aprobado. Instalar perfiles de remate y piezas esquineras según se requiera. Sellar todos los bordes y juntas con sellador del mismo color." },
+          { value: "tile", label: "Paredes de Azulejo", scopeAddition: "Colocar azulejo en las paredes sobre la tina hasta el techo con mortero adhesivo (thin-set). Instalar placa de respaldo impermeable. Rellenar todas las juntas con lechada; sellar las juntas." }
+        ]
+      },
+      "fixture-finish": {
+        label: "Acabado de Accesorios",
+        choices: [
+          { value: "chrome", label: "Cromo", scopeAddition: "Todos los accesorios con acabado de cromo pulido." },
+          { value: "brushed-nickel", label: "Níquel Cepillado", scopeAddition: "Todos los accesorios con acabado de níquel cepillado." },
+          { value: "matte-black", label: "Negro Mate", scopeAddition: "Todos los accesorios con acabado negro mate." },
+          { value: "oil-rubbed-bronze", label: "Bronce Envejecido", scopeAddition: "Todos los accesorios con acabado de bronce envejecido." }
+        ]
+      },
+      "grab-bars": { label: "Barras de Apoyo de Seguridad", scopeAddition: "Instalar (2) barras de apoyo que cumplen con ADA: una dentro del área de la tina y otra en la entrada. Fijadas a los montantes o a refuerzos de la pared." },
+      "water-heater-check": { label: "Evaluación de Capacidad de Agua Caliente", scopeAddition: "Evaluar la capacidad del calentador de agua existente para los requisitos de llenado de la tina con puerta. Dar una recomendación si se necesita una mejora." },
+      "water-heater-upgrade": { label: "Asignación para Mejora del Calentador de Agua", scopeAddition: "Asignación para mejorar el calentador de agua o instalar una válvula mezcladora que asegure suficiente agua caliente para llenar la tina. El costo final se determina después de la evaluación." },
+      "permit-allowance": { label: "Asignación para Permisos", scopeAddition: "Asignación para tarifas de permisos e inspecciones si las requiere la jurisdicción local. El contratista obtendrá los permisos." }
+    }
+  }
+};
+
+// Option translations shared by several kitchen job types (choices match by value)
+const kitchenCabinetScopeEs: JobTypeTranslation["options"][string] = {
+  label: "Alcance de Gabinetes",
+  choices: [
+    { value: "new-stock", label: "Gabinetes Nuevos de Línea", scopeAddition: "Instalar nueva línea de gabinetes de inventario con acabados y herrajes estándar." },
+    { value: "new-semi-custom", label: "Gabinetes Nuevos Semi a la Medida", scopeAddition: "Instalar nuevos gabinetes semi a la medida con estilo de puerta y acabado a elegir." },
+    { value: "new-custom", label: "Gabinetes Nuevos a la Medida", scopeAddition: "Instalar gabinetes totalmente a la medida fabricados según especificaciones con acabados premium." },
+    { value: "reface", label: "Rechapar Gabinetes Existentes", scopeAddition: "Rechapar las cajas de los gabinetes existentes con puertas, frentes de cajón y chapa nuevos." },
+    { value: "paint", label: "Pintar Gabinetes Existentes", scopeAddition: "Preparar, aplicar primer y pintar las cajas, puertas y cajones de los gabinetes existentes." },
+    { value: "doors-only", label: "Reemplazar Solo las Puertas de los Gabinetes", scopeAddition: "Reemplazar solo las puertas y frentes de cajón; conservar las cajas existentes." },
+    { value: "hardware-only", label: "Reemplazar Solo los Herrajes de los Gabinetes", scopeAddition: "Reemplazar solo los herrajes de los gabinetes (jaladeras/perillas); conservar las puertas y cajas existentes." },
+    { value: "island-cabinets", label: "Agregar Gabinetes de Isla", scopeAddition: "Agregar gabinetes base de isla con acabado igual al de los gabinetes perimetrales." },
+    { value: "pantry-cabinets", label: "Agregar Gabinetes de Despensa", scopeAddition: "Agregar gabinete alto de despensa con entrepaños extraíbles." }
+  ]
+};
+
+const kitchenCrownTrimEs: JobTypeTranslation["options"][string] = {
+  label: "Agregar Cornisa / Molduras / Riel de Luz",
+  scopeAddition: "Instalar cornisa, riel de luz y molduras decorativas en todos los gabinetes."
+};
+
+const kitchenCountertopTypeEs: JobTypeTranslation["options"][string] = {
+  label: "Tipo de Cubierta",
+  choices: [
+    { value: "laminate", label: "Laminado", scopeAddition: "Instalar cubiertas de laminado premium con cantos reforzados." },
+    { value: "butcher-block", label: "Madera Tipo Carnicero", scopeAddition: "Instalar cubiertas de madera maciza tipo carnicero con acabado apto para alimentos." },
+    { value: "solid-surface", label: "Superficie Sólida (p. ej., Corian)", scopeAddition: "Instalar cubiertas de superficie sólida con opción de lavabo integrado." },
+    { value: "quartz", label: "Cuarzo", scopeAddition: "Instalar cubiertas de cuarzo de ingeniería (color según la selección)." },
+    { value: "granite", label: "Granito", scopeAddition: "Instalar cubiertas de losa de granito con cantos pulidos y sellador." },
+    { value: "marble", label: "Mármol", scopeAddition: "Instalar cubiertas de losa de mármol con acabado mate o pulido y sellador." },
+    { value: "porcelain-sintered", label: "Porcelanato / Piedra Sinterizada", scopeAddition: "Instalar cubiertas de porcelanato o piedra sinterizada con acabado pulido." },
+    { value: "concrete", label: "Concreto", scopeAddition: "Instalar cubiertas de concreto a la medida con acabado sellado." },
+    { value: "tile", label: "Cubierta de Azulejo", scopeAddition: "Instalar cubiertas de azulejo con cantos redondeados y juntas con lechada." },
+    { value: "keep-existing", label: "Conservar las Cubiertas Existentes", scopeAddition: "Conservar y proteger las cubiertas existentes; reconectar el lavabo y el grifo." }
+  ]
+};
+
+const kitchenPlumbingFixturesEs: JobTypeTranslation["options"][string] = {
+  label: "Accesorios de Plomería",
+  choices: [
+    { value: "sink-only", label: "Reemplazar Solo el Fregadero", scopeAddition: "Instalar nuevo fregadero bajo cubierta o de embutir; reconectar la plomería existente." },
+    { value: "faucet-only", label: "Reemplazar Solo el Grifo", scopeAddition: "Instalar nuevo grifo de cocina con líneas de suministro." },
+    { value: "sink-faucet", label: "Reemplazar Fregadero y Grifo", scopeAddition: "Instalar nuevo fregadero y grifo con todas las conexiones." },
+    { value: "add-disposal", label: "Agregar Triturador de Basura", scopeAddition: "Instalar nuevo triturador de basura con conexión eléctrica." },
+    { value: "replace-disposal", label: "Reemplazar Triturador de Basura", scopeAddition: "Retirar el triturador viejo e instalar una unidad nueva." },
+    { value: "relocate-sink-minor", label: "Reubicar Fregadero (Menor)", scopeAddition: "Reubicar el fregadero a menos de 3 pies de su ubicación actual; extender las líneas de drenaje y suministro." },
+    { value: "relocate-sink-major", label: "Reubicar Fregadero (Mayor)", scopeAddition: "Reubicar el fregadero a una nueva ubicación; tender nuevas líneas de drenaje y suministro a través de la estructura." },
+    { value: "pot-filler", label: "Agregar Grifo Llenaollas", scopeAddition: "Instalar grifo llenaollas de pared sobre la estufa con válvula de cierre." },
+    { value: "no-plumbing", label: "Sin Trabajo de Plomería", scopeAddition: "No se incluyen modificaciones de plomería." }
+  ]
+};
+
+const kitchenElectricalLightingEs: JobTypeTranslation["options"][string] = {
+  label: "Electricidad e Iluminación",
+  choices: [
+    { value: "light-fixtures", label: "Reemplazar Solo las Luminarias Existentes", scopeAddition: "Retirar y reemplazar las luminarias existentes con unidades nuevas." },
+    { value: "recessed", label: "Agregar Iluminación Empotrada", scopeAddition: "Instalar iluminación LED empotrada en todo el techo de la cocina." },
+    { value: "under-cabinet", label: "Agregar / Reemplazar Iluminación Bajo Gabinetes", scopeAddition: "Instalar tiras de luz LED cableadas bajo los gabinetes superiores con atenuador." },
+    { value: "pendant", label: "Agregar / Reemplazar Lámparas Colgantes", scopeAddition: "Instalar lámparas colgantes sobre la isla o el área del fregadero." },
+    { value: "outlets", label: "Agregar / Reubicar Tomacorrientes", scopeAddition: "Agregar o reubicar tomacorrientes según los requisitos del código." },
+    { value: "switches-dimmers", label: "Mejorar Interruptores / Atenuadores", scopeAddition: "Cambiar los interruptores de luz por atenuadores en toda la cocina." },
+    { value: "dedicated-circuits", label: "Circuitos Dedicados para Electrodomésticos", scopeAddition: "Instalar circuitos eléctricos dedicados para los electrodomésticos principales." },
+    { value: "no-electrical", label: "Sin Trabajo Eléctrico", scopeAddition: "No se incluyen modificaciones eléctricas." }
+  ]
+};
+
+// Spanish translations for kitchen job types
+export const kitchenJobTypesEs: Record<string, JobTypeTranslation> = {
+  "full-kitchen-gut": {
+    name: "Remodelación Completa de Cocina – Demoler y Reemplazar",
+    warranty: "Garantía de 2 años en mano de obra en todos los trabajos. Las garantías del fabricante aplican a todos los accesorios y materiales.",
+    exclusions: [
+      "Costo de los electrodomésticos (puede incluirse una asignación)",
+      "Retiro de muros estructurales que requiera ingeniería",
+      "Modificaciones o reubicación de HVAC",
+      "Tarifas de permisos e inspecciones",
+      "Remediación de moho o asbesto"
+    ],
+    baseScope: [
+      "Demolición completa de gabinetes, cubiertas, piso, salpicadero y plafones existentes.",
+      "Retirar los electrodomésticos existentes y desconectar todos los servicios.",
+      "Desechar todos los escombros de demolición según las regulaciones locales.",
+      "Inspeccionar y documentar el estado de la plomería, la electricidad y la estructura.",
+      "Actualizar los circuitos eléctricos según el plan; agregar tomacorrientes según lo requiera el código.",
+      "Actualizar la instalación preliminar de plomería para el fregadero, el lavavajillas y el refrigerador.",
+      "Instalar panel de yeso nuevo/parchar paredes según sea necesario; texturizar a juego.",
+      "Aplicar primer y pintar paredes y techo (2 capas).",
+      "Instalar nuevos gabinetes base y superiores según el plano de distribución.",
+      "Instalar cornisa y molduras decorativas en los gabinetes.",
+      "Tomar plantilla y fabricar las nuevas cubiertas.",
+      "Instalar las cubiertas con el soporte y los recortes adecuados.",
+      "Instalar fregadero bajo cubierta y grifo.",
+      "Instalar salpicadero de azulejo según las especificaciones de diseño.",
+      "Instalar piso nuevo (madera, azulejo o vinil de lujo) con transiciones.",
+      "Instalar nuevas luminarias: luces empotradas y lámparas colgantes.",
+      "Conectar e instalar todos los electrodomésticos (según la asignación o suministrados por el propietario).",
+      "Instalar triturador de basura, lavavajillas y ductos de la campana.",
+      "Lista final de pendientes, retoques y recorrido con el propietario."
+    ],
+    options: {
+      "cabinet-scope": kitchenCabinetScopeEs,
+      "crown-trim": kitchenCrownTrimEs,
+      "countertop-type": kitchenCountertopTypeEs,
+      "plumbing-fixtures": kitchenPlumbingFixturesEs,
+      "electrical-lighting": kitchenElectricalLightingEs
+    }
+  },
+  "full-kitchen-cosmetic": {
+    name: "Remodelación Completa de Cocina – Solo Estética",
+    warranty: "Garantía de 1 año en mano de obra en todos los trabajos. Las garantías del fabricante aplican a todos los accesorios y materiales.",
+    exclusions: ["Modificaciones estructurales", "Reubicación de plomería o electricidad", "Costo de los electrodomésticos", "Tarifas de permisos"],
+    baseScope: [
+      "Proteger el piso y los electrodomésticos existentes con lonas.",
+      "Retirar las cubiertas y el salpicadero existentes; desecharlos fuera del sitio.",
+      "Retirar las puertas de los gabinetes, los frentes de cajón y todos los herrajes.",
+      "Limpiar, lijar y preparar todas las superficies de los gabinetes.",
+      "Aplicar primer y dos capas de pintura o tinte para gabinetes.",
+      "Instalar nuevas bisagras y correderas de cajón de cierre suave.",
+      "Tomar plantilla y fabricar las nuevas cubiertas según las especificaciones.",
+      "Instalar las nuevas cubiertas con el soporte y las uniones adecuados.",
+      "Recortar e instalar nuevo fregadero bajo cubierta o de embutir.",
+      "Reconectar la plomería al fregadero y al triturador de basura.",
+      "Instalar nuevo grifo.",
+      "Instalar salpicadero de azulejo según las especificaciones de diseño.",
+      "Instalar nuevos herrajes de gabinetes (jaladeras/perillas).",
+      "Volver a instalar todas las puertas y frentes de cajón; ajustar la alineación.",
+      "Sellar los bordes de las cubiertas; sellar la piedra natural si aplica.",
+      "Limpieza final e inspección de calidad."
+    ],
+    options: {
+      "cabinet-scope": kitchenCabinetScopeEs,
+      "crown-trim": kitchenCrownTrimEs,
+      "countertop-type": kitchenCountertopTypeEs,
+      "plumbing-fixtures": kitchenPlumbingFixturesEs,
+      "electrical-lighting": kitchenElectricalLightingEs
+    }
+  },
+  "partial-kitchen": {
+    name: "Remodelación Parcial de Cocina",
+    warranty: "Garantía de 1 año en mano de obra en todos los trabajos.",
+    exclusions: ["Modificaciones estructurales", "Reubicación mayor de plomería", "Costo de los electrodomésticos", "Tarifas de permisos"],
+    baseScope: [
+      "Proteger el piso y los electrodomésticos con lonas.",
+      "Retirar los gabinetes, cubiertas o salpicadero designados según lo especificado.",
+      "Desechar los escombros de demolición fuera del sitio.",
+      "Reparar y preparar las paredes según sea necesario.",
+      "Instalar gabinetes nuevos en las áreas designadas según el plan.",
+      "Tomar plantilla y fabricar las nuevas cubiertas para las áreas afectadas.",
+      "Instalar las nuevas cubiertas con el soporte adecuado.",
+      "Reconectar la plomería al fregadero si se ve afectado.",
+      "Instalar salpicadero en las áreas afectadas.",
+      "Instalar herrajes nuevos en todos los gabinetes.",
+      "Sellar todos los bordes y transiciones.",
+      "Limpieza e inspección final."
+    ],
+    options: {
+      "cabinet-scope": kitchenCabinetScopeEs,
+      "crown-trim": kitchenCrownTrimEs,
+      "countertop-type": kitchenCountertopTypeEs,
+      "plumbing-fixtures": kitchenPlumbingFixturesEs,
+      "electrical-lighting": kitchenElectricalLightingEs
+    }
+  },
+  "cabinet-reface": {
+    name: "Solo Rechapado de Gabinetes",
+    warranty: "Garantía de 1 año en mano de obra. Garantía del fabricante en los materiales.",
+    exclusions: ["Reemplazo de cubiertas", "Modificaciones estructurales a los gabinetes", "Trabajo de plomería o electricidad", "Instalación de electrodomésticos"],
+    baseScope: [
+      "Proteger las cubiertas, el piso y los electrodomésticos con lonas.",
+      "Retirar todas las puertas de los gabinetes, los frentes de cajón y los herrajes.",
+      "Limpiar y preparar las superficies de las cajas de los gabinetes.",
+      "Aplicar chapa o laminado a las superficies visibles de las cajas de los gabinetes.",
+      "Instalar nuevas puertas de gabinete con acabado a juego.",
+      "Instalar nuevos frentes de cajón con acabado a juego.",
+      "Instalar nuevas bisagras de cierre suave en todas las puertas.",
+      "Instalar nuevas correderas de cajón de cierre suave.",
+      "Instalar nuevos herrajes de gabinetes (jaladeras/perillas).",
+      "Ajustar todas las puertas y cajones para una alineación correcta.",
+      "Limpieza final e inspección de calidad."
+    ],
+    options: {
+      "crown-trim": kitchenCrownTrimEs,
+      "door-style": {
+        label: "Estilo de Puerta",
+        choices: [
+          { value: "shaker", label: "Estilo Shaker", scopeAddition: "Instalar puertas de gabinete estilo shaker." },
+          { value: "raised-panel", label: "Panel Elevado", scopeAddition: "Instalar puertas de gabinete de panel elevado." },
+          { value: "flat-panel", label: "Panel Plano / Liso", scopeAddition: "Instalar puertas de gabinete lisas de panel plano." },
+          { value: "glass-insert", label: "Puertas con Vidrio", scopeAddition: "Instalar puertas de gabinete con vidrio en algunos gabinetes superiores." }
+        ]
+      },
+      "interior-upgrade": { label: "Mejora del Interior de los Gabinetes", scopeAddition: "Instalar forro para entrepaños y mejorar el acabado interior de todos los gabinetes." }
+    }
+  },
+  "cabinet-paint": {
+    name: "Solo Pintura de Gabinetes",
+    warranty: "Garantía de 1 año en el acabado de pintura.",
+    exclusions: ["Reemplazo de cubiertas", "Reparaciones estructurales a los gabinetes", "Trabajo de plomería o electricidad", "Reemplazo de herrajes (salvo que se seleccione)"],
+    baseScope: [
+      "Proteger las cubiertas, el piso y los electrodomésticos con lonas.",
+      "Retirar todas las puertas de los gabinetes, los frentes de cajón y los herrajes.",
+      "Limpiar todas las superficies con desengrasante para eliminar aceites y residuos.",
+      "Lijar todas las superficies de los gabinetes para una adherencia adecuada de la pintura.",
+      "Rellenar orificios, abolladuras e imperfecciones con masilla para madera.",
+      "Aplicar primer de adherencia a todas las superficies.",
+      "Aplicar dos capas de pintura para gabinetes a todas las superficies.",
+      "Respetar el tiempo de curado adecuado entre capas.",
+      "Volver a instalar todas las puertas y frentes de cajón.",
+      "Ajustar todas las puertas y cajones para una alineación correcta.",
+      "Retocar cualquier imperfección.",
+      "Limpieza e inspección final."
+    ],
+    options: {
+      "crown-trim": kitchenCrownTrimEs,
+      "new-hardware": { label: "Herrajes Nuevos para Gabinetes", scopeAddition: "Suministrar e instalar herrajes nuevos para gabinetes (jaladeras/perillas)." },
+      "soft-close": { label: "Mejora a Bisagras de Cierre Suave", scopeAddition: "Reemplazar las bisagras existentes por bisagras de cierre suave en todas las puertas." },
+      "interior-paint": { label: "Pintar el Interior de los Gabinetes", scopeAddition: "Pintar las superficies interiores de todos los gabinetes." }
+    }
+  },
+  "countertop-replace": {
+    name: "Solo Reemplazo de Cubiertas",
+    warranty: "Garantía de 1 año en mano de obra. Garantía del fabricante en los materiales.",
+    exclusions: ["Modificaciones a los gabinetes", "Reemplazo del salpicadero", "Reubicación de plomería", "Trabajo eléctrico"],
+    baseScope: [
+      "Proteger el piso y los gabinetes con lonas.",
+      "Desconectar la plomería del fregadero y del triturador.",
+      "Retirar las cubiertas existentes y desecharlas fuera del sitio.",
+      "Inspeccionar la parte superior de los gabinetes para verificar su nivel e integridad estructural.",
+      "Tomar plantilla de las nuevas cubiertas para su fabricación.",
+      "Instalar las nuevas cubiertas con el soporte y la nivelación adecuados.",
+      "Cortar los orificios del fregadero y del grifo según la plantilla.",
+      "Instalar fregadero bajo cubierta o de embutir.",
+      "Reconectar la plomería al fregadero y al triturador.",
+      "Instalar el grifo nuevo si se proporciona.",
+      "Aplicar silicón en las juntas con la pared y los gabinetes.",
+      "Sellar la piedra natural si aplica.",
+      "Limpieza e inspección final."
+    ],
+    options: {
+      "countertop-type": kitchenCountertopTypeEs,
+      "edge-profile": {
+        label: "Perfil del Canto",
+        choices: [
+          { value: "eased", label: "Canto Suavizado", scopeAddition: "Perfil de canto suavizado estándar." },
+          { value: "beveled", label: "Canto Biselado", scopeAddition: "Perfil de canto biselado en todos los cantos expuestos." },
+          { value: "bullnose", label: "Canto Boleado", scopeAddition: "Perfil de canto boleado completo en todos los cantos expuestos." },
+          { value: "ogee", label: "Canto Ogee", scopeAddition: "Perfil de canto ogee decorativo en todos los cantos expuestos." },
+          { value: "waterfall", label: "Canto en Cascada", scopeAddition: "Canto en cascada que extiende la cubierta hasta el piso en el extremo de la isla." }
+        ]
+      },
+      "plumbing-fixtures": {
+        label: "Accesorios de Plomería",
+        choices: [
+          ...(kitchenPlumbingFixturesEs.choices ?? []).filter((choice) => choice.value !== "no-plumbing"),
+          { value: "no-plumbing", label: "Sin Trabajo de Plomería", scopeAddition: "Solo reconectar el fregadero y el grifo existentes." }
+        ]
+      }
+    }
+  },
+  "backsplash-install": {
+    name: "Solo Instalación de Salpicadero",
+    warranty: "Garantía de 1 año en mano de obra.",
+    exclusions: ["Reemplazo de cubiertas", "Reubicación de tomacorrientes", "Modificaciones a los gabinetes"],
+    baseScope: [
+      "Proteger las cubiertas y los electrodomésticos con lonas.",
+      "Retirar el material de salpicadero existente o preparar la pared desnuda.",
+      "Reparar y alisar el panel de yeso según sea necesario.",
+      "Trazar el patrón del azulejo; marcar la ubicación de los tomacorrientes.",
+      "Aplicar mortero adhesivo (thin-set) e instalar el azulejo según el diseño.",
+      "Cortar el azulejo alrededor de tomacorrientes, interruptores y bordes con sierra de agua.",
+      "Dejar fraguar el azulejo durante 24 horas.",
+      "Aplicar lechada en todas las juntas; limpiar el exceso del azulejo.",
+      "Aplicar sellador de lechada después de 48 horas de curado.",
+      "Volver a instalar las tapas de tomacorrientes e interruptores.",
+      "Aplicar silicón en las juntas con la cubierta y los gabinetes.",
+      "Limpieza e inspección final."
+    ],
+    options: {
+      "tile-type": {
+        label: "Tipo de Azulejo",
+        choices: [
+          { value: "ceramic-subway", label: "Azulejo Tipo Metro de Cerámica", scopeAddition: "Instalar azulejo clásico tipo metro de cerámica en el color seleccionado." },
+          { value: "glass-subway", label: "Azulejo Tipo Metro de Vidrio", scopeAddition: "Instalar azulejo tipo metro de vidrio con mayor reflejo de luz." },
+          { value: "mosaic", label: "Mosaico / Azulejo con Patrón", scopeAddition: "Instalar diseño de mosaico o azulejo con patrón." },
+          { value: "natural-stone", label: "Piedra Natural", scopeAddition: "Instalar azulejo de piedra natural con el sellador adecuado." },
+          { value: "porcelain", label: "Azulejo de Porcelanato", scopeAddition: "Instalar azulejo de porcelanato de mayor durabilidad." },
+          { value: "peel-stick", label: "Azulejo Autoadherible", scopeAddition: "Instalar azulejo autoadherible para una instalación rápida." }
+        ]
+      },
+      "height": {
+        label: "Altura del Salpicadero",
+        choices: [
+          { value: "standard", label: "Estándar (4 pulgadas)", scopeAddition: "Instalar salpicadero de 4 pulgadas de altura." },
+          { value: "countertop-to-cabinet", label: "De la Cubierta a los Gabinetes Superiores", scopeAddition: "Extender el salpicadero desde la cubierta hasta la parte inferior de los gabinetes superiores." },
+          { value: "full-wall", label: "Pared Completa", scopeAddition: "Instalar azulejo de salpicadero hasta el techo." }
+        ]
+      },
+      "accent-strip": { label: "Franja Decorativa de Acento", scopeAddition: "Instalar franja o cenefa decorativa de acento dentro del diseño del salpicadero." }
+    }
+  },
+  "flooring-replace": {
+    name: "Solo Reemplazo de Piso",
+    warranty: "Garantía de 1 año en mano de obra. Garantía del fabricante en los materiales.",
+    exclusions: ["Reparación del contrapiso más allá de parchado menor", "Desconexión/reconexión de electrodomésticos", "Retiro de gabinetes", "Eliminación de asbesto"],
+    baseScope: [
+      "Mover electrodomésticos y muebles según sea necesario para el acceso.",
+      "Retirar el piso existente y desecharlo fuera del sitio.",
+      "Inspeccionar el contrapiso en busca de daños o desniveles.",
+      "Reparar problemas menores del contrapiso según sea necesario.",
+      "Limpiar y preparar la superficie del contrapiso.",
+      "Instalar el piso nuevo según las especificaciones del fabricante.",
+      "Instalar transiciones en las puertas y en los cambios de altura del piso.",
+      "Instalar moldura de cuarto de círculo o de zapata en el perímetro.",
+      "Regresar los electrodomésticos y muebles a su posición.",
+      "Limpieza e inspección final."
+    ],
+    options: {
+      "flooring-type": {
+        label: "Tipo de Piso",
+        choices: [
+          { value: "lvp", label: "Vinil de Lujo en Tablones (LVP)", scopeAddition: "Instalar piso de vinil de lujo en tablones con sistema de clic." },
+          { value: "lvt", label: "Vinil de Lujo en Losetas (LVT)", scopeAddition: "Instalar piso de vinil de lujo en losetas con adhesivo o sistema de clic." },
+          { value: "ceramic-tile", label: "Azulejo de Cerámica", scopeAddition: "Instalar piso de azulejo de cerámica con mortero adhesivo (thin-set) y lechada." },
+          { value: "porcelain-tile", label: "Azulejo de Porcelanato", scopeAddition: "Instalar piso de azulejo de porcelanato con mortero adhesivo (thin-set) y lechada." },
+          { value: "hardwood", label: "Madera", scopeAddition: "Instalar piso de madera maciza o de ingeniería." },
+          { value: "laminate", label: "Laminado", scopeAddition: "Instalar piso laminado con bajo piso." }
+        ]
+      },
+      "subfloor-prep": { label: "Nivelación del Contrapiso", scopeAddition: "Aplicar compuesto autonivelante para corregir las áreas desniveladas del contrapiso." },
+      "heated-floor": { label: "Calefacción Radiante Eléctrica", scopeAddition: "Instalar malla eléctrica de calefacción radiante bajo el piso con termostato programable." }
+    }
+  },
+  "appliance-install": {
+    name: "Solo Instalación de Electrodomésticos",
+    warranty: "Garantía de 30 días en la instalación (la garantía del electrodoméstico es aparte).",
+    exclusions: ["Compra del electrodoméstico", "Actualizaciones del panel eléctrico", "Instalación o modificación de la línea de gas", "Modificaciones a cubiertas o gabinetes"],
+    baseScope: [
+      "Desempacar e inspeccionar el electrodoméstico nuevo en busca de daños.",
+      "Retirar el electrodoméstico existente y apartarlo o desecharlo.",
+      "Limpiar el área de instalación.",
+      "Colocar y nivelar el electrodoméstico nuevo.",
+      "Conectar agua, gas o electricidad según aplique.",
+      "Probar todas las funciones y ciclos.",
+      "Retirar todo el material de empaque.",
+      "Dar al propietario una explicación básica del funcionamiento."
+    ],
+    options: {
+      "appliance-type": {
+        label: "Tipo de Electrodoméstico",
+        choices: [
+          { value: "dishwasher", label: "Lavavajillas", scopeAddition: "Instalar lavavajillas con conexiones de agua y electricidad." },
+          { value: "range-electric", label: "Estufa (Eléctrica)", scopeAddition: "Instalar estufa eléctrica con la conexión eléctrica adecuada." },
+          { value: "range-gas", label: "Estufa (de Gas)", scopeAddition: "Instalar estufa de gas con la conexión de gas adecuada y prueba de fugas." },
+          { value: "refrigerator", label: "Refrigerador", scopeAddition: "Instalar refrigerador con conexión de línea de agua si aplica." },
+          { value: "microwave-otr", label: "Microondas sobre la Estufa", scopeAddition: "Instalar microondas sobre la estufa con soporte de montaje y conexión eléctrica." },
+          { value: "range-hood", label: "Campana Extractora", scopeAddition: "Instalar campana extractora con conexión eléctrica." },
+          { value: "garbage-disposal", label: "Triturador de Basura", scopeAddition: "Instalar triturador de basura con conexión eléctrica." }
+        ]
+      },
+      "haul-away": { label: "Retirar el Electrodoméstico Viejo", scopeAddition: "Retirar y llevar el electrodoméstico viejo a un centro de reciclaje." },
+      "water-line": { label: "Instalar Línea de Agua Nueva", scopeAddition: "Instalar línea de suministro de agua trenzada de acero inoxidable para el refrigerador o el lavavajillas." },
+      "anti-tip": { label: "Instalación de Soporte Antivuelco", scopeAddition: "Instalar soporte antivuelco para la estufa según los requisitos del fabricante y del código." }
+    }
+  },
+  "island-addition": {
+    name: "Adición / Modificación de Isla",
+    warranty: "Garantía de 1 año en mano de obra en todos los trabajos.",
+    exclusions: ["Modificaciones estructurales del piso", "Actualizaciones mayores del panel eléctrico", "Reubicación mayor de plomería", "Piso debajo de la isla"],
+    baseScope: [
+      "Verificar que la estructura del piso pueda soportar el peso de la isla.",
+      "Marcar el área de la isla según el plano aprobado.",
+      "Instalar los gabinetes base de la isla y fijarlos al piso.",
+      "Nivelar y calzar los gabinetes según sea necesario.",
+      "Instalar los respaldos de los gabinetes y los paneles laterales.",
+      "Tomar plantilla y fabricar la cubierta de la isla.",
+      "Instalar la cubierta de la isla con el soporte adecuado.",
+      "Instalar zoclo y molduras decorativas.",
+      "Instalar los herrajes de los gabinetes.",
+      "Sellar todas las juntas y transiciones.",
+      "Limpieza e inspección final."
+    ],
+    options: {
+      "island-size": {
+        label: "Tamaño de la Isla",
+        choices: [
+          { value: "small", label: "Pequeña (3-4 pies)", scopeAddition: "Construir isla de cocina de 3-4 pies con gabinetes base y cubierta." },
+          { value: "medium", label: "Mediana (5-6 pies)", scopeAddition: "Construir isla de cocina de 5-6 pies con gabinetes base, cubierta y voladizo para asientos." },
+          { value: "large", label: "Grande (7-8 pies)", scopeAddition: "Construir isla de cocina de 7-8 pies con gabinetes base, cubierta, asientos y almacenamiento." },
+          { value: "custom", label: "Tamaño a la Medida", scopeAddition: "Construir isla de cocina a la medida según las especificaciones." }
+        ]
+      },
+      "countertop-type": {
+        label: "Tipo de Cubierta",
+        choices: [
+          { value: "laminate", label: "Laminado", scopeAddition: "Instalar cubierta de laminado premium en la isla." },
+          { value: "butcher-block", label: "Madera Tipo Carnicero", scopeAddition: "Instalar cubierta de madera maciza tipo carnicero en la isla." },
+          { value: "quartz", label: "Cuarzo", scopeAddition: "Instalar cubierta de cuarzo de ingeniería en la isla." },
+          { value: "granite", label: "Granito", scopeAddition: "Instalar cubierta de losa de granito en la isla con cantos pulidos." },
+          { value: "marble", label: "Mármol", scopeAddition: "Instalar cubierta de losa de mármol en la isla." },
+          { value: "waterfall", label: "Canto en Cascada", scopeAddition: "Instalar cubierta con canto en cascada que se extiende hasta el piso." }
+        ]
+      },
+      "prep-sink": { label: "Agregar Fregadero de Preparación", scopeAddition: "Instalar fregadero de preparación pequeño en la isla con grifo y conexión de drenaje." },
+      "electrical": {
+        label: "Electricidad de la Isla",
+        choices: [
+          { value: "none", label: "Sin Electricidad" },
+          { value: "outlets", label: "Agregar Tomacorrientes", scopeAddition: "Instalar tomacorrientes en la isla para electrodomésticos pequeños." },
+          { value: "outlets-pendants", label: "Tomacorrientes + Lámparas Colgantes", scopeAddition: "Instalar tomacorrientes y lámparas colgantes sobre la isla." }
+        ]
+      },
+      "seating": { label: "Voladizo para Asientos", scopeAddition: "Extender la cubierta con voladizo para asientos e instalar ménsulas de soporte." }
+    }
+  },
+  "pantry-buildout": {
+    name: "Construcción / Modificación de Despensa",
+    warranty: "Garantía de 1 año en mano de obra en todos los trabajos.",
+    exclusions: ["Modificaciones a muros estructurales", "Trabajo eléctrico mayor", "Modificaciones de HVAC", "Cambios de piso"],
+    baseScope: [
+      "Proteger las áreas circundantes con lonas.",
+      "Retirar los entrepaños o componentes de despensa existentes si los hay.",
+      "Inspeccionar la estructura de la pared y prepararla para la instalación.",
+      "Instalar refuerzos y soportes según sea necesario.",
+      "Instalar el gabinete de despensa o el sistema de entrepaños.",
+      "Nivelar y fijar todos los componentes.",
+      "Instalar puertas o cajones según lo especificado.",
+      "Instalar los herrajes (jaladeras/perillas).",
+      "Sellar todas las juntas y molduras.",
+      "Limpieza e inspección final."
+    ],
+    options: {
+      "pantry-type": {
+        label: "Tipo de Despensa",
+        choices: [
+          { value: "reach-in", label: "Entrepaños para Despensa de Alcance", scopeAddition: "Instalar entrepaños ajustables de alambre o madera en el espacio de despensa existente." },
+          { value: "tall-cabinet", label: "Gabinete Alto de Despensa", scopeAddition: "Instalar gabinete alto de despensa con entrepaños ajustables." },
+          { value: "pull-out", label: "Sistema de Despensa Extraíble", scopeAddition: "Instalar sistema de despensa extraíble con cajones de extensión total y cierre suave." },
+          { value: "walk-in", label: "Construcción de Despensa Tipo Vestidor", scopeAddition: "Construir despensa tipo vestidor con entrepaños a la medida en varias paredes." }
+        ]
+      },
+      "door-type": {
+        label: "Tipo de Puerta",
+        choices: [
+          { value: "none", label: "Abierta (Sin Puerta)" },
+          { value: "swing", label: "Puerta Abatible", scopeAddition: "Instalar puerta abatible con molduras y herrajes a juego." },
+          { value: "barn-door", label: "Puerta de Granero", scopeAddition: "Instalar puerta corrediza tipo granero con riel y herrajes." },
+          { value: "pocket-door", label: "Puerta Corrediza Empotrada", scopeAddition: "Instalar puerta corrediza empotrada con bastidor y herrajes." },
+          { value: "bi-fold", label: "Puertas Plegables", scopeAddition: "Instalar puertas plegables con riel y herrajes." }
+        ]
+      },
+      "lighting": { label: "Iluminación de Despensa", scopeAddition: "Instalar iluminación LED dentro de la despensa con interruptor activado por la puerta." },
+      "countertop": { label: "Agregar Superficie de Trabajo", scopeAddition: "Instalar una cubierta como superficie de trabajo dentro de la despensa." }
+    }
+  }
+};
+
+// Spanish translations for plumbing job types
+export const plumbingJobTypesEs: Record<string, JobTypeTranslation> = {
+  "valve-repair": {
+    name: "Reparación y Reemplazo de Válvulas",
+    warranty: "Garantía de 1 año en piezas y mano de obra.",
+    exclusions: ["Reparación de paredes/techos después del acceso", "Reemplazo de tubería de toda la casa"],
+    baseScope: [
+      "Cerrar el suministro de agua al área afectada.",
+      "Drenar las líneas para evitar derrames de agua.",
+      "Remover el mecanismo de válvula defectuoso.",
+      "Instalar nueva válvula de bola de cuarto de vuelta o llave de paso del accesorio.",
+      "Reemplazar las líneas de suministro con mangueras trenzadas de acero inoxidable.",
+      "Aplicar sellador de roscas en todas las conexiones roscadas.",
+      "Restablecer el suministro de agua y revisar que no haya fugas.",
+      "Verificar el funcionamiento correcto de la válvula.",
+      "Limpiar el área de trabajo."
+    ],
+    options: {
+      "access-panel": { label: "Instalar Panel de Acceso", scopeAddition: "Cortar y enmarcar una abertura para acceso futuro; instalar panel de acceso plástico de encaje." },
+      "whole-house-check": { label: "Inspección de Plomería de Toda la Casa", scopeAddition: "Realizar inspección visual de todos los accesorios de plomería visibles, el calentador de agua y las líneas de agua." }
+    }
+  },
+  "water-heater": {
+    name: "Reemplazo de Calentador de Agua (de Tanque)",
+    warranty: "Garantía del tanque según el fabricante (6-12 años). Garantía de 1 año en mano de obra.",
+    exclusions: ["Modificaciones a la línea de gas", "Actualizaciones del panel eléctrico", "Tarifas de permisos"],
+    baseScope: [
+      "Desconectar y drenar el calentador de agua existente.",
+      "Desconectar las conexiones de gas/electricidad y agua.",
+      "Remover la unidad vieja y transportarla fuera del sitio para su desecho.",
+      "Instalar nuevo calentador de agua de tanque de 40/50 galones.",
+      "Conectar la entrada de agua fría y la salida de agua caliente.",
+      "Instalar nuevos conectores flexibles para el calentador de agua.",
+      "Conectar la línea de gas o la electricidad según el código (suministro existente).",
+      "Instalar nueva válvula de alivio de temperatura y presión (T&P) con tubo de descarga.",
+      "Instalar tanque de expansión si lo requiere el código local.",
+      "Llenar el tanque y purgar el aire de las líneas.",
+      "Encender el piloto o la unidad; verificar el funcionamiento.",
+      "Revisar que no haya fugas en ninguna conexión.",
+      "Ajustar la temperatura a los 120°F recomendados."
+    ],
+    options: {
+      "pan-drain": { label: "Nueva Bandeja y Línea de Drenaje", scopeAddition: "Instalar nueva bandeja de seguridad de aluminio y llevar la línea de drenaje a un desagüe de piso o al exterior." },
+      "upgrade-50gal": { label: "Mejora a 50 Galones", scopeAddition: "Mejorar a un tanque con capacidad de 50 galones (en lugar del estándar de 40 galones)." },
+      "recirculating-pump": { label: "Bomba de Recirculación de Agua Caliente", scopeAddition: "Instalar bomba de recirculación por demanda para agua caliente instantánea en los accesorios." }
+    }
+  },
+  "tankless-install": {
+    name: "Instalación de Calentador de Agua sin Tanque",
+    warranty: "Garantía de la unidad según el fabricante (10-15 años). Garantía de 2 años en mano de obra.",
+    exclusions: ["Ampliación de la línea de gas si es insuficiente", "Actualización del panel eléctrico"],
+    baseScope: [
+      "Remover el calentador de agua de tanque existente y desecharlo.",
+      "Montar la nueva unidad sin tanque en la pared o en el exterior según las especificaciones del fabricante.",
+      "Instalar nueva línea de gas si se requiere (hasta 10 pies lineales incluidos).",
+      "Instalar la ventilación adecuada (acero inoxidable categoría III o ventilación directa de PVC).",
+      "Conectar la entrada de agua fría con válvula de aislamiento.",
+      "Conectar la salida de agua caliente a la distribución existente.",
+      "Instalar drenaje de condensado si la unidad es de condensación.",
+      "Conectar la unidad a la fuente de energía (circuito dedicado si es eléctrica).",
+      "Programar la configuración y los caudales de la unidad.",
+      "Probar el funcionamiento en varios accesorios.",
+      "Verificar la presión del gas y la combustión.",
+      "Orientar al propietario sobre el funcionamiento y el mantenimiento."
+    ],
+    options: {
+      "outdoor-unit": { label: "Instalación Exterior", scopeAddition: "Instalar unidad sin tanque apta para exteriores (elimina el requisito de ventilación)." },
+      "whole-house-filter": { label: "Filtro de Agua para Toda la Casa", scopeAddition: "Instalar filtro de sedimentos y sarro antes de la unidad sin tanque." }
+    }
+  },
+  "repipe-whole-house": {
+    name: "Reemplazo de Tubería de Toda la Casa (PEX)",
+    warranty: "Garantía de 25 años en la tubería PEX. Garantía de 2 años en mano de obra.",
+    exclusions: ["Reparación de paneles de yeso/techos (solo parchado)", "Reemplazo de accesorios", "Permisos"],
+    baseScope: [
+      "Cerrar el suministro principal de agua de la propiedad.",
+      "Cortar orificios de acceso en paredes/techos según sea necesario para el trazado.",
+      "Remover y desechar las líneas de suministro existentes de hierro galvanizado/cobre.",
+      "Instalar nuevo sistema de colector PEX en una ubicación central.",
+      "Tender nuevas líneas PEX a todos los accesorios con el método de línea directa.",
+      "Instalar válvulas de cierre en el colector para cada accesorio.",
+      "Instalar nuevas llaves de paso angulares en cada accesorio.",
+      "Realizar prueba de presión de todo el sistema a 80 PSI durante 1 hora.",
+      "Conectar todos los accesorios y verificar su funcionamiento.",
+      "Aislar las líneas PEX expuestas en el ático/espacio de acceso.",
+      "Parchar los orificios de acceso con panel de yeso (listo para pintar).",
+      "Revisión final de fugas y recorrido del sistema."
+    ],
+    options: {
+      "drain-repipe": { label: "Incluir Reemplazo de Líneas de Drenaje", scopeAddition: "Reemplazar todas las líneas de drenaje accesibles con nueva tubería de ABS o PVC." },
+      "hose-bibs": { label: "Nuevas Llaves de Manguera Exteriores", scopeAddition: "Instalar (2) nuevas llaves de manguera anticongelantes en el frente y la parte trasera de la casa." }
+    }
+  },
+  "drain-cleaning": {
+    name: "Limpieza de Drenajes y Destape",
+    warranty: "Garantía de 30 días en el drenaje destapado.",
+    exclusions: ["Reparación o reemplazo de tuberías", "Problemas del sistema séptico", "Reemplazo de la línea principal de alcantarillado"],
+    baseScope: [
+      "Diagnosticar el origen y la ubicación de la obstrucción.",
+      "Seleccionar el método de destape adecuado para el tipo de obstrucción.",
+      "Destapar el drenaje con sonda/barrena o hidrolimpieza a presión.",
+      "Enjuagar el drenaje con agua para verificar el flujo.",
+      "Limpiar los componentes accesibles del drenaje.",
+      "Probar el funcionamiento del drenaje en uso normal.",
+      "Dar recomendaciones de prevención.",
+      "Limpiar el área de trabajo."
+    ],
+    options: {
+      "camera-inspection": { label: "Inspección con Cámara de Video", scopeAddition: "Realizar inspección con cámara de video de la línea de drenaje para identificar problemas y documentar su estado." },
+      "multiple-drains": { label: "Drenaje Adicional (2-3 en total)", scopeAddition: "Destapar un drenaje adicional en la misma visita." }
+    }
+  },
+  "fixture-install": {
+    name: "Instalación de Accesorios de Plomería",
+    warranty: "Garantía de 1 año en mano de obra. Garantía del accesorio según el fabricante.",
+    exclusions: ["Costo del accesorio (salvo que se especifique)", "Cambios en la instalación preliminar de plomería", "Reparación de paredes"],
+    baseScope: [
+      "Cerrar el suministro de agua en la ubicación del accesorio.",
+      "Remover el accesorio existente y desecharlo.",
+      "Limpiar e inspeccionar las conexiones existentes.",
+      "Instalar el nuevo accesorio según las especificaciones del fabricante.",
+      "Conectar las líneas de suministro de agua con nuevas llaves de paso si es necesario.",
+      "Conectar el ensamble de drenaje.",
+      "Aplicar los selladores y la masilla adecuados.",
+      "Restablecer el agua y revisar que no haya fugas.",
+      "Probar el funcionamiento del accesorio.",
+      "Limpiar el área de trabajo."
+    ],
+    options: {
+      "faucet-upgrade": { label: "Instalación de Grifo Premium", scopeAddition: "Instalar grifo premium con funciones adicionales (extraíble, sin contacto, etc.)." },
+      "supply-lines": { label: "Nuevas Líneas de Suministro", scopeAddition: "Reemplazar las líneas de suministro con nuevas líneas trenzadas de acero inoxidable." }
+    }
+  },
+  "sump-pump": {
+    name: "Instalación/Reemplazo de Bomba de Sumidero",
+    warranty: "Garantía de la bomba según el fabricante. Garantía de 1 año en mano de obra.",
+    exclusions: ["Instalación de drenaje francés", "Impermeabilización de cimientos", "Excavación del pozo"],
+    baseScope: [
+      "Remover la bomba de sumidero existente (si aplica).",
+      "Inspeccionar el estado del pozo de sumidero y limpiar los residuos.",
+      "Instalar nueva bomba de sumidero sumergible.",
+      "Conectar válvula de retención para evitar el reflujo.",
+      "Conectar el tubo de descarga a la salida existente.",
+      "Conectar la bomba a un circuito dedicado o existente.",
+      "Probar el funcionamiento de la bomba y del interruptor de flotador.",
+      "Verificar la descarga correcta y que no haya fugas.",
+      "Entregar instrucciones de funcionamiento y mantenimiento."
+    ],
+    options: {
+      "battery-backup": { label: "Sistema de Respaldo con Batería", scopeAddition: "Instalar sistema de bomba de sumidero de respaldo con batería para protección durante cortes de energía." },
+      "high-water-alarm": { label: "Alarma de Nivel Alto de Agua", scopeAddition: "Instalar alarma audible de nivel alto de agua en el pozo de sumidero." }
+    }
+  },
+  "toilet-install": {
+    name: "Instalación/Reemplazo de Inodoro",
+    warranty: "Garantía de 1 año en mano de obra. Garantía del inodoro según el fabricante.",
+    exclusions: ["Costo del inodoro (salvo que esté incluido)", "Reparación de la brida si está muy corroída", "Reparación del contrapiso"],
+    baseScope: [
+      "Cerrar el suministro de agua en la llave de paso angular.",
+      "Desconectar la línea de suministro de agua del inodoro existente.",
+      "Remover el inodoro existente e inspeccionar el estado de la brida.",
+      "Limpiar la brida existente y remover la cera/junta vieja.",
+      "Instalar nuevo anillo de cera o sello sin cera.",
+      "Colocar el nuevo inodoro sobre la brida y asegurarlo con pernos de fijación.",
+      "Nivelar el inodoro y calzarlo si es necesario.",
+      "Conectar nueva línea de suministro de agua.",
+      "Abrir el agua y llenar el tanque.",
+      "Probar la descarga y revisar que no haya fugas.",
+      "Sellar con masilla la base del inodoro al piso.",
+      "Instalar nuevo asiento de inodoro.",
+      "Limpiar el área de trabajo y retirar el inodoro viejo."
+    ],
+    options: {
+      "toilet-style": {
+        label: "Estilo de Inodoro",
+        choices: [
+          { value: "standard", label: "Altura Estándar (14-15\")", scopeAddition: "Instalar inodoro de altura estándar." },
+          { value: "comfort", label: "Altura Confort (17-19\")", scopeAddition: "Instalar inodoro de altura confort/ADA (asiento de 17-19\" de altura)." },
+          { value: "elongated", label: "Taza Alargada", scopeAddition: "Instalar inodoro con taza alargada para mayor comodidad." }
+        ]
+      },
+      "flange-repair": { label: "Reparación/Reemplazo de Brida", scopeAddition: "Remover la brida dañada e instalar nueva brida de PVC o acero inoxidable." },
+      "new-angle-stop": { label: "Reemplazar Llave de Paso Angular", scopeAddition: "Reemplazar la llave de paso angular existente con nueva válvula de cuarto de vuelta." },
+      "bidet-seat": { label: "Instalación de Asiento con Bidé", scopeAddition: "Instalar asiento con bidé eléctrico, asiento calefactado y funciones de agua (se requiere tomacorriente)." }
+    }
+  },
+  "tub-shower-conversion": {
+    name: "Conversión de Tina a Ducha",
+    warranty: "Garantía de 2 años en mano de obra en todo el trabajo de plomería. Garantía del fabricante en los accesorios.",
+    exclusions: ["Trabajo de azulejo fuera del área inmediata de la ducha", "Trabajo en el tocador del baño", "Mejoras eléctricas", "Permisos"],
+    baseScope: [
+      "Cerrar el suministro de agua al baño.",
+      "Remover la tina/ducha existente y desecharla fuera del sitio.",
+      "Inspeccionar el estado de las líneas de drenaje y suministro.",
+      "Modificar la ubicación del drenaje para la base de ducha (si es necesario).",
+      "Instalar nueva trampa en P y conectarla al drenaje existente.",
+      "Instalar nueva base de ducha con la pendiente adecuada.",
+      "Conectar el nuevo drenaje de la ducha a la línea de desagüe.",
+      "Instalar nueva válvula de ducha y controles de mezcla.",
+      "Conectar las líneas de agua caliente y fría a la válvula.",
+      "Instalar placa de cemento en las paredes de la ducha.",
+      "Aplicar membrana impermeable en las áreas húmedas.",
+      "Instalar regadera, brazo y chapetón.",
+      "Probar todas las conexiones bajo presión para detectar fugas.",
+      "Restablecer el suministro de agua y verificar el funcionamiento.",
+      "Limpiar el área de trabajo."
+    ],
+    options: {
+      "toilet-replacement": { label: "Reemplazar Inodoro (Mientras Hay Acceso)", scopeAddition: "Remover el inodoro existente e instalar nuevo inodoro con anillo de cera, línea de suministro y masilla en la base." },
+      "drain-relocation": { label: "Reubicación de la Línea de Drenaje", scopeAddition: "Reubicar el drenaje de la ducha hasta 24\" de su ubicación actual; incluye corte de concreto si es sobre losa." },
+      "valve-upgrade": { label: "Mejora a Válvula Termostática", scopeAddition: "Instalar válvula mezcladora termostática con protección contra quemaduras." },
+      "handheld-shower": { label: "Agregar Regadera de Mano", scopeAddition: "Instalar barra deslizante con regadera de mano además de la regadera fija." },
+      "body-sprays": { label: "Sistema de Chorros Corporales", scopeAddition: "Instalar (3) chorros corporales montados en la pared con control de válvula dedicado." },
+      "linear-drain": { label: "Mejora a Drenaje Lineal", scopeAddition: "Instalar sistema de drenaje lineal de acero inoxidable en lugar del drenaje central estándar." }
+    }
+  },
+  "shower-tub-valve": {
+    name: "Reemplazo de Válvula de Ducha/Tina",
+    warranty: "Garantía de 1 año en mano de obra. Garantía de la válvula según el fabricante.",
+    exclusions: ["Reparación de azulejo fuera del área de acceso", "Renovación completa de la ducha", "Cambio de ubicación de la válvula"],
+    baseScope: [
+      "Cerrar el suministro de agua a la ducha/tina.",
+      "Remover la placa embellecedora y la manija para acceder a la válvula.",
+      "Cortar una abertura de acceso en la pared si no hay acceso posterior.",
+      "Remover el cartucho de la válvula existente o el cuerpo completo de la válvula.",
+      "Instalar nueva válvula de presión balanceada o cartucho.",
+      "Conectar las líneas de suministro y soldar/engarzar las conexiones.",
+      "Probar el funcionamiento de la válvula antes de cerrar la pared.",
+      "Instalar nuevo juego de acabados (chapetón, manija, caño).",
+      "Parchar la abertura de acceso con panel de yeso (listo para pintar).",
+      "Restablecer el agua y probar el funcionamiento.",
+      "Verificar que no haya fugas en ninguna conexión.",
+      "Limpiar el área de trabajo."
+    ],
+    options: {
+      "add-diverter": { label: "Agregar Desviador de Tina/Ducha", scopeAddition: "Instalar nueva válvula desviadora o caño para cambiar entre tina y ducha." },
+      "access-panel": { label: "Instalar Panel de Acceso", scopeAddition: "Instalar panel de acceso con acabado para el mantenimiento futuro de la válvula." },
+      "toilet-replacement": { label: "Reemplazar Inodoro (Adicional)", scopeAddition: "Aprovechando la visita, remover el inodoro viejo e instalar nuevo inodoro con anillo de cera, línea de suministro y asiento." }
+    }
+  }
+};
+
+/**
+ * Translated client-facing content for one job type. Lists are positional:
+ * baseScope[i] translates the English baseScope[i], scopeSections[i].items[j]
+ * translates the English section item, and so on. Missing fields fall back to
+ * the English content.
+ */
+export type JobTypeTranslation = {
   name: string;
   baseScope: string[];
+  scopeSections?: ScopeSection[];
+  included?: string[];
+  assumptions?: string[];
+  addons?: string[];
   warranty?: string;
   exclusions?: string[];
   options: Record<string, {
@@ -7794,41 +8808,48 @@ type SpanishTranslation = {
   }>;
 };
 
-// Registry of Spanish translations by trade ID
-const spanishTranslationsRegistry: Record<string, Record<string, SpanishTranslation>> = {
-  "electrical": electricalJobTypesEs,
-  "hvac": hvacJobTypesEs,
-  "painting": paintingJobTypesEs,
-  "landscaping": landscapingJobTypesEs,
+// Registry of job type translations by language, then trade ID, then job type ID
+const jobTypeTranslationsRegistry: Record<string, Record<string, Record<string, JobTypeTranslation>>> = {
+  es: {
+    "bathroom": bathroomJobTypesEs,
+    "kitchen": kitchenJobTypesEs,
+    "plumbing": plumbingJobTypesEs,
+    "electrical": electricalJobTypesEs,
+    "hvac": hvacJobTypesEs,
+    "painting": paintingJobTypesEs,
+    "landscaping": landscapingJobTypesEs,
+  },
 };
 
+/**
+ * Look up the translation of a job type, or undefined when the language,
+ * trade or job type has none.
+ */
+export function getJobTypeTranslation(language: string, tradeId: string, jobTypeId: string): JobTypeTranslation | undefined {
+  return jobTypeTranslationsRegistry[language]?.[tradeId]?.[jobTypeId];
+}
+
 /**
  * Get a localized version of a job type based on language.
- * When language is "es" (Spanish), overlays Spanish translations onto the job type.
+ * Overlays the registered translation onto the job type.
  * Returns the original job type for English or if no translation exists.
  * 
  * @param jobType - The original English job type
  * @param tradeId - The trade category ID (e.g., "electrical", "hvac")
- * @param language - The target language ("en" or "es")
+ * @param language - The target language ("en", "es", ...)
  * @returns A localized version of the job type
  */
-export function getLocalizedJobType(jobType: JobType, tradeId: string, language: "en" | "es"): JobType {
+export function getLocalizedJobType(jobType: JobType, tradeId: string, language: string): JobType {
   if (language === "en") {
     return jobType;
   }
 
-  // Get Spanish translations for this trade
-  const tradeTranslations = spanishTranslationsRegistry[tradeId];
-  if (!tradeTranslations) {
-    return jobType; // No Spanish translations for this trade
-  }
-
-  const translation = tradeTranslations[jobType.id];
+  const translation = getJobTypeTranslation(language, tradeId, jobType.id);
   if (!translation) {
-    return jobType; // No translation for this specific job type
+    return jobType; // No translation for this trade or job type
   }
 
-  // Overlay Spanish translations onto the job type
+  // Overlay translations onto the job type
   const localizedOptions: JobOption[] = jobType.options.map(option => {
     const optionTranslation = translation.options[option.id];
     if (!optionTranslation) {
@@ -7864,6 +8885,10 @@ export function getLocalizedJobType(jobType: JobType, tradeId: string, language:
     ...jobType,
     name: translation.name,
     baseScope: translation.baseScope,
+    scopeSections: translation.scopeSections || jobType.scopeSections,
+    included: translation.included || jobType.included,
+    assumptions: translation.assumptions || jobType.assumptions,
+    addons: translation.addons || jobType.addons,
     warranty: translation.warranty || jobType.warranty,
     exclusions: translation.exclusions || jobType.exclusions,
     options: localizedOptions,
@@ -7874,20 +8899,31 @@ export function getLocalizedJobType(jobType: JobType, tradeId: string, language:
  * Get all job types for a trade, localized to the specified language.
  * 
  * @param trade - The trade template
- * @param language - The target language ("en" or "es")
+ * @param language - The target language ("en", "es", ...)
  * @returns Array of localized job types
  */
-export function getLocalizedJobTypes(trade: Template, language: "en" | "es"): JobType[] {
+export function getLocalizedJobTypes(trade: Template, language: string): JobType[] {
   return trade.jobTypes.map(jobType => getLocalizedJobType(jobType, trade.id, language));
 }
 
+/**
+ * Register job type translations for a language and trade.
+ * Call this function to add a trade to an existing language or a new language.
+ * 
+ * @param language - The target language code
+ * @param tradeId - The trade category ID
+ * @param translations - The translations for this trade's job types
+ */
+export function registerJobTypeTranslations(language: string, tradeId: string, translations: Record<string, JobTypeTranslation>) {
+  jobTypeTranslationsRegistry[language] = { ...jobTypeTranslationsRegistry[language], [tradeId]: translations };
+}
+
 /**
  * Register Spanish translations for a new trade.
- * Call this function to add support for additional trades.
  * 
  * @param tradeId - The trade category ID
  * @param translations - The Spanish translations for this trade's job types
  */
-export function registerSpanishTranslations(tradeId: string, translations: Record<string, SpanishTranslation>) {
-  spanishTranslationsRegistry[tradeId] = translations;
+export function registerSpanishTranslations(tradeId: string, translations: Record<string, JobTypeTranslation>) {
+  registerJobTypeTranslations("es", tradeId, translations);
 }
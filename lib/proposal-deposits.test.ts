@@ -0,0 +1,115 @@
+/**
+ * Proposal Deposit Unit Tests
+ *
+ * Tests for deposit amounts, payment status transitions and link visibility.
+ * Run with: npx tsx lib/proposal-deposits.test.ts
+ */
+
+import {
+  applyDepositPayment,
+  depositRequestSchema,
+  getDepositAmountCents,
+  getDepositSessionPayment,
+  isDepositDue,
+} from './proposal-deposits';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// $9,000 - $11,000 range: $10,000 contract total
+const PROPOSAL = { priceLow: 9000, priceHigh: 11000, paidAmount: 0 };
+
+// ============ TESTS ============
+
+function testDepositAmount() {
+  console.log('\n--- deposit amount ---');
+  assertEqual(getDepositAmountCents(PROPOSAL, 50), 500_000, '50% of the midpoint, in cents');
+  assertEqual(getDepositAmountCents(PROPOSAL, 100), 1_000_000, '100% is the contract total');
+  assertEqual(getDepositAmountCents({ priceLow: 333, priceHigh: 333 }, 25), 8325, 'rounds to whole cents');
+
+  assert(depositRequestSchema.safeParse({ depositPercentage: 50 }).success, 'accepts whole percentages');
+  assert(!depositRequestSchema.safeParse({ depositPercentage: 0 }).success, 'rejects 0%');
+  assert(!depositRequestSchema.safeParse({ depositPercentage: 120 }).success, 'rejects over 100%');
+  assert(!depositRequestSchema.safeParse({ depositPercentage: 12.5 }).success, 'rejects fractions');
+}
+
+function testPaymentStatus() {
+  console.log('\n--- payment status ---');
+  assertEqual(applyDepositPayment(PROPOSAL, 500_000), { paidAmount: 500_000, paymentStatus: 'partial' }, 'deposit is a partial payment');
+  assertEqual(applyDepositPayment(PROPOSAL, 1_000_000), { paidAmount: 1_000_000, paymentStatus: 'paid' }, 'full amount is paid');
+  assertEqual(
+    applyDepositPayment({ ...PROPOSAL, paidAmount: 500_000 }, 500_000),
+    { paidAmount: 1_000_000, paymentStatus: 'paid' },
+    'adds to earlier payments'
+  );
+  assertEqual(applyDepositPayment({ ...PROPOSAL, paidAmount: null }, 0), { paidAmount: 0, paymentStatus: 'pending' }, 'nothing received stays pending');
+}
+
+function testDepositDue() {
+  console.log('\n--- deposit due ---');
+  assert(isDepositDue({ paymentLinkUrl: 'https://buy.stripe.com/x', paymentStatus: 'pending' }), 'pending link is due');
+  assert(!isDepositDue({ paymentLinkUrl: 'https://buy.stripe.com/x', paymentStatus: 'partial' }), 'paid deposit is not due');
+  assert(!isDepositDue({ paymentLinkUrl: null, paymentStatus: 'pending' }), 'no link, nothing due');
+}
+
+function testDepositSessionPayment() {
+  console.log('\n--- deposit session payment ---');
+  const session = { id: 'cs_1', status: 'complete', payment_status: 'paid', amount_total: 500_000, payment_intent: 'pi_1' } as const;
+  assertEqual(
+    getDepositSessionPayment(session),
+    { checkoutSessionId: 'cs_1', amountReceived: 500_000, stripePaymentIntentId: 'pi_1' },
+    'paid checkout is a deposit payment'
+  );
+  assertEqual(getDepositSessionPayment({ ...session, payment_status: 'unpaid' }), null, 'bank debits still settling are not paid yet');
+  assertEqual(getDepositSessionPayment({ ...session, status: 'open' }), null, 'unfinished checkouts are not paid');
+  assertEqual(getDepositSessionPayment({ ...session, payment_intent: null })?.stripePaymentIntentId, null, 'payment intent is optional');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Proposal Deposit Unit Tests');
+  console.log('='.repeat(50));
+
+  testDepositAmount();
+  testPaymentStatus();
+  testDepositDue();
+  testDepositSessionPayment();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,67 @@
+/**
+ * Proposal Deposit Helpers
+ * Deposit amounts and payment status for proposal payment links. Shared by
+ * the payment-link API, the Stripe webhook and the public proposal page.
+ */
+
+import type Stripe from "stripe";
+import { z } from "zod";
+import { getContractTotalCents } from "./invoices/schedule";
+
+export type ProposalPaymentStatus = "none" | "pending" | "partial" | "paid";
+
+export const depositRequestSchema = z.object({
+  depositPercentage: z.number().int().min(1).max(100),
+});
+
+/**
+ * Deposit in cents for a percentage of the contract total (midpoint of the
+ * price range, same as the invoice schedule).
+ */
+export function getDepositAmountCents(
+  proposal: { priceLow: number; priceHigh: number },
+  depositPercentage: number
+): number {
+  return Math.round((getContractTotalCents(proposal) * depositPercentage) / 100);
+}
+
+/**
+ * Add a payment to what the proposal has already received. Anything short of
+ * the contract total is partial; a 100% deposit marks the proposal paid.
+ */
+export function applyDepositPayment(
+  proposal: { priceLow: number; priceHigh: number; paidAmount: number | null },
+  amountReceived: number
+): { paidAmount: number; paymentStatus: ProposalPaymentStatus } {
+  const paidAmount = (proposal.paidAmount ?? 0) + Math.max(0, amountReceived);
+  if (paidAmount <= 0) return { paidAmount: 0, paymentStatus: "pending" };
+  if (paidAmount < getContractTotalCents(proposal)) return { paidAmount, paymentStatus: "partial" };
+  return { paidAmount, paymentStatus: "paid" };
+}
+
+// The client can still pay when a link exists and nothing has been received on it
+export function isDepositDue(proposal: { paymentLinkUrl: string | null; paymentStatus: string | null }): boolean {
+  return !!proposal.paymentLinkUrl && (proposal.paymentStatus === "pending" || proposal.paymentStatus === "none");
+}
+
+export interface DepositPayment {
+  checkoutSessionId: string;
+  amountReceived: number; // cents
+  stripePaymentIntentId: string | null;
+}
+
+/**
+ * The payment a Payment Link checkout made, or null until the money is in
+ * (bank debits complete before they settle).
+ */
+export function getDepositSessionPayment(
+  session: Pick<Stripe.Checkout.Session, "id" | "status" | "payment_status" | "amount_total" | "payment_intent">
+): DepositPayment | null {
+  if (session.status !== "complete" || session.payment_status !== "paid") return null;
+  return {
+    checkoutSessionId: session.id,
+    amountReceived: session.amount_total ?? 0,
+    stripePaymentIntentId:
+      typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id ?? null,
+  };
+}
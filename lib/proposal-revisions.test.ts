@@ -0,0 +1,191 @@
+/**
+ * Proposal Revisions Module Unit Tests
+ * 
+ * Tests for revision snapshots, diffing, and change descriptions.
+ * Run with: npx tsx lib/proposal-revisions.test.ts
+ */
+
+import {
+  buildRevisionSnapshot,
+  collectExclusions,
+  describeRevisionChange,
+  diffRevisionSnapshots,
+  touchesTrackedFields,
+} from './proposal-revisions';
+import type { ProposalLineItem } from '@shared/schema';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// ============ TEST DATA ============
+
+function lineItem(overrides: Partial<ProposalLineItem> = {}): ProposalLineItem {
+  return {
+    id: 'svc-1',
+    tradeId: 'bathroom',
+    tradeName: 'Bathroom',
+    jobTypeId: 'full-remodel',
+    jobTypeName: 'Full Bathroom Remodel',
+    jobSize: 2,
+    scope: ['Demo existing tile', 'Install new vanity'],
+    options: {},
+    priceLow: 12000,
+    priceHigh: 15000,
+    exclusions: ['Structural modifications'],
+    ...overrides,
+  };
+}
+
+const singleService = {
+  scope: ['Tear off existing shingles', 'Install synthetic underlayment'],
+  scopeSections: [],
+  priceLow: 9000,
+  priceHigh: 11000,
+  options: { ridgeVent: true, __mobile: { jobId: 1 } },
+};
+
+// ============ TESTS ============
+
+function testTouchesTrackedFields() {
+  console.log('\n--- touchesTrackedFields ---');
+  assert(touchesTrackedFields({ scope: [] }), 'scope is tracked');
+  assert(touchesTrackedFields({ priceHigh: 1 }), 'priceHigh is tracked');
+  assert(!touchesTrackedFields({ status: 'viewed' }), 'status alone is not tracked');
+  assert(!touchesTrackedFields({ clientName: 'x', scope: undefined }), 'undefined fields are ignored');
+}
+
+function testCollectExclusions() {
+  console.log('\n--- collectExclusions ---');
+  assertEqual(collectExclusions(null), [], 'null line items yield no exclusions');
+  assertEqual(
+    collectExclusions([
+      lineItem(),
+      lineItem({ id: 'svc-2', exclusions: ['Structural modifications', 'Painting'] }),
+    ]),
+    ['Structural modifications', 'Painting'],
+    'exclusions are flattened and de-duplicated'
+  );
+}
+
+function testSingleServiceDiff() {
+  console.log('\n--- diffRevisionSnapshots (single service) ---');
+  const before = buildRevisionSnapshot(singleService);
+
+  assertEqual(diffRevisionSnapshots(before, before), [], 'identical snapshots have no changes');
+
+  const after = buildRevisionSnapshot({
+    ...singleService,
+    scope: ['Tear off existing shingles', 'Install ice & water shield in valleys'],
+    priceHigh: 12000,
+    options: { ridgeVent: false, gutterGuards: true, __mobile: { jobId: 2 } },
+  });
+  const changes = diffRevisionSnapshots(before, after);
+
+  assertEqual(
+    changes.filter(c => c.field === 'scope').map(c => c.type),
+    ['added', 'removed'],
+    'scope additions and removals are detected'
+  );
+  assert(changes.some(c => c.field === 'price' && c.to.high === 12000), 'total price change is detected');
+  assert(changes.some(c => c.field === 'options' && c.key === 'gutterGuards' && c.type === 'added'), 'new option is detected');
+  assert(changes.some(c => c.field === 'options' && c.key === 'ridgeVent' && c.type === 'changed'), 'changed option is detected');
+  assert(!changes.some(c => c.field === 'options' && c.key === '__mobile'), 'internal options are ignored');
+}
+
+function testMultiServiceDiff() {
+  console.log('\n--- diffRevisionSnapshots (multi-service) ---');
+  const before = buildRevisionSnapshot({
+    scope: [],
+    lineItems: [lineItem(), lineItem({ id: 'svc-2', jobTypeName: 'Interior Painting', exclusions: [] })],
+    priceLow: 14000,
+    priceHigh: 18000,
+  });
+  const after = buildRevisionSnapshot({
+    scope: [],
+    lineItems: [
+      lineItem({ scope: ['Demo existing tile', 'Install new vanity', 'Add heated floor'], priceHigh: 16000 }),
+      lineItem({ id: 'svc-3', jobTypeName: 'Drywall Repair', exclusions: ['Painting'] }),
+    ],
+    priceLow: 24000,
+    priceHigh: 31000,
+  });
+  const changes = diffRevisionSnapshots(before, after);
+
+  assert(
+    changes.some(c => c.field === 'scope' && c.type === 'added' && c.lineItemId === 'svc-1' && c.item === 'Add heated floor'),
+    'scope additions are attributed to their line item'
+  );
+  assert(changes.some(c => c.field === 'lineItemPrice' && c.lineItemId === 'svc-1'), 'line item price change is detected');
+  assert(changes.some(c => c.field === 'lineItems' && c.type === 'added' && c.lineItemId === 'svc-3'), 'added service is detected');
+  assert(changes.some(c => c.field === 'lineItems' && c.type === 'removed' && c.lineItemId === 'svc-2'), 'removed service is detected');
+  assert(changes.some(c => c.field === 'exclusions' && c.type === 'added' && c.item === 'Painting'), 'new exclusion is detected');
+}
+
+function testDescribeRevisionChange() {
+  console.log('\n--- describeRevisionChange ---');
+  assertEqual(
+    describeRevisionChange({ field: 'price', type: 'changed', from: { low: 9000, high: 11000 }, to: { low: 9000, high: 12000 } }),
+    'Total price changed from $9,000 - $11,000 to $9,000 - $12,000',
+    'describes price changes'
+  );
+  assertEqual(
+    describeRevisionChange({ field: 'scope', type: 'removed', item: 'Haul away debris' }),
+    'Removed: Haul away debris',
+    'describes scope removals'
+  );
+  assertEqual(
+    describeRevisionChange({ field: 'options', type: 'changed', key: 'ridgeVent', from: true, to: false }),
+    'Ridge Vent changed from Yes to No',
+    'describes option changes'
+  );
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Proposal Revisions Module Unit Tests');
+  console.log('='.repeat(50));
+
+  testTouchesTrackedFields();
+  testCollectExclusions();
+  testSingleServiceDiff();
+  testMultiServiceDiff();
+  testDescribeRevisionChange();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
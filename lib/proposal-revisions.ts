@@ -0,0 +1,290 @@
+/**
+ * Proposal Revision Helpers
+ * Snapshotting and diffing of the client-facing content of a proposal.
+ * Shared by the storage layer (which records revisions), the revisions API,
+ * and the "What changed" panel on the public proposal page.
+ */
+
+import type {
+  OptionValue,
+  ProposalLineItem,
+  ProposalRevisionChange,
+  ScopeSection,
+} from "@shared/schema";
+import {
+  fillMessage,
+  formatClientCurrency,
+  getClientMessages,
+  localizeCatalogString,
+  type ClientMessages,
+} from "./client-locale";
+
+/**
+ * Proposal fields whose modification produces a new revision once the
+ * proposal has been sent.
+ */
+export const REVISION_TRACKED_FIELDS = [
+  "scope",
+  "scopeSections",
+  "lineItems",
+  "priceLow",
+  "priceHigh",
+  "options",
+] as const;
+
+export type RevisionTrackedField = typeof REVISION_TRACKED_FIELDS[number];
+
+export interface ProposalRevisionSnapshot {
+  scope: string[];
+  scopeSections: ScopeSection[];
+  lineItems: ProposalLineItem[] | null;
+  priceLow: number;
+  priceHigh: number;
+  options: Record<string, OptionValue>;
+  exclusions: string[];
+}
+
+type SnapshotSource = {
+  scope: string[];
+  scopeSections?: ScopeSection[] | null;
+  lineItems?: ProposalLineItem[] | null;
+  priceLow: number;
+  priceHigh: number;
+  options?: unknown;
+};
+
+/**
+ * Returns true when an update payload touches any revision-tracked field.
+ */
+export function touchesTrackedFields(updates: Record<string, unknown>): boolean {
+  return REVISION_TRACKED_FIELDS.some((field) => updates[field] !== undefined);
+}
+
+/**
+ * Collect exclusions from line items (proposals don't store them at the top level).
+ */
+export function collectExclusions(lineItems: ProposalLineItem[] | null | undefined): string[] {
+  if (!lineItems || lineItems.length === 0) return [];
+  return Array.from(new Set(lineItems.flatMap((item) => item.exclusions || [])));
+}
+
+/**
+ * Build a revision snapshot from a proposal row (or a proposal row with updates applied).
+ */
+export function buildRevisionSnapshot(source: SnapshotSource): ProposalRevisionSnapshot {
+  const lineItems = source.lineItems && source.lineItems.length > 0 ? source.lineItems : null;
+  return {
+    scope: source.scope ?? [],
+    scopeSections: source.scopeSections ?? [],
+    lineItems,
+    priceLow: source.priceLow,
+    priceHigh: source.priceHigh,
+    options: (source.options as Record<string, OptionValue> | null) ?? {},
+    exclusions: collectExclusions(lineItems),
+  };
+}
+
+function scopeItemsOf(scope: string[], scopeSections?: ScopeSection[] | null): string[] {
+  return scopeSections && scopeSections.length > 0
+    ? scopeSections.flatMap((section) => section.items)
+    : scope;
+}
+
+function diffStringLists(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter((item) => !beforeSet.has(item)),
+    removed: before.filter((item) => !afterSet.has(item)),
+  };
+}
+
+function isClientVisibleOption(key: string): boolean {
+  // Keys prefixed with "__" carry internal metadata (e.g. __mobile)
+  return !key.startsWith("__");
+}
+
+/**
+ * Compute the client-facing changes between two snapshots.
+ */
+export function diffRevisionSnapshots(
+  before: ProposalRevisionSnapshot,
+  after: ProposalRevisionSnapshot
+): ProposalRevisionChange[] {
+  const changes: ProposalRevisionChange[] = [];
+
+  // --- Scope (per line item for multi-service, flat otherwise) ---
+  if (before.lineItems || after.lineItems) {
+    const beforeItems = new Map((before.lineItems ?? []).map((item) => [item.id, item]));
+    const afterItems = new Map((after.lineItems ?? []).map((item) => [item.id, item]));
+
+    for (const [id, item] of afterItems) {
+      const previous = beforeItems.get(id);
+      if (!previous) {
+        changes.push({
+          field: "lineItems",
+          type: "added",
+          lineItemId: id,
+          lineItemName: item.jobTypeName,
+          priceLow: item.priceLow,
+          priceHigh: item.priceHigh,
+        });
+        continue;
+      }
+
+      const scopeDiff = diffStringLists(
+        scopeItemsOf(previous.scope, previous.scopeSections),
+        scopeItemsOf(item.scope, item.scopeSections)
+      );
+      for (const added of scopeDiff.added) {
+        changes.push({ field: "scope", type: "added", item: added, lineItemId: id, lineItemName: item.jobTypeName });
+      }
+      for (const removed of scopeDiff.removed) {
+        changes.push({ field: "scope", type: "removed", item: removed, lineItemId: id, lineItemName: item.jobTypeName });
+      }
+
+      if (previous.priceLow !== item.priceLow || previous.priceHigh !== item.priceHigh) {
+        changes.push({
+          field: "lineItemPrice",
+          type: "changed",
+          lineItemId: id,
+          lineItemName: item.jobTypeName,
+          from: { low: previous.priceLow, high: previous.priceHigh },
+          to: { low: item.priceLow, high: item.priceHigh },
+        });
+      }
+    }
+
+    for (const [id, item] of beforeItems) {
+      if (!afterItems.has(id)) {
+        changes.push({
+          field: "lineItems",
+          type: "removed",
+          lineItemId: id,
+          lineItemName: item.jobTypeName,
+          priceLow: item.priceLow,
+          priceHigh: item.priceHigh,
+        });
+      }
+    }
+  } else {
+    const scopeDiff = diffStringLists(
+      scopeItemsOf(before.scope, before.scopeSections),
+      scopeItemsOf(after.scope, after.scopeSections)
+    );
+    for (const added of scopeDiff.added) {
+      changes.push({ field: "scope", type: "added", item: added });
+    }
+    for (const removed of scopeDiff.removed) {
+      changes.push({ field: "scope", type: "removed", item: removed });
+    }
+  }
+
+  // --- Exclusions ---
+  const exclusionDiff = diffStringLists(before.exclusions, after.exclusions);
+  for (const added of exclusionDiff.added) {
+    changes.push({ field: "exclusions", type: "added", item: added });
+  }
+  for (const removed of exclusionDiff.removed) {
+    changes.push({ field: "exclusions", type: "removed", item: removed });
+  }
+
+  // --- Total price ---
+  if (before.priceLow !== after.priceLow || before.priceHigh !== after.priceHigh) {
+    changes.push({
+      field: "price",
+      type: "changed",
+      from: { low: before.priceLow, high: before.priceHigh },
+      to: { low: after.priceLow, high: after.priceHigh },
+    });
+  }
+
+  // --- Options ---
+  const optionKeys = new Set([...Object.keys(before.options), ...Object.keys(after.options)]);
+  for (const key of Array.from(optionKeys).sort()) {
+    if (!isClientVisibleOption(key)) continue;
+    const from = before.options[key];
+    const to = after.options[key];
+    if (from === undefined && to !== undefined) {
+      changes.push({ field: "options", type: "added", key, to });
+    } else if (from !== undefined && to === undefined) {
+      changes.push({ field: "options", type: "removed", key, from });
+    } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field: "options", type: "changed", key, from, to });
+    }
+  }
+
+  return changes;
+}
+
+function formatRange(range: { low: number; high: number }, language: string): string {
+  return range.low === range.high
+    ? formatClientCurrency(range.low, language)
+    : `${formatClientCurrency(range.low, language)} - ${formatClientCurrency(range.high, language)}`;
+}
+
+function formatOptionKey(key: string): string {
+  return key
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .replace(/^\w/, (c) => c.toUpperCase());
+}
+
+function formatOptionValue(value: OptionValue | undefined, messages: ClientMessages): string {
+  if (value === true) return messages.changeLog.yes;
+  if (value === false) return messages.changeLog.no;
+  if (typeof value === "object" && value !== null) return messages.changeLog.updated;
+  return String(value);
+}
+
+/**
+ * Human-readable, client-facing description of a single change, in the
+ * proposal's client language (English by default).
+ */
+export function describeRevisionChange(change: ProposalRevisionChange, language = "en"): string {
+  const m = getClientMessages(language);
+  const copy = m.changeLog;
+  const localize = (text: string) => localizeCatalogString(text, language);
+  switch (change.field) {
+    case "scope": {
+      const item = localize(change.item);
+      if (change.lineItemName) {
+        const service = localize(change.lineItemName);
+        return fillMessage(change.type === "added" ? copy.scopeAddedTo : copy.scopeRemovedFrom, { service, item });
+      }
+      return fillMessage(change.type === "added" ? copy.scopeAdded : copy.scopeRemoved, { item });
+    }
+    case "exclusions":
+      return fillMessage(change.type === "added" ? copy.nowExcluded : copy.noLongerExcluded, {
+        item: localize(change.item),
+      });
+    case "lineItems":
+      return change.type === "added"
+        ? fillMessage(copy.serviceAdded, {
+          service: localize(change.lineItemName),
+          price: formatRange({ low: change.priceLow, high: change.priceHigh }, language),
+        })
+        : fillMessage(copy.serviceRemoved, { service: localize(change.lineItemName) });
+    case "lineItemPrice":
+      return fillMessage(copy.servicePriceChanged, {
+        service: localize(change.lineItemName),
+        from: formatRange(change.from, language),
+        to: formatRange(change.to, language),
+      });
+    case "price":
+      return fillMessage(copy.totalPriceChanged, {
+        from: formatRange(change.from, language),
+        to: formatRange(change.to, language),
+      });
+    case "options": {
+      const option = formatOptionKey(change.key);
+      if (change.type === "added") return fillMessage(copy.optionSet, { option, value: formatOptionValue(change.to, m) });
+      if (change.type === "removed") return fillMessage(copy.optionRemoved, { option });
+      return fillMessage(copy.optionChanged, {
+        option,
+        from: formatOptionValue(change.from, m),
+        to: formatOptionValue(change.to, m),
+      });
+    }
+  }
+}
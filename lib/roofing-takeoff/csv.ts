@@ -0,0 +1,62 @@
+/**
+ * Supplier Order CSV
+ *
+ * Formats a roofing takeoff as a CSV order sheet for emailing or uploading to
+ * a supplier. Safe to import from client and server code.
+ */
+
+import type { RoofingTakeoff } from "./takeoff";
+
+export interface SupplierCsvContext {
+  jobId?: string | number;
+  address?: string | null;
+}
+
+const CSV_HEADER = ["Item", "Order Qty", "Unit", "Measured", "Measured Unit", "Waste %", "Coverage"];
+
+const MEASURED_UNIT_LABELS = {
+  sq_ft: "sq ft",
+  linear_ft: "LF",
+  each: "each",
+} as const;
+
+function escapeCsvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(cells: Array<string | number>): string {
+  return cells.map(escapeCsvCell).join(",");
+}
+
+export function takeoffToSupplierCsv(takeoff: RoofingTakeoff, context: SupplierCsvContext = {}): string {
+  const rows: string[] = [];
+
+  // Job details ahead of the order lines so the sheet stands on its own
+  if (context.jobId !== undefined) rows.push(toCsvRow(["Job", context.jobId]));
+  if (context.address) rows.push(toCsvRow(["Address", context.address]));
+  rows.push(toCsvRow(["Roof area (sq ft)", takeoff.roofAreaSqFt]));
+  rows.push(toCsvRow(["Order squares", takeoff.orderSquares]));
+  rows.push("");
+
+  rows.push(toCsvRow(CSV_HEADER));
+  for (const item of takeoff.items) {
+    rows.push(
+      toCsvRow([
+        item.description,
+        item.orderQuantity,
+        item.orderUnit,
+        item.measuredQuantity,
+        MEASURED_UNIT_LABELS[item.measuredUnit],
+        item.wastePercent,
+        item.coverage,
+      ])
+    );
+  }
+
+  return rows.join("\r\n") + "\r\n";
+}
+
+export function supplierCsvFilename(jobId: string | number): string {
+  return `roof-materials-job-${jobId}.csv`;
+}
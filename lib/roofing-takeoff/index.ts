@@ -0,0 +1,10 @@
+/**
+ * Roofing Takeoff Module
+ * 
+ * Server-side only module for roofing material takeoffs.
+ * Client code should import pure helpers from './takeoff' and './csv' directly.
+ */
+
+export * from './takeoff';
+export * from './csv';
+export { getRoofingWasteConfig, updateRoofingWasteConfig } from './storage';
@@ -0,0 +1,32 @@
+/**
+ * Roofing Takeoff Storage Service
+ *
+ * Per-user waste settings for the roofing material takeoff.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import { users, type RoofingWasteConfig } from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+// Null when the user keeps the defaults, undefined when the user doesn't exist
+export async function getRoofingWasteConfig(userId: string): Promise<RoofingWasteConfig | null | undefined> {
+  const [row] = await db
+    .select({ roofingWasteConfig: users.roofingWasteConfig })
+    .from(users)
+    .where(eq(users.id, userId));
+  return row ? row.roofingWasteConfig : undefined;
+}
+
+// Pass null to go back to the defaults
+export async function updateRoofingWasteConfig(
+  userId: string,
+  roofingWasteConfig: RoofingWasteConfig | null
+): Promise<RoofingWasteConfig | null | undefined> {
+  const [row] = await db
+    .update(users)
+    .set({ roofingWasteConfig, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning({ roofingWasteConfig: users.roofingWasteConfig });
+  return row ? row.roofingWasteConfig : undefined;
+}
@@ -0,0 +1,186 @@
+/**
+ * Roofing Takeoff Unit Tests
+ *
+ * Tests for waste by complexity and pitch, accessory quantities, per-user
+ * overrides and the supplier CSV.
+ * Run with: npx tsx lib/roofing-takeoff/takeoff.test.ts
+ */
+
+import type { RoofingMeasurements } from '@shared/schema';
+import { supplierCsvFilename, takeoffToSupplierCsv } from './csv';
+import {
+  classifyRoofComplexity,
+  computeRoofingTakeoff,
+  formatOrderQuantity,
+  getPitchTier,
+  parsePitchRise,
+  resolveRoofingWasteConfig,
+  takeoffScopeItems,
+  type RoofingTakeoff,
+  type TakeoffItemId,
+} from './takeoff';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// Simple 20-square gable: 40x50 ft footprint each side
+const GABLE: RoofingMeasurements = {
+  squares: 20,
+  roofAreaSqFt: 2000,
+  pitchBreakdown: [{ pitch: '6/12', areaSqFt: 2000 }],
+  ridgesFt: 50,
+  hipsFt: 0,
+  valleysFt: 0,
+  eavesFt: 100,
+  rakesFt: 80,
+  facets: 2,
+};
+
+function qty(takeoff: RoofingTakeoff, id: TakeoffItemId): number | undefined {
+  return takeoff.items.find((item) => item.id === id)?.orderQuantity;
+}
+
+// ============ TESTS ============
+
+function testClassification() {
+  console.log('\n--- classification ---');
+  assertEqual(parsePitchRise('6/12'), 6, 'parses rise/12');
+  assertEqual(parsePitchRise('7'), 7, 'parses bare rise');
+  assertEqual(parsePitchRise('flat'), null, 'unreadable pitch is null');
+  assertEqual([3, 6, 8, 12].map(getPitchTier), ['low', 'standard', 'steep', 'very_steep'], 'pitch tiers');
+
+  assertEqual(classifyRoofComplexity(GABLE), 'simple', 'two-facet gable is simple');
+  assertEqual(classifyRoofComplexity({ ...GABLE, facets: 8, hipsFt: 60 }), 'moderate', 'hip roof is moderate');
+  assertEqual(classifyRoofComplexity({ ...GABLE, facets: 18 }), 'complex', 'many facets is complex');
+  assertEqual(classifyRoofComplexity({ ...GABLE, hipsFt: 80, valleysFt: 60 }), 'complex', 'heavy hip/valley cutting is complex');
+}
+
+function testShingles() {
+  console.log('\n--- shingles ---');
+  const gable = computeRoofingTakeoff(GABLE);
+  assertEqual(gable.shingleWastePercent, 10, 'simple roof uses simple waste');
+  assertEqual(qty(gable, 'shingles'), 66, '20 squares + 10% = 66 bundles');
+  assertEqual(gable.orderSquares, 22, 'order squares from bundles');
+
+  const steep = computeRoofingTakeoff({ ...GABLE, pitchBreakdown: [{ pitch: '10/12', areaSqFt: 2000 }] });
+  assertEqual(steep.shingleWastePercent, 15, 'very steep pitch adds to waste');
+
+  const mixed = computeRoofingTakeoff({
+    ...GABLE,
+    pitchBreakdown: [
+      { pitch: '8/12', areaSqFt: 1000 },
+      { pitch: '6/12', areaSqFt: 1000 },
+    ],
+  });
+  assertEqual(mixed.shingleWastePercent, 11.5, 'pitch waste is area-weighted');
+
+  const fallback = computeRoofingTakeoff({ ...GABLE, pitchBreakdown: [], predominantPitch: '9/12' });
+  assertEqual(fallback.shingleWastePercent, 13, 'falls back to predominant pitch');
+}
+
+function testAccessories() {
+  console.log('\n--- accessories ---');
+  const gable = computeRoofingTakeoff(GABLE);
+  assertEqual(qty(gable, 'starter_strip'), 2, 'starter covers eaves and rakes');
+  assertEqual(qty(gable, 'ridge_cap'), 3, 'ridge cap at 25 LF per bundle with waste');
+  assertEqual(qty(gable, 'drip_edge'), 19, 'drip edge in 10 ft pieces');
+  assertEqual(qty(gable, 'ice_water_shield'), 2, 'ice & water along the eaves');
+  assertEqual(qty(gable, 'underlayment'), 2, 'underlayment covers the rest');
+  assertEqual(qty(gable, 'coil_nails'), 1, 'one box of nails');
+  assertEqual(qty(gable, 'step_flashing'), undefined, 'no step flashing without walls');
+
+  const valleys = computeRoofingTakeoff({ ...GABLE, valleysFt: 60, stepFlashingFt: 20, dripEdgeFt: 200 });
+  assertEqual(qty(valleys, 'ice_water_shield'), 3, 'valleys add ice & water');
+  assertEqual(qty(valleys, 'step_flashing'), 1, 'step flashing from wall footage');
+  assertEqual(qty(valleys, 'drip_edge'), 21, 'reported drip edge wins');
+
+  const lowSlope = computeRoofingTakeoff({
+    ...GABLE,
+    pitchBreakdown: [
+      { pitch: '2/12', areaSqFt: 500 },
+      { pitch: '6/12', areaSqFt: 1500 },
+    ],
+  });
+  assertEqual(lowSlope.lowSlopeAreaSqFt, 500, 'tracks low-slope area');
+  assertEqual(qty(lowSlope, 'ice_water_shield'), 5, 'low slope gets full ice & water');
+  assertEqual(qty(lowSlope, 'underlayment'), 2, 'underlayment excludes ice & water area');
+}
+
+function testWasteConfig() {
+  console.log('\n--- waste config ---');
+  assertEqual(resolveRoofingWasteConfig({ shingleSimple: 5 }).shingleSimple, 5, 'override applies');
+  assertEqual(resolveRoofingWasteConfig({ shingleSimple: 5 }).accessories, 5, 'unset fields use defaults');
+  assertEqual(resolveRoofingWasteConfig({ shingleSimple: -1 }).shingleSimple, 10, 'negative values are ignored');
+  assertEqual(resolveRoofingWasteConfig(null).shingleComplex, 15, 'null uses defaults');
+
+  const lean = computeRoofingTakeoff(GABLE, { shingleSimple: 5 });
+  assertEqual(qty(lean, 'shingles'), 63, 'user waste changes bundle count');
+  const noWaste = computeRoofingTakeoff(GABLE, { shingleSimple: 0 });
+  assertEqual(qty(noWaste, 'shingles'), 60, 'exact squares do not round up a bundle');
+}
+
+function testOutput() {
+  console.log('\n--- output ---');
+  const takeoff = computeRoofingTakeoff(GABLE);
+  const scope = takeoffScopeItems(takeoff);
+  assertEqual(scope.length, takeoff.items.length, 'one scope line per item');
+  assert(scope[0].includes('66 bundles') && scope[0].includes('10% waste'), 'shingle line shows bundles and waste');
+  assertEqual(formatOrderQuantity({ orderQuantity: 1, orderUnit: 'box' }), '1 box', 'singular unit');
+
+  const csv = takeoffToSupplierCsv(takeoff, { jobId: 12, address: '1 Main St, Austin, TX' });
+  const lines = csv.trim().split('\r\n');
+  assertEqual(lines[1], 'Address,"1 Main St, Austin, TX"', 'cells with commas are quoted');
+  assert(lines.includes('Item,Order Qty,Unit,Measured,Measured Unit,Waste %,Coverage'), 'has header row');
+  assert(lines.some((line) => line.startsWith('Architectural shingles,66,bundle,2000,sq ft,10,')), 'shingle row');
+  assertEqual(supplierCsvFilename(12), 'roof-materials-job-12.csv', 'filename includes job id');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Roofing Takeoff Unit Tests');
+  console.log('='.repeat(50));
+
+  testClassification();
+  testShingles();
+  testAccessories();
+  testWasteConfig();
+  testOutput();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
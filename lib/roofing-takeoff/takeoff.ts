@@ -0,0 +1,313 @@
+/**
+ * Roofing Material Takeoff
+ *
+ * Turns normalized EagleView RoofingMeasurements into an order list:
+ * shingle bundles (waste by complexity and pitch), underlayment, ice & water
+ * shield, starter strip, ridge cap, drip edge, step flashing and nails.
+ *
+ * Pure module - safe to import from client and server code.
+ */
+
+import type { RoofingMeasurements, RoofingWasteConfig, ScopeSection } from "@shared/schema";
+
+export type RoofComplexity = "simple" | "moderate" | "complex";
+export type PitchTier = "low" | "standard" | "steep" | "very_steep";
+
+export type TakeoffItemId =
+  | "shingles"
+  | "underlayment"
+  | "ice_water_shield"
+  | "starter_strip"
+  | "ridge_cap"
+  | "drip_edge"
+  | "step_flashing"
+  | "coil_nails";
+
+export type TakeoffOrderUnit = "bundle" | "roll" | "piece" | "box";
+
+export interface TakeoffItem {
+  id: TakeoffItemId;
+  description: string;
+  // What was measured, before waste
+  measuredQuantity: number;
+  measuredUnit: "sq_ft" | "linear_ft" | "each";
+  wastePercent: number;
+  // What to order, rounded up to whole units
+  orderQuantity: number;
+  orderUnit: TakeoffOrderUnit;
+  coverage: string;
+}
+
+export interface RoofingTakeoff {
+  complexity: RoofComplexity;
+  // Shingle waste actually applied (complexity + area-weighted pitch)
+  shingleWastePercent: number;
+  roofAreaSqFt: number;
+  // Shingle squares to order, including waste
+  orderSquares: number;
+  // Area below 4/12 covered with ice & water shield instead of underlayment
+  lowSlopeAreaSqFt: number;
+  items: TakeoffItem[];
+}
+
+export const DEFAULT_ROOFING_WASTE_CONFIG: Required<RoofingWasteConfig> = {
+  shingleSimple: 10,
+  shingleModerate: 12,
+  shingleComplex: 15,
+  steepPitch: 3,
+  verySteepPitch: 5,
+  underlayment: 10,
+  accessories: 5,
+};
+
+// Coverage per order unit
+const SQ_FT_PER_SHINGLE_BUNDLE = 100 / 3;
+const SQ_FT_PER_UNDERLAYMENT_ROLL = 1000;
+const SQ_FT_PER_ICE_WATER_ROLL = 200; // 36" x 66.7'
+const LF_PER_STARTER_BUNDLE = 100;
+const LF_PER_RIDGE_CAP_BUNDLE = 25;
+const LF_PER_DRIP_EDGE_PIECE = 10;
+const STEP_FLASHING_PER_BUNDLE = 100;
+const NAILS_PER_BOX = 7200;
+
+// Ice & water shield width along valleys and up from the eaves
+const ICE_WATER_WIDTH_FT = 3;
+// One step flashing piece per shingle course (5-5/8" exposure)
+const STEP_FLASHING_PER_LF = 12 / 5.625;
+// Four nails per shingle, ~80 shingles per square; six per shingle on steep slopes
+const NAILS_PER_SQUARE = 320;
+const NAILS_PER_SQUARE_STEEP = 480;
+
+/**
+ * Fill unset fields with the defaults
+ */
+export function resolveRoofingWasteConfig(config?: RoofingWasteConfig | null): Required<RoofingWasteConfig> {
+  const resolved = { ...DEFAULT_ROOFING_WASTE_CONFIG };
+  for (const key of Object.keys(resolved) as Array<keyof RoofingWasteConfig>) {
+    const value = config?.[key];
+    if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+      resolved[key] = value;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Rise per 12 from a pitch label like "6/12" (or "6"); null when unreadable
+ */
+export function parsePitchRise(pitch: string | null | undefined): number | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(?:\/\s*12\s*)?$/.exec(pitch ?? "");
+  return match ? Number(match[1]) : null;
+}
+
+export function getPitchTier(rise: number): PitchTier {
+  if (rise < 4) return "low";
+  if (rise < 8) return "standard";
+  if (rise < 10) return "steep";
+  return "very_steep";
+}
+
+/**
+ * Roof complexity from facet count and how much hip/valley cutting there is
+ * per square.
+ */
+export function classifyRoofComplexity(measurements: RoofingMeasurements): RoofComplexity {
+  const squares = measurements.squares > 0 ? measurements.squares : measurements.roofAreaSqFt / 100;
+  const cutLinesPerSquare = squares > 0 ? (measurements.hipsFt + measurements.valleysFt) / squares : 0;
+  const facets = measurements.facets ?? 0;
+
+  if (facets >= 15 || cutLinesPerSquare >= 6) return "complex";
+  if (facets <= 4 && cutLinesPerSquare < 2) return "simple";
+  return "moderate";
+}
+
+/**
+ * Pitch areas, falling back to the whole roof at the predominant pitch when
+ * the report has no breakdown
+ */
+function getPitchAreas(measurements: RoofingMeasurements): Array<{ rise: number | null; areaSqFt: number }> {
+  if (measurements.pitchBreakdown.length > 0) {
+    return measurements.pitchBreakdown.map((p) => ({ rise: parsePitchRise(p.pitch), areaSqFt: p.areaSqFt }));
+  }
+  return [{ rise: parsePitchRise(measurements.predominantPitch), areaSqFt: measurements.roofAreaSqFt }];
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function orderUnits(measured: number, wastePercent: number, perUnit: number): number {
+  if (measured <= 0) return 0;
+  // Tolerate float noise so exact multiples don't round up a whole unit
+  return Math.ceil((measured * (1 + wastePercent / 100)) / perUnit - 1e-9);
+}
+
+/**
+ * Compute the material takeoff. Items with nothing to order are left out.
+ */
+export function computeRoofingTakeoff(
+  measurements: RoofingMeasurements,
+  config?: RoofingWasteConfig | null
+): RoofingTakeoff {
+  const waste = resolveRoofingWasteConfig(config);
+  const complexity = classifyRoofComplexity(measurements);
+  const roofArea = Math.max(0, measurements.roofAreaSqFt);
+
+  // Area-weighted pitch waste and low-slope area
+  const pitchAreas = getPitchAreas(measurements);
+  const pitchedArea = pitchAreas.reduce((sum, p) => sum + p.areaSqFt, 0);
+  let pitchWeighted = 0;
+  let lowSlopeArea = 0;
+  let steepArea = 0;
+  for (const { rise, areaSqFt } of pitchAreas) {
+    if (rise === null) continue;
+    const tier = getPitchTier(rise);
+    if (tier === "low") lowSlopeArea += areaSqFt;
+    if (tier === "steep") pitchWeighted += areaSqFt * waste.steepPitch;
+    if (tier === "very_steep") pitchWeighted += areaSqFt * waste.verySteepPitch;
+    if (tier === "steep" || tier === "very_steep") steepArea += areaSqFt;
+  }
+  const pitchWaste = pitchedArea > 0 ? pitchWeighted / pitchedArea : 0;
+  const complexityWaste =
+    complexity === "simple" ? waste.shingleSimple : complexity === "moderate" ? waste.shingleModerate : waste.shingleComplex;
+  const shingleWaste = round1(complexityWaste + pitchWaste);
+  lowSlopeArea = Math.min(lowSlopeArea, roofArea);
+
+  const shingleBundles = orderUnits(roofArea, shingleWaste, SQ_FT_PER_SHINGLE_BUNDLE);
+  const orderSquares = round1(shingleBundles / 3);
+
+  const iceWaterArea = Math.min(
+    roofArea,
+    (measurements.valleysFt + measurements.eavesFt) * ICE_WATER_WIDTH_FT + lowSlopeArea
+  );
+  const underlaymentArea = Math.max(0, roofArea - iceWaterArea);
+  const starterLF = measurements.eavesFt + measurements.rakesFt;
+  const ridgeCapLF = measurements.ridgesFt + measurements.hipsFt;
+  const dripEdgeLF = measurements.dripEdgeFt ?? measurements.eavesFt + measurements.rakesFt;
+  const stepFlashingLF = measurements.stepFlashingFt ?? 0;
+  const stepFlashingPieces = Math.ceil(stepFlashingLF * STEP_FLASHING_PER_LF);
+
+  // Steep share of the roof takes six nails per shingle
+  const steepShare = pitchedArea > 0 ? steepArea / pitchedArea : 0;
+  const nails = orderSquares * (NAILS_PER_SQUARE * (1 - steepShare) + NAILS_PER_SQUARE_STEEP * steepShare);
+
+  const items: TakeoffItem[] = [
+    {
+      id: "shingles",
+      description: "Architectural shingles",
+      measuredQuantity: round1(roofArea),
+      measuredUnit: "sq_ft",
+      wastePercent: shingleWaste,
+      orderQuantity: shingleBundles,
+      orderUnit: "bundle",
+      coverage: "3 bundles per square",
+    },
+    {
+      id: "underlayment",
+      description: "Synthetic underlayment",
+      measuredQuantity: round1(underlaymentArea),
+      measuredUnit: "sq_ft",
+      wastePercent: waste.underlayment,
+      orderQuantity: orderUnits(underlaymentArea, waste.underlayment, SQ_FT_PER_UNDERLAYMENT_ROLL),
+      orderUnit: "roll",
+      coverage: "1,000 sq ft per roll",
+    },
+    {
+      id: "ice_water_shield",
+      description: "Ice & water shield (valleys, eaves, low slope)",
+      measuredQuantity: round1(iceWaterArea),
+      measuredUnit: "sq_ft",
+      wastePercent: waste.underlayment,
+      orderQuantity: orderUnits(iceWaterArea, waste.underlayment, SQ_FT_PER_ICE_WATER_ROLL),
+      orderUnit: "roll",
+      coverage: "200 sq ft per roll",
+    },
+    {
+      id: "starter_strip",
+      description: "Starter strip (eaves and rakes)",
+      measuredQuantity: round1(starterLF),
+      measuredUnit: "linear_ft",
+      wastePercent: waste.accessories,
+      orderQuantity: orderUnits(starterLF, waste.accessories, LF_PER_STARTER_BUNDLE),
+      orderUnit: "bundle",
+      coverage: "100 LF per bundle",
+    },
+    {
+      id: "ridge_cap",
+      description: "Hip & ridge cap shingles",
+      measuredQuantity: round1(ridgeCapLF),
+      measuredUnit: "linear_ft",
+      wastePercent: waste.accessories,
+      orderQuantity: orderUnits(ridgeCapLF, waste.accessories, LF_PER_RIDGE_CAP_BUNDLE),
+      orderUnit: "bundle",
+      coverage: "25 LF per bundle",
+    },
+    {
+      id: "drip_edge",
+      description: "Drip edge",
+      measuredQuantity: round1(dripEdgeLF),
+      measuredUnit: "linear_ft",
+      wastePercent: waste.accessories,
+      orderQuantity: orderUnits(dripEdgeLF, waste.accessories, LF_PER_DRIP_EDGE_PIECE),
+      orderUnit: "piece",
+      coverage: "10 ft per piece",
+    },
+    {
+      id: "step_flashing",
+      description: "Step flashing",
+      measuredQuantity: stepFlashingPieces,
+      measuredUnit: "each",
+      wastePercent: waste.accessories,
+      orderQuantity: orderUnits(stepFlashingPieces, waste.accessories, STEP_FLASHING_PER_BUNDLE),
+      orderUnit: "bundle",
+      coverage: "100 pieces per bundle",
+    },
+    {
+      id: "coil_nails",
+      description: "Coil roofing nails 1-1/4\"",
+      measuredQuantity: Math.round(nails),
+      measuredUnit: "each",
+      wastePercent: 0,
+      orderQuantity: orderUnits(nails, 0, NAILS_PER_BOX),
+      orderUnit: "box",
+      coverage: "7,200 nails per box",
+    },
+  ];
+
+  return {
+    complexity,
+    shingleWastePercent: shingleWaste,
+    roofAreaSqFt: round1(roofArea),
+    orderSquares,
+    lowSlopeAreaSqFt: round1(lowSlopeArea),
+    items: items.filter((item) => item.orderQuantity > 0),
+  };
+}
+
+const ORDER_UNIT_LABELS: Record<TakeoffOrderUnit, [string, string]> = {
+  bundle: ["bundle", "bundles"],
+  roll: ["roll", "rolls"],
+  piece: ["piece", "pieces"],
+  box: ["box", "boxes"],
+};
+
+export function formatOrderQuantity(item: Pick<TakeoffItem, "orderQuantity" | "orderUnit">): string {
+  const [singular, plural] = ORDER_UNIT_LABELS[item.orderUnit];
+  return `${item.orderQuantity.toLocaleString("en-US")} ${item.orderQuantity === 1 ? singular : plural}`;
+}
+
+/**
+ * Material lines for the roofing line item's scope
+ */
+export function takeoffScopeItems(takeoff: RoofingTakeoff): string[] {
+  return takeoff.items.map((item) => {
+    if (item.id === "shingles") {
+      return `${item.description}: ${formatOrderQuantity(item)} (${takeoff.orderSquares} squares incl. ${item.wastePercent}% waste).`;
+    }
+    return `${item.description}: ${formatOrderQuantity(item)}.`;
+  });
+}
+
+export function takeoffScopeSection(takeoff: RoofingTakeoff): ScopeSection {
+  return { title: "Materials", items: takeoffScopeItems(takeoff) };
+}
@@ -0,0 +1,15 @@
+/**
+ * Secrets Module
+ * 
+ * Server-side only module for encrypted per-user third-party credentials.
+ */
+
+export * from './vault';
+export {
+  USER_SECRETS,
+  setUserSecret,
+  revealUserSecret,
+  reencryptUserSecret,
+  type UserSecretName,
+  type SecretActor,
+} from './user-secrets';
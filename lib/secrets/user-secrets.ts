@@ -0,0 +1,134 @@
+/**
+ * User Secrets Service
+ *
+ * Reads and writes per-user third-party credentials through the vault, and
+ * records every set, rotation and use in the audit log.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import { storage } from "@/lib/services/storage";
+import { users, type User } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import {
+  decryptSecret,
+  encryptSecret,
+  getSecretKeyId,
+  isEncryptedSecret,
+  loadKeyring,
+  maskSecret,
+  reencryptSecret,
+  type Keyring,
+} from "./vault";
+
+// Every per-user secret column, keyed by the name used in audit entries
+export const USER_SECRETS = {
+  stripe_secret_key: { column: "userStripeSecretKey" },
+} as const satisfies Record<string, { column: keyof User }>;
+
+export type UserSecretName = keyof typeof USER_SECRETS;
+
+export interface SecretActor {
+  id?: string | null;
+  email?: string | null;
+}
+
+// Bound into the ciphertext so a value copied to another user or column fails
+function secretContext(name: UserSecretName, userId: string): string {
+  return `users.${name}:${userId}`;
+}
+
+async function writeSecretColumn(userId: string, name: UserSecretName, value: string | null): Promise<User | undefined> {
+  const [user] = await db
+    .update(users)
+    .set({ [USER_SECRETS[name].column]: value, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning();
+  return user;
+}
+
+/**
+ * Encrypt and store a secret (null clears it).
+ */
+export async function setUserSecret(
+  user: Pick<User, "id" | "email">,
+  name: UserSecretName,
+  plaintext: string | null,
+  actor: SecretActor = { id: user.id, email: user.email }
+): Promise<User | undefined> {
+  const stored = plaintext === null ? null : encryptSecret(plaintext, secretContext(name, user.id));
+  const updated = await writeSecretColumn(user.id, name, stored);
+
+  if (updated) {
+    await storage.createAuditLog({
+      actorId: actor.id ?? null,
+      actorEmail: actor.email ?? undefined,
+      targetUserId: user.id,
+      targetUserEmail: user.email ?? undefined,
+      action: plaintext === null ? "SECRET_CLEARED" : "SECRET_SET",
+      resourceType: "secret",
+      resourceValue: name,
+      newValue: plaintext === null ? null : maskSecret(plaintext),
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Decrypt a secret for use. Each call is audited with what it was used for
+ * (e.g. { purpose: "payment_link", proposalId }). Rows not yet migrated by
+ * scripts/encrypt-user-secrets.ts are still plaintext and returned as-is.
+ */
+export async function revealUserSecret(
+  user: Pick<User, "id" | "email"> & Partial<Pick<User, (typeof USER_SECRETS)[UserSecretName]["column"]>>,
+  name: UserSecretName,
+  usage: { purpose: string; [key: string]: unknown }
+): Promise<string | null> {
+  const stored = user[USER_SECRETS[name].column];
+  if (!stored) return null;
+
+  const plaintext = isEncryptedSecret(stored) ? decryptSecret(stored, secretContext(name, user.id)) : stored;
+
+  await storage.createAuditLog({
+    actorId: null,
+    targetUserId: user.id,
+    targetUserEmail: user.email ?? undefined,
+    action: "SECRET_USED",
+    resourceType: "secret",
+    resourceValue: name,
+    metadata: usage,
+  });
+
+  return plaintext;
+}
+
+/**
+ * Move a stored secret onto the current KEK (encrypting legacy plaintext).
+ * Returns false when it was already current.
+ */
+export async function reencryptUserSecret(
+  user: Pick<User, "id" | "email"> & Partial<Pick<User, (typeof USER_SECRETS)[UserSecretName]["column"]>>,
+  name: UserSecretName,
+  keyring: Keyring = loadKeyring()
+): Promise<boolean> {
+  const stored = user[USER_SECRETS[name].column];
+  if (!stored) return false;
+
+  const next = reencryptSecret(stored, secretContext(name, user.id), keyring);
+  if (next === stored) return false;
+
+  await writeSecretColumn(user.id, name, next);
+  await storage.createAuditLog({
+    actorId: null,
+    targetUserId: user.id,
+    targetUserEmail: user.email ?? undefined,
+    action: "SECRET_ROTATED",
+    resourceType: "secret",
+    resourceValue: name,
+    previousValue: getSecretKeyId(stored) ?? "plaintext",
+    newValue: keyring.currentKeyId,
+  });
+
+  return true;
+}
@@ -0,0 +1,149 @@
+/**
+ * Secrets Vault Unit Tests
+ *
+ * Tests for envelope encryption round-trips, context binding, tampering,
+ * KEK rotation and the env keyring.
+ * Run with: npx tsx lib/secrets/vault.test.ts
+ */
+
+import { randomBytes } from 'node:crypto';
+import {
+  decryptSecret,
+  encryptSecret,
+  getSecretKeyId,
+  isEncryptedSecret,
+  loadKeyring,
+  maskSecret,
+  needsReencryption,
+  reencryptSecret,
+} from './vault';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+function assertThrows(fn: () => unknown, message: string) {
+  try {
+    fn();
+    console.log(`❌ FAIL: ${message} (did not throw)`);
+    failed++;
+  } catch {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  }
+}
+
+const OLD_KEK = randomBytes(32).toString('base64');
+const NEW_KEK = randomBytes(32).toString('base64');
+const OLD = loadKeyring({ SECRETS_KEK: OLD_KEK, SECRETS_KEK_ID: 'k1' });
+const ROTATED = loadKeyring({ SECRETS_KEK: NEW_KEK, SECRETS_KEK_ID: 'k2', SECRETS_KEK_PREVIOUS: `k1:${OLD_KEK}` });
+
+const SECRET = 'sk_live_51Habcdefghijklmnop1234';
+const CONTEXT = 'users.stripe_secret_key:user-1';
+
+// ============ TESTS ============
+
+function testRoundTrip() {
+  console.log('\n--- round trip ---');
+  const stored = encryptSecret(SECRET, CONTEXT, OLD);
+  assert(isEncryptedSecret(stored), 'output is tagged as encrypted');
+  assert(!stored.includes('abcdefghijklmnop'), 'plaintext does not appear in output');
+  assertEqual(getSecretKeyId(stored), 'k1', 'records the KEK id');
+  assertEqual(decryptSecret(stored, CONTEXT, OLD), SECRET, 'decrypts back to the secret');
+  assert(encryptSecret(SECRET, CONTEXT, OLD) !== stored, 'fresh DEK and IV per encryption');
+  assert(!isEncryptedSecret(SECRET), 'raw keys are not treated as encrypted');
+}
+
+function testTampering() {
+  console.log('\n--- tampering ---');
+  const stored = encryptSecret(SECRET, CONTEXT, OLD);
+  assertThrows(() => decryptSecret(stored, 'users.stripe_secret_key:user-2', OLD), 'copied to another user fails');
+
+  const parts = stored.split(':');
+  const body = Buffer.from(parts[5], 'base64url');
+  body[0] ^= 1;
+  parts[5] = body.toString('base64url');
+  assertThrows(() => decryptSecret(parts.join(':'), CONTEXT, OLD), 'modified ciphertext fails');
+
+  const other = loadKeyring({ SECRETS_KEK: NEW_KEK, SECRETS_KEK_ID: 'k1' });
+  assertThrows(() => decryptSecret(stored, CONTEXT, other), 'wrong KEK fails');
+  assertThrows(() => decryptSecret('enc:v1:k1:bad', CONTEXT, OLD), 'malformed value fails');
+}
+
+function testRotation() {
+  console.log('\n--- rotation ---');
+  const stored = encryptSecret(SECRET, CONTEXT, OLD);
+  assert(needsReencryption(stored, ROTATED), 'old KEK needs re-encryption');
+  assert(!needsReencryption(stored, OLD), 'current KEK does not');
+  assert(needsReencryption(SECRET, OLD), 'plaintext needs encryption');
+
+  assertEqual(decryptSecret(stored, CONTEXT, ROTATED), SECRET, 'previous KEKs still decrypt');
+  const rewrapped = reencryptSecret(stored, CONTEXT, ROTATED);
+  assertEqual(getSecretKeyId(rewrapped), 'k2', 're-wrapped under the new KEK');
+  assertEqual(rewrapped.split(':')[5], stored.split(':')[5], 'secret ciphertext is unchanged');
+  assertEqual(decryptSecret(rewrapped, CONTEXT, ROTATED), SECRET, 're-wrapped value decrypts');
+  assertEqual(reencryptSecret(rewrapped, CONTEXT, ROTATED), rewrapped, 'current values are left alone');
+
+  const migrated = reencryptSecret(SECRET, CONTEXT, ROTATED);
+  assertEqual(decryptSecret(migrated, CONTEXT, ROTATED), SECRET, 'legacy plaintext is encrypted');
+}
+
+function testKeyring() {
+  console.log('\n--- keyring ---');
+  assertThrows(() => loadKeyring({}), 'missing SECRETS_KEK throws');
+  assertThrows(() => loadKeyring({ SECRETS_KEK: 'c2hvcnQ=' }), 'short KEK throws');
+  assertThrows(() => loadKeyring({ SECRETS_KEK: NEW_KEK, SECRETS_KEK_PREVIOUS: OLD_KEK }), 'previous keys need ids');
+  assertEqual(loadKeyring({ SECRETS_KEK: NEW_KEK }).currentKeyId, 'k1', 'default KEK id');
+  assertEqual([...ROTATED.keys.keys()].sort(), ['k1', 'k2'], 'keeps previous KEKs');
+
+  assertEqual(maskSecret(SECRET), 'sk_live_…1234', 'mask keeps prefix and last four');
+  assertEqual(maskSecret('abcdefgh'), '…efgh', 'mask without prefix');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Secrets Vault Unit Tests');
+  console.log('='.repeat(50));
+
+  testRoundTrip();
+  testTampering();
+  testRotation();
+  testKeyring();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,187 @@
+/**
+ * Secrets Vault
+ *
+ * Envelope encryption for per-user third-party credentials. Each secret gets
+ * its own data key (DEK); the DEK is wrapped with a key-encryption key (KEK)
+ * from the environment. Rotating the KEK only re-wraps DEKs - the secret
+ * ciphertext itself never changes.
+ *
+ * Stored format (single text column):
+ *   enc:v1:<kekId>:<wrapped DEK>:<iv>:<ciphertext + tag>   (base64url parts)
+ *
+ * Server-side only - uses node:crypto and reads KEKs from env.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+const PREFIX = "enc:v1";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface Keyring {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export class SecretsVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretsVaultError";
+  }
+}
+
+function decodeKey(id: string, encoded: string): Buffer {
+  const key = Buffer.from(encoded.trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new SecretsVaultError(`KEK "${id}" must be ${KEY_BYTES} bytes, base64-encoded`);
+  }
+  return key;
+}
+
+/**
+ * Build the keyring from env:
+ *   SECRETS_KEK           current KEK (base64, 32 bytes)
+ *   SECRETS_KEK_ID        id stored alongside wrapped DEKs (default "k1")
+ *   SECRETS_KEK_PREVIOUS  retired KEKs still needed for decryption, "id:base64,id:base64"
+ */
+export function loadKeyring(env: Record<string, string | undefined> = process.env): Keyring {
+  if (!env.SECRETS_KEK) {
+    throw new SecretsVaultError("SECRETS_KEK is not set. Please add it to your environment variables.");
+  }
+
+  const currentKeyId = env.SECRETS_KEK_ID?.trim() || "k1";
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (env.SECRETS_KEK_PREVIOUS ?? "").split(",")) {
+    if (!entry.trim()) continue;
+    const sep = entry.indexOf(":");
+    if (sep <= 0) {
+      throw new SecretsVaultError("SECRETS_KEK_PREVIOUS entries must look like <id>:<base64 key>");
+    }
+    const id = entry.slice(0, sep).trim();
+    keys.set(id, decodeKey(id, entry.slice(sep + 1)));
+  }
+  keys.set(currentKeyId, decodeKey(currentKeyId, env.SECRETS_KEK));
+
+  return { currentKeyId, keys };
+}
+
+let cachedKeyring: Keyring | null = null;
+
+function defaultKeyring(): Keyring {
+  if (!cachedKeyring) cachedKeyring = loadKeyring();
+  return cachedKeyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): { iv: Buffer; sealed: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, sealed: Buffer.concat([ciphertext, cipher.getAuthTag()]) };
+}
+
+function open(key: Buffer, iv: Buffer, sealed: Buffer, aad: string): Buffer {
+  if (sealed.length < TAG_BYTES) throw new SecretsVaultError("Encrypted secret is truncated");
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  try {
+    return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)), decipher.final()]);
+  } catch {
+    throw new SecretsVaultError("Encrypted secret failed authentication");
+  }
+}
+
+// DEK is wrapped as iv || ciphertext || tag
+function wrapDek(kek: Buffer, dek: Buffer, aad: string): string {
+  const { iv, sealed } = seal(kek, dek, aad);
+  return Buffer.concat([iv, sealed]).toString("base64url");
+}
+
+function unwrapDek(kek: Buffer, wrapped: string, aad: string): Buffer {
+  const bytes = Buffer.from(wrapped, "base64url");
+  return open(kek, bytes.subarray(0, IV_BYTES), bytes.subarray(IV_BYTES), aad);
+}
+
+interface ParsedSecret {
+  keyId: string;
+  wrappedDek: string;
+  iv: string;
+  sealed: string;
+}
+
+function parse(value: string): ParsedSecret {
+  const parts = value.split(":");
+  if (parts.length !== 6 || `${parts[0]}:${parts[1]}` !== PREFIX) {
+    throw new SecretsVaultError("Unrecognized encrypted secret format");
+  }
+  const [, , keyId, wrappedDek, iv, sealed] = parts;
+  return { keyId, wrappedDek, iv, sealed };
+}
+
+function getKek(keyring: Keyring, keyId: string): Buffer {
+  const kek = keyring.keys.get(keyId);
+  if (!kek) throw new SecretsVaultError(`No KEK "${keyId}" in the keyring`);
+  return kek;
+}
+
+export function isEncryptedSecret(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(`${PREFIX}:`);
+}
+
+export function getSecretKeyId(value: string): string | null {
+  return isEncryptedSecret(value) ? parse(value).keyId : null;
+}
+
+/**
+ * Encrypt a secret. `context` is bound in as associated data (e.g. the column
+ * and user id) so a ciphertext copied to another row won't decrypt.
+ */
+export function encryptSecret(plaintext: string, context: string, keyring: Keyring = defaultKeyring()): string {
+  const dek = randomBytes(KEY_BYTES);
+  const kek = getKek(keyring, keyring.currentKeyId);
+  const { iv, sealed } = seal(dek, Buffer.from(plaintext, "utf8"), context);
+
+  return [
+    PREFIX,
+    keyring.currentKeyId,
+    wrapDek(kek, dek, context),
+    iv.toString("base64url"),
+    sealed.toString("base64url"),
+  ].join(":");
+}
+
+export function decryptSecret(value: string, context: string, keyring: Keyring = defaultKeyring()): string {
+  const { keyId, wrappedDek, iv, sealed } = parse(value);
+  const dek = unwrapDek(getKek(keyring, keyId), wrappedDek, context);
+  return open(dek, Buffer.from(iv, "base64url"), Buffer.from(sealed, "base64url"), context).toString("utf8");
+}
+
+// Plaintext rows (written before the vault) and rows under a retired KEK
+export function needsReencryption(value: string, keyring: Keyring = defaultKeyring()): boolean {
+  return !isEncryptedSecret(value) || parse(value).keyId !== keyring.currentKeyId;
+}
+
+/**
+ * Bring a stored value up to the current KEK: plaintext is encrypted, and an
+ * envelope under an older KEK has its DEK re-wrapped.
+ */
+export function reencryptSecret(value: string, context: string, keyring: Keyring = defaultKeyring()): string {
+  if (!isEncryptedSecret(value)) return encryptSecret(value, context, keyring);
+
+  const { keyId, wrappedDek, iv, sealed } = parse(value);
+  if (keyId === keyring.currentKeyId) return value;
+
+  const dek = unwrapDek(getKek(keyring, keyId), wrappedDek, context);
+  return [PREFIX, keyring.currentKeyId, wrapDek(getKek(keyring, keyring.currentKeyId), dek, context), iv, sealed].join(":");
+}
+
+// Safe to log or show: prefix plus last four characters
+export function maskSecret(plaintext: string): string {
+  const underscore = plaintext.lastIndexOf("_");
+  const prefix = underscore > 0 && underscore < 12 ? plaintext.slice(0, underscore + 1) : "";
+  return `${prefix}…${plaintext.slice(-4)}`;
+}
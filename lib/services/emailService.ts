@@ -1,8 +1,15 @@
 // Email service using Resend integration
 import { Resend } from 'resend';
 import { db } from '@/lib/services/db';
-import { emailOutbox, type EmailOutboxAttachment } from '@shared/schema';
+import { emailOutbox, type EmailOutboxAttachment, type FollowUpTrigger } from '@shared/schema';
 import { logger } from '@/lib/logger';
+import {
+  fillMessage,
+  formatClientCurrency,
+  formatClientDate,
+  getClientMessages,
+  localizeCatalogString,
+} from '@/lib/client-locale';
 
 // Cache the Resend client
 let resendClient: Resend | null = null;
@@ -172,31 +179,33 @@ interface ProposalEmailData {
   proposalId?: number;
   attachments?: EmailOptions['attachments'];
   runId?: string;
+  // Proposal's client language; defaults to English
+  clientLanguage?: string | null;
 }
 
 export async function sendProposalEmail(data: ProposalEmailData): Promise<{ success: boolean; messageId?: string; error?: string }> {
-  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    maximumFractionDigits: 0
-  }).format(amount);
+  const m = getClientMessages(data.clientLanguage);
+  const copy = m.emails.proposal;
+  const formattedPrice = formatClientCurrency(data.totalPrice, data.clientLanguage);
+  const proposalTitle = localizeCatalogString(data.proposalTitle, data.clientLanguage);
+  const greeting = data.recipientName ? fillMessage(m.emails.greeting, { name: data.recipientName }) : m.emails.greetingNoName;
+  const sender = data.senderCompany || data.senderName || copy.senderFallback;
+  const messageFrom = fillMessage(copy.messageFrom, { sender: data.senderName || copy.theContractor });
 
-  const formattedPrice = formatCurrency(data.totalPrice);
-
-  const subject = `Proposal: ${data.proposalTitle} for ${data.clientName}`;
+  const subject = fillMessage(copy.subject, { title: proposalTitle, client: data.clientName });
 
   const text = `
-Hi ${data.recipientName || 'there'},
+${greeting}
 
-${data.senderCompany || data.senderName || 'We'} have prepared a proposal for you.
+${fillMessage(copy.prepared, { sender })}
 
-Project: ${data.proposalTitle}
-Total: ${formattedPrice}
+${m.emails.project}: ${proposalTitle}
+${m.emails.total}: ${formattedPrice}
 
-${data.customMessage ? `\nMessage from ${data.senderName || 'the contractor'}:\n${data.customMessage}\n` : ''}
+${data.customMessage ? `\n${messageFrom}\n${data.customMessage}\n` : ''}
 
-Best regards,
-${data.senderName || 'The Team'}
+${m.emails.closing}
+${data.senderName || copy.signOffFallback}
 ${data.senderCompany || ''}
 `.trim();
 
@@ -223,26 +232,26 @@ ${data.senderCompany || ''}
 <body>
   <div class="container">
     <div class="header">
-      <h1>New Proposal</h1>
+      <h1>${copy.heading}</h1>
     </div>
     <div class="content">
-      <p>Hi ${data.recipientName || 'there'},</p>
-      <p><strong>${data.senderCompany || data.senderName || 'We'}</strong> have prepared a proposal for your project.</p>
+      <p>${greeting}</p>
+      <p>${fillMessage(copy.preparedForProject, { sender: `<strong>${sender}</strong>` })}</p>
       
       <div class="project-card">
-        <div class="label">PROJECT</div>
-        <div class="value" style="font-size: 22px; margin-bottom: 15px;">${data.proposalTitle}</div>
+        <div class="label">${m.emails.project.toUpperCase()}</div>
+        <div class="value" style="font-size: 22px; margin-bottom: 15px;">${proposalTitle}</div>
         
-        <div class="label">CLIENT</div>
+        <div class="label">${m.emails.client.toUpperCase()}</div>
         <div class="value" style="margin-bottom: 15px;">${data.clientName}</div>
         
-        <div class="label">TOTAL</div>
+        <div class="label">${m.emails.total.toUpperCase()}</div>
         <div class="amount">${formattedPrice}</div>
       </div>
       
       ${data.customMessage ? `
       <div class="message">
-        <p style="margin: 0;"><strong>Message from ${data.senderName || 'the contractor'}:</strong></p>
+        <p style="margin: 0;"><strong>${messageFrom}</strong></p>
         <p style="margin: 10px 0 0 0;">${data.customMessage}</p>
       </div>
       ` : ''}
@@ -250,17 +259,17 @@ ${data.senderCompany || ''}
       ${data.proposalUrl ? `
       <div style="text-align: center; margin-top: 30px;">
         <a href="${data.proposalUrl}" class="button" style="display: inline-block; background: #f97316; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; font-weight: bold;">
-          View & Download Proposal
+          ${copy.viewButton}
         </a>
         <p style="margin-top: 15px; font-size: 12px; color: #666;">
-          Click the button above to view the full proposal and download it as a PDF.
+          ${copy.viewHint}
         </p>
       </div>
       ` : ''}
     </div>
     <div class="footer">
-      <p>This proposal was created with <a href="#">ScopeGen</a></p>
-      <p>Professional proposals for contractors</p>
+      <p>${fillMessage(copy.footerCreatedWith, { link: '<a href="#">ScopeGen</a>' })}</p>
+      <p>${copy.footerTagline}</p>
     </div>
   </div>
 </body>
@@ -414,6 +423,8 @@ interface ProposalAcceptedNotificationData {
   projectAddress?: string;
   totalPrice: number;
   acceptedAt: Date;
+  // Unpaid deposit link on the proposal (amount in cents)
+  deposit?: { amount: number; paymentUrl: string };
 }
 
 export async function sendProposalAcceptedNotification(
@@ -443,7 +454,7 @@ Project: ${data.projectTitle}
 ${data.projectAddress ? `Address: ${data.projectAddress}` : ''}
 Amount: ${formattedPrice}
 Accepted: ${timestamp}
-
+${data.deposit ? `\nDeposit requested: ${formatCurrency(data.deposit.amount / 100)}\nDeposit link (shown to the client on their proposal): ${data.deposit.paymentUrl}\n` : ''}
 Time to get to work! You can reach out to ${data.acceptedByName} at ${data.clientEmail} to coordinate next steps.
 `.trim();
 
@@ -509,6 +520,12 @@ Time to get to work! You can reach out to ${data.acceptedByName} at ${data.clien
           <span class="label">Accepted:</span>
           <span class="value">${timestamp}</span>
         </div>
+        ${data.deposit ? `
+        <div class="row">
+          <span class="label">Deposit Requested:</span>
+          <span class="value"><a href="${data.deposit.paymentUrl}">${formatCurrency(data.deposit.amount / 100)}</a></span>
+        </div>
+        ` : ''}
         
         <div class="cta">
           <p><strong>Next Steps</strong></p>
@@ -543,47 +560,51 @@ interface CompletedProposalEmailData {
   acceptedAt: Date;
   contractorSignedAt: Date;
   proposalUrl?: string;
+  // Unpaid deposit link on the proposal (amount in cents)
+  deposit?: { amount: number; paymentUrl: string };
+  // Proposal's client language; defaults to English
+  clientLanguage?: string | null;
 }
 
 export async function sendCompletedProposalToClient(
   data: CompletedProposalEmailData
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
-  const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    maximumFractionDigits: 0
-  }).format(amount);
+  const m = getClientMessages(data.clientLanguage);
+  const copy = m.emails.completed;
+  const formatCurrency = (amount: number) => formatClientCurrency(amount, data.clientLanguage);
 
   const formattedPrice = formatCurrency(data.totalPrice);
-  const acceptedDate = new Date(data.acceptedAt).toLocaleDateString('en-US', {
-    dateStyle: 'long'
-  });
-  const signedDate = new Date(data.contractorSignedAt).toLocaleDateString('en-US', {
-    dateStyle: 'long'
+  const projectTitle = localizeCatalogString(data.projectTitle, data.clientLanguage);
+  const acceptedDate = formatClientDate(data.acceptedAt, data.clientLanguage);
+  const signedDate = formatClientDate(data.contractorSignedAt, data.clientLanguage);
+  const greeting = fillMessage(m.emails.greeting, { name: data.clientName });
+  const nextSteps = fillMessage(copy.nextSteps, {
+    contractor: data.contractorCompany || data.contractorName || m.emails.yourContractor,
   });
+  const depositAmount = data.deposit ? formatCurrency(data.deposit.amount / 100) : '';
 
-  const subject = `Signed Proposal: ${data.projectTitle} - Ready to Begin`;
+  const subject = fillMessage(copy.subject, { title: projectTitle });
 
   const text = `
-Hi ${data.clientName},
+${greeting}
 
-Great news! Your proposal has been fully signed and the project is ready to begin.
+${copy.intro}
 
-Project: ${data.projectTitle}
-${data.projectAddress ? `Address: ${data.projectAddress}` : ''}
-Total: ${formattedPrice}
-
-You signed: ${acceptedDate}
-Contractor signed: ${signedDate}
+${m.emails.project}: ${projectTitle}
+${data.projectAddress ? `${m.emails.address}: ${data.projectAddress}` : ''}
+${m.emails.total}: ${formattedPrice}
 
-${data.proposalUrl ? `View your signed proposal: ${data.proposalUrl}` : ''}
+${copy.youSigned}: ${acceptedDate}
+${copy.contractorSigned}: ${signedDate}
 
-${data.contractorCompany || data.contractorName || 'Your contractor'} will be in touch soon to coordinate next steps.
+${data.proposalUrl ? fillMessage(copy.viewSignedLink, { url: data.proposalUrl }) : ''}
+${data.deposit ? `\n${fillMessage(copy.payDepositLink, { amount: depositAmount, url: data.deposit.paymentUrl })}\n` : ''}
+${nextSteps}
 
-Thank you for your business!
+${copy.thanks}
 
-Best regards,
-${data.contractorCompany || data.contractorName || 'Your Contractor'}
+${m.emails.closing}
+${data.contractorCompany || data.contractorName || copy.signOffFallback}
 `.trim();
 
   const html = `
@@ -613,50 +634,56 @@ ${data.contractorCompany || data.contractorName || 'Your Contractor'}
     <div class="card">
       <div class="header">
         <div class="emoji">📝✅</div>
-        <h1>Proposal Fully Signed!</h1>
+        <h1>${copy.heading}</h1>
       </div>
       <div class="content">
-        <p>Hi ${data.clientName},</p>
-        <p>Great news! Your proposal has been fully signed by both parties and the project is ready to begin.</p>
+        <p>${greeting}</p>
+        <p>${copy.introBothParties}</p>
         
         <div class="signed-badge">
-          <span>✓</span> Both signatures complete
+          <span>✓</span> ${copy.bothSignaturesComplete}
         </div>
         
         <div class="amount">${formattedPrice}</div>
         
         <div class="row">
-          <span class="label">Project</span>
-          <span class="value">${data.projectTitle}</span>
+          <span class="label">${m.emails.project}</span>
+          <span class="value">${projectTitle}</span>
         </div>
         ${data.projectAddress ? `
         <div class="row">
-          <span class="label">Address</span>
+          <span class="label">${m.emails.address}</span>
           <span class="value">${data.projectAddress}</span>
         </div>
         ` : ''}
         <div class="row">
-          <span class="label">You signed</span>
+          <span class="label">${copy.youSigned}</span>
           <span class="value">${acceptedDate}</span>
         </div>
         <div class="row">
-          <span class="label">Contractor signed</span>
+          <span class="label">${copy.contractorSigned}</span>
           <span class="value">${signedDate}</span>
         </div>
         
+        ${data.deposit ? `
+        <a href="${data.deposit.paymentUrl}" class="button">
+          ${fillMessage(copy.payDepositButton, { amount: depositAmount })}
+        </a>
+        ` : ''}
+        
         ${data.proposalUrl ? `
-        <a href="${data.proposalUrl}" class="button">
-          View Signed Proposal
+        <a href="${data.proposalUrl}" class="button"${data.deposit ? ' style="background: #1e3a5f;"' : ''}>
+          ${copy.viewSignedButton}
         </a>
         ` : ''}
         
         <p style="margin-top: 25px; font-size: 14px; color: #666;">
-          ${data.contractorCompany || data.contractorName || 'Your contractor'} will be in touch soon to coordinate next steps.
+          ${nextSteps}
         </p>
       </div>
     </div>
     <div class="footer">
-      ScopeGen - Professional Proposals for Contractors
+      ${copy.footer}
     </div>
   </div>
 </body>
@@ -690,6 +717,79 @@ ${data.contractorCompany || data.contractorName || 'Your Contractor'}
 }
 
 
+interface ProposalPhotoUnavailableEmailData {
+  contractorEmail: string;
+  contractorName?: string;
+  clientName: string;
+  projectTitle: string;
+  // Caption of the photo that couldn't be read, or its id when it has none
+  photoLabel: string;
+  proposalId: number;
+}
+
+/**
+ * Tell the contractor a client couldn't sign because one of the proposal's
+ * photos can't be read, and which one.
+ */
+export async function sendProposalPhotoUnavailableNotification(
+  data: ProposalPhotoUnavailableEmailData
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  const subject = `Action needed: ${data.clientName} couldn't sign ${data.projectTitle}`;
+
+  const text = `
+Hi${data.contractorName ? ` ${data.contractorName}` : ''},
+
+${data.clientName} tried to accept your proposal for ${data.projectTitle}, but the photo "${data.photoLabel}" couldn't be loaded, so the proposal can't be signed.
+
+Replace or remove that photo in the proposal, then ask ${data.clientName} to accept it again.
+
+Best regards,
+The ScopeGen Team
+`.trim();
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background: #f4f4f4; }
+    .container { max-width: 500px; margin: 20px auto; }
+    .card { background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+    .header { background: linear-gradient(135deg, #f97316, #ea580c); color: white; padding: 25px; text-align: center; }
+    .header h1 { margin: 0; font-size: 22px; }
+    .content { padding: 25px; }
+    .footer { text-align: center; padding: 15px; color: #999; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="card">
+      <div class="header">
+        <h1>A client couldn't sign</h1>
+      </div>
+      <div class="content">
+        <p>Hi${data.contractorName ? ` ${data.contractorName}` : ''},</p>
+        <p><strong>${data.clientName}</strong> tried to accept your proposal for <strong>${data.projectTitle}</strong>, but the photo <strong>"${data.photoLabel}"</strong> couldn't be loaded, so the proposal can't be signed.</p>
+        <p>Replace or remove that photo in the proposal, then ask ${data.clientName} to accept it again.</p>
+      </div>
+    </div>
+    <div class="footer">
+      ScopeGen Team
+    </div>
+  </div>
+</body>
+</html>
+`.trim();
+
+  return sendEmail({
+    to: data.contractorEmail,
+    subject,
+    text,
+    html,
+    proposalId: data.proposalId,
+  });
+}
+
 interface InviteEmailData {
   recipientEmail: string;
   inviterName: string;
@@ -771,12 +871,116 @@ The ScopeGen Team
   });
 }
 
+interface ProposalFollowUpEmailData {
+  recipientEmail: string;
+  recipientName?: string;
+  trigger: FollowUpTrigger;
+  proposalTitle: string;
+  proposalUrl: string;
+  validUntil?: Date | null;
+  senderName?: string;
+  senderCompany?: string;
+  proposalId?: number;
+  // Proposal's client language; defaults to English
+  clientLanguage?: string | null;
+}
+
+export async function sendProposalFollowUpEmail(
+  data: ProposalFollowUpEmailData
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  const m = getClientMessages(data.clientLanguage);
+  const sender = data.senderCompany || data.senderName || m.emails.yourContractor;
+  const title = localizeCatalogString(data.proposalTitle, data.clientLanguage);
+  const expiryDate = data.validUntil
+    ? formatClientDate(data.validUntil, data.clientLanguage, { dateStyle: 'long', timeZone: 'UTC' })
+    : null;
+  const greeting = data.recipientName ? fillMessage(m.emails.greeting, { name: data.recipientName }) : m.emails.greetingNoName;
+
+  const copy: Record<FollowUpTrigger, { subject: string; heading: string; body: string }> = {
+    unviewed: m.emails.followUp.unviewed,
+    viewed_not_accepted: m.emails.followUp.viewed_not_accepted,
+    before_expiry: {
+      ...m.emails.followUp.before_expiry,
+      body: expiryDate ? m.emails.followUp.before_expiry.body : m.emails.followUp.before_expiry.bodyNoDate,
+    },
+  };
+  const values = { title, sender, date: expiryDate ?? '' };
+  const subject = fillMessage(copy[data.trigger].subject, values);
+  const heading = fillMessage(copy[data.trigger].heading, values);
+  const body = fillMessage(copy[data.trigger].body, values);
+
+  const text = `
+${greeting}
+
+${body}
+
+${fillMessage(m.emails.followUp.viewLink, { url: data.proposalUrl })}
+
+${m.emails.closing}
+${data.senderName || sender}
+${data.senderCompany || ''}
+`.trim();
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background: #f4f4f4; }
+    .container { max-width: 500px; margin: 20px auto; }
+    .card { background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+    .header { background: #1e3a5f; color: white; padding: 25px; text-align: center; }
+    .header h1 { margin: 0; font-size: 22px; }
+    .content { padding: 25px; }
+    .button { display: block; background: #f97316; color: white; padding: 14px; text-align: center; text-decoration: none; border-radius: 8px; margin-top: 20px; font-weight: 600; }
+    .footer { text-align: center; padding: 15px; color: #999; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="card">
+      <div class="header">
+        <h1>${heading}</h1>
+      </div>
+      <div class="content">
+        <p>${greeting}</p>
+        <p>${body}</p>
+        <a href="${data.proposalUrl}" class="button" style="display: block; background: #f97316; color: white; padding: 14px; text-align: center; text-decoration: none; border-radius: 8px; font-weight: 600;">
+          ${m.emails.followUp.viewButton}
+        </a>
+      </div>
+    </div>
+    <div class="footer">
+      ${fillMessage(m.emails.followUp.footer, { sender })}
+    </div>
+  </div>
+</body>
+</html>
+`.trim();
+
+  const emailAddress = process.env.EMAIL_MODE === 'test' ? getFromEmail() : getCredentials().fromEmail;
+  const fromAddress = data.senderName
+    ? `${data.senderName} via ScopeGen <${emailAddress}>`
+    : `ScopeGen <${emailAddress}>`;
+
+  return sendEmail({
+    to: data.recipientEmail,
+    subject,
+    text,
+    html,
+    from: fromAddress,
+    proposalId: data.proposalId,
+  });
+}
+
 export const emailService = {
   sendEmail,
   sendProposalEmail,
   sendPurchaseNotification,
   sendProposalAcceptedNotification,
+  sendProposalPhotoUnavailableNotification,
   sendCompletedProposalToClient,
   sendInviteEmail,
+  sendProposalFollowUpEmail,
   testConnection,
 };
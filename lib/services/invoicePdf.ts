@@ -0,0 +1,391 @@
+import crypto from "crypto";
+import { jsPDF } from "jspdf";
+
+// Types for invoice data
+type InvoiceData = {
+  id: number;
+  invoiceNumber: string;
+  kind: string;
+  milestone: string;
+  amount: number; // cents
+  status: string;
+  issuedAt: Date | null;
+  dueDate: Date | null;
+  paidAt: Date | null;
+  paidAmount: number; // cents
+};
+
+type ProposalData = {
+  id: number;
+  clientName: string;
+  address: string;
+  jobTypeName: string;
+  priceLow: number;
+  priceHigh: number;
+};
+
+type ScheduleItem = {
+  invoiceNumber: string;
+  kind: string;
+  milestone: string;
+  amount: number; // cents
+  status: string;
+};
+
+type CompanyInfo = {
+  companyName?: string | null;
+  companyAddress?: string | null;
+  companyPhone?: string | null;
+  licenseNumber?: string | null;
+  companyLogo?: string | null;
+};
+
+const KIND_LABELS: Record<string, string> = {
+  deposit: "Deposit",
+  progress: "Progress Payment",
+  final: "Final Payment",
+};
+
+function slugifyFilenamePart(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "")
+    .slice(0, 60);
+}
+
+function formatLongDateUTC(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  }).format(date);
+}
+
+function sha256Hex(bytes: ArrayBuffer): string {
+  return crypto.createHash("sha256").update(Buffer.from(bytes)).digest("hex");
+}
+
+export function buildInvoicePdf(params: {
+  invoice: InvoiceData;
+  proposal: ProposalData;
+  /** Every invoice in the proposal's billing schedule (including this one) */
+  schedule: ScheduleItem[];
+  companyInfo: CompanyInfo | null;
+  payUrl?: string | null;
+  isPro?: boolean;
+}): { pdfBytes: ArrayBuffer; filename: string; sha256: string } {
+  const { invoice, proposal, schedule, companyInfo } = params;
+
+  const pdf = new jsPDF({
+    orientation: "portrait",
+    unit: "mm",
+    format: "letter",
+    compress: false,
+    putOnlyUsedFonts: true,
+  });
+
+  // Stabilize PDF trailer/metadata for stable bytes across requests.
+  try {
+    pdf.setCreationDate("D:20000101000000Z");
+  } catch {
+    // ignore
+  }
+  try {
+    pdf.setFileId("00000000000000000000000000000000");
+  } catch {
+    // ignore
+  }
+  try {
+    pdf.setProperties({
+      title: `Invoice ${invoice.invoiceNumber}`,
+      subject: "Invoice PDF",
+      creator: "ScopeGen",
+      author: "ScopeGen",
+      keywords: "invoice,scopegen",
+    });
+  } catch {
+    // Older jsPDF builds may not support setProperties in server mode
+  }
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const margin = 20;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  // Colors (hex format) - shared with the proposal PDF
+  const primaryColor = "#1e3a5f";
+  const textColor = "#333333";
+  const lightGray = "#666666";
+  const sectionBg = "#f8fafc";
+
+  // Helper functions
+  const setFont = (style: "normal" | "bold" = "normal", size = 10) => {
+    pdf.setFont("helvetica", style);
+    pdf.setFontSize(size);
+  };
+
+  const hexToRgb = (hex: string) => {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    return result
+      ? {
+        r: parseInt(result[1], 16),
+        g: parseInt(result[2], 16),
+        b: parseInt(result[3], 16),
+      }
+      : { r: 0, g: 0, b: 0 };
+  };
+
+  const setTextColorHex = (hex: string) => {
+    const rgb = hexToRgb(hex);
+    pdf.setTextColor(rgb.r, rgb.g, rgb.b);
+  };
+
+  const setFillColorHex = (hex: string) => {
+    const rgb = hexToRgb(hex);
+    pdf.setFillColor(rgb.r, rgb.g, rgb.b);
+  };
+
+  const setDrawColorHex = (hex: string) => {
+    const rgb = hexToRgb(hex);
+    pdf.setDrawColor(rgb.r, rgb.g, rgb.b);
+  };
+
+  const addText = (
+    text: string,
+    x: number,
+    yPos: number,
+    options?: { maxWidth?: number; align?: "left" | "center" | "right" },
+  ): number => {
+    if (options?.maxWidth) {
+      const lines = pdf.splitTextToSize(text, options.maxWidth);
+      pdf.text(lines, x, yPos, { align: options.align });
+      return lines.length * (pdf.getFontSize() * 0.4);
+    }
+    pdf.text(text, x, yPos, { align: options?.align });
+    return pdf.getFontSize() * 0.4;
+  };
+
+  // Format cents as currency
+  const formatCents = (cents: number): string => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(cents / 100);
+  };
+
+  // --- HEADER ---
+  setFillColorHex(primaryColor);
+  pdf.rect(0, 0, pageWidth, 35, "F");
+
+  pdf.setTextColor(255, 255, 255);
+  setFont("bold", 24);
+  addText("INVOICE", margin, 22);
+
+  setFont("normal", 10);
+  addText(invoice.invoiceNumber, margin, 30);
+
+  // Company info (right side of header)
+  let logoRendered = false;
+  if (companyInfo?.companyLogo) {
+    try {
+      pdf.addImage(companyInfo.companyLogo, "PNG", pageWidth - margin - 30, 5, 30, 15);
+      logoRendered = true;
+
+      if (companyInfo.companyName) {
+        pdf.setTextColor(255, 255, 255);
+        setFont("bold", 9);
+        addText(companyInfo.companyName, pageWidth - margin, 26, { align: "right" });
+      }
+    } catch (e) {
+      console.error('[PDF] Failed to add company logo:', e);
+      logoRendered = false;
+    }
+  }
+
+  if (!logoRendered && companyInfo?.companyName) {
+    pdf.setTextColor(255, 255, 255);
+    setFont("bold", 12);
+    addText(companyInfo.companyName, pageWidth - margin, 18, { align: "right" });
+
+    setFont("normal", 8);
+    let companyY = 24;
+    if (companyInfo.companyAddress) {
+      addText(companyInfo.companyAddress, pageWidth - margin, companyY, { align: "right" });
+      companyY += 4;
+    }
+    if (companyInfo.companyPhone) {
+      addText(companyInfo.companyPhone, pageWidth - margin, companyY, { align: "right" });
+      companyY += 4;
+    }
+    if (companyInfo.licenseNumber) {
+      addText(`Lic# ${companyInfo.licenseNumber}`, pageWidth - margin, companyY, { align: "right" });
+    }
+  }
+
+  y = 50;
+
+  // --- BILL TO / INVOICE DETAILS ---
+  setTextColorHex(lightGray);
+  setFont("bold", 8);
+  addText("BILL TO", margin, y);
+
+  setTextColorHex(textColor);
+  setFont("bold", 14);
+  addText(proposal.clientName, margin, y + 6);
+
+  setFont("normal", 10);
+  const addressLines = pdf.splitTextToSize(proposal.address, contentWidth / 2);
+  pdf.text(addressLines, margin, y + 11);
+
+  const details: Array<[string, string]> = [
+    ["ISSUED", invoice.issuedAt ? formatLongDateUTC(new Date(invoice.issuedAt)) : "Not yet issued"],
+    ["DUE", invoice.dueDate ? formatLongDateUTC(new Date(invoice.dueDate)) : "Upon milestone"],
+    ["PROPOSAL", `#${String(proposal.id).padStart(4, "0")}`],
+  ];
+  let detailY = y;
+  for (const [label, value] of details) {
+    setTextColorHex(lightGray);
+    setFont("bold", 8);
+    addText(label, pageWidth - margin - 50, detailY);
+    setTextColorHex(textColor);
+    setFont("normal", 10);
+    addText(value, pageWidth - margin - 50, detailY + 5);
+    detailY += 11;
+  }
+
+  y = Math.max(y + 11 + addressLines.length * 4, detailY) + 8;
+
+  // --- LINE ITEM ---
+  setFillColorHex(primaryColor);
+  pdf.rect(margin, y, contentWidth, 8, "F");
+  pdf.setTextColor(255, 255, 255);
+  setFont("bold", 10);
+  addText("DESCRIPTION", margin + 3, y + 5.5);
+  addText("AMOUNT", pageWidth - margin - 3, y + 5.5, { align: "right" });
+  y += 14;
+
+  setTextColorHex(textColor);
+  setFont("bold", 10);
+  addText(`${KIND_LABELS[invoice.kind] ?? invoice.kind}: ${invoice.milestone}`, margin + 3, y, {
+    maxWidth: contentWidth * 0.7,
+  });
+  addText(formatCents(invoice.amount), pageWidth - margin - 3, y, { align: "right" });
+
+  setTextColorHex(lightGray);
+  setFont("normal", 8);
+  addText(proposal.jobTypeName, margin + 3, y + 5, { maxWidth: contentWidth * 0.7 });
+  y += 14;
+
+  // --- BILLING SCHEDULE ---
+  setTextColorHex(lightGray);
+  setFont("bold", 8);
+  addText("BILLING SCHEDULE", margin, y);
+  y += 3;
+
+  setFillColorHex("#e2e8f0");
+  pdf.rect(margin, y, contentWidth, 7, "F");
+  setTextColorHex(textColor);
+  setFont("bold", 8);
+  addText("Invoice", margin + 3, y + 5);
+  addText("Milestone", margin + 30, y + 5);
+  addText("Status", margin + contentWidth * 0.68, y + 5);
+  addText("Amount", pageWidth - margin - 3, y + 5, { align: "right" });
+  y += 9;
+
+  schedule.forEach((item, index) => {
+    const isCurrent = item.invoiceNumber === invoice.invoiceNumber;
+    if (index % 2 === 1) {
+      setFillColorHex(sectionBg);
+      pdf.rect(margin, y - 2, contentWidth, 7, "F");
+    }
+    setTextColorHex(textColor);
+    setFont(isCurrent ? "bold" : "normal", 8);
+    addText(item.invoiceNumber, margin + 3, y + 3);
+    addText(`${KIND_LABELS[item.kind] ?? item.kind}: ${item.milestone}`, margin + 30, y + 3, {
+      maxWidth: contentWidth * 0.5,
+    });
+    addText(item.status.toUpperCase(), margin + contentWidth * 0.68, y + 3);
+    addText(formatCents(item.amount), pageWidth - margin - 3, y + 3, { align: "right" });
+    y += 7;
+  });
+  y += 6;
+
+  // --- TOTALS ---
+  const contractTotal = schedule.reduce((sum, item) => sum + item.amount, 0);
+  const paidToDate = schedule
+    .filter((item) => item.status === "paid" && item.invoiceNumber !== invoice.invoiceNumber)
+    .reduce((sum, item) => sum + item.amount, 0);
+  const amountDue = invoice.status === "paid" ? 0 : Math.max(invoice.amount - invoice.paidAmount, 0);
+
+  setFillColorHex(sectionBg);
+  setDrawColorHex("#e2e8f0");
+  pdf.roundedRect(margin + contentWidth / 2, y, contentWidth / 2, 30, 2, 2, "FD");
+
+  const totalsX = margin + contentWidth / 2 + 5;
+  const rows: Array<[string, string]> = [
+    ["Contract total", formatCents(contractTotal)],
+    ["Paid on other invoices", formatCents(paidToDate)],
+    ["This invoice", formatCents(invoice.amount)],
+  ];
+  let totalsY = y + 7;
+  setFont("normal", 9);
+  for (const [label, value] of rows) {
+    setTextColorHex(lightGray);
+    addText(label, totalsX, totalsY);
+    setTextColorHex(textColor);
+    addText(value, pageWidth - margin - 5, totalsY, { align: "right" });
+    totalsY += 5;
+  }
+
+  setTextColorHex(primaryColor);
+  setFont("bold", 12);
+  addText("Amount due", totalsX, totalsY + 3);
+  addText(formatCents(amountDue), pageWidth - margin - 5, totalsY + 3, { align: "right" });
+  y += 38;
+
+  // --- PAYMENT INSTRUCTIONS ---
+  if (params.payUrl && invoice.status === "open") {
+    setTextColorHex(lightGray);
+    setFont("bold", 8);
+    addText("PAY ONLINE", margin, y);
+    setTextColorHex("#0369a1");
+    setFont("normal", 9);
+    addText(params.payUrl, margin, y + 5, { maxWidth: contentWidth });
+    y += 15;
+  }
+
+  // --- FOOTER ---
+  setTextColorHex(lightGray);
+  setFont("normal", 8);
+  addText("Thank you for your business.", pageWidth / 2, y, { align: "center" });
+
+  if (!params.isPro) {
+    y += 10;
+    setFont("normal", 7);
+    addText("Powered by ScopeGen - Professional proposals in seconds", pageWidth / 2, y, {
+      align: "center",
+    });
+  }
+
+  // Paid status badge
+  if (invoice.status === "paid" && invoice.paidAt) {
+    setFillColorHex("#dcfce7");
+    setDrawColorHex("#22c55e");
+    pdf.roundedRect(pageWidth - margin - 45, 40, 45, 8, 2, 2, "FD");
+
+    setTextColorHex("#16a34a");
+    setFont("bold", 8);
+    addText(`PAID ${formatLongDateUTC(new Date(invoice.paidAt))}`, pageWidth - margin - 22.5, 45, {
+      align: "center",
+    });
+  }
+
+  const pdfBytes = pdf.output("arraybuffer");
+  const sha256 = sha256Hex(pdfBytes);
+  const filename = `invoice-${slugifyFilenamePart(proposal.clientName)}-${slugifyFilenamePart(invoice.invoiceNumber)}.pdf`;
+
+  return { pdfBytes, filename, sha256 };
+}
@@ -1,11 +1,13 @@
+import { getDefaultCostIndexDataset, lookupCostIndex } from "@/lib/cost-index";
+
 const ONEBUILD_API_URL = "https://gateway-external.1build.com/";
 
 interface OneBuildLocation {
-  state: string;
-  county: string;
+  state?: string;
+  county?: string;
 }
 
-interface OneBuildSource {
+export interface OneBuildSource {
   id: string;
   name: string;
   description?: string;
@@ -31,53 +33,12 @@ interface OneBuildCategoryItem {
   children?: OneBuildCategoryItem[];
 }
 
-const ZIP_TO_LOCATION: Record<string, { state: string; county: string }> = {
-  "77001": { state: "Texas", county: "Harris County" },
-  "77002": { state: "Texas", county: "Harris County" },
-  "90001": { state: "California", county: "Los Angeles County" },
-  "90210": { state: "California", county: "Los Angeles County" },
-  "10001": { state: "New York", county: "New York County" },
-  "60601": { state: "Illinois", county: "Cook County" },
-  "33101": { state: "Florida", county: "Miami-Dade County" },
-  "85001": { state: "Arizona", county: "Maricopa County" },
-  "98101": { state: "Washington", county: "King County" },
-  "30301": { state: "Georgia", county: "Fulton County" },
-  "02101": { state: "Massachusetts", county: "Suffolk County" },
-  "80201": { state: "Colorado", county: "Denver County" },
-};
-
+// 1build prices by state/county; resolve both from the cost index so ZIPs we
+// don't know still search their own state instead of a default county.
 function getLocationFromZip(zipcode: string): OneBuildLocation {
-  const zip3 = zipcode.substring(0, 3);
-  
-  if (ZIP_TO_LOCATION[zipcode]) {
-    return ZIP_TO_LOCATION[zipcode];
-  }
-  
-  const stateByZip3: Record<string, { state: string; county: string }> = {
-    "770": { state: "Texas", county: "Harris County" },
-    "771": { state: "Texas", county: "Harris County" },
-    "750": { state: "Texas", county: "Dallas County" },
-    "751": { state: "Texas", county: "Dallas County" },
-    "900": { state: "California", county: "Los Angeles County" },
-    "901": { state: "California", county: "Los Angeles County" },
-    "902": { state: "California", county: "Los Angeles County" },
-    "941": { state: "California", county: "San Francisco County" },
-    "100": { state: "New York", county: "New York County" },
-    "101": { state: "New York", county: "New York County" },
-    "606": { state: "Illinois", county: "Cook County" },
-    "331": { state: "Florida", county: "Miami-Dade County" },
-    "850": { state: "Arizona", county: "Maricopa County" },
-    "981": { state: "Washington", county: "King County" },
-    "303": { state: "Georgia", county: "Fulton County" },
-    "021": { state: "Massachusetts", county: "Suffolk County" },
-    "802": { state: "Colorado", county: "Denver County" },
-  };
-  
-  if (stateByZip3[zip3]) {
-    return stateByZip3[zip3];
-  }
-  
-  return { state: "Texas", county: "Harris County" };
+  const match = lookupCostIndex({ zip: zipcode });
+  const stateName = match.state ? getDefaultCostIndexDataset().states[match.state]?.name : undefined;
+  return { state: stateName, county: match.county };
 }
 
 export class OneBuildService {
@@ -161,10 +122,10 @@ export class OneBuildService {
 
     const input: Record<string, unknown> = {
       searchTerm,
-      state: location.state,
-      county: location.county,
       page: { limit },
     };
+    if (location.state) input.state = location.state;
+    if (location.county) input.county = location.county;
 
     if (sourceType) {
       input.sourceType = sourceType;
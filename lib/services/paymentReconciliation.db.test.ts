@@ -0,0 +1,434 @@
+/**
+ * Payment Reconciliation Database Tests
+ *
+ * Drives contractor-account payments end to end: the payment-link and invoice
+ * pay routes start checkout with the contractor's key, the client pays, and
+ * the return-from-Stripe routes or the scheduled reconcile job record the
+ * payment. Stripe is a local fake
+ * behind STRIPE_API_BASE_URL; tables are created in a throwaway schema.
+ *
+ * Needs TEST_DATABASE_URL (any Postgres you can create schemas in); skipped
+ * without it.
+ * Run with: TEST_DATABASE_URL=postgres://... npx tsx lib/services/paymentReconciliation.db.test.ts
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { NextRequest } from 'next/server';
+import { sql } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { auditLog, invoices, proposals, users, type Proposal } from '@shared/schema';
+import { POST as createPaymentLink } from '../../app/api/proposals/[id]/payment-link/route';
+import { POST as reconcileDeposit } from '../../app/api/public/proposal/[token]/deposit/route';
+import { GET as getPublicInvoice } from '../../app/api/public/invoice/[token]/route';
+import { POST as payInvoice } from '../../app/api/public/invoice/[token]/pay/route';
+import { POST as checkInvoicePayment } from '../../app/api/public/invoice/[token]/payment/route';
+import { db } from './db';
+import { createQASessionCookieValue, qaSessionCookieName } from './qaSession';
+import { reconcileOutstandingPayments } from './paymentReconciliation';
+import { storage } from './storage';
+
+const TEST_SCHEMA = 'payment_reconciliation_test';
+const CONTRACTOR_ID = 'contractor-1';
+const CONTRACTOR_KEY = 'sk_test_contractor';
+const PUBLIC_TOKEN = 'deposit-proposal-token';
+const RETURNING_TOKEN = 'returning-deposit-token';
+const INVOICE_TOKEN = 'progress-invoice-token';
+const FINAL_INVOICE_TOKEN = 'final-invoice-token';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// ============ FAKE STRIPE ============
+
+interface FakeStripe {
+  url: string;
+  // Secret key each request was made with
+  keys: string[];
+  paymentLinks: Map<string, { id: string; url: string; redirectUrl: string | null }>;
+  sessions: Array<Record<string, unknown>>;
+  // What Stripe does when the client pays on the hosted page
+  completeCheckout(paymentLinkId: string, amount: number): Record<string, unknown>;
+  payCheckoutSession(sessionId: string): Record<string, unknown>;
+  close(): Promise<void>;
+}
+
+async function readBody(request: IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of request) body += chunk;
+  return new URLSearchParams(body);
+}
+
+async function startFakeStripe(): Promise<FakeStripe> {
+  const fake = {
+    keys: [] as string[],
+    paymentLinks: new Map<string, { id: string; url: string; redirectUrl: string | null }>(),
+    sessions: [] as Array<Record<string, unknown>>,
+  };
+
+  const server = createServer(async (request: IncomingMessage, response: ServerResponse) => {
+    fake.keys.push((request.headers.authorization ?? '').replace(/^Bearer /, ''));
+    const url = new URL(request.url ?? '/', 'http://stripe.test');
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.method === 'POST' && url.pathname === '/v1/payment_links') {
+      const body = await readBody(request);
+      const id = `plink_${fake.paymentLinks.size + 1}`;
+      const link = { id, url: `https://buy.stripe.test/${id}`, redirectUrl: body.get('after_completion[redirect][url]') };
+      fake.paymentLinks.set(id, link);
+      return send(200, { id, object: 'payment_link', active: true, url: link.url });
+    }
+    if (request.method === 'POST' && url.pathname === '/v1/checkout/sessions') {
+      const body = await readBody(request);
+      const id = `cs_test_${fake.sessions.length + 1}`;
+      const session = {
+        id,
+        object: 'checkout.session',
+        mode: 'payment',
+        status: 'open',
+        payment_status: 'unpaid',
+        amount_total: Number(body.get('line_items[0][price_data][unit_amount]')),
+        payment_intent: null,
+        payment_link: null,
+        metadata: { invoiceId: body.get('metadata[invoiceId]'), type: body.get('metadata[type]') },
+        url: `https://checkout.stripe.test/${id}`,
+      };
+      fake.sessions.push(session);
+      return send(200, session);
+    }
+    const sessionMatch = url.pathname.match(/^\/v1\/checkout\/sessions\/([^/]+)$/);
+    if (request.method === 'GET' && sessionMatch) {
+      const session = fake.sessions.find((candidate) => candidate.id === sessionMatch[1]);
+      return session
+        ? send(200, session)
+        : send(404, { error: { type: 'invalid_request_error', message: 'No such checkout session' } });
+    }
+    if (request.method === 'GET' && url.pathname === '/v1/checkout/sessions') {
+      const data = fake.sessions.filter((session) =>
+        (!url.searchParams.has('payment_link') || session.payment_link === url.searchParams.get('payment_link')) &&
+        (!url.searchParams.has('status') || session.status === url.searchParams.get('status'))
+      );
+      return send(200, { object: 'list', url: '/v1/checkout/sessions', has_more: false, data });
+    }
+    send(404, { error: { type: 'invalid_request_error', message: `No fake for ${request.method} ${url.pathname}` } });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    ...fake,
+    url: `http://127.0.0.1:${port}`,
+    completeCheckout(paymentLinkId, amount) {
+      const number = fake.sessions.length + 1;
+      const session = {
+        id: `cs_test_${number}`,
+        object: 'checkout.session',
+        mode: 'payment',
+        status: 'complete',
+        payment_status: 'paid',
+        amount_total: amount,
+        payment_intent: `pi_test_${number}`,
+        payment_link: paymentLinkId,
+      };
+      fake.sessions.push(session);
+      return session;
+    },
+    payCheckoutSession(sessionId) {
+      const session = fake.sessions.find((candidate) => candidate.id === sessionId)!;
+      Object.assign(session, { status: 'complete', payment_status: 'paid', payment_intent: `pi_${sessionId}` });
+      return session;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+// ============ SETUP ============
+
+// Full table definitions from shared/schema.ts; foreign keys are left out
+// because the referenced tables aren't needed here
+async function createTables() {
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson({ users, proposals, invoices, auditLog })
+  );
+  for (const statement of statements) {
+    if (!statement.includes('FOREIGN KEY')) {
+      await db.execute(sql.raw(statement));
+    }
+  }
+}
+
+async function seed(): Promise<{ proposal: Proposal; returning: Proposal }> {
+  await db.insert(users).values({
+    id: CONTRACTOR_ID,
+    email: 'contractor@example.com',
+    userStripeEnabled: true,
+    // Legacy plaintext; revealUserSecret passes it through
+    userStripeSecretKey: CONTRACTOR_KEY,
+  });
+  const [proposal] = await db.insert(proposals).values({
+    userId: CONTRACTOR_ID,
+    clientName: 'Sam Client',
+    address: '1 Main St, Austin TX 78701',
+    tradeId: 'roofing',
+    jobTypeId: 'roof-replacement',
+    jobTypeName: 'Roof Replacement',
+    scope: ['Tear off', 'Install shingles'],
+    // $10,000 contract total
+    priceLow: 9000,
+    priceHigh: 11000,
+    status: 'sent',
+    publicToken: PUBLIC_TOKEN,
+  }).returning();
+  // Same job for a client who comes back from Stripe right away
+  const [returning] = await db.insert(proposals).values({
+    userId: CONTRACTOR_ID,
+    clientName: 'Robin Client',
+    address: '2 Main St, Austin TX 78701',
+    tradeId: 'roofing',
+    jobTypeId: 'roof-replacement',
+    jobTypeName: 'Roof Replacement',
+    scope: ['Tear off', 'Install shingles'],
+    priceLow: 9000,
+    priceHigh: 11000,
+    status: 'sent',
+    publicToken: RETURNING_TOKEN,
+  }).returning();
+  // Deposit already paid; the progress invoice is open for payment
+  await db.insert(invoices).values([
+    { proposalId: proposal.id, userId: CONTRACTOR_ID, sequence: 1, invoiceNumber: 'INV-0001', kind: 'deposit', scheduleIndex: 0, milestone: 'Deposit', amount: 500_000, status: 'paid', paidAmount: 500_000, publicToken: 'deposit-invoice-token' },
+    { proposalId: proposal.id, userId: CONTRACTOR_ID, sequence: 2, invoiceNumber: 'INV-0002', kind: 'progress', scheduleIndex: 1, milestone: 'Rough-in', amount: 300_000, status: 'open', publicToken: INVOICE_TOKEN },
+    { proposalId: proposal.id, userId: CONTRACTOR_ID, sequence: 3, invoiceNumber: 'INV-0003', kind: 'final', scheduleIndex: 2, milestone: 'Completion', amount: 200_000, status: 'open', publicToken: FINAL_INVOICE_TOKEN },
+  ]);
+  return { proposal, returning };
+}
+
+function contractorRequest(url: string, body: unknown): NextRequest {
+  const session = createQASessionCookieValue(CONTRACTOR_ID, Date.now() + 60_000);
+  return new NextRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', cookie: `${qaSessionCookieName}=${session}` },
+    body: JSON.stringify(body),
+  });
+}
+
+async function returnFromStripe(token: string) {
+  const response = await reconcileDeposit(
+    new NextRequest(`https://app.test/api/public/proposal/${token}/deposit`, { method: 'POST' }),
+    { params: Promise.resolve({ token }) }
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+// ============ TESTS ============
+
+async function fetchPublicInvoice(token = INVOICE_TOKEN) {
+  const response = await getPublicInvoice(
+    new NextRequest(`https://app.test/api/public/invoice/${token}`),
+    { params: Promise.resolve({ token }) }
+  );
+  return (await response.json()).invoice;
+}
+
+async function returnFromCheckout(token: string) {
+  const response = await checkInvoicePayment(
+    new NextRequest(`https://app.test/api/public/invoice/${token}/payment`, { method: 'POST' }),
+    { params: Promise.resolve({ token }) }
+  );
+  return await response.json();
+}
+
+async function startInvoiceCheckout(token: string, stripe: FakeStripe) {
+  const started = await payInvoice(
+    new NextRequest(`https://app.test/api/public/invoice/${token}/pay`, { method: 'POST' }),
+    { params: Promise.resolve({ token }) }
+  );
+  return { status: started.status, url: (await started.json()).url, session: stripe.sessions[stripe.sessions.length - 1] };
+}
+
+async function createDepositLink(proposal: Proposal) {
+  const created = await createPaymentLink(
+    contractorRequest(`https://app.test/api/proposals/${proposal.id}/payment-link`, { depositPercentage: 50 }),
+    { params: Promise.resolve({ id: String(proposal.id) }) }
+  );
+  return { status: created.status, link: await created.json() };
+}
+
+async function testContractorDeposit(proposal: Proposal, stripe: FakeStripe) {
+  console.log('\n--- contractor-account deposit ---');
+  const { status, link } = await createDepositLink(proposal);
+  assertEqual(status, 200, 'creates the payment link');
+  assertEqual(link.depositAmount, 500_000, 'asks for 50% of the contract total');
+  assert(stripe.keys.length > 0 && stripe.keys.every((key) => key === CONTRACTOR_KEY), 'creates the link with the contractor key');
+  assertEqual(
+    stripe.paymentLinks.get(link.paymentLinkId)?.redirectUrl,
+    `https://app.test/p/${PUBLIC_TOKEN}?deposit=paid`,
+    'sends the client back to the public proposal'
+  );
+
+  const beforePaying = await returnFromStripe(PUBLIC_TOKEN);
+  assertEqual(beforePaying.body, { paymentStatus: 'pending', paidAmount: 0 }, 'nothing is recorded before the client pays');
+
+  const session = stripe.completeCheckout(link.paymentLinkId, 500_000);
+  const stripeCalls = stripe.keys.length;
+  const polledAgain = await returnFromStripe(PUBLIC_TOKEN);
+  assertEqual(polledAgain.body.paymentStatus, 'pending', 'a check seconds after the last returns the stored status');
+  assertEqual(stripe.keys.length, stripeCalls, 'without calling Stripe again');
+
+  // The client closed the tab; the scheduled job picks the payment up
+  await reconcileOutstandingPayments();
+  const stored = await storage.getProposal(proposal.id);
+  assertEqual(
+    { paymentStatus: stored?.paymentStatus, paidAmount: stored?.paidAmount },
+    { paymentStatus: 'partial', paidAmount: 500_000 },
+    'the scheduled pass records a deposit the client never came back for'
+  );
+  assert(stripe.keys.every((key) => key === CONTRACTOR_KEY), 'reads the payment back with the contractor key');
+  assertEqual(stored?.depositCheckoutSessionId, session.id, 'remembers the checkout session');
+  assertEqual(stored?.stripePaymentIntentId, session.payment_intent, 'stores the payment intent');
+
+  await reconcileOutstandingPayments();
+  assertEqual((await storage.getProposal(proposal.id))?.paidAmount, 500_000, 'the next pass does not count the deposit twice');
+
+  // The platform webhook path records through the same method
+  const viaWebhook = await storage.recordProposalDeposit(link.paymentLinkId, {
+    checkoutSessionId: session.id as string,
+    amountReceived: 500_000,
+    stripePaymentIntentId: session.payment_intent as string,
+  });
+  assertEqual(viaWebhook?.paidAmount, 500_000, 'a late webhook for the same session does not count it twice');
+
+  const unknown = await returnFromStripe('no-such-token');
+  assertEqual(unknown.status, 404, 'unknown proposals are not found');
+}
+
+async function testReturningDeposit(proposal: Proposal, stripe: FakeStripe) {
+  console.log('\n--- client returns from Stripe ---');
+  const { link } = await createDepositLink(proposal);
+  stripe.completeCheckout(link.paymentLinkId, 500_000);
+
+  const returned = await returnFromStripe(RETURNING_TOKEN);
+  assertEqual(returned.body, { paymentStatus: 'partial', paidAmount: 500_000 }, 'records the deposit when the client returns');
+
+  const reloaded = await returnFromStripe(RETURNING_TOKEN);
+  assertEqual(reloaded.body.paidAmount, 500_000, 'returning again does not count the deposit twice');
+}
+
+async function testContractorInvoice(proposal: Proposal, stripe: FakeStripe) {
+  console.log('\n--- contractor-account invoice ---');
+  stripe.keys.length = 0;
+  const { status, url, session } = await startInvoiceCheckout(INVOICE_TOKEN, stripe);
+  assertEqual(status, 200, 'starts checkout');
+  assertEqual(url, session.url, 'sends the client to Stripe Checkout');
+  assert(stripe.keys.length > 0 && stripe.keys.every((key) => key === CONTRACTOR_KEY), 'checks out with the contractor key');
+
+  assertEqual((await returnFromCheckout(INVOICE_TOKEN)).status, 'open', 'stays open until the client pays');
+
+  stripe.payCheckoutSession(session.id as string);
+  const stripeCalls = stripe.keys.length;
+  assertEqual((await fetchPublicInvoice()).status, 'open', 'page views do not call Stripe');
+  assertEqual((await returnFromCheckout(INVOICE_TOKEN)).status, 'open', 'a check seconds after the last returns the stored status');
+  assertEqual(stripe.keys.length, stripeCalls, 'without calling Stripe again');
+
+  // The client closed the tab; the scheduled job picks the payment up
+  await reconcileOutstandingPayments();
+  const paid = await fetchPublicInvoice();
+  assertEqual(paid.status, 'paid', 'the scheduled pass marks the invoice paid');
+  assertEqual(paid.paidAmount, 300_000, 'records the amount received');
+  assert(stripe.keys.every((key) => key === CONTRACTOR_KEY), 'reads the session back with the contractor key');
+
+  const stored = await storage.getProposal(proposal.id);
+  assertEqual(
+    { paidAmount: stored?.paidAmount, paymentStatus: stored?.paymentStatus },
+    { paidAmount: 800_000, paymentStatus: 'partial' },
+    'rolls the payment up into the proposal'
+  );
+
+  const final = await startInvoiceCheckout(FINAL_INVOICE_TOKEN, stripe);
+  stripe.payCheckoutSession(final.session.id as string);
+  const returned = await returnFromCheckout(FINAL_INVOICE_TOKEN);
+  assertEqual(returned, { status: 'paid', paidAmount: 200_000 }, 'marks the invoice paid when the client returns');
+  assertEqual((await storage.getProposal(proposal.id))?.paymentStatus, 'paid', 'the last invoice pays the proposal off');
+
+  await reconcileOutstandingPayments();
+  assertEqual((await fetchPublicInvoice(FINAL_INVOICE_TOKEN)).paidAmount, 200_000, 'the next pass does not change the payment');
+}
+
+// ============ RUN ALL TESTS ============
+
+async function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Payment Reconciliation Database Tests');
+  console.log('='.repeat(50));
+
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) {
+    console.log('\nTEST_DATABASE_URL is not set - skipping');
+    return;
+  }
+
+  // Every pooled connection resolves tables in the throwaway schema
+  const connection = new URL(url);
+  connection.searchParams.set('options', `-c search_path=${TEST_SCHEMA}`);
+  process.env.DATABASE_URL = connection.toString();
+
+  const stripe = await startFakeStripe();
+  process.env.STRIPE_API_BASE_URL = stripe.url;
+  process.env.NEXT_PUBLIC_WEB_BASE_URL = 'https://app.test';
+  process.env.EMAIL_MODE = 'test';
+  process.env.QA_TEST_SECRET = 'payment-reconciliation-test';
+
+  await db.execute(sql.raw(`DROP SCHEMA IF EXISTS ${TEST_SCHEMA} CASCADE; CREATE SCHEMA ${TEST_SCHEMA};`));
+  try {
+    await createTables();
+    const { proposal, returning } = await seed();
+
+    await testContractorDeposit(proposal, stripe);
+    await testReturningDeposit(returning, stripe);
+    await testContractorInvoice(proposal, stripe);
+  } finally {
+    await db.execute(sql.raw(`DROP SCHEMA IF EXISTS ${TEST_SCHEMA} CASCADE`));
+    await stripe.close();
+  }
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+}
+
+runAllTests()
+  .then(() => process.exit(failed > 0 ? 1 : 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,203 @@
+/**
+ * Payment Reconciliation
+ *
+ * Deposit links and invoice checkouts made with a contractor's own Stripe key
+ * live on the contractor's account, so their events never reach the platform
+ * webhook. Payments are read back with the contractor's key and recorded the
+ * same way the webhook records platform payments: right away when the client
+ * lands back from Stripe, and by a scheduled job for clients who close the tab
+ * and payments that settle later (ACH).
+ * Server-side only.
+ */
+
+import type { Invoice, Proposal } from "@shared/schema";
+import {
+  getInvoiceById,
+  getInvoiceSessionPayment,
+  listInvoicesAwaitingPayment,
+  markInvoicePaid,
+} from "@/lib/invoices";
+import { logger } from "@/lib/logger";
+import { getDepositSessionPayment } from "@/lib/proposal-deposits";
+import { revealUserSecret } from "@/lib/secrets";
+import { storage } from "./storage";
+import { stripeService } from "./stripeService";
+
+// The scheduled job looks at links and checkouts touched this recently; older unpaid ones are abandoned
+const OUTSTANDING_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+const OUTSTANDING_BATCH_SIZE = 200;
+
+// Return pages poll; Stripe is asked about the same proposal or invoice at most this often
+const RETURN_CHECK_INTERVAL_MS = 5000;
+const lastReturnChecks = new Map<string, number>();
+
+/**
+ * True when a return page may check Stripe for `key` now. In-memory, so the
+ * limit is per server instance.
+ */
+function claimReturnCheck(key: string, now = Date.now()): boolean {
+  const last = lastReturnChecks.get(key);
+  if (last !== undefined && now - last < RETURN_CHECK_INTERVAL_MS) return false;
+
+  if (lastReturnChecks.size > 1000) {
+    for (const [staleKey, checkedAt] of lastReturnChecks) {
+      if (now - checkedAt >= RETURN_CHECK_INTERVAL_MS) lastReturnChecks.delete(staleKey);
+    }
+  }
+  lastReturnChecks.set(key, now);
+  return true;
+}
+
+async function recordDepositFromStripe(proposal: Proposal & { paymentLinkId: string }, stripeSecretKey: string): Promise<Proposal> {
+  const sessions = await stripeService.listPaymentLinkCheckoutSessions(proposal.paymentLinkId, stripeSecretKey);
+  // Links accept one completed session, so there is at most one deposit to record
+  const payment = sessions.map(getDepositSessionPayment).find((found) => found !== null);
+  if (!payment) return proposal;
+
+  return (await storage.recordProposalDeposit(proposal.paymentLinkId, payment)) ?? proposal;
+}
+
+/**
+ * Record the deposit paid on the proposal's current Payment Link, if any.
+ * Called when the client returns from Stripe; rate limited per proposal.
+ * Returns the proposal as it stands afterwards.
+ */
+export async function reconcileProposalDeposit(proposal: Proposal): Promise<Proposal> {
+  const { paymentLinkId } = proposal;
+  if (!paymentLinkId || proposal.paymentStatus === "paid") return proposal;
+  if (!claimReturnCheck(`proposal:${proposal.id}`)) return proposal;
+
+  // Payment Links are always created on the contractor's account
+  const user = await storage.getUser(proposal.userId);
+  const stripeSecretKey = user
+    ? await revealUserSecret(user, "stripe_secret_key", { purpose: "deposit_reconcile", proposalId: proposal.id })
+    : null;
+  if (!stripeSecretKey) return proposal;
+
+  return await recordDepositFromStripe({ ...proposal, paymentLinkId }, stripeSecretKey);
+}
+
+/**
+ * Record deposits paid on outstanding links without waiting for the client to
+ * come back. Each contractor's key is revealed once per pass. Returns how many
+ * deposits were recorded.
+ */
+export async function reconcileOutstandingDeposits(now = new Date()): Promise<number> {
+  const outstanding = await storage.getProposalsAwaitingDeposit(
+    new Date(now.getTime() - OUTSTANDING_WINDOW_MS),
+    OUTSTANDING_BATCH_SIZE
+  );
+
+  const byUser = new Map<string, Proposal[]>();
+  for (const proposal of outstanding) {
+    byUser.set(proposal.userId, [...(byUser.get(proposal.userId) ?? []), proposal]);
+  }
+
+  let recorded = 0;
+  for (const [userId, proposals] of byUser) {
+    const user = await storage.getUser(userId);
+    const stripeSecretKey = user
+      ? await revealUserSecret(user, "stripe_secret_key", {
+        purpose: "deposit_reconcile",
+        proposalIds: proposals.map((proposal) => proposal.id),
+      })
+      : null;
+    if (!stripeSecretKey) continue;
+
+    for (const proposal of proposals) {
+      // One contractor's revoked key or a deleted link shouldn't stop the rest
+      try {
+        const reconciled = await recordDepositFromStripe({ ...proposal, paymentLinkId: proposal.paymentLinkId! }, stripeSecretKey);
+        if (reconciled.depositCheckoutSessionId) recorded++;
+      } catch (error) {
+        logger.warn("Failed to reconcile deposit", { proposalId: proposal.id, error: String(error) });
+      }
+    }
+  }
+  return recorded;
+}
+
+async function recordInvoiceFromStripe(
+  invoice: Invoice & { stripeCheckoutSessionId: string },
+  stripeSecretKey: string | null
+): Promise<Invoice> {
+  const session = await stripeService.retrieveCheckoutSession(invoice.stripeCheckoutSessionId, stripeSecretKey);
+  const payment = getInvoiceSessionPayment(session, invoice.id);
+  if (!payment) return invoice;
+
+  // markInvoicePaid only updates unpaid invoices, so a webhook arriving too is harmless
+  return (await markInvoicePaid(invoice.id, payment)) ?? (await getInvoiceById(invoice.id)) ?? invoice;
+}
+
+/**
+ * Mark the invoice paid if its latest Checkout Session has been paid.
+ * Called when the client returns from Stripe; rate limited per invoice.
+ * Returns the invoice as it stands afterwards.
+ */
+export async function reconcileInvoicePayment(invoice: Invoice): Promise<Invoice> {
+  const { stripeCheckoutSessionId } = invoice;
+  if (invoice.status === "paid" || !stripeCheckoutSessionId) return invoice;
+  if (!claimReturnCheck(`invoice:${invoice.id}`)) return invoice;
+
+  const user = await storage.getUser(invoice.userId);
+  if (!user) return invoice;
+
+  // Same account the pay route checked out on
+  const stripeSecretKey = user.userStripeEnabled
+    ? await revealUserSecret(user, "stripe_secret_key", { purpose: "invoice_reconcile", invoiceId: invoice.id })
+    : null;
+
+  return await recordInvoiceFromStripe({ ...invoice, stripeCheckoutSessionId }, stripeSecretKey);
+}
+
+/**
+ * Mark paid the open invoices whose checkout on the contractor's account has
+ * been paid, without waiting for the client to come back. Platform-account
+ * checkouts are left to the webhook. Returns how many invoices were marked paid.
+ */
+export async function reconcileOutstandingInvoices(now = new Date()): Promise<number> {
+  const outstanding = await listInvoicesAwaitingPayment(
+    new Date(now.getTime() - OUTSTANDING_WINDOW_MS),
+    OUTSTANDING_BATCH_SIZE
+  );
+
+  const byUser = new Map<string, Invoice[]>();
+  for (const invoice of outstanding) {
+    byUser.set(invoice.userId, [...(byUser.get(invoice.userId) ?? []), invoice]);
+  }
+
+  let paid = 0;
+  for (const [userId, invoices] of byUser) {
+    const user = await storage.getUser(userId);
+    if (!user?.userStripeEnabled) continue;
+    const stripeSecretKey = await revealUserSecret(user, "stripe_secret_key", {
+      purpose: "invoice_reconcile",
+      invoiceIds: invoices.map((invoice) => invoice.id),
+    });
+    if (!stripeSecretKey) continue;
+
+    for (const invoice of invoices) {
+      try {
+        const reconciled = await recordInvoiceFromStripe(
+          { ...invoice, stripeCheckoutSessionId: invoice.stripeCheckoutSessionId! },
+          stripeSecretKey
+        );
+        if (reconciled.status === "paid") paid++;
+      } catch (error) {
+        logger.warn("Failed to reconcile invoice", { invoiceId: invoice.id, error: String(error) });
+      }
+    }
+  }
+  return paid;
+}
+
+/**
+ * Scheduled pass over payments taken on contractors' own Stripe accounts.
+ */
+export async function reconcileOutstandingPayments(now = new Date()): Promise<void> {
+  const deposits = await reconcileOutstandingDeposits(now);
+  const invoices = await reconcileOutstandingInvoices(now);
+  if (deposits > 0 || invoices > 0) {
+    logger.info("Recorded outstanding payments", { deposits, invoices });
+  }
+}
@@ -1,5 +1,27 @@
 import crypto from "crypto";
 import { jsPDF } from "jspdf";
+import type { CostBreakdown, PdfTheme, ProposalContractTerms } from "@shared/schema";
+import { hasCostBreakdown, toClientCostTable } from "@/lib/cost-breakdown";
+import {
+  buildContractLedger,
+  formatChangeOrderNumber,
+  formatPriceDelta,
+  getOriginalContractTotal,
+} from "@/lib/change-orders/contract";
+import {
+  fillMessage,
+  formatClientCurrency,
+  formatClientDate,
+  formatClientMoney,
+  formatClientNumber,
+  getClientMessages,
+  localizeProposalContent,
+  resolveClientLanguage,
+} from "@/lib/client-locale";
+import { localizeContractTerms } from "@/lib/contract-terms/terms";
+import { resolvePdfTheme } from "@/lib/pdf-theme/theme";
+import { organizePhotosForProposal } from "@/components/proposal-photos/types";
+import type { PdfPhoto } from "./proposalPdfPhotos";
 
 // Types for proposal data
 interface ScopeSection {
@@ -21,6 +43,7 @@ interface LineItem {
   estimatedDays?: { low: number; high: number };
   warranty?: string;
   exclusions?: string[];
+  costBreakdown?: CostBreakdown | null;
 }
 
 type ProposalData = {
@@ -44,6 +67,39 @@ type ProposalData = {
   estimatedDaysHigh?: number | null;
   warranty?: string | null;
   exclusions?: string[] | null;
+  costBreakdown?: CostBreakdown | null;
+  validUntil?: Date | null;
+  clientLanguage?: string | null;
+  contractTerms?: ProposalContractTerms | null;
+};
+
+type ChangeOrderData = {
+  number: number;
+  title: string;
+  description?: string | null;
+  addedScope: string[];
+  removedScope: string[];
+  priceDelta: number;
+  status: string;
+  createdAt: Date | null;
+  acceptedAt?: Date | null;
+  acceptedByName?: string | null;
+  signature?: string | null;
+};
+
+type SigningCertificateData = {
+  certificateId: string;
+  role: string;
+  signerName: string;
+  signerEmail?: string | null;
+  signedAt: Date;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  consentText: string;
+  documentSha256: string;
+  termsSha256: string;
+  certificateSha256: string;
+  verifyUrl?: string;
 };
 
 type CompanyInfo = {
@@ -63,22 +119,22 @@ function slugifyFilenamePart(input: string): string {
     .slice(0, 60);
 }
 
-function formatLongDateUTC(date: Date): string {
-  return new Intl.DateTimeFormat("en-US", {
+function formatLongDateUTC(date: Date, language: string): string {
+  return formatClientDate(date, language, {
     year: "numeric",
     month: "long",
     day: "numeric",
     timeZone: "UTC",
-  }).format(date);
+  });
 }
 
-function formatShortDateUTC(date: Date): string {
-  return new Intl.DateTimeFormat("en-US", {
+function formatShortDateUTC(date: Date, language: string): string {
+  return formatClientDate(date, language, {
     month: "short",
     day: "numeric",
     year: "numeric",
     timeZone: "UTC",
-  }).format(date);
+  });
 }
 
 function sha256Hex(bytes: ArrayBuffer): string {
@@ -89,20 +145,33 @@ export function buildProposalPdf(params: {
   proposal: ProposalData;
   companyInfo: CompanyInfo | null;
   isPro?: boolean;
+  changeOrders?: ChangeOrderData[];
+  // Branding; null or partial themes fall back to the default layout
+  theme?: PdfTheme | null;
+  // Hero, existing conditions and appendix photos (see loadProposalPdfPhotos)
+  photos?: PdfPhoto[];
+  // Signature audit records, printed on a final certificate page
+  signingCertificates?: SigningCertificateData[];
 }): { pdfBytes: ArrayBuffer; filename: string; sha256: string } {
-  const { proposal, companyInfo } = params;
+  const { companyInfo } = params;
+  const theme = resolvePdfTheme(params.theme);
+  // Rendered in the client's language; catalog scope is translated, custom wording is kept
+  const language = resolveClientLanguage(params.proposal.clientLanguage);
+  const proposal = localizeProposalContent(params.proposal, language);
+  const m = getClientMessages(language);
 
   const pdf = new jsPDF({
     orientation: "portrait",
     unit: "mm",
-    format: "letter",
+    format: theme.pageSize,
     compress: false,
     putOnlyUsedFonts: true,
   });
 
   // Stabilize PDF trailer/metadata for stable bytes across requests.
   try {
-    pdf.setCreationDate("D:20000101000000Z");
+    // jsPDF only accepts the offset form (+00'00'); a bare "Z" throws and leaves the current time
+    pdf.setCreationDate("D:20000101000000+00'00'");
   } catch {
     // ignore
   }
@@ -130,15 +199,15 @@ export function buildProposalPdf(params: {
   let y = margin;
 
   // Colors (hex format)
-  const primaryColor = "#1e3a5f";
-  const secondaryColor = "#f97316";
+  const primaryColor = theme.primaryColor;
+  const secondaryColor = theme.accentColor;
   const textColor = "#333333";
   const lightGray = "#666666";
   const sectionBg = "#f8fafc";
 
   // Helper functions
   const setFont = (style: "normal" | "bold" = "normal", size = 10) => {
-    pdf.setFont("helvetica", style);
+    pdf.setFont(theme.font, style);
     pdf.setFontSize(size);
   };
 
@@ -192,40 +261,242 @@ export function buildProposalPdf(params: {
     return false;
   };
 
+  // Expiry wording: an explicit date once the proposal has been sent, otherwise the default window
+  const validUntilLabel = proposal.validUntil ? formatLongDateUTC(new Date(proposal.validUntil), language) : null;
+  const validityNote = validUntilLabel
+    ? fillMessage(m.document.validUntil, { date: validUntilLabel })
+    : m.document.validFor30Days;
+  const validityFooter = validUntilLabel
+    ? fillMessage(m.document.validUntilFooter, { date: validUntilLabel })
+    : m.document.validFor30DaysFooter;
+
   // Format currency
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      maximumFractionDigits: 0,
-    }).format(amount);
+  const formatCurrency = (amount: number): string => formatClientCurrency(amount, language);
+
+  // Itemized quantity x unit-cost table (client-facing: markup folded into material/labor)
+  const renderCostTable = (breakdown: CostBreakdown) => {
+    const table = toClientCostTable(breakdown);
+    const columns = {
+      qty: margin + contentWidth * 0.5,
+      material: margin + contentWidth * 0.7,
+      labor: margin + contentWidth * 0.85,
+      total: margin + contentWidth - 3,
+    };
+    const formatAmount = (amount: number) => formatClientMoney(amount, language);
+
+    checkPageBreak(20);
+    setFillColorHex("#e2e8f0");
+    pdf.rect(margin, y, contentWidth, 7, "F");
+    setTextColorHex(textColor);
+    setFont("bold", 8);
+    addText(m.costTable.item, margin + 3, y + 5);
+    addText(m.costTable.qty, columns.qty, y + 5, { align: "right" });
+    addText(m.costTable.materials, columns.material, y + 5, { align: "right" });
+    addText(m.costTable.labor, columns.labor, y + 5, { align: "right" });
+    addText(m.costTable.total, columns.total, y + 5, { align: "right" });
+    y += 9;
+
+    table.rows.forEach((row, index) => {
+      const descriptionLines = pdf.splitTextToSize(row.description, contentWidth * 0.38);
+      const rowHeight = Math.max(descriptionLines.length * 3.5, 3.5) + 3;
+      checkPageBreak(rowHeight + 2);
+      if (index % 2 === 1) {
+        setFillColorHex(sectionBg);
+        pdf.rect(margin, y - 1, contentWidth, rowHeight, "F");
+      }
+
+      setTextColorHex(textColor);
+      setFont("normal", 8);
+      pdf.text(descriptionLines, margin + 3, y + 3);
+      addText(`${formatClientNumber(row.quantity, language)} ${m.costTable.units[row.unit]}`, columns.qty, y + 3, { align: "right" });
+      addText(formatAmount(row.material), columns.material, y + 3, { align: "right" });
+      addText(formatAmount(row.labor), columns.labor, y + 3, { align: "right" });
+      setFont("bold", 8);
+      addText(formatAmount(row.total), columns.total, y + 3, { align: "right" });
+      y += rowHeight;
+    });
+
+    checkPageBreak(10);
+    setDrawColorHex("#cbd5e1");
+    pdf.line(margin, y, margin + contentWidth, y);
+    setTextColorHex(textColor);
+    setFont("bold", 8);
+    addText(m.costTable.subtotal, margin + 3, y + 5);
+    addText(formatAmount(table.material), columns.material, y + 5, { align: "right" });
+    addText(formatAmount(table.labor), columns.labor, y + 5, { align: "right" });
+    addText(formatAmount(table.total), columns.total, y + 5, { align: "right" });
+    y += 11;
+  };
+
+  // Photos laid out like the web proposal: hero, existing conditions grid, appendix gallery
+  const photos = params.photos ?? [];
+  const photoById = new Map(photos.map((photo) => [photo.id, photo]));
+  const organizedPhotos = organizePhotosForProposal(photos);
+  const heroPhoto = organizedPhotos.hero ? photoById.get(organizedPhotos.hero.id) : undefined;
+  const existingPhotos = organizedPhotos.existingConditions.flatMap((p) => photoById.get(p.id) ?? []);
+  const appendixPhotos = organizedPhotos.appendix.flatMap((p) => photoById.get(p.id) ?? []);
+
+  // Draws a photo scaled to fit (centered) inside a box; returns false if it couldn't be embedded
+  const drawPhoto = (photo: PdfPhoto, x: number, yPos: number, boxWidth: number, boxHeight: number): boolean => {
+    const scale = Math.min(boxWidth / photo.width, boxHeight / photo.height);
+    const width = photo.width * scale;
+    const height = photo.height * scale;
+    try {
+      pdf.addImage(
+        photo.data,
+        "JPEG",
+        x + (boxWidth - width) / 2,
+        yPos + (boxHeight - height) / 2,
+        width,
+        height,
+        `photo-${photo.id}`,
+      );
+      return true;
+    } catch (e) {
+      console.error(`[PDF] Failed to add photo ${photo.id}:`, e);
+      return false;
+    }
+  };
+
+  // Three-across grid of photos with captions under each
+  const renderPhotoGrid = (gridPhotos: PdfPhoto[]) => {
+    const gap = 4;
+    const cellWidth = (contentWidth - gap * 2) / 3;
+    const cellHeight = cellWidth * 0.75;
+    for (let i = 0; i < gridPhotos.length; i += 3) {
+      const row = gridPhotos.slice(i, i + 3);
+      const hasCaption = row.some((photo) => photo.caption);
+      checkPageBreak(cellHeight + (hasCaption ? 10 : 4));
+      row.forEach((photo, col) => {
+        const x = margin + col * (cellWidth + gap);
+        setFillColorHex(sectionBg);
+        pdf.rect(x, y, cellWidth, cellHeight, "F");
+        drawPhoto(photo, x, y, cellWidth, cellHeight);
+        if (photo.caption) {
+          setTextColorHex(lightGray);
+          setFont("normal", 7);
+          addText(photo.caption, x, y + cellHeight + 4, { maxWidth: cellWidth });
+        }
+      });
+      y += cellHeight + (hasCaption ? 10 : 4);
+    }
+  };
+
+  const renderSectionBar = (title: string) => {
+    setFillColorHex(primaryColor);
+    pdf.rect(margin, y, contentWidth, 8, "F");
+    pdf.setTextColor(255, 255, 255);
+    setFont("bold", 10);
+    addText(title.toUpperCase(), margin + 3, y + 5.5);
   };
 
+  const proposalNumber = String(proposal.id).padStart(4, "0");
+  const createdAt = proposal.createdAt ? new Date(proposal.createdAt) : new Date();
+  const logoAllowed = theme.logoPlacement !== "hidden";
+
+  // --- COVER PAGE ---
+  if (theme.coverPage) {
+    const bannerHeight = pageHeight * 0.45;
+    setFillColorHex(primaryColor);
+    pdf.rect(0, 0, pageWidth, bannerHeight, "F");
+    if (heroPhoto) {
+      drawPhoto(heroPhoto, 0, 0, pageWidth, bannerHeight);
+    }
+
+    y = bannerHeight + 15;
+    if (logoAllowed && companyInfo?.companyLogo) {
+      try {
+        pdf.addImage(companyInfo.companyLogo, "PNG", margin, y, 40, 20);
+        y += 28;
+      } catch (e) {
+        console.error('[PDF] Failed to add company logo:', e);
+      }
+    }
+    if (companyInfo?.companyName) {
+      setTextColorHex(textColor);
+      setFont("bold", 14);
+      addText(companyInfo.companyName, margin, y);
+      y += 12;
+    }
+
+    setTextColorHex(primaryColor);
+    setFont("bold", 30);
+    addText(m.document.proposal.toUpperCase(), margin, y + 6);
+    setTextColorHex(lightGray);
+    setFont("normal", 11);
+    addText(`#${proposalNumber}`, margin, y + 14);
+    setFillColorHex(secondaryColor);
+    pdf.rect(margin, y + 19, 30, 1.5, "F");
+    y += 32;
+
+    setTextColorHex(lightGray);
+    setFont("bold", 8);
+    addText(m.document.preparedFor.toUpperCase(), margin, y);
+    setTextColorHex(textColor);
+    setFont("bold", 14);
+    addText(proposal.clientName, margin, y + 7);
+    setFont("normal", 10);
+    addText(proposal.address, margin, y + 13, { maxWidth: contentWidth / 2 });
+
+    const detailsX = margin + contentWidth / 2 + 10;
+    setTextColorHex(lightGray);
+    setFont("bold", 8);
+    addText(m.document.date.toUpperCase(), detailsX, y);
+    addText(m.document.jobType.toUpperCase(), detailsX, y + 17);
+    setTextColorHex(textColor);
+    setFont("normal", 10);
+    addText(formatLongDateUTC(createdAt, language), detailsX, y + 6);
+    const coverJobType = proposal.lineItems && proposal.lineItems.length > 1
+      ? fillMessage(m.document.multiServiceCount, { count: proposal.lineItems.length })
+      : proposal.jobTypeName;
+    addText(coverJobType, detailsX, y + 23, { maxWidth: contentWidth / 2 - 10 });
+
+    const contactLine = [companyInfo?.companyAddress, companyInfo?.companyPhone, companyInfo?.licenseNumber ? `Lic# ${companyInfo.licenseNumber}` : null]
+      .filter(Boolean)
+      .join("  |  ");
+    setFillColorHex(primaryColor);
+    pdf.rect(0, pageHeight - 14, pageWidth, 14, "F");
+    if (contactLine) {
+      pdf.setTextColor(255, 255, 255);
+      setFont("normal", 8);
+      addText(contactLine, pageWidth / 2, pageHeight - 6, { align: "center" });
+    }
+
+    pdf.addPage();
+  }
+  // The page the header, client details and accepted badge go on
+  const firstContentPage = pdf.getNumberOfPages();
+
   // Check if multi-service proposal
   const isMultiService = proposal.lineItems && proposal.lineItems.length > 1;
 
   // --- HEADER ---
+  // The company block sits on the theme's logo side, the title on the other
+  const companyOnLeft = theme.logoPlacement === "left";
+  const companyX = (width: number) => (companyOnLeft ? margin : pageWidth - margin - width);
+  const titleX = (text: string) => (companyOnLeft ? pageWidth - margin - pdf.getTextWidth(text) : margin);
+
   setFillColorHex(primaryColor);
   pdf.rect(0, 0, pageWidth, 35, "F");
 
   pdf.setTextColor(255, 255, 255);
   setFont("bold", 24);
-  addText("PROPOSAL", margin, 22);
+  const headerTitle = m.document.proposal.toUpperCase();
+  addText(headerTitle, titleX(headerTitle), 22);
 
   setFont("normal", 10);
-  const proposalNumber = String(proposal.id).padStart(4, "0");
-  addText(`#${proposalNumber}`, margin, 30);
+  addText(`#${proposalNumber}`, titleX(`#${proposalNumber}`), 30);
 
-  // Company info (right side of header)
+  // Company info (logo side of header)
   // Try to add company logo if available
   let logoRendered = false;
-  if (companyInfo?.companyLogo) {
+  if (logoAllowed && companyInfo?.companyLogo) {
     try {
-      // Add logo image in the header (right side)
+      // Add logo image in the header
       // Logo should be max 30mm wide and 20mm tall to fit in header
       const logoWidth = 30;
       const logoHeight = 15;
-      const logoX = pageWidth - margin - logoWidth;
+      const logoX = companyX(logoWidth);
       const logoY = 5;
 
       pdf.addImage(companyInfo.companyLogo, "PNG", logoX, logoY, logoWidth, logoHeight);
@@ -236,7 +507,7 @@ export function buildProposalPdf(params: {
         pdf.setTextColor(255, 255, 255);
         setFont("bold", 9);
         const companyNameWidth = pdf.getTextWidth(companyInfo.companyName);
-        addText(companyInfo.companyName, pageWidth - margin - companyNameWidth, 26);
+        addText(companyInfo.companyName, companyX(companyNameWidth), 26);
       }
 
       // Add license number if available
@@ -244,7 +515,7 @@ export function buildProposalPdf(params: {
         setFont("normal", 7);
         const licText = `Lic# ${companyInfo.licenseNumber}`;
         const licWidth = pdf.getTextWidth(licText);
-        addText(licText, pageWidth - margin - licWidth, 31);
+        addText(licText, companyX(licWidth), 31);
       }
     } catch (e) {
       console.error('[PDF] Failed to add company logo:', e);
@@ -257,24 +528,24 @@ export function buildProposalPdf(params: {
     pdf.setTextColor(255, 255, 255);
     setFont("bold", 12);
     const companyNameWidth = pdf.getTextWidth(companyInfo.companyName);
-    addText(companyInfo.companyName, pageWidth - margin - companyNameWidth, 18);
+    addText(companyInfo.companyName, companyX(companyNameWidth), 18);
 
     setFont("normal", 8);
     let companyY = 24;
     if (companyInfo.companyAddress) {
       const addrWidth = pdf.getTextWidth(companyInfo.companyAddress);
-      addText(companyInfo.companyAddress, pageWidth - margin - addrWidth, companyY);
+      addText(companyInfo.companyAddress, companyX(addrWidth), companyY);
       companyY += 4;
     }
     if (companyInfo.companyPhone) {
       const phoneWidth = pdf.getTextWidth(companyInfo.companyPhone);
-      addText(companyInfo.companyPhone, pageWidth - margin - phoneWidth, companyY);
+      addText(companyInfo.companyPhone, companyX(phoneWidth), companyY);
       companyY += 4;
     }
     if (companyInfo.licenseNumber) {
       const licText = `Lic# ${companyInfo.licenseNumber}`;
       const licWidth = pdf.getTextWidth(licText);
-      addText(licText, pageWidth - margin - licWidth, companyY);
+      addText(licText, companyX(licWidth), companyY);
     }
   }
 
@@ -283,7 +554,7 @@ export function buildProposalPdf(params: {
   // --- CLIENT INFO SECTION ---
   setTextColorHex(lightGray);
   setFont("bold", 8);
-  addText("PREPARED FOR", margin, y);
+  addText(m.document.preparedFor.toUpperCase(), margin, y);
 
   setTextColorHex(textColor);
   setFont("bold", 14);
@@ -299,21 +570,20 @@ export function buildProposalPdf(params: {
   // Date and job type (right side)
   setTextColorHex(lightGray);
   setFont("bold", 8);
-  addText("DATE", pageWidth - margin - 50, y - 11, { align: "left" });
+  addText(m.document.date.toUpperCase(), pageWidth - margin - 50, y - 11, { align: "left" });
 
   setTextColorHex(textColor);
   setFont("normal", 10);
-  const createdAt = proposal.createdAt ? new Date(proposal.createdAt) : new Date();
-  addText(formatLongDateUTC(createdAt), pageWidth - margin - 50, y - 6);
+  addText(formatLongDateUTC(createdAt, language), pageWidth - margin - 50, y - 6);
 
   setTextColorHex(lightGray);
   setFont("bold", 8);
-  addText("JOB TYPE", pageWidth - margin - 50, y + 2, { align: "left" });
+  addText(m.document.jobType.toUpperCase(), pageWidth - margin - 50, y + 2, { align: "left" });
 
   setTextColorHex(textColor);
   setFont("normal", 10);
   const jobTypeDisplay = isMultiService
-    ? `Multi-Service (${proposal.lineItems!.length} services)`
+    ? fillMessage(m.document.multiServiceCount, { count: proposal.lineItems!.length })
     : proposal.jobTypeName;
   addText(jobTypeDisplay, pageWidth - margin - 50, y + 7, { maxWidth: 50 });
 
@@ -327,14 +597,33 @@ export function buildProposalPdf(params: {
 
     setTextColorHex("#0369a1");
     setFont("bold", 10);
-    const timelineText =
+    const days =
       proposal.estimatedDaysLow === proposal.estimatedDaysHigh
-        ? `Estimated Timeline: ${proposal.estimatedDaysLow} working days`
-        : `Estimated Timeline: ${proposal.estimatedDaysLow}-${proposal.estimatedDaysHigh} working days`;
+        ? `${proposal.estimatedDaysLow}`
+        : `${proposal.estimatedDaysLow}-${proposal.estimatedDaysHigh}`;
+    const timelineText = `${m.document.estimatedTimeline}: ${fillMessage(m.document.workingDays, { days })}`;
     addText(timelineText, margin + 5, y + 8);
     y += 18;
   }
 
+  // --- HERO PHOTO (the cover page shows it instead) ---
+  if (heroPhoto && !theme.coverPage) {
+    const heroHeight = Math.min(70, contentWidth * (heroPhoto.height / heroPhoto.width));
+    checkPageBreak(heroHeight + 6);
+    if (drawPhoto(heroPhoto, margin, y, contentWidth, heroHeight)) {
+      y += heroHeight + 6;
+    }
+  }
+
+  // --- EXISTING CONDITIONS ---
+  if (existingPhotos.length > 0) {
+    checkPageBreak(50);
+    renderSectionBar(m.document.existingConditions);
+    y += 12;
+    renderPhotoGrid(existingPhotos);
+    y += 4;
+  }
+
   // --- MULTI-SERVICE SUMMARY TABLE ---
   if (isMultiService && proposal.lineItems) {
     checkPageBreak(60);
@@ -343,7 +632,7 @@ export function buildProposalPdf(params: {
     pdf.rect(margin, y, contentWidth, 8, "F");
     pdf.setTextColor(255, 255, 255);
     setFont("bold", 10);
-    addText("SERVICES INCLUDED", margin + 3, y + 5.5);
+    addText(m.document.servicesIncluded.toUpperCase(), margin + 3, y + 5.5);
     y += 12;
 
     // Table header
@@ -351,9 +640,9 @@ export function buildProposalPdf(params: {
     pdf.rect(margin, y, contentWidth, 7, "F");
     setTextColorHex(textColor);
     setFont("bold", 9);
-    addText("Service", margin + 3, y + 5);
-    addText("Est. Days", margin + contentWidth * 0.6, y + 5);
-    addText("Price", margin + contentWidth * 0.82, y + 5);
+    addText(m.document.service, margin + 3, y + 5);
+    addText(m.document.estDays, margin + contentWidth * 0.6, y + 5);
+    addText(m.document.price, margin + contentWidth * 0.82, y + 5);
     y += 9;
 
     // Table rows
@@ -416,7 +705,7 @@ export function buildProposalPdf(params: {
     pdf.rect(margin, y - 1, contentWidth, 9, "F");
     setTextColorHex(textColor);
     setFont("bold", 10);
-    addText("TOTAL", margin + 3, y + 5);
+    addText(m.document.total.toUpperCase(), margin + 3, y + 5);
 
     const totalDaysText =
       totalDaysLowCalc === totalDaysHighCalc ? `${totalDaysLowCalc}` : `${totalDaysLowCalc}-${totalDaysHighCalc}`;
@@ -437,7 +726,7 @@ export function buildProposalPdf(params: {
     pdf.rect(margin, y, contentWidth, 8, "F");
     pdf.setTextColor(255, 255, 255);
     setFont("bold", 10);
-    addText("INVESTMENT", margin + 3, y + 5.5);
+    addText(m.document.investment.toUpperCase(), margin + 3, y + 5.5);
     y += 14;
 
     // Price box
@@ -447,7 +736,7 @@ export function buildProposalPdf(params: {
 
     setTextColorHex(lightGray);
     setFont("normal", 9);
-    addText("Total Project Estimate (All Services)", margin + 5, y + 8);
+    addText(m.document.totalProjectEstimateAllServices, margin + 5, y + 8);
 
     setTextColorHex(textColor);
     setFont("bold", 18);
@@ -457,7 +746,7 @@ export function buildProposalPdf(params: {
     setTextColorHex(lightGray);
     setFont("normal", 7);
     addText(
-      "*Price includes all labor, materials, and taxes as specified above. Valid for 30 days.",
+      `${m.document.priceNote} ${validityNote}`,
       margin + 5,
       y + 22,
     );
@@ -472,17 +761,12 @@ export function buildProposalPdf(params: {
   pdf.rect(margin, y, contentWidth, 8, "F");
   pdf.setTextColor(255, 255, 255);
   setFont("bold", 10);
-  addText("SCOPE OF WORK", margin + 3, y + 5.5);
+  addText(m.document.scopeOfWork.toUpperCase(), margin + 3, y + 5.5);
   y += 14;
 
   setTextColorHex(lightGray);
   setFont("normal", 9);
-  addText(
-    "We propose to furnish all materials and perform all labor necessary to complete the following:",
-    margin,
-    y,
-    { maxWidth: contentWidth },
-  );
+  addText(m.document.scopeIntro, margin, y, { maxWidth: contentWidth });
   y += 10;
 
   // Render scope items
@@ -525,6 +809,11 @@ export function buildProposalPdf(params: {
         y += Math.max(lineHeight, 5) + 1.5;
       }
 
+      if (hasCostBreakdown(item.costBreakdown)) {
+        y += 2;
+        renderCostTable(item.costBreakdown);
+      }
+
       y += 5;
     });
   } else {
@@ -582,7 +871,7 @@ export function buildProposalPdf(params: {
     pdf.roundedRect(margin, y, contentWidth, 8, 2, 2, "FD");
     setTextColorHex("#92400e");
     setFont("bold", 9);
-    addText("NOT INCLUDED", margin + 3, y + 5.5);
+    addText(m.document.notIncluded.toUpperCase(), margin + 3, y + 5.5);
     y += 12;
 
     setFillColorHex("#fffbeb");
@@ -618,7 +907,7 @@ export function buildProposalPdf(params: {
     pdf.roundedRect(margin, y, contentWidth, 8, 2, 2, "FD");
     setTextColorHex("#166534");
     setFont("bold", 9);
-    addText("WARRANTY", margin + 3, y + 5.5);
+    addText(m.document.warranty.toUpperCase(), margin + 3, y + 5.5);
     y += 12;
 
     setFillColorHex("#f0fdf4");
@@ -631,13 +920,26 @@ export function buildProposalPdf(params: {
 
   // --- INVESTMENT SECTION (for single service) ---
   if (!isMultiService) {
+    const singleServiceBreakdown = proposal.costBreakdown ?? proposal.lineItems?.[0]?.costBreakdown;
+    if (hasCostBreakdown(singleServiceBreakdown)) {
+      checkPageBreak(30);
+      setFillColorHex(primaryColor);
+      pdf.rect(margin, y, contentWidth, 8, "F");
+      pdf.setTextColor(255, 255, 255);
+      setFont("bold", 10);
+      addText(m.document.costBreakdown.toUpperCase(), margin + 3, y + 5.5);
+      y += 12;
+      renderCostTable(singleServiceBreakdown);
+      y += 4;
+    }
+
     checkPageBreak(40);
 
     setFillColorHex(primaryColor);
     pdf.rect(margin, y, contentWidth, 8, "F");
     pdf.setTextColor(255, 255, 255);
     setFont("bold", 10);
-    addText("INVESTMENT", margin + 3, y + 5.5);
+    addText(m.document.investment.toUpperCase(), margin + 3, y + 5.5);
     y += 14;
 
     // Price box
@@ -647,7 +949,7 @@ export function buildProposalPdf(params: {
 
     setTextColorHex(lightGray);
     setFont("normal", 9);
-    addText("Total Project Estimate", margin + 5, y + 8);
+    addText(m.document.totalProjectEstimate, margin + 5, y + 8);
 
     setTextColorHex(textColor);
     setFont("bold", 18);
@@ -658,7 +960,7 @@ export function buildProposalPdf(params: {
     setTextColorHex(lightGray);
     setFont("normal", 7);
     addText(
-      "*Price includes all labor, materials, and taxes as specified above. Valid for 30 days.",
+      `${m.document.priceNote} ${validityNote}`,
       margin + 5,
       y + 22,
     );
@@ -667,29 +969,68 @@ export function buildProposalPdf(params: {
   }
 
   // --- TERMS & CONDITIONS ---
-  checkPageBreak(50);
+  // The proposal's state clauses, or the generic one-line terms (which have no titles)
+  const terms = localizeContractTerms(proposal.contractTerms, language);
+  // Titled clause: bold title line, then the body wrapped to the content width
+  const renderClause = (index: number, title: string, body: string, size: number, lineHeight: number) => {
+    setFont("normal", size);
+    const lines = pdf.splitTextToSize(body, contentWidth);
+    checkPageBreak(lines.length * lineHeight + lineHeight + 3);
+    setFont("bold", size);
+    addText(`${index + 1}. ${title}`, margin, y);
+    y += lineHeight;
+    setFont("normal", size);
+    pdf.text(lines, margin, y);
+    y += lines.length * lineHeight + 2;
+  };
 
-  setTextColorHex(lightGray);
-  setFont("bold", 8);
-  addText("TERMS & CONDITIONS", margin, y);
-  y += 5;
+  if (theme.termsPage) {
+    // Own page, with the signatures following the terms
+    pdf.addPage();
+    y = margin;
+    renderSectionBar(m.document.termsAndConditions);
+    y += 14;
 
-  setFont("normal", 8);
-  const terms = [
-    "Payment terms: 50% deposit due upon acceptance, balance due upon completion.",
-    "Any changes to the scope of work may result in additional charges.",
-    "Work schedule subject to weather conditions and material availability.",
-    "Customer to provide access to work area and utilities as needed.",
-    "All permits to be obtained by contractor unless otherwise specified.",
-  ];
-
-  for (let i = 0; i < terms.length; i++) {
-    checkPageBreak(6);
-    addText(`${i + 1}. ${terms[i]}`, margin, y, { maxWidth: contentWidth });
+    setTextColorHex(lightGray);
+    setFont("normal", 9);
+    y += addText(m.document.termsIntro, margin, y, { maxWidth: contentWidth }) + 4;
+
+    setTextColorHex(textColor);
+    setFont("normal", 10);
+    for (let i = 0; i < terms.length; i++) {
+      if (terms[i].title) {
+        renderClause(i, terms[i].title, terms[i].body, 10, 5);
+        continue;
+      }
+      const lines = pdf.splitTextToSize(`${i + 1}. ${terms[i].body}`, contentWidth);
+      checkPageBreak(lines.length * 5 + 3);
+      pdf.text(lines, margin, y);
+      y += lines.length * 5 + 3;
+    }
+
+    y += 25;
+  } else {
+    checkPageBreak(50);
+
+    setTextColorHex(lightGray);
+    setFont("bold", 8);
+    addText(m.document.termsAndConditions.toUpperCase(), margin, y);
     y += 5;
-  }
 
-  y += 10;
+    setFont("normal", 8);
+
+    for (let i = 0; i < terms.length; i++) {
+      if (terms[i].title) {
+        renderClause(i, terms[i].title, terms[i].body, 8, 3.5);
+        continue;
+      }
+      checkPageBreak(6);
+      addText(`${i + 1}. ${terms[i].body}`, margin, y, { maxWidth: contentWidth });
+      y += 5;
+    }
+
+    y += 10;
+  }
 
   // --- SIGNATURE SECTION ---
   checkPageBreak(40);
@@ -701,8 +1042,8 @@ export function buildProposalPdf(params: {
   y += 5;
   setTextColorHex(lightGray);
   setFont("bold", 7);
-  addText("CONTRACTOR SIGNATURE", margin, y);
-  addText("CLIENT SIGNATURE", margin + contentWidth / 2 + 10, y);
+  addText(m.document.contractorSignature.toUpperCase(), margin, y);
+  addText(m.document.clientSignature.toUpperCase(), margin + contentWidth / 2 + 10, y);
 
   // Add signatures if present
   if (proposal.contractorSignature) {
@@ -726,30 +1067,196 @@ export function buildProposalPdf(params: {
   // --- FOOTER ---
   setTextColorHex(lightGray);
   setFont("normal", 8);
-  addText("This proposal is valid for 30 days from the date above.", pageWidth / 2, y, {
+  addText(validityFooter, pageWidth / 2, y, {
     align: "center",
   });
 
   if (!params.isPro) {
     y += 10;
     setFont("normal", 7);
-    addText("Powered by ScopeGen - Professional proposals in seconds", pageWidth / 2, y, {
+    addText(`${m.document.poweredBy} ScopeGen - ${m.document.tagline}`, pageWidth / 2, y, {
       align: "center",
     });
   }
 
-  // Accepted status badge
+  // Accepted status badge (next to the client details)
   if (proposal.status === "accepted" && proposal.acceptedAt) {
+    pdf.setPage(firstContentPage);
     setFillColorHex("#dcfce7");
     setDrawColorHex("#22c55e");
     pdf.roundedRect(pageWidth - margin - 45, 40, 45, 15, 2, 2, "FD");
 
     setTextColorHex("#16a34a");
     setFont("bold", 8);
-    addText("✓ ACCEPTED", pageWidth - margin - 40, 48);
+    addText(`✓ ${m.document.accepted.toUpperCase()}`, pageWidth - margin - 40, 48);
 
     setFont("normal", 6);
-    addText(formatShortDateUTC(new Date(proposal.acceptedAt)), pageWidth - margin - 40, 52);
+    addText(formatShortDateUTC(new Date(proposal.acceptedAt), language), pageWidth - margin - 40, 52);
+    pdf.setPage(pdf.getNumberOfPages());
+  }
+
+  // --- CHANGE ORDERS APPENDIX ---
+  const originalTotal = getOriginalContractTotal(proposal);
+  const ledger = buildContractLedger(originalTotal, params.changeOrders ?? []);
+  if (ledger.rows.length > 0) {
+    pdf.addPage();
+    y = margin;
+
+    setFillColorHex(primaryColor);
+    pdf.rect(margin, y, contentWidth, 8, "F");
+    pdf.setTextColor(255, 255, 255);
+    setFont("bold", 10);
+    addText(m.changeOrders.appendixTitle.toUpperCase(), margin + 3, y + 5.5);
+    y += 14;
+
+    setTextColorHex(textColor);
+    setFont("normal", 9);
+    addText(m.changeOrders.originalContractTotal, margin, y);
+    setFont("bold", 9);
+    addText(formatCurrency(originalTotal), pageWidth - margin, y, { align: "right" });
+    y += 8;
+
+    for (const { changeOrder, runningTotal } of ledger.rows) {
+      const scopeLines = [
+        ...changeOrder.addedScope.map((item) => `+ ${item}`),
+        ...changeOrder.removedScope.map((item) => `- ${item}`),
+      ];
+      checkPageBreak(30 + scopeLines.length * 5);
+
+      setDrawColorHex("#e2e8f0");
+      pdf.line(margin, y, pageWidth - margin, y);
+      y += 6;
+
+      setTextColorHex(primaryColor);
+      setFont("bold", 10);
+      addText(`${formatChangeOrderNumber(changeOrder.number)}: ${changeOrder.title}`, margin, y, {
+        maxWidth: contentWidth * 0.7,
+      });
+      setTextColorHex(changeOrder.priceDelta < 0 ? "#16a34a" : secondaryColor);
+      addText(formatPriceDelta(changeOrder.priceDelta), pageWidth - margin, y, { align: "right" });
+      y += 5;
+
+      setTextColorHex(lightGray);
+      setFont("normal", 8);
+      const acceptedDate = changeOrder.acceptedAt ? formatShortDateUTC(new Date(changeOrder.acceptedAt), language) : null;
+      const statusLine =
+        changeOrder.status === "accepted" && acceptedDate
+          ? changeOrder.acceptedByName
+            ? fillMessage(m.changeOrders.acceptedOnBy, { date: acceptedDate, name: changeOrder.acceptedByName })
+            : fillMessage(m.changeOrders.acceptedOn, { date: acceptedDate })
+          : m.changeOrders.pendingClientSignature;
+      addText(statusLine, margin, y);
+      y += 5;
+
+      if (changeOrder.description) {
+        setTextColorHex(textColor);
+        y += addText(changeOrder.description, margin, y, { maxWidth: contentWidth }) + 1;
+      }
+
+      setFont("normal", 9);
+      for (const line of scopeLines) {
+        checkPageBreak(6);
+        setTextColorHex(line.startsWith("+") ? textColor : lightGray);
+        y += addText(line, margin + 3, y, { maxWidth: contentWidth - 3 }) + 1;
+      }
+
+      if (changeOrder.status === "accepted" && changeOrder.signature) {
+        checkPageBreak(18);
+        try {
+          pdf.addImage(changeOrder.signature, "PNG", margin, y, 40, 12);
+        } catch {
+          // Signature image failed to load
+        }
+        y += 14;
+      }
+
+      setTextColorHex(textColor);
+      setFont("bold", 8);
+      addText(m.changeOrders.runningContractTotal, margin, y);
+      addText(formatCurrency(runningTotal), pageWidth - margin, y, { align: "right" });
+      y += 6;
+    }
+
+    checkPageBreak(20);
+    setFillColorHex(sectionBg);
+    setDrawColorHex("#e2e8f0");
+    pdf.roundedRect(margin, y, contentWidth, 14, 2, 2, "FD");
+    setTextColorHex(textColor);
+    setFont("bold", 10);
+    addText(m.changeOrders.currentContractTotal, margin + 5, y + 9);
+    addText(formatCurrency(ledger.currentTotal), pageWidth - margin - 5, y + 9, { align: "right" });
+    y += 18;
+
+    if (ledger.rows.some(({ changeOrder }) => changeOrder.status !== "accepted")) {
+      setTextColorHex(lightGray);
+      setFont("normal", 7);
+      addText(m.changeOrders.pendingNote, margin, y);
+    }
+  }
+
+  // --- PHOTO APPENDIX ---
+  if (appendixPhotos.length > 0) {
+    pdf.addPage();
+    y = margin;
+    renderSectionBar(m.document.photoAppendix);
+    y += 14;
+    renderPhotoGrid(appendixPhotos);
+  }
+
+  // --- SIGNING CERTIFICATE ---
+  const certificates = params.signingCertificates ?? [];
+  if (certificates.length > 0) {
+    pdf.addPage();
+    y = margin;
+    renderSectionBar(m.signing.certificateTitle);
+    y += 14;
+
+    setTextColorHex(lightGray);
+    setFont("normal", 9);
+    y += addText(m.signing.certificateIntro, margin, y, { maxWidth: contentWidth }) + 4;
+
+    const labelWidth = 38;
+    const valueWidth = contentWidth - labelWidth - 4;
+    for (const certificate of certificates) {
+      const signedAt = new Date(certificate.signedAt).toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC");
+      const rows: Array<[string, string]> = [
+        [m.signing.signer, certificate.signerEmail ? `${certificate.signerName} <${certificate.signerEmail}>` : certificate.signerName],
+        [m.signing.signedAt, signedAt],
+        [m.signing.ipAddress, certificate.ipAddress || m.signing.notRecorded],
+        [m.signing.userAgent, certificate.userAgent || m.signing.notRecorded],
+        [m.signing.consent, `"${certificate.consentText}"`],
+        [m.signing.documentSha256, certificate.documentSha256],
+        [m.signing.termsSha256, certificate.termsSha256],
+        [m.signing.certificateId, certificate.certificateId],
+        [m.signing.certificateSha256, certificate.certificateSha256],
+        ...(certificate.verifyUrl ? [[m.signing.verify, certificate.verifyUrl] as [string, string]] : []),
+      ];
+
+      setFont("normal", 8);
+      const wrapped = rows.map(([label, value]) => ({ label, lines: pdf.splitTextToSize(value, valueWidth) as string[] }));
+      const blockHeight = wrapped.reduce((height, row) => height + row.lines.length * 3.5 + 1.5, 0) + 14;
+      checkPageBreak(blockHeight);
+
+      setFillColorHex(sectionBg);
+      setDrawColorHex("#e2e8f0");
+      pdf.roundedRect(margin, y, contentWidth, blockHeight - 4, 2, 2, "FD");
+      y += 6;
+      setTextColorHex(primaryColor);
+      setFont("bold", 10);
+      addText(certificate.role === "contractor" ? m.signing.contractor : m.signing.client, margin + 4, y);
+      y += 6;
+
+      for (const row of wrapped) {
+        setTextColorHex(lightGray);
+        setFont("bold", 7);
+        addText(row.label.toUpperCase(), margin + 4, y);
+        setTextColorHex(textColor);
+        setFont("normal", 8);
+        pdf.text(row.lines, margin + labelWidth, y);
+        y += row.lines.length * 3.5 + 1.5;
+      }
+      y += 6;
+    }
   }
 
   const pdfBytes = pdf.output("arraybuffer");
@@ -0,0 +1,65 @@
+/**
+ * Stored Proposal PDF
+ *
+ * Renders a saved proposal exactly as the download route serves it: the
+ * owner's company details and theme, change orders, photos and signing
+ * certificates. Signing hashes this output, so anything that changes what a
+ * client downloads has to go through here.
+ * Server-side only.
+ */
+
+import type { Proposal } from "@shared/schema";
+import { listChangeOrdersByProposal } from "@/lib/change-orders";
+import { getEffectivePdfTheme } from "@/lib/pdf-theme";
+import { listSigningCertificatesByProposal } from "@/lib/signing-certificates";
+import { buildProposalPdf } from "./proposalPdf";
+import { loadProposalPdfPhotos } from "./proposalPdfPhotos";
+import { storage } from "./storage";
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_WEB_BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
+}
+
+export function getCertificateVerifyUrl(certificateId: string): string {
+  return `${getBaseUrl()}/api/public/signing-certificates/${certificateId}`;
+}
+
+/**
+ * Pass `requireAllPhotos` when the result is hashed for a signature: a photo
+ * that can't be loaded then fails the render instead of being left out of the
+ * document that gets signed.
+ */
+export async function renderStoredProposalPdf(
+  proposal: Proposal,
+  options: { requireAllPhotos?: boolean } = {}
+) {
+  const user = await storage.getUser(proposal.userId);
+  const companyInfo = user ? {
+    companyName: user.companyName,
+    companyAddress: user.companyAddress,
+    companyPhone: user.companyPhone,
+    licenseNumber: user.licenseNumber,
+    companyLogo: user.companyLogo,
+  } : null;
+
+  const [changeOrders, { theme }, photoRecords, certificates] = await Promise.all([
+    listChangeOrdersByProposal(proposal.id),
+    getEffectivePdfTheme(proposal.userId),
+    storage.getProposalPhotos(proposal.id, proposal.userId),
+    listSigningCertificatesByProposal(proposal.id),
+  ]);
+  const photos = await loadProposalPdfPhotos(photoRecords, { requireAll: options.requireAllPhotos });
+
+  return buildProposalPdf({
+    proposal: proposal as any,
+    companyInfo,
+    isPro: user?.isPro || false,
+    changeOrders,
+    theme,
+    photos,
+    signingCertificates: certificates.map((certificate) => ({
+      ...certificate,
+      verifyUrl: getCertificateVerifyUrl(certificate.certificateId),
+    })),
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * Loads proposal photos for the PDF: reads each photo from object storage (or
+ * /public in local dev) and re-encodes it as a JPEG jsPDF can embed.
+ */
+import path from "path";
+import { promises as fs } from "fs";
+import sharp from "sharp";
+import type { ProposalPhotoRecord } from "@shared/schema";
+import type { PhotoCategory, ProposalPhoto } from "@/components/proposal-photos/types";
+import { fetchImageBytes } from "@/src/lib/mobile/storage/s3";
+import { logger } from "@/lib/logger";
+
+// Wide enough for a full-width hero at print resolution without bloating the file
+const MAX_PDF_PHOTO_WIDTH = 1400;
+
+export interface PdfPhoto extends ProposalPhoto {
+  /** JPEG bytes */
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/** A photo couldn't be read while rendering a PDF that must include every photo. */
+export class PdfPhotoLoadError extends Error {
+  readonly photoId: number;
+  // Caption, or the photo id when it has none; for telling the contractor which one
+  readonly photoLabel: string;
+
+  constructor(photo: ProposalPhotoRecord, cause: unknown) {
+    super(`Failed to load photo ${photo.id} for the PDF`, { cause });
+    this.name = "PdfPhotoLoadError";
+    this.photoId = photo.id;
+    this.photoLabel = photo.caption?.trim() || `Photo #${photo.id}`;
+  }
+}
+
+async function readLocalPublicFile(url: string): Promise<Uint8Array> {
+  // Only files under /public, same as the local upload fallback writes to
+  const rel = path.posix.normalize(url.replace(/^\/+/, "").split("?")[0]);
+  const publicDir = path.join(process.cwd(), "public");
+  const abs = path.join(publicDir, rel);
+  if (rel.startsWith("..") || !abs.startsWith(publicDir + path.sep)) {
+    throw new Error(`Photo path outside public dir: ${url}`);
+  }
+  return new Uint8Array(await fs.readFile(abs));
+}
+
+async function loadPdfPhoto(photo: ProposalPhotoRecord): Promise<PdfPhoto> {
+  // The medium derivative is plenty for print and much smaller than the original
+  const url = photo.mediumUrl || photo.publicUrl;
+  const bytes = url.startsWith("/") ? await readLocalPublicFile(url) : await fetchImageBytes(url);
+
+  const { data, info } = await sharp(bytes)
+    .rotate()
+    .resize({ width: MAX_PDF_PHOTO_WIDTH, withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    id: String(photo.id),
+    url,
+    category: photo.category as PhotoCategory,
+    caption: photo.caption ?? undefined,
+    order: photo.displayOrder,
+    data: new Uint8Array(data),
+    width: info.width,
+    height: info.height,
+  };
+}
+
+/**
+ * Photos ready for buildProposalPdf. Photos that can't be read are left out
+ * rather than failing the whole PDF, unless `requireAll` is set.
+ */
+export async function loadProposalPdfPhotos(
+  photos: ProposalPhotoRecord[],
+  options: { requireAll?: boolean } = {}
+): Promise<PdfPhoto[]> {
+  const results = await Promise.allSettled(photos.map(loadPdfPhoto));
+  return results.flatMap((result, i) => {
+    if (result.status === "fulfilled") return [result.value];
+    if (options.requireAll) {
+      throw new PdfPhotoLoadError(photos[i], result.reason);
+    }
+    logger.error("Failed to load photo for PDF", { photoId: photos[i].id }, result.reason);
+    return [];
+  });
+}
@@ -11,6 +11,10 @@ import {
   mobileJobPhotos,
   mobileJobDrafts,
   auditLog,
+  proposalRevisions,
+  proposalTemplates,
+  proposalTemplateVersions,
+  signingCertificates,
   type User,
   type UpsertUser,
   type Proposal,
@@ -30,10 +34,35 @@ import {
   type InsertAuditLog,
   type Entitlement,
   type PlatformRole,
+  type ProposalRevision,
+  type ProposalTemplate,
+  type ProposalTemplateVersion,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, count, inArray, getTableColumns, gte } from "drizzle-orm";
+import { eq, desc, and, or, sql, count, inArray, isNull, getTableColumns, gte, type SQL } from "drizzle-orm";
 import { logger } from "@/lib/logger";
+import {
+  buildRevisionSnapshot,
+  diffRevisionSnapshots,
+  touchesTrackedFields,
+} from "@/lib/proposal-revisions";
+import {
+  buildTemplateSnapshot,
+  diffTemplateSnapshots,
+  flattenScopeSections,
+  pickTemplateForJob,
+  type CustomTemplateContent,
+  type UpdateCustomTemplateInput,
+} from "@/lib/custom-templates";
+import { applyDepositPayment, type DepositPayment } from "@/lib/proposal-deposits";
+import { getSeatCapacity, isInvitePending } from "@/lib/company-workspace";
+import { buildSigningCertificate, type SignatureCertificateInput } from "@/lib/signing-certificates/certificate";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type AcceptInviteResult =
+  | { status: "accepted"; invite: Invite; member: CompanyMember }
+  | { status: "used" | "already_member" | "no_seats" };
 
 // Interface for storage operations
 export interface IStorage {
@@ -82,14 +111,36 @@ export interface IStorage {
   deleteProposal(id: number, userId: string): Promise<boolean>;
   unlockProposal(id: number, userId: string): Promise<Proposal | undefined>;
   generatePublicToken(id: number, userId: string): Promise<Proposal | undefined>;
-  acceptProposal(token: string, acceptedByName: string, acceptedByEmail: string, signature: string): Promise<Proposal | undefined>;
-  countersignProposal(id: number, userId: string, signature: string): Promise<Proposal | undefined>;
+  acceptProposal(token: string, acceptedByName: string, acceptedByEmail: string, signature: string, certificate: SignatureCertificateInput): Promise<Proposal | undefined>;
+  countersignProposal(id: number, userId: string, signature: string, certificate: SignatureCertificateInput): Promise<Proposal | undefined>;
   getProposalByPaymentLinkId(paymentLinkId: string): Promise<Proposal | undefined>;
+  setProposalPaymentLink(id: number, userId: string, link: { paymentLinkId: string; paymentLinkUrl: string; depositPercentage: number; depositAmount: number; paymentStatus: string }): Promise<Proposal | undefined>;
   updateProposalPaymentStatus(id: number, updates: { paidAmount: number; paymentStatus: string; stripePaymentIntentId?: string }): Promise<Proposal | undefined>;
+  recordProposalDeposit(paymentLinkId: string, payment: DepositPayment): Promise<Proposal | undefined>;
+  getProposalsAwaitingDeposit(updatedSince: Date, limit: number): Promise<Proposal[]>;
+
+  // Company-owned proposals (Crew workspaces)
+  getCompanyProposals(companyId: number, userId: string, includeAll: boolean): Promise<(Proposal & { thumbnailUrl: string | null })[]>;
+  reassignProposal(id: number, companyId: number, userId: string): Promise<Proposal | undefined>;
+
+  // Proposal revision history (recorded automatically by updateProposal once sent)
+  getProposalRevisions(proposalId: number): Promise<ProposalRevision[]>;
+  getProposalRevision(proposalId: number, revisionNumber: number): Promise<ProposalRevision | undefined>;
+  restoreProposalRevision(id: number, userId: string, revisionNumber: number): Promise<Proposal | undefined>;
+
+  // Custom proposal templates (editor, version history, Crew sharing)
+  getTemplate(id: number): Promise<ProposalTemplate | undefined>;
+  getVisibleTemplates(userId: string | null, companyId: number | null, filters?: { tradeId?: string; customOnly?: boolean }): Promise<ProposalTemplate[]>;
+  createCustomTemplate(userId: string, companyId: number | null, content: CustomTemplateContent, forkedFromId?: number | null): Promise<ProposalTemplate>;
+  updateCustomTemplate(id: number, userId: string, updates: UpdateCustomTemplateInput): Promise<ProposalTemplate | undefined>;
+  setTemplateSharing(id: number, userId: string, companyId: number, sharedWithCompany: boolean): Promise<ProposalTemplate | undefined>;
+  getTemplateVersions(templateId: number): Promise<ProposalTemplateVersion[]>;
+  restoreTemplateVersion(id: number, userId: string, version: number): Promise<ProposalTemplate | undefined>;
+  resolveTemplateForJob(userId: string, companyId: number | null, jobTypeIds: string[], tradeId?: string): Promise<ProposalTemplate | undefined>;
 
   // User Stripe settings
   updateUserStripeSettings(userId: string, settings: {
-    userStripeSecretKey?: string | null;
+    // The key itself is written encrypted via setUserSecret (lib/secrets)
     userStripeEnabled?: boolean;
   }): Promise<User | undefined>;
 
@@ -120,7 +171,7 @@ export interface IStorage {
   createInvite(invite: InsertInvite): Promise<Invite>;
   getInviteByToken(token: string): Promise<(Invite & { company: Company }) | undefined>;
   getCompanyInvites(companyId: number): Promise<Invite[]>;
-  acceptInvite(token: string): Promise<Invite | undefined>;
+  acceptInvite(token: string, userId: string): Promise<AcceptInviteResult>;
   deleteInvite(id: number, companyId: number): Promise<boolean>;
 
   // Analytics operations
@@ -232,6 +283,7 @@ export interface IStorage {
     jobSize?: number;
     jobNotes?: string | null;
     createIdempotencyKey?: string | null;
+    templateId?: number | null;
   }): Promise<typeof mobileJobs.$inferSelect>;
 
   getMobileJob(jobId: number, userId: string): Promise<typeof mobileJobs.$inferSelect | undefined>;
@@ -381,6 +433,36 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getProposalsByUser(userId: string): Promise<(Proposal & { thumbnailUrl: string | null })[]> {
+    return this.listProposalsWithThumbnails(eq(proposals.userId, userId));
+  }
+
+  /**
+   * Team proposals for a company. Managers (includeAll) get every company
+   * proposal; members get their own plus the ones shared with the team.
+   */
+  async getCompanyProposals(
+    companyId: number,
+    userId: string,
+    includeAll: boolean
+  ): Promise<(Proposal & { thumbnailUrl: string | null })[]> {
+    const visible = includeAll
+      ? undefined
+      : or(eq(proposals.userId, userId), eq(proposals.sharedWithCompany, true));
+    return this.listProposalsWithThumbnails(and(eq(proposals.companyId, companyId), visible));
+  }
+
+  async reassignProposal(id: number, companyId: number, userId: string): Promise<Proposal | undefined> {
+    const [updated] = await db
+      .update(proposals)
+      .set({ userId, updatedAt: new Date() })
+      .where(and(eq(proposals.id, id), eq(proposals.companyId, companyId)))
+      .returning();
+    return updated;
+  }
+
+  private async listProposalsWithThumbnails(
+    where: SQL | undefined
+  ): Promise<(Proposal & { thumbnailUrl: string | null })[]> {
     /**
      * Dashboard/list thumbnail selection logic:
      * 1) Prefer `category = 'hero'` (acts like a cover photo today)
@@ -409,7 +491,7 @@ export class DatabaseStorage implements IStorage {
           )`,
       })
       .from(proposals)
-      .where(eq(proposals.userId, userId))
+      .where(where)
       .orderBy(desc(proposals.createdAt));
 
     // Recalculate totals for multi-service proposals (or any proposal with lineItems)
@@ -444,14 +526,346 @@ export class DatabaseStorage implements IStorage {
     userId: string,
     updates: Partial<InsertProposal>
   ): Promise<Proposal | undefined> {
+    // Only content edits and the first send can produce a revision
+    const mayRevise = touchesTrackedFields(updates) || updates.status === 'sent';
+    const existing = mayRevise ? await this.getProposal(id) : undefined;
+
     const [updated] = await db
       .update(proposals)
       .set({ ...updates, updatedAt: new Date() })
       .where(and(eq(proposals.id, id), eq(proposals.userId, userId)))
       .returning();
+
+    if (updated && existing) {
+      await this.recordProposalRevision(existing, updated, userId);
+    }
+    return updated;
+  }
+
+  /**
+   * Record a revision when a sent proposal's client-facing content changes.
+   * Revision 1 is the baseline the client originally received: the state at
+   * first send, or the pre-edit state for proposals sent before revisions existed.
+   */
+  private async recordProposalRevision(
+    before: Proposal,
+    after: Proposal,
+    userId: string,
+    restoredFromRevision?: number
+  ): Promise<ProposalRevision | undefined> {
+    if (after.status === 'draft') return undefined;
+
+    return await db.transaction(async (tx) => {
+      // Serialize numbering per proposal so concurrent edits can't share a revision number
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`proposal_revisions:${after.id}`}))`);
+
+      let [latest] = await tx
+        .select()
+        .from(proposalRevisions)
+        .where(eq(proposalRevisions.proposalId, after.id))
+        .orderBy(desc(proposalRevisions.revisionNumber))
+        .limit(1);
+
+      if (!latest) {
+        const baselineSource = before.status === 'draft' ? after : before;
+        const baseline = buildRevisionSnapshot(baselineSource);
+        [latest] = await tx
+          .insert(proposalRevisions)
+          .values({
+            proposalId: after.id,
+            revisionNumber: 1,
+            createdBy: userId,
+            ...baseline,
+          })
+          .returning();
+        if (baselineSource === after) return latest;
+      }
+
+      const snapshot = buildRevisionSnapshot(after);
+      const changes = diffRevisionSnapshots(buildRevisionSnapshot(latest), snapshot);
+      if (changes.length === 0) return latest;
+
+      const [created] = await tx
+        .insert(proposalRevisions)
+        .values({
+          proposalId: after.id,
+          revisionNumber: latest.revisionNumber + 1,
+          createdBy: userId,
+          ...snapshot,
+          changes,
+          restoredFromRevision: restoredFromRevision ?? null,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async getProposalRevisions(proposalId: number): Promise<ProposalRevision[]> {
+    return await db
+      .select()
+      .from(proposalRevisions)
+      .where(eq(proposalRevisions.proposalId, proposalId))
+      .orderBy(proposalRevisions.revisionNumber);
+  }
+
+  async getProposalRevision(proposalId: number, revisionNumber: number): Promise<ProposalRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(proposalRevisions)
+      .where(and(
+        eq(proposalRevisions.proposalId, proposalId),
+        eq(proposalRevisions.revisionNumber, revisionNumber)
+      ));
+    return revision;
+  }
+
+  /**
+   * Restore a proposal's content to an earlier revision.
+   * The restore itself is recorded as a new revision so history is never rewritten.
+   */
+  async restoreProposalRevision(id: number, userId: string, revisionNumber: number): Promise<Proposal | undefined> {
+    const existing = await this.getProposal(id);
+    if (!existing || existing.userId !== userId) return undefined;
+
+    const revision = await this.getProposalRevision(id, revisionNumber);
+    if (!revision) return undefined;
+
+    const [updated] = await db
+      .update(proposals)
+      .set({
+        scope: revision.scope,
+        scopeSections: revision.scopeSections,
+        lineItems: revision.lineItems,
+        priceLow: revision.priceLow,
+        priceHigh: revision.priceHigh,
+        options: revision.options,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(proposals.id, id), eq(proposals.userId, userId)))
+      .returning();
+
+    if (updated) {
+      await this.recordProposalRevision(existing, updated, userId, revisionNumber);
+    }
     return updated;
   }
 
+  async getTemplate(id: number): Promise<ProposalTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(proposalTemplates)
+      .where(eq(proposalTemplates.id, id));
+    return template;
+  }
+
+  /**
+   * Active system templates, the user's own, and the ones shared with their team.
+   */
+  async getVisibleTemplates(
+    userId: string | null,
+    companyId: number | null,
+    filters: { tradeId?: string; customOnly?: boolean } = {}
+  ): Promise<ProposalTemplate[]> {
+    const visibility: SQL[] = [];
+    if (!filters.customOnly) visibility.push(isNull(proposalTemplates.createdBy));
+    if (userId) visibility.push(eq(proposalTemplates.createdBy, userId));
+    if (companyId != null) {
+      visibility.push(and(eq(proposalTemplates.companyId, companyId), eq(proposalTemplates.sharedWithCompany, true))!);
+    }
+    if (visibility.length === 0) return [];
+
+    const conditions: SQL[] = [eq(proposalTemplates.isActive, true), or(...visibility)!];
+    if (filters.tradeId) conditions.push(eq(proposalTemplates.tradeId, filters.tradeId));
+
+    return await db
+      .select()
+      .from(proposalTemplates)
+      .where(and(...conditions))
+      .orderBy(desc(proposalTemplates.usageCount), proposalTemplates.tradeName, proposalTemplates.jobTypeName);
+  }
+
+  /**
+   * Create a custom template (from scratch or as a fork) and record version 1.
+   */
+  async createCustomTemplate(
+    userId: string,
+    companyId: number | null,
+    content: CustomTemplateContent,
+    forkedFromId: number | null = null
+  ): Promise<ProposalTemplate> {
+    return await db.transaction(async (tx) => {
+      const [template] = await tx
+        .insert(proposalTemplates)
+        .values({
+          ...content,
+          baseScope: flattenScopeSections(content.scopeSections),
+          isDefault: false,
+          createdBy: userId,
+          companyId,
+          forkedFromId,
+          version: 1,
+        })
+        .returning();
+
+      await this.lockTemplateVersions(tx, template.id);
+      await tx.insert(proposalTemplateVersions).values({
+        templateId: template.id,
+        version: 1,
+        createdBy: userId,
+        snapshot: buildTemplateSnapshot(template),
+      });
+      return template;
+    });
+  }
+
+  async updateCustomTemplate(id: number, userId: string, updates: UpdateCustomTemplateInput): Promise<ProposalTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      await this.lockTemplateVersions(tx, id);
+
+      // Read under the lock so the baseline is the last committed save
+      const [existing] = await tx.select().from(proposalTemplates).where(eq(proposalTemplates.id, id));
+      if (!existing || existing.createdBy !== userId) return undefined;
+
+      const [updated] = await tx
+        .update(proposalTemplates)
+        .set({
+          ...updates,
+          ...(updates.scopeSections && { baseScope: flattenScopeSections(updates.scopeSections) }),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(proposalTemplates.id, id), eq(proposalTemplates.createdBy, userId)))
+        .returning();
+
+      if (!updated) return undefined;
+      return await this.recordTemplateVersion(tx, existing, updated, userId);
+    });
+  }
+
+  // Serialize version numbering per template so concurrent saves can't share a version number
+  private async lockTemplateVersions(tx: Tx, templateId: number): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`template_versions:${templateId}`}))`);
+  }
+
+  /**
+   * Record a version when a template's content changes. Templates created
+   * before version history existed get their pre-edit state as the baseline.
+   * Runs in the caller's transaction, which must hold the template's version lock.
+   */
+  private async recordTemplateVersion(
+    tx: Tx,
+    before: ProposalTemplate,
+    after: ProposalTemplate,
+    userId: string,
+    restoredFromVersion?: number
+  ): Promise<ProposalTemplate> {
+    let [latest] = await tx
+      .select()
+      .from(proposalTemplateVersions)
+      .where(eq(proposalTemplateVersions.templateId, after.id))
+      .orderBy(desc(proposalTemplateVersions.version))
+      .limit(1);
+
+    if (!latest) {
+      [latest] = await tx
+        .insert(proposalTemplateVersions)
+        .values({
+          templateId: after.id,
+          version: before.version,
+          createdBy: before.createdBy,
+          snapshot: buildTemplateSnapshot(before),
+        })
+        .returning();
+    }
+
+    const snapshot = buildTemplateSnapshot(after);
+    const changes = diffTemplateSnapshots(latest.snapshot, snapshot);
+    if (changes.length === 0) return after;
+
+    const version = latest.version + 1;
+    await tx.insert(proposalTemplateVersions).values({
+      templateId: after.id,
+      version,
+      createdBy: userId,
+      snapshot,
+      changes,
+      restoredFromVersion: restoredFromVersion ?? null,
+    });
+
+    const [versioned] = await tx
+      .update(proposalTemplates)
+      .set({ version })
+      .where(eq(proposalTemplates.id, after.id))
+      .returning();
+    return versioned ?? after;
+  }
+
+  async setTemplateSharing(id: number, userId: string, companyId: number, sharedWithCompany: boolean): Promise<ProposalTemplate | undefined> {
+    const [updated] = await db
+      .update(proposalTemplates)
+      .set({ companyId, sharedWithCompany, updatedAt: new Date() })
+      .where(and(eq(proposalTemplates.id, id), eq(proposalTemplates.createdBy, userId)))
+      .returning();
+    return updated;
+  }
+
+  async getTemplateVersions(templateId: number): Promise<ProposalTemplateVersion[]> {
+    return await db
+      .select()
+      .from(proposalTemplateVersions)
+      .where(eq(proposalTemplateVersions.templateId, templateId))
+      .orderBy(proposalTemplateVersions.version);
+  }
+
+  /**
+   * Restore a template's content to an earlier version.
+   * The restore itself is recorded as a new version so history is never rewritten.
+   */
+  async restoreTemplateVersion(id: number, userId: string, version: number): Promise<ProposalTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      await this.lockTemplateVersions(tx, id);
+
+      const [existing] = await tx.select().from(proposalTemplates).where(eq(proposalTemplates.id, id));
+      if (!existing || existing.createdBy !== userId) return undefined;
+
+      const [target] = await tx
+        .select()
+        .from(proposalTemplateVersions)
+        .where(and(eq(proposalTemplateVersions.templateId, id), eq(proposalTemplateVersions.version, version)));
+      if (!target) return undefined;
+
+      const [updated] = await tx
+        .update(proposalTemplates)
+        .set({ ...target.snapshot, updatedAt: new Date() })
+        .where(and(eq(proposalTemplates.id, id), eq(proposalTemplates.createdBy, userId)))
+        .returning();
+
+      if (!updated) return undefined;
+      return await this.recordTemplateVersion(tx, existing, updated, userId, version);
+    });
+  }
+
+  /**
+   * Template for a new mobile job: the user's own, then their team's shared
+   * one, then the system template for any of the job type's stored IDs.
+   */
+  async resolveTemplateForJob(
+    userId: string,
+    companyId: number | null,
+    jobTypeIds: string[],
+    tradeId?: string
+  ): Promise<ProposalTemplate | undefined> {
+    if (jobTypeIds.length === 0) return undefined;
+    const candidates = await db
+      .select()
+      .from(proposalTemplates)
+      .where(and(
+        inArray(proposalTemplates.jobTypeId, jobTypeIds),
+        eq(proposalTemplates.isActive, true),
+        ...(tradeId ? [eq(proposalTemplates.tradeId, tradeId)] : [])
+      ));
+    return pickTemplateForJob(candidates, userId, companyId != null ? { companyId } : null);
+  }
+
   async deleteProposal(id: number, userId: string): Promise<boolean> {
     const result = await db
       .delete(proposals)
@@ -517,7 +931,6 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserStripeSettings(userId: string, settings: {
-    userStripeSecretKey?: string | null;
     userStripeEnabled?: boolean;
   }): Promise<User | undefined> {
     const [user] = await db
@@ -745,33 +1158,74 @@ export class DatabaseStorage implements IStorage {
     return saved;
   }
 
-  async acceptProposal(token: string, acceptedByName: string, acceptedByEmail: string, signature: string): Promise<Proposal | undefined> {
-    const [updated] = await db
-      .update(proposals)
-      .set({
-        status: 'accepted',
-        acceptedAt: new Date(),
-        acceptedByName,
-        acceptedByEmail,
-        signature,
-        updatedAt: new Date(),
-      })
-      .where(eq(proposals.publicToken, token))
-      .returning();
-    return updated;
+  /**
+   * Accept the proposal and record the client's signing certificate in one
+   * transaction, so a signature is never saved without its certificate.
+   * Returns undefined if the proposal has already been accepted.
+   */
+  async acceptProposal(
+    token: string,
+    acceptedByName: string,
+    acceptedByEmail: string,
+    signature: string,
+    certificate: SignatureCertificateInput
+  ): Promise<Proposal | undefined> {
+    return await db.transaction(async (tx) => {
+      const acceptedAt = new Date();
+      const [updated] = await tx
+        .update(proposals)
+        .set({
+          status: 'accepted',
+          acceptedAt,
+          acceptedByName,
+          acceptedByEmail,
+          signature,
+          updatedAt: acceptedAt,
+        })
+        .where(and(eq(proposals.publicToken, token), isNull(proposals.acceptedAt)))
+        .returning();
+      if (!updated) return undefined;
+
+      await tx
+        .insert(signingCertificates)
+        .values(buildSigningCertificate({ ...certificate, proposalId: updated.id, signedAt: acceptedAt, signature }));
+      return updated;
+    });
   }
 
-  async countersignProposal(id: number, userId: string, signature: string): Promise<Proposal | undefined> {
-    const [updated] = await db
-      .update(proposals)
-      .set({
-        contractorSignature: signature,
-        contractorSignedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(and(eq(proposals.id, id), eq(proposals.userId, userId), eq(proposals.status, 'accepted')))
-      .returning();
-    return updated;
+  /**
+   * Countersign an accepted proposal together with the contractor's signing
+   * certificate. Returns undefined if it isn't accepted or is already countersigned.
+   */
+  async countersignProposal(
+    id: number,
+    userId: string,
+    signature: string,
+    certificate: SignatureCertificateInput
+  ): Promise<Proposal | undefined> {
+    return await db.transaction(async (tx) => {
+      const contractorSignedAt = new Date();
+      const [updated] = await tx
+        .update(proposals)
+        .set({
+          contractorSignature: signature,
+          contractorSignedAt,
+          updatedAt: contractorSignedAt,
+        })
+        .where(and(
+          eq(proposals.id, id),
+          eq(proposals.userId, userId),
+          eq(proposals.status, 'accepted'),
+          isNull(proposals.contractorSignature)
+        ))
+        .returning();
+      if (!updated) return undefined;
+
+      await tx
+        .insert(signingCertificates)
+        .values(buildSigningCertificate({ ...certificate, proposalId: updated.id, signedAt: contractorSignedAt, signature }));
+      return updated;
+    });
   }
 
   async getProposalByPaymentLinkId(paymentLinkId: string): Promise<Proposal | undefined> {
@@ -782,6 +1236,19 @@ export class DatabaseStorage implements IStorage {
     return proposal;
   }
 
+  async setProposalPaymentLink(
+    id: number,
+    userId: string,
+    link: { paymentLinkId: string; paymentLinkUrl: string; depositPercentage: number; depositAmount: number; paymentStatus: string }
+  ): Promise<Proposal | undefined> {
+    const [updated] = await db
+      .update(proposals)
+      .set({ ...link, updatedAt: new Date() })
+      .where(and(eq(proposals.id, id), eq(proposals.userId, userId)))
+      .returning();
+    return updated;
+  }
+
   async updateProposalPaymentStatus(
     id: number,
     updates: { paidAmount: number; paymentStatus: string; stripePaymentIntentId?: string }
@@ -799,21 +1266,67 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  /**
+   * Add a deposit paid through the proposal's current Payment Link. Runs once
+   * per Checkout Session, whether the webhook or the client's return gets here first.
+   */
+  async recordProposalDeposit(paymentLinkId: string, payment: DepositPayment): Promise<Proposal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [proposal] = await tx
+        .select()
+        .from(proposals)
+        .where(eq(proposals.paymentLinkId, paymentLinkId))
+        .for("update");
+      if (!proposal || proposal.depositCheckoutSessionId === payment.checkoutSessionId) return proposal;
+
+      const { paidAmount, paymentStatus } = applyDepositPayment(proposal, payment.amountReceived);
+      const [updated] = await tx
+        .update(proposals)
+        .set({
+          paidAmount,
+          paymentStatus,
+          stripePaymentIntentId: payment.stripePaymentIntentId ?? proposal.stripePaymentIntentId,
+          depositCheckoutSessionId: payment.checkoutSessionId,
+          updatedAt: new Date(),
+        })
+        .where(eq(proposals.id, proposal.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  /** Proposals with a deposit link nothing has been recorded against yet, oldest first. */
+  async getProposalsAwaitingDeposit(updatedSince: Date, limit: number): Promise<Proposal[]> {
+    return await db
+      .select()
+      .from(proposals)
+      .where(and(
+        sql`${proposals.paymentLinkId} IS NOT NULL`,
+        isNull(proposals.depositCheckoutSessionId),
+        inArray(proposals.paymentStatus, ['none', 'pending']),
+        gte(proposals.updatedAt, updatedSince)
+      ))
+      .orderBy(proposals.id)
+      .limit(limit);
+  }
+
   // Company/Workspace operations
   async createCompany(company: InsertCompany): Promise<Company> {
-    const [newCompany] = await db
-      .insert(companies)
-      .values(company)
-      .returning();
+    return await db.transaction(async (tx) => {
+      const [newCompany] = await tx
+        .insert(companies)
+        .values(company)
+        .returning();
 
-    // Add owner as a member with 'owner' role
-    await db.insert(companyMembers).values({
-      companyId: newCompany.id,
-      userId: company.ownerId,
-      role: 'owner',
-    });
+      // Add owner as a member with 'owner' role
+      await tx.insert(companyMembers).values({
+        companyId: newCompany.id,
+        userId: company.ownerId,
+        role: 'owner',
+      });
 
-    return newCompany;
+      return newCompany;
+    });
   }
 
   async getCompany(id: number): Promise<Company | undefined> {
@@ -936,20 +1449,59 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(invites.createdAt));
   }
 
-  async acceptInvite(token: string): Promise<Invite | undefined> {
-    const invite = await this.getInviteByToken(token);
-    if (!invite || invite.acceptedAt || new Date() > invite.expiresAt) {
-      return undefined;
+  /**
+   * Use an invite and add the user to its team in one transaction. The company
+   * row is locked so concurrent acceptances take seats one at a time.
+   */
+  async acceptInvite(token: string, userId: string): Promise<AcceptInviteResult> {
+    try {
+      return await db.transaction(async (tx): Promise<AcceptInviteResult> => {
+        const [invite] = await tx
+          .select()
+          .from(invites)
+          .where(eq(invites.token, token))
+          .for("update");
+        if (!invite || !isInvitePending(invite)) return { status: "used" };
+
+        const [company] = await tx
+          .select()
+          .from(companies)
+          .where(eq(companies.id, invite.companyId))
+          .for("update");
+        if (!company) return { status: "used" };
+
+        const [existing] = await tx
+          .select({ id: companyMembers.id })
+          .from(companyMembers)
+          .where(eq(companyMembers.userId, userId));
+        if (existing) return { status: "already_member" };
+
+        // The invite held a seat while pending; members alone must still fit
+        const [{ memberCount }] = await tx
+          .select({ memberCount: count() })
+          .from(companyMembers)
+          .where(eq(companyMembers.companyId, company.id));
+        if (memberCount >= getSeatCapacity(company)) return { status: "no_seats" };
+
+        const [accepted] = await tx
+          .update(invites)
+          .set({ acceptedAt: new Date() })
+          .where(eq(invites.id, invite.id))
+          .returning();
+        const [member] = await tx
+          .insert(companyMembers)
+          .values({ companyId: company.id, userId, role: invite.role })
+          .returning();
+        return { status: "accepted", invite: accepted, member };
+      });
+    } catch (error: any) {
+      // Joined another team at the same moment (one team per user)
+      const cause = error?.cause ?? error;
+      if (cause?.code === '23505' && cause?.constraint === 'idx_company_members_user') {
+        return { status: "already_member" };
+      }
+      throw error;
     }
-
-    // Atomic update: only update if acceptedAt is still null
-    const [updatedInvite] = await db
-      .update(invites)
-      .set({ acceptedAt: new Date() })
-      .where(and(eq(invites.token, token), sql`${invites.acceptedAt} IS NULL`))
-      .returning();
-
-    return updatedInvite;
   }
 
   async deleteInvite(id: number, companyId: number): Promise<boolean> {
@@ -1379,6 +1931,7 @@ export class DatabaseStorage implements IStorage {
     jobSize?: number;
     jobNotes?: string | null;
     createIdempotencyKey?: string | null;
+    templateId?: number | null;
   }): Promise<typeof mobileJobs.$inferSelect> {
     if (job.createIdempotencyKey) {
       const existing = await this.getMobileJobByCreateIdempotencyKey(userId, job.createIdempotencyKey);
@@ -1397,6 +1950,7 @@ export class DatabaseStorage implements IStorage {
         jobTypeId: job.jobTypeId,
         jobTypeName: job.jobTypeName,
         jobSize: job.jobSize ?? 2,
+        templateId: job.templateId ?? null,
         jobNotes: job.jobNotes ?? null,
         status: "created",
       } as typeof mobileJobs.$inferInsert)
@@ -1427,6 +1981,8 @@ export class DatabaseStorage implements IStorage {
   async updateMobileJob(jobId: number, userId: string, updates: {
     clientName?: string;
     address?: string;
+    jobNotes?: string | null;
+    measurements?: unknown;
   }): Promise<typeof mobileJobs.$inferSelect | undefined> {
     const job = await this.getMobileJob(jobId, userId);
     if (!job) {
@@ -1440,6 +1996,12 @@ export class DatabaseStorage implements IStorage {
     if (updates.address !== undefined) {
       updateData.address = updates.address;
     }
+    if (updates.jobNotes !== undefined) {
+      updateData.jobNotes = updates.jobNotes;
+    }
+    if (updates.measurements !== undefined) {
+      updateData.measurements = updates.measurements;
+    }
 
     const [updated] = await db
       .update(mobileJobs)
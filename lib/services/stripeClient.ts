@@ -1,5 +1,22 @@
 import Stripe from 'stripe';
 
+/**
+ * Optional STRIPE_API_BASE_URL points the SDK at stripe-mock or a local fake
+ * (tests); unset, the SDK talks to api.stripe.com
+ */
+function getStripeConfig(): Stripe.StripeConfig | undefined {
+  const baseUrl = process.env.STRIPE_API_BASE_URL;
+  if (!baseUrl) return undefined;
+
+  const url = new URL(baseUrl);
+  const protocol = url.protocol === 'http:' ? 'http' : 'https';
+  return {
+    host: url.hostname,
+    port: url.port || (protocol === 'http' ? '80' : '443'),
+    protocol,
+  };
+}
+
 /**
  * Get Stripe client using environment variables
  * Works with both Vercel and local development
@@ -13,7 +30,7 @@ export function getStripeClient(): Stripe {
     );
   }
   
-  return new Stripe(secretKey);
+  return new Stripe(secretKey, getStripeConfig());
 }
 
 /**
@@ -57,7 +74,7 @@ export function getStripeSecretKey(): string {
  * Create a Stripe client with a custom secret key (for user's own Stripe account)
  */
 export function createStripeClientWithKey(secretKey: string): Stripe {
-  return new Stripe(secretKey);
+  return new Stripe(secretKey, getStripeConfig());
 }
 
 /**
@@ -237,11 +237,35 @@ export class StripeService {
     return result.rows[0] || null;
   }
 
-  async retrieveCheckoutSession(sessionId: string) {
-    const stripe = getUncachableStripeClient();
+  async retrieveCheckoutSession(sessionId: string, userStripeSecretKey?: string | null) {
+    const stripe = userStripeSecretKey
+      ? createStripeClientWithKey(userStripeSecretKey)
+      : getUncachableStripeClient();
     return await stripe.checkout.sessions.retrieve(sessionId);
   }
 
+  /**
+   * Checkout Sessions started from a Payment Link. Links on a contractor's own
+   * account never reach the platform webhook, so deposits are read back here.
+   */
+  async listPaymentLinkCheckoutSessions(paymentLinkId: string, userStripeSecretKey?: string | null) {
+    const stripe = userStripeSecretKey
+      ? createStripeClientWithKey(userStripeSecretKey)
+      : getUncachableStripeClient();
+    const sessions = await stripe.checkout.sessions.list({
+      payment_link: paymentLinkId,
+      status: 'complete',
+      limit: 10,
+    });
+    return sessions.data;
+  }
+
+  /**
+   * Deposit Payment Link for a proposal. Payment Links don't copy their
+   * metadata onto the PaymentIntent, so payments are matched to the proposal
+   * by the link id (checkout.session.completed, or listPaymentLinkCheckoutSessions
+   * when the client returns).
+   */
   async createPaymentLink(
     amountInCents: number,
     proposalId: number,
@@ -276,6 +300,10 @@ export class StripeService {
           url: successUrl,
         },
       },
+      // A deposit is paid once; the link stops accepting payments afterwards
+      restrictions: {
+        completed_sessions: { limit: 1 },
+      },
       metadata: {
         proposalId: proposalId.toString(),
         type: 'proposal_deposit',
@@ -285,8 +313,62 @@ export class StripeService {
     return paymentLink;
   }
 
-  async deactivatePaymentLink(paymentLinkId: string) {
-    const stripe = getUncachableStripeClient();
+  /**
+   * One-off Checkout Session for paying a proposal invoice. Metadata is set on
+   * the PaymentIntent so payment_intent.succeeded can reconcile the invoice;
+   * sessions on a contractor's account are read back by reconcileInvoicePayment.
+   */
+  async createInvoiceCheckoutSession(
+    params: {
+      invoiceId: number;
+      proposalId: number;
+      invoiceNumber: string;
+      amountInCents: number;
+      description: string;
+      customerEmail?: string | null;
+      successUrl: string;
+      cancelUrl: string;
+    },
+    userStripeSecretKey?: string | null
+  ) {
+    const stripe = userStripeSecretKey
+      ? createStripeClientWithKey(userStripeSecretKey)
+      : getUncachableStripeClient();
+
+    const metadata = {
+      invoiceId: params.invoiceId.toString(),
+      proposalId: params.proposalId.toString(),
+      type: 'invoice_payment',
+    };
+
+    return await stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+      customer_email: params.customerEmail || undefined,
+      line_items: [
+        {
+          price_data: {
+            currency: 'usd',
+            unit_amount: params.amountInCents,
+            product_data: {
+              name: `Invoice ${params.invoiceNumber}`,
+              description: params.description,
+            },
+          },
+          quantity: 1,
+        },
+      ],
+      payment_intent_data: { metadata },
+      metadata,
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+    });
+  }
+
+  async deactivatePaymentLink(paymentLinkId: string, userStripeSecretKey?: string | null) {
+    const stripe = userStripeSecretKey
+      ? createStripeClientWithKey(userStripeSecretKey)
+      : getUncachableStripeClient();
     return await stripe.paymentLinks.update(paymentLinkId, {
       active: false,
     });
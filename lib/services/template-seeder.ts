@@ -4,13 +4,13 @@
 
 import { db } from '@/lib/services/db';
 import { proposalTemplates, type TemplateJobOption } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
+import { getJobTypeIdVariants, requireCatalogJobType, resolveJobTypeId } from '@/lib/catalog';
 
 // Flag to track if seeding has been attempted this session
 let seedingAttempted = false;
 
-// Default templates for mobile job types
-const defaultTemplates: Record<string, {
+type DefaultTemplate = {
   tradeId: string;
   tradeName: string;
   jobTypeId: string;
@@ -23,13 +23,13 @@ const defaultTemplates: Record<string, {
   estimatedDaysHigh: number;
   warranty: string;
   exclusions: string[];
-}> = {
+};
+
+// Scope content for the default mobile templates, keyed by catalog job type ID.
+// IDs, names, prices and durations come from the trade catalog (lib/catalog).
+const defaultTemplateContent: Record<string, Pick<DefaultTemplate, 'baseScope' | 'options' | 'warranty' | 'exclusions'>> = {
   // Bathroom
   'bathroom-remodel': {
-    tradeId: 'bathroom',
-    tradeName: 'Bathroom',
-    jobTypeId: 'bathroom-remodel',
-    jobTypeName: 'Bathroom Remodel',
     baseScope: [
       'Complete assessment of existing bathroom layout and condition.',
       'Demolition of existing fixtures, flooring, and wall finishes as needed.',
@@ -42,18 +42,10 @@ const defaultTemplates: Record<string, {
       'Final cleanup and walkthrough with homeowner.',
     ],
     options: [],
-    basePriceLow: 12000,
-    basePriceHigh: 25000,
-    estimatedDaysLow: 7,
-    estimatedDaysHigh: 14,
     warranty: '1-year labor warranty on all workmanship.',
     exclusions: ['Structural modifications', 'Plumbing rerouting beyond fixture locations'],
   },
   'shower-replacement': {
-    tradeId: 'bathroom',
-    tradeName: 'Bathroom',
-    jobTypeId: 'shower-replacement',
-    jobTypeName: 'Shower Replacement',
     baseScope: [
       'Remove existing shower/tub surround.',
       'Inspect and repair any water damage.',
@@ -66,18 +58,10 @@ const defaultTemplates: Record<string, {
       'Final cleanup and debris removal.',
     ],
     options: [],
-    basePriceLow: 4500,
-    basePriceHigh: 9000,
-    estimatedDaysLow: 3,
-    estimatedDaysHigh: 5,
     warranty: '1-year labor warranty.',
     exclusions: ['Hidden water damage repair', 'Plumbing modifications'],
   },
   'tub-to-shower': {
-    tradeId: 'bathroom',
-    tradeName: 'Bathroom',
-    jobTypeId: 'tub-to-shower',
-    jobTypeName: 'Tub to Shower Conversion',
     baseScope: [
       'Demolish existing bathtub and surround.',
       'Dispose of all debris off-site.',
@@ -91,18 +75,10 @@ const defaultTemplates: Record<string, {
       'Caulk all corners with mildew-resistant silicone.',
     ],
     options: [],
-    basePriceLow: 8500,
-    basePriceHigh: 12000,
-    estimatedDaysLow: 5,
-    estimatedDaysHigh: 8,
     warranty: '1-year labor warranty on all workmanship.',
     exclusions: ['Hidden water damage', 'Electrical upgrades beyond existing', 'Drain relocation may be required'],
   },
   'shower-remodel': {
-    tradeId: 'bathroom',
-    tradeName: 'Bathroom',
-    jobTypeId: 'shower-remodel',
-    jobTypeName: 'Shower Remodel',
     baseScope: [
       'Demolish existing shower surround and materials.',
       'Dispose of all debris off-site.',
@@ -116,18 +92,10 @@ const defaultTemplates: Record<string, {
       'Caulk all corners with mildew-resistant silicone.',
     ],
     options: [],
-    basePriceLow: 6500,
-    basePriceHigh: 10000,
-    estimatedDaysLow: 4,
-    estimatedDaysHigh: 7,
     warranty: '1-year labor warranty on all workmanship.',
     exclusions: ['Hidden water damage', 'Drain relocation may be required', 'Glass lead time may extend schedule'],
   },
   'walk-in-tub': {
-    tradeId: 'bathroom',
-    tradeName: 'Bathroom',
-    jobTypeId: 'walk-in-tub',
-    jobTypeName: 'Walk-In Tub Installation',
     baseScope: [
       'Protect floors and adjacent areas.',
       'Remove existing bathtub and surround.',
@@ -144,20 +112,12 @@ const defaultTemplates: Record<string, {
       'Final cleanup and homeowner walkthrough.',
     ],
     options: [],
-    basePriceLow: 8000,
-    basePriceHigh: 15000,
-    estimatedDaysLow: 3,
-    estimatedDaysHigh: 5,
     warranty: '2-year labor warranty. Manufacturer warranty on tub components.',
     exclusions: ['Subfloor repair beyond minor repairs', 'Panel upgrades', 'Water heater replacement'],
   },
   
   // Kitchen
   'kitchen-remodel': {
-    tradeId: 'kitchen',
-    tradeName: 'Kitchen',
-    jobTypeId: 'kitchen-remodel',
-    jobTypeName: 'Kitchen Remodel',
     baseScope: [
       'Complete demolition of existing cabinets and countertops.',
       'Remove existing flooring and backsplash.',
@@ -172,18 +132,10 @@ const defaultTemplates: Record<string, {
       'Final cleanup and walkthrough.',
     ],
     options: [],
-    basePriceLow: 25000,
-    basePriceHigh: 55000,
-    estimatedDaysLow: 10,
-    estimatedDaysHigh: 21,
     warranty: '2-year labor warranty.',
     exclusions: ['Appliance costs', 'Structural modifications', 'Electrical panel upgrades'],
   },
-  'cabinet-refacing': {
-    tradeId: 'kitchen',
-    tradeName: 'Kitchen',
-    jobTypeId: 'cabinet-refacing',
-    jobTypeName: 'Cabinet Refacing',
+  'cabinet-reface': {
     baseScope: [
       'Remove all cabinet doors, drawer fronts, and hardware.',
       'Clean and prepare cabinet boxes.',
@@ -195,18 +147,10 @@ const defaultTemplates: Record<string, {
       'Final cleanup.',
     ],
     options: [],
-    basePriceLow: 8000,
-    basePriceHigh: 15000,
-    estimatedDaysLow: 3,
-    estimatedDaysHigh: 5,
     warranty: '5-year warranty on refacing materials.',
     exclusions: ['Cabinet box replacement', 'Layout changes'],
   },
-  'countertop-replacement': {
-    tradeId: 'kitchen',
-    tradeName: 'Kitchen',
-    jobTypeId: 'countertop-replacement',
-    jobTypeName: 'Countertop Replacement',
+  'countertop-replace': {
     baseScope: [
       'Disconnect and protect sink and cooktop.',
       'Remove existing countertops carefully.',
@@ -219,20 +163,12 @@ const defaultTemplates: Record<string, {
       'Final cleanup and inspection.',
     ],
     options: [],
-    basePriceLow: 3500,
-    basePriceHigh: 8000,
-    estimatedDaysLow: 1,
-    estimatedDaysHigh: 3,
     warranty: 'Manufacturer warranty on materials.',
     exclusions: ['Sink/faucet replacement', 'Backsplash work'],
   },
   
   // Exterior
   'roofing': {
-    tradeId: 'roofing',
-    tradeName: 'Roofing',
-    jobTypeId: 'roofing',
-    jobTypeName: 'Roof Replacement',
     baseScope: [
       'Set up safety equipment and protect landscaping.',
       'Remove existing roofing materials down to decking.',
@@ -247,18 +183,10 @@ const defaultTemplates: Record<string, {
       'Final inspection and walkthrough.',
     ],
     options: [],
-    basePriceLow: 8000,
-    basePriceHigh: 18000,
-    estimatedDaysLow: 2,
-    estimatedDaysHigh: 4,
     warranty: 'Manufacturer shingle warranty. 5-year workmanship warranty.',
     exclusions: ['Structural repairs', 'Chimney rebuilding', 'Skylight replacement'],
   },
   'siding': {
-    tradeId: 'siding',
-    tradeName: 'Siding',
-    jobTypeId: 'siding',
-    jobTypeName: 'Siding Installation',
     baseScope: [
       'Remove existing siding and dispose.',
       'Inspect and repair sheathing as needed.',
@@ -270,18 +198,10 @@ const defaultTemplates: Record<string, {
       'Clean up and final inspection.',
     ],
     options: [],
-    basePriceLow: 10000,
-    basePriceHigh: 25000,
-    estimatedDaysLow: 3,
-    estimatedDaysHigh: 7,
     warranty: 'Manufacturer warranty on materials. 2-year labor warranty.',
     exclusions: ['Structural repairs', 'Window replacement', 'Painting'],
   },
   'windows': {
-    tradeId: 'windows',
-    tradeName: 'Windows',
-    jobTypeId: 'windows',
-    jobTypeName: 'Window Replacement',
     baseScope: [
       'Remove existing windows carefully.',
       'Inspect and repair frame as needed.',
@@ -294,18 +214,10 @@ const defaultTemplates: Record<string, {
       'Test operation and verify locks.',
     ],
     options: [],
-    basePriceLow: 5000,
-    basePriceHigh: 15000,
-    estimatedDaysLow: 1,
-    estimatedDaysHigh: 3,
     warranty: 'Manufacturer warranty on windows. 1-year labor warranty.',
     exclusions: ['Structural modifications', 'Interior painting'],
   },
   'doors': {
-    tradeId: 'doors',
-    tradeName: 'Doors',
-    jobTypeId: 'doors',
-    jobTypeName: 'Door Installation',
     baseScope: [
       'Remove existing door and hardware.',
       'Inspect and repair frame as needed.',
@@ -319,20 +231,12 @@ const defaultTemplates: Record<string, {
       'Weatherstrip and threshold adjustment.',
     ],
     options: [],
-    basePriceLow: 800,
-    basePriceHigh: 3500,
-    estimatedDaysLow: 1,
-    estimatedDaysHigh: 1,
     warranty: '1-year labor warranty.',
     exclusions: ['Structural modifications', 'Painting'],
   },
   
   // Systems
   'hvac': {
-    tradeId: 'hvac',
-    tradeName: 'HVAC',
-    jobTypeId: 'hvac',
-    jobTypeName: 'HVAC Service & Repair',
     baseScope: [
       'Comprehensive system inspection.',
       'Check refrigerant levels and pressures.',
@@ -347,18 +251,10 @@ const defaultTemplates: Record<string, {
       'Provide maintenance recommendations.',
     ],
     options: [],
-    basePriceLow: 150,
-    basePriceHigh: 500,
-    estimatedDaysLow: 1,
-    estimatedDaysHigh: 1,
     warranty: '90-day warranty on repairs.',
     exclusions: ['Refrigerant recharge', 'Major component replacement'],
   },
   'plumbing': {
-    tradeId: 'plumbing',
-    tradeName: 'Plumbing',
-    jobTypeId: 'plumbing',
-    jobTypeName: 'Plumbing Service & Repair',
     baseScope: [
       'Diagnose plumbing issue.',
       'Shut off water supply as needed.',
@@ -370,18 +266,10 @@ const defaultTemplates: Record<string, {
       'Provide maintenance recommendations.',
     ],
     options: [],
-    basePriceLow: 150,
-    basePriceHigh: 650,
-    estimatedDaysLow: 1,
-    estimatedDaysHigh: 1,
     warranty: '1-year warranty on parts and labor.',
     exclusions: ['Major repiping', 'Sewer line replacement'],
   },
   'electrical': {
-    tradeId: 'electrical',
-    tradeName: 'Electrical',
-    jobTypeId: 'electrical',
-    jobTypeName: 'Electrical Service & Repair',
     baseScope: [
       'Diagnose electrical issue.',
       'Turn off power at breaker.',
@@ -393,20 +281,12 @@ const defaultTemplates: Record<string, {
       'Provide safety recommendations.',
     ],
     options: [],
-    basePriceLow: 150,
-    basePriceHigh: 500,
-    estimatedDaysLow: 1,
-    estimatedDaysHigh: 1,
     warranty: '1-year warranty on workmanship.',
     exclusions: ['Panel upgrades', 'Rewiring'],
   },
   
   // Other
   'flooring': {
-    tradeId: 'flooring',
-    tradeName: 'Flooring',
-    jobTypeId: 'flooring',
-    jobTypeName: 'Flooring Installation',
     baseScope: [
       'Remove existing flooring.',
       'Inspect and prepare subfloor.',
@@ -419,18 +299,10 @@ const defaultTemplates: Record<string, {
       'Move furniture back into place.',
     ],
     options: [],
-    basePriceLow: 3000,
-    basePriceHigh: 10000,
-    estimatedDaysLow: 2,
-    estimatedDaysHigh: 5,
     warranty: 'Manufacturer warranty on materials. 1-year labor warranty.',
     exclusions: ['Furniture moving (large items)', 'Subfloor replacement'],
   },
   'painting': {
-    tradeId: 'painting',
-    tradeName: 'Painting',
-    jobTypeId: 'painting',
-    jobTypeName: 'Interior/Exterior Painting',
     baseScope: [
       'Protect floors and furniture.',
       'Prepare surfaces (clean, sand, fill holes).',
@@ -443,18 +315,10 @@ const defaultTemplates: Record<string, {
       'Clean up work area.',
     ],
     options: [],
-    basePriceLow: 2000,
-    basePriceHigh: 8000,
-    estimatedDaysLow: 2,
-    estimatedDaysHigh: 5,
     warranty: '2-year warranty on workmanship.',
     exclusions: ['Lead paint abatement', 'Wallpaper removal', 'Extensive repairs'],
   },
   'demo': {
-    tradeId: 'general',
-    tradeName: 'General',
-    jobTypeId: 'demo',
-    jobTypeName: 'General Demo/Estimate',
     baseScope: [
       'Site visit and assessment.',
       'Document existing conditions with photos.',
@@ -466,20 +330,12 @@ const defaultTemplates: Record<string, {
       'Answer questions and provide recommendations.',
     ],
     options: [],
-    basePriceLow: 0,
-    basePriceHigh: 500,
-    estimatedDaysLow: 1,
-    estimatedDaysHigh: 1,
     warranty: 'N/A - Consultation/Estimate',
     exclusions: ['Actual work not included in estimate'],
   },
   
   // Exterior - Fence & Driveway
   'fence': {
-    tradeId: 'fence',
-    tradeName: 'Fence',
-    jobTypeId: 'fence',
-    jobTypeName: 'Fence Installation',
     baseScope: [
       'Survey property line and mark fence layout.',
       'Call 811 for utility locate before digging.',
@@ -491,18 +347,10 @@ const defaultTemplates: Record<string, {
       'Final cleanup and debris removal.',
     ],
     options: [],
-    basePriceLow: 3000,
-    basePriceHigh: 8000,
-    estimatedDaysLow: 2,
-    estimatedDaysHigh: 5,
     warranty: '1-year warranty on workmanship. Manufacturer warranty on materials.',
     exclusions: ['Permit fees', 'Survey if required', 'Tree/stump removal', 'Grading'],
   },
   'driveway': {
-    tradeId: 'driveway',
-    tradeName: 'Driveway',
-    jobTypeId: 'driveway',
-    jobTypeName: 'Driveway Installation',
     baseScope: [
       'Site assessment and measurement.',
       'Remove existing driveway material if applicable.',
@@ -514,21 +362,38 @@ const defaultTemplates: Record<string, {
       'Final cleanup and curing time guidance.',
     ],
     options: [],
-    basePriceLow: 4000,
-    basePriceHigh: 12000,
-    estimatedDaysLow: 2,
-    estimatedDaysHigh: 5,
     warranty: '1-year warranty on workmanship.',
     exclusions: ['Permit fees', 'Utility relocation', 'Extensive grading', 'Drainage systems'],
   },
 };
 
+// Default templates for mobile job types
+const defaultTemplates: Record<string, DefaultTemplate> = Object.fromEntries(
+  Object.entries(defaultTemplateContent).map(([jobTypeId, content]) => {
+    const { trade, jobType } = requireCatalogJobType(jobTypeId);
+    if (jobType.id !== jobTypeId || !jobType.mobile) {
+      throw new Error(`Default template ${jobTypeId} must use the ID of a mobile job type in the trade catalog`);
+    }
+    return [jobTypeId, {
+      tradeId: trade.id,
+      tradeName: trade.shortName ?? trade.name,
+      jobTypeId,
+      jobTypeName: jobType.name,
+      ...content,
+      basePriceLow: jobType.price.low,
+      basePriceHigh: jobType.price.high,
+      estimatedDaysLow: jobType.days.low,
+      estimatedDaysHigh: jobType.days.high,
+    }];
+  })
+);
+
 /**
- * Get the default template data for a given job type ID.
+ * Get the default template data for a given job type ID or catalog alias.
  * Returns null if no default template exists for the job type.
  */
 export function getDefaultTemplateForJobType(jobTypeId: string): typeof defaultTemplates[string] | null {
-  return defaultTemplates[jobTypeId] || null;
+  return defaultTemplates[resolveJobTypeId(jobTypeId) ?? jobTypeId] || null;
 }
 
 /**
@@ -543,7 +408,14 @@ export const ACTIVE_JOB_TYPE_IDS = Object.keys(defaultTemplates) as readonly str
  * Use this to guard against invalid persisted or URL-provided job types.
  */
 export function isValidJobTypeId(jobTypeId: string): boolean {
-  return jobTypeId in defaultTemplates;
+  return getDefaultTemplateForJobType(jobTypeId) !== null;
+}
+
+/**
+ * Get all default templates, in catalog content order
+ */
+export function getDefaultTemplates(): DefaultTemplate[] {
+  return Object.values(defaultTemplates);
 }
 
 /**
@@ -569,11 +441,11 @@ export async function ensureActiveTemplates(): Promise<{ inserted: number; updat
 
   try {
     for (const [jobTypeId, template] of Object.entries(defaultTemplates)) {
-      // Check if template already exists
+      // Check if template already exists, including rows stored under a retired ID
       const [existing] = await db
         .select()
         .from(proposalTemplates)
-        .where(eq(proposalTemplates.jobTypeId, jobTypeId))
+        .where(inArray(proposalTemplates.jobTypeId, getJobTypeIdVariants(jobTypeId)))
         .limit(1);
 
       if (existing) {
@@ -0,0 +1,239 @@
+/**
+ * Signing Certificates Unit Tests
+ *
+ * Tests for certificate fingerprints, consistency checks, signer metadata
+ * helpers, the certificate page appended to the proposal PDF and the photo
+ * loading used by the render that gets signed.
+ * Run with: npx tsx lib/signing-certificates/certificate.test.ts
+ */
+
+import type { ProposalPhotoRecord, SigningCertificate } from '@shared/schema';
+import { buildProposalPdf } from '../services/proposalPdf';
+import { loadProposalPdfPhotos, PdfPhotoLoadError } from '../services/proposalPdfPhotos';
+import {
+  buildSigningCertificate,
+  getSignerIp,
+  hashTermsShown,
+  isSha256Hex,
+  maskEmail,
+  maskIpAddress,
+  sha256Hex,
+  verifySigningCertificate,
+  type SigningCertificateInput,
+} from './certificate';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+// ============ TEST DATA ============
+
+const CERTIFICATE_ID = '3f8a2c4e-1b7d-4e9a-8c2f-5d6e7f8a9b0c';
+const DOCUMENT_SHA256 = 'ab'.repeat(32);
+
+const input: SigningCertificateInput = {
+  proposalId: 42,
+  role: 'client',
+  signerName: 'Jordan Lee',
+  signerEmail: 'jordan@example.com',
+  signedAt: new Date('2026-05-04T15:30:00Z'),
+  ipAddress: '203.0.113.27',
+  userAgent: 'Mozilla/5.0 (iPhone)',
+  consentText: 'I agree to sign this proposal electronically.',
+  language: 'en',
+  documentSha256: DOCUMENT_SHA256.toUpperCase(),
+  signature: 'data:image/png;base64,iVBORw0KGgo=',
+  termsVersion: '2026.10',
+  termsState: 'CA',
+  termsShown: [{ id: 'ca-payment', title: 'Payment Terms', body: 'Down payment may not exceed $1,000.' }],
+};
+
+// Shape of the row as read back from the database
+function storedRow(overrides: Partial<SigningCertificate> = {}): SigningCertificate {
+  return {
+    id: 1,
+    createdAt: new Date('2026-05-04T15:30:01Z'),
+    ...buildSigningCertificate(input, CERTIFICATE_ID),
+    ...overrides,
+  } as SigningCertificate;
+}
+
+const proposal = {
+  id: 42,
+  clientName: 'Jordan Lee',
+  address: '12 Vine St, Sacramento CA 95814',
+  jobTypeName: 'Kitchen Remodel',
+  scope: ['Replace cabinets', 'Install quartz countertops'],
+  priceLow: 30000,
+  priceHigh: 36000,
+  status: 'accepted',
+  createdAt: new Date('2026-05-01T00:00:00Z'),
+};
+
+// ============ TESTS ============
+
+function testBuildSigningCertificate() {
+  console.log('\n--- buildSigningCertificate ---');
+  const certificate = buildSigningCertificate(input, CERTIFICATE_ID);
+  assertEqual(certificate.certificateId, CERTIFICATE_ID, 'uses the given certificate ID');
+  assertEqual(certificate.documentSha256, DOCUMENT_SHA256, 'stores the document hash in lowercase');
+  assertEqual(certificate.signatureSha256, sha256Hex(input.signature), 'stores the signature image hash');
+  assert(!('signature' in certificate), 'does not store the signature image itself');
+  assertEqual(certificate.termsSha256, hashTermsShown(input.termsShown), 'hashes the terms shown');
+  assert(isSha256Hex(certificate.certificateSha256), 'computes a certificate hash');
+  assertEqual(
+    buildSigningCertificate(input, CERTIFICATE_ID).certificateSha256,
+    certificate.certificateSha256,
+    'the same signature always produces the same certificate hash'
+  );
+  assert(buildSigningCertificate(input).certificateId !== CERTIFICATE_ID, 'generates a certificate ID when none is given');
+}
+
+function testVerifySigningCertificate() {
+  console.log('\n--- verifySigningCertificate ---');
+  assertEqual(
+    verifySigningCertificate(storedRow()),
+    { certificateIntact: true, termsIntact: true, documentMatches: null, valid: true },
+    'an untouched certificate verifies'
+  );
+  assert(
+    verifySigningCertificate(storedRow({ signedAt: '2026-05-04T15:30:00.000Z' as unknown as Date })).certificateIntact,
+    'timestamps read back as strings still verify'
+  );
+  assertEqual(verifySigningCertificate(storedRow(), ` ${DOCUMENT_SHA256.toUpperCase()} `).documentMatches, true, 'matches the signed document hash');
+
+  const otherDocument = verifySigningCertificate(storedRow(), 'cd'.repeat(32));
+  assertEqual(otherDocument.documentMatches, false, 'detects a different document');
+  assertEqual(otherDocument.valid, false, 'a different document is not valid');
+
+  const renamed = verifySigningCertificate(storedRow({ signerName: 'Someone Else' }));
+  assertEqual(renamed.certificateIntact, false, 'detects an edited signer');
+  assertEqual(renamed.valid, false, 'an edited certificate is not valid');
+  assertEqual(
+    verifySigningCertificate(storedRow({ ipAddress: '198.51.100.1' })).certificateIntact,
+    false,
+    'detects an edited IP address'
+  );
+
+  const editedTerms = verifySigningCertificate(storedRow({
+    termsShown: [{ id: 'ca-payment', title: 'Payment Terms', body: 'No down payment required.' }],
+  }));
+  assertEqual(editedTerms.termsIntact, false, 'detects edited terms');
+  assertEqual(editedTerms.valid, false, 'edited terms are not valid');
+}
+
+function testSignerMetadata() {
+  console.log('\n--- signer metadata ---');
+  assertEqual(
+    getSignerIp(new Headers({ 'x-forwarded-for': '203.0.113.27, 10.0.0.1', 'x-real-ip': '10.0.0.2' })),
+    '203.0.113.27',
+    'uses the first forwarded hop'
+  );
+  assertEqual(getSignerIp(new Headers({ 'x-real-ip': ' 10.0.0.2 ' })), '10.0.0.2', 'falls back to x-real-ip');
+  assertEqual(getSignerIp(new Headers()), null, 'returns null without proxy headers');
+
+  assertEqual(maskIpAddress('203.0.113.27'), '203.0.113.x', 'masks the host octet of IPv4 addresses');
+  assertEqual(maskIpAddress('2001:db8:85a3:8d3:1319:8a2e:370:7348'), '2001:db8:85a3::', 'keeps the IPv6 prefix only');
+  assertEqual(maskIpAddress(null), null, 'missing IPs stay missing');
+  assertEqual(maskEmail('jordan@example.com'), 'j***@example.com', 'masks the local part of emails');
+  assertEqual(maskEmail('not-an-email'), null, 'hides values that are not emails');
+
+  assert(isSha256Hex('AB'.repeat(32)), 'accepts uppercase hex digests');
+  assert(!isSha256Hex('ab'.repeat(31)), 'rejects short digests');
+}
+
+function testPdfCertificatePage() {
+  console.log('\n--- buildProposalPdf certificate page ---');
+  const unsigned = buildProposalPdf({ proposal, companyInfo: null });
+  const certificate = storedRow();
+  const signed = buildProposalPdf({
+    proposal,
+    companyInfo: null,
+    signingCertificates: [{ ...certificate, verifyUrl: `https://example.com/api/public/signing-certificates/${CERTIFICATE_ID}` }],
+  });
+  const text = Buffer.from(signed.pdfBytes).toString('latin1');
+  const pageCount = (bytes: ArrayBuffer) => Buffer.from(bytes).toString('latin1').match(/\/Type \/Page\b/g)?.length ?? 0;
+
+  assertEqual(pageCount(signed.pdfBytes), pageCount(unsigned.pdfBytes) + 1, 'appends one certificate page');
+  assert(text.includes('SIGNING CERTIFICATE'), 'titles the certificate page');
+  assert(text.includes(CERTIFICATE_ID), 'prints the certificate ID');
+  assert(text.includes(DOCUMENT_SHA256), 'prints the signed document hash');
+  assert(text.includes(certificate.certificateSha256), 'prints the certificate hash');
+  assert(text.includes('203.0.113.27'), 'prints the signer IP address');
+  assert(text.includes('/api/public/signing-certificates/'), 'prints the verification link');
+  assertEqual(
+    buildProposalPdf({ proposal, companyInfo: null, signingCertificates: [certificate] }).sha256,
+    buildProposalPdf({ proposal, companyInfo: null, signingCertificates: [certificate] }).sha256,
+    'the certificate page renders identical bytes every time'
+  );
+}
+
+async function testSigningPhotos() {
+  console.log('\n--- loadProposalPdfPhotos ---');
+  const missing = { id: 7, publicUrl: '/uploads/missing-photo.jpg', mediumUrl: null } as unknown as ProposalPhotoRecord;
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    assertEqual(await loadProposalPdfPhotos([missing]), [], 'leaves out a photo that cannot be read');
+  } finally {
+    console.error = originalError;
+  }
+  const strict = await loadProposalPdfPhotos([missing], { requireAll: true }).then(
+    () => null,
+    (error: Error) => error
+  );
+  assert(strict instanceof PdfPhotoLoadError, 'fails the render used for signing instead');
+  assertEqual(strict instanceof PdfPhotoLoadError ? [strict.photoId, strict.photoLabel] : null, [7, 'Photo #7'], 'names the photo that failed');
+}
+
+// ============ RUN ALL TESTS ============
+
+async function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Signing Certificates Unit Tests');
+  console.log('='.repeat(50));
+
+  testBuildSigningCertificate();
+  testVerifySigningCertificate();
+  testSignerMetadata();
+  testPdfCertificatePage();
+  await testSigningPhotos();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
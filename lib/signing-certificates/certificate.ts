@@ -0,0 +1,160 @@
+/**
+ * Signing Certificates
+ *
+ * Audit record captured each time a proposal is signed: who signed, when,
+ * from which IP and user agent, the consent they agreed to, the terms they
+ * were shown, and SHA-256 fingerprints of the document and signature image.
+ * A hash over all of it catches a stored record that was changed without
+ * recomputing it. The hash is not keyed, so it is a consistency check, not
+ * proof against someone who can write to the database.
+ *
+ * Server-side only - uses node:crypto. No database access.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import type { InsertSigningCertificate, SignedTermsClause, SigningCertificate, SigningRole } from "@shared/schema";
+
+export interface SigningCertificateInput {
+  proposalId: number;
+  role: SigningRole;
+  signerName: string;
+  signerEmail?: string | null;
+  signerUserId?: string | null;
+  signedAt: Date;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  consentText: string;
+  language: string;
+  // SHA-256 of the proposal PDF the signer was shown (buildProposalPdf)
+  documentSha256: string;
+  // Signature image data URL; only its hash is kept on the certificate
+  signature: string;
+  termsVersion?: string | null;
+  termsState?: string | null;
+  termsShown: SignedTermsClause[];
+}
+
+// What a signing route supplies; the proposal, time and signature image come
+// from the signature being saved alongside it
+export type SignatureCertificateInput = Omit<SigningCertificateInput, "proposalId" | "signedAt" | "signature">;
+
+// Everything on the stored row that certificateSha256 covers
+type CertifiedFields = Omit<SigningCertificate, "id" | "certificateSha256" | "createdAt">;
+
+export interface SigningCertificateVerification {
+  // Stored fields still hash to certificateSha256
+  certificateIntact: boolean;
+  // Stored terms still hash to termsSha256
+  termsIntact: boolean;
+  // Whether a supplied document hash matches the one signed; null when none was supplied
+  documentMatches: boolean | null;
+  valid: boolean;
+}
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+export function sha256Hex(value: string): string {
+  return createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+export function isSha256Hex(value: string): boolean {
+  return SHA256_HEX.test(value.trim().toLowerCase());
+}
+
+export function hashTermsShown(terms: SignedTermsClause[]): string {
+  return sha256Hex(JSON.stringify(terms.map((clause) => [clause.id, clause.title, clause.body])));
+}
+
+// Fixed field order so the hash doesn't depend on how the row was read back
+export function computeCertificateSha256(fields: CertifiedFields): string {
+  return sha256Hex(
+    JSON.stringify([
+      fields.certificateId,
+      fields.proposalId,
+      fields.role,
+      fields.signerName,
+      fields.signerEmail ?? null,
+      fields.signerUserId ?? null,
+      new Date(fields.signedAt).toISOString(),
+      fields.ipAddress ?? null,
+      fields.userAgent ?? null,
+      fields.consentText,
+      fields.language,
+      fields.documentSha256,
+      fields.signatureSha256,
+      fields.termsVersion ?? null,
+      fields.termsState ?? null,
+      fields.termsSha256,
+    ])
+  );
+}
+
+/** Row to insert for a signature, with its fingerprints computed. */
+export function buildSigningCertificate(
+  input: SigningCertificateInput,
+  certificateId: string = randomUUID()
+): InsertSigningCertificate & CertifiedFields & { certificateSha256: string } {
+  const fields: CertifiedFields = {
+    certificateId,
+    proposalId: input.proposalId,
+    role: input.role,
+    signerName: input.signerName,
+    signerEmail: input.signerEmail ?? null,
+    signerUserId: input.signerUserId ?? null,
+    signedAt: input.signedAt,
+    ipAddress: input.ipAddress ?? null,
+    userAgent: input.userAgent ?? null,
+    consentText: input.consentText,
+    language: input.language,
+    documentSha256: input.documentSha256.toLowerCase(),
+    signatureSha256: sha256Hex(input.signature),
+    termsVersion: input.termsVersion ?? null,
+    termsState: input.termsState ?? null,
+    termsShown: input.termsShown,
+    termsSha256: hashTermsShown(input.termsShown),
+  };
+  return { ...fields, certificateSha256: computeCertificateSha256(fields) };
+}
+
+export function verifySigningCertificate(
+  certificate: SigningCertificate,
+  documentSha256?: string | null
+): SigningCertificateVerification {
+  const certificateIntact = computeCertificateSha256(certificate) === certificate.certificateSha256;
+  const termsIntact = hashTermsShown(certificate.termsShown) === certificate.termsSha256;
+  const documentMatches = documentSha256
+    ? documentSha256.trim().toLowerCase() === certificate.documentSha256
+    : null;
+
+  return {
+    certificateIntact,
+    termsIntact,
+    documentMatches,
+    valid: certificateIntact && termsIntact && documentMatches !== false,
+  };
+}
+
+/** Client IP as reported by the proxy (first x-forwarded-for hop), else x-real-ip. */
+export function getSignerIp(headers: Headers): string | null {
+  const forwarded = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  const ip = forwarded || headers.get("x-real-ip")?.trim();
+  return ip ? ip.slice(0, 64) : null;
+}
+
+/** IP with the host part hidden, for public verification responses. */
+export function maskIpAddress(ip: string | null): string | null {
+  if (!ip) return null;
+  if (ip.includes(":")) {
+    return `${ip.split(":").slice(0, 3).join(":")}::`;
+  }
+  const octets = ip.split(".");
+  return octets.length === 4 ? `${octets.slice(0, 3).join(".")}.x` : null;
+}
+
+/** Email with most of the local part hidden, e.g. "j***@example.com". */
+export function maskEmail(email: string | null): string | null {
+  if (!email) return null;
+  const [local, domain] = email.split("@");
+  if (!domain) return null;
+  return `${local.slice(0, 1)}***@${domain}`;
+}
@@ -0,0 +1,11 @@
+/**
+ * Signing Certificates Module
+ *
+ * Server-side only module for the signature audit trail on proposals.
+ */
+
+export * from './certificate';
+export {
+  listSigningCertificatesByProposal,
+  getSigningCertificate,
+} from './storage';
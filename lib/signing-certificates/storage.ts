@@ -0,0 +1,28 @@
+/**
+ * Signing Certificate Storage Service
+ *
+ * Database operations for proposal signing certificates. Certificates are
+ * written once, in the same transaction as the signature they record
+ * (storage.acceptProposal / countersignProposal), and never updated.
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "@/lib/services/db";
+import { signingCertificates, type SigningCertificate } from "@shared/schema";
+import { asc, eq } from "drizzle-orm";
+
+export async function listSigningCertificatesByProposal(proposalId: number): Promise<SigningCertificate[]> {
+  return await db
+    .select()
+    .from(signingCertificates)
+    .where(eq(signingCertificates.proposalId, proposalId))
+    .orderBy(asc(signingCertificates.signedAt), asc(signingCertificates.id));
+}
+
+export async function getSigningCertificate(certificateId: string): Promise<SigningCertificate | undefined> {
+  const [certificate] = await db
+    .select()
+    .from(signingCertificates)
+    .where(eq(signingCertificates.certificateId, certificateId));
+  return certificate;
+}
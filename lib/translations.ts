@@ -52,15 +52,20 @@ export const translations = {
       selectTrade: "Select Trade",
       jobType: "Job Type",
       selectJobType: "Select Job Type",
+      manageTemplates: "Edit or create your own templates",
       clientName: "Client Name",
       clientNamePlaceholder: "e.g. John Smith",
       jobAddress: "Job Address",
       jobAddressPlaceholder: "e.g. 123 Maple Ave",
+      clientLanguage: "Proposal Language",
+      clientLanguageHint: "The PDF, proposal link and client emails use this language.",
       jobSize: "Job Size/Complexity",
       small: "Small",
       medium: "Medium",
       large: "Large",
       jobOptions: "Job Options",
+      usuallyChoose: "Because you usually choose {option}",
+      usuallyChosenNearby: "Most contractors nearby choose {option}",
       generateProposal: "Generate Proposal",
       generating: "Generating...",
       livePreview: "Live Preview",
@@ -897,15 +902,20 @@ export const translations = {
       selectTrade: "Seleccionar Oficio",
       jobType: "Tipo de Trabajo",
       selectJobType: "Seleccionar Tipo de Trabajo",
+      manageTemplates: "Editar o crear sus propias plantillas",
       clientName: "Nombre del Cliente",
       clientNamePlaceholder: "ej. Juan García",
       jobAddress: "Dirección del Trabajo",
       jobAddressPlaceholder: "ej. Calle Principal 123",
+      clientLanguage: "Idioma de la Propuesta",
+      clientLanguageHint: "El PDF, el enlace de la propuesta y los correos al cliente usan este idioma.",
       jobSize: "Tamaño/Complejidad del Trabajo",
       small: "Pequeño",
       medium: "Mediano",
       large: "Grande",
       jobOptions: "Opciones del Trabajo",
+      usuallyChoose: "Porque normalmente eliges {option}",
+      usuallyChosenNearby: "La mayoría de contratistas cercanos eligen {option}",
       generateProposal: "Generar Propuesta",
       generating: "Generando...",
       livePreview: "Vista Previa en Vivo",
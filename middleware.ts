@@ -10,6 +10,7 @@ const isProtectedRoute = createRouteMatcher([
   '/search-console(.*)',
   '/api/proposals(.*)',
   '/api/profile(.*)',
+  '/api/company(.*)',
   '/api/stripe/checkout(.*)',
   '/api/stripe/portal(.*)',
   '/app(.*)',
@@ -0,0 +1,61 @@
+/**
+ * Encrypt per-user secrets at rest, or re-wrap them after a KEK rotation.
+ *
+ * Plaintext values (written before the vault existed) are encrypted, and
+ * values under a retired KEK (listed in SECRETS_KEK_PREVIOUS) are moved onto
+ * SECRETS_KEK. Each changed row gets a SECRET_ROTATED audit entry. Safe to
+ * re-run; rows already on the current KEK are skipped.
+ *
+ * Usage: npx tsx scripts/encrypt-user-secrets.ts [--dry-run]
+ */
+
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import { isNotNull, or } from "drizzle-orm";
+import { users } from "../shared/schema";
+import { db } from "../lib/services/db";
+import { USER_SECRETS, loadKeyring, needsReencryption, reencryptUserSecret, type UserSecretName } from "../lib/secrets";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const keyring = loadKeyring();
+  const names = Object.keys(USER_SECRETS) as UserSecretName[];
+
+  const rows = await db
+    .select()
+    .from(users)
+    .where(or(...names.map((name) => isNotNull(users[USER_SECRETS[name].column]))));
+
+  console.log(`Checking ${rows.length} users with secrets (current KEK: ${keyring.currentKeyId})`);
+
+  let updated = 0;
+  let failed = 0;
+  for (const user of rows) {
+    for (const name of names) {
+      const stored = user[USER_SECRETS[name].column];
+      if (!stored || !needsReencryption(stored, keyring)) continue;
+
+      if (dryRun) {
+        console.log(`  would re-encrypt ${name} for user ${user.id}`);
+        updated++;
+        continue;
+      }
+
+      try {
+        if (await reencryptUserSecret(user, name, keyring)) updated++;
+      } catch (error) {
+        failed++;
+        console.error(`  failed ${name} for user ${user.id}:`, (error as Error).message);
+      }
+    }
+  }
+
+  console.log(`${dryRun ? "Dry run - " : ""}${updated} secrets re-encrypted, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+/**
+ * Import regional cost index rows from a CSV into the bundled dataset.
+ *
+ * Rows are merged on top of lib/cost-index/data/us-cost-index.json (rows win),
+ * validated, and written back. See parseCostIndexCsv for the column layout.
+ *
+ * Usage: npx tsx scripts/import-cost-index.ts <rows.csv> --version 2026.11 [--dry-run]
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import {
+  getDefaultCostIndexDataset,
+  mergeCostIndexRows,
+  parseCostIndexCsv,
+  serializeCostIndexDataset,
+} from "../lib/cost-index/dataset";
+
+const DATASET_PATH = path.join(__dirname, "..", "lib", "cost-index", "data", "us-cost-index.json");
+
+function main() {
+  const args = process.argv.slice(2);
+  const csvPath = args.find((arg) => !arg.startsWith("--"));
+  const versionIdx = args.indexOf("--version");
+  const version = versionIdx >= 0 ? args[versionIdx + 1] : undefined;
+  const dryRun = args.includes("--dry-run");
+
+  if (!csvPath || !version) {
+    console.error("Usage: npx tsx scripts/import-cost-index.ts <rows.csv> --version <version> [--dry-run]");
+    process.exit(1);
+  }
+
+  const rows = parseCostIndexCsv(readFileSync(csvPath, "utf8"));
+  const base = getDefaultCostIndexDataset();
+  const merged = mergeCostIndexRows(base, rows, version);
+
+  const counts = (d: typeof base) =>
+    `${Object.keys(d.states).length} states, ${Object.keys(d.counties).length} counties, ` +
+    `${Object.keys(d.zip3).length} ZIP3s, ${Object.keys(d.zips).length} ZIPs`;
+  console.log(`Imported ${rows.length} rows`);
+  console.log(`  before (${base.version}): ${counts(base)}`);
+  console.log(`  after  (${merged.version}): ${counts(merged)}`);
+
+  if (dryRun) {
+    console.log("Dry run - dataset not written");
+    return;
+  }
+
+  writeFileSync(DATASET_PATH, serializeCostIndexDataset(merged));
+  console.log(`Wrote ${DATASET_PATH}`);
+}
+
+main();
@@ -0,0 +1,59 @@
+/**
+ * Standalone background job worker.
+ *
+ * Polls the job queue (drafts, photo vision, similar-job embeddings) and fires
+ * cron schedules until stopped. SIGINT/SIGTERM stop claiming new jobs and exit
+ * once the jobs in flight finish. Any number of workers can run side by side.
+ *
+ * Usage: npx tsx scripts/run-job-worker.ts [--concurrency=2] [--once]
+ *   --once  run every due job, then exit (handy for debugging)
+ */
+
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import { createWorkerId, runDueJobs, runWorker } from "../lib/jobs/runner";
+
+const USAGE = "Usage: npx tsx scripts/run-job-worker.ts [--concurrency=2] [--once]";
+
+function getArg(name: string): string | undefined {
+  return process.argv.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+}
+
+function parseConcurrency(value: string): number {
+  const concurrency = Number(value);
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(concurrency) || concurrency < 1) {
+    console.error(`Invalid concurrency "${value}": expected a positive whole number.\n${USAGE}`);
+    process.exit(1);
+  }
+  return concurrency;
+}
+
+async function main() {
+  const workerId = createWorkerId("worker");
+  const concurrency = parseConcurrency(getArg("concurrency") ?? process.env.JOB_WORKER_CONCURRENCY ?? "2");
+
+  if (process.argv.includes("--once")) {
+    const result = await runDueJobs({ workerId, maxJobs: Number.MAX_SAFE_INTEGER });
+    console.log("Ran due jobs:", result);
+    process.exit(0);
+  }
+
+  const controller = new AbortController();
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => {
+      console.log(`${signal} received - finishing jobs in flight`);
+      controller.abort();
+    });
+  }
+
+  console.log(`Job worker ${workerId} started (concurrency ${concurrency})`);
+  await runWorker({ workerId, concurrency, pollIntervalMs: 1000, signal: controller.signal });
+  console.log(`Job worker ${workerId} stopped`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
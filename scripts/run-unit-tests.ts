@@ -3,9 +3,37 @@ import { spawnSync } from "node:child_process";
 const testFiles = [
   "lib/window-spec.test.ts",
   "lib/draft-persistence.test.ts",
+  "lib/proposal-revisions.test.ts",
+  "lib/proposal-deposits.test.ts",
+  "lib/company-workspace.test.ts",
+  "lib/crew-analytics/rollup.test.ts",
+  "lib/jobs/schedule.test.ts",
+  "lib/cost-breakdown.test.ts",
+  "lib/invoices/schedule.test.ts",
+  "lib/change-orders/contract.test.ts",
+  "lib/follow-ups/sequence.test.ts",
+  "lib/cost-index/lookup.test.ts",
+  "lib/catalog/catalog.test.ts",
+  "lib/pdf-theme/theme.test.ts",
+  "lib/contract-terms/terms.test.ts",
+  "lib/signing-certificates/certificate.test.ts",
+  "lib/client-locale/client-locale.test.ts",
+  "lib/custom-templates.test.ts",
+  "lib/mobile-outbox.test.ts",
+  "lib/roofing-takeoff/takeoff.test.ts",
+  "lib/secrets/vault.test.ts",
   "lib/services/addressParsing.test.ts",
+  "lib/services/paymentReconciliation.db.test.ts",
   "lib/trades/tradeDefinitions.test.ts",
+  "src/lib/learning/adaptive-learning.test.ts",
+  "src/lib/learning/aggregation.test.ts",
+  "src/lib/learning/option-learning.test.ts",
+  "src/lib/learning/aggregation-pipeline.db.test.ts",
+  "src/lib/mobile/draft/input.test.ts",
+  "src/lib/mobile/measurements/session.test.ts",
   "src/lib/mobile/remedy/heuristics.test.ts",
+  "src/lib/mobile/vision/providers.test.ts",
+  "src/lib/similar-jobs/prior.test.ts",
 ] as const;
 
 function runOne(file: string) {
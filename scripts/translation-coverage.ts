@@ -0,0 +1,63 @@
+/**
+ * Report catalog strings that have no translation for a client language.
+ *
+ * Lists every untranslated scope, option and exclusion string per job type,
+ * then a total. Exits non-zero when anything is missing so it can run in CI.
+ *
+ * Usage: npx tsx scripts/translation-coverage.ts [language] [--trade <tradeId>]
+ */
+
+import { CLIENT_LOCALES, getClientLocale, isClientLanguage } from "../lib/client-locale/locales";
+import { getTranslationCoverage } from "../lib/client-locale/coverage";
+import { templates } from "../lib/proposal-data";
+
+function main() {
+  const args = process.argv.slice(2);
+  const tradeIdx = args.indexOf("--trade");
+  const tradeId = tradeIdx >= 0 ? args[tradeIdx + 1] : undefined;
+  const languages = args.filter((arg, i) => !arg.startsWith("--") && (tradeIdx < 0 || i !== tradeIdx + 1));
+  const targets = languages.length > 0
+    ? languages
+    : Object.keys(CLIENT_LOCALES).filter((id) => id !== "en");
+
+  for (const language of targets) {
+    if (!isClientLanguage(language)) {
+      console.error(`Unknown client language "${language}". Known: ${Object.keys(CLIENT_LOCALES).join(", ")}`);
+      process.exit(1);
+    }
+  }
+
+  const trades = tradeId ? templates.filter((t) => t.id === tradeId) : templates;
+  if (trades.length === 0) {
+    console.error(`Unknown trade "${tradeId}"`);
+    process.exit(1);
+  }
+
+  let totalMissing = 0;
+  for (const language of targets) {
+    const coverage = getTranslationCoverage(language, trades);
+    const strings = coverage.reduce((sum, c) => sum + c.total, 0);
+    const translated = coverage.reduce((sum, c) => sum + c.translated, 0);
+
+    console.log(`\n${getClientLocale(language).nativeName} (${language})`);
+    for (const jobType of coverage) {
+      if (jobType.missing.length === 0) continue;
+      console.log(`\n  ${jobType.tradeId}/${jobType.jobTypeId} - ${jobType.jobTypeName}: ${jobType.missing.length} untranslated`);
+      for (const pair of jobType.missing) {
+        console.log(`    ${pair.field}: ${pair.source}`);
+      }
+    }
+
+    const missing = strings - translated;
+    totalMissing += missing;
+    const untranslatedJobTypes = coverage.filter((c) => c.missing.length > 0).length;
+    console.log(
+      `\n  ${translated}/${strings} strings translated across ${coverage.length} job types` +
+        (missing > 0 ? ` (${untranslatedJobTypes} job types incomplete)` : "")
+    );
+  }
+
+  if (totalMissing > 0) process.exit(1);
+}
+
+main();
@@ -8,6 +8,8 @@ import {
   text,
   integer,
   boolean,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
@@ -26,6 +28,109 @@ export const sessions = pgTable(
   }),
 );
 
+// Proposal follow-up reminders: what condition fires a nudge and after how many days
+export const followUpTriggers = ['unviewed', 'viewed_not_accepted', 'before_expiry'] as const;
+export type FollowUpTrigger = typeof followUpTriggers[number];
+
+// One step of a follow-up sequence. For unviewed/viewed_not_accepted, `days` counts from
+// when the proposal was sent; for before_expiry it counts back from validUntil.
+export interface FollowUpStep {
+  id: string;
+  trigger: FollowUpTrigger;
+  days: number;
+  enabled?: boolean;
+}
+
+// Per-user roofing takeoff waste percentages; unset fields use the defaults in lib/roofing-takeoff
+export interface RoofingWasteConfig {
+  // Shingle waste by roof complexity (simple gable, moderate, cut-up hip/valley roofs)
+  shingleSimple?: number;
+  shingleModerate?: number;
+  shingleComplex?: number;
+  // Added to shingle waste on steep (8/12-9/12) and very steep (10/12 and up) areas
+  steepPitch?: number;
+  verySteepPitch?: number;
+  // Underlayment and ice & water shield laps
+  underlayment?: number;
+  // Ridge cap, starter strip and drip edge
+  accessories?: number;
+}
+
+// Proposal PDF branding; unset fields use the defaults in lib/pdf-theme
+export const pdfFonts = ['helvetica', 'times', 'courier'] as const;
+export type PdfFont = typeof pdfFonts[number];
+export const pdfLogoPlacements = ['left', 'right', 'hidden'] as const;
+export type PdfLogoPlacement = typeof pdfLogoPlacements[number];
+export const pdfPageSizes = ['letter', 'a4'] as const;
+export type PdfPageSize = typeof pdfPageSizes[number];
+
+export interface PdfTheme {
+  // Header band and section title bars, e.g. "#1e3a5f"
+  primaryColor?: string;
+  // Bullets and highlights
+  accentColor?: string;
+  font?: PdfFont;
+  // Which side of the header the logo and company details sit on
+  logoPlacement?: PdfLogoPlacement;
+  // Full first page with the hero photo, logo and client details
+  coverPage?: boolean;
+  // Terms & conditions on their own page instead of a short list above the signatures
+  termsPage?: boolean;
+  pageSize?: PdfPageSize;
+}
+
+// Contract clause kinds in the terms library (lib/contract-terms)
+export const contractClauseKinds = [
+  'payment',
+  'change_orders',
+  'schedule',
+  'site_access',
+  'permits',
+  'right_to_cancel',
+  'lien_notice',
+  'disclosure',
+] as const;
+export type ContractClauseKind = typeof contractClauseKinds[number];
+
+export interface ContractClause {
+  id: string; // e.g. "ca-right-to-cancel"
+  kind: ContractClauseKind;
+  // Statute or rule the clause implements, e.g. "Fla. Stat. § 713.015"
+  citation?: string;
+  title: Record<ClientLanguage, string>;
+  body: Record<ClientLanguage, string>;
+}
+
+// Terms attached to a proposal: a snapshot of the library clauses for the job's state
+export interface ProposalContractTerms {
+  version: string;
+  // Two-letter state code; null when the address didn't match a state
+  state: string | null;
+  clauses: ContractClause[];
+}
+
+// A clause as the signer saw it, in the language they signed in
+export interface SignedTermsClause {
+  id: string;
+  title: string;
+  body: string;
+}
+
+// Geography levels of the labor cost index, most to least specific
+export const costIndexLevels = ['zip', 'zip3', 'county', 'state', 'national'] as const;
+export type CostIndexLevel = typeof costIndexLevels[number];
+
+// Cost index entry a proposal was priced against (see lib/cost-index)
+export interface CostIndexMatch {
+  level: CostIndexLevel;
+  key: string; // e.g. "78746", "787", "TX:Gillespie County", "TX", "US"
+  label: string;
+  multiplier: number;
+  state?: string;
+  county?: string;
+  datasetVersion: string;
+}
+
 // User storage table (required for Replit Auth)
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -62,11 +167,18 @@ export const users = pgTable("users", {
   primaryTrade: varchar("primary_trade"),
   yearsInBusiness: integer("years_in_business"),
   // User Stripe Connect settings for payment links
-  userStripeSecretKey: text("user_stripe_secret_key"), // encrypted/stored Stripe secret key
+  userStripeSecretKey: text("user_stripe_secret_key"), // envelope-encrypted, read via lib/secrets
   userStripeEnabled: boolean("user_stripe_enabled").notNull().default(false),
   // Notification preferences
   emailNotificationsEnabled: boolean("email_notifications_enabled").notNull().default(true),
   smsNotificationsEnabled: boolean("sms_notifications_enabled").notNull().default(false),
+  // Proposal expiry and client follow-ups (null sequence = default sequence)
+  proposalValidityDays: integer("proposal_validity_days").notNull().default(30),
+  followUpSequence: jsonb("follow_up_sequence").$type<FollowUpStep[]>(),
+  // Roofing material takeoff waste overrides (null = defaults)
+  roofingWasteConfig: jsonb("roofing_waste_config").$type<RoofingWasteConfig>(),
+  // Proposal PDF branding (null = defaults; a company theme takes precedence)
+  pdfTheme: jsonb("pdf_theme").$type<PdfTheme>(),
   // Market pricing lookups (freemium: 3 free, then requires Pro)
   marketPricingLookups: integer("market_pricing_lookups").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
@@ -141,6 +253,11 @@ export const auditLogActions = [
   'CHANGE_SUBSCRIPTION',
   'USER_LOGIN',
   'USER_CREATED',
+  // Per-user third-party secrets (lib/secrets)
+  'SECRET_SET',
+  'SECRET_CLEARED',
+  'SECRET_ROTATED',
+  'SECRET_USED',
 ] as const;
 export type AuditLogAction = typeof auditLogActions[number];
 
@@ -155,6 +272,32 @@ export interface ScopeSection {
   remedy?: "repair" | "replace" | "either";
 }
 
+// Units supported by itemized cost breakdowns
+export const costBreakdownUnits = ['sq_ft', 'linear_ft', 'each', 'square'] as const;
+export type CostBreakdownUnit = typeof costBreakdownUnits[number];
+
+// One quantity x unit-cost row of an itemized cost breakdown (all money in dollars)
+export interface CostBreakdownRow {
+  id: string;
+  description: string;
+  quantity: number;
+  unit: CostBreakdownUnit;
+  materialUnitCost: number;
+  laborHours: number;
+  laborRate: number;
+  markupPercent: number;
+  // Where the unit rates came from (1build source id when priced from 1build)
+  source?: 'manual' | 'onebuild';
+  sourceId?: string | null;
+}
+
+// Optional itemized breakdown that rolls up into priceLow/priceHigh
+export interface CostBreakdown {
+  rows: CostBreakdownRow[];
+  // +/- spread applied around the itemized total when rolling up to a range (0 = exact price)
+  rangePercent?: number;
+}
+
 // Line item interface for multi-service proposals
 export interface ProposalLineItem {
   id: string;
@@ -179,12 +322,18 @@ export interface ProposalLineItem {
   windowSizePreset?: string | null;
   windowWidthIn?: number | null;
   windowHeightIn?: number | null;
+  // Optional itemized cost breakdown; when present it determines priceLow/priceHigh
+  costBreakdown?: CostBreakdown | null;
 }
 
 // Proposals table
 export const proposals = pgTable("proposals", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Crew workspace that owns the proposal (null for personal proposals)
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
+  // Visible to every team member, not just the creator and owners/admins
+  sharedWithCompany: boolean("shared_with_company").notNull().default(false),
   clientName: varchar("client_name").notNull(),
   address: text("address").notNull(),
   // Primary trade/job for backwards compatibility and single-service proposals
@@ -200,6 +349,10 @@ export const proposals = pgTable("proposals", {
   priceHigh: integer("price_high").notNull(),
   // Multi-service line items (null for single-service proposals)
   lineItems: jsonb("line_items").$type<ProposalLineItem[]>(),
+  // Itemized cost breakdown for single-service proposals (multi-service keeps it per line item)
+  costBreakdown: jsonb("cost_breakdown").$type<CostBreakdown>(),
+  // Regional cost index geography matched for the job address (null for legacy proposals)
+  costIndex: jsonb("cost_index").$type<CostIndexMatch>(),
   isMultiService: boolean("is_multi_service").notNull().default(false),
   // Aggregated timeline for multi-service
   estimatedDaysLow: integer("estimated_days_low"),
@@ -213,6 +366,15 @@ export const proposals = pgTable("proposals", {
   signature: text("signature"),
   contractorSignature: text("contractor_signature"),
   contractorSignedAt: timestamp("contractor_signed_at"),
+  // Language the client-facing PDF, public page and emails render in (see lib/client-locale)
+  clientLanguage: varchar("client_language", { length: 10 }).notNull().default("en"),
+  // State terms & conditions shown above the signatures (null uses the generic terms)
+  contractTerms: jsonb("contract_terms").$type<ProposalContractTerms>(),
+  // Expiry and follow-up tracking (set when the proposal is first emailed)
+  validUntil: timestamp("valid_until"),
+  sentAt: timestamp("sent_at"),
+  sentToEmail: varchar("sent_to_email"),
+  followUpsEnabled: boolean("follow_ups_enabled").notNull().default(true),
   // Payment fields
   paymentLinkId: varchar("payment_link_id"),
   paymentLinkUrl: text("payment_link_url"),
@@ -221,13 +383,18 @@ export const proposals = pgTable("proposals", {
   paymentStatus: varchar("payment_status", { length: 20 }).default("none"), // none, pending, partial, paid
   paidAmount: integer("paid_amount").default(0), // amount paid in cents
   stripePaymentIntentId: varchar("stripe_payment_intent_id"),
+  // Checkout Session the deposit was recorded from, so the webhook and the
+  // return-from-Stripe reconciliation count it once
+  depositCheckoutSessionId: varchar("deposit_checkout_session_id"),
   // Source tracking (desktop vs mobile)
   source: varchar("source", { length: 20 }).notNull().default("desktop"), // desktop, mobile
   // Photo count for quick dashboard display
   photoCount: integer("photo_count").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  companyIdx: index("idx_proposals_company").on(table.companyId),
+}));
 
 // ==========================================
 // Email Outbox (Test/Dev deterministic sending)
@@ -271,6 +438,25 @@ export const emailOutbox = pgTable(
   }),
 );
 
+// Follow-up reminders already sent for a proposal (one row per sequence step)
+export const proposalFollowUps = pgTable(
+  "proposal_follow_ups",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    proposalId: integer("proposal_id").notNull().references(() => proposals.id, { onDelete: "cascade" }),
+    stepId: varchar("step_id", { length: 50 }).notNull(),
+    trigger: varchar("trigger", { length: 30 }).notNull(),
+    recipient: varchar("recipient", { length: 255 }).notNull(),
+    messageId: text("message_id"),
+    sentAt: timestamp("sent_at").defaultNow(),
+  },
+  (table) => ({
+    proposalStepIdx: uniqueIndex("idx_proposal_follow_ups_step").on(table.proposalId, table.stepId),
+  }),
+);
+
+export type ProposalFollowUp = typeof proposalFollowUps.$inferSelect;
+
 // Proposal Photos table - stores photos associated with proposals
 export const proposalPhotos = pgTable("proposal_photos", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -304,12 +490,214 @@ export const proposalPhotos = pgTable("proposal_photos", {
   categoryOrderIdx: index("idx_proposal_photos_category_order").on(table.proposalId, table.category, table.displayOrder),
 }));
 
+// ==========================================
+// Proposal Revisions (post-send change history)
+// ==========================================
+
+/**
+ * A single field-level change between two proposal revisions.
+ * Stored on each revision (vs. the previous one) and returned by the diff API.
+ */
+export type ProposalRevisionChange =
+  | { field: "scope"; type: "added" | "removed"; item: string; lineItemId?: string; lineItemName?: string }
+  | { field: "exclusions"; type: "added" | "removed"; item: string }
+  | { field: "lineItems"; type: "added" | "removed"; lineItemId: string; lineItemName: string; priceLow: number; priceHigh: number }
+  | { field: "lineItemPrice"; type: "changed"; lineItemId: string; lineItemName: string; from: { low: number; high: number }; to: { low: number; high: number } }
+  | { field: "price"; type: "changed"; from: { low: number; high: number }; to: { low: number; high: number } }
+  | { field: "options"; type: "added" | "removed" | "changed"; key: string; from?: OptionValue; to?: OptionValue };
+
+/**
+ * Snapshots of a proposal's client-facing content, captured on every edit
+ * after the proposal is first sent. Revision 1 is what the client originally saw.
+ */
+export const proposalRevisions = pgTable("proposal_revisions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  proposalId: integer("proposal_id").notNull().references(() => proposals.id, { onDelete: "cascade" }),
+  // 1-based, sequential per proposal
+  revisionNumber: integer("revision_number").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  // Snapshot
+  scope: text("scope").array().notNull(),
+  scopeSections: jsonb("scope_sections").$type<ScopeSection[]>().notNull().default(sql`'[]'::jsonb`),
+  lineItems: jsonb("line_items").$type<ProposalLineItem[]>(),
+  priceLow: integer("price_low").notNull(),
+  priceHigh: integer("price_high").notNull(),
+  options: jsonb("options").$type<Record<string, OptionValue>>().notNull().default({}),
+  exclusions: jsonb("exclusions").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  // Changes vs. the previous revision (empty for revision 1)
+  changes: jsonb("changes").$type<ProposalRevisionChange[]>().notNull().default(sql`'[]'::jsonb`),
+  // Set when this revision was produced by restoring an older one
+  restoredFromRevision: integer("restored_from_revision"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  proposalRevisionIdx: uniqueIndex("idx_proposal_revisions_proposal_revision").on(table.proposalId, table.revisionNumber),
+}));
+
+export type ProposalRevision = typeof proposalRevisions.$inferSelect;
+export type InsertProposalRevision = typeof proposalRevisions.$inferInsert;
+
+export const proposalRevisionsRelations = relations(proposalRevisions, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [proposalRevisions.proposalId],
+    references: [proposals.id],
+  }),
+  creator: one(users, {
+    fields: [proposalRevisions.createdBy],
+    references: [users.id],
+  }),
+}));
+
+// ==========================================
+// Invoices (billing schedule for accepted proposals)
+// ==========================================
+
+export const invoiceKinds = ['deposit', 'progress', 'final'] as const;
+export type InvoiceKind = typeof invoiceKinds[number];
+
+// scheduled = milestone not reached yet, open = issued and payable
+export const invoiceStatuses = ['scheduled', 'open', 'paid', 'void'] as const;
+export type InvoiceStatus = typeof invoiceStatuses[number];
+
+export const invoices = pgTable("invoices", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  proposalId: integer("proposal_id").notNull().references(() => proposals.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Per-contractor sequence backing the human-readable invoice number (e.g. INV-0007)
+  sequence: integer("sequence").notNull(),
+  invoiceNumber: varchar("invoice_number", { length: 32 }).notNull(),
+  kind: varchar("kind", { length: 20 }).notNull(), // deposit, progress, final
+  // Position within the proposal's billing schedule (0 = deposit)
+  scheduleIndex: integer("schedule_index").notNull(),
+  milestone: text("milestone").notNull(),
+  amount: integer("amount").notNull(), // amount in cents
+  status: varchar("status", { length: 20 }).notNull().default("scheduled"), // scheduled, open, paid, void
+  publicToken: varchar("public_token").notNull().unique(),
+  dueDate: timestamp("due_date"),
+  issuedAt: timestamp("issued_at"),
+  paidAt: timestamp("paid_at"),
+  paidAmount: integer("paid_amount").notNull().default(0), // amount paid in cents
+  stripeCheckoutSessionId: varchar("stripe_checkout_session_id"),
+  stripePaymentIntentId: varchar("stripe_payment_intent_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  proposalIdx: index("idx_invoices_proposal").on(table.proposalId, table.scheduleIndex),
+  userSequenceIdx: index("idx_invoices_user_sequence").on(table.userId, table.sequence),
+}));
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = typeof invoices.$inferInsert;
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [invoices.proposalId],
+    references: [proposals.id],
+  }),
+  user: one(users, {
+    fields: [invoices.userId],
+    references: [users.id],
+  }),
+}));
+
+// ==========================================
+// Change Orders (scope changes after acceptance)
+// ==========================================
+
+// pending = awaiting client signature
+export const changeOrderStatuses = ['pending', 'accepted', 'void'] as const;
+export type ChangeOrderStatus = typeof changeOrderStatuses[number];
+
+export const changeOrders = pgTable("change_orders", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  proposalId: integer("proposal_id").notNull().references(() => proposals.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Sequential per proposal (CO-1, CO-2, ...)
+  number: integer("number").notNull(),
+  title: varchar("title", { length: 200 }).notNull(),
+  description: text("description"),
+  addedScope: jsonb("added_scope").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  removedScope: jsonb("removed_scope").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  // Signed change to the contract price in dollars (negative for credits)
+  priceDelta: integer("price_delta").notNull().default(0),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, accepted, void
+  publicToken: varchar("public_token").notNull().unique(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedByName: varchar("accepted_by_name"),
+  acceptedByEmail: varchar("accepted_by_email"),
+  signature: text("signature"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  proposalIdx: index("idx_change_orders_proposal").on(table.proposalId, table.number),
+}));
+
+export type ChangeOrder = typeof changeOrders.$inferSelect;
+export type InsertChangeOrder = typeof changeOrders.$inferInsert;
+
+export const changeOrdersRelations = relations(changeOrders, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [changeOrders.proposalId],
+    references: [proposals.id],
+  }),
+  user: one(users, {
+    fields: [changeOrders.userId],
+    references: [users.id],
+  }),
+}));
+
+export const signingRoles = ['client', 'contractor'] as const;
+export type SigningRole = typeof signingRoles[number];
+
+// Audit record of one signature on a proposal (see lib/signing-certificates)
+export const signingCertificates = pgTable("signing_certificates", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  // Public identifier printed on the certificate page and used by the verify endpoint
+  certificateId: varchar("certificate_id", { length: 36 }).notNull().unique(),
+  proposalId: integer("proposal_id").notNull().references(() => proposals.id, { onDelete: "cascade" }),
+  role: varchar("role", { length: 20 }).notNull(), // client, contractor
+  signerName: varchar("signer_name").notNull(),
+  signerEmail: varchar("signer_email"),
+  signerUserId: varchar("signer_user_id"),
+  signedAt: timestamp("signed_at").notNull(),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  consentText: text("consent_text").notNull(),
+  language: varchar("language", { length: 10 }).notNull().default("en"),
+  // SHA-256 of the proposal PDF as it stood when this party signed
+  documentSha256: varchar("document_sha256", { length: 64 }).notNull(),
+  signatureSha256: varchar("signature_sha256", { length: 64 }).notNull(),
+  termsVersion: varchar("terms_version", { length: 20 }),
+  termsState: varchar("terms_state", { length: 2 }),
+  termsShown: jsonb("terms_shown").$type<SignedTermsClause[]>().notNull().default(sql`'[]'::jsonb`),
+  termsSha256: varchar("terms_sha256", { length: 64 }).notNull(),
+  // SHA-256 over every field above; recomputed by the verify endpoint
+  certificateSha256: varchar("certificate_sha256", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // One signature per party on a proposal
+  proposalRoleIdx: uniqueIndex("idx_signing_certificates_proposal_role").on(table.proposalId, table.role),
+}));
+
+export type SigningCertificate = typeof signingCertificates.$inferSelect;
+export type InsertSigningCertificate = typeof signingCertificates.$inferInsert;
+
+export const signingCertificatesRelations = relations(signingCertificates, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [signingCertificates.proposalId],
+    references: [proposals.id],
+  }),
+}));
+
 export const proposalsRelations = relations(proposals, ({ one, many }) => ({
   user: one(users, {
     fields: [proposals.userId],
     references: [users.id],
   }),
   photos: many(proposalPhotos),
+  revisions: many(proposalRevisions),
+  invoices: many(invoices),
+  changeOrders: many(changeOrders),
+  signingCertificates: many(signingCertificates),
 }));
 
 export const proposalPhotosRelations = relations(proposalPhotos, ({ one }) => ({
@@ -341,6 +729,8 @@ export const companies = pgTable("companies", {
   phone: varchar("phone"),
   logo: text("logo"),
   licenseNumber: varchar("license_number"),
+  // Proposal PDF branding for every member's proposals (null = members' own themes)
+  pdfTheme: jsonb("pdf_theme").$type<PdfTheme>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -352,7 +742,10 @@ export const companyMembers = pgTable("company_members", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   role: varchar("role", { length: 20 }).notNull().default("member"), // owner, admin, member
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  // A user belongs to at most one team workspace
+  userIdx: uniqueIndex("idx_company_members_user").on(table.userId),
+}));
 
 // Invites table for pending team invitations
 export const invites = pgTable("invites", {
@@ -674,10 +1067,20 @@ export const proposalTemplates = pgTable("proposal_templates", {
   estimatedDaysHigh: integer("estimated_days_high"),
   warranty: text("warranty"),
   exclusions: jsonb("exclusions").$type<string[]>(),
+  // Grouped scope for the editor and generator; baseScope stays the flattened list
+  scopeSections: jsonb("scope_sections").$type<ScopeSection[]>().notNull().default(sql`'[]'::jsonb`),
+  assumptions: jsonb("assumptions").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
   // Template metadata
   isDefault: boolean("is_default").notNull().default(true), // true = system template
   isActive: boolean("is_active").notNull().default(true),
   createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }), // null = system
+  // Crew workspace of the creator; shared templates are visible to every team member
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
+  sharedWithCompany: boolean("shared_with_company").notNull().default(false),
+  // Template this one was forked from (null for system templates and forks of generator templates)
+  forkedFromId: integer("forked_from_id").references((): AnyPgColumn => proposalTemplates.id, { onDelete: "set null" }),
+  // Latest entry in proposal_template_versions
+  version: integer("version").notNull().default(1),
   // Analytics
   usageCount: integer("usage_count").notNull().default(0),
   // Timestamps
@@ -686,13 +1089,65 @@ export const proposalTemplates = pgTable("proposal_templates", {
 }, (table) => ({
   tradeJobTypeIdx: index("idx_templates_trade_job").on(table.tradeId, table.jobTypeId),
   createdByIdx: index("idx_templates_created_by").on(table.createdBy),
+  companyIdx: index("idx_templates_company").on(table.companyId),
 }));
 
-export const proposalTemplatesRelations = relations(proposalTemplates, ({ one }) => ({
+export const proposalTemplatesRelations = relations(proposalTemplates, ({ one, many }) => ({
   creator: one(users, {
     fields: [proposalTemplates.createdBy],
     references: [users.id],
   }),
+  versions: many(proposalTemplateVersions),
+}));
+
+/**
+ * Editable content of a custom template, stored on every saved version.
+ */
+export interface ProposalTemplateSnapshot {
+  jobTypeName: string;
+  baseScope: string[];
+  scopeSections: ScopeSection[];
+  options: TemplateJobOption[];
+  basePriceLow: number;
+  basePriceHigh: number;
+  estimatedDaysLow: number | null;
+  estimatedDaysHigh: number | null;
+  warranty: string | null;
+  exclusions: string[];
+  assumptions: string[];
+}
+
+/**
+ * A single change between two template versions, shown in the version history.
+ */
+export type ProposalTemplateChange =
+  | { field: "jobTypeName" | "warranty"; type: "changed"; from: string | null; to: string | null }
+  | { field: "scope" | "exclusions" | "assumptions"; type: "added" | "removed"; item: string }
+  | { field: "price" | "days"; type: "changed"; from: { low: number | null; high: number | null }; to: { low: number | null; high: number | null } }
+  | { field: "options"; type: "added" | "removed" | "changed"; optionId: string; label: string }
+  | { field: "scopeSections"; type: "changed" };
+
+// Version history of custom templates (version 1 is the template as first saved)
+export const proposalTemplateVersions = pgTable("proposal_template_versions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  templateId: integer("template_id").notNull().references(() => proposalTemplates.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  snapshot: jsonb("snapshot").$type<ProposalTemplateSnapshot>().notNull(),
+  // Changes vs. the previous version (empty for version 1)
+  changes: jsonb("changes").$type<ProposalTemplateChange[]>().notNull().default(sql`'[]'::jsonb`),
+  // Set when this version was produced by restoring an older one
+  restoredFromVersion: integer("restored_from_version"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  templateVersionIdx: uniqueIndex("idx_template_versions_template_version").on(table.templateId, table.version),
+}));
+
+export const proposalTemplateVersionsRelations = relations(proposalTemplateVersions, ({ one }) => ({
+  template: one(proposalTemplates, {
+    fields: [proposalTemplateVersions.templateId],
+    references: [proposalTemplates.id],
+  }),
 }));
 
 // ==========================================
@@ -714,8 +1169,12 @@ export const mobileJobs = pgTable("mobile_jobs", {
   jobTypeId: varchar("job_type_id", { length: 50 }).notNull(),
   jobTypeName: varchar("job_type_name", { length: 200 }).notNull(),
   jobSize: integer("job_size").notNull().default(2),
+  // Template the job was created from (custom or system); drafts use the same one
+  templateId: integer("template_id").references(() => proposalTemplates.id, { onDelete: "set null" }),
 
   jobNotes: text("job_notes"),
+  // Map measurements for measurement trades (fence linear feet, driveway area)
+  measurements: jsonb("measurements").$type<unknown>(),
   status: varchar("status", { length: 20 }).notNull().default("created"), // created, photos_uploaded, drafting, drafted, submitted
 
   createdAt: timestamp("created_at").defaultNow(),
@@ -760,6 +1219,8 @@ export const mobileJobDrafts = pgTable("mobile_job_drafts", {
   pricebookVersion: varchar("pricebook_version", { length: 40 }),
   pricingSnapshot: jsonb("pricing_snapshot").$type<unknown>(),
   payload: jsonb("payload").$type<unknown>(), // draft payload (lineItems, packages, questions, etc.)
+  // Versioned selections/scope the draft is generated from (validated by draftInputSchema)
+  draftInput: jsonb("draft_input").$type<unknown>(),
   confidence: integer("confidence"), // 0-100
   questions: text("questions").array().default([]),
   error: text("error"),
@@ -801,6 +1262,44 @@ export const mobileJobDraftsRelations = relations(mobileJobDrafts, ({ one }) =>
   }),
 }));
 
+// ==========================================
+// Background jobs (queue + cron schedules)
+// ==========================================
+
+export const backgroundJobs = pgTable("background_jobs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: varchar("name", { length: 80 }).notNull(), // handler name, e.g. mobile.draft
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, running, completed, dead
+  // At most one pending job per key (e.g. one embedding refresh per job)
+  dedupeKey: varchar("dedupe_key", { length: 160 }),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedBy: varchar("locked_by", { length: 80 }),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  statusRunAtIdx: index("idx_background_jobs_status_run_at").on(table.status, table.runAt),
+  nameStatusIdx: index("idx_background_jobs_name_status").on(table.name, table.status),
+  pendingDedupeIdx: uniqueIndex("idx_background_jobs_pending_dedupe").on(table.dedupeKey).where(sql`status = 'pending'`),
+}));
+
+export const jobSchedules = pgTable("job_schedules", {
+  name: varchar("name", { length: 80 }).primaryKey(),
+  cron: varchar("cron", { length: 80 }).notNull(),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+export type JobScheduleRow = typeof jobSchedules.$inferSelect;
+
 // ==========================================
 // Market pricing cache (1build) for mobile
 // ==========================================
@@ -934,6 +1433,7 @@ export const userActionLog = pgTable("user_action_log", {
   geoActionIdx: index("idx_user_action_log_geo").on(table.zipcode, table.actionType),
   tradeActionIdx: index("idx_user_action_log_trade").on(table.tradeId, table.jobTypeId, table.actionType),
   createdAtIdx: index("idx_user_action_log_created").on(table.createdAt),
+  proposalActionIdx: index("idx_user_action_log_proposal").on(table.proposalId, table.actionType),
 }));
 
 /**
@@ -1088,6 +1588,17 @@ export const pricingPatterns = pgTable("pricing_patterns", {
   outcomeIdx: index("idx_pricing_patterns_outcome").on(table.outcome, table.tradeId),
 }));
 
+/**
+ * Aggregation watermarks - last user_action_log id folded into the pattern
+ * tables by each aggregation pipeline, so every action is counted once
+ */
+export const learningAggregationState = pgTable("learning_aggregation_state", {
+  pipeline: varchar("pipeline", { length: 50 }).primaryKey(),
+  lastActionId: integer("last_action_id").notNull().default(0),
+  lastRunAt: timestamp("last_run_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Relations for learning tables
 export const userActionLogRelations = relations(userActionLog, ({ one }) => ({
   user: one(users, {
@@ -1122,6 +1633,7 @@ export type GeographicPattern = typeof geographicPatterns.$inferSelect;
 export type PhotoCategorizationRecord = typeof photoCategorization.$inferSelect;
 export type ScopeItemPattern = typeof scopeItemPatterns.$inferSelect;
 export type PricingPattern = typeof pricingPatterns.$inferSelect;
+export type LearningAggregationState = typeof learningAggregationState.$inferSelect;
 
 // Zod schemas for line items
 // Line item options can contain boolean, string, or nested objects
@@ -1137,6 +1649,78 @@ export const scopeSectionSchema = z.object({
   items: z.array(z.string()),
 });
 
+export const costBreakdownRowSchema = z.object({
+  id: z.string(),
+  description: z.string().min(1),
+  quantity: z.number().min(0),
+  unit: z.enum(costBreakdownUnits),
+  materialUnitCost: z.number().min(0),
+  laborHours: z.number().min(0),
+  laborRate: z.number().min(0),
+  markupPercent: z.number().min(0).max(500),
+  source: z.enum(['manual', 'onebuild']).optional(),
+  sourceId: z.string().nullish(),
+});
+
+export const costBreakdownSchema = z.object({
+  rows: z.array(costBreakdownRowSchema),
+  rangePercent: z.number().min(0).max(50).optional(),
+});
+
+export const followUpStepSchema = z.object({
+  id: z.string().min(1).max(50),
+  trigger: z.enum(followUpTriggers),
+  days: z.number().int().min(0).max(365),
+  enabled: z.boolean().optional(),
+});
+
+export const followUpSequenceSchema = z
+  .array(followUpStepSchema)
+  .max(10)
+  .refine((steps) => new Set(steps.map((step) => step.id)).size === steps.length, {
+    message: "Follow-up step ids must be unique",
+  });
+
+const wastePercentSchema = z.number().min(0).max(50);
+
+export const roofingWasteConfigSchema = z
+  .object({
+    shingleSimple: wastePercentSchema,
+    shingleModerate: wastePercentSchema,
+    shingleComplex: wastePercentSchema,
+    steepPitch: wastePercentSchema,
+    verySteepPitch: wastePercentSchema,
+    underlayment: wastePercentSchema,
+    accessories: wastePercentSchema,
+  })
+  .partial()
+  .strict();
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors must be 6-digit hex values like #1e3a5f");
+
+export const pdfThemeSchema = z
+  .object({
+    primaryColor: hexColorSchema,
+    accentColor: hexColorSchema,
+    font: z.enum(pdfFonts),
+    logoPlacement: z.enum(pdfLogoPlacements),
+    coverPage: z.boolean(),
+    termsPage: z.boolean(),
+    pageSize: z.enum(pdfPageSizes),
+  })
+  .partial()
+  .strict();
+
+export const costIndexMatchSchema = z.object({
+  level: z.enum(costIndexLevels),
+  key: z.string(),
+  label: z.string(),
+  multiplier: z.number().positive(),
+  state: z.string().optional(),
+  county: z.string().optional(),
+  datasetVersion: z.string(),
+});
+
 export const proposalLineItemSchema = z.object({
   id: z.string(),
   tradeId: z.string(),
@@ -1160,12 +1744,17 @@ export const proposalLineItemSchema = z.object({
   estimatedDaysHigh: z.number().nullish(),
   warranty: z.string().nullish(),
   exclusions: z.array(z.string()).nullish(),
+  costBreakdown: costBreakdownSchema.nullish(),
 });
 
 // Proposal source types
 export const proposalSourceTypes = ['desktop', 'mobile'] as const;
 export type ProposalSource = typeof proposalSourceTypes[number];
 
+// Languages a proposal can be rendered in for the client (messages live in lib/client-locale)
+export const clientLanguages = ['en', 'es'] as const;
+export type ClientLanguage = typeof clientLanguages[number];
+
 // Zod schemas
 // Options can contain boolean, string, or nested objects (e.g., __mobile metadata)
 const optionValueSchema: z.ZodType<boolean | string | number | Record<string, unknown>> = z.union([
@@ -1175,6 +1764,21 @@ const optionValueSchema: z.ZodType<boolean | string | number | Record<string, un
   z.record(z.string(), z.unknown()),
 ]);
 
+// One string per client language
+const clientLanguageTextSchema = z.object({ en: z.string(), es: z.string() });
+
+export const proposalContractTermsSchema = z.object({
+  version: z.string(),
+  state: z.string().length(2).nullable(),
+  clauses: z.array(z.object({
+    id: z.string(),
+    kind: z.enum(contractClauseKinds),
+    citation: z.string().optional(),
+    title: clientLanguageTextSchema,
+    body: clientLanguageTextSchema,
+  })),
+});
+
 export const insertProposalSchema = createInsertSchema(proposals).omit({
   createdAt: true,
   updatedAt: true,
@@ -1183,11 +1787,15 @@ export const insertProposalSchema = createInsertSchema(proposals).omit({
   scopeSections: z.array(scopeSectionSchema).optional(),
   options: z.record(z.string(), optionValueSchema).optional(),
   lineItems: z.array(proposalLineItemSchema).nullish(),
+  costBreakdown: costBreakdownSchema.nullish(),
+  costIndex: costIndexMatchSchema.nullish(),
   isMultiService: z.boolean().optional(),
   estimatedDaysLow: z.number().nullish(),
   estimatedDaysHigh: z.number().nullish(),
   source: z.enum(proposalSourceTypes).optional(),
   photoCount: z.number().optional(),
+  clientLanguage: z.enum(clientLanguages).optional(),
+  contractTerms: proposalContractTermsSchema.nullish(),
 });
 
 export const selectProposalSchema = createSelectSchema(proposals);
@@ -1292,6 +1900,8 @@ export const insertProposalPhotoSchema = createInsertSchema(proposalPhotos).omit
 // Template types
 export type ProposalTemplate = typeof proposalTemplates.$inferSelect;
 export type InsertProposalTemplate = typeof proposalTemplates.$inferInsert;
+export type ProposalTemplateVersion = typeof proposalTemplateVersions.$inferSelect;
+export type InsertProposalTemplateVersion = typeof proposalTemplateVersions.$inferInsert;
 
 // Template Zod schemas
 export const templateJobOptionSchema = z.object({
@@ -1317,6 +1927,8 @@ export const insertTemplateSchema = createInsertSchema(proposalTemplates).omit({
   baseScope: z.array(z.string()),
   options: z.array(templateJobOptionSchema),
   exclusions: z.array(z.string()).optional(),
+  scopeSections: z.array(scopeSectionSchema).optional(),
+  assumptions: z.array(z.string()).optional(),
 });
 
 // Analytics types
@@ -0,0 +1,187 @@
+/**
+ * Adaptive Learning Unit Tests
+ *
+ * Tests for learning from action history, merging a device's local profile
+ * into the stored one and validating sync payloads.
+ * Run with: npx tsx src/lib/learning/adaptive-learning.test.ts
+ */
+
+import {
+  adaptiveActionBatchSchema,
+  clampActionTime,
+  createEmptyProfile,
+  learnFromAction,
+  learnedPricingAdjustment,
+  learnedScopeModifications,
+  mergeProfiles,
+  profileMergeSchema,
+  reviveProfile,
+  updateProfileStatus,
+  type ActionEvent,
+  type UserProfile,
+} from './adaptive-learning';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+const NOW = new Date('2026-03-18T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function event(type: string, data: Record<string, unknown>, proposalId = 'proposal-1'): ActionEvent {
+  return { type, timestamp: NOW, context: { proposalId }, data };
+}
+
+/** Learn from each action in turn, the way the server does for a batch */
+function learnAll(profile: UserProfile, actions: ActionEvent[]): UserProfile {
+  for (const action of actions) {
+    profile.totalActions++;
+    learnFromAction(profile, action, actions);
+  }
+  return updateProfileStatus(profile, NOW);
+}
+
+function adaptedProfile(userId: string): UserProfile {
+  return createEmptyProfile(userId, new Date(NOW.getTime() - 10 * DAY));
+}
+
+// ============ TESTS ============
+
+function testLearning() {
+  console.log('\n--- learning from history ---');
+  const adjustments = [10, 12, 14].map((percent) =>
+    event('price_adjust', { adjustmentPercent: percent, jobTypeId: 'toilet-install', zipcode: '78701' })
+  );
+  const waxRing = [1, 2, 3, 4, 5].map((n) =>
+    event('scope_add', { scopeItem: 'Wax ring', jobTypeId: 'toilet-install' }, `proposal-${n}`)
+  );
+
+  const profile = learnAll(adaptedProfile('user-1'), [...adjustments, ...waxRing, ...waxRing.slice(0, 2)]);
+
+  assertEqual(profile.preferences.pricing.defaultAdjustment, 12, 'averages price adjustments');
+  assertEqual(profile.preferences.pricing.byJobType['toilet-install'], 12, 'learns per job type');
+  assertEqual(profile.preferences.pricing.byRegion['78701'], 12, 'learns per ZIP');
+  assertEqual(profile.preferences.scope.alwaysAdd, ['Wax ring'], 'consistently added items become always-add');
+  assertEqual(profile.totalActions, 10, 'counts every action');
+  assert(profile.isAdapted, 'adapts after the learning period with enough actions');
+
+  const fresh = learnAll(createEmptyProfile('user-2', NOW), adjustments);
+  assertEqual(fresh.isAdapted, false, 'new users are still learning');
+  assertEqual(learnedPricingAdjustment(fresh, 'toilet-install'), null, 'nothing is applied while learning');
+  assertEqual(learnedPricingAdjustment(profile, 'toilet-install')?.adjustment, 12, 'applies the job type adjustment once adapted');
+  assertEqual(
+    learnedScopeModifications(profile, ['Remove old toilet'], 'toilet-install')?.add,
+    ['Wax ring'],
+    'suggests learned scope additions'
+  );
+}
+
+function testMerge() {
+  console.log('\n--- merging a local profile ---');
+  const server = adaptedProfile('user-1');
+  server.totalActions = 20;
+  server.preferences.pricing = { defaultAdjustment: 10, byJobType: { 'toilet-install': 8 }, byRegion: {}, confidence: 60 };
+  server.preferences.scope.alwaysAdd = ['Wax ring'];
+  server.preferences.photos.categoryByPosition = { 1: 'hero' };
+  server.preferences.workflow.commonJobTypes = ['toilet-install'];
+
+  const local = createEmptyProfile('user-1', new Date(NOW.getTime() - 40 * DAY));
+  local.totalActions = 15;
+  local.preferences.pricing = { defaultAdjustment: 20, byJobType: { 'toilet-install': 30, 'faucet-install': 5 }, byRegion: { '78701': 4 }, confidence: 40 };
+  local.preferences.scope.alwaysAdd = ['wax ring', 'Supply line'];
+  local.preferences.photos.categoryByPosition = { 1: 'existing', 2: 'damage' };
+  local.preferences.workflow.commonJobTypes = ['faucet-install', 'toilet-install'];
+
+  const merged = mergeProfiles(server, local);
+
+  assertEqual(merged.totalActions, 35, 'adds the local actions');
+  assertEqual(merged.firstSeen.toISOString(), local.firstSeen.toISOString(), 'keeps the earliest first-seen date');
+  assertEqual(merged.preferences.pricing.defaultAdjustment, 14, 'confidence-weighted default adjustment');
+  assertEqual(merged.preferences.pricing.confidence, 60, 'keeps the higher confidence');
+  assertEqual(
+    merged.preferences.pricing.byJobType,
+    { 'toilet-install': 8, 'faucet-install': 5 },
+    'server values win, local fills gaps'
+  );
+  assertEqual(merged.preferences.pricing.byRegion, { '78701': 4 }, 'adds local regions');
+  assertEqual(merged.preferences.scope.alwaysAdd, ['Wax ring', 'Supply line'], 'unions items case-insensitively');
+  assertEqual(merged.preferences.photos.categoryByPosition, { 1: 'hero', 2: 'damage' }, 'merges photo positions');
+  assertEqual(merged.preferences.workflow.commonJobTypes, ['toilet-install', 'faucet-install'], 'merges common job types');
+  assertEqual(server.totalActions, 20, 'leaves the stored profile untouched');
+}
+
+function testPayloads() {
+  console.log('\n--- sync payloads ---');
+  const batch = adaptiveActionBatchSchema.safeParse({
+    actions: [{ type: 'scope_add', timestamp: NOW.toISOString(), data: { scopeItem: 'Wax ring' } }],
+  });
+  assert(batch.success, 'accepts a batch of actions');
+  assertEqual(batch.success ? batch.data.actions[0].context : null, {}, 'defaults the context');
+  assert(!adaptiveActionBatchSchema.safeParse({ actions: [] }).success, 'rejects an empty batch');
+  assert(
+    !adaptiveActionBatchSchema.safeParse({ actions: [{ type: 'drop_tables', timestamp: NOW.toISOString() }] }).success,
+    'rejects unknown action types'
+  );
+
+  const stored = JSON.parse(JSON.stringify(adaptedProfile('user-1')));
+  const merge = profileMergeSchema.safeParse({ sourceId: 'device-12345', profile: stored });
+  assert(merge.success, 'accepts a stored localStorage profile');
+  assert(!profileMergeSchema.safeParse({ sourceId: 'x', profile: stored }).success, 'requires a device id');
+
+  const revived = reviveProfile(stored);
+  assert(revived.firstSeen instanceof Date && revived.updatedAt instanceof Date, 'revives profile dates');
+
+  assertEqual(clampActionTime(new Date(NOW.getTime() + DAY), NOW).toISOString(), NOW.toISOString(), 'clamps future action times');
+  assertEqual(
+    clampActionTime(new Date(NOW.getTime() - 90 * DAY), NOW).toISOString(),
+    new Date(NOW.getTime() - 30 * DAY).toISOString(),
+    'clamps action times to the learning window'
+  );
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Adaptive Learning Unit Tests');
+  console.log('='.repeat(50));
+
+  testLearning();
+  testMerge();
+  testPayloads();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,816 @@
+/**
+ * Adaptive Learning Engine
+ *
+ * The profile model behind the adaptive user profile: learning preferences
+ * from a user's recent actions, merging profiles and applying what was
+ * learned. The profile is persisted server-side (adaptive-profile-storage.ts)
+ * and cached on the client (adaptive-profile.ts).
+ *
+ * Safe to import from client and server code.
+ */
+
+import { z } from 'zod';
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface UserProfile {
+  userId: string;
+  /** When user first started using the app */
+  firstSeen: Date;
+  /** Days of active usage */
+  daysActive: number;
+  /** Total actions recorded */
+  totalActions: number;
+  /** Is the learning period complete? (7+ days) */
+  isAdapted: boolean;
+  /** Confidence level (0-100) */
+  confidence: number;
+  /** Learned preferences */
+  preferences: LearnedPreferences;
+  /** Last updated */
+  updatedAt: Date;
+}
+
+export interface LearnedPreferences {
+  // Pricing
+  pricing: {
+    /** Default adjustment percentage from suggested price */
+    defaultAdjustment: number;
+    /** Per-job-type adjustments */
+    byJobType: Record<string, number>;
+    /** Regional adjustments */
+    byRegion: Record<string, number>;
+    /** Confidence in pricing predictions */
+    confidence: number;
+  };
+  
+  // Scope
+  scope: {
+    /** Items user always adds */
+    alwaysAdd: string[];
+    /** Items user always removes */
+    alwaysRemove: string[];
+    /** Per-job-type additions */
+    addByJobType: Record<string, string[]>;
+    /** Per-job-type removals */
+    removeByJobType: Record<string, string[]>;
+    /** Confidence in scope predictions */
+    confidence: number;
+  };
+  
+  // Photos
+  photos: {
+    /** Preferred category by photo position */
+    categoryByPosition: Record<number, string>;
+    /** Common captions by category */
+    captionsByCategory: Record<string, string[]>;
+    /** Confidence in photo predictions */
+    confidence: number;
+  };
+  
+  // Workflow
+  workflow: {
+    /** Preferred job types (most common) */
+    commonJobTypes: string[];
+    /** Common service areas (zipcodes) */
+    commonAreas: string[];
+    /** Average photos per proposal */
+    avgPhotoCount: number;
+    /** Average scope items per proposal */
+    avgScopeItems: number;
+  };
+}
+
+export interface ActionEvent {
+  type: string;
+  timestamp: Date;
+  context: Record<string, unknown>;
+  data: Record<string, unknown>;
+}
+
+// ==========================================
+// Constants
+// ==========================================
+
+export const LEARNING_PERIOD_DAYS = 7;
+const MIN_ACTIONS_FOR_PATTERN = 3;
+const HIGH_CONFIDENCE_THRESHOLD = 5;
+const PATTERN_THRESHOLD = 0.7; // 70% consistency = pattern
+
+// ==========================================
+// Profile Status
+// ==========================================
+
+/**
+ * Create empty profile for new user
+ */
+export function createEmptyProfile(userId: string, firstSeen: Date = new Date()): UserProfile {
+  return {
+    userId,
+    firstSeen,
+    daysActive: 0,
+    totalActions: 0,
+    isAdapted: false,
+    confidence: 0,
+    preferences: {
+      pricing: {
+        defaultAdjustment: 0,
+        byJobType: {},
+        byRegion: {},
+        confidence: 0,
+      },
+      scope: {
+        alwaysAdd: [],
+        alwaysRemove: [],
+        addByJobType: {},
+        removeByJobType: {},
+        confidence: 0,
+      },
+      photos: {
+        categoryByPosition: {},
+        captionsByCategory: {},
+        confidence: 0,
+      },
+      workflow: {
+        commonJobTypes: [],
+        commonAreas: [],
+        avgPhotoCount: 0,
+        avgScopeItems: 0,
+      },
+    },
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Update profile status (check if learning period complete)
+ */
+export function updateProfileStatus(profile: UserProfile, now: Date = new Date()): UserProfile {
+  const daysSinceFirst = Math.floor(
+    (now.getTime() - new Date(profile.firstSeen).getTime()) / (1000 * 60 * 60 * 24)
+  );
+  
+  profile.daysActive = daysSinceFirst;
+  profile.isAdapted = daysSinceFirst >= LEARNING_PERIOD_DAYS && profile.totalActions >= 10;
+  
+  // Calculate overall confidence
+  const confidenceFactors = [
+    profile.preferences.pricing.confidence,
+    profile.preferences.scope.confidence,
+    profile.preferences.photos.confidence,
+  ];
+  profile.confidence = Math.round(
+    confidenceFactors.reduce((a, b) => a + b, 0) / confidenceFactors.length
+  );
+  
+  return profile;
+}
+
+// ==========================================
+// Learning Engine
+// ==========================================
+
+/**
+ * Learn from a single action. `history` is the user's recent actions
+ * (including this one) that patterns are computed over.
+ */
+export function learnFromAction(profile: UserProfile, action: ActionEvent, history: ActionEvent[]): void {
+  switch (action.type) {
+    case 'price_adjust':
+      learnPricingPattern(profile, action, history);
+      break;
+    case 'scope_add':
+      learnScopeAddPattern(profile, action, history);
+      break;
+    case 'scope_remove':
+      learnScopeRemovePattern(profile, action, history);
+      break;
+    case 'photo_categorize':
+      learnPhotoPattern(profile, action, history);
+      break;
+    case 'proposal_create':
+      learnWorkflowPattern(profile, history);
+      break;
+  }
+}
+
+/**
+ * Learn pricing patterns
+ */
+function learnPricingPattern(profile: UserProfile, action: ActionEvent, actions: ActionEvent[]): void {
+  const { adjustmentPercent, jobTypeId, zipcode } = action.data as {
+    adjustmentPercent?: number;
+    jobTypeId?: string;
+    zipcode?: string;
+  };
+  
+  if (adjustmentPercent === undefined) return;
+  
+  const prefs = profile.preferences.pricing;
+  const history = actions
+    .filter(a => a.type === 'price_adjust');
+  
+  // Calculate average adjustment
+  const adjustments = history
+    .map(a => (a.data as { adjustmentPercent?: number }).adjustmentPercent)
+    .filter((a): a is number => a !== undefined);
+  
+  if (adjustments.length >= MIN_ACTIONS_FOR_PATTERN) {
+    prefs.defaultAdjustment = Math.round(
+      adjustments.reduce((a, b) => a + b, 0) / adjustments.length
+    );
+    prefs.confidence = Math.min(100, adjustments.length * 10);
+  }
+  
+  // Learn job-type specific adjustment
+  if (jobTypeId) {
+    const jobAdjustments = history
+      .filter(a => (a.data as { jobTypeId?: string }).jobTypeId === jobTypeId)
+      .map(a => (a.data as { adjustmentPercent?: number }).adjustmentPercent)
+      .filter((a): a is number => a !== undefined);
+    
+    if (jobAdjustments.length >= MIN_ACTIONS_FOR_PATTERN) {
+      prefs.byJobType[jobTypeId] = Math.round(
+        jobAdjustments.reduce((a, b) => a + b, 0) / jobAdjustments.length
+      );
+    }
+  }
+  
+  // Learn regional adjustment
+  if (zipcode) {
+    const regionAdjustments = history
+      .filter(a => (a.data as { zipcode?: string }).zipcode === zipcode)
+      .map(a => (a.data as { adjustmentPercent?: number }).adjustmentPercent)
+      .filter((a): a is number => a !== undefined);
+    
+    if (regionAdjustments.length >= MIN_ACTIONS_FOR_PATTERN) {
+      prefs.byRegion[zipcode] = Math.round(
+        regionAdjustments.reduce((a, b) => a + b, 0) / regionAdjustments.length
+      );
+    }
+  }
+}
+
+/**
+ * Learn scope addition patterns
+ */
+function learnScopeAddPattern(profile: UserProfile, action: ActionEvent, actions: ActionEvent[]): void {
+  const { scopeItem, jobTypeId } = action.data as {
+    scopeItem?: string;
+    jobTypeId?: string;
+  };
+  
+  if (!scopeItem) return;
+  
+  const prefs = profile.preferences.scope;
+  const history = actions
+    .filter(a => a.type === 'scope_add');
+  
+  // Count how often this item is added
+  const itemCount = history.filter(
+    a => (a.data as { scopeItem?: string }).scopeItem?.toLowerCase() === scopeItem.toLowerCase()
+  ).length;
+  
+  // If added consistently, mark as "always add"
+  if (itemCount >= HIGH_CONFIDENCE_THRESHOLD) {
+    if (!prefs.alwaysAdd.includes(scopeItem)) {
+      prefs.alwaysAdd.push(scopeItem);
+    }
+  }
+  
+  // Learn job-type specific additions
+  if (jobTypeId) {
+    const jobItems = history
+      .filter(a => (a.data as { jobTypeId?: string }).jobTypeId === jobTypeId)
+      .map(a => (a.data as { scopeItem?: string }).scopeItem)
+      .filter((s): s is string => !!s);
+    
+    // Count occurrences
+    const counts: Record<string, number> = {};
+    for (const item of jobItems) {
+      counts[item] = (counts[item] || 0) + 1;
+    }
+    
+    // Items added 70%+ of the time for this job type
+    const totalJobProposals = new Set(
+      history
+        .filter(a => (a.data as { jobTypeId?: string }).jobTypeId === jobTypeId)
+        .map(a => (a.context as { proposalId?: string }).proposalId)
+    ).size;
+    
+    if (totalJobProposals >= MIN_ACTIONS_FOR_PATTERN) {
+      prefs.addByJobType[jobTypeId] = Object.entries(counts)
+        .filter(([, count]) => count / totalJobProposals >= PATTERN_THRESHOLD)
+        .map(([item]) => item);
+    }
+  }
+  
+  prefs.confidence = Math.min(100, history.length * 5);
+}
+
+/**
+ * Learn scope removal patterns
+ */
+function learnScopeRemovePattern(profile: UserProfile, action: ActionEvent, actions: ActionEvent[]): void {
+  const { scopeItem, jobTypeId } = action.data as {
+    scopeItem?: string;
+    jobTypeId?: string;
+  };
+  
+  if (!scopeItem) return;
+  
+  const prefs = profile.preferences.scope;
+  const history = actions
+    .filter(a => a.type === 'scope_remove');
+  
+  // Count how often this item is removed
+  const itemCount = history.filter(
+    a => (a.data as { scopeItem?: string }).scopeItem?.toLowerCase() === scopeItem.toLowerCase()
+  ).length;
+  
+  // If removed consistently, mark as "always remove"
+  if (itemCount >= HIGH_CONFIDENCE_THRESHOLD) {
+    if (!prefs.alwaysRemove.includes(scopeItem)) {
+      prefs.alwaysRemove.push(scopeItem);
+    }
+  }
+  
+  // Learn job-type specific removals
+  if (jobTypeId) {
+    const jobItems = history
+      .filter(a => (a.data as { jobTypeId?: string }).jobTypeId === jobTypeId)
+      .map(a => (a.data as { scopeItem?: string }).scopeItem)
+      .filter((s): s is string => !!s);
+    
+    const counts: Record<string, number> = {};
+    for (const item of jobItems) {
+      counts[item] = (counts[item] || 0) + 1;
+    }
+    
+    const totalJobProposals = new Set(
+      history
+        .filter(a => (a.data as { jobTypeId?: string }).jobTypeId === jobTypeId)
+        .map(a => (a.context as { proposalId?: string }).proposalId)
+    ).size;
+    
+    if (totalJobProposals >= MIN_ACTIONS_FOR_PATTERN) {
+      prefs.removeByJobType[jobTypeId] = Object.entries(counts)
+        .filter(([, count]) => count / totalJobProposals >= PATTERN_THRESHOLD)
+        .map(([item]) => item);
+    }
+  }
+}
+
+/**
+ * Learn photo categorization patterns
+ */
+function learnPhotoPattern(profile: UserProfile, action: ActionEvent, actions: ActionEvent[]): void {
+  const { photoOrder, category, caption } = action.data as {
+    photoOrder?: number;
+    category?: string;
+    caption?: string;
+  };
+  
+  if (!photoOrder || !category) return;
+  
+  const prefs = profile.preferences.photos;
+  const history = actions
+    .filter(a => a.type === 'photo_categorize');
+  
+  // Learn category by position
+  const positionCategories = history
+    .filter(a => (a.data as { photoOrder?: number }).photoOrder === photoOrder)
+    .map(a => (a.data as { category?: string }).category)
+    .filter((c): c is string => !!c);
+  
+  if (positionCategories.length >= MIN_ACTIONS_FOR_PATTERN) {
+    // Find most common category for this position
+    const counts: Record<string, number> = {};
+    for (const cat of positionCategories) {
+      counts[cat] = (counts[cat] || 0) + 1;
+    }
+    
+    const [topCategory, topCount] = Object.entries(counts)
+      .sort(([, a], [, b]) => b - a)[0];
+    
+    if (topCount / positionCategories.length >= PATTERN_THRESHOLD) {
+      prefs.categoryByPosition[photoOrder] = topCategory;
+    }
+  }
+  
+  // Learn common captions by category
+  if (caption && caption.length > 5) {
+    if (!prefs.captionsByCategory[category]) {
+      prefs.captionsByCategory[category] = [];
+    }
+    
+    const captions = prefs.captionsByCategory[category];
+    if (!captions.includes(caption) && captions.length < 10) {
+      captions.push(caption);
+    }
+  }
+  
+  prefs.confidence = Math.min(100, history.length * 5);
+}
+
+/**
+ * Learn workflow patterns
+ */
+function learnWorkflowPattern(profile: UserProfile, actions: ActionEvent[]): void {
+  // Processes ALL recent workflow actions, not just the current one
+  const prefs = profile.preferences.workflow;
+  const history = actions
+    .filter(a => a.type === 'proposal_create');
+  
+  // Learn common job types
+  const jobTypes = history
+    .map(a => (a.data as { jobTypeId?: string }).jobTypeId)
+    .filter((j): j is string => !!j);
+  
+  const jobCounts: Record<string, number> = {};
+  for (const job of jobTypes) {
+    jobCounts[job] = (jobCounts[job] || 0) + 1;
+  }
+  
+  prefs.commonJobTypes = Object.entries(jobCounts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 5)
+    .map(([job]) => job);
+  
+  // Learn common areas
+  const areas = history
+    .map(a => (a.data as { zipcode?: string }).zipcode)
+    .filter((z): z is string => !!z);
+  
+  const areaCounts: Record<string, number> = {};
+  for (const area of areas) {
+    areaCounts[area] = (areaCounts[area] || 0) + 1;
+  }
+  
+  prefs.commonAreas = Object.entries(areaCounts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 10)
+    .map(([area]) => area);
+  
+  // Learn averages
+  const photoCounts = history
+    .map(a => (a.data as { photoCount?: number }).photoCount)
+    .filter((p): p is number => p !== undefined);
+  
+  if (photoCounts.length > 0) {
+    prefs.avgPhotoCount = Math.round(
+      photoCounts.reduce((a, b) => a + b, 0) / photoCounts.length
+    );
+  }
+  
+  const scopeCounts = history
+    .map(a => (a.data as { scopeCount?: number }).scopeCount)
+    .filter((s): s is number => s !== undefined);
+  
+  if (scopeCounts.length > 0) {
+    prefs.avgScopeItems = Math.round(
+      scopeCounts.reduce((a, b) => a + b, 0) / scopeCounts.length
+    );
+  }
+}
+
+// ==========================================
+// Apply Learned Preferences
+// ==========================================
+
+/**
+ * Get pricing adjustment based on learned preferences
+ */
+export function learnedPricingAdjustment(
+  profile: UserProfile,
+  jobTypeId?: string,
+  zipcode?: string
+): { adjustment: number; confidence: number } | null {
+  // Only apply if adapted (7+ days)
+  if (!profile.isAdapted) {
+    return null;
+  }
+  
+  const prefs = profile.preferences.pricing;
+  
+  // Try job-type specific first
+  if (jobTypeId && prefs.byJobType[jobTypeId] !== undefined) {
+    return {
+      adjustment: prefs.byJobType[jobTypeId],
+      confidence: prefs.confidence,
+    };
+  }
+  
+  // Try regional adjustment
+  if (zipcode && prefs.byRegion[zipcode] !== undefined) {
+    return {
+      adjustment: prefs.byRegion[zipcode],
+      confidence: prefs.confidence,
+    };
+  }
+  
+  // Fall back to default
+  if (prefs.confidence >= 30) {
+    return {
+      adjustment: prefs.defaultAdjustment,
+      confidence: prefs.confidence,
+    };
+  }
+  
+  return null;
+}
+
+/**
+ * Get scope modifications based on learned preferences
+ */
+export function learnedScopeModifications(
+  profile: UserProfile,
+  currentScope: string[],
+  jobTypeId?: string
+): { add: string[]; remove: string[] } | null {
+  // Only apply if adapted
+  if (!profile.isAdapted) {
+    return null;
+  }
+  
+  const prefs = profile.preferences.scope;
+  const scopeLower = new Set(currentScope.map(s => s.toLowerCase()));
+  
+  const add: string[] = [];
+  const remove: string[] = [];
+  
+  // Always-add items
+  for (const item of prefs.alwaysAdd) {
+    if (!scopeLower.has(item.toLowerCase())) {
+      add.push(item);
+    }
+  }
+  
+  // Job-type specific additions
+  if (jobTypeId && prefs.addByJobType[jobTypeId]) {
+    for (const item of prefs.addByJobType[jobTypeId]) {
+      if (!scopeLower.has(item.toLowerCase()) && !add.includes(item)) {
+        add.push(item);
+      }
+    }
+  }
+  
+  // Always-remove items (just flag, don't auto-remove)
+  for (const item of prefs.alwaysRemove) {
+    if (scopeLower.has(item.toLowerCase())) {
+      remove.push(item);
+    }
+  }
+  
+  // Job-type specific removals
+  if (jobTypeId && prefs.removeByJobType[jobTypeId]) {
+    for (const item of prefs.removeByJobType[jobTypeId]) {
+      if (scopeLower.has(item.toLowerCase()) && !remove.includes(item)) {
+        remove.push(item);
+      }
+    }
+  }
+  
+  if (add.length === 0 && remove.length === 0) {
+    return null;
+  }
+  
+  return { add, remove };
+}
+
+/**
+ * Get photo category based on learned preferences
+ */
+export function learnedPhotoCategory(
+  profile: UserProfile,
+  photoOrder: number
+): { category: string; confidence: number } | null {
+  // Only apply if adapted
+  if (!profile.isAdapted) {
+    return null;
+  }
+  
+  const prefs = profile.preferences.photos;
+  
+  if (prefs.categoryByPosition[photoOrder]) {
+    return {
+      category: prefs.categoryByPosition[photoOrder],
+      confidence: prefs.confidence,
+    };
+  }
+  
+  return null;
+}
+
+/**
+ * Get learned captions for a category
+ */
+export function learnedCaptions(
+  profile: UserProfile,
+  category: string
+): string[] {
+  return profile.preferences.photos.captionsByCategory[category] || [];
+}
+
+/**
+ * Get learning progress
+ */
+export function learningProgress(profile: UserProfile): {
+  daysActive: number;
+  daysRemaining: number;
+  actionsRecorded: number;
+  isComplete: boolean;
+  confidence: number;
+} {
+  return {
+    daysActive: profile.daysActive,
+    daysRemaining: Math.max(0, LEARNING_PERIOD_DAYS - profile.daysActive),
+    actionsRecorded: profile.totalActions,
+    isComplete: profile.isAdapted,
+    confidence: profile.confidence,
+  };
+}
+
+
+// ==========================================
+// Merging Profiles
+// ==========================================
+
+/** Case-insensitive union, keeping the first spelling seen */
+function unionItems(primary: string[], secondary: string[], limit?: number): string[] {
+  const seen = new Set(primary.map(item => item.toLowerCase()));
+  const merged = [...primary];
+  for (const item of secondary) {
+    if (!seen.has(item.toLowerCase())) {
+      seen.add(item.toLowerCase());
+      merged.push(item);
+    }
+  }
+  return limit === undefined ? merged : merged.slice(0, limit);
+}
+
+function unionItemsByKey(
+  primary: Record<string, string[]>,
+  secondary: Record<string, string[]>,
+  limit?: number
+): Record<string, string[]> {
+  const merged: Record<string, string[]> = { ...primary };
+  for (const [key, items] of Object.entries(secondary)) {
+    merged[key] = unionItems(merged[key] ?? [], items, limit);
+  }
+  return merged;
+}
+
+/**
+ * Merge a profile learned on one device (localStorage, before profiles were
+ * stored server-side) into the stored one. Learned values already on the
+ * server win; the local profile fills gaps, extends item lists and adds its
+ * actions to the totals. Confidence-weighted where both sides have a value.
+ */
+export function mergeProfiles(
+  server: UserProfile,
+  local: Pick<UserProfile, 'firstSeen' | 'totalActions' | 'preferences'>
+): UserProfile {
+  const s = server.preferences;
+  const l = local.preferences;
+
+  const pricingWeight = s.pricing.confidence + l.pricing.confidence;
+  const defaultAdjustment = pricingWeight > 0
+    ? Math.round(
+      (s.pricing.defaultAdjustment * s.pricing.confidence + l.pricing.defaultAdjustment * l.pricing.confidence)
+        / pricingWeight
+    )
+    : s.pricing.defaultAdjustment;
+
+  const merged: UserProfile = {
+    ...server,
+    firstSeen: new Date(Math.min(server.firstSeen.getTime(), new Date(local.firstSeen).getTime())),
+    totalActions: server.totalActions + local.totalActions,
+    preferences: {
+      pricing: {
+        defaultAdjustment,
+        byJobType: { ...l.pricing.byJobType, ...s.pricing.byJobType },
+        byRegion: { ...l.pricing.byRegion, ...s.pricing.byRegion },
+        confidence: Math.max(s.pricing.confidence, l.pricing.confidence),
+      },
+      scope: {
+        alwaysAdd: unionItems(s.scope.alwaysAdd, l.scope.alwaysAdd),
+        alwaysRemove: unionItems(s.scope.alwaysRemove, l.scope.alwaysRemove),
+        addByJobType: unionItemsByKey(s.scope.addByJobType, l.scope.addByJobType),
+        removeByJobType: unionItemsByKey(s.scope.removeByJobType, l.scope.removeByJobType),
+        confidence: Math.max(s.scope.confidence, l.scope.confidence),
+      },
+      photos: {
+        categoryByPosition: { ...l.photos.categoryByPosition, ...s.photos.categoryByPosition },
+        captionsByCategory: unionItemsByKey(s.photos.captionsByCategory, l.photos.captionsByCategory, 10),
+        confidence: Math.max(s.photos.confidence, l.photos.confidence),
+      },
+      workflow: {
+        commonJobTypes: unionItems(s.workflow.commonJobTypes, l.workflow.commonJobTypes, 5),
+        commonAreas: unionItems(s.workflow.commonAreas, l.workflow.commonAreas, 10),
+        avgPhotoCount: s.workflow.avgPhotoCount || l.workflow.avgPhotoCount,
+        avgScopeItems: s.workflow.avgScopeItems || l.workflow.avgScopeItems,
+      },
+    },
+  };
+
+  return updateProfileStatus(merged);
+}
+
+// ==========================================
+// Sync Payloads
+// ==========================================
+
+/** Actions kept for pattern learning (matches the old local history) */
+export const ACTION_HISTORY_DAYS = 30;
+export const ACTION_HISTORY_LIMIT = 500;
+
+/** Actions sent per trackAction batch */
+export const MAX_ACTIONS_PER_BATCH = 50;
+
+export const adaptiveActionTypes = [
+  'price_adjust',
+  'scope_add',
+  'scope_remove',
+  'scope_edit',
+  'photo_categorize',
+  'proposal_create',
+] as const;
+
+export type AdaptiveActionType = typeof adaptiveActionTypes[number];
+
+const shortString = z.string().max(500);
+const jsonRecord = z.record(z.string(), z.unknown());
+const numberRecord = z.record(shortString, z.number());
+const itemListRecord = z.record(shortString, z.array(shortString).max(200));
+
+export const adaptiveActionSchema = z.object({
+  type: z.enum(adaptiveActionTypes),
+  timestamp: z.coerce.date(),
+  context: jsonRecord.default({}),
+  data: jsonRecord.default({}),
+});
+
+export const adaptiveActionBatchSchema = z.object({
+  actions: z.array(adaptiveActionSchema).min(1).max(MAX_ACTIONS_PER_BATCH),
+});
+
+export const learnedPreferencesSchema = z.object({
+  pricing: z.object({
+    defaultAdjustment: z.number(),
+    byJobType: numberRecord,
+    byRegion: numberRecord,
+    confidence: z.number().min(0).max(100),
+  }),
+  scope: z.object({
+    alwaysAdd: z.array(shortString).max(200),
+    alwaysRemove: z.array(shortString).max(200),
+    addByJobType: itemListRecord,
+    removeByJobType: itemListRecord,
+    confidence: z.number().min(0).max(100),
+  }),
+  photos: z.object({
+    categoryByPosition: z.record(shortString, shortString),
+    captionsByCategory: itemListRecord,
+    confidence: z.number().min(0).max(100),
+  }),
+  workflow: z.object({
+    commonJobTypes: z.array(shortString).max(50),
+    commonAreas: z.array(shortString).max(50),
+    avgPhotoCount: z.number(),
+    avgScopeItems: z.number(),
+  }),
+});
+
+/** First sync from a device: its localStorage profile and action history */
+export const profileMergeSchema = z.object({
+  // Identifies the device so a retried merge is applied once
+  sourceId: z.string().min(8).max(100),
+  profile: z.object({
+    firstSeen: z.coerce.date(),
+    totalActions: z.number().int().min(0),
+    preferences: learnedPreferencesSchema,
+  }),
+  actions: z.array(adaptiveActionSchema).max(ACTION_HISTORY_LIMIT).default([]),
+});
+
+export type ProfileMerge = z.infer<typeof profileMergeSchema>;
+
+/** Keep client-reported action times inside the learning window */
+export function clampActionTime(timestamp: Date, now: Date = new Date()): Date {
+  const earliest = now.getTime() - ACTION_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+  const time = timestamp.getTime();
+  if (Number.isNaN(time)) return now;
+  return new Date(Math.min(now.getTime(), Math.max(earliest, time)));
+}
+
+/** Restore dates on a profile that went through JSON */
+export function reviveProfile(profile: UserProfile): UserProfile {
+  return {
+    ...profile,
+    firstSeen: new Date(profile.firstSeen),
+    updatedAt: new Date(profile.updatedAt),
+  };
+}
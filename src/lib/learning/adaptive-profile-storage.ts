@@ -0,0 +1,254 @@
+/**
+ * Adaptive Profile Storage
+ *
+ * Persists each user's adaptive profile in user_learned_preferences (one row
+ * per preference category) and learns from their actions in user_action_log,
+ * so desktop and mobile share one profile.
+ *
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "../../../lib/db";
+import { userActionLog, userLearnedPreferences } from "../../../shared/schema";
+import { and, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import {
+  ACTION_HISTORY_DAYS,
+  ACTION_HISTORY_LIMIT,
+  adaptiveActionTypes,
+  clampActionTime,
+  createEmptyProfile,
+  learnFromAction,
+  mergeProfiles,
+  updateProfileStatus,
+  type ActionEvent,
+  type LearnedPreferences,
+  type ProfileMerge,
+  type UserProfile,
+} from "./adaptive-learning";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const PREFERENCE_KEY = 'adaptive_profile';
+
+// Rows making up one profile: a summary row plus one per preference area
+const PROFILE_CATEGORY = 'profile';
+const preferenceCategories = {
+  pricing: 'pricing',
+  scope: 'scope',
+  photos: 'photo',
+  workflow: 'workflow',
+} as const satisfies Record<keyof LearnedPreferences, string>;
+
+interface ProfileSummary {
+  firstSeen: string;
+  totalActions: number;
+  // Devices whose local profile has been merged in
+  mergedSources: string[];
+}
+
+interface StoredProfile {
+  profile: UserProfile;
+  mergedSources: string[];
+}
+
+// ============ PROFILE ROWS ============
+
+async function lockProfile(tx: Tx, userId: string) {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`adaptive-profile:${userId}`}))`);
+}
+
+async function readProfile(executor: Tx | typeof db, userId: string): Promise<StoredProfile | null> {
+  const rows = await executor
+    .select()
+    .from(userLearnedPreferences)
+    .where(and(
+      eq(userLearnedPreferences.userId, userId),
+      eq(userLearnedPreferences.preferenceKey, PREFERENCE_KEY),
+    ));
+
+  const summaryRow = rows.find(row => row.category === PROFILE_CATEGORY);
+  if (!summaryRow) return null;
+
+  const summary = summaryRow.preferenceValue as ProfileSummary;
+  const profile = createEmptyProfile(userId, new Date(summary.firstSeen));
+  profile.totalActions = summary.totalActions;
+  profile.updatedAt = summaryRow.updatedAt ?? new Date();
+
+  for (const [area, category] of Object.entries(preferenceCategories) as [keyof LearnedPreferences, string][]) {
+    const row = rows.find(r => r.category === category);
+    if (row) {
+      // Spread over the defaults so areas added later get their empty values
+      Object.assign(profile.preferences[area], row.preferenceValue as object);
+    }
+  }
+
+  return { profile: updateProfileStatus(profile), mergedSources: summary.mergedSources ?? [] };
+}
+
+async function writeProfile(tx: Tx, profile: UserProfile, mergedSources: string[]) {
+  const now = new Date();
+  const summary: ProfileSummary = {
+    firstSeen: profile.firstSeen.toISOString(),
+    totalActions: profile.totalActions,
+    mergedSources,
+  };
+
+  await tx
+    .delete(userLearnedPreferences)
+    .where(and(
+      eq(userLearnedPreferences.userId, profile.userId),
+      eq(userLearnedPreferences.preferenceKey, PREFERENCE_KEY),
+    ));
+
+  await tx.insert(userLearnedPreferences).values([
+    {
+      userId: profile.userId,
+      category: PROFILE_CATEGORY,
+      preferenceKey: PREFERENCE_KEY,
+      preferenceValue: summary,
+      confidence: profile.confidence,
+      sampleCount: profile.totalActions,
+      updatedAt: now,
+    },
+    ...(Object.entries(preferenceCategories) as [keyof LearnedPreferences, string][]).map(([area, category]) => ({
+      userId: profile.userId,
+      category,
+      preferenceKey: PREFERENCE_KEY,
+      preferenceValue: profile.preferences[area],
+      confidence: 'confidence' in profile.preferences[area]
+        ? (profile.preferences[area] as { confidence: number }).confidence
+        : 0,
+      sampleCount: profile.totalActions,
+      updatedAt: now,
+    })),
+  ]);
+
+  profile.updatedAt = now;
+}
+
+// ============ ACTIONS ============
+
+async function insertActions(tx: Tx, userId: string, actions: ActionEvent[], now: Date) {
+  if (actions.length === 0) return;
+
+  await tx.insert(userActionLog).values(actions.map(action => {
+    const context = action.context as { proposalId?: unknown; tradeId?: unknown; jobTypeId?: unknown; zipcode?: unknown };
+    const data = action.data as { jobTypeId?: unknown; zipcode?: unknown };
+    const text = (value: unknown, max: number) => typeof value === 'string' && value ? value.slice(0, max) : null;
+
+    return {
+      userId,
+      actionType: action.type,
+      tradeId: text(context.tradeId, 50),
+      jobTypeId: text(data.jobTypeId ?? context.jobTypeId, 50),
+      zipcode: text(data.zipcode ?? context.zipcode, 10),
+      // Client-side proposal keys are not proposal ids; keep them for grouping
+      payload: { ...action.data, proposalKey: context.proposalId ?? null },
+      createdAt: clampActionTime(new Date(action.timestamp), now),
+    };
+  }));
+}
+
+/** The user's recent actions, oldest first, as the learning engine sees them */
+async function loadActionHistory(tx: Tx, userId: string, now: Date): Promise<ActionEvent[]> {
+  const since = new Date(now.getTime() - ACTION_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const rows = await tx
+    .select({
+      actionType: userActionLog.actionType,
+      proposalId: userActionLog.proposalId,
+      tradeId: userActionLog.tradeId,
+      jobTypeId: userActionLog.jobTypeId,
+      zipcode: userActionLog.zipcode,
+      payload: userActionLog.payload,
+      createdAt: userActionLog.createdAt,
+    })
+    .from(userActionLog)
+    .where(and(
+      eq(userActionLog.userId, userId),
+      inArray(userActionLog.actionType, [...adaptiveActionTypes]),
+      gte(userActionLog.createdAt, since),
+    ))
+    .orderBy(desc(userActionLog.createdAt), desc(userActionLog.id))
+    .limit(ACTION_HISTORY_LIMIT);
+
+  return rows.reverse().map(row => {
+    const payload = row.payload ?? {};
+    return {
+      type: row.actionType,
+      timestamp: row.createdAt ?? now,
+      context: {
+        proposalId: payload.proposalKey ?? row.proposalId ?? undefined,
+        tradeId: row.tradeId ?? undefined,
+      },
+      // Actions logged by the learning-service routes carry context in columns
+      data: {
+        ...payload,
+        jobTypeId: payload.jobTypeId ?? row.jobTypeId ?? undefined,
+        zipcode: payload.zipcode ?? row.zipcode ?? undefined,
+      },
+    };
+  });
+}
+
+// ============ PUBLIC API ============
+
+/**
+ * The user's adaptive profile, or an empty one (not yet stored) for users
+ * without any synced actions.
+ */
+export async function getAdaptiveProfile(userId: string): Promise<UserProfile> {
+  const stored = await readProfile(db, userId);
+  return stored?.profile ?? updateProfileStatus(createEmptyProfile(userId));
+}
+
+/**
+ * Record a batch of tracked actions and learn from each, in order.
+ */
+export async function recordAdaptiveActions(userId: string, actions: ActionEvent[]): Promise<UserProfile> {
+  return await db.transaction(async (tx) => {
+    await lockProfile(tx, userId);
+    const now = new Date();
+
+    const stored = await readProfile(tx, userId);
+    const profile = stored?.profile ?? createEmptyProfile(userId, now);
+
+    await insertActions(tx, userId, actions, now);
+    const history = await loadActionHistory(tx, userId, now);
+
+    for (const action of actions) {
+      profile.totalActions++;
+      learnFromAction(profile, action, history);
+    }
+
+    updateProfileStatus(profile, now);
+    await writeProfile(tx, profile, stored?.mergedSources ?? []);
+    return profile;
+  });
+}
+
+/**
+ * Merge a device's localStorage profile and action history into the stored
+ * profile. Each device (sourceId) is merged once; repeats return the stored
+ * profile with `merged: false`.
+ */
+export async function mergeLocalAdaptiveProfile(
+  userId: string,
+  local: ProfileMerge
+): Promise<{ profile: UserProfile; merged: boolean }> {
+  return await db.transaction(async (tx) => {
+    await lockProfile(tx, userId);
+    const now = new Date();
+
+    const stored = await readProfile(tx, userId);
+    if (stored?.mergedSources.includes(local.sourceId)) {
+      return { profile: stored.profile, merged: false };
+    }
+
+    await insertActions(tx, userId, local.actions, now);
+
+    const base = stored?.profile ?? createEmptyProfile(userId, now);
+    const profile = mergeProfiles(base, local.profile);
+    await writeProfile(tx, profile, [...(stored?.mergedSources ?? []), local.sourceId]);
+    return { profile, merged: true };
+  });
+}
@@ -0,0 +1,316 @@
+/**
+ * Learning Aggregation Pipeline Database Tests
+ *
+ * Runs the aggregation pipeline against a seeded Postgres: watermarks, geography
+ * enrichment, scope outcome correlation, area pricing aggregates and
+ * state/city/ZIP patterns. Tables are created in a throwaway schema.
+ *
+ * Needs TEST_DATABASE_URL (any Postgres you can create schemas in); skipped
+ * without it.
+ * Run with: TEST_DATABASE_URL=postgres://... npx tsx src/lib/learning/aggregation-pipeline.db.test.ts
+ */
+
+import { sql } from 'drizzle-orm';
+import { db } from '../../../lib/db';
+import { runLearningAggregation } from './aggregation-pipeline';
+
+const TEST_SCHEMA = 'learning_aggregation_test';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+async function rows<T>(query: ReturnType<typeof sql>): Promise<T[]> {
+  const result = await db.execute(query);
+  return result.rows as T[];
+}
+
+// Only the columns the pipeline reads from the log and proposals; the pattern
+// tables it writes mirror shared/schema.ts in full
+async function createTables() {
+  await db.execute(sql.raw(`
+    CREATE TABLE proposals (
+      id integer PRIMARY KEY,
+      address text NOT NULL,
+      trade_id varchar NOT NULL,
+      job_type_id varchar NOT NULL,
+      scope text[] NOT NULL
+    );
+    CREATE TABLE user_action_log (
+      id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+      user_id varchar NOT NULL,
+      action_type varchar(50) NOT NULL,
+      proposal_id integer,
+      trade_id varchar(50),
+      job_type_id varchar(50),
+      zipcode varchar(10),
+      city varchar(100),
+      state varchar(50),
+      neighborhood varchar(100),
+      payload jsonb,
+      outcome_type varchar(20),
+      outcome_value integer,
+      created_at timestamp DEFAULT now()
+    );
+    CREATE TABLE scope_item_patterns (
+      id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+      trade_id varchar(50) NOT NULL,
+      job_type_id varchar(50) NOT NULL,
+      zipcode varchar(10),
+      scope_item text NOT NULL,
+      added_count integer NOT NULL DEFAULT 0,
+      removed_count integer NOT NULL DEFAULT 0,
+      modified_count integer NOT NULL DEFAULT 0,
+      is_from_template boolean NOT NULL DEFAULT false,
+      won_with_item integer NOT NULL DEFAULT 0,
+      lost_with_item integer NOT NULL DEFAULT 0,
+      updated_at timestamp DEFAULT now(),
+      created_at timestamp DEFAULT now()
+    );
+    CREATE TABLE pricing_patterns (
+      id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+      user_id varchar,
+      trade_id varchar(50) NOT NULL,
+      job_type_id varchar(50) NOT NULL,
+      job_size integer,
+      zipcode varchar(10),
+      suggested_price_low integer,
+      suggested_price_high integer,
+      final_price_low integer,
+      final_price_high integer,
+      adjustment_percent integer,
+      outcome varchar(20),
+      sample_count integer NOT NULL DEFAULT 1,
+      avg_adjustment_percent integer,
+      win_rate integer,
+      created_at timestamp DEFAULT now()
+    );
+    CREATE TABLE geographic_patterns (
+      id integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+      geo_level varchar(20) NOT NULL,
+      geo_value varchar(100) NOT NULL,
+      parent_geo_value varchar(100),
+      trade_id varchar(50),
+      job_type_id varchar(50),
+      pattern_type varchar(50) NOT NULL,
+      pattern_value jsonb NOT NULL,
+      sample_count integer NOT NULL DEFAULT 0,
+      confidence integer NOT NULL DEFAULT 0,
+      last_calculated_at timestamp DEFAULT now(),
+      created_at timestamp DEFAULT now()
+    );
+    CREATE TABLE learning_aggregation_state (
+      pipeline varchar(50) PRIMARY KEY,
+      last_action_id integer NOT NULL DEFAULT 0,
+      last_run_at timestamp,
+      updated_at timestamp NOT NULL DEFAULT now()
+    );
+  `));
+}
+
+async function seed() {
+  await db.execute(sql.raw(`
+    INSERT INTO proposals (id, address, trade_id, job_type_id, scope) VALUES
+      (1, '12 Oak St, Austin, TX 78701', 'plumbing', 'toilet-install', ARRAY['Wax ring', 'Supply line']),
+      (2, '9 Elm St, Dallas, TX 75201', 'plumbing', 'toilet-install', ARRAY['Wax ring']);
+
+    -- Pattern built up live by recordScopeAction
+    INSERT INTO scope_item_patterns (trade_id, job_type_id, zipcode, scope_item, added_count)
+      VALUES ('plumbing', 'toilet-install', NULL, 'Wax ring', 6);
+
+    -- Raw per-user pricing row; aggregation must leave it alone
+    INSERT INTO pricing_patterns (user_id, trade_id, job_type_id, job_size, zipcode, adjustment_percent)
+      VALUES ('user-1', 'plumbing', 'toilet-install', 2, '78701', 10);
+
+    INSERT INTO user_action_log
+      (user_id, action_type, proposal_id, trade_id, job_type_id, zipcode, city, state, payload, outcome_type, outcome_value, created_at)
+    VALUES
+      ('user-1', 'price_adjust', 1, 'plumbing', 'toilet-install', '78701', 'Austin', 'TX',
+        '{"adjustmentPercent": 10, "jobSize": 2}', 'won', 1200, now() - interval '2 hours'),
+      ('user-1', 'scope_add', 1, 'plumbing', 'toilet-install', '78701', 'Austin', 'TX',
+        '{"scopeItem": "Wax ring"}', 'won', 1200, now() - interval '2 hours'),
+      ('user-2', 'price_adjust', 2, 'plumbing', 'toilet-install', '75201', 'Dallas', 'TX',
+        '{"adjustmentPercent": 20, "jobSize": 2}', 'lost', NULL, now() - interval '2 hours'),
+      ('user-1', 'proposal_won', 1, 'plumbing', 'toilet-install', NULL, NULL, NULL,
+        '{"finalValue": 1200}', 'won', 1200, now() - interval '1 hour'),
+      ('user-2', 'proposal_lost', 2, 'plumbing', 'toilet-install', NULL, NULL, NULL,
+        '{}', 'lost', NULL, now() - interval '1 hour');
+  `));
+}
+
+interface ScopeRow { scope_item: string; zipcode: string | null; won_with_item: number; lost_with_item: number }
+interface GeoRow { geo_level: string; geo_value: string; parent_geo_value: string | null; pattern_type: string; pattern_value: unknown; sample_count: number }
+
+async function scopeRows() {
+  return rows<ScopeRow>(sql`
+    SELECT scope_item, zipcode, won_with_item, lost_with_item FROM scope_item_patterns ORDER BY scope_item
+  `);
+}
+
+async function geoPattern(level: string, value: string, type: string) {
+  const [row] = await rows<GeoRow>(sql`
+    SELECT * FROM geographic_patterns
+    WHERE geo_level = ${level} AND geo_value = ${value} AND pattern_type = ${type} AND trade_id = 'plumbing'
+  `);
+  return row;
+}
+
+// ============ TESTS ============
+
+async function testFirstRun() {
+  console.log('\n--- first run ---');
+  const result = await runLearningAggregation({ batchSize: 2 });
+  assertEqual(result.processed, 5, 'processes every settled action across batches');
+  assertEqual(result.lastActionId, 5, 'reports the new watermark');
+
+  const [state] = await rows<{ last_action_id: number }>(sql`SELECT last_action_id FROM learning_aggregation_state`);
+  assertEqual(state?.last_action_id, 5, 'stores the watermark');
+
+  const [won] = await rows<{ zipcode: string; city: string; state: string }>(sql`
+    SELECT zipcode, city, state FROM user_action_log WHERE action_type = 'proposal_won'
+  `);
+  assertEqual(won, { zipcode: '78701', city: 'Austin', state: 'TX' }, 'fills outcome geography from the proposal address');
+
+  assertEqual(
+    await scopeRows(),
+    [
+      { scope_item: 'Supply line', zipcode: null, won_with_item: 1, lost_with_item: 0 },
+      { scope_item: 'Wax ring', zipcode: null, won_with_item: 1, lost_with_item: 1 },
+    ],
+    'correlates won/lost outcomes with scope items'
+  );
+
+  const pricing = await rows<{ zipcode: string; sample_count: number; avg_adjustment_percent: number; win_rate: number }>(sql`
+    SELECT zipcode, sample_count, avg_adjustment_percent, win_rate FROM pricing_patterns
+    WHERE user_id IS NULL ORDER BY zipcode
+  `);
+  assertEqual(
+    pricing,
+    [
+      { zipcode: '75201', sample_count: 1, avg_adjustment_percent: 20, win_rate: 0 },
+      { zipcode: '78701', sample_count: 1, avg_adjustment_percent: 10, win_rate: 100 },
+    ],
+    'writes one area aggregate per ZIP'
+  );
+  const [raw] = await rows<{ total: number }>(sql`SELECT count(*)::int AS total FROM pricing_patterns WHERE user_id IS NOT NULL`);
+  assertEqual(raw?.total, 1, 'keeps per-user pricing rows');
+
+  assertEqual((await geoPattern('state', 'TX', 'win_rate'))?.pattern_value, 50, 'state win rate');
+  assertEqual((await geoPattern('state', 'TX', 'win_rate'))?.sample_count, 2, 'state win rate sample count');
+  assertEqual((await geoPattern('city', 'Austin', 'win_rate'))?.parent_geo_value, 'TX', 'city patterns sit under their state');
+  assertEqual((await geoPattern('city', 'Dallas', 'win_rate'))?.pattern_value, 0, 'city win rate');
+  assertEqual((await geoPattern('zipcode', '78701', 'avg_price'))?.pattern_value, 1200, 'ZIP average won price');
+  assertEqual((await geoPattern('zipcode', '78701', 'price_multiplier'))?.pattern_value, 1.1, 'ZIP price multiplier');
+  assertEqual((await geoPattern('zipcode', '78701', 'common_scope_items'))?.pattern_value, ['Wax ring'], 'ZIP common scope items');
+  assertEqual((await geoPattern('zipcode', '75201', 'win_rate'))?.parent_geo_value, 'Dallas', 'ZIP patterns sit under their city');
+}
+
+async function testIdempotentRerun() {
+  console.log('\n--- rerun ---');
+  const [before] = await rows<{ total: number }>(sql`SELECT count(*)::int AS total FROM geographic_patterns`);
+
+  const result = await runLearningAggregation();
+  assertEqual(result.processed, 0, 'nothing new past the watermark');
+  assertEqual(
+    (await scopeRows()).map((row) => [row.won_with_item, row.lost_with_item]),
+    [[1, 0], [1, 1]],
+    'does not count outcomes twice'
+  );
+
+  const [after] = await rows<{ total: number }>(sql`SELECT count(*)::int AS total FROM geographic_patterns`);
+  assertEqual(after?.total, before?.total, 'does not duplicate geographic patterns');
+}
+
+async function testIncrementalRun() {
+  console.log('\n--- incremental run ---');
+  await db.execute(sql.raw(`
+    INSERT INTO user_action_log (user_id, action_type, proposal_id, trade_id, job_type_id, payload, outcome_type, created_at)
+    VALUES
+      ('user-2', 'proposal_won', 2, 'plumbing', 'toilet-install', '{}', 'won', now() - interval '5 minutes'),
+      ('user-3', 'proposal_won', 1, 'plumbing', 'toilet-install', '{}', 'won', now());
+  `));
+
+  const result = await runLearningAggregation();
+  assertEqual(result.processed, 1, 'leaves actions that have not settled for the next run');
+  assertEqual(result.lastActionId, 6, 'advances the watermark to the last settled action');
+  assertEqual(
+    (await scopeRows()).map((row) => [row.scope_item, row.won_with_item, row.lost_with_item]),
+    [['Supply line', 1, 0], ['Wax ring', 2, 1]],
+    'adds only the new outcome'
+  );
+  assertEqual((await geoPattern('state', 'TX', 'win_rate'))?.pattern_value, 67, 'recomputes touched state patterns');
+  assertEqual((await geoPattern('city', 'Dallas', 'win_rate'))?.pattern_value, 50, 'recomputes touched city patterns');
+
+  const [dallas] = await rows<{ total: number }>(sql`
+    SELECT count(*)::int AS total FROM geographic_patterns WHERE geo_value = 'Dallas' AND pattern_type = 'win_rate'
+  `);
+  assertEqual(dallas?.total, 1, 'replaces rather than appends patterns');
+  assert(result.geoPatterns > 0, 'reports written patterns');
+}
+
+// ============ RUN ALL TESTS ============
+
+async function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Learning Aggregation Pipeline Database Tests');
+  console.log('='.repeat(50));
+
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) {
+    console.log('\nTEST_DATABASE_URL is not set - skipping');
+    return;
+  }
+
+  // Every pooled connection resolves tables in the throwaway schema
+  const connection = new URL(url);
+  connection.searchParams.set('options', `-c search_path=${TEST_SCHEMA}`);
+  process.env.DATABASE_URL = connection.toString();
+
+  await db.execute(sql.raw(`DROP SCHEMA IF EXISTS ${TEST_SCHEMA} CASCADE; CREATE SCHEMA ${TEST_SCHEMA};`));
+  try {
+    await createTables();
+    await seed();
+
+    await testFirstRun();
+    await testIdempotentRerun();
+    await testIncrementalRun();
+  } finally {
+    await db.execute(sql.raw(`DROP SCHEMA IF EXISTS ${TEST_SCHEMA} CASCADE`));
+  }
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+}
+
+runAllTests()
+  .then(() => process.exit(failed > 0 ? 1 : 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
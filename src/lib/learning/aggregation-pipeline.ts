@@ -0,0 +1,407 @@
+/**
+ * Learning Aggregation Pipeline
+ *
+ * Folds new user_action_log rows into the pattern tables. Runs nightly as the
+ * learning.aggregate-patterns job (see lib/jobs/handlers.ts).
+ *
+ * Each batch runs in one transaction under an advisory lock and advances a
+ * watermark (learning_aggregation_state), so increments such as scope item
+ * won/lost counts are applied exactly once. Pricing aggregates and geographic
+ * patterns are recomputed from the log for every key a batch touches.
+ *
+ * Server-side only - uses Drizzle ORM.
+ */
+
+import { db } from "../../../lib/db";
+import {
+  userActionLog,
+  proposals,
+  scopeItemPatterns,
+  pricingPatterns,
+  geographicPatterns,
+  learningAggregationState,
+} from "../../../shared/schema";
+import { and, asc, eq, gt, gte, inArray, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import { logger } from "../../../lib/logger";
+import {
+  AGGREGATION_BATCH_SIZE,
+  OUTCOME_ACTION_TYPES,
+  PATTERN_ACTION_TYPES,
+  PATTERN_LOOKBACK_DAYS,
+  computeGeoPatterns,
+  computePricingAggregates,
+  geoKeyId,
+  getGeoKeys,
+  getPricingKey,
+  getScopeOutcomeDeltas,
+  pricingKeyId,
+  resolveActionGeo,
+  type ActionRecord,
+  type GeoKey,
+  type OutcomeProposal,
+  type PricingKey,
+  type ScopeOutcomeDelta,
+} from "./aggregation";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const PIPELINE = 'patterns';
+
+// Actions younger than this are left for the next run: identity ids are handed
+// out before commit, so a slow insert could otherwise land behind the watermark
+const ACTION_SETTLE_SECONDS = 60;
+
+const GEO_PATTERN_TYPES = ['win_rate', 'price_multiplier', 'avg_price', 'common_scope_items'];
+
+export interface AggregationResult {
+  processed: number;
+  lastActionId: number;
+  scopeOutcomes: number;
+  pricingAggregates: number;
+  geoPatterns: number;
+}
+
+const actionColumns = {
+  id: userActionLog.id,
+  actionType: userActionLog.actionType,
+  proposalId: userActionLog.proposalId,
+  tradeId: userActionLog.tradeId,
+  jobTypeId: userActionLog.jobTypeId,
+  zipcode: userActionLog.zipcode,
+  city: userActionLog.city,
+  state: userActionLog.state,
+  payload: userActionLog.payload,
+  outcomeType: userActionLog.outcomeType,
+  outcomeValue: userActionLog.outcomeValue,
+};
+
+function lookbackStart(now: Date): Date {
+  return new Date(now.getTime() - PATTERN_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function isOutcome(action: ActionRecord): boolean {
+  return (OUTCOME_ACTION_TYPES as readonly string[]).includes(action.actionType);
+}
+
+// ============ WATERMARK ============
+
+async function lockWatermark(tx: Tx): Promise<number> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`learning-aggregation:${PIPELINE}`}))`);
+  await tx
+    .insert(learningAggregationState)
+    .values({ pipeline: PIPELINE })
+    .onConflictDoNothing();
+
+  const [state] = await tx
+    .select({ lastActionId: learningAggregationState.lastActionId })
+    .from(learningAggregationState)
+    .where(eq(learningAggregationState.pipeline, PIPELINE));
+  return state.lastActionId;
+}
+
+async function saveWatermark(tx: Tx, lastActionId: number, now: Date) {
+  await tx
+    .update(learningAggregationState)
+    .set({ lastActionId, lastRunAt: now, updatedAt: now })
+    .where(eq(learningAggregationState.pipeline, PIPELINE));
+}
+
+// ============ GEOGRAPHY ============
+
+interface ProposalContext extends OutcomeProposal {
+  address: string;
+}
+
+async function loadProposals(tx: Tx, proposalIds: number[]): Promise<Map<number, ProposalContext>> {
+  if (proposalIds.length === 0) return new Map();
+  const rows = await tx
+    .select({
+      id: proposals.id,
+      address: proposals.address,
+      tradeId: proposals.tradeId,
+      jobTypeId: proposals.jobTypeId,
+      scope: proposals.scope,
+    })
+    .from(proposals)
+    .where(inArray(proposals.id, proposalIds));
+  return new Map(rows.map((row) => [row.id, { ...row, scope: row.scope ?? [] }]));
+}
+
+/** Fill missing zipcode/city/state on actions from their proposal's address */
+async function enrichGeography(tx: Tx, actions: ActionRecord[], proposalsById: Map<number, ProposalContext>) {
+  for (const action of actions) {
+    const proposal = action.proposalId !== null ? proposalsById.get(action.proposalId) : undefined;
+    const geo = resolveActionGeo(action, proposal?.address);
+    if (!geo) continue;
+
+    await tx
+      .update(userActionLog)
+      .set(geo)
+      .where(eq(userActionLog.id, action.id));
+    Object.assign(action, geo);
+  }
+}
+
+// ============ SCOPE OUTCOMES ============
+
+/**
+ * Add a won/lost delta to the scope item's pattern for the ZIP, falling back
+ * to the area-less row (created when the item has no pattern yet).
+ */
+async function applyScopeOutcome(tx: Tx, delta: ScopeOutcomeDelta) {
+  const match = (zipcode: string | null) => tx
+    .select({ id: scopeItemPatterns.id })
+    .from(scopeItemPatterns)
+    .where(and(
+      eq(scopeItemPatterns.tradeId, delta.tradeId),
+      eq(scopeItemPatterns.jobTypeId, delta.jobTypeId),
+      eq(scopeItemPatterns.scopeItem, delta.scopeItem),
+      zipcode ? eq(scopeItemPatterns.zipcode, zipcode) : isNull(scopeItemPatterns.zipcode),
+    ))
+    .limit(1);
+
+  let [existing] = delta.zipcode ? await match(delta.zipcode) : [];
+  if (!existing) [existing] = await match(null);
+
+  if (existing) {
+    await tx
+      .update(scopeItemPatterns)
+      .set({
+        wonWithItem: sql`${scopeItemPatterns.wonWithItem} + ${delta.won}`,
+        lostWithItem: sql`${scopeItemPatterns.lostWithItem} + ${delta.lost}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(scopeItemPatterns.id, existing.id));
+  } else {
+    await tx.insert(scopeItemPatterns).values({
+      tradeId: delta.tradeId,
+      jobTypeId: delta.jobTypeId,
+      zipcode: null,
+      scopeItem: delta.scopeItem,
+      wonWithItem: delta.won,
+      lostWithItem: delta.lost,
+    });
+  }
+}
+
+// ============ PRICING AGGREGATES ============
+
+/**
+ * Pricing keys whose aggregates a batch changes: its own price_adjust actions,
+ * plus earlier price_adjust actions on proposals that just got an outcome.
+ */
+async function getTouchedPricingKeys(tx: Tx, actions: ActionRecord[], since: Date): Promise<PricingKey[]> {
+  const outcomeProposalIds = [...new Set(
+    actions.filter(isOutcome).map((action) => action.proposalId).filter((id): id is number => id !== null)
+  )];
+
+  const decided = outcomeProposalIds.length > 0
+    ? await tx
+      .select(actionColumns)
+      .from(userActionLog)
+      .where(and(
+        eq(userActionLog.actionType, 'price_adjust'),
+        inArray(userActionLog.proposalId, outcomeProposalIds),
+        gte(userActionLog.createdAt, since),
+      ))
+    : [];
+
+  const keys = new Map<string, PricingKey>();
+  for (const action of [...actions, ...decided]) {
+    const key = getPricingKey(action);
+    if (key) keys.set(pricingKeyId(key), key);
+  }
+  return [...keys.values()];
+}
+
+function pricingKeyFilter(key: PricingKey): SQL {
+  return and(
+    isNull(pricingPatterns.userId),
+    eq(pricingPatterns.tradeId, key.tradeId),
+    eq(pricingPatterns.jobTypeId, key.jobTypeId),
+    key.jobSize !== null ? eq(pricingPatterns.jobSize, key.jobSize) : isNull(pricingPatterns.jobSize),
+    key.zipcode ? eq(pricingPatterns.zipcode, key.zipcode) : isNull(pricingPatterns.zipcode),
+  )!;
+}
+
+/** Recompute the area aggregate rows (user_id NULL) for the touched keys */
+async function refreshPricingAggregates(tx: Tx, keys: PricingKey[], since: Date): Promise<number> {
+  if (keys.length === 0) return 0;
+
+  const pairs = [...new Map(keys.map((key) => [`${key.tradeId}\u0000${key.jobTypeId}`, key])).values()];
+  const actions = await tx
+    .select(actionColumns)
+    .from(userActionLog)
+    .where(and(
+      eq(userActionLog.actionType, 'price_adjust'),
+      gte(userActionLog.createdAt, since),
+      or(...pairs.map((key) => and(
+        eq(userActionLog.tradeId, key.tradeId),
+        eq(userActionLog.jobTypeId, key.jobTypeId),
+      ))),
+    ));
+
+  const wanted = new Set(keys.map(pricingKeyId));
+  const aggregates = computePricingAggregates(actions).filter((aggregate) => wanted.has(pricingKeyId(aggregate)));
+
+  for (const key of keys) {
+    await tx.delete(pricingPatterns).where(pricingKeyFilter(key));
+  }
+  if (aggregates.length > 0) {
+    await tx.insert(pricingPatterns).values(aggregates.map((aggregate) => ({
+      userId: null,
+      tradeId: aggregate.tradeId,
+      jobTypeId: aggregate.jobTypeId,
+      jobSize: aggregate.jobSize,
+      zipcode: aggregate.zipcode,
+      sampleCount: aggregate.sampleCount,
+      avgAdjustmentPercent: aggregate.avgAdjustmentPercent,
+      winRate: aggregate.winRate,
+    })));
+  }
+
+  return aggregates.length;
+}
+
+// ============ GEOGRAPHIC PATTERNS ============
+
+function getTouchedGeoKeys(actions: ActionRecord[]): GeoKey[] {
+  const keys = new Map<string, GeoKey>();
+  for (const action of actions) {
+    if (!(PATTERN_ACTION_TYPES as readonly string[]).includes(action.actionType)) continue;
+    for (const key of getGeoKeys(action)) {
+      const id = geoKeyId(key);
+      // A ZIP seen with and without its city keeps the city as parent
+      if (!keys.get(id)?.parentGeoValue) keys.set(id, key);
+    }
+  }
+  return [...keys.values()];
+}
+
+function geoKeyFilter(key: GeoKey): SQL {
+  return and(
+    eq(geographicPatterns.geoLevel, key.geoLevel),
+    eq(geographicPatterns.geoValue, key.geoValue),
+    eq(geographicPatterns.tradeId, key.tradeId),
+    isNull(geographicPatterns.jobTypeId),
+    key.geoLevel === 'city' && key.parentGeoValue
+      ? eq(geographicPatterns.parentGeoValue, key.parentGeoValue)
+      : undefined,
+    inArray(geographicPatterns.patternType, GEO_PATTERN_TYPES),
+  )!;
+}
+
+/** Recompute state/city/ZIP patterns for the touched keys */
+async function refreshGeoPatterns(tx: Tx, keys: GeoKey[], since: Date, now: Date): Promise<number> {
+  if (keys.length === 0) return 0;
+
+  const trades = [...new Set(keys.map((key) => key.tradeId))];
+  const states = [...new Set(keys.filter((key) => key.geoLevel === 'state').map((key) => key.geoValue))];
+  const zipcodes = [...new Set(keys.filter((key) => key.geoLevel === 'zipcode').map((key) => key.geoValue))];
+
+  const actions = await tx
+    .select(actionColumns)
+    .from(userActionLog)
+    .where(and(
+      inArray(userActionLog.actionType, [...PATTERN_ACTION_TYPES]),
+      inArray(userActionLog.tradeId, trades),
+      gte(userActionLog.createdAt, since),
+      or(
+        states.length > 0 ? inArray(userActionLog.state, states) : undefined,
+        zipcodes.length > 0 ? inArray(userActionLog.zipcode, zipcodes) : undefined,
+      ),
+    ));
+
+  const patterns = computeGeoPatterns(actions, keys);
+
+  for (const key of keys) {
+    await tx.delete(geographicPatterns).where(geoKeyFilter(key));
+  }
+  if (patterns.length > 0) {
+    await tx.insert(geographicPatterns).values(patterns.map((pattern) => ({
+      geoLevel: pattern.geoLevel,
+      geoValue: pattern.geoValue,
+      parentGeoValue: pattern.parentGeoValue,
+      tradeId: pattern.tradeId,
+      patternType: pattern.patternType,
+      patternValue: pattern.patternValue,
+      sampleCount: pattern.sampleCount,
+      confidence: pattern.confidence,
+      lastCalculatedAt: now,
+    })));
+  }
+
+  return patterns.length;
+}
+
+// ============ PIPELINE ============
+
+async function aggregateBatch(batchSize: number): Promise<AggregationResult> {
+  return await db.transaction(async (tx) => {
+    const now = new Date();
+    const since = lookbackStart(now);
+    const watermark = await lockWatermark(tx);
+
+    const actions: ActionRecord[] = await tx
+      .select(actionColumns)
+      .from(userActionLog)
+      .where(and(
+        gt(userActionLog.id, watermark),
+        lt(userActionLog.createdAt, new Date(now.getTime() - ACTION_SETTLE_SECONDS * 1000)),
+      ))
+      .orderBy(asc(userActionLog.id))
+      .limit(batchSize);
+
+    if (actions.length === 0) {
+      await saveWatermark(tx, watermark, now);
+      return { processed: 0, lastActionId: watermark, scopeOutcomes: 0, pricingAggregates: 0, geoPatterns: 0 };
+    }
+
+    const proposalIds = [...new Set(
+      actions.map((action) => action.proposalId).filter((id): id is number => id !== null)
+    )];
+    const proposalsById = await loadProposals(tx, proposalIds);
+
+    await enrichGeography(tx, actions, proposalsById);
+
+    const deltas = getScopeOutcomeDeltas(actions.filter(isOutcome), proposalsById);
+    for (const delta of deltas) {
+      await applyScopeOutcome(tx, delta);
+    }
+
+    const pricingKeys = await getTouchedPricingKeys(tx, actions, since);
+    const pricingAggregates = await refreshPricingAggregates(tx, pricingKeys, since);
+    const geoPatterns = await refreshGeoPatterns(tx, getTouchedGeoKeys(actions), since, now);
+
+    const lastActionId = actions[actions.length - 1].id;
+    await saveWatermark(tx, lastActionId, now);
+
+    return { processed: actions.length, lastActionId, scopeOutcomes: deltas.length, pricingAggregates, geoPatterns };
+  });
+}
+
+/**
+ * Process every settled action past the watermark, one batch per transaction.
+ * A failed batch rolls back without moving the watermark, so a retry picks up
+ * from the same action.
+ */
+export async function runLearningAggregation(
+  options: { batchSize?: number } = {}
+): Promise<AggregationResult> {
+  const batchSize = options.batchSize ?? AGGREGATION_BATCH_SIZE;
+  const total: AggregationResult = { processed: 0, lastActionId: 0, scopeOutcomes: 0, pricingAggregates: 0, geoPatterns: 0 };
+
+  for (;;) {
+    const batch = await aggregateBatch(batchSize);
+    total.processed += batch.processed;
+    total.lastActionId = batch.lastActionId;
+    total.scopeOutcomes += batch.scopeOutcomes;
+    total.pricingAggregates += batch.pricingAggregates;
+    total.geoPatterns += batch.geoPatterns;
+
+    if (batch.processed < batchSize) break;
+    logger.info('Learning aggregation batch done', { ...batch });
+  }
+
+  return total;
+}
@@ -0,0 +1,214 @@
+/**
+ * Learning Aggregation Unit Tests
+ *
+ * Tests for address geography, scope outcome correlation, area pricing
+ * aggregates and state/city/ZIP geographic patterns.
+ * Run with: npx tsx src/lib/learning/aggregation.test.ts
+ */
+
+import {
+  computeGeoPatterns,
+  computePricingAggregates,
+  getGeoKeys,
+  getScopeOutcomeDeltas,
+  parseAddressGeo,
+  patternConfidence,
+  resolveActionGeo,
+  type ActionRecord,
+  type GeoKey,
+  type OutcomeProposal,
+} from './aggregation';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+let nextId = 1;
+
+function action(overrides: Partial<ActionRecord>): ActionRecord {
+  return {
+    id: nextId++,
+    actionType: 'price_adjust',
+    proposalId: null,
+    tradeId: 'plumbing',
+    jobTypeId: 'toilet-install',
+    zipcode: '78701',
+    city: 'Austin',
+    state: 'TX',
+    payload: {},
+    outcomeType: null,
+    outcomeValue: null,
+    ...overrides,
+  };
+}
+
+// ============ TESTS ============
+
+function testAddressGeo() {
+  console.log('\n--- address geography ---');
+  assertEqual(
+    parseAddressGeo('12 Oak St, Austin, TX 78701'),
+    { zipcode: '78701', city: 'Austin', state: 'TX' },
+    'parses street, city, state and ZIP'
+  );
+  assertEqual(
+    parseAddressGeo('500 Elm Ave, Portland, OR 97205, USA'),
+    { zipcode: '97205', city: 'Portland', state: 'OR' },
+    'ignores a trailing country'
+  );
+  assertEqual(parseAddressGeo('Fix toilet in 78701').state, 'TX', 'state comes from the ZIP over look-alike words');
+  assertEqual(parseAddressGeo('12 Oak St, Austin').city, null, 'leaves the city empty when ambiguous');
+  assertEqual(parseAddressGeo(null), { zipcode: null, city: null, state: null }, 'handles a missing address');
+
+  assertEqual(
+    resolveActionGeo({ zipcode: null, city: null, state: null }, '12 Oak St, Austin, TX 78701'),
+    { zipcode: '78701', city: 'Austin', state: 'TX' },
+    'fills missing geography from the proposal address'
+  );
+  assertEqual(
+    resolveActionGeo({ zipcode: '97205', city: null, state: null }, null),
+    { zipcode: '97205', city: null, state: 'OR' },
+    'derives the state from a logged ZIP'
+  );
+  assertEqual(
+    resolveActionGeo({ zipcode: '78701', city: 'Austin', state: 'TX' }, '1 Main St, Dallas, TX 75201'),
+    null,
+    'keeps complete logged geography'
+  );
+}
+
+function testScopeOutcomeDeltas() {
+  console.log('\n--- scope outcome correlation ---');
+  const proposalsById = new Map<number, OutcomeProposal>([
+    [1, { tradeId: 'plumbing', jobTypeId: 'toilet-install', scope: ['Wax ring', 'Supply line', 'Wax ring'] }],
+    [2, { tradeId: 'plumbing', jobTypeId: 'toilet-install', scope: ['Wax ring'] }],
+  ]);
+
+  const deltas = getScopeOutcomeDeltas([
+    action({ actionType: 'proposal_won', proposalId: 1 }),
+    action({ actionType: 'proposal_lost', proposalId: 2 }),
+    action({ actionType: 'proposal_won', proposalId: 99 }),
+    action({ actionType: 'price_adjust', proposalId: 1 }),
+  ], proposalsById);
+
+  const waxRing = deltas.find((delta) => delta.scopeItem === 'Wax ring');
+  assertEqual(deltas.length, 2, 'one delta per scope item and area');
+  assertEqual([waxRing?.won, waxRing?.lost], [1, 1], 'counts wins and losses, duplicate lines once');
+  assertEqual(deltas.find((delta) => delta.scopeItem === 'Supply line')?.lost, 0, 'items only on won proposals have no losses');
+}
+
+function testPricingAggregates() {
+  console.log('\n--- pricing aggregates ---');
+  const aggregates = computePricingAggregates([
+    action({ payload: { adjustmentPercent: 10, jobSize: 2 }, outcomeType: 'won' }),
+    action({ payload: { adjustmentPercent: 20, jobSize: 2 }, outcomeType: 'lost' }),
+    action({ payload: { adjustmentPercent: 5, jobSize: 2 }, outcomeType: 'won' }),
+    action({ payload: { adjustmentPercent: '-6', jobSize: 2 } }),
+    action({ payload: { adjustmentPercent: 30, jobSize: 3 } }),
+    action({ payload: { jobSize: 2 } }),
+    action({ actionType: 'scope_add', payload: { adjustmentPercent: 50, jobSize: 2 } }),
+  ]);
+
+  const medium = aggregates.find((aggregate) => aggregate.jobSize === 2);
+  assertEqual(aggregates.length, 2, 'groups by job size');
+  assertEqual(medium?.sampleCount, 4, 'counts price adjustments with a percentage');
+  assertEqual(medium?.avgAdjustmentPercent, 7, 'averages the adjustment');
+  assertEqual(medium?.winRate, 67, 'win rate over decided samples only');
+  assertEqual(aggregates.find((aggregate) => aggregate.jobSize === 3)?.winRate, null, 'no win rate without outcomes');
+}
+
+function testGeoKeys() {
+  console.log('\n--- geographic keys ---');
+  assertEqual(
+    getGeoKeys(action({})).map((key) => [key.geoLevel, key.geoValue, key.parentGeoValue]),
+    [['state', 'TX', null], ['city', 'Austin', 'TX'], ['zipcode', '78701', 'Austin']],
+    'state, city (under state) and ZIP (under city)'
+  );
+  assertEqual(getGeoKeys(action({ city: null, state: null })).map((key) => key.geoLevel), ['zipcode'], 'only known levels');
+  assertEqual(getGeoKeys(action({ tradeId: null })), [], 'needs a trade');
+}
+
+function testGeoPatterns() {
+  console.log('\n--- geographic patterns ---');
+  const texas: GeoKey = { geoLevel: 'state', geoValue: 'TX', parentGeoValue: null, tradeId: 'plumbing' };
+  const austin: GeoKey = { geoLevel: 'city', geoValue: 'Austin', parentGeoValue: 'TX', tradeId: 'plumbing' };
+  const zip: GeoKey = { geoLevel: 'zipcode', geoValue: '78701', parentGeoValue: 'Austin', tradeId: 'plumbing' };
+
+  const actions = [
+    action({ actionType: 'proposal_won', outcomeValue: 1000 }),
+    action({ actionType: 'proposal_won', outcomeValue: 2000, zipcode: '78702' }),
+    action({ actionType: 'proposal_lost', city: 'Dallas', zipcode: '75201' }),
+    action({ payload: { adjustmentPercent: 10 } }),
+    action({ payload: { adjustmentPercent: 20 } }),
+    action({ actionType: 'scope_add', payload: { scopeItem: 'Wax ring' } }),
+    action({ actionType: 'scope_add', payload: { scopeItem: 'Wax ring' } }),
+    action({ actionType: 'scope_add', payload: { scopeItem: 'Supply line' } }),
+    action({ actionType: 'proposal_won', tradeId: 'electrical', outcomeValue: 9000 }),
+  ];
+
+  const patterns = computeGeoPatterns(actions, [texas, austin, zip]);
+  const find = (key: GeoKey, type: string) => patterns.find(
+    (pattern) => pattern.geoLevel === key.geoLevel && pattern.geoValue === key.geoValue && pattern.patternType === type
+  );
+
+  assertEqual(find(texas, 'win_rate')?.patternValue, 67, 'state win rate spans its cities');
+  assertEqual(find(austin, 'win_rate')?.patternValue, 100, 'city win rate excludes other cities');
+  assertEqual(find(austin, 'avg_price')?.patternValue, 1500, 'average won price');
+  assertEqual(find(zip, 'avg_price')?.patternValue, 1000, 'ZIP only counts its own proposals');
+  assertEqual(find(zip, 'price_multiplier')?.patternValue, 1.15, 'price multiplier from adjustments');
+  assertEqual(find(zip, 'common_scope_items')?.patternValue, ['Wax ring', 'Supply line'], 'most added scope items first');
+  assertEqual(find(texas, 'win_rate')?.sampleCount, 3, 'sample count of decided proposals');
+  assert(!patterns.some((pattern) => pattern.patternValue === 9000), 'other trades are kept apart');
+  assertEqual(find(zip, 'win_rate')?.parentGeoValue, 'Austin', 'keeps the parent of the requested key');
+  assertEqual(patternConfidence(3), 15, 'confidence grows with samples');
+  assertEqual(patternConfidence(100), 90, 'confidence is capped');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Learning Aggregation Unit Tests');
+  console.log('='.repeat(50));
+
+  testAddressGeo();
+  testScopeOutcomeDeltas();
+  testPricingAggregates();
+  testGeoKeys();
+  testGeoPatterns();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,361 @@
+/**
+ * Learning Aggregation
+ *
+ * Pure computations behind the nightly aggregation pipeline
+ * (see aggregation-pipeline.ts): geography from proposal addresses,
+ * scope item win/loss correlation, area pricing aggregates and
+ * state/city/ZIP geographic patterns.
+ *
+ * Safe to import from client and server code.
+ */
+
+import { detectStateCode, extractZip, getStateForZip } from '../../../lib/cost-index/lookup';
+
+// ==========================================
+// Types
+// ==========================================
+
+/** A row of user_action_log as the pipeline reads it */
+export interface ActionRecord {
+  id: number;
+  actionType: string;
+  proposalId: number | null;
+  tradeId: string | null;
+  jobTypeId: string | null;
+  zipcode: string | null;
+  city: string | null;
+  state: string | null;
+  payload: Record<string, unknown> | null;
+  outcomeType: string | null;
+  outcomeValue: number | null;
+}
+
+export interface ActionGeo {
+  zipcode: string | null;
+  city: string | null;
+  state: string | null;
+}
+
+export interface OutcomeProposal {
+  tradeId: string;
+  jobTypeId: string;
+  scope: string[];
+}
+
+export interface ScopeOutcomeDelta {
+  tradeId: string;
+  jobTypeId: string;
+  zipcode: string | null;
+  scopeItem: string;
+  won: number;
+  lost: number;
+}
+
+export interface PricingKey {
+  tradeId: string;
+  jobTypeId: string;
+  jobSize: number | null;
+  zipcode: string | null;
+}
+
+export interface PricingAggregate extends PricingKey {
+  sampleCount: number;
+  avgAdjustmentPercent: number;
+  winRate: number | null; // percentage of decided samples, null when none decided
+}
+
+export const geoLevels = ['state', 'city', 'zipcode'] as const;
+export type GeoLevel = typeof geoLevels[number];
+
+export interface GeoKey {
+  geoLevel: GeoLevel;
+  geoValue: string;
+  parentGeoValue: string | null;
+  tradeId: string;
+}
+
+export type GeoPatternType = 'win_rate' | 'price_multiplier' | 'avg_price' | 'common_scope_items';
+
+export interface GeoPattern extends GeoKey {
+  patternType: GeoPatternType;
+  patternValue: number | string[];
+  sampleCount: number;
+  confidence: number;
+}
+
+// ==========================================
+// Constants
+// ==========================================
+
+/** Trailing window of actions that feeds pricing and geographic patterns */
+export const PATTERN_LOOKBACK_DAYS = 365;
+
+/** Actions processed per transaction; a run loops until it catches up */
+export const AGGREGATION_BATCH_SIZE = 1000;
+
+/** Scope items kept per area in the common_scope_items pattern */
+export const COMMON_SCOPE_ITEMS_LIMIT = 10;
+
+export const OUTCOME_ACTION_TYPES = ['proposal_won', 'proposal_lost'] as const;
+
+/** Action types the pricing and geographic patterns are computed from */
+export const PATTERN_ACTION_TYPES = ['price_adjust', 'scope_add', ...OUTCOME_ACTION_TYPES] as const;
+
+// ==========================================
+// Geography
+// ==========================================
+
+const COUNTRY_SUFFIXES = new Set(['usa', 'us', 'united states', 'united states of america']);
+
+/**
+ * ZIP, city and state from a free-form US address such as
+ * "12 Oak St, Austin, TX 78701". The state comes from the ZIP when there is
+ * one (addresses often contain words like "in" or "or" that look like state
+ * codes); the city is the comma-separated part before the state/ZIP part.
+ */
+export function parseAddressGeo(address?: string | null): ActionGeo {
+  if (!address) return { zipcode: null, city: null, state: null };
+
+  const zipcode = extractZip(address);
+  const state = (zipcode ? getStateForZip(zipcode) : null) ?? detectStateCode(address);
+
+  const parts = address.split(',').map((part) => part.trim()).filter(Boolean);
+  if (parts.length > 0 && COUNTRY_SUFFIXES.has(parts[parts.length - 1].toLowerCase().replace(/\./g, ''))) {
+    parts.pop();
+  }
+
+  // Street, City, "ST 12345" - a bare "Street, City" is too ambiguous to use
+  const candidate = parts.length >= 3 ? parts[parts.length - 2] : null;
+  const city = candidate && !/\d/.test(candidate) ? candidate.slice(0, 100) : null;
+
+  return { zipcode, city, state };
+}
+
+/**
+ * Geography to record on an action: what it was logged with, with gaps filled
+ * from the proposal address. Returns null when nothing would change.
+ */
+export function resolveActionGeo(action: ActionGeo, proposalAddress?: string | null): ActionGeo | null {
+  if (action.zipcode && action.city && action.state) return null;
+
+  const parsed = parseAddressGeo(proposalAddress);
+  const resolved = {
+    zipcode: action.zipcode ?? parsed.zipcode,
+    city: action.city ?? parsed.city,
+    state: action.state ?? parsed.state ?? (action.zipcode ? getStateForZip(action.zipcode) : null),
+  };
+
+  const changed = resolved.zipcode !== action.zipcode
+    || resolved.city !== action.city
+    || resolved.state !== action.state;
+  return changed ? resolved : null;
+}
+
+// ==========================================
+// Scope Outcome Correlation
+// ==========================================
+
+/**
+ * Won/lost counts per scope item from proposal_won/proposal_lost actions,
+ * keyed by the proposal's trade, job type and the action's ZIP. Duplicate
+ * scope lines on one proposal count once.
+ */
+export function getScopeOutcomeDeltas(
+  outcomes: ActionRecord[],
+  proposalsById: Map<number, OutcomeProposal>
+): ScopeOutcomeDelta[] {
+  const deltas = new Map<string, ScopeOutcomeDelta>();
+
+  for (const action of outcomes) {
+    if (!OUTCOME_ACTION_TYPES.includes(action.actionType as typeof OUTCOME_ACTION_TYPES[number])) continue;
+    const proposal = action.proposalId !== null ? proposalsById.get(action.proposalId) : undefined;
+    if (!proposal) continue;
+
+    const won = action.actionType === 'proposal_won';
+    const items = new Set(proposal.scope.map((item) => item.trim()).filter(Boolean));
+
+    for (const scopeItem of items) {
+      const key = [proposal.tradeId, proposal.jobTypeId, action.zipcode ?? '', scopeItem].join('\u0000');
+      const delta = deltas.get(key) ?? {
+        tradeId: proposal.tradeId,
+        jobTypeId: proposal.jobTypeId,
+        zipcode: action.zipcode,
+        scopeItem,
+        won: 0,
+        lost: 0,
+      };
+      if (won) delta.won++;
+      else delta.lost++;
+      deltas.set(key, delta);
+    }
+  }
+
+  return [...deltas.values()];
+}
+
+// ==========================================
+// Pricing Aggregates
+// ==========================================
+
+function numberOrNull(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Pricing key of a price_adjust action, or null when it lacks trade/job context */
+export function getPricingKey(action: ActionRecord): PricingKey | null {
+  if (action.actionType !== 'price_adjust' || !action.tradeId || !action.jobTypeId) return null;
+  return {
+    tradeId: action.tradeId,
+    jobTypeId: action.jobTypeId,
+    jobSize: numberOrNull(action.payload?.jobSize),
+    zipcode: action.zipcode,
+  };
+}
+
+export function pricingKeyId(key: PricingKey): string {
+  return [key.tradeId, key.jobTypeId, key.jobSize ?? '', key.zipcode ?? ''].join('\u0000');
+}
+
+/**
+ * Area pricing aggregates (one per trade, job type, job size and ZIP) from
+ * price_adjust actions: average adjustment and the win rate of the proposals
+ * that have an outcome.
+ */
+export function computePricingAggregates(actions: ActionRecord[]): PricingAggregate[] {
+  const groups = new Map<string, { key: PricingKey; adjustments: number[]; won: number; lost: number }>();
+
+  for (const action of actions) {
+    const key = getPricingKey(action);
+    const adjustment = numberOrNull(action.payload?.adjustmentPercent);
+    if (!key || adjustment === null) continue;
+
+    const id = pricingKeyId(key);
+    const group = groups.get(id) ?? { key, adjustments: [], won: 0, lost: 0 };
+    group.adjustments.push(adjustment);
+    if (action.outcomeType === 'won') group.won++;
+    if (action.outcomeType === 'lost') group.lost++;
+    groups.set(id, group);
+  }
+
+  return [...groups.values()].map(({ key, adjustments, won, lost }) => ({
+    ...key,
+    sampleCount: adjustments.length,
+    avgAdjustmentPercent: Math.round(adjustments.reduce((sum, value) => sum + value, 0) / adjustments.length),
+    winRate: won + lost > 0 ? Math.round((won / (won + lost)) * 100) : null,
+  }));
+}
+
+// ==========================================
+// Geographic Patterns
+// ==========================================
+
+/** Confidence (0-90) that grows with the number of samples behind a pattern */
+export function patternConfidence(sampleCount: number): number {
+  return Math.min(90, sampleCount * 5);
+}
+
+/** Identity of a geographic key; ZIPs are unique on their own, so their parent city is not part of it */
+export function geoKeyId(key: GeoKey): string {
+  const parent = key.geoLevel === 'zipcode' ? '' : key.parentGeoValue ?? '';
+  return [key.geoLevel, key.geoValue, parent, key.tradeId].join('\u0000');
+}
+
+/**
+ * State, city and ZIP keys an action counts towards. Cities are qualified by
+ * their state (parent) so identically named places stay apart; a ZIP records
+ * its city as parent when known.
+ */
+export function getGeoKeys(action: ActionRecord): GeoKey[] {
+  if (!action.tradeId) return [];
+  const keys: GeoKey[] = [];
+  const tradeId = action.tradeId;
+
+  if (action.state) {
+    keys.push({ geoLevel: 'state', geoValue: action.state, parentGeoValue: null, tradeId });
+    if (action.city) {
+      keys.push({ geoLevel: 'city', geoValue: action.city, parentGeoValue: action.state, tradeId });
+    }
+  }
+  if (action.zipcode) {
+    keys.push({ geoLevel: 'zipcode', geoValue: action.zipcode, parentGeoValue: action.city, tradeId });
+  }
+
+  return keys;
+}
+
+interface GeoAccumulator {
+  won: number;
+  lost: number;
+  wonValues: number[];
+  adjustments: number[];
+  scopeCounts: Map<string, number>;
+}
+
+/**
+ * Patterns for the given keys from the actions in their areas:
+ * - win_rate: share of proposal_won among won/lost outcomes (0-100)
+ * - avg_price: average final value of won proposals
+ * - price_multiplier: average price_adjust factor (1.08 = priced 8% above suggestions)
+ * - common_scope_items: most added scope items, most frequent first
+ * Pattern types without samples for a key are omitted.
+ */
+export function computeGeoPatterns(actions: ActionRecord[], keys: GeoKey[]): GeoPattern[] {
+  const wanted = new Map(keys.map((key) => [geoKeyId(key), key]));
+  const accumulators = new Map<string, GeoAccumulator>();
+
+  for (const action of actions) {
+    for (const key of getGeoKeys(action)) {
+      const id = geoKeyId(key);
+      if (!wanted.has(id)) continue;
+
+      const acc: GeoAccumulator = accumulators.get(id) ?? { won: 0, lost: 0, wonValues: [], adjustments: [], scopeCounts: new Map() };
+      accumulators.set(id, acc);
+
+      if (action.actionType === 'proposal_won') {
+        acc.won++;
+        const value = numberOrNull(action.outcomeValue);
+        if (value !== null && value > 0) acc.wonValues.push(value);
+      } else if (action.actionType === 'proposal_lost') {
+        acc.lost++;
+      } else if (action.actionType === 'price_adjust') {
+        const adjustment = numberOrNull(action.payload?.adjustmentPercent);
+        if (adjustment !== null) acc.adjustments.push(adjustment);
+      } else if (action.actionType === 'scope_add') {
+        const item = typeof action.payload?.scopeItem === 'string' ? action.payload.scopeItem.trim() : '';
+        if (item) acc.scopeCounts.set(item, (acc.scopeCounts.get(item) ?? 0) + 1);
+      }
+    }
+  }
+
+  const patterns: GeoPattern[] = [];
+  for (const [id, acc] of accumulators) {
+    const key = wanted.get(id)!;
+    const push = (patternType: GeoPatternType, patternValue: number | string[], sampleCount: number) => {
+      patterns.push({ ...key, patternType, patternValue, sampleCount, confidence: patternConfidence(sampleCount) });
+    };
+
+    const decided = acc.won + acc.lost;
+    if (decided > 0) {
+      push('win_rate', Math.round((acc.won / decided) * 100), decided);
+    }
+    if (acc.wonValues.length > 0) {
+      const average = acc.wonValues.reduce((sum, value) => sum + value, 0) / acc.wonValues.length;
+      push('avg_price', Math.round(average), acc.wonValues.length);
+    }
+    if (acc.adjustments.length > 0) {
+      const averageAdjustment = acc.adjustments.reduce((sum, value) => sum + value, 0) / acc.adjustments.length;
+      push('price_multiplier', Math.round((1 + averageAdjustment / 100) * 100) / 100, acc.adjustments.length);
+    }
+    if (acc.scopeCounts.size > 0) {
+      const items = [...acc.scopeCounts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, COMMON_SCOPE_ITEMS_LIMIT)
+        .map(([item]) => item);
+      const total = [...acc.scopeCounts.values()].reduce((sum, value) => sum + value, 0);
+      push('common_scope_items', items, total);
+    }
+  }
+
+  return patterns;
+}
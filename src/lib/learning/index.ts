@@ -69,6 +69,9 @@ export {
   getUserProfile,
   saveUserProfile,
   trackAction,
+  flushActions,
+  syncAdaptiveProfile,
+  subscribeToProfile,
   getLearnedPricingAdjustment,
   getLearnedScopeModifications,
   getLearnedPhotoCategory,
@@ -92,6 +95,9 @@ export {
   recordPricingAdjustment,
   getPricingSuggestion,
   getGeographicInsights,
+  recordProposalOptionSelections,
+  getOptionPreselections,
+  getPreferredOptions,
   getLearnedPreferences,
   type LearningContext,
   type PhotoCategorySuggestion,
@@ -100,6 +106,15 @@ export {
   type LearnedPreferences,
 } from './learning-service';
 
+// Option Learning
+export {
+  getOptionSelections,
+  chooseOptionPreselections,
+  optionValueLabel,
+  type OptionPreference,
+  type OptionPreselection,
+} from './option-learning';
+
 // Recommendation Engine
 export {
   recommendationEngine,
@@ -15,9 +15,25 @@ import {
   pricingPatterns,
   type UserActionType,
   type ProposalPhotoCategory,
+  type Proposal,
 } from "../../../shared/schema";
-import { eq, and, desc, sql, count } from "drizzle-orm";
+import { eq, and, desc, sql, count, isNull, inArray, gte, or } from "drizzle-orm";
 import { logger } from "../../../lib/logger";
+import { templates, type JobOption } from "../../../lib/proposal-data";
+import { runLearningAggregation } from "./aggregation-pipeline";
+import { parseAddressGeo } from "./aggregation";
+import {
+  OPTION_ACTION_TYPES,
+  OPTION_LOOKBACK_DAYS,
+  MIN_USER_DECISIONS,
+  chooseOptionPreselections,
+  getOptionSelections,
+  learnAreaOptionPreferences,
+  learnOptionPreferences,
+  toOptionDecisions,
+  type OptionPreference,
+  type OptionPreselection,
+} from "./option-learning";
 
 // ==========================================
 // Types
@@ -490,20 +506,22 @@ export async function getPricingSuggestion(
         eq(pricingPatterns.jobSize, jobSize),
       ));
 
-    // Get local area patterns
+    // Get the local area aggregate (user_id NULL, maintained by updateAggregatedPatterns)
     const localPatterns = context.zipcode ? await db
       .select({
-        avgAdjustment: sql<number>`AVG(${pricingPatterns.adjustmentPercent})`,
-        winRate: sql<number>`AVG(CASE WHEN ${pricingPatterns.outcome} = 'won' THEN 100 ELSE 0 END)`,
-        count: count(),
+        avgAdjustment: pricingPatterns.avgAdjustmentPercent,
+        winRate: pricingPatterns.winRate,
+        count: pricingPatterns.sampleCount,
       })
       .from(pricingPatterns)
       .where(and(
+        isNull(pricingPatterns.userId),
         eq(pricingPatterns.tradeId, context.tradeId),
         eq(pricingPatterns.jobTypeId, context.jobTypeId),
         eq(pricingPatterns.zipcode, context.zipcode),
         eq(pricingPatterns.jobSize, jobSize),
-      )) : null;
+      ))
+      .limit(1) : null;
 
     let adjustment = 0;
     let confidence = 50;
@@ -538,6 +556,142 @@ export async function getPricingSuggestion(
   }
 }
 
+// ==========================================
+// Option Learning
+// ==========================================
+
+/** Most recent option actions read per preference query */
+const OPTION_DECISION_LIMIT = 2000;
+
+function findJobOptions(tradeId?: string | null, jobTypeId?: string | null): JobOption[] {
+  const trade = templates.find(t => t.id === tradeId);
+  return trade?.jobTypes.find(j => j.id === jobTypeId)?.options ?? [];
+}
+
+/**
+ * Log the final state of every job option on a saved proposal (per line item
+ * for multi-service proposals), so option preferences learn from what was
+ * sent rather than from every toggle. Each save replaces the proposal's
+ * earlier rows, so a proposal holds one row per option however often it's saved
+ */
+export async function recordProposalOptionSelections(proposal: Proposal): Promise<void> {
+  try {
+    const services = proposal.isMultiService && proposal.lineItems?.length
+      ? proposal.lineItems
+      : [{ tradeId: proposal.tradeId, jobTypeId: proposal.jobTypeId, options: proposal.options as Record<string, unknown> }];
+    const geo = parseAddressGeo(proposal.address);
+
+    const rows = services.flatMap(service =>
+      getOptionSelections(findJobOptions(service.tradeId, service.jobTypeId), service.options).map(selection => ({
+        userId: proposal.userId,
+        actionType: selection.actionType,
+        proposalId: proposal.id,
+        tradeId: service.tradeId,
+        jobTypeId: service.jobTypeId,
+        ...geo,
+        payload: { optionId: selection.optionId, value: selection.value, source: proposal.source },
+      }))
+    );
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(userActionLog)
+        .where(and(
+          eq(userActionLog.proposalId, proposal.id),
+          inArray(userActionLog.actionType, [...OPTION_ACTION_TYPES]),
+        ));
+      if (rows.length > 0) {
+        await tx.insert(userActionLog).values(rows);
+      }
+    });
+  } catch (error) {
+    // Don't fail the save if logging fails
+    logger.error('Failed to record option selections', error as Error);
+  }
+}
+
+/**
+ * The user's own and their area's option preferences for a job type
+ */
+async function loadOptionPreferences(
+  context: LearningContext,
+  jobOptions: JobOption[]
+): Promise<{ user: Record<string, OptionPreference>; area: Record<string, OptionPreference> }> {
+  const since = new Date(Date.now() - OPTION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const columns = {
+    proposalId: userActionLog.proposalId,
+    actionType: userActionLog.actionType,
+    payload: userActionLog.payload,
+    zipcode: userActionLog.zipcode,
+    state: userActionLog.state,
+  };
+  const optionActions = and(
+    eq(userActionLog.tradeId, context.tradeId ?? ''),
+    eq(userActionLog.jobTypeId, context.jobTypeId ?? ''),
+    inArray(userActionLog.actionType, [...OPTION_ACTION_TYPES]),
+    gte(userActionLog.createdAt, since),
+  );
+
+  const userRows = await db
+    .select(columns)
+    .from(userActionLog)
+    .where(and(optionActions, eq(userActionLog.userId, context.userId)))
+    .orderBy(desc(userActionLog.createdAt), desc(userActionLog.id))
+    .limit(OPTION_DECISION_LIMIT);
+
+  const areaRows = context.zipcode || context.state ? await db
+    .select(columns)
+    .from(userActionLog)
+    .where(and(optionActions, or(
+      context.zipcode ? eq(userActionLog.zipcode, context.zipcode) : undefined,
+      context.state ? eq(userActionLog.state, context.state) : undefined,
+    )))
+    .orderBy(desc(userActionLog.createdAt), desc(userActionLog.id))
+    .limit(OPTION_DECISION_LIMIT) : [];
+
+  return {
+    user: learnOptionPreferences(jobOptions, toOptionDecisions(userRows), MIN_USER_DECISIONS),
+    area: learnAreaOptionPreferences(jobOptions, toOptionDecisions(areaRows), context),
+  };
+}
+
+/**
+ * Options to preselect when the user picks a job type, with the reason for each
+ */
+export async function getOptionPreselections(
+  context: LearningContext
+): Promise<OptionPreselection[]> {
+  const jobOptions = findJobOptions(context.tradeId, context.jobTypeId);
+  if (jobOptions.length === 0) return [];
+
+  try {
+    const { user, area } = await loadOptionPreferences(context, jobOptions);
+    return chooseOptionPreselections(jobOptions, user, area);
+  } catch (error) {
+    logger.error('Failed to get option preselections', error as Error);
+    return [];
+  }
+}
+
+/**
+ * Learned value per option for a job type; the user's own habits override the area's
+ */
+export async function getPreferredOptions(
+  context: LearningContext
+): Promise<Record<string, boolean | string>> {
+  const jobOptions = findJobOptions(context.tradeId, context.jobTypeId);
+  if (jobOptions.length === 0) return {};
+
+  try {
+    const { user, area } = await loadOptionPreferences(context, jobOptions);
+    const preferences = { ...area, ...user };
+    return Object.fromEntries(Object.values(preferences).map(p => [p.optionId, p.value]));
+  } catch (error) {
+    logger.error('Failed to get preferred options', error as Error);
+    return {};
+  }
+}
+
 // ==========================================
 // Geographic Pattern Learning
 // ==========================================
@@ -610,6 +764,7 @@ export async function getLearnedPreferences(
   const [
     photoSuggestions,
     scopeSuggestions,
+    preferredOptions,
   ] = await Promise.all([
     // Get photo suggestions for first 6 photos
     Promise.all([1, 2, 3, 4, 5, 6].map(order =>
@@ -617,6 +772,7 @@ export async function getLearnedPreferences(
     )),
     // Get scope suggestions (need current scope from caller)
     getScopeSuggestions(context, []),
+    getPreferredOptions(context),
   ]);
 
   // Build photo category map
@@ -638,10 +794,7 @@ export async function getLearnedPreferences(
     scopeAdditions: scopeSuggestions.additions,
     scopeRemovals: scopeSuggestions.removals,
     pricingAdjustment: null, // Caller should use getPricingSuggestion with base prices
-    // Option learning not yet implemented - returns empty object for forward compatibility.
-    // Future enhancement: Track user option selections and suggest based on patterns.
-    // See: docs/FUTURE_ENHANCEMENTS.md
-    preferredOptions: {},
+    preferredOptions,
   };
 }
 
@@ -653,50 +806,17 @@ export async function getLearnedPreferences(
  * Update aggregated patterns (run periodically)
  */
 export async function updateAggregatedPatterns(): Promise<void> {
-  // This would be run as a cron job to aggregate patterns
-  // from the raw action log into the pattern tables
+  // Runs nightly as the learning.aggregate-patterns job (see lib/jobs/handlers.ts)
+  // to fold new actions from the raw log into the pattern tables
   logger.info('Updating aggregated patterns...');
 
   try {
-    // 1. Update Scope Item Patterns
-    // Move frequent additions from raw logs to patterns table
-    await db.execute(sql`
-      INSERT INTO scope_item_patterns (trade_id, job_type_id, scope_item, added_count, updated_at)
-      SELECT 
-        trade_id, 
-        job_type_id, 
-        payload->>'scopeItem' as item, 
-        COUNT(*) as count,
-        NOW()
-      FROM user_action_log 
-      WHERE action_type = 'scope_add' 
-        AND created_at > NOW() - INTERVAL '7 days'
-      GROUP BY trade_id, job_type_id, payload->>'scopeItem'
-      ON CONFLICT (trade_id, job_type_id, scope_item) 
-      DO UPDATE SET added_count = scope_item_patterns.added_count + EXCLUDED.added_count;
-    `);
-
-    // 2. Update Pricing Patterns (simplified)
-    await db.execute(sql`
-      INSERT INTO pricing_patterns (user_id, trade_id, job_type_id, job_size, adjustment_percent, updated_at)
-      SELECT 
-        user_id,
-        trade_id,
-        job_type_id,
-        (payload->>'jobSize')::int as size,
-        AVG((payload->>'adjustmentPercent')::int) as avg_adj,
-        NOW()
-      FROM user_action_log 
-      WHERE action_type = 'price_adjust' 
-        AND created_at > NOW() - INTERVAL '30 days'
-      GROUP BY user_id, trade_id, job_type_id, payload->>'jobSize'
-      ON CONFLICT (user_id, trade_id, job_type_id, job_size)
-      DO UPDATE SET adjustment_percent = EXCLUDED.adjustment_percent;
-    `);
-
-    logger.info('Aggregated patterns updated successfully');
+    const result = await runLearningAggregation();
+    logger.info('Aggregated patterns updated successfully', { ...result });
   } catch (error) {
     logger.error('Failed to update aggregated patterns', error as Error);
+    // Surface the failure so the job is retried
+    throw error;
   }
 }
 
@@ -718,6 +838,11 @@ export const learningService = {
   recordPricingAdjustment,
   getPricingSuggestion,
 
+  // Option learning
+  recordProposalOptionSelections,
+  getOptionPreselections,
+  getPreferredOptions,
+
   // Geographic learning
   getGeographicInsights,
 
@@ -0,0 +1,182 @@
+/**
+ * Option Learning Unit Tests
+ *
+ * Tests for logging option selections, learning user and area option
+ * preferences and choosing generator preselections.
+ * Run with: npx tsx src/lib/learning/option-learning.test.ts
+ */
+
+import type { JobOption } from '../../../lib/proposal-data';
+import {
+  chooseOptionPreselections,
+  getOptionSelections,
+  learnAreaOptionPreferences,
+  learnOptionPreferences,
+  toOptionDecisions,
+  type OptionActionRow,
+  type OptionDecision,
+} from './option-learning';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+const jobOptions: JobOption[] = [
+  { id: 'niche', label: 'Add Shower Niche', type: 'boolean', priceModifier: 450 },
+  { id: 'glass', label: 'Glass Door', type: 'boolean', priceModifier: 1200 },
+  {
+    id: 'tile',
+    label: 'Tile Grade',
+    type: 'select',
+    choices: [
+      { value: 'standard', label: 'Standard Ceramic', priceModifier: 0 },
+      { value: 'porcelain', label: 'Large-Format Porcelain', priceModifier: 900 },
+    ],
+  },
+];
+
+function decisions(optionId: string, values: (boolean | string)[], geo: Partial<OptionDecision> = {}): OptionDecision[] {
+  return values.map((value) => ({ optionId, value, zipcode: null, state: null, ...geo }));
+}
+
+// ============ TESTS ============
+
+function testSelections() {
+  console.log('\n--- option selections ---');
+  assertEqual(
+    getOptionSelections(jobOptions, { niche: true, tile: 'porcelain', homeArea: 'bathroom' }),
+    [
+      { actionType: 'option_enable', optionId: 'niche', value: true },
+      { actionType: 'option_disable', optionId: 'glass', value: false },
+      { actionType: 'option_select', optionId: 'tile', value: 'porcelain' },
+    ],
+    'logs every offered option and ignores unrelated keys'
+  );
+  assertEqual(
+    getOptionSelections(jobOptions, { tile: 'marble' }).map((s) => s.optionId),
+    ['niche', 'glass'],
+    'skips choices the option does not offer'
+  );
+  assertEqual(getOptionSelections(jobOptions, null).length, 2, 'unsaved options count as disabled');
+}
+
+function testDecisions() {
+  console.log('\n--- decisions ---');
+  const rows: OptionActionRow[] = [
+    { proposalId: 7, actionType: 'option_disable', payload: { optionId: 'niche', value: false } },
+    { proposalId: 7, actionType: 'option_enable', payload: { optionId: 'niche', value: true } },
+    { proposalId: 8, actionType: 'option_select', payload: { optionId: 'tile', value: 'standard' }, zipcode: '78701', state: 'TX' },
+    { proposalId: null, actionType: 'option_enable', payload: { optionId: 'niche' } },
+    { proposalId: null, actionType: 'option_enable', payload: { optionId: 'niche' } },
+    { proposalId: 9, actionType: 'option_select', payload: { optionId: 'tile' } },
+    { proposalId: 9, actionType: 'scope_add', payload: { optionId: 'tile' } },
+  ];
+  const result = toOptionDecisions(rows);
+
+  assertEqual(result.length, 4, 'drops malformed rows and older saves of a proposal');
+  assertEqual(result[0].value, false, 'keeps the latest save of a proposal');
+  assertEqual([result[1].zipcode, result[1].state], ['78701', 'TX'], 'keeps geography');
+}
+
+function testPreferences() {
+  console.log('\n--- preferences ---');
+  const user = learnOptionPreferences(jobOptions, [
+    ...decisions('niche', [true, true, true, false]),
+    ...decisions('glass', [true, false]),
+    ...decisions('tile', ['porcelain', 'porcelain', 'porcelain', 'marble', 'marble']),
+  ], 3);
+
+  assertEqual(user.niche?.value, true, 'learns a boolean habit');
+  assertEqual([user.niche?.sampleCount, user.niche?.share], [4, 0.75], 'records sample count and share');
+  assert(!user.glass, 'needs enough decisions');
+  assertEqual(user.tile?.value, 'porcelain', 'ignores choices the option no longer offers');
+  assertEqual(user.tile?.sampleCount, 3, 'counts only current choices');
+
+  const split = learnOptionPreferences(jobOptions, decisions('niche', [true, false, true, false]), 3);
+  assert(!split.niche, 'no preference without a clear majority');
+
+  const zipDecisions = decisions('tile', Array(10).fill('porcelain'), { zipcode: '78701', state: 'TX' });
+  const stateDecisions = [
+    ...decisions('tile', Array(10).fill('standard'), { zipcode: '75001', state: 'TX' }),
+    ...decisions('niche', Array(12).fill(true), { zipcode: '75001', state: 'TX' }),
+  ];
+  const area = learnAreaOptionPreferences(jobOptions, [...zipDecisions, ...stateDecisions], { zipcode: '78701', state: 'TX' });
+
+  assertEqual([area.tile?.value, area.tile?.area], ['porcelain', '78701'], 'ZIP preferences win over the state');
+  assertEqual([area.niche?.value, area.niche?.area], [true, 'TX'], 'state fills options the ZIP lacks data on');
+}
+
+function testPreselections() {
+  console.log('\n--- preselections ---');
+  const user = learnOptionPreferences(jobOptions, [
+    ...decisions('tile', ['porcelain', 'porcelain', 'porcelain']),
+    ...decisions('glass', [false, false, false]),
+  ], 3);
+  const area = learnAreaOptionPreferences(jobOptions, [
+    ...decisions('niche', Array(10).fill(true), { zipcode: '78701' }),
+    ...decisions('glass', Array(10).fill(true), { zipcode: '78701' }),
+    ...decisions('tile', Array(10).fill('standard'), { zipcode: '78701' }),
+  ], { zipcode: '78701' });
+
+  const preselections = chooseOptionPreselections(jobOptions, user, area);
+
+  assertEqual(
+    preselections.map((p) => [p.optionId, p.value, p.source]),
+    [['niche', true, 'area'], ['tile', 'porcelain', 'user']],
+    'user habits win and a habit of leaving an option off blocks the area'
+  );
+  assertEqual(
+    preselections.map((p) => p.reason),
+    ['Most contractors in 78701 choose Add Shower Niche', 'Because you usually choose Large-Format Porcelain'],
+    'explains each preselection'
+  );
+  assert(preselections.every((p) => p.confidence > 0 && p.confidence <= 90), 'bounds confidence');
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Option Learning Unit Tests');
+  console.log('='.repeat(50));
+
+  testSelections();
+  testDecisions();
+  testPreferences();
+  testPreselections();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
@@ -0,0 +1,258 @@
+/**
+ * Option Learning
+ *
+ * Learns which JobOption choices a user (and contractors in their area)
+ * make, from the option actions logged whenever a proposal is saved, and
+ * turns clear habits into generator preselections ("because you usually
+ * choose X").
+ *
+ * Safe to import from client and server code.
+ */
+
+import type { JobOption } from '../../../lib/proposal-data';
+
+// ==========================================
+// Types
+// ==========================================
+
+export const OPTION_ACTION_TYPES = ['option_enable', 'option_disable', 'option_select'] as const;
+export type OptionActionType = typeof OPTION_ACTION_TYPES[number];
+
+/** A boolean option's state or a select option's choice value */
+export type OptionChoiceValue = boolean | string;
+
+/** One option's final state on a saved proposal, as it is logged */
+export interface OptionSelection {
+  actionType: OptionActionType;
+  optionId: string;
+  value: OptionChoiceValue;
+}
+
+/** A row of user_action_log as option learning reads it */
+export interface OptionActionRow {
+  proposalId: number | null;
+  actionType: string;
+  payload: Record<string, unknown> | null;
+  zipcode?: string | null;
+  state?: string | null;
+}
+
+export interface OptionDecision {
+  optionId: string;
+  value: OptionChoiceValue;
+  zipcode: string | null;
+  state: string | null;
+}
+
+export interface OptionPreference {
+  optionId: string;
+  value: OptionChoiceValue;
+  /** Decisions the preference is based on */
+  sampleCount: number;
+  /** Share of those decisions that picked `value` (0-1) */
+  share: number;
+  confidence: number;
+  /** ZIP or state for area preferences */
+  area?: string;
+}
+
+export interface OptionPreselection {
+  optionId: string;
+  value: OptionChoiceValue;
+  source: 'user' | 'area';
+  confidence: number;
+  sampleCount: number;
+  /** Choice (or option) label the preselection stands for */
+  label: string;
+  area?: string;
+  reason: string;
+}
+
+// ==========================================
+// Constants
+// ==========================================
+
+/** Trailing window of option decisions that feeds preferences */
+export const OPTION_LOOKBACK_DAYS = 180;
+
+/** Decisions a user needs on an option before their habit counts */
+export const MIN_USER_DECISIONS = 3;
+
+/** Decisions an area needs on an option before its habit counts */
+export const MIN_AREA_DECISIONS = 10;
+
+/** Share of decisions the most common value needs to be a preference */
+export const MIN_PREFERENCE_SHARE = 0.6;
+
+// ==========================================
+// Logging
+// ==========================================
+
+/**
+ * The state of every option a job type offers, given the options saved on a
+ * proposal. Unchecked boolean options count as disabled (the user saw them
+ * and left them off); select options without a valid choice are skipped.
+ */
+export function getOptionSelections(
+  jobOptions: JobOption[],
+  selected: Record<string, unknown> | null | undefined
+): OptionSelection[] {
+  const selections: OptionSelection[] = [];
+
+  for (const option of jobOptions) {
+    const value = selected?.[option.id];
+    if (option.type === 'boolean') {
+      const enabled = value === true;
+      selections.push({ actionType: enabled ? 'option_enable' : 'option_disable', optionId: option.id, value: enabled });
+    } else if (typeof value === 'string' && option.choices?.some((choice) => choice.value === value)) {
+      selections.push({ actionType: 'option_select', optionId: option.id, value });
+    }
+  }
+
+  return selections;
+}
+
+// ==========================================
+// Learning
+// ==========================================
+
+/**
+ * Decisions from option actions ordered newest first. A proposal counts once
+ * per option - its latest saved state - so re-saving a proposal does not
+ * weigh it twice.
+ */
+export function toOptionDecisions(rows: OptionActionRow[]): OptionDecision[] {
+  const seen = new Set<string>();
+  const decisions: OptionDecision[] = [];
+
+  for (const row of rows) {
+    const optionId = row.payload?.optionId;
+    if (typeof optionId !== 'string' || !optionId) continue;
+
+    let value: OptionChoiceValue;
+    if (row.actionType === 'option_enable') {
+      value = true;
+    } else if (row.actionType === 'option_disable') {
+      value = false;
+    } else if (row.actionType === 'option_select' && typeof row.payload?.value === 'string') {
+      value = row.payload.value;
+    } else {
+      continue;
+    }
+
+    if (row.proposalId !== null) {
+      const key = `${row.proposalId}:${optionId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+    }
+
+    decisions.push({ optionId, value, zipcode: row.zipcode ?? null, state: row.state ?? null });
+  }
+
+  return decisions;
+}
+
+function isCurrentValue(option: JobOption, value: OptionChoiceValue): boolean {
+  return option.type === 'boolean'
+    ? typeof value === 'boolean'
+    : typeof value === 'string' && !!option.choices?.some((choice) => choice.value === value);
+}
+
+/**
+ * The value picked in at least MIN_PREFERENCE_SHARE of the decisions on each
+ * option, for options with at least `minSamples` decisions. Decisions on
+ * choices the job type no longer offers are ignored.
+ */
+export function learnOptionPreferences(
+  jobOptions: JobOption[],
+  decisions: OptionDecision[],
+  minSamples: number,
+  area?: string
+): Record<string, OptionPreference> {
+  const preferences: Record<string, OptionPreference> = {};
+
+  for (const option of jobOptions) {
+    const counts = new Map<OptionChoiceValue, number>();
+    let total = 0;
+    for (const decision of decisions) {
+      if (decision.optionId !== option.id || !isCurrentValue(option, decision.value)) continue;
+      counts.set(decision.value, (counts.get(decision.value) ?? 0) + 1);
+      total++;
+    }
+    if (total < minSamples) continue;
+
+    const [value, count] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    const share = count / total;
+    if (share < MIN_PREFERENCE_SHARE) continue;
+
+    preferences[option.id] = {
+      optionId: option.id,
+      value,
+      sampleCount: total,
+      share,
+      confidence: Math.min(90, Math.round(share * (50 + total * 5))),
+      ...(area ? { area } : {}),
+    };
+  }
+
+  return preferences;
+}
+
+/**
+ * Area preferences from decisions in the job's ZIP, falling back to its state
+ * for options the ZIP has too little data on.
+ */
+export function learnAreaOptionPreferences(
+  jobOptions: JobOption[],
+  decisions: OptionDecision[],
+  geo: { zipcode?: string | null; state?: string | null }
+): Record<string, OptionPreference> {
+  const byState = geo.state
+    ? learnOptionPreferences(jobOptions, decisions.filter((d) => d.state === geo.state), MIN_AREA_DECISIONS, geo.state)
+    : {};
+  const byZip = geo.zipcode
+    ? learnOptionPreferences(jobOptions, decisions.filter((d) => d.zipcode === geo.zipcode), MIN_AREA_DECISIONS, geo.zipcode)
+    : {};
+  return { ...byState, ...byZip };
+}
+
+/** Display label for an option value: the choice label, or the option label when enabled */
+export function optionValueLabel(option: JobOption, value: OptionChoiceValue): string {
+  if (option.type === 'boolean') return option.label;
+  return option.choices?.find((choice) => choice.value === value)?.label ?? String(value);
+}
+
+/**
+ * Options to preselect when a job type is picked. The user's own habit wins
+ * over their area's; a habit of leaving a boolean option off means nothing
+ * is preselected for it (off is already the default).
+ */
+export function chooseOptionPreselections(
+  jobOptions: JobOption[],
+  user: Record<string, OptionPreference>,
+  area: Record<string, OptionPreference>
+): OptionPreselection[] {
+  const preselections: OptionPreselection[] = [];
+
+  for (const option of jobOptions) {
+    const preference = user[option.id] ?? area[option.id];
+    if (!preference || preference.value === false) continue;
+
+    const source = user[option.id] ? 'user' : 'area';
+    const label = optionValueLabel(option, preference.value);
+    preselections.push({
+      optionId: option.id,
+      value: preference.value,
+      source,
+      confidence: preference.confidence,
+      sampleCount: preference.sampleCount,
+      label,
+      ...(preference.area ? { area: preference.area } : {}),
+      reason: source === 'user'
+        ? `Because you usually choose ${label}`
+        : `Most contractors in ${preference.area ?? 'your area'} choose ${label}`,
+    });
+  }
+
+  return preselections;
+}
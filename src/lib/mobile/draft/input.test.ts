@@ -0,0 +1,193 @@
+/**
+ * Tests for Draft Input
+ *
+ * Verifies the structured draft input: validation, legacy questions upgrade,
+ * job notes and remedy scope generation.
+ * Run with: npx tsx src/lib/mobile/draft/input.test.ts
+ */
+
+import {
+  DRAFT_INPUT_VERSION,
+  buildDraftInput,
+  parseDraftInput,
+  draftInputFromLegacyQuestions,
+  hasExplicitScopeSelection,
+  buildDraftJobNotes,
+  getRemedySelections,
+  buildRemedyScope,
+} from "./input";
+import { ISSUE_TYPES_WITH_REMEDY, REMEDY_SECTION_TITLES } from "../remedy/types";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function run() {
+  console.log("=".repeat(60));
+  console.log("Draft Input Tests");
+  console.log("=".repeat(60));
+
+  // --- buildDraftInput / parseDraftInput ---
+  console.log("\n--- buildDraftInput / parseDraftInput ---");
+
+  const input = buildDraftInput({
+    selectedIssues: [
+      { id: "i1", label: "Leaking kitchen faucet", category: "repair", issueType: "leaking_faucet", selectedRemedy: "replace" },
+      { id: "i2", label: "Scuffed wall", category: "damage" },
+    ],
+    scopeSelection: {
+      selectedTierId: "tier-min",
+      answers: { paint_scope: "spot_repair", primer_needed: true },
+      measurements: { squareFeet: 20, ceilingHeight: 9 },
+      problemStatement: "Drip under sink",
+    },
+  });
+
+  assert(input.version === DRAFT_INPUT_VERSION, "Stamps the current version");
+  assert(input.problemStatement === "Drip under sink", "Falls back to scopeSelection problemStatement");
+  assert(parseDraftInput(JSON.parse(JSON.stringify(input))) !== null, "Round-trips through JSON storage");
+  assert(parseDraftInput(null) === null, "Rejects null");
+  assert(parseDraftInput({ ...input, version: 99 }) === null, "Rejects unknown versions");
+  assert(
+    parseDraftInput({ ...input, selectedIssues: [{ id: "x", label: "y", category: "z", selectedRemedy: "burn" }] }) === null,
+    "Rejects invalid remedy values"
+  );
+
+  let threw = false;
+  try {
+    buildDraftInput({ selectedIssues: [{ id: "x" } as never] });
+  } catch {
+    threw = true;
+  }
+  assert(threw, "buildDraftInput throws on malformed issues");
+
+  // --- draftInputFromLegacyQuestions ---
+  console.log("\n--- draftInputFromLegacyQuestions ---");
+
+  const legacy = draftInputFromLegacyQuestions([
+    "Leaking faucet",
+    "Loose handle",
+    "REMEDY:a=replace",
+    "ISSUE_TYPE:a=leaking_faucet",
+    "REMEDY:b=repair",
+    "SCOPE_TIER:tier-2",
+    "SCOPE_ANSWER:paint_scope=one_wall",
+    "MEASUREMENT:squareFeet=120",
+  ]);
+
+  assert(legacy.selectedIssues.length === 2, "Recovers one issue per label");
+  assert(legacy.selectedIssues[0].id === "a" && legacy.selectedIssues[0].selectedRemedy === "replace", "Matches first remedy to first label");
+  assert(legacy.selectedIssues[0].issueType === "leaking_faucet", "Recovers issue type");
+  assert(legacy.selectedIssues[1].selectedRemedy === "repair", "Matches second remedy to second label");
+  assert(legacy.scopeSelection?.selectedTierId === "tier-2", "Recovers scope tier");
+  assert(legacy.scopeSelection?.answers.paint_scope === "one_wall", "Recovers scope answers");
+  assert(legacy.scopeSelection?.measurements?.squareFeet === 120, "Recovers measurements");
+  assert(draftInputFromLegacyQuestions([]).scopeSelection === undefined, "Empty questions yield no scope selection");
+
+  // --- hasExplicitScopeSelection ---
+  console.log("\n--- hasExplicitScopeSelection ---");
+
+  assert(hasExplicitScopeSelection(input), "Selected issues count as explicit");
+  assert(!hasExplicitScopeSelection(buildDraftInput({})), "Empty input is not explicit");
+  assert(hasExplicitScopeSelection(buildDraftInput({ scopeSelection: { selectedTierId: "t", answers: {} } })), "Tier alone is explicit");
+  assert(!hasExplicitScopeSelection(null), "Missing input is not explicit");
+
+  // --- buildDraftJobNotes ---
+  console.log("\n--- buildDraftJobNotes ---");
+
+  const notes = buildDraftJobNotes("Customer home after 3pm", input);
+  assert(notes.startsWith("Customer home after 3pm"), "Keeps contractor notes first");
+  assert(notes.includes("Leaking kitchen faucet (ACTION: REPLACE); Scuffed wall"), "Attaches each remedy to its own issue");
+  assert(notes.includes("REPLACEMENT work for items marked as replace"), "Adds remedy instruction");
+  assert(notes.includes("CONFIRMED SCOPE TIER: tier-min"), "Includes scope tier");
+  assert(notes.includes("CONFIRMED PAINTING SCOPE: SPOT REPAIR ONLY"), "Labels painting scope");
+  assert(notes.includes("CONFIRMED MEASUREMENTS: 20 sq ft") && notes.includes("Ceiling height: 9 ft"), "Includes measurements");
+  assert(notes.includes("- primer needed: true"), "Lists other answers");
+  assert(buildDraftJobNotes(null, buildDraftInput({})) === "", "Empty input adds nothing");
+
+  // --- getRemedySelections / buildRemedyScope ---
+  console.log("\n--- getRemedySelections / buildRemedyScope ---");
+
+  const selections = getRemedySelections(input);
+  assert(selections.length === 1 && selections[0].issueType === "leaking_faucet", "Only issues with remedy support are selected");
+
+  const detected = getRemedySelections(
+    buildDraftInput({ selectedIssues: [{ id: "d", label: "Dripping bathroom faucet", category: "repair", selectedRemedy: "repair" }] })
+  );
+  assert(detected[0]?.issueType === "leaking_faucet", "Detects issue type from label when missing");
+
+  const replaceScope = buildRemedyScope(selections);
+  assert(replaceScope.scopeSections[0]?.title === "Faucet Replacement", "Titles replace section");
+  assert(
+    replaceScope.scopeItems.some((item) => item.includes("Install new faucet")),
+    "Falls back to heuristic replace scope when remedies are missing"
+  );
+
+  const custom = buildRemedyScope(
+    getRemedySelections(
+      buildDraftInput({
+        selectedIssues: [
+          {
+            id: "c",
+            label: "Faucet",
+            category: "repair",
+            issueType: "faucet_issue",
+            selectedRemedy: "repair",
+            remedies: { recommended: "repair", rationale: [], repair: { available: true, scopeItems: ["Swap cartridge."] } },
+          },
+        ],
+      })
+    )
+  );
+  assert(custom.scopeItems.length === 1 && custom.scopeItems[0] === "Swap cartridge.", "Uses the issue's own remedy scope items");
+
+  const twoFaucets = buildRemedyScope(
+    getRemedySelections(
+      buildDraftInput({
+        selectedIssues: [
+          { id: "f1", label: "Kitchen faucet leak", category: "repair", issueType: "leaking_faucet", selectedRemedy: "replace" },
+          { id: "f2", label: "Bath faucet leak", category: "repair", issueType: "leaking_faucet", selectedRemedy: "replace" },
+        ],
+      })
+    )
+  );
+  assert(twoFaucets.scopeSections.length === 1, "Same issue type and remedy share one section");
+
+  const first = JSON.stringify(buildRemedyScope(getRemedySelections(input)));
+  const second = JSON.stringify(buildRemedyScope(getRemedySelections(parseDraftInput(JSON.parse(JSON.stringify(input)))!)));
+  assert(first === second, "Stored input reproduces the same remedy scope");
+
+  for (const issueType of ISSUE_TYPES_WITH_REMEDY) {
+    for (const remedy of ["repair", "replace", "either"] as const) {
+      const scope = buildRemedyScope(
+        getRemedySelections(
+          buildDraftInput({ selectedIssues: [{ id: "t", label: issueType, category: "repair", issueType, selectedRemedy: remedy }] })
+        )
+      );
+      assert(
+        scope.scopeSections[0]?.title === REMEDY_SECTION_TITLES[issueType][remedy] && scope.scopeItems.length > 0,
+        `${issueType}/${remedy} produces a titled scope section`
+      );
+    }
+  }
+
+  // Print summary
+  console.log("\n" + "=".repeat(60));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log("=".repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+run();
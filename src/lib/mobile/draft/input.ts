@@ -0,0 +1,292 @@
+/**
+ * Draft Input
+ *
+ * The structured context a mobile draft is generated from: the issues the
+ * contractor selected (with their repair/replace remedy) and the confirmed
+ * scope from the findings flow. Stored on mobile_job_drafts.draft_input so a
+ * draft can be regenerated from exactly the input it was built with.
+ *
+ * Pure module - no database or AI calls.
+ */
+
+import { z } from "zod";
+import { scopeSelectionSchema, type ScopeSelection } from "@/src/lib/mobile/findings/types";
+import {
+  remedySchema,
+  REMEDY_SECTION_TITLES,
+  isKnownIssueType,
+  type KnownIssueType,
+  type Remedy,
+  type RemedyType,
+} from "@/src/lib/mobile/remedy/types";
+import { applyRemedyHeuristics, detectIssueType, getRemedyScopeItems } from "@/src/lib/mobile/remedy/heuristics";
+
+// Bump when the shape changes; parseDraftInput rejects versions it doesn't know
+export const DRAFT_INPUT_VERSION = 1;
+
+// Selected issue from the findings screen (with remedy support)
+export const selectedIssueSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  category: z.string(),
+  // Remedy fields (repair vs replace)
+  issueType: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  remedies: remedySchema.optional(),
+  selectedRemedy: z.enum(["repair", "replace", "either"]).optional(),
+});
+
+export type SelectedIssue = z.infer<typeof selectedIssueSchema>;
+
+export const draftInputSchema = z.object({
+  version: z.literal(DRAFT_INPUT_VERSION),
+  selectedIssues: z.array(selectedIssueSchema),
+  scopeSelection: scopeSelectionSchema.optional(),
+  problemStatement: z.string().optional(),
+});
+
+export type DraftInput = z.infer<typeof draftInputSchema>;
+
+export function buildDraftInput(params: {
+  selectedIssues?: SelectedIssue[];
+  problemStatement?: string;
+  scopeSelection?: ScopeSelection;
+}): DraftInput {
+  return draftInputSchema.parse({
+    version: DRAFT_INPUT_VERSION,
+    selectedIssues: params.selectedIssues ?? [],
+    scopeSelection: params.scopeSelection,
+    problemStatement: params.problemStatement ?? params.scopeSelection?.problemStatement,
+  });
+}
+
+export function parseDraftInput(value: unknown): DraftInput | null {
+  const parsed = draftInputSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Rebuild a DraftInput from the string markers older drafts encoded into the
+ * questions column (labels, REMEDY:, ISSUE_TYPE:, SCOPE_TIER:, SCOPE_ANSWER:,
+ * MEASUREMENT:). Only needed for drafts enqueued before draft_input existed.
+ */
+export function draftInputFromLegacyQuestions(questions: string[]): DraftInput {
+  const labels: string[] = [];
+  const issueIds: string[] = [];
+  const remedies: Record<string, RemedyType> = {};
+  const issueTypes: Record<string, string> = {};
+  const answers: Record<string, string> = {};
+  const measurements: Record<string, number> = {};
+  let selectedTierId: string | undefined;
+
+  const splitPair = (item: string, prefix: string) => {
+    const rest = item.slice(prefix.length);
+    const eq = rest.indexOf("=");
+    return eq === -1 ? [rest, ""] : [rest.slice(0, eq), rest.slice(eq + 1)];
+  };
+
+  for (const item of questions) {
+    if (item.startsWith("REMEDY:")) {
+      const [issueId, remedy] = splitPair(item, "REMEDY:");
+      if (issueId && (remedy === "repair" || remedy === "replace" || remedy === "either")) {
+        remedies[issueId] = remedy;
+        if (!issueIds.includes(issueId)) issueIds.push(issueId);
+      }
+    } else if (item.startsWith("ISSUE_TYPE:")) {
+      const [issueId, issueType] = splitPair(item, "ISSUE_TYPE:");
+      if (issueId && issueType) {
+        issueTypes[issueId] = issueType;
+        if (!issueIds.includes(issueId)) issueIds.push(issueId);
+      }
+    } else if (item.startsWith("SCOPE_TIER:")) {
+      selectedTierId = item.slice("SCOPE_TIER:".length);
+    } else if (item.startsWith("SCOPE_ANSWER:")) {
+      const [key, value] = splitPair(item, "SCOPE_ANSWER:");
+      if (key && value) answers[key] = value;
+    } else if (item.startsWith("MEASUREMENT:")) {
+      const [key, value] = splitPair(item, "MEASUREMENT:");
+      const n = parseFloat(value);
+      if (key && Number.isFinite(n)) measurements[key] = n;
+    } else {
+      labels.push(item);
+    }
+  }
+
+  // Labels and per-issue markers were written in the same issue order
+  const selectedIssues: SelectedIssue[] = labels.map((label, idx) => {
+    const id = issueIds[idx] ?? `legacy-${idx}`;
+    return {
+      id,
+      label,
+      category: "other",
+      issueType: issueTypes[id],
+      selectedRemedy: remedies[id],
+    };
+  });
+
+  const hasScope = !!selectedTierId || Object.keys(answers).length > 0 || Object.keys(measurements).length > 0;
+
+  return buildDraftInput({
+    selectedIssues,
+    scopeSelection: hasScope
+      ? {
+          selectedTierId,
+          answers,
+          measurements: Object.keys(measurements).length > 0 ? measurements : undefined,
+        }
+      : undefined,
+  });
+}
+
+/**
+ * True when the contractor confirmed issues or scope, in which case the draft
+ * must stick to that selection rather than whatever vision detected.
+ */
+export function hasExplicitScopeSelection(input: DraftInput | null | undefined): boolean {
+  if (!input) return false;
+  return (
+    input.selectedIssues.length > 0 ||
+    !!input.scopeSelection?.selectedTierId ||
+    Object.keys(input.scopeSelection?.answers ?? {}).length > 0
+  );
+}
+
+const PAINT_SCOPE_LABELS: Record<string, string> = {
+  spot_repair: "SPOT REPAIR ONLY (10-30 sq ft area)",
+  one_wall: "ONE WALL ONLY",
+  entire_room: "ENTIRE ROOM (all walls)",
+  entire_house: "ENTIRE HOUSE/BUILDING",
+};
+
+function formatAnswer(value: string | number | boolean | string[]): string {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+/**
+ * Job notes handed to scope enhancement: the contractor's own notes followed
+ * by the confirmed issues, remedies, scope tier, answers and measurements.
+ */
+export function buildDraftJobNotes(jobNotes: string | null | undefined, input: DraftInput): string {
+  let notes = jobNotes ?? "";
+
+  if (input.selectedIssues.length > 0) {
+    const issueDescriptions = input.selectedIssues.map((issue) =>
+      issue.selectedRemedy ? `${issue.label} (ACTION: ${issue.selectedRemedy.toUpperCase()})` : issue.label
+    );
+    notes += `\n\nSelected issues to address: ${issueDescriptions.join("; ")}`;
+
+    const hasReplacementItems = input.selectedIssues.some((i) => i.selectedRemedy === "replace");
+    const hasRepairItems = input.selectedIssues.some((i) => i.selectedRemedy === "repair");
+    if (hasReplacementItems || hasRepairItems) {
+      const parts: string[] = [];
+      if (hasRepairItems) parts.push("REPAIR work for items marked as repair");
+      if (hasReplacementItems) parts.push("REPLACEMENT work for items marked as replace");
+      notes += `\n\nIMPORTANT: Scope ONLY includes ${parts.join(" and ")}. Generate appropriate scope items for each action type.`;
+    }
+  }
+
+  const scope = input.scopeSelection;
+  if (scope) {
+    // Scope context is critical for accurate pricing
+    if (scope.selectedTierId) {
+      notes += `\n\nCONFIRMED SCOPE TIER: ${scope.selectedTierId}`;
+    }
+
+    const paintScope = scope.answers.paint_scope;
+    if (paintScope !== undefined) {
+      const value = formatAnswer(paintScope);
+      notes += `\n\nCONFIRMED PAINTING SCOPE: ${PAINT_SCOPE_LABELS[value] || value}`;
+      notes += `\nIMPORTANT: Price ONLY for the confirmed scope above. Do NOT assume larger scope.`;
+    }
+
+    const m = scope.measurements;
+    if (m?.squareFeet) {
+      notes += `\n\nCONFIRMED MEASUREMENTS: ${m.squareFeet} sq ft`;
+    }
+    if (m?.linearFeet) notes += `\nLinear feet: ${m.linearFeet}`;
+    if (m?.roomCount) notes += `\nRooms: ${m.roomCount}`;
+    if (m?.wallCount) notes += `\nWalls: ${m.wallCount}`;
+    if (m?.ceilingHeight) notes += `\nCeiling height: ${m.ceilingHeight} ft`;
+
+    const otherAnswers = Object.entries(scope.answers).filter(([k]) => k !== "paint_scope");
+    if (otherAnswers.length > 0) {
+      notes += `\n\nAdditional scope details:`;
+      for (const [key, value] of otherAnswers) {
+        notes += `\n- ${key.replace(/_/g, " ")}: ${formatAnswer(value)}`;
+      }
+    }
+  }
+
+  return notes.trim();
+}
+
+export interface RemedySelection {
+  issueId: string;
+  issueType: KnownIssueType;
+  remedy: RemedyType;
+  remedies: Remedy | undefined;
+}
+
+/**
+ * Selected issues that carry a remedy choice for an issue type with remedy
+ * support. The issue type is detected from the label when the client didn't
+ * send one.
+ */
+export function getRemedySelections(input: DraftInput): RemedySelection[] {
+  const selections: RemedySelection[] = [];
+  for (const issue of input.selectedIssues) {
+    const remedy = issue.selectedRemedy ?? issue.remedies?.selectedRemedy;
+    if (!remedy) continue;
+    const issueType = issue.issueType ?? detectIssueType(issue.label);
+    if (!isKnownIssueType(issueType)) continue;
+    selections.push({ issueId: issue.id, issueType, remedy, remedies: issue.remedies });
+  }
+  return selections;
+}
+
+export interface RemedyScopeSection {
+  title: string;
+  items: string[];
+  remedy: RemedyType;
+}
+
+/**
+ * Remedy-specific scope sections for the selected issues. Issues that arrive
+ * without remedy options get the heuristic templates for their type, so the
+ * same input always yields the same scope.
+ */
+export function buildRemedyScope(selections: RemedySelection[]): {
+  scopeItems: string[];
+  scopeSections: RemedyScopeSection[];
+} {
+  const scopeItems: string[] = [];
+  const scopeSections: RemedyScopeSection[] = [];
+  const seen = new Set<string>();
+
+  for (const selection of selections) {
+    const title = REMEDY_SECTION_TITLES[selection.issueType][selection.remedy];
+    // Two faucets marked "replace" share one section
+    if (seen.has(title)) continue;
+    seen.add(title);
+
+    const remedies =
+      selection.remedies ??
+      applyRemedyHeuristics({
+        id: selection.issueId,
+        label: selection.issueType,
+        confidence: 1,
+        category: "repair",
+        photoIds: [],
+        issueType: selection.issueType,
+        tags: [],
+      }).remedies;
+
+    const items = getRemedyScopeItems(selection.issueType, selection.remedy, remedies);
+    if (items.length === 0) continue;
+
+    scopeItems.push(...items);
+    scopeSections.push({ title, items, remedy: selection.remedy });
+  }
+
+  return { scopeItems, scopeSections };
+}
@@ -2,17 +2,17 @@ import { db } from "@/lib/services/db";
 import { onebuildPriceCache } from "@shared/schema";
 import { and, desc, eq, gt } from "drizzle-orm";
 import { oneBuildService } from "@/lib/services/onebuild";
+import { lookupCostIndex } from "@/lib/cost-index";
+import type { CostIndexMatch } from "@shared/schema";
 
-export function extractZip(address?: string | null) {
-  if (!address) return null;
-  const m = address.match(/\b(\d{5})(?:-\d{4})?\b/);
-  return m ? m[1] : null;
-}
+export { extractZip } from "@/lib/cost-index";
 
 export type OneBuildTradePricing = Awaited<ReturnType<typeof oneBuildService.getTradePricing>> & {
   _meta: {
     zipcode: string;
     location?: string;
+    // Cost index geography the ZIP resolved to (also what 1build was searched by)
+    costIndex: CostIndexMatch;
     fetchedAt: string;
     source: "cache" | "live";
   };
@@ -39,6 +39,7 @@ export async function getOneBuildTradePricingBestEffort(params: {
 }): Promise<OneBuildTradePricing | null> {
   const now = new Date();
   const ttlHours = params.ttlHours ?? 24 * 7;
+  const costIndex = lookupCostIndex({ zip: params.zipcode });
 
   // Prefer unexpired cache
   const [cached] = await db
@@ -60,6 +61,7 @@ export async function getOneBuildTradePricingBestEffort(params: {
       _meta: {
         zipcode: params.zipcode,
         location: cached.location ?? undefined,
+        costIndex,
         fetchedAt: cached.fetchedAt.toISOString(),
         source: "cache",
       },
@@ -83,7 +85,7 @@ export async function getOneBuildTradePricingBestEffort(params: {
       tradeId: params.tradeId,
       zipcode: params.zipcode,
       payload,
-      location: params.zipcode,
+      location: costIndex.label,
       fetchedAt: now,
       expiresAt,
     } as typeof onebuildPriceCache.$inferInsert);
@@ -92,7 +94,8 @@ export async function getOneBuildTradePricingBestEffort(params: {
       ...payload,
       _meta: {
         zipcode: params.zipcode,
-        location: params.zipcode,
+        location: costIndex.label,
+        costIndex,
         fetchedAt: now.toISOString(),
         source: "live",
       },
@@ -1,8 +1,12 @@
 import { aiService } from "@/lib/services/aiService";
-import type { ProposalLineItem, ProposalTemplate, User } from "@shared/schema";
+import type { CostIndexMatch, ProposalLineItem, ProposalTemplate, RoofingMeasurements, User } from "@shared/schema";
 import { computePriceRange } from "./pricebook";
 import { extractZip, getOneBuildTradePricingBestEffort, marketMultiplierFromOneBuild } from "./marketPricing";
-import { getRemedyScopeItems, type RemedyType } from "@/src/lib/mobile/remedy";
+import { lookupCostIndex } from "@/lib/cost-index";
+import { buildRemedyScope, getRemedySelections, hasExplicitScopeSelection, type DraftInput } from "./input";
+import { buildSegmentLineItems, parseMeasurementSession } from "../measurements/session";
+import { computeRoofingTakeoff, takeoffScopeItems, takeoffScopeSection } from "@/lib/roofing-takeoff/takeoff";
+import { applyPricePrior, similarJobsPricePrior, type SimilarJob } from "@/src/lib/similar-jobs/prior";
 
 export type MobileJobInput = {
   id: number;
@@ -14,6 +18,8 @@ export type MobileJobInput = {
   jobTypeName: string;
   jobSize: number;
   jobNotes: string | null;
+  // Raw mobile_jobs.measurements (map measurement session or legacy shape)
+  measurements?: unknown;
 };
 
 export type MobilePhotoInput = {
@@ -28,6 +34,7 @@ export type MobileDraftOutput = {
   questions: string[];
   pricing: {
     pricebookVersion: string;
+    costIndex: CostIndexMatch;
     inputs: unknown;
   };
 };
@@ -131,62 +138,12 @@ function extractVisionContext(photos: Array<{ findings?: unknown }>): {
   };
 }
 
-/**
- * Parse remedy selections from job notes
- * Returns map of issue types to selected remedies
- */
-function parseRemedySelectionsFromNotes(notes: string): Map<string, RemedyType> {
-  const remedyMap = new Map<string, RemedyType>();
-  
-  // Look for ACTION: REPAIR or ACTION: REPLACE markers in the notes
-  const actionMatches = notes.matchAll(/([^;,]+?)\s*\(ACTION:\s*(REPAIR|REPLACE)\)/gi);
-  for (const match of actionMatches) {
-    const label = match[1].trim().toLowerCase();
-    const remedy = match[2].toLowerCase() as RemedyType;
-    
-    // Try to determine issue type from label
-    if (label.includes("faucet") || label.includes("tap")) {
-      remedyMap.set("leaking_faucet", remedy);
-    }
-    // Future: add more issue type detection
-  }
-  
-  return remedyMap;
-}
-
-/**
- * Generate remedy-specific scope sections
- * Returns scope items to prepend based on remedy selections
- */
-function generateRemedyScopeItems(remedySelections: Map<string, RemedyType>): {
-  scopeItems: string[];
-  scopeSections: Array<{ title: string; items: string[]; remedy: RemedyType }>;
-} {
-  const scopeItems: string[] = [];
-  const scopeSections: Array<{ title: string; items: string[]; remedy: RemedyType }> = [];
-  
-  for (const [issueType, remedy] of remedySelections) {
-    const items = getRemedyScopeItems(issueType, remedy);
-    
-    if (items.length > 0) {
-      // Add to flat list
-      scopeItems.push(...items);
-      
-      // Add as section with title
-      let title = "Work Scope";
-      if (issueType === "leaking_faucet" || issueType === "faucet_issue") {
-        title = remedy === "replace" ? "Faucet Replacement" : "Faucet Repair";
-      }
-      
-      scopeSections.push({ title, items, remedy });
-    }
-  }
-  
-  return { scopeItems, scopeSections };
-}
-
 // Build comprehensive job notes from vision analysis
-function buildVisionNotes(visionContext: ReturnType<typeof extractVisionContext>, userNotes?: string | null): string {
+function buildVisionNotes(
+  visionContext: ReturnType<typeof extractVisionContext>,
+  userNotes: string | null | undefined,
+  explicitScopeSelection: boolean
+): string {
   const parts: string[] = [];
 
   if (userNotes?.trim()) {
@@ -199,18 +156,7 @@ function buildVisionNotes(visionContext: ReturnType<typeof extractVisionContext>
    * the enhancement prompt. Otherwise the enhancer can "helpfully" add unselected
    * items (e.g., sink/staining) and create scope creep.
    */
-  const hasExplicitScopeSelection = (() => {
-    const t = userNotes?.toLowerCase() || "";
-    return (
-      t.includes("selected issues to address:") ||
-      t.includes("confirmed scope tier:") ||
-      t.includes("confirmed painting scope:") ||
-      t.includes("important: price only for the confirmed scope") ||
-      t.includes("important: scope only includes")
-    );
-  })();
-
-  if (hasExplicitScopeSelection) {
+  if (explicitScopeSelection) {
     // Only pass through the contractor-confirmed notes. Do not add any additional
     // scope signals from vision that could conflict with explicit selections.
     return parts.join("\n\n");
@@ -243,6 +189,10 @@ function buildVisionNotes(visionContext: ReturnType<typeof extractVisionContext>
   return parts.join("\n\n");
 }
 
+// GOOD/BETTER/BEST price multipliers over the base line items
+const PACKAGE_MULTIPLIERS = { GOOD: 1, BETTER: 1.08, BEST: 1.18 } as const;
+const DEFAULT_PACKAGE = "BETTER";
+
 export async function generateMobileDraft(params: {
   job: MobileJobInput;
   template: Pick<
@@ -259,16 +209,23 @@ export async function generateMobileDraft(params: {
     | "warranty"
     | "exclusions"
   >;
-  user: Pick<User, "priceMultiplier" | "tradeMultipliers">;
+  user: Pick<User, "priceMultiplier" | "tradeMultipliers" | "roofingWasteConfig">;
   photos: Array<MobilePhotoInput & { findings?: unknown }>;
+  // Structured selections/scope; job.jobNotes should already include their notes
+  draftInput?: DraftInput | null;
+  // Completed EagleView report for roofing jobs; drives the material takeoff
+  roofingMeasurements?: RoofingMeasurements | null;
+  // Nearest past jobs by photo embedding; their prices pull the range toward what the user charges
+  similarJobs?: SimilarJob[] | null;
 }): Promise<MobileDraftOutput> {
-  const { job, template, user, photos } = params;
+  const { job, template, user, photos, draftInput, roofingMeasurements, similarJobs } = params;
 
   const zipcode = extractZip(job.address);
   const onebuild = zipcode
     ? await getOneBuildTradePricingBestEffort({ tradeId: template.tradeId, zipcode, timeoutMs: 1200 })
     : null;
   const { multiplier: marketMultiplier, basis: marketBasis } = marketMultiplierFromOneBuild(template.tradeId, onebuild);
+  const costIndex = onebuild?._meta.costIndex ?? lookupCostIndex({ zip: zipcode, address: job.address });
 
   // Extract detailed vision findings from all photos
   const visionContext = extractVisionContext(photos);
@@ -284,15 +241,15 @@ export async function generateMobileDraft(params: {
   });
 
   // Build comprehensive notes from vision + user input
-  const comprehensiveNotes = buildVisionNotes(visionContext, job.jobNotes);
+  const comprehensiveNotes = buildVisionNotes(visionContext, job.jobNotes, hasExplicitScopeSelection(draftInput));
 
-  // Parse remedy selections from job notes (if any)
-  const remedySelections = parseRemedySelectionsFromNotes(job.jobNotes ?? "");
-  const { scopeItems: remedyScopeItems, scopeSections: remedyScopeSections } = generateRemedyScopeItems(remedySelections);
+  // Remedy selections come straight from the structured draft input
+  const remedySelections = draftInput ? getRemedySelections(draftInput) : [];
+  const { scopeItems: remedyScopeItems, scopeSections: remedyScopeSections } = buildRemedyScope(remedySelections);
   
   console.log("draft.remedySelections", {
     jobId: job.id,
-    selectionsCount: remedySelections.size,
+    selectionsCount: remedySelections.length,
     remedyScopeItemsCount: remedyScopeItems.length,
   });
 
@@ -300,12 +257,13 @@ export async function generateMobileDraft(params: {
   // Otherwise fall back to template base scope
   let baseScope = template.baseScope;
   if (remedyScopeItems.length > 0) {
+    const hasReplacementRemedy = remedySelections.some(s => s.remedy === "replace");
+    const hasRepairRemedy = remedySelections.some(s => s.remedy === "repair");
+
     // Prepend remedy-specific scope items to the base scope
     baseScope = [...remedyScopeItems, ...template.baseScope.filter(item => {
       // Filter out generic items that conflict with specific remedy items
       const itemLower = item.toLowerCase();
-      const hasReplacementRemedy = Array.from(remedySelections.values()).includes("replace");
-      const hasRepairRemedy = Array.from(remedySelections.values()).includes("repair");
       
       // Don't include generic "repair" items if we're doing a replacement
       if (hasReplacementRemedy && !hasRepairRemedy) {
@@ -337,10 +295,17 @@ export async function generateMobileDraft(params: {
     jobSize: job.jobSize,
     userPriceMultiplier: user.priceMultiplier,
     tradeMultiplier: typeof tradeMult === "number" ? tradeMult : null,
-    marketMultiplier,
+    marketMultiplier: marketBasis === "none" ? null : marketMultiplier,
+    costIndexMultiplier: costIndex.multiplier,
   };
 
-  const { priceLow, priceHigh } = computePriceRange(pricingInputs);
+  const pricebookRange = computePriceRange(pricingInputs);
+  const pricePrior = similarJobs
+    ? similarJobsPricePrior(similarJobs, { jobTypeId: template.jobTypeId, jobSize: job.jobSize })
+    : null;
+  const { priceLow, priceHigh } = pricePrior
+    ? applyPricePrior(pricebookRange, pricePrior, PACKAGE_MULTIPLIERS[DEFAULT_PACKAGE])
+    : pricebookRange;
 
   // Build scope sections for structured display (if remedy selections present)
   const scopeSections: Array<{ title: string; items: string[]; remedy?: "repair" | "replace" | "either" }> = [];
@@ -364,6 +329,12 @@ export async function generateMobileDraft(params: {
     }
   }
 
+  // Roofing jobs with a measured roof list the materials to order
+  const roofTakeoff = roofingMeasurements ? computeRoofingTakeoff(roofingMeasurements, user.roofingWasteConfig) : null;
+  if (roofTakeoff && roofTakeoff.items.length > 0 && scopeSections.length > 0) {
+    scopeSections.push(takeoffScopeSection(roofTakeoff));
+  }
+
   const lineItem: ProposalLineItem = {
     id: crypto.randomUUID(),
     tradeId: template.tradeId,
@@ -371,7 +342,8 @@ export async function generateMobileDraft(params: {
     jobTypeId: template.jobTypeId,
     jobTypeName: template.jobTypeName,
     jobSize: job.jobSize,
-    scope,
+    ...(roofTakeoff && roofTakeoff.roofAreaSqFt > 0 && { footage: roofTakeoff.roofAreaSqFt }),
+    scope: roofTakeoff ? [...scope, ...takeoffScopeItems(roofTakeoff)] : scope,
     // Include structured scope sections if available
     ...(scopeSections.length > 0 && { scopeSections }),
     options: {},
@@ -383,26 +355,30 @@ export async function generateMobileDraft(params: {
     exclusions: template.exclusions ?? undefined,
   };
 
+  // Map-measured jobs get one line item per fence run / area
+  const measurementSession = parseMeasurementSession(job.measurements);
+  const baseItems = measurementSession ? buildSegmentLineItems(lineItem, measurementSession) : [lineItem];
+
   // Packages: GOOD/BETTER/BEST feel instant onsite.
-  const good: ProposalLineItem = { ...lineItem };
-  const better: ProposalLineItem = {
-    ...lineItem,
+  const good: ProposalLineItem[] = baseItems.map((item) => ({ ...item }));
+  const better: ProposalLineItem[] = baseItems.map((item) => ({
+    ...item,
     id: crypto.randomUUID(),
-    scope: [...lineItem.scope, "Confirm field measurements and verify existing conditions prior to install."],
-    priceLow: Math.round(lineItem.priceLow * 1.08),
-    priceHigh: Math.round(lineItem.priceHigh * 1.08),
-  };
-  const best: ProposalLineItem = {
-    ...lineItem,
+    scope: [...item.scope, "Confirm field measurements and verify existing conditions prior to install."],
+    priceLow: Math.round(item.priceLow * PACKAGE_MULTIPLIERS.BETTER),
+    priceHigh: Math.round(item.priceHigh * PACKAGE_MULTIPLIERS.BETTER),
+  }));
+  const best: ProposalLineItem[] = baseItems.map((item) => ({
+    ...item,
     id: crypto.randomUUID(),
     scope: [
-      ...lineItem.scope,
+      ...item.scope,
       "Include premium protection of adjacent finishes and enhanced daily jobsite cleanup.",
       "Provide photo documentation of key in-wall conditions as discovered.",
     ],
-    priceLow: Math.round(lineItem.priceLow * 1.18),
-    priceHigh: Math.round(lineItem.priceHigh * 1.18),
-  };
+    priceLow: Math.round(item.priceLow * PACKAGE_MULTIPLIERS.BEST),
+    priceHigh: Math.round(item.priceHigh * PACKAGE_MULTIPLIERS.BEST),
+  }));
 
   const questions: string[] = [];
   if (!enhance.success) {
@@ -440,6 +416,9 @@ export async function generateMobileDraft(params: {
   
   // Market pricing boost
   if (onebuild) confidence += 5;
+
+  // The user's own comparable jobs back the price
+  if (pricePrior) confidence += 5;
   
   confidence = Math.max(0, Math.min(95, confidence));
   
@@ -451,26 +430,42 @@ export async function generateMobileDraft(params: {
   });
 
   // Calculate totals as midpoint of priceLow and priceHigh for each package
-  const goodTotal = Math.round((good.priceLow + good.priceHigh) / 2);
-  const betterTotal = Math.round((better.priceLow + better.priceHigh) / 2);
-  const bestTotal = Math.round((best.priceLow + best.priceHigh) / 2);
+  const packageTotal = (items: ProposalLineItem[]) =>
+    items.reduce((sum, item) => sum + Math.round((item.priceLow + item.priceHigh) / 2), 0);
 
   return {
     packages: {
-      GOOD: { label: "Good", total: goodTotal, lineItems: [good] },
-      BETTER: { label: "Better", total: betterTotal, lineItems: [better] },
-      BEST: { label: "Best", total: bestTotal, lineItems: [best] },
+      GOOD: { label: "Good", total: packageTotal(good), lineItems: good },
+      BETTER: { label: "Better", total: packageTotal(better), lineItems: better },
+      BEST: { label: "Best", total: packageTotal(best), lineItems: best },
     },
-    defaultPackage: "BETTER",
+    defaultPackage: DEFAULT_PACKAGE,
     confidence,
     questions,
     pricing: {
       pricebookVersion: process.env.PRICEBOOK_VERSION || "v1",
+      costIndex,
       inputs: {
         ...pricingInputs,
         onebuild: onebuild
           ? { source: onebuild._meta.source, zipcode: onebuild._meta.zipcode, basis: marketBasis }
           : null,
+        similarJobs: pricePrior
+          ? {
+              anchor: pricePrior.anchor,
+              weight: Math.round(pricePrior.weight * 100) / 100,
+              jobIds: pricePrior.jobIds,
+              pricebookLow: pricebookRange.priceLow,
+              pricebookHigh: pricebookRange.priceHigh,
+            }
+          : null,
+        roofTakeoff: roofTakeoff
+          ? {
+              complexity: roofTakeoff.complexity,
+              shingleWastePercent: roofTakeoff.shingleWastePercent,
+              orderSquares: roofTakeoff.orderSquares,
+            }
+          : null,
       },
     },
   };
@@ -5,12 +5,15 @@ export function computePriceRange(params: {
   userPriceMultiplier?: number | null; // percent, e.g. 110
   tradeMultiplier?: number | null; // percent, e.g. 105
   marketMultiplier?: number | null; // 0.9 - 1.15 (heuristic)
+  costIndexMultiplier?: number | null; // regional labor cost index, 1 = national average
 }) {
   const sizeFactor = params.jobSize === 1 ? 0.85 : params.jobSize === 3 ? 1.35 : 1;
   const userMult = (params.userPriceMultiplier ?? 100) / 100;
   const tradeMult = (params.tradeMultiplier ?? 100) / 100;
-  const marketMult = params.marketMultiplier ?? 1;
-  const mult = userMult * tradeMult * marketMult;
+  // Live 1build market data is the more specific regional signal; the bundled
+  // cost index covers every other address.
+  const regionalMult = params.marketMultiplier ?? params.costIndexMultiplier ?? 1;
+  const mult = userMult * tradeMult * regionalMult;
 
   const priceLow = Math.round(params.basePriceLow * sizeFactor * mult);
   const priceHigh = Math.round(params.basePriceHigh * sizeFactor * mult);
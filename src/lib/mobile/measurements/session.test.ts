@@ -0,0 +1,166 @@
+/**
+ * Tests for Measurement Sessions
+ *
+ * Verifies segment geometry (gates, cut-outs), totals, stored-value parsing
+ * including legacy single measurements, and per-segment line items.
+ * Run with: npx tsx src/lib/mobile/measurements/session.test.ts
+ */
+
+import type { ProposalLineItem } from "@shared/schema";
+import {
+  buildMeasurementSession,
+  buildSegmentLineItems,
+  computeAreaSegment,
+  computeCubicYards,
+  computeFenceSegment,
+  createSegment,
+  describeSegmentScope,
+  parseMeasurementSession,
+  planarGeometry,
+  type AreaSegment,
+  type LatLngPoint,
+} from "./session";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function near(actual: number, expected: number, tolerance: number) {
+  return Math.abs(actual - expected) <= tolerance;
+}
+
+// Roughly 1 ft in degrees of latitude; longitude scaled for the test latitude
+const LAT = 30.2672;
+const FT_LAT = 1 / 364_000;
+const FT_LNG = FT_LAT / Math.cos((LAT * Math.PI) / 180);
+
+function rect(x: number, y: number, w: number, h: number): LatLngPoint[] {
+  const p = (fx: number, fy: number) => ({ lat: LAT + fy * FT_LAT, lng: -97.7431 + fx * FT_LNG });
+  return [p(x, y), p(x + w, y), p(x + w, y + h), p(x, y + h)];
+}
+
+function area(id: string, points: LatLngPoint[], cutouts: LatLngPoint[][] = []): AreaSegment {
+  return computeAreaSegment({ kind: "area", id, name: id, material: "concrete", thicknessIn: 4, points, cutouts });
+}
+
+const baseItem: ProposalLineItem = {
+  id: "base",
+  tradeId: "concrete",
+  tradeName: "Concrete",
+  jobTypeId: "driveway",
+  jobTypeName: "Driveway",
+  jobSize: 2,
+  scope: ["Form and pour."],
+  options: {},
+  priceLow: 10000,
+  priceHigh: 12000,
+};
+
+function run() {
+  console.log("=".repeat(60));
+  console.log("Measurement Session Tests");
+  console.log("=".repeat(60));
+
+  // --- geometry ---
+  console.log("\n--- geometry ---");
+
+  const square = rect(0, 0, 20, 20);
+  assert(near(planarGeometry.polygonAreaSqFt(square), 400, 4), "20x20 ft square is ~400 sq ft");
+  assert(near(planarGeometry.pathLengthFeet(square.slice(0, 2)), 20, 0.3), "20 ft edge measures ~20 ft");
+  assert(computeCubicYards(270, 4) === 3.7, "270 sq ft at 4in is 3.7 CY with waste");
+
+  // --- fence runs ---
+  console.log("\n--- fence runs ---");
+
+  const run1 = computeFenceSegment({ kind: "fence", id: "r1", name: "Back", material: "wood", gateCount: 2, points: rect(0, 0, 50, 0).slice(0, 2) });
+  assert(near(run1.lengthLF, 50, 0.5), "Run length from points");
+  assert(computeFenceSegment({ ...run1, gateCount: -1 }).gateCount === 0, "Negative gate counts clamp to 0");
+  assert(computeFenceSegment({ ...run1, points: run1.points.slice(0, 1) }).lengthLF === 0, "Single point has no length");
+
+  // --- areas and cut-outs ---
+  console.log("\n--- areas and cut-outs ---");
+
+  const plain = area("a", rect(0, 0, 40, 20));
+  const withCutout = area("b", rect(0, 0, 40, 20), [rect(5, 5, 10, 10), rect(0, 0, 1, 1).slice(0, 2)]);
+  assert(near(plain.areaSF, 800, 8), "Area from outline");
+  assert(withCutout.cutouts.length === 1, "Degenerate cut-outs are dropped");
+  assert(near(withCutout.cutoutSF, 100, 1) && near(withCutout.areaSF, 700, 8), "Cut-outs subtract from net area");
+  assert(withCutout.grossSF === plain.grossSF, "Gross area ignores cut-outs");
+  assert(withCutout.perimeterLF === plain.perimeterLF, "Perimeter is the outer edge only");
+  assert(withCutout.cubicYards < plain.cubicYards, "Volume uses net area");
+  assert(area("c", rect(0, 0, 10, 10), [rect(0, 0, 20, 20)]).areaSF === 0, "Net area never goes negative");
+
+  // --- sessions ---
+  console.log("\n--- sessions ---");
+
+  const first = createSegment("driveway", [], "a1");
+  const second = createSegment("driveway", [first], "a2");
+  assert(first.name === "Driveway" && second.name === "Area 2", "Driveway sessions name their areas");
+  assert(createSegment("fence", [], "r").name === "Run 1", "Fence sessions name their runs");
+
+  const session = buildMeasurementSession("driveway", [plain, withCutout, second]);
+  assert(near(session.totals.areaSF, plain.areaSF + withCutout.areaSF, 0.2), "Totals add net areas");
+  const fences = buildMeasurementSession("fence", [run1, { ...run1, id: "r2", gateCount: 1 }]);
+  assert(fences.totals.gateCount === 3, "Totals add gates");
+
+  const roundTrip = parseMeasurementSession(JSON.parse(JSON.stringify(session)));
+  assert(roundTrip?.segments.length === 3 && roundTrip.totals.areaSF === session.totals.areaSF, "Stored session round-trips");
+  assert(parseMeasurementSession({ ...session, version: 99 }) === null, "Unknown versions are rejected");
+  assert(parseMeasurementSession(null) === null && parseMeasurementSession({ foo: 1 }) === null, "Junk is rejected");
+
+  const legacyFence = parseMeasurementSession({ fenceLinePoints: run1.points, fenceLF: 50 });
+  assert(
+    legacyFence?.trade === "fence" && legacyFence.segments.length === 1 && legacyFence.totals.fenceLF === run1.lengthLF,
+    "Legacy fence measurement becomes a one-run session"
+  );
+  const legacyDriveway = parseMeasurementSession({
+    drivewayPolygonPoints: plain.points,
+    drivewaySF: 800,
+    drivewayPerimeterLF: 120,
+    drivewayThicknessIn: 6,
+    drivewayCY: 16.3,
+  });
+  const legacyArea = legacyDriveway?.segments[0];
+  assert(
+    legacyArea?.kind === "area" && legacyArea.thicknessIn === 6 && legacyArea.name === "Driveway",
+    "Legacy driveway measurement keeps its thickness"
+  );
+
+  // --- line items ---
+  console.log("\n--- line items ---");
+
+  const items = buildSegmentLineItems(baseItem, session);
+  assert(items.length === 2, "One line item per measured segment (unmeasured skipped)");
+  assert(items[0].jobTypeName === "Driveway - a" && items[0].footage === plain.areaSF, "Line item names the segment and its quantity");
+  assert(items[1].scope.some((s) => s.includes("cut-out")), "Cut-outs noted in scope");
+  assert(items[0].scope[items[0].scope.length - 1] === "Form and pour.", "Job scope follows segment scope");
+  assert(new Set(items.map((i) => i.id)).size === 2, "Line items get their own ids");
+  const low = items.reduce((sum, i) => sum + i.priceLow, 0);
+  assert(near(low, baseItem.priceLow, 2), "Prices split by quantity and add back up");
+  assert(items[0].priceLow > items[1].priceLow, "Larger area gets the larger share");
+
+  assert(buildSegmentLineItems(baseItem, buildMeasurementSession("driveway", [second]))[0] === baseItem, "No measured segments keeps the job item");
+  const single = buildSegmentLineItems(baseItem, buildMeasurementSession("fence", [run1]));
+  assert(single.length === 1 && single[0].id === "base" && single[0].priceLow === 10000, "Single segment keeps the full price");
+  assert(describeSegmentScope(run1).some((s) => s.includes("2 gates")), "Gates noted in scope");
+
+  // Print summary
+  console.log("\n" + "=".repeat(60));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log("=".repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,441 @@
+import { z } from "zod";
+import type { ProposalLineItem } from "@shared/schema";
+
+/**
+ * Measurement sessions for the satellite map tool.
+ *
+ * A session holds every fence run (with gates) or paved area (with cut-outs)
+ * measured for one mobile job. It is stored on mobile_jobs.measurements and
+ * each measured segment becomes its own proposal line item.
+ *
+ * Jobs measured before sessions existed hold a single fence line
+ * ({ fenceLinePoints, fenceLF }) or driveway polygon ({ drivewayPolygonPoints,
+ * drivewaySF, ... }); parseMeasurementSession upgrades those.
+ */
+
+export const MEASUREMENT_SESSION_VERSION = 1;
+
+export type MeasurementTrade = "fence" | "driveway";
+
+export interface LatLngPoint {
+  lat: number;
+  lng: number;
+}
+
+export const FENCE_MATERIALS = [
+  { id: "wood", label: "Wood" },
+  { id: "vinyl", label: "Vinyl" },
+  { id: "chain_link", label: "Chain link" },
+  { id: "aluminum", label: "Aluminum" },
+  { id: "wrought_iron", label: "Wrought iron" },
+] as const;
+
+export const AREA_MATERIALS = [
+  { id: "concrete", label: "Concrete" },
+  { id: "asphalt", label: "Asphalt" },
+  { id: "pavers", label: "Pavers" },
+  { id: "gravel", label: "Gravel" },
+] as const;
+
+export const AREA_THICKNESS_OPTIONS = [4, 5, 6] as const;
+export const DEFAULT_AREA_THICKNESS_IN = 4;
+
+const METERS_TO_FEET = 3.28084;
+const SQ_METERS_TO_SQ_FEET = 10.7639;
+const CONCRETE_WASTE_FACTOR = 1.1; // 10% waste
+
+export interface FenceSegment {
+  kind: "fence";
+  id: string;
+  name: string;
+  material: string;
+  gateCount: number;
+  points: LatLngPoint[];
+  lengthLF: number;
+}
+
+export interface AreaSegment {
+  kind: "area";
+  id: string;
+  name: string;
+  material: string;
+  thicknessIn: number;
+  points: LatLngPoint[];
+  // Polygons inside the outline that are not paved (planters, slabs kept in place)
+  cutouts: LatLngPoint[][];
+  grossSF: number;
+  cutoutSF: number;
+  // Net of cut-outs
+  areaSF: number;
+  // Outer edge only (forms / edging)
+  perimeterLF: number;
+  cubicYards: number;
+}
+
+export type MeasurementSegment = FenceSegment | AreaSegment;
+
+export interface MeasurementSessionTotals {
+  fenceLF: number;
+  gateCount: number;
+  areaSF: number;
+  perimeterLF: number;
+  cubicYards: number;
+}
+
+export interface MeasurementSession {
+  version: typeof MEASUREMENT_SESSION_VERSION;
+  trade: MeasurementTrade;
+  segments: MeasurementSegment[];
+  totals: MeasurementSessionTotals;
+}
+
+// ============ GEOMETRY ============
+
+/**
+ * Length/area functions in feet. The map tool passes Google's spherical
+ * geometry when it is loaded; everything else (server, tests) uses the
+ * planar fallback, which agrees to well under 1% at lot scale.
+ */
+export interface MeasurementGeometry {
+  pathLengthFeet(points: LatLngPoint[]): number;
+  polygonAreaSqFt(points: LatLngPoint[]): number;
+}
+
+function distanceMeters(p1: LatLngPoint, p2: LatLngPoint): number {
+  const R = 6371000; // Earth radius in meters
+  const lat1 = (p1.lat * Math.PI) / 180;
+  const lat2 = (p2.lat * Math.PI) / 180;
+  const dLat = lat2 - lat1;
+  const dLng = ((p2.lng - p1.lng) * Math.PI) / 180;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export const planarGeometry: MeasurementGeometry = {
+  pathLengthFeet(points) {
+    let meters = 0;
+    for (let i = 0; i < points.length - 1; i++) {
+      meters += distanceMeters(points[i], points[i + 1]);
+    }
+    return meters * METERS_TO_FEET;
+  },
+  polygonAreaSqFt(points) {
+    if (points.length < 3) return 0;
+    // Shoelace formula on a local projection around the centroid latitude
+    const centerLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+    const mPerDegLat = 111320;
+    const mPerDegLng = 111320 * Math.cos((centerLat * Math.PI) / 180);
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+      const j = (i + 1) % points.length;
+      area += points[i].lng * mPerDegLng * points[j].lat * mPerDegLat;
+      area -= points[j].lng * mPerDegLng * points[i].lat * mPerDegLat;
+    }
+    return Math.abs(area / 2) * SQ_METERS_TO_SQ_FEET;
+  },
+};
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function closedPath(points: LatLngPoint[]): LatLngPoint[] {
+  return points.length >= 3 ? [...points, points[0]] : [];
+}
+
+/**
+ * Concrete volume in cubic yards including 10% waste
+ */
+export function computeCubicYards(sqFt: number, thicknessIn: number): number {
+  const cubicYards = (sqFt * (thicknessIn / 12)) / 27;
+  return round1(cubicYards * CONCRETE_WASTE_FACTOR);
+}
+
+// ============ SEGMENTS ============
+
+export function isSegmentMeasured(segment: MeasurementSegment): boolean {
+  return segment.kind === "fence" ? segment.points.length >= 2 : segment.points.length >= 3;
+}
+
+/**
+ * Recompute a fence run's length from its points
+ */
+export function computeFenceSegment(
+  segment: Omit<FenceSegment, "lengthLF"> & { lengthLF?: number },
+  geometry: MeasurementGeometry = planarGeometry
+): FenceSegment {
+  return {
+    ...segment,
+    gateCount: Math.max(0, Math.floor(segment.gateCount)),
+    lengthLF: segment.points.length >= 2 ? round1(geometry.pathLengthFeet(segment.points)) : 0,
+  };
+}
+
+/**
+ * Recompute an area's gross/net square feet, perimeter and volume from its
+ * outline and cut-outs. Net area never goes below zero.
+ */
+export function computeAreaSegment(
+  segment: Pick<AreaSegment, "kind" | "id" | "name" | "material" | "thicknessIn" | "points" | "cutouts">,
+  geometry: MeasurementGeometry = planarGeometry
+): AreaSegment {
+  const cutouts = segment.cutouts.filter((c) => c.length >= 3);
+  const grossSF = segment.points.length >= 3 ? geometry.polygonAreaSqFt(segment.points) : 0;
+  const cutoutSF = cutouts.reduce((sum, c) => sum + geometry.polygonAreaSqFt(c), 0);
+  const areaSF = Math.max(0, grossSF - cutoutSF);
+  return {
+    kind: "area",
+    id: segment.id,
+    name: segment.name,
+    material: segment.material,
+    thicknessIn: segment.thicknessIn,
+    points: segment.points,
+    cutouts,
+    grossSF: round1(grossSF),
+    cutoutSF: round1(cutoutSF),
+    areaSF: round1(areaSF),
+    perimeterLF: round1(geometry.pathLengthFeet(closedPath(segment.points))),
+    cubicYards: computeCubicYards(areaSF, segment.thicknessIn),
+  };
+}
+
+export function recomputeSegment(
+  segment: MeasurementSegment,
+  geometry: MeasurementGeometry = planarGeometry
+): MeasurementSegment {
+  return segment.kind === "fence" ? computeFenceSegment(segment, geometry) : computeAreaSegment(segment, geometry);
+}
+
+/**
+ * Empty segment for the trade, named "Run 2", "Area 3", ... after the
+ * existing ones. A driveway session's first area is called "Driveway".
+ */
+export function createSegment(trade: MeasurementTrade, existing: MeasurementSegment[], id: string): MeasurementSegment {
+  const index = existing.length + 1;
+  if (trade === "fence") {
+    return { kind: "fence", id, name: `Run ${index}`, material: FENCE_MATERIALS[0].id, gateCount: 0, points: [], lengthLF: 0 };
+  }
+  return computeAreaSegment({
+    kind: "area",
+    id,
+    name: index === 1 ? "Driveway" : `Area ${index}`,
+    material: AREA_MATERIALS[0].id,
+    thicknessIn: DEFAULT_AREA_THICKNESS_IN,
+    points: [],
+    cutouts: [],
+  });
+}
+
+export function getMaterialLabel(segment: MeasurementSegment): string {
+  const materials: ReadonlyArray<{ id: string; label: string }> =
+    segment.kind === "fence" ? FENCE_MATERIALS : AREA_MATERIALS;
+  return materials.find((m) => m.id === segment.material)?.label ?? segment.material;
+}
+
+// ============ SESSIONS ============
+
+export function computeSessionTotals(segments: MeasurementSegment[]): MeasurementSessionTotals {
+  const totals: MeasurementSessionTotals = { fenceLF: 0, gateCount: 0, areaSF: 0, perimeterLF: 0, cubicYards: 0 };
+  for (const segment of segments) {
+    if (segment.kind === "fence") {
+      totals.fenceLF += segment.lengthLF;
+      totals.gateCount += segment.gateCount;
+    } else {
+      totals.areaSF += segment.areaSF;
+      totals.perimeterLF += segment.perimeterLF;
+      totals.cubicYards += segment.cubicYards;
+    }
+  }
+  return {
+    fenceLF: round1(totals.fenceLF),
+    gateCount: totals.gateCount,
+    areaSF: round1(totals.areaSF),
+    perimeterLF: round1(totals.perimeterLF),
+    cubicYards: round1(totals.cubicYards),
+  };
+}
+
+export function buildMeasurementSession(trade: MeasurementTrade, segments: MeasurementSegment[]): MeasurementSession {
+  return {
+    version: MEASUREMENT_SESSION_VERSION,
+    trade,
+    segments,
+    totals: computeSessionTotals(segments),
+  };
+}
+
+/**
+ * Segments that have a drawn shape (what gets saved and priced)
+ */
+export function getMeasuredSegments(session: MeasurementSession): MeasurementSegment[] {
+  return session.segments.filter(isSegmentMeasured);
+}
+
+// ============ VALIDATION ============
+
+const latLngPointSchema = z.object({ lat: z.number(), lng: z.number() });
+
+const fenceSegmentSchema = z.object({
+  kind: z.literal("fence"),
+  id: z.string().min(1).max(100),
+  name: z.string().max(100),
+  material: z.string().max(50),
+  gateCount: z.number().int().min(0).max(100),
+  points: z.array(latLngPointSchema).max(500),
+  lengthLF: z.number().nonnegative(),
+});
+
+const areaSegmentSchema = z.object({
+  kind: z.literal("area"),
+  id: z.string().min(1).max(100),
+  name: z.string().max(100),
+  material: z.string().max(50),
+  thicknessIn: z.number().positive().max(24),
+  points: z.array(latLngPointSchema).max(500),
+  cutouts: z.array(z.array(latLngPointSchema).max(500)).max(50),
+  grossSF: z.number().nonnegative(),
+  cutoutSF: z.number().nonnegative(),
+  areaSF: z.number().nonnegative(),
+  perimeterLF: z.number().nonnegative(),
+  cubicYards: z.number().nonnegative(),
+});
+
+export const measurementSessionSchema = z.object({
+  version: z.literal(MEASUREMENT_SESSION_VERSION),
+  trade: z.enum(["fence", "driveway"]),
+  segments: z.array(z.discriminatedUnion("kind", [fenceSegmentSchema, areaSegmentSchema])).max(50),
+  totals: z.object({
+    fenceLF: z.number().nonnegative(),
+    gateCount: z.number().int().nonnegative(),
+    areaSF: z.number().nonnegative(),
+    perimeterLF: z.number().nonnegative(),
+    cubicYards: z.number().nonnegative(),
+  }),
+});
+
+const legacyFenceSchema = z.object({
+  fenceLinePoints: z.array(latLngPointSchema),
+  fenceLF: z.number().nonnegative(),
+});
+
+const legacyDrivewaySchema = z.object({
+  drivewayPolygonPoints: z.array(latLngPointSchema),
+  drivewaySF: z.number().nonnegative(),
+  drivewayPerimeterLF: z.number().nonnegative(),
+  drivewayThicknessIn: z.number().positive(),
+  drivewayCY: z.number().nonnegative(),
+});
+
+/**
+ * Read a stored measurements value. Sessions are returned as-is (derived
+ * numbers recomputed from the points); single fence/driveway measurements
+ * from before sessions become a one-segment session. Anything else is null.
+ */
+export function parseMeasurementSession(
+  raw: unknown,
+  geometry: MeasurementGeometry = planarGeometry
+): MeasurementSession | null {
+  const session = measurementSessionSchema.safeParse(raw);
+  if (session.success) {
+    const segments = session.data.segments.map((s) => recomputeSegment(s, geometry));
+    return buildMeasurementSession(session.data.trade, segments);
+  }
+
+  const fence = legacyFenceSchema.safeParse(raw);
+  if (fence.success) {
+    const run = computeFenceSegment(
+      { kind: "fence", id: "run-1", name: "Run 1", material: FENCE_MATERIALS[0].id, gateCount: 0, points: fence.data.fenceLinePoints },
+      geometry
+    );
+    return buildMeasurementSession("fence", [run]);
+  }
+
+  const driveway = legacyDrivewaySchema.safeParse(raw);
+  if (driveway.success) {
+    const area = computeAreaSegment(
+      {
+        kind: "area",
+        id: "area-1",
+        name: "Driveway",
+        material: AREA_MATERIALS[0].id,
+        thicknessIn: driveway.data.drivewayThicknessIn,
+        points: driveway.data.drivewayPolygonPoints,
+        cutouts: [],
+      },
+      geometry
+    );
+    return buildMeasurementSession("driveway", [area]);
+  }
+
+  return null;
+}
+
+// ============ PROPOSAL LINE ITEMS ============
+
+/**
+ * What a segment is priced by: linear feet for fence runs, net square feet
+ * for areas.
+ */
+export function getSegmentQuantity(segment: MeasurementSegment): { value: number; unit: "LF" | "SF" } {
+  return segment.kind === "fence"
+    ? { value: segment.lengthLF, unit: "LF" }
+    : { value: segment.areaSF, unit: "SF" };
+}
+
+/**
+ * Scope lines describing one measured segment, prepended to its line item
+ */
+export function describeSegmentScope(segment: MeasurementSegment): string[] {
+  const material = getMaterialLabel(segment);
+  if (segment.kind === "fence") {
+    const lines = [`${segment.name}: install ${segment.lengthLF.toLocaleString("en-US")} LF of ${material.toLowerCase()} fence.`];
+    if (segment.gateCount > 0) {
+      lines.push(`Install ${segment.gateCount} gate${segment.gateCount === 1 ? "" : "s"} in ${segment.name.toLowerCase()}.`);
+    }
+    return lines;
+  }
+
+  const lines = [
+    `${segment.name}: ${segment.areaSF.toLocaleString("en-US")} sq ft of ${material.toLowerCase()}` +
+      (segment.material === "concrete" ? ` at ${segment.thicknessIn}" thick (approx. ${segment.cubicYards} CY incl. waste).` : "."),
+  ];
+  if (segment.cutouts.length > 0) {
+    lines.push(
+      `Excludes ${segment.cutouts.length} cut-out${segment.cutouts.length === 1 ? "" : "s"} totaling ${segment.cutoutSF.toLocaleString("en-US")} sq ft.`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Each measured segment's share of the job (0-1) by its priced quantity.
+ * Segments with no quantity split evenly so every one still gets a price.
+ */
+export function allocateSegmentShares(segments: MeasurementSegment[]): number[] {
+  const quantities = segments.map((s) => getSegmentQuantity(s).value);
+  const total = quantities.reduce((sum, q) => sum + q, 0);
+  if (total <= 0) return segments.map(() => 1 / segments.length);
+  return quantities.map((q) => q / total);
+}
+
+/**
+ * Split a job-level line item into one line item per measured segment. Each
+ * keeps the job scope after its own segment lines and takes its share of the
+ * price by quantity. Without measured segments the item is returned as-is.
+ */
+export function buildSegmentLineItems(base: ProposalLineItem, session: MeasurementSession): ProposalLineItem[] {
+  const segments = getMeasuredSegments(session);
+  if (segments.length === 0) return [base];
+
+  const shares = allocateSegmentShares(segments);
+  return segments.map((segment, i) => ({
+    ...base,
+    id: segments.length === 1 ? base.id : crypto.randomUUID(),
+    jobTypeName: `${base.jobTypeName} - ${segment.name}`,
+    footage: getSegmentQuantity(segment).value,
+    scope: [...describeSegmentScope(segment), ...base.scope],
+    options: { ...base.options, measurementSegmentId: segment.id },
+    priceLow: Math.round(base.priceLow * shares[i]),
+    priceHigh: Math.round(base.priceHigh * shares[i]),
+  }));
+}
@@ -45,8 +45,10 @@ export {
   
   // Constants
   ISSUE_TYPES_WITH_REMEDY,
+  REMEDY_SECTION_TITLES,
   
   // Helpers
+  isKnownIssueType,
   getEffectiveRemedy,
   hasRemedyOptions,
   getRemedyLabel,
@@ -130,7 +130,20 @@ export function getRemedyLabel(remedy: RemedyType): string {
  */
 export const ISSUE_TYPES_WITH_REMEDY = [
   "leaking_faucet",
+  "faucet_issue",
   // Future: "running_toilet", "clogged_drain", "broken_disposal", "leaking_angle_stop"
 ] as const;
 
 export type KnownIssueType = typeof ISSUE_TYPES_WITH_REMEDY[number];
+
+/**
+ * Proposal section title per issue type and selected remedy
+ */
+export const REMEDY_SECTION_TITLES: Record<KnownIssueType, Record<RemedyType, string>> = {
+  leaking_faucet: { repair: "Faucet Repair", replace: "Faucet Replacement", either: "Faucet Repair or Replacement" },
+  faucet_issue: { repair: "Faucet Repair", replace: "Faucet Replacement", either: "Faucet Repair or Replacement" },
+};
+
+export function isKnownIssueType(issueType: string | undefined): issueType is KnownIssueType {
+  return !!issueType && (ISSUE_TYPES_WITH_REMEDY as readonly string[]).includes(issueType);
+}
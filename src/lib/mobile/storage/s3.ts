@@ -205,6 +205,23 @@ export async function fetchS3ObjectBytes(ref: S3ObjectRef): Promise<Uint8Array>
   return bytes;
 }
 
+/**
+ * Fetch image bytes, straight from S3 when the URL points at a bucket and
+ * over HTTP otherwise (data: URLs included).
+ *
+ * @param s3Ref Pre-parsed S3 reference; parsed from the URL when omitted
+ */
+export async function fetchImageBytes(imageUrl: string, s3Ref?: S3ObjectRef | null): Promise<Uint8Array> {
+  const ref = s3Ref !== undefined ? s3Ref : parseS3Url(imageUrl);
+  if (ref) return fetchS3ObjectBytes(ref);
+
+  const res = await fetch(imageUrl, { redirect: "follow", headers: { Accept: "image/*,*/*" } });
+  if (!res.ok) throw new Error(`IMAGE_FETCH_ERROR: Failed to fetch image (${res.status})`);
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  if (bytes.length === 0) throw new Error("IMAGE_EMPTY: Image is empty (0 bytes)");
+  return bytes;
+}
+
 /**
  * Get the S3 bucket name from environment.
  * Throws if not configured.
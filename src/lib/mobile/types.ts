@@ -1,12 +1,14 @@
 import { z } from "zod";
+import { measurementSessionSchema } from "./measurements/session";
 
 // Accept the simplified mobile contract:
-// body: { jobType, customer?, address? }
+// body: { jobType, customer?, address?, notes? }
 // - jobType can be a template numeric ID OR a jobTypeId string.
 export const createMobileJobRequestSchema = z.object({
   jobType: z.union([z.number().int(), z.string().min(1)]),
   customer: z.string().min(1).optional(),
   address: z.string().min(1).optional(),
+  notes: z.string().max(5000).optional(),
 });
 
 export type CreateMobileJobRequest = z.infer<typeof createMobileJobRequestSchema>;
@@ -45,6 +47,35 @@ export const registerPhotoResponseSchema = z.object({
 
 export type RegisterPhotoResponse = z.infer<typeof registerPhotoResponseSchema>;
 
+const latLngPointSchema = z.object({ lat: z.number(), lng: z.number() });
+
+// Multi-segment sessions, plus the single fence/driveway shape saved before
+// sessions existed; extra fields on the legacy shapes are kept
+export const mobileJobMeasurementsSchema = z.union([
+  measurementSessionSchema,
+  z
+    .object({
+      fenceLinePoints: z.array(latLngPointSchema),
+      fenceLF: z.number().nonnegative(),
+    })
+    .passthrough(),
+  z
+    .object({
+      drivewayPolygonPoints: z.array(latLngPointSchema),
+      drivewaySF: z.number().nonnegative(),
+      drivewayPerimeterLF: z.number().nonnegative(),
+      drivewayThicknessIn: z.number().positive(),
+      drivewayCY: z.number().nonnegative(),
+    })
+    .passthrough(),
+]);
+
+export const saveMeasurementsRequestSchema = z.object({
+  measurements: mobileJobMeasurementsSchema.nullable(),
+});
+
+export type SaveMeasurementsRequest = z.infer<typeof saveMeasurementsRequestSchema>;
+
 export type MobileDraftPayload = {
   packages: Record<
     "GOOD" | "BETTER" | "BEST",
@@ -0,0 +1,76 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { gptVisionResultSchema, rekognitionResultSchema } from "./types";
+import { fetchImageBytes } from "../storage/s3";
+import type { AnalyzeImageInput, DetectorResult, ImageInput, LlmVisionResult, VisionProvider } from "./providers";
+import bundledFixtures from "./fixtures/vision-fixtures.json";
+
+// Canned results for one kind of photo
+export const visionFixtureSchema = z.object({
+  detector: rekognitionResultSchema,
+  llm: gptVisionResultSchema,
+});
+
+export const visionFixtureSetSchema = z
+  .object({
+    version: z.string().min(1),
+    description: z.string().optional(),
+    // Fixture for images not listed in `images`; without one they fail like a provider error
+    default: z.string().optional(),
+    // SHA-256 of the image bytes (hex) -> fixture name
+    images: z.record(z.string().regex(/^[0-9a-f]{64}$/, "Image keys must be SHA-256 hex digests"), z.string()).default({}),
+    fixtures: z.record(z.string(), visionFixtureSchema),
+  })
+  .superRefine((set, ctx) => {
+    const names = [...Object.values(set.images), ...(set.default ? [set.default] : [])];
+    for (const name of names) {
+      if (!set.fixtures[name]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown vision fixture "${name}"` });
+      }
+    }
+  });
+
+export type VisionFixture = z.infer<typeof visionFixtureSchema>;
+export type VisionFixtureSet = z.infer<typeof visionFixtureSetSchema>;
+
+export function imageHash(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+/**
+ * The fixture set at VISION_FIXTURES_PATH, or the bundled one.
+ */
+export function loadVisionFixtureSet(path = process.env.VISION_FIXTURES_PATH): VisionFixtureSet {
+  const raw: unknown = path ? JSON.parse(readFileSync(path, "utf8")) : bundledFixtures;
+  return visionFixtureSetSchema.parse(raw);
+}
+
+/**
+ * Deterministic stand-in for Rekognition and GPT vision: returns the canned
+ * results of the fixture the image's bytes hash to. Lets the vision ->
+ * findings -> draft pipeline run in tests and on machines without keys.
+ */
+export class FixtureVisionProvider implements VisionProvider {
+  readonly name = "fixture" as const;
+
+  constructor(private readonly fixtures: VisionFixtureSet = loadVisionFixtureSet()) {}
+
+  private async fixtureFor(params: ImageInput): Promise<VisionFixture> {
+    const hash = imageHash(await fetchImageBytes(params.imageUrl, params.s3Ref));
+    const name = this.fixtures.images[hash] ?? this.fixtures.default;
+    const fixture = name ? this.fixtures.fixtures[name] : undefined;
+    if (!fixture) throw new Error(`FIXTURE_NOT_FOUND: No vision fixture for image ${hash}`);
+    return fixture;
+  }
+
+  async detectLabels(params: ImageInput): Promise<DetectorResult> {
+    const fixture = await this.fixtureFor(params);
+    return structuredClone(fixture.detector);
+  }
+
+  async analyzeImage(params: AnalyzeImageInput): Promise<LlmVisionResult> {
+    const fixture = await this.fixtureFor(params);
+    return structuredClone(fixture.llm);
+  }
+}
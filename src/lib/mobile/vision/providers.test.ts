@@ -0,0 +1,232 @@
+/**
+ * Tests for Vision and Embedding Providers
+ *
+ * Runs the fixture vision provider through findings and draft generation,
+ * checks the perceptual-hash embedding and the env-selected registries.
+ * Needs no keys or network: scope enhancement falls back to the template
+ * scope and the job address has no ZIP, so market pricing is skipped.
+ * Run with: npx tsx src/lib/mobile/vision/providers.test.ts
+ */
+
+import sharp from "sharp";
+import { FixtureVisionProvider, imageHash, loadVisionFixtureSet, visionFixtureSetSchema, type VisionFixtureSet } from "./fixtures";
+import { resolveVisionProviderName } from "./providers";
+import { buildPhotoFindings } from "./runner";
+import { perceptualHashEmbedding, resolveImageEmbeddingProviderName } from "../../similar-jobs/embeddings";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+async function rejects(promise: Promise<unknown>, pattern: RegExp): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (e) {
+    return pattern.test(e instanceof Error ? e.message : String(e));
+  }
+}
+
+// Horizontal gradient, optionally brightened or mirrored
+async function gradientPng(options: { brighten?: number; mirror?: boolean } = {}): Promise<Buffer> {
+  const width = 96;
+  const height = 64;
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const column = options.mirror ? width - 1 - x : x;
+      pixels[y * width + x] = Math.min(255, Math.round((column / width) * 200) + (options.brighten ?? 0));
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+function dataUrl(png: Buffer): string {
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+async function run() {
+  console.log("=".repeat(60));
+  console.log("Vision and Embedding Provider Tests");
+  console.log("=".repeat(60));
+
+  // Keep scope enhancement offline
+  delete process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY;
+  delete process.env.ANTHROPIC_API_KEY;
+
+  const bundled = loadVisionFixtureSet();
+  const gradient = await gradientPng();
+  const mirrored = await gradientPng({ mirror: true });
+
+  const fixtureSet: VisionFixtureSet = {
+    ...bundled,
+    default: undefined,
+    images: {
+      [imageHash(gradient)]: "faucet-leak",
+      [imageHash(mirrored)]: "ceiling-water-stain",
+    },
+  };
+
+  // --- fixture sets ---
+  console.log("\n--- fixture sets ---");
+
+  assert(Object.keys(bundled.fixtures).length > 0 && !!bundled.default, "Bundled fixtures load with a default");
+  assert(
+    !visionFixtureSetSchema.safeParse({ ...bundled, default: "missing" }).success,
+    "Rejects references to unknown fixtures"
+  );
+  assert(
+    !visionFixtureSetSchema.safeParse({ ...bundled, images: { "not-a-hash": "faucet-leak" } }).success,
+    "Requires SHA-256 image keys"
+  );
+
+  // --- fixture provider ---
+  console.log("\n--- fixture provider ---");
+
+  const provider = new FixtureVisionProvider(fixtureSet);
+  const rek = await provider.detectLabels({ imageUrl: dataUrl(gradient), s3Ref: null });
+  const gpt = await provider.analyzeImage({ imageUrl: dataUrl(gradient), s3Ref: null, kind: "closeup", labelHints: [] });
+  const other = await provider.analyzeImage({ imageUrl: dataUrl(mirrored), s3Ref: null, kind: "wide", labelHints: [] });
+
+  assert(rek.labels[0]?.name === "Sink", "Returns the canned detector labels for the image");
+  assert(gpt.detectedTrade === "plumbing" && other.detectedTrade === "drywall", "Keys results by image hash");
+
+  gpt.labels.push("mutated");
+  const again = await provider.analyzeImage({ imageUrl: dataUrl(gradient), s3Ref: null, kind: "closeup", labelHints: [] });
+  assert(!again.labels.includes("mutated"), "Returns a fresh copy every time");
+
+  const unknown = dataUrl(await gradientPng({ brighten: 40 }));
+  assert(
+    await rejects(provider.detectLabels({ imageUrl: unknown, s3Ref: null }), /^FIXTURE_NOT_FOUND/),
+    "Unknown images fail without a default fixture"
+  );
+  const withDefault = new FixtureVisionProvider({ ...fixtureSet, default: "ceiling-water-stain" });
+  assert(
+    (await withDefault.detectLabels({ imageUrl: unknown, s3Ref: null })).labels[0]?.name === "Ceiling",
+    "Unknown images get the default fixture"
+  );
+
+  // --- findings ---
+  console.log("\n--- findings ---");
+
+  const findings = buildPhotoFindings({ imageUrl: "https://example.com/photo.png", kind: "closeup", rek, gpt: again });
+  assert(findings.detector.status === "ready" && findings.llm.status === "ready", "Builds findings from both results");
+  assert(findings.combined.detectedTrade === "plumbing", "Carries the detected trade");
+  assert(findings.combined.summaryLabels.includes("Sink"), "Merges detector labels into the summary");
+
+  const partial = buildPhotoFindings({
+    imageUrl: "https://example.com/photo.png",
+    kind: "closeup",
+    rek: null,
+    rekError: "REKOGNITION_DOWN",
+    gpt: again,
+  });
+  assert(partial.detector.status === "failed" && partial.detector.error === "REKOGNITION_DOWN", "Records a failed provider");
+
+  // --- draft ---
+  console.log("\n--- draft ---");
+
+  const { generateMobileDraft } = await import("../draft/pipeline");
+  const draft = await generateMobileDraft({
+    job: {
+      id: 1,
+      clientName: "Test Client",
+      address: "Address TBD",
+      tradeId: "plumbing",
+      tradeName: "Plumbing",
+      jobTypeId: "faucet-replace",
+      jobTypeName: "Faucet Replacement",
+      jobSize: 2,
+      jobNotes: null,
+    },
+    template: {
+      tradeId: "plumbing",
+      tradeName: "Plumbing",
+      jobTypeId: "faucet-replace",
+      jobTypeName: "Faucet Replacement",
+      baseScope: ["Shut off water supply", "Remove existing faucet", "Install new faucet"],
+      basePriceLow: 250,
+      basePriceHigh: 450,
+      estimatedDaysLow: 1,
+      estimatedDaysHigh: 1,
+      warranty: null,
+      exclusions: null,
+    },
+    user: { priceMultiplier: 100, tradeMultipliers: {}, roofingWasteConfig: null },
+    photos: [
+      { publicUrl: "https://example.com/1.png", kind: "closeup", findings },
+      { publicUrl: "https://example.com/2.png", kind: "wide", findings: buildPhotoFindings({ imageUrl: "https://example.com/2.png", kind: "wide", rek, gpt: other }) },
+    ],
+  });
+
+  assert(draft.packages.GOOD.total > 0 && draft.packages.BEST.total > draft.packages.GOOD.total, "Generates priced packages");
+  assert(draft.questions.some((q) => q.includes("supply lines")), "Asks for the photos the findings call for");
+  assert(draft.confidence > 45, "Vision findings raise confidence");
+
+  // --- perceptual-hash embedding ---
+  console.log("\n--- perceptual-hash embedding ---");
+
+  const embedding = await perceptualHashEmbedding(gradient);
+  assert(embedding.length === 1536, "Fits vector(1536)");
+  assert(Math.abs(cosine(embedding, embedding) - 1) < 1e-9, "Is unit length");
+  assert(
+    JSON.stringify(await perceptualHashEmbedding(gradient)) === JSON.stringify(embedding),
+    "Is deterministic"
+  );
+  assert(cosine(embedding, await perceptualHashEmbedding(await gradientPng({ brighten: 20 }))) > 0.9, "Near-duplicates stay close");
+  assert(cosine(embedding, await perceptualHashEmbedding(mirrored)) < 0, "Different images land apart");
+
+  // --- registries ---
+  console.log("\n--- registries ---");
+
+  assert(resolveVisionProviderName({}) === "live", "Vision defaults to the live providers");
+  assert(resolveVisionProviderName({ VISION_PROVIDER: "Fixture" }) === "fixture", "Selects fixtures by env");
+  let threw = false;
+  try {
+    resolveVisionProviderName({ VISION_PROVIDER: "azure" });
+  } catch {
+    threw = true;
+  }
+  assert(threw, "Rejects unknown vision providers");
+  assert(resolveImageEmbeddingProviderName({}) === "openai", "Embeddings default to OpenAI");
+  assert(resolveImageEmbeddingProviderName({ VISION_PROVIDER: "fixture" }) === "phash", "Fixture vision embeds locally");
+  assert(
+    resolveImageEmbeddingProviderName({ VISION_PROVIDER: "fixture", IMAGE_EMBEDDING_PROVIDER: "openai" }) === "openai",
+    "An explicit embedding provider wins"
+  );
+
+  // Print summary
+  console.log("\n" + "=".repeat(60));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log("=".repeat(60));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+run().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+import type { z } from "zod";
+import type { gptVisionResultSchema, rekognitionResultSchema } from "./types";
+import type { S3ObjectRef } from "../storage/s3";
+import { analyzeWithRekognition } from "./rekognition";
+import { analyzeWithGptVision } from "./gpt";
+import { FixtureVisionProvider } from "./fixtures";
+
+export type DetectorResult = z.infer<typeof rekognitionResultSchema>;
+export type LlmVisionResult = z.infer<typeof gptVisionResultSchema>;
+
+export type ImageInput = {
+  imageUrl: string;
+  // Pre-parsed S3 reference; avoids redirect issues when reading the image
+  s3Ref?: S3ObjectRef | null;
+};
+
+export type AnalyzeImageInput = ImageInput & {
+  kind: string;
+  // Detector labels passed to the LLM as hints
+  labelHints: string[];
+};
+
+/**
+ * The two halves of photo analysis: a label detector and an LLM that writes
+ * structured findings.
+ */
+export interface VisionProvider {
+  readonly name: VisionProviderName;
+  detectLabels(params: ImageInput): Promise<DetectorResult>;
+  analyzeImage(params: AnalyzeImageInput): Promise<LlmVisionResult>;
+}
+
+export const VISION_PROVIDERS = ["live", "fixture"] as const;
+export type VisionProviderName = (typeof VISION_PROVIDERS)[number];
+
+/** AWS Rekognition labels and OpenAI vision findings */
+export const liveVisionProvider: VisionProvider = {
+  name: "live",
+  detectLabels: (params) => analyzeWithRekognition(params),
+  analyzeImage: ({ labelHints, ...params }) => analyzeWithGptVision({ ...params, rekognitionLabels: labelHints }),
+};
+
+export function resolveVisionProviderName(env: Record<string, string | undefined> = process.env): VisionProviderName {
+  const configured = env.VISION_PROVIDER?.trim().toLowerCase();
+  if (!configured) return "live";
+  if (!(VISION_PROVIDERS as readonly string[]).includes(configured)) {
+    throw new Error(`CONFIG_ERROR: Unknown VISION_PROVIDER "${configured}" (expected ${VISION_PROVIDERS.join(", ")})`);
+  }
+  return configured as VisionProviderName;
+}
+
+let fixtureProvider: FixtureVisionProvider | null = null;
+
+/**
+ * Vision provider named by VISION_PROVIDER: "live" (default) or "fixture"
+ * for canned results from VISION_FIXTURES_PATH or the bundled fixtures.
+ */
+export function getVisionProvider(): VisionProvider {
+  if (resolveVisionProviderName() === "live") return liveVisionProvider;
+  // Fixture sets are parsed once per process
+  fixtureProvider ??= new FixtureVisionProvider();
+  return fixtureProvider;
+}
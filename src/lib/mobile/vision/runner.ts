@@ -1,14 +1,52 @@
 import { db } from "@/lib/services/db";
 import { mobileJobPhotos } from "@shared/schema";
 import { eq } from "drizzle-orm";
-import { analyzeWithRekognition } from "./rekognition";
-import { analyzeWithGptVision, validateFindings } from "./gpt";
+import { validateFindings } from "./gpt";
+import { getVisionProvider, type DetectorResult, type LlmVisionResult } from "./providers";
 import { logVisionError, logFormatError } from "../error-logger";
 import { parseS3Url } from "../storage/s3";
+import { retryDelaySeconds } from "@/lib/jobs";
 
-function backoffSeconds(attempts: number) {
-  const table = [0, 1, 3, 8, 20, 45];
-  return table[Math.min(attempts, table.length - 1)] ?? 60;
+// A photo is marked failed once this many analysis attempts have failed
+export const VISION_MAX_ATTEMPTS = 5;
+
+/**
+ * Photo findings from whichever providers succeeded (at least one must have).
+ */
+export function buildPhotoFindings(params: {
+  imageUrl: string;
+  kind: string;
+  rek: DetectorResult | null;
+  rekError?: string;
+  gpt: LlmVisionResult | null;
+  gptError?: string;
+}) {
+  const { rek, gpt } = params;
+  const labelNames = rek?.labels?.map((l) => l.name) ?? [];
+
+  return validateFindings({
+    version: "v1",
+    imageUrl: params.imageUrl,
+    kind: params.kind,
+    detector: rek
+      ? { status: "ready", result: rek }
+      : { status: "failed", error: params.rekError || "REKOGNITION_FAILED" },
+    llm: gpt
+      ? { status: "ready", result: { ...gpt, provider: "openai" } }
+      : { status: "failed", error: params.gptError || "GPT_VISION_FAILED" },
+    combined: {
+      confidence: Math.max(0, Math.min(1, ((gpt?.confidence ?? 0.5) * 0.9) + 0.1)),
+      summaryLabels: Array.from(new Set([...(gpt?.labels || []), ...labelNames.slice(0, 5)])).slice(0, 10),
+      needsMorePhotos: gpt?.needsMorePhotos || [],
+      // Scope clarification data from GPT
+      needsClarification: gpt?.needsClarification ?? false,
+      scopeAmbiguous: gpt?.scopeAmbiguous ?? false,
+      clarificationReasons: gpt?.clarificationReasons || [],
+      detectedTrade: gpt?.detectedTrade,
+      isPaintingRelated: gpt?.isPaintingRelated ?? false,
+      estimatedSeverity: gpt?.estimatedSeverity,
+    },
+  });
 }
 
 export async function runVisionForPhoto(photo: typeof mobileJobPhotos.$inferSelect) {
@@ -59,9 +97,12 @@ export async function runVisionForPhoto(photo: typeof mobileJobPhotos.$inferSele
       });
     }
     
+    // Rekognition/OpenAI, or canned fixtures (VISION_PROVIDER=fixture)
+    const provider = getVisionProvider();
+
     // Run Rekognition and GPT Vision in parallel for speed.
     // IMPORTANT: Do not call Rekognition twice (it was previously called twice per photo).
-    const rekPromise = analyzeWithRekognition({ 
+    const rekPromise = provider.detectLabels({ 
       imageUrl: photo.publicUrl,
       s3Ref, // Pass S3 reference to avoid redirect issues
     });
@@ -80,18 +121,18 @@ export async function runVisionForPhoto(photo: typeof mobileJobPhotos.$inferSele
         // Ignore - GPT can work without hints
       }
 
-      return analyzeWithGptVision({
+      return provider.analyzeImage({
         imageUrl: photo.publicUrl,
         s3Ref, // Pass S3 reference to avoid redirect issues
         kind: photo.kind,
-        rekognitionLabels: labelHints,
+        labelHints,
       });
     })();
 
     const [rekResult, gptResult] = await Promise.allSettled([rekPromise, gptPromise]);
 
     // Extract results
-    let rek: Awaited<ReturnType<typeof analyzeWithRekognition>> | null = null;
+    let rek: DetectorResult | null = null;
     let rekError: string | undefined;
     if (rekResult.status === "fulfilled") {
       rek = rekResult.value;
@@ -119,7 +160,7 @@ export async function runVisionForPhoto(photo: typeof mobileJobPhotos.$inferSele
       }
     }
 
-    let gpt: Awaited<ReturnType<typeof analyzeWithGptVision>> | null = null;
+    let gpt: LlmVisionResult | null = null;
     let gptError: string | undefined;
     if (gptResult.status === "fulfilled") {
       gpt = gptResult.value;
@@ -188,34 +229,20 @@ export async function runVisionForPhoto(photo: typeof mobileJobPhotos.$inferSele
       photoId: photo.id,
       hasRekognition: !!rek,
       hasGpt: !!gpt,
+      provider: provider.name,
       rekLabels: labelNames.slice(0, 5),
       gptDamage: gpt?.damage?.slice(0, 3),
       gptIssues: gpt?.issues?.slice(0, 3),
       durationMs: Date.now() - startTime,
     });
 
-    const findings = validateFindings({
-      version: "v1",
+    const findings = buildPhotoFindings({
       imageUrl: photo.publicUrl,
       kind: photo.kind,
-      detector: rek
-        ? { status: "ready", result: rek }
-        : { status: "failed", error: rekError || "REKOGNITION_FAILED" },
-      llm: gpt
-        ? { status: "ready", result: { ...gpt, provider: "openai" } }
-        : { status: "failed", error: gptError || "GPT_VISION_FAILED" },
-      combined: {
-        confidence: Math.max(0, Math.min(1, ((gpt?.confidence ?? 0.5) * 0.9) + 0.1)),
-        summaryLabels: Array.from(new Set([...(gpt?.labels || []), ...labelNames.slice(0, 5)])).slice(0, 10),
-        needsMorePhotos: gpt?.needsMorePhotos || [],
-        // Scope clarification data from GPT
-        needsClarification: gpt?.needsClarification ?? false,
-        scopeAmbiguous: gpt?.scopeAmbiguous ?? false,
-        clarificationReasons: gpt?.clarificationReasons || [],
-        detectedTrade: gpt?.detectedTrade,
-        isPaintingRelated: gpt?.isPaintingRelated ?? false,
-        estimatedSeverity: gpt?.estimatedSeverity,
-      },
+      rek,
+      rekError,
+      gpt,
+      gptError,
     });
 
     await db
@@ -233,14 +260,15 @@ export async function runVisionForPhoto(photo: typeof mobileJobPhotos.$inferSele
     return { success: true, photoId: photo.id };
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
-    const next = new Date(Date.now() + backoffSeconds(attempts) * 1000);
+    const next = new Date(Date.now() + retryDelaySeconds(attempts) * 1000);
+    const isFinalFailure = attempts >= VISION_MAX_ATTEMPTS;
 
     await db
       .update(mobileJobPhotos)
       .set({
-        findingsStatus: attempts >= 5 ? "failed" : "pending",
+        findingsStatus: isFinalFailure ? "failed" : "pending",
         findingsError: msg,
-        findingsNextAttemptAt: attempts >= 5 ? null : next,
+        findingsNextAttemptAt: isFinalFailure ? null : next,
         findingsLockedBy: null,
         findingsLockedAt: null,
       })
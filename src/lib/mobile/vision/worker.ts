@@ -1,93 +1,66 @@
 import { db } from "@/lib/services/db";
 import { mobileJobPhotos } from "@shared/schema";
-import { and, desc, eq, isNull, lte, or } from "drizzle-orm";
-import { runVisionForPhoto } from "./runner";
-import { logError } from "../error-logger";
+import { and, eq, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import { enqueueJob, JOB_LOCK_TIMEOUT_MS, PermanentJobError, type JobContext, type JobPayloads } from "@/lib/jobs";
+import { runVisionForPhoto, VISION_MAX_ATTEMPTS } from "./runner";
 
-const WORKER_ID = `vision-${process.pid}-${Math.random().toString(16).slice(2)}`;
-let started = false;
-const ENABLE_IN_PROCESS_WORKERS = process.env.ENABLE_IN_PROCESS_WORKERS === "true";
-
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
-}
-
-export function ensureVisionWorker() {
-  // In-process infinite loops are only safe on long-lived Node deployments.
-  // In serverless/edge-like runtimes this can cause duplicate workers and cost.
-  if (!ENABLE_IN_PROCESS_WORKERS) return;
-  if (started) return;
-  started = true;
-
-  void (async () => {
-    while (true) {
-      try {
-        await processOne();
-      } catch (e) {
-        const errorMsg = e instanceof Error ? e.message : String(e);
-        console.error("mobileVisionWorker.error", {
-          workerId: WORKER_ID,
-          message: errorMsg,
-        });
-        
-        // Log worker-level errors to persistent file
-        logError({
-          category: "UNKNOWN",
-          error: e instanceof Error ? e : errorMsg,
-          details: {
-            workerId: WORKER_ID,
-            context: "vision_worker_loop",
-          },
-        });
-      }
-      await sleep(300);
-    }
-  })();
+export async function enqueueVisionJob(photoId: number) {
+  await enqueueJob(
+    "mobile.vision",
+    { photoId },
+    { dedupeKey: `mobile.vision:${photoId}`, maxAttempts: VISION_MAX_ATTEMPTS }
+  );
 }
 
-async function processOne() {
+/**
+ * Job handler for "mobile.vision": analyze one photo. Photos already analyzed
+ * (e.g. inline by the analyze route) are skipped; a photo another request is
+ * still analyzing is retried later in case that attempt fails.
+ */
+export async function processVisionJob({ photoId }: JobPayloads["mobile.vision"], context: JobContext) {
   const now = new Date();
-  const lockExpiry = new Date(now.getTime() - 2 * 60 * 1000);
+  const lockExpiry = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS);
 
-  const candidates = await db
-    .select()
-    .from(mobileJobPhotos)
+  const [locked] = await db
+    .update(mobileJobPhotos)
+    .set({
+      findingsStatus: "processing",
+      findingsLockedBy: `job-${context.jobId}`,
+      findingsLockedAt: now,
+      findingsAttempts: sql`${mobileJobPhotos.findingsAttempts} + 1`,
+    })
     .where(
       and(
-        eq(mobileJobPhotos.findingsStatus, "pending"),
-        or(isNull(mobileJobPhotos.findingsNextAttemptAt), lte(mobileJobPhotos.findingsNextAttemptAt, now))
+        eq(mobileJobPhotos.id, photoId),
+        inArray(mobileJobPhotos.findingsStatus, ["pending", "processing"]),
+        or(isNull(mobileJobPhotos.findingsLockedAt), lte(mobileJobPhotos.findingsLockedAt, lockExpiry))
       )
     )
-    .orderBy(desc(mobileJobPhotos.createdAt))
-    .limit(5);
+    .returning();
 
-  for (const photo of candidates) {
-    const [locked] = await db
-      .update(mobileJobPhotos)
-      .set({
-        findingsStatus: "processing",
-        findingsLockedBy: WORKER_ID,
-        findingsLockedAt: now,
-        findingsAttempts: (photo.findingsAttempts ?? 0) + 1,
-      })
-      .where(
-        and(
-          eq(mobileJobPhotos.id, photo.id),
-          or(isNull(mobileJobPhotos.findingsLockedAt), lte(mobileJobPhotos.findingsLockedAt, lockExpiry))
-        )
-      )
-      .returning();
-
-    if (!locked) continue;
+  if (!locked) {
+    const [photo] = await db
+      .select({ findingsStatus: mobileJobPhotos.findingsStatus })
+      .from(mobileJobPhotos)
+      .where(eq(mobileJobPhotos.id, photoId))
+      .limit(1);
 
-    const result = await runVisionForPhoto(locked);
-    if (!result.success) {
-      console.error("mobileVisionWorker.photo.failed", {
-        photoId: result.photoId,
-        jobId: locked.jobId,
-        error: result.error,
-      });
+    if (photo && (photo.findingsStatus === "pending" || photo.findingsStatus === "processing")) {
+      throw new Error("PHOTO_LOCKED: analysis already in progress");
     }
     return;
   }
+
+  const result = await runVisionForPhoto(locked);
+  if (!result.success) {
+    console.error("mobileVisionWorker.photo.failed", {
+      photoId: result.photoId,
+      jobId: locked.jobId,
+      error: result.error,
+    });
+
+    // The runner has already recorded the error on the photo (and failed it at its attempt limit)
+    const message = result.error ?? "VISION_FAILED";
+    throw locked.findingsAttempts >= VISION_MAX_ATTEMPTS ? new PermanentJobError(message) : new Error(message);
+  }
 }
@@ -54,20 +54,3 @@ export async function upsertPhotoRow(params: { jobId: number; publicUrl: string
 
   return { photoId, s3Key: key };
 }
-
-export async function enqueueJobEmbedding(params: { jobId: number }) {
-  // Enqueue only if no pending/processing row exists (keeps queue small).
-  await db.execute(
-    sql`
-      INSERT INTO job_embedding_jobs (job_id, status, attempts, next_attempt_at)
-      SELECT ${params.jobId}, 'pending', 0, NOW()
-      WHERE NOT EXISTS (
-        SELECT 1
-        FROM job_embedding_jobs
-        WHERE job_id = ${params.jobId}
-          AND status IN ('pending', 'processing')
-      )
-    `
-  );
-}
-
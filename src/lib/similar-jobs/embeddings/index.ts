@@ -0,0 +1,37 @@
+import { OpenAIImageEmbeddingProvider, type ImageEmbeddingProvider } from "./provider";
+import { PerceptualHashEmbeddingProvider } from "./phash";
+
+export type { ImageEmbeddingProvider, ImageEmbeddingResult } from "./provider";
+export { OpenAIImageEmbeddingProvider } from "./provider";
+export { PerceptualHashEmbeddingProvider, perceptualHashEmbedding, PHASH_EMBEDDING_MODEL } from "./phash";
+
+export const IMAGE_EMBEDDING_PROVIDERS = ["openai", "phash"] as const;
+export type ImageEmbeddingProviderName = (typeof IMAGE_EMBEDDING_PROVIDERS)[number];
+
+/**
+ * Embedding provider named by IMAGE_EMBEDDING_PROVIDER. Defaults to "phash"
+ * when vision runs on fixtures (VISION_PROVIDER=fixture) so a dev machine
+ * needs no keys at all, and to "openai" otherwise.
+ */
+export function resolveImageEmbeddingProviderName(
+  env: Record<string, string | undefined> = process.env
+): ImageEmbeddingProviderName {
+  const configured = env.IMAGE_EMBEDDING_PROVIDER?.trim().toLowerCase();
+  if (configured) {
+    if (!(IMAGE_EMBEDDING_PROVIDERS as readonly string[]).includes(configured)) {
+      throw new Error(
+        `CONFIG_ERROR: Unknown IMAGE_EMBEDDING_PROVIDER "${configured}" (expected ${IMAGE_EMBEDDING_PROVIDERS.join(", ")})`
+      );
+    }
+    return configured as ImageEmbeddingProviderName;
+  }
+  return env.VISION_PROVIDER?.trim().toLowerCase() === "fixture" ? "phash" : "openai";
+}
+
+export function createImageEmbeddingProvider(name: ImageEmbeddingProviderName): ImageEmbeddingProvider {
+  return name === "phash" ? new PerceptualHashEmbeddingProvider() : new OpenAIImageEmbeddingProvider();
+}
+
+export function getImageEmbeddingProvider(): ImageEmbeddingProvider {
+  return createImageEmbeddingProvider(resolveImageEmbeddingProviderName());
+}
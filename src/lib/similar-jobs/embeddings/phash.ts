@@ -0,0 +1,48 @@
+import sharp from "sharp";
+import { fetchImageBytes, type S3ObjectRef } from "@/src/lib/mobile/storage/s3";
+import type { ImageEmbeddingProvider, ImageEmbeddingResult } from "./provider";
+
+// 48 x 32 thumbnail: one hash bit per dimension of vector(1536)
+const HASH_WIDTH = 48;
+const HASH_HEIGHT = 32;
+
+export const PHASH_EMBEDDING_MODEL = "local-phash-1536";
+
+/**
+ * Perceptual-hash embedding of image bytes: a 48x32 grayscale thumbnail with
+ * each pixel set to +1 or -1 by whether it is brighter than the mean, scaled
+ * to unit length. Cosine similarity between two of these is
+ * 1 - 2 * (Hamming distance / 1536), so near-duplicate photos land close
+ * together. Deterministic and needs no network.
+ */
+export async function perceptualHashEmbedding(bytes: Uint8Array): Promise<number[]> {
+  const pixels = await sharp(bytes)
+    .rotate()
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  const dimension = HASH_WIDTH * HASH_HEIGHT;
+  let sum = 0;
+  for (let i = 0; i < dimension; i++) sum += pixels[i];
+  const mean = sum / dimension;
+
+  const scale = 1 / Math.sqrt(dimension);
+  return Array.from({ length: dimension }, (_, i) => (pixels[i] > mean ? scale : -scale));
+}
+
+/**
+ * Local image embeddings for tests and dev machines. Similar-job matches are
+ * only meaningful for near-identical photos; use the OpenAI provider for
+ * semantic matches in production.
+ */
+export class PerceptualHashEmbeddingProvider implements ImageEmbeddingProvider {
+  readonly model = PHASH_EMBEDDING_MODEL;
+
+  async embedImage(params: { imageUrl: string; s3Ref?: S3ObjectRef | null }): Promise<ImageEmbeddingResult> {
+    const bytes = await fetchImageBytes(params.imageUrl, params.s3Ref);
+    const embedding = await perceptualHashEmbedding(bytes);
+    return { model: this.model, dimension: embedding.length, embedding };
+  }
+}
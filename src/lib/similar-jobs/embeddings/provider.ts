@@ -1,5 +1,5 @@
 import OpenAI from "openai";
-import { parseS3Url, fetchS3ObjectBytes, type S3ObjectRef } from "@/src/lib/mobile/storage/s3";
+import { fetchImageBytes, type S3ObjectRef } from "@/src/lib/mobile/storage/s3";
 
 export type ImageEmbeddingResult = {
   model: string;
@@ -8,6 +8,9 @@ export type ImageEmbeddingResult = {
 };
 
 export interface ImageEmbeddingProvider {
+  /** Model name stored with each embedding; embeddings from different models never mix */
+  readonly model: string;
+
   /**
    * Returns a fixed-dimension embedding vector for an image.
    *
@@ -55,20 +58,15 @@ export class OpenAIImageEmbeddingProvider implements ImageEmbeddingProvider {
     this.embeddingDimension = params?.embeddingDimension || 1536;
   }
 
+  get model() {
+    return this.embeddingModel;
+  }
+
   async embedImage(params: { imageUrl: string; s3Ref?: S3ObjectRef | null }): Promise<ImageEmbeddingResult> {
     const client = getOpenAIClient();
-    const s3Ref = params.s3Ref !== undefined ? params.s3Ref : parseS3Url(params.imageUrl);
 
     // Fetch bytes directly from S3 when possible for reliability (no redirect/signed URL issues).
-    let bytes: Uint8Array;
-    if (s3Ref) {
-      bytes = await fetchS3ObjectBytes(s3Ref);
-    } else {
-      const res = await fetch(params.imageUrl, { redirect: "follow", headers: { Accept: "image/*,*/*" } });
-      if (!res.ok) throw new Error(`EMBED_FETCH_ERROR: Failed to fetch image (${res.status})`);
-      bytes = new Uint8Array(await res.arrayBuffer());
-    }
-    if (bytes.length === 0) throw new Error("EMBED_EMPTY_IMAGE: Image is empty (0 bytes)");
+    const bytes = await fetchImageBytes(params.imageUrl, params.s3Ref);
 
     const imageDataUrl = bytesToDataUrl(bytes);
 
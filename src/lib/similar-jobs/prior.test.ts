@@ -0,0 +1,142 @@
+/**
+ * Similar-Job Price Prior Unit Tests
+ *
+ * Tests for anchoring a drafted price on the nearest past jobs and blending
+ * the anchor into the pricebook range.
+ * Run with: npx tsx src/lib/similar-jobs/prior.test.ts
+ */
+
+import {
+  MAX_PRIOR_WEIGHT,
+  applyPricePrior,
+  similarJobsPricePrior,
+  type SimilarJob,
+} from './prior';
+
+// ============ TEST UTILITIES ============
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    failed++;
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  const actualStr = JSON.stringify(actual);
+  const expectedStr = JSON.stringify(expected);
+  if (actualStr === expectedStr) {
+    console.log(`✅ PASS: ${message}`);
+    passed++;
+  } else {
+    console.log(`❌ FAIL: ${message}`);
+    console.log(`   Expected: ${expectedStr}`);
+    console.log(`   Got: ${actualStr}`);
+    failed++;
+  }
+}
+
+const target = { jobTypeId: 'toilet-install', jobSize: 2 };
+
+function similarJob(jobId: number, overrides: Partial<SimilarJob> = {}): SimilarJob {
+  return {
+    jobId,
+    similarity: 0.9,
+    jobTypeId: 'toilet-install',
+    jobTypeName: 'Toilet Installation',
+    jobSize: 2,
+    address: '100 Main St, Austin, TX 78701',
+    createdAt: null,
+    finalPrice: 500,
+    outcome: null,
+    status: 'submitted',
+    scope: [],
+    proposalId: null,
+    shared: false,
+    ...overrides,
+  };
+}
+
+// ============ TESTS ============
+
+function testPrior() {
+  console.log('\n--- price prior ---');
+  const prior = similarJobsPricePrior([similarJob(1, { finalPrice: 400 }), similarJob(2, { finalPrice: 600 })], target);
+
+  assertEqual(prior?.anchor, 500, 'anchors on the weighted price of close jobs');
+  assertEqual([prior?.low, prior?.high], [400, 600], 'records the price range');
+  assertEqual(prior?.jobIds, [1, 2], 'records the anchoring jobs');
+
+  const won = similarJobsPricePrior(
+    [similarJob(1, { finalPrice: 400, outcome: 'won' }), similarJob(2, { finalPrice: 600, outcome: 'lost' })],
+    target
+  );
+  assertEqual(won?.anchor, 450, 'won jobs pull harder than lost ones');
+
+  assertEqual(
+    similarJobsPricePrior(
+      [
+        similarJob(1),
+        similarJob(2, { similarity: 0.5 }),
+        similarJob(3, { jobTypeId: 'faucet-install' }),
+        similarJob(4, { jobSize: 3 }),
+        similarJob(5, { finalPrice: null }),
+      ],
+      target
+    ),
+    null,
+    'needs enough close jobs of the same type and size with a price'
+  );
+
+  const many = similarJobsPricePrior(Array.from({ length: 10 }, (_, i) => similarJob(i + 1, { similarity: 1 })), target);
+  assertEqual(many?.weight, MAX_PRIOR_WEIGHT, 'caps the weight');
+  assert((prior?.weight ?? 0) < MAX_PRIOR_WEIGHT, 'fewer jobs carry less weight');
+}
+
+function testApply() {
+  console.log('\n--- applying the prior ---');
+  const prior = { anchor: 1200, weight: 0.5, low: 1000, high: 1400, jobIds: [1, 2] };
+
+  assertEqual(
+    applyPricePrior({ priceLow: 800, priceHigh: 1200 }, prior),
+    { priceLow: 880, priceHigh: 1320 },
+    'moves the midpoint toward the anchor by the weight'
+  );
+  assertEqual(
+    applyPricePrior({ priceLow: 800, priceHigh: 1200 }, { ...prior, anchor: 1080 }, 1.08),
+    { priceLow: 800, priceHigh: 1200 },
+    'compares the anchor with the package price'
+  );
+  assertEqual(
+    applyPricePrior({ priceLow: 0, priceHigh: 0 }, prior),
+    { priceLow: 0, priceHigh: 0 },
+    'leaves an empty range alone'
+  );
+}
+
+// ============ RUN ALL TESTS ============
+
+function runAllTests() {
+  console.log('='.repeat(50));
+  console.log('Similar-Job Price Prior Unit Tests');
+  console.log('='.repeat(50));
+
+  testPrior();
+  testApply();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runAllTests();
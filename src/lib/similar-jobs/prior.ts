@@ -0,0 +1,113 @@
+/**
+ * Similar-job price prior
+ *
+ * Turns a job's nearest past jobs (by photo embedding) into a price anchor
+ * and blends it into a drafted price range. Won jobs pull harder than lost
+ * ones; the anchor's weight grows with the number and closeness of the jobs
+ * behind it and never outweighs the pricebook.
+ *
+ * Safe to import from client and server code.
+ */
+
+export type SimilarJobOutcome = "won" | "lost";
+
+export type SimilarJob = {
+  jobId: number;
+  /** Cosine similarity of the jobs' photo embeddings (0-1) */
+  similarity: number;
+  jobTypeId: string;
+  jobTypeName: string;
+  jobSize: number;
+  address: string;
+  createdAt: string | null;
+  /** Submitted package total, or the amount the job closed at */
+  finalPrice: number | null;
+  outcome: SimilarJobOutcome | null;
+  /** Raw job_outcomes status (submitted, sent, accepted, won, lost) */
+  status: string | null;
+  scope: string[];
+  proposalId: number | null;
+  /** True when the job belongs to another member of the user's company */
+  shared: boolean;
+};
+
+export type SimilarJobsPricePrior = {
+  /** Outcome- and similarity-weighted price of the anchoring jobs */
+  anchor: number;
+  /** Share of the drafted price the anchor replaces (0 - MAX_PRIOR_WEIGHT) */
+  weight: number;
+  low: number;
+  high: number;
+  jobIds: number[];
+};
+
+/** Jobs less similar than this are shown but never anchor the price */
+export const MIN_PRIOR_SIMILARITY = 0.75;
+
+/** Anchoring jobs needed before the prior applies */
+export const MIN_PRIOR_JOBS = 2;
+
+/** The prior never moves the price more than halfway to the anchor */
+export const MAX_PRIOR_WEIGHT = 0.5;
+
+function outcomeWeight(outcome: SimilarJobOutcome | null): number {
+  if (outcome === "won") return 1.5;
+  if (outcome === "lost") return 0.5;
+  return 1;
+}
+
+/**
+ * Price anchor from the similar jobs of the same job type and size that have
+ * a price. Null when too few of them are close enough.
+ */
+export function similarJobsPricePrior(
+  jobs: SimilarJob[],
+  target: { jobTypeId: string; jobSize: number }
+): SimilarJobsPricePrior | null {
+  const anchors = jobs.filter(
+    (job) =>
+      job.jobTypeId === target.jobTypeId &&
+      job.jobSize === target.jobSize &&
+      job.similarity >= MIN_PRIOR_SIMILARITY &&
+      typeof job.finalPrice === "number" &&
+      job.finalPrice > 0
+  );
+  if (anchors.length < MIN_PRIOR_JOBS) return null;
+
+  let totalWeight = 0;
+  let weightedSum = 0;
+  for (const job of anchors) {
+    const w = job.similarity * outcomeWeight(job.outcome);
+    totalWeight += w;
+    weightedSum += w * (job.finalPrice as number);
+  }
+
+  const prices = anchors.map((job) => job.finalPrice as number);
+  return {
+    anchor: Math.round(weightedSum / totalWeight),
+    weight: Math.min(MAX_PRIOR_WEIGHT, totalWeight / (totalWeight + 2)),
+    low: Math.min(...prices),
+    high: Math.max(...prices),
+    jobIds: anchors.map((job) => job.jobId),
+  };
+}
+
+/**
+ * Scale a price range so its midpoint - at `packageMultiplier`, the package
+ * past jobs are usually submitted at - moves toward the prior's anchor.
+ */
+export function applyPricePrior(
+  range: { priceLow: number; priceHigh: number },
+  prior: SimilarJobsPricePrior,
+  packageMultiplier = 1
+): { priceLow: number; priceHigh: number } {
+  const current = ((range.priceLow + range.priceHigh) / 2) * packageMultiplier;
+  if (current <= 0) return range;
+
+  const target = current + (prior.anchor - current) * prior.weight;
+  const factor = target / current;
+  return {
+    priceLow: Math.round(range.priceLow * factor),
+    priceHigh: Math.round(range.priceHigh * factor),
+  };
+}
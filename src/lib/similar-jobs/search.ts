@@ -0,0 +1,128 @@
+import { db } from "@/lib/services/db";
+import { sql } from "drizzle-orm";
+import type { SimilarJob } from "./prior";
+
+/**
+ * Nearest past jobs to `jobId` by photo embedding, from the user's own jobs
+ * and - with `includeCompany` - those of the other members of their company.
+ *
+ * Filters on ownership explicitly: `match_jobs` relies on `auth.uid()`, which
+ * is never set on the server's connection.
+ *
+ * Only jobs embedded with the same model are compared: vectors from different
+ * models don't share a space, so their distances mean nothing.
+ *
+ * Returns null when the job has no embedding yet.
+ */
+export async function findSimilarJobs(params: {
+  jobId: number;
+  userId: string;
+  includeCompany?: boolean;
+  limit?: number;
+}): Promise<SimilarJob[] | null> {
+  const limit = Math.max(1, Math.min(20, params.limit ?? 5));
+
+  const current = await loadJobEmbedding(params.jobId);
+  if (!current) return null;
+  const { embedding, model } = current;
+
+  const owners = params.includeCompany
+    ? sql`(
+        j.user_id = ${params.userId}
+        OR j.user_id IN (
+          SELECT peer.user_id
+          FROM company_members me
+          JOIN company_members peer ON peer.company_id = me.company_id
+          WHERE me.user_id = ${params.userId}
+        )
+      )`
+    : sql`j.user_id = ${params.userId}`;
+
+  const result = await db.execute<{
+    job_id: number;
+    similarity: number;
+    job_type_id: string;
+    job_type_name: string;
+    job_size: number;
+    address: string;
+    created_at: string | null;
+    user_id: string;
+    final_price: string | null;
+    status: string | null;
+    scope: string[] | null;
+    proposal_id: number | null;
+  }>(
+    sql`
+      SELECT
+        j.id AS job_id,
+        (1 - (je.embedding <=> ${embedding}::vector))::float AS similarity,
+        j.job_type_id,
+        j.job_type_name,
+        j.job_size,
+        j.address,
+        j.created_at::text AS created_at,
+        j.user_id,
+        o.final_price::text AS final_price,
+        o.status,
+        (
+          SELECT array_agg(s.description ORDER BY s.id)
+          FROM scope_line_items s
+          WHERE s.job_id = j.id AND s.source = 'final'
+        ) AS scope,
+        (
+          SELECT d.proposal_id
+          FROM mobile_job_drafts d
+          WHERE d.job_id = j.id AND d.proposal_id IS NOT NULL
+          ORDER BY d.id DESC
+          LIMIT 1
+        ) AS proposal_id
+      FROM job_embeddings je
+      JOIN mobile_jobs j ON j.id = je.job_id
+      LEFT JOIN job_outcomes o ON o.job_id = j.id
+      WHERE je.job_id <> ${params.jobId}
+        AND ${owners}
+        ${model ? sql`AND je.model = ${model}` : sql``}
+      ORDER BY je.embedding <=> ${embedding}::vector
+      LIMIT ${limit}
+    `
+  );
+
+  return result.rows.map((row) => {
+    const status = row.status ? row.status.toLowerCase() : null;
+    const finalPrice = row.final_price === null ? null : Number(row.final_price);
+    return {
+      jobId: Number(row.job_id),
+      similarity: Math.max(0, Number(row.similarity)),
+      jobTypeId: row.job_type_id,
+      jobTypeName: row.job_type_name,
+      jobSize: Number(row.job_size),
+      address: row.address,
+      createdAt: row.created_at,
+      finalPrice: finalPrice !== null && Number.isFinite(finalPrice) ? finalPrice : null,
+      outcome: status === "won" || status === "lost" ? status : null,
+      status,
+      scope: row.scope ?? [],
+      proposalId: row.proposal_id === null ? null : Number(row.proposal_id),
+      shared: row.user_id !== params.userId,
+    };
+  });
+}
+
+async function loadJobEmbedding(jobId: number): Promise<{ embedding: string; model: string | null } | null> {
+  try {
+    const current = await db.execute<{ embedding: string; model: string | null }>(
+      sql`SELECT embedding::text as embedding, model FROM job_embeddings WHERE job_id = ${jobId} LIMIT 1`
+    );
+    const row = current.rows[0];
+    return row?.embedding ? { embedding: row.embedding, model: row.model } : null;
+  } catch (e) {
+    const err = e as { code?: string };
+    // Backward-compat: older `job_embeddings` tables have no `model` column (42703 = undefined_column)
+    if (err?.code !== "42703") throw e;
+    const current = await db.execute<{ embedding: string }>(
+      sql`SELECT embedding::text as embedding FROM job_embeddings WHERE job_id = ${jobId} LIMIT 1`
+    );
+    const embedding = current.rows[0]?.embedding;
+    return embedding ? { embedding, model: null } : null;
+  }
+}